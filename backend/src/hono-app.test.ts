@@ -1,5 +1,11 @@
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import type { DeploymentConfig, GatewayApiKey } from '@kubefoundry/shared';
 import app from './hono-app';
+import { kubernetesService } from './services/kubernetes';
+import { revisionService } from './services/revisions';
+import { apiKeyService } from './services/apiKeys';
+import { modelGatewayService, GatewayError } from './services/gateway';
+import { gatewayUsageService } from './services/gatewayUsage';
 
 // Helper to add timeout to async operations for K8s-dependent tests
 async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
@@ -12,6 +18,19 @@ async function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
 // Shorter timeout for tests that depend on K8s (which may not be available)
 const K8S_TEST_TIMEOUT = 2000;
 
+// Minimal valid Dynamo config for preview tests
+const previewConfig = {
+  provider: 'dynamo',
+  name: 'preview-test',
+  namespace: 'default',
+  modelId: 'Qwen/Qwen3-0.6B',
+  engine: 'vllm',
+  mode: 'aggregated',
+  replicas: 1,
+  hfTokenSecret: 'hf-token-secret',
+  resources: { gpu: 1 },
+};
+
 describe('Hono Routes', () => {
   describe('Health Routes', () => {
     test('GET /api/health returns healthy status', async () => {
@@ -108,6 +127,117 @@ describe('Hono Routes', () => {
         throw error;
       }
     });
+
+    test('POST /api/deployments/:name/chat/completions rejects requests without messages', async () => {
+      const res = await app.request('/api/deployments/qwen/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages: [] }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    test('POST /api/deployments/preview returns resources without dry-run results by default', async () => {
+      const res = await app.request('/api/deployments/preview', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(previewConfig),
+      });
+      expect(res.status).toBe(200);
+      const data = await res.json();
+      expect(data.resources.length).toBeGreaterThan(0);
+      expect(data.resources[0].dryRun).toBeUndefined();
+    });
+
+    test('POST /api/deployments/preview?dryRun=true reports a result per resource', async () => {
+      try {
+        const res = await withTimeout(app.request('/api/deployments/preview?dryRun=true', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(previewConfig),
+        }), K8S_TEST_TIMEOUT);
+        expect(res.status).toBe(200);
+        const data = await res.json();
+        for (const resource of data.resources) {
+          expect(typeof resource.dryRun.success).toBe('boolean');
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('timed out')) {
+          console.log('Skipping test: K8s API not available (timeout)');
+          return;
+        }
+        throw error;
+      }
+    });
+
+    test('POST /api/deployments/:name/benchmarks rejects an empty concurrency sweep', async () => {
+      const res = await app.request('/api/deployments/qwen/benchmarks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ concurrency: [] }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    test('GET /api/deployments/:name/logs/stream rejects an invalid or overlong filter', async () => {
+      const invalid = await app.request(`/api/deployments/qwen/logs/stream?filter=${encodeURIComponent('(unclosed')}`);
+      expect(invalid.status).toBe(400);
+
+      const overlong = await app.request(`/api/deployments/qwen/logs/stream?filter=${'a'.repeat(201)}`);
+      expect(overlong.status).toBe(400);
+    });
+    test('GET /api/deployments/:name/config reports a live resource that no longer validates', async () => {
+      const manifest = kubernetesService.buildDeploymentManifest(
+        { ...previewConfig, provider: 'native', name: 'qwen', namespace: 'kubefoundry-inference' } as DeploymentConfig,
+        'native'
+      );
+      // Edited by hand so the rebuilt config is invalid
+      const edited = { ...manifest, spec: { ...(manifest.spec as object), replicas: -1 } };
+      const getManifest = spyOn(kubernetesService, 'getDeploymentManifest').mockResolvedValue(edited);
+
+      try {
+        const res = await app.request('/api/deployments/qwen/config?namespace=kubefoundry-inference');
+        expect(res.status).toBe(422);
+        const data = await res.json();
+        expect(data.error.message).toContain('replicas');
+      } finally {
+        getManifest.mockRestore();
+      }
+    });
+
+    test('POST /api/deployments/:name/rollback restores the manifest recorded in the revision', async () => {
+      const current = { ...previewConfig, name: 'qwen', replicas: 2 } as DeploymentConfig;
+      const target = { ...previewConfig, name: 'qwen' } as DeploymentConfig;
+      // Differs from what the current code would generate for the target config
+      const targetManifest = kubernetesService.buildDeploymentManifest(target, 'dynamo');
+      (targetManifest.metadata as { labels: Record<string, string> }).labels['example.com/team'] = 'a';
+
+      const patchDeployment = spyOn(kubernetesService, 'patchDeployment').mockResolvedValue();
+      const recordRevision = spyOn(revisionService, 'recordRevision').mockResolvedValue(3);
+      const spies = [
+        spyOn(kubernetesService, 'getDeploymentManifest').mockResolvedValue({}),
+        spyOn(kubernetesService, 'getAppliedConfig').mockReturnValue(current),
+        spyOn(kubernetesService, 'getClusterGpuCapacity').mockRejectedValue(new Error('No cluster')),
+        spyOn(revisionService, 'listRevisions').mockResolvedValue([
+          { revision: 1, createdAt: '2025-01-01T00:00:00Z', changeCause: 'Created', config: target, manifest: targetManifest },
+          { revision: 2, createdAt: '2025-01-02T00:00:00Z', changeCause: 'Updated', config: current, manifest: {} },
+        ]),
+        patchDeployment,
+        recordRevision,
+      ];
+
+      try {
+        const res = await app.request('/api/deployments/qwen/rollback?namespace=default&revision=1', { method: 'POST' });
+        expect(res.status).toBe(200);
+        expect(await res.json()).toMatchObject({ revision: 3, rolledBackTo: 1 });
+
+        const patch = patchDeployment.mock.calls[0][1] as { metadata: { labels: Record<string, string> } };
+        expect(patch.metadata.labels['example.com/team']).toBe('a');
+        expect(recordRevision).toHaveBeenCalledWith(expect.objectContaining({ replicas: 1 }), targetManifest, 'Rollback to revision 1');
+      } finally {
+        spies.forEach((spy) => spy.mockRestore());
+      }
+    });
   });
 
   describe('Runtimes Routes', () => {
@@ -207,6 +337,21 @@ describe('Hono Routes', () => {
       expect(data.error.message).toBe('Authentication required');
     });
 
+    test('/metrics requires auth when AUTH_ENABLED=true unless METRICS_PUBLIC is set', async () => {
+      process.env.AUTH_ENABLED = 'true';
+
+      const res = await app.request('/metrics');
+      expect(res.status).toBe(401);
+
+      process.env.METRICS_PUBLIC = 'true';
+      try {
+        const publicRes = await app.request('/metrics');
+        expect(publicRes.status).toBe(200);
+      } finally {
+        delete process.env.METRICS_PUBLIC;
+      }
+    });
+
     test('invalid bearer token returns 401', async () => {
       process.env.AUTH_ENABLED = 'true';
 
@@ -219,6 +364,86 @@ describe('Hono Routes', () => {
     });
   });
 
+  describe('Model Gateway Routes', () => {
+    test('POST /v1/chat/completions requires a model', async () => {
+      const res = await app.request('/v1/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messages: [{ role: 'user', content: 'Hi' }] }),
+      });
+      // 503 when API keys cannot be read without a cluster
+      expect([400, 503]).toContain(res.status);
+    });
+
+    test('POST /api/gateway/keys validates the request', async () => {
+      const res = await app.request('/api/gateway/keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: '', requestsPerMinute: 0 }),
+      });
+      expect(res.status).toBe(400);
+    });
+
+    test('GET /api/usage rejects malformed dates', async () => {
+      const res = await app.request('/api/usage?from=yesterday');
+      expect(res.status).toBe(400);
+    });
+
+    test('POST /v1/chat/completions does not count requests no deployment serves', async () => {
+      const key: GatewayApiKey = {
+        id: 'abc123',
+        name: 'team-a',
+        prefix: 'kf-abcdef',
+        models: [],
+        namespaces: [],
+        requestsPerMinute: 1,
+        createdAt: '2025-01-01T00:00:00Z',
+      };
+      const spies = [
+        spyOn(apiKeyService, 'authenticate').mockResolvedValue(key),
+        spyOn(modelGatewayService, 'resolveBackend').mockRejectedValue(
+          new GatewayError("No deployment serves model 'missing'", 404)
+        ),
+      ];
+      const countRequest = spyOn(gatewayUsageService, 'countRequest');
+
+      try {
+        const res = await app.request('/v1/chat/completions', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer kf-test' },
+          body: JSON.stringify({ model: 'missing', messages: [{ role: 'user', content: 'Hi' }] }),
+        });
+        expect(res.status).toBe(404);
+        expect(countRequest).not.toHaveBeenCalled();
+        expect(gatewayUsageService.checkRateLimit(key).allowed).toBe(true);
+      } finally {
+        [...spies, countRequest].forEach((spy) => spy.mockRestore());
+      }
+    });
+
+    test('Unknown gateway route returns JSON 404', async () => {
+      const res = await app.request('/v1/unknown');
+      expect([404, 503]).toContain(res.status);
+      const data = await res.json();
+      if (res.status === 404) {
+        expect(data.error.message).toContain('Route not found');
+      }
+    });
+  });
+
+  describe('Metrics Route', () => {
+    test('GET /metrics serves request metrics labelled by route pattern', async () => {
+      await app.request('/api/health');
+      const res = await app.request('/metrics');
+      expect(res.status).toBe(200);
+      expect(res.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+      const body = await res.text();
+      expect(body).toContain('# TYPE kubefoundry_http_requests_total counter');
+      expect(body).toMatch(/kubefoundry_http_requests_total\{method="GET",route="\/api\/health",status="200"\} \d+/);
+      expect(body).toContain('# TYPE kubefoundry_pricing_cache_hit_ratio gauge');
+    });
+  });
+
   describe('404 Handling', () => {
     test('Unknown API route returns JSON 404', async () => {
       const res = await app.request('/api/unknown');
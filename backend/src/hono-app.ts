@@ -1,10 +1,12 @@
-import { Hono } from 'hono';
+import { Hono, type Context, type Next } from 'hono';
 import { cors } from 'hono/cors';
 import { compress } from 'hono/compress';
 import { HTTPException } from 'hono/http-exception';
 
 import { authService } from './services/auth';
+import { apiKeyService, isApiKey } from './services/apiKeys';
 import logger from './lib/logger';
+import { recordHttpRequest } from './lib/telemetry';
 import {
   isCompiled,
   loadStaticFiles,
@@ -28,6 +30,10 @@ import {
   aikit,
   aiconfigurator,
   costs,
+  gateway,
+  apiKeys,
+  usage,
+  telemetry,
 } from './routes';
 
 // Load static files at startup
@@ -62,6 +68,13 @@ app.use('*', async (c, next) => {
   await next();
 });
 
+// Request metrics, labelled by route pattern rather than path to keep the number of series bounded
+app.use('*', async (c, next) => {
+  const startedAt = performance.now();
+  await next();
+  recordHttpRequest(c.req.method, c.req.routePath, c.res.status, startedAt);
+});
+
 // ============================================================================
 // Auth Middleware
 // ============================================================================
@@ -74,8 +87,8 @@ const PUBLIC_ROUTES = [
   '/api/oauth',     // OAuth routes must be public for initial authentication
 ];
 
-// Auth middleware for protected API routes
-app.use('/api/*', async (c, next) => {
+// Auth middleware for protected API routes and the model gateway
+const requireAuth = async (c: Context, next: Next) => {
   // Skip auth if not enabled
   if (!authService.isAuthEnabled()) {
     return next();
@@ -114,6 +127,35 @@ app.use('/api/*', async (c, next) => {
   logger.debug({ username: result.user?.username }, 'Authenticated request');
 
   return next();
+};
+
+app.use('/api/*', requireAuth);
+
+// The model gateway takes its own API keys. Until the first key is created it
+// falls back to the same auth as the rest of the API.
+app.use('/v1/*', async (c, next) => {
+  const authHeader = c.req.header('Authorization');
+  const token = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : undefined;
+
+  try {
+    if (token && isApiKey(token)) {
+      const apiKey = await apiKeyService.authenticate(token);
+      if (!apiKey) {
+        return c.json({ error: { message: 'Invalid API key', statusCode: 401 } }, 401);
+      }
+      c.set('apiKey', apiKey);
+      return next();
+    }
+
+    if (await apiKeyService.hasKeys()) {
+      return c.json({ error: { message: 'API key required', statusCode: 401 } }, 401);
+    }
+  } catch (error) {
+    logger.error({ error }, 'Failed to read gateway API keys');
+    return c.json({ error: { message: 'Unable to verify API keys', statusCode: 503 } }, 503);
+  }
+
+  return requireAuth(c, next);
 });
 
 // API Routes
@@ -130,6 +172,21 @@ app.route('/api/runtimes', runtimes);
 app.route('/api/aikit', aikit);
 app.route('/api/aiconfigurator', aiconfigurator);
 app.route('/api/costs', costs);
+app.route('/api/gateway/keys', apiKeys);
+app.route('/api/usage', usage);
+
+// OpenAI-compatible model gateway
+app.route('/v1', gateway);
+
+// KubeFoundry's own Prometheus metrics. With auth enabled scrapers need a
+// token too, unless METRICS_PUBLIC opens the endpoint on purpose.
+app.use('/metrics', (c, next) => {
+  if (authService.isMetricsPublic()) {
+    return next();
+  }
+  return requireAuth(c, next);
+});
+app.route('/metrics', telemetry);
 
 // Static file serving middleware - uses Bun.file() for zero-copy serving
 app.use('*', async (c, next) => {
@@ -149,8 +206,8 @@ app.use('*', async (c, next) => {
 
 // SPA fallback
 app.notFound((c) => {
-  // If it's an API route that wasn't matched, return 404 JSON
-  if (c.req.path.startsWith('/api/')) {
+  // If it's an API or gateway route that wasn't matched, return 404 JSON
+  if (c.req.path.startsWith('/api/') || c.req.path.startsWith('/v1/')) {
     logger.warn(
       { method: c.req.method, url: c.req.url, statusCode: 404 },
       `No route matched: ${c.req.method} ${c.req.url}`
@@ -1,6 +1,10 @@
 import app from './hono-app';
 import logger from './lib/logger';
 import { authService } from './services/auth';
+import { deploymentWatcher } from './services/deploymentWatcher';
+import { gatewayUsageService } from './services/gatewayUsage';
+import { metricsService } from './services/metrics';
+import { providerRegistry } from './providers';
 
 const PORT = process.env.PORT || 3001;
 
@@ -98,6 +102,9 @@ Examples:
 }
 
 async function startServer(): Promise<void> {
+  // Declarative providers must be registered before anything lists providers
+  await providerRegistry.loadPlugins();
+
   const server = Bun.serve({
     port: Number(PORT),
     fetch: app.fetch,
@@ -106,6 +113,26 @@ async function startServer(): Promise<void> {
     idleTimeout: 255,
   });
 
+  // Watch provider resources so deployment lists are served from cache
+  deploymentWatcher.start();
+
+  // Metrics reads kept for rates and percentiles are dropped with their deployment
+  deploymentWatcher.subscribe((event) => {
+    if (event.type === 'delete') {
+      metricsService.forgetDeployment(event.name, event.namespace);
+    }
+  });
+
+  // Save gateway usage not yet flushed before the process exits
+  const shutdown = async (signal: NodeJS.Signals) => {
+    logger.info({ signal }, 'Shutting down');
+    server.stop();
+    await Promise.allSettled([gatewayUsageService.flush(), deploymentWatcher.stop()]);
+    process.exit(0);
+  };
+  process.once('SIGTERM', shutdown);
+  process.once('SIGINT', shutdown);
+
   const authEnabled = authService.isAuthEnabled();
   
   logger.info({ port: server.port, authEnabled }, `🚀 KubeFoundry backend running on http://localhost:${server.port}`);
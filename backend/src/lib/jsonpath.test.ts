@@ -0,0 +1,60 @@
+import { describe, test, expect } from 'bun:test';
+import { parseJsonPath, readJsonPath } from './jsonpath';
+
+const resource = {
+  metadata: {
+    name: 'qwen',
+    labels: { 'app.kubernetes.io/name': 'qwen' },
+  },
+  spec: {
+    containers: [{ name: 'server', image: 'vllm/vllm-openai' }],
+  },
+  status: {
+    readyReplicas: 2,
+    conditions: [
+      { type: 'Progressing', status: 'True' },
+      { type: 'Ready', status: 'False', reason: 'Loading' },
+    ],
+  },
+};
+
+describe('readJsonPath', () => {
+  test('reads nested members', () => {
+    expect(readJsonPath(resource, '$.status.readyReplicas')).toBe(2);
+  });
+
+  test('returns the root for $', () => {
+    expect(readJsonPath(resource, '$')).toBe(resource);
+  });
+
+  test('reads array indexes', () => {
+    expect(readJsonPath(resource, '$.spec.containers[0].image')).toBe('vllm/vllm-openai');
+  });
+
+  test('reads quoted member names containing dots', () => {
+    expect(readJsonPath(resource, "$.metadata.labels['app.kubernetes.io/name']")).toBe('qwen');
+  });
+
+  test('selects the first array item matching a filter', () => {
+    expect(readJsonPath(resource, "$.status.conditions[?(@.type=='Ready')].reason")).toBe('Loading');
+    expect(readJsonPath(resource, '$.status.conditions[?(@.type=="Ready")].status')).toBe('False');
+  });
+
+  test('returns undefined for missing steps', () => {
+    expect(readJsonPath(resource, '$.status.availableReplicas')).toBeUndefined();
+    expect(readJsonPath(resource, '$.spec.containers[3].image')).toBeUndefined();
+    expect(readJsonPath(resource, "$.status.conditions[?(@.type=='Available')].status")).toBeUndefined();
+    expect(readJsonPath({}, '$.status.readyReplicas')).toBeUndefined();
+  });
+});
+
+describe('parseJsonPath', () => {
+  test('rejects expressions not starting at the root', () => {
+    expect(() => parseJsonPath('status.phase')).toThrow("must start with '$'");
+  });
+
+  test('rejects unsupported syntax', () => {
+    expect(() => parseJsonPath('$.status.conditions[*].type')).toThrow('Unsupported JSONPath');
+    expect(() => parseJsonPath('$..name')).toThrow('Unsupported JSONPath');
+  });
+});
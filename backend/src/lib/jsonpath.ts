@@ -0,0 +1,92 @@
+/**
+ * Minimal JSONPath evaluation for reading fields out of Kubernetes objects
+ *
+ * Supports the subset needed to describe resource status:
+ * - `$.status.readyReplicas` member access
+ * - `$.spec.containers[0]` array indexes
+ * - `$.metadata.labels['app.kubernetes.io/name']` quoted member names
+ * - `$.status.conditions[?(@.type=='Ready')]` equality filters, which select the first match
+ */
+
+type Segment =
+  | { kind: 'member'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'filter'; path: string[]; value: string };
+
+const SEGMENT_PATTERN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\]|\[\?\(\s*@\.([\w.-]+)\s*==\s*(?:'([^']*)'|"([^"]*)"|([\w.-]+))\s*\)\]/y;
+
+const compiled = new Map<string, Segment[]>();
+
+/**
+ * Parse a JSONPath expression into segments
+ * @throws Error if the expression is outside the supported subset
+ */
+export function parseJsonPath(expression: string): Segment[] {
+  const cached = compiled.get(expression);
+  if (cached) {
+    return cached;
+  }
+
+  const trimmed = expression.trim();
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`JSONPath '${expression}' must start with '$'`);
+  }
+
+  const segments: Segment[] = [];
+  let position = 1;
+  while (position < trimmed.length) {
+    SEGMENT_PATTERN.lastIndex = position;
+    const match = SEGMENT_PATTERN.exec(trimmed);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath '${expression}' at position ${position}`);
+    }
+
+    const [, member, index, singleQuoted, doubleQuoted, filterPath, filterSingle, filterDouble, filterBare] = match;
+    if (member !== undefined) {
+      segments.push({ kind: 'member', name: member });
+    } else if (index !== undefined) {
+      segments.push({ kind: 'index', index: Number(index) });
+    } else if (singleQuoted !== undefined || doubleQuoted !== undefined) {
+      segments.push({ kind: 'member', name: (singleQuoted ?? doubleQuoted)! });
+    } else {
+      segments.push({
+        kind: 'filter',
+        path: filterPath!.split('.'),
+        value: (filterSingle ?? filterDouble ?? filterBare)!,
+      });
+    }
+    position = SEGMENT_PATTERN.lastIndex;
+  }
+
+  compiled.set(expression, segments);
+  return segments;
+}
+
+function member(value: unknown, name: string): unknown {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)[name]
+    : undefined;
+}
+
+/**
+ * Read the value a JSONPath expression points at, or undefined if any step is missing
+ */
+export function readJsonPath(obj: unknown, expression: string): unknown {
+  let current = obj;
+  for (const segment of parseJsonPath(expression)) {
+    if (current === undefined || current === null) {
+      return undefined;
+    }
+
+    if (segment.kind === 'member') {
+      current = member(current, segment.name);
+    } else if (segment.kind === 'index') {
+      current = Array.isArray(current) ? current[segment.index] : undefined;
+    } else {
+      current = Array.isArray(current)
+        ? current.find((item) => String(segment.path.reduce(member, item as unknown)) === segment.value)
+        : undefined;
+    }
+  }
+  return current;
+}
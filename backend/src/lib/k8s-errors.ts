@@ -188,6 +188,13 @@ export function getK8sErrorStatusCode(error: unknown): number {
   return 500;
 }
 
+/**
+ * Whether a write failed because the object changed since it was read (or already exists)
+ */
+export function isConflictError(error: unknown): boolean {
+  return getK8sErrorStatusCode(error) === 409;
+}
+
 /**
  * Log detailed K8s error information and return user-friendly message
  */
@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'bun:test';
+import type { LoraAdapter } from '@kubefoundry/shared';
+import {
+  adapterVolumeMounts,
+  adapterVolumes,
+  buildLoraArgs,
+  extractLoraModules,
+  getAdapterNames,
+  getMountedAdapterNames,
+  parseLoraAdapters,
+  parseMountedAdapters,
+} from './lora';
+
+const adapters: LoraAdapter[] = [
+  { name: 'sql', pvc: { claimName: 'team-a', path: 'sql' } },
+  { name: 'hf', huggingFaceRepo: 'org/hf-lora' },
+  { name: 'chat', pvc: { claimName: 'team-b', path: 'chat/v2' } },
+  { name: 'docs', pvc: { claimName: 'team-a', path: 'docs' } },
+];
+
+describe('buildLoraArgs', () => {
+  test('returns nothing without adapters', () => {
+    expect(buildLoraArgs()).toEqual([]);
+    expect(buildLoraArgs([])).toEqual([]);
+  });
+
+  test('serves each adapter under its own name', () => {
+    expect(buildLoraArgs(adapters)).toEqual([
+      '--enable-lora',
+      '--max-loras',
+      '4',
+      '--lora-modules',
+      'sql=/adapters/sql',
+      'hf=org/hf-lora',
+      'chat=/adapters/chat',
+      'docs=/adapters/docs',
+    ]);
+  });
+});
+
+describe('adapter volumes', () => {
+  test('shares one volume per claim', () => {
+    expect(adapterVolumes(adapters).map((v) => v.name)).toEqual(['lora-0', 'lora-1']);
+    expect(adapterVolumeMounts(adapters).map((m) => [m.name, m.subPath])).toEqual([
+      ['lora-0', 'sql'],
+      ['lora-1', 'chat/v2'],
+      ['lora-0', 'docs'],
+    ]);
+  });
+});
+
+describe('parseLoraAdapters', () => {
+  test('recovers adapters from generated flags, volumes and mounts', () => {
+    const modules = extractLoraModules(buildLoraArgs(adapters));
+    expect(parseLoraAdapters(modules, adapterVolumes(adapters), adapterVolumeMounts(adapters))).toEqual(adapters);
+  });
+
+  test('treats unmounted paths as HuggingFace repos', () => {
+    expect(parseLoraAdapters(['x=/adapters/x'], undefined, undefined)).toEqual([
+      { name: 'x', huggingFaceRepo: '/adapters/x' },
+    ]);
+  });
+
+  test('returns undefined without modules', () => {
+    expect(parseLoraAdapters([], [], [])).toBeUndefined();
+    expect(parseLoraAdapters(['malformed'], [], [])).toBeUndefined();
+  });
+});
+
+describe('parseMountedAdapters', () => {
+  test('recovers the claim adapters from their mounts alone', () => {
+    const mounts = [{ name: 'model-cache', mountPath: '/model-cache' }, ...adapterVolumeMounts(adapters)];
+    expect(parseMountedAdapters(adapterVolumes(adapters), mounts)).toEqual(adapters.filter((a) => a.pvc));
+    expect(getMountedAdapterNames(mounts)).toEqual(['sql', 'chat', 'docs']);
+  });
+});
+
+describe('getAdapterNames', () => {
+  test('stops at the next flag', () => {
+    const tokens = ['--model', 'm', '--lora-modules', 'a=org/a', 'b=/adapters/b', '--port', '8000'];
+    expect(getAdapterNames(tokens)).toEqual(['a', 'b']);
+  });
+
+  test('returns nothing without --lora-modules', () => {
+    expect(getAdapterNames(['--model', 'm'])).toEqual([]);
+  });
+});
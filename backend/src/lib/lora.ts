@@ -0,0 +1,148 @@
+import type { LoraAdapter } from '@kubefoundry/shared';
+
+/**
+ * Directory PVC adapters are mounted under, one subdirectory per adapter
+ */
+export const ADAPTERS_MOUNT_PATH = '/adapters';
+
+const ADAPTER_VOLUME_PREFIX = 'lora-';
+
+function claimNames(adapters: LoraAdapter[]): string[] {
+  return [...new Set(adapters.flatMap((a) => (a.pvc ? [a.pvc.claimName] : [])))];
+}
+
+/**
+ * Where vLLM loads an adapter from: the repo id for HuggingFace, which vLLM
+ * downloads itself, or the adapter's mount for a PVC
+ */
+export function adapterPath(adapter: LoraAdapter): string {
+  return adapter.pvc ? `${ADAPTERS_MOUNT_PATH}/${adapter.name}` : adapter.huggingFaceRepo!;
+}
+
+/**
+ * vLLM flags serving each adapter under its own model name
+ */
+export function buildLoraArgs(adapters: LoraAdapter[] = []): string[] {
+  if (adapters.length === 0) {
+    return [];
+  }
+  return [
+    '--enable-lora',
+    // Lets every adapter be in the same batch
+    '--max-loras',
+    String(adapters.length),
+    '--lora-modules',
+    ...adapters.map((a) => `${a.name}=${adapterPath(a)}`),
+  ];
+}
+
+/**
+ * One volume per claim holding adapters
+ */
+export function adapterVolumes(adapters: LoraAdapter[] = []): Record<string, unknown>[] {
+  return claimNames(adapters).map((claimName, index) => ({
+    name: `${ADAPTER_VOLUME_PREFIX}${index}`,
+    persistentVolumeClaim: { claimName, readOnly: true },
+  }));
+}
+
+/**
+ * Mounts each PVC adapter's directory at its own path
+ */
+export function adapterVolumeMounts(adapters: LoraAdapter[] = []): Record<string, unknown>[] {
+  const claims = claimNames(adapters);
+  return adapters.flatMap((a) => a.pvc
+    ? [{
+      name: `${ADAPTER_VOLUME_PREFIX}${claims.indexOf(a.pvc.claimName)}`,
+      mountPath: adapterPath(a),
+      subPath: a.pvc.path,
+      readOnly: true,
+    }]
+    : []);
+}
+
+/**
+ * Recover adapters from `name=path` --lora-modules values and the pod's
+ * volumes and mounts
+ */
+export function parseLoraAdapters(
+  modules: string[],
+  volumes: unknown,
+  volumeMounts: unknown
+): LoraAdapter[] | undefined {
+  const podVolumes = (Array.isArray(volumes) ? volumes : []) as Array<{
+    name?: string;
+    persistentVolumeClaim?: { claimName?: string };
+  }>;
+  const mounts = (Array.isArray(volumeMounts) ? volumeMounts : []) as Array<{
+    name?: string;
+    mountPath?: string;
+    subPath?: string;
+  }>;
+
+  const adapters: LoraAdapter[] = [];
+  for (const module of modules) {
+    const separator = module.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+    const name = module.slice(0, separator);
+    const path = module.slice(separator + 1);
+
+    const mount = mounts.find((m) => m.mountPath === path);
+    const claimName = mount && podVolumes.find((v) => v.name === mount.name)?.persistentVolumeClaim?.claimName;
+    if (claimName && mount?.subPath) {
+      adapters.push({ name, pvc: { claimName, path: mount.subPath } });
+    } else {
+      adapters.push({ name, huggingFaceRepo: path });
+    }
+  }
+  return adapters.length > 0 ? adapters : undefined;
+}
+
+/**
+ * `name=path` modules for the adapters mounted under ADAPTERS_MOUNT_PATH, for
+ * servers that load whatever is found there rather than taking --lora-modules
+ */
+function mountedAdapterModules(volumeMounts: unknown): string[] {
+  const mounts = (Array.isArray(volumeMounts) ? volumeMounts : []) as Array<{ mountPath?: string }>;
+  return mounts.flatMap((m) => m.mountPath?.startsWith(`${ADAPTERS_MOUNT_PATH}/`)
+    ? [`${m.mountPath.slice(ADAPTERS_MOUNT_PATH.length + 1)}=${m.mountPath}`]
+    : []);
+}
+
+/**
+ * Recover the PVC adapters mounted under ADAPTERS_MOUNT_PATH
+ */
+export function parseMountedAdapters(volumes: unknown, volumeMounts: unknown): LoraAdapter[] | undefined {
+  return parseLoraAdapters(mountedAdapterModules(volumeMounts), volumes, volumeMounts);
+}
+
+/**
+ * Names of the adapters mounted under ADAPTERS_MOUNT_PATH
+ */
+export function getMountedAdapterNames(volumeMounts: unknown): string[] {
+  return mountedAdapterModules(volumeMounts).map((module) => module.split('=')[0]);
+}
+
+/**
+ * Values following --lora-modules in a tokenized command line
+ */
+export function extractLoraModules(tokens: string[]): string[] {
+  const start = tokens.indexOf('--lora-modules');
+  if (start < 0) {
+    return [];
+  }
+  const modules: string[] = [];
+  for (let i = start + 1; i < tokens.length && !tokens[i].startsWith('--'); i++) {
+    modules.push(tokens[i]);
+  }
+  return modules;
+}
+
+/**
+ * Adapter model names served by a command line
+ */
+export function getAdapterNames(tokens: string[]): string[] {
+  return extractLoraModules(tokens).map((module) => module.split('=')[0]).filter(Boolean);
+}
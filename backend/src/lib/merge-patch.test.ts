@@ -0,0 +1,51 @@
+import { describe, test, expect } from 'bun:test';
+import { createMergePatch, isEmptyPatch } from './merge-patch';
+
+describe('createMergePatch', () => {
+  test('returns empty patch for identical objects', () => {
+    const obj = { spec: { replicas: 1, args: ['a', 'b'] } };
+    const patch = createMergePatch(obj, structuredClone(obj));
+    expect(patch).toEqual({});
+    expect(isEmptyPatch(patch)).toBe(true);
+  });
+
+  test('includes changed primitives only', () => {
+    const patch = createMergePatch(
+      { spec: { replicas: 1, image: 'a' } },
+      { spec: { replicas: 3, image: 'a' } }
+    );
+    expect(patch).toEqual({ spec: { replicas: 3 } });
+  });
+
+  test('sets removed keys to null', () => {
+    const patch = createMergePatch(
+      { spec: { replicas: 1, routerMode: 'kv' } },
+      { spec: { replicas: 1 } }
+    );
+    expect(patch).toEqual({ spec: { routerMode: null } });
+  });
+
+  test('treats undefined values as removed', () => {
+    const patch = createMergePatch(
+      { spec: { contextLength: 4096 } },
+      { spec: { contextLength: undefined } }
+    );
+    expect(patch).toEqual({ spec: { contextLength: null } });
+  });
+
+  test('replaces arrays wholesale', () => {
+    const patch = createMergePatch(
+      { args: ['--a', '--b'] },
+      { args: ['--a', '--c'] }
+    );
+    expect(patch).toEqual({ args: ['--a', '--c'] });
+  });
+
+  test('adds new nested objects', () => {
+    const patch = createMergePatch(
+      { spec: {} },
+      { spec: { resources: { limits: { gpu: '2' } } } }
+    );
+    expect(patch).toEqual({ spec: { resources: { limits: { gpu: '2' } } } });
+  });
+});
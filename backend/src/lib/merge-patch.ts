@@ -0,0 +1,55 @@
+/**
+ * JSON merge patch (RFC 7386) helpers
+ */
+
+type JsonObject = Record<string, unknown>;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Compute a JSON merge patch that turns `previous` into `desired`.
+ * Keys removed from `desired` are set to null, nested objects are diffed
+ * recursively, and arrays or primitives that changed are replaced wholesale.
+ */
+export function createMergePatch(previous: JsonObject, desired: JsonObject): JsonObject {
+  const patch: JsonObject = {};
+
+  for (const key of Object.keys(previous)) {
+    if (!(key in desired) || desired[key] === undefined) {
+      if (previous[key] !== undefined) {
+        patch[key] = null;
+      }
+    }
+  }
+
+  for (const [key, value] of Object.entries(desired)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const prevValue = previous[key];
+    if (isPlainObject(value) && isPlainObject(prevValue)) {
+      const nested = createMergePatch(prevValue, value);
+      if (Object.keys(nested).length > 0) {
+        patch[key] = nested;
+      }
+    } else if (!isEqual(prevValue, value)) {
+      patch[key] = value;
+    }
+  }
+
+  return patch;
+}
+
+/**
+ * Check whether a merge patch contains no changes
+ */
+export function isEmptyPatch(patch: JsonObject): boolean {
+  return Object.keys(patch).length === 0;
+}
@@ -0,0 +1,58 @@
+import type { ModelCacheConfig } from '@kubefoundry/shared';
+
+/**
+ * Where the cache claim is mounted; HF_HOME points here so every
+ * HuggingFace client in the pod reads and writes the shared cache
+ */
+export const MODEL_CACHE_MOUNT_PATH = '/model-cache';
+
+const MODEL_CACHE_VOLUME = 'model-cache';
+
+export function modelCacheVolume(cache: ModelCacheConfig): Record<string, unknown> {
+  return {
+    name: MODEL_CACHE_VOLUME,
+    persistentVolumeClaim: { claimName: cache.claimName },
+  };
+}
+
+export function modelCacheVolumeMount(): Record<string, unknown> {
+  return { name: MODEL_CACHE_VOLUME, mountPath: MODEL_CACHE_MOUNT_PATH };
+}
+
+export function modelCacheEnv(): Record<string, unknown> {
+  return { name: 'HF_HOME', value: MODEL_CACHE_MOUNT_PATH };
+}
+
+/**
+ * The claim backing the cache volume of a pod spec, if it has one
+ */
+export function parseModelCache(spec: Record<string, unknown> | undefined): ModelCacheConfig | undefined {
+  const volumes = (spec?.volumes || []) as Array<{ name?: string; persistentVolumeClaim?: { claimName?: string } }>;
+  const claimName = volumes.find((v) => v.name === MODEL_CACHE_VOLUME)?.persistentVolumeClaim?.claimName;
+  return claimName ? { claimName } : undefined;
+}
+
+/**
+ * PersistentVolumeClaim to create for a cache that has a size
+ */
+export function buildModelCacheClaim(namespace: string, cache: ModelCacheConfig): Record<string, unknown> {
+  return {
+    apiVersion: 'v1',
+    kind: 'PersistentVolumeClaim',
+    metadata: {
+      name: cache.claimName,
+      namespace,
+      labels: {
+        'app.kubernetes.io/name': 'kubefoundry',
+        'app.kubernetes.io/managed-by': 'kubefoundry',
+        'kubefoundry.io/model-cache': 'true',
+      },
+    },
+    spec: {
+      // Replicas on different nodes and prefetch Jobs share the claim
+      accessModes: [cache.accessMode || 'ReadWriteMany'],
+      ...(cache.storageClassName && { storageClassName: cache.storageClassName }),
+      resources: { requests: { storage: cache.size } },
+    },
+  };
+}
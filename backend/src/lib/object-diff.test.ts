@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { diffObjects } from './object-diff';
+
+describe('diffObjects', () => {
+  test('returns no changes for equal objects', () => {
+    expect(diffObjects({ a: 1, b: { c: [1, 2] } }, { a: 1, b: { c: [1, 2] } })).toEqual([]);
+  });
+
+  test('reports changed, added and removed leaves', () => {
+    const changes = diffObjects(
+      { replicas: 1, routerMode: 'kv', engineArgs: { 'max-num-seqs': 32 } },
+      { replicas: 3, engineArgs: { 'max-num-seqs': 32, 'kv-cache-dtype': 'fp8' } }
+    );
+    expect(changes).toEqual([
+      { path: 'engineArgs.kv-cache-dtype', to: 'fp8' },
+      { path: 'replicas', from: 1, to: 3 },
+      { path: 'routerMode', from: 'kv' },
+    ]);
+  });
+
+  test('walks arrays by index', () => {
+    expect(diffObjects({ args: ['a', 'b'] }, { args: ['a', 'c', 'd'] })).toEqual([
+      { path: 'args.1', from: 'b', to: 'c' },
+      { path: 'args.2', to: 'd' },
+    ]);
+  });
+
+  test('reports a type change as a single leaf', () => {
+    expect(diffObjects({ resources: { gpu: 1 } }, { resources: null })).toEqual([
+      { path: 'resources', from: { gpu: 1 }, to: null },
+    ]);
+  });
+});
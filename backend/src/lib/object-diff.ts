@@ -0,0 +1,46 @@
+/**
+ * Structural diff of JSON-like objects
+ */
+
+export interface ObjectChange {
+  /** Dot-separated path to the changed value (array indices included) */
+  path: string;
+  /** Value before the change; omitted when the value was added */
+  from?: unknown;
+  /** Value after the change; omitted when the value was removed */
+  to?: unknown;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * List the leaf values that differ between two objects.
+ * Objects and arrays are walked recursively; results are ordered by path.
+ */
+export function diffObjects(before: unknown, after: unknown, path = ''): ObjectChange[] {
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+
+  const bothObjects = isObject(before) && isObject(after);
+  const bothArrays = Array.isArray(before) && Array.isArray(after);
+
+  if (!bothObjects && !bothArrays) {
+    return [{
+      path,
+      ...(before !== undefined && { from: before }),
+      ...(after !== undefined && { to: after }),
+    }];
+  }
+
+  const a = before as Record<string, unknown>;
+  const b = after as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])];
+  if (bothObjects) {
+    keys.sort();
+  }
+
+  return keys.flatMap((key) => diffObjects(a[key], b[key], path ? `${path}.${key}` : key));
+}
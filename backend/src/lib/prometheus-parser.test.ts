@@ -7,6 +7,11 @@ import {
   getHistogramCount,
   calculateHistogramAverage,
   sumMetricValues,
+  getHistogramBuckets,
+  histogramQuantile,
+  calculateHistogramPercentiles,
+  calculateCounterRate,
+  counterIncreases,
 } from './prometheus-parser';
 
 describe('parsePrometheusText', () => {
@@ -248,3 +253,93 @@ requests_total{endpoint="/health"} 50
     expect(sumMetricValues(metrics, 'other_metric')).toBe(0);
   });
 });
+
+describe('histogram percentiles', () => {
+  const histogramText = `
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="0.5"} 20
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="1.0"} 40
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="5.0"} 49
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="+Inf"} 50
+vllm:e2e_request_latency_seconds_bucket{pod="b",le="0.5"} 30
+vllm:e2e_request_latency_seconds_bucket{pod="b",le="1.0"} 40
+vllm:e2e_request_latency_seconds_bucket{pod="b",le="5.0"} 50
+vllm:e2e_request_latency_seconds_bucket{pod="b",le="+Inf"} 50
+`;
+
+  it('sums buckets across series and sorts them by bound', () => {
+    const metrics = parsePrometheusText(histogramText);
+    expect(getHistogramBuckets(metrics, 'vllm:e2e_request_latency_seconds')).toEqual([
+      { le: 0.5, count: 50 },
+      { le: 1, count: 80 },
+      { le: 5, count: 99 },
+      { le: Infinity, count: 100 },
+    ]);
+  });
+
+  it('interpolates within the bucket a quantile falls into', () => {
+    const buckets = getHistogramBuckets(parsePrometheusText(histogramText), 'vllm:e2e_request_latency_seconds');
+    expect(histogramQuantile(buckets, 0.5)).toBe(0.5);
+    expect(histogramQuantile(buckets, 0.25)).toBe(0.25);
+    expect(histogramQuantile(buckets, 0.9)).toBeCloseTo(1 + 4 * (10 / 19));
+  });
+
+  it('reports quantiles in the +Inf bucket at the highest finite bound', () => {
+    const buckets = getHistogramBuckets(parsePrometheusText(histogramText), 'vllm:e2e_request_latency_seconds');
+    expect(histogramQuantile(buckets, 0.995)).toBe(5);
+  });
+
+  it('calculates p50, p90 and p99', () => {
+    const percentiles = calculateHistogramPercentiles(parsePrometheusText(histogramText), 'vllm:e2e_request_latency_seconds');
+    expect(percentiles?.p50).toBe(0.5);
+    expect(percentiles?.p99).toBe(5);
+  });
+
+  it('returns undefined without observations or a +Inf bucket', () => {
+    expect(calculateHistogramPercentiles(parsePrometheusText(`x_bucket{le="+Inf"} 0`), 'x')).toBeUndefined();
+    expect(calculateHistogramPercentiles(parsePrometheusText(`x_bucket{le="1"} 3`), 'x')).toBeUndefined();
+    expect(calculateHistogramPercentiles(parsePrometheusText(`x_sum 3`), 'x')).toBeUndefined();
+  });
+});
+
+describe('counterIncreases', () => {
+  it('subtracts each histogram bucket separately', () => {
+    const before = parsePrometheusText(`
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="1"} 4
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="+Inf"} 5
+`);
+    const after = parsePrometheusText(`
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="1"} 10
+vllm:e2e_request_latency_seconds_bucket{pod="a",le="+Inf"} 15
+`);
+    expect(counterIncreases(before, after, 'vllm:e2e_request_latency_seconds_bucket').map((m) => m.value)).toEqual([6, 10]);
+  });
+});
+
+describe('calculateCounterRate', () => {
+  const before = parsePrometheusText(`
+vllm:generation_tokens_total{pod="a"} 1000
+vllm:generation_tokens_total{pod="b"} 500
+`);
+
+  it('sums the per-second increase of each series', () => {
+    const after = parsePrometheusText(`
+vllm:generation_tokens_total{pod="a"} 1200
+vllm:generation_tokens_total{pod="b"} 800
+`);
+    expect(calculateCounterRate(before, after, 'vllm:generation_tokens_total', 10)).toBe(50);
+  });
+
+  it('counts a reset series from zero and skips new series', () => {
+    const after = parsePrometheusText(`
+vllm:generation_tokens_total{pod="a"} 100
+vllm:generation_tokens_total{pod="c"} 9000
+`);
+    expect(calculateCounterRate(before, after, 'vllm:generation_tokens_total', 10)).toBe(10);
+  });
+
+  it('returns undefined without a matching earlier series or elapsed time', () => {
+    const after = parsePrometheusText(`vllm:generation_tokens_total{pod="c"} 10`);
+    expect(calculateCounterRate(before, after, 'vllm:generation_tokens_total', 10)).toBeUndefined();
+    expect(calculateCounterRate(before, before, 'vllm:generation_tokens_total', 0)).toBeUndefined();
+  });
+});
@@ -3,7 +3,7 @@
  * Parses the Prometheus exposition format into structured metric values
  */
 
-import type { RawMetricValue } from '@kubefoundry/shared';
+import type { HistogramPercentiles, RawMetricValue } from '@kubefoundry/shared';
 
 /**
  * Parse Prometheus text exposition format into structured metric values
@@ -144,3 +144,125 @@ export function sumMetricValues(metrics: RawMetricValue[], name: string): number
   const matching = findAllMetrics(metrics, name);
   return matching.reduce((sum, m) => sum + m.value, 0);
 }
+
+/**
+ * Cumulative count of observations at or below an upper bound
+ */
+export interface HistogramBucket {
+  le: number;
+  count: number;
+}
+
+/**
+ * Identity of a series within a metric family, bucket bounds included
+ */
+function seriesKey(metric: RawMetricValue): string {
+  return Object.keys(metric.labels)
+    .sort()
+    .map((key) => `${key}=${metric.labels[key]}`)
+    .join(',');
+}
+
+/**
+ * Get the buckets of a histogram from its _bucket series, summed across label
+ * combinations (pods, models) and sorted by upper bound
+ */
+export function getHistogramBuckets(metrics: RawMetricValue[], baseName: string): HistogramBucket[] {
+  const counts = new Map<number, number>();
+  for (const metric of findAllMetrics(metrics, `${baseName}_bucket`)) {
+    const le = metric.labels.le === '+Inf' ? Infinity : parseFloat(metric.labels.le);
+    if (Number.isNaN(le)) {
+      continue;
+    }
+    counts.set(le, (counts.get(le) || 0) + metric.value);
+  }
+
+  return [...counts.entries()]
+    .map(([le, count]) => ({ le, count }))
+    .sort((a, b) => a.le - b.le);
+}
+
+/**
+ * Estimate a quantile from cumulative buckets by linear interpolation within
+ * the bucket the quantile falls into, as PromQL's histogram_quantile does.
+ * Observations in the +Inf bucket are reported at the highest finite bound.
+ */
+export function histogramQuantile(buckets: HistogramBucket[], quantile: number): number | undefined {
+  const total = buckets[buckets.length - 1]?.count;
+  if (!total || buckets[buckets.length - 1].le !== Infinity) {
+    return undefined;
+  }
+
+  const rank = quantile * total;
+  const index = buckets.findIndex((bucket) => bucket.count >= rank);
+  const bucket = buckets[index];
+
+  if (bucket.le === Infinity) {
+    return buckets.length > 1 ? buckets[buckets.length - 2].le : undefined;
+  }
+
+  const lower = index > 0 ? buckets[index - 1] : { le: Math.min(0, bucket.le), count: 0 };
+  const inBucket = bucket.count - lower.count;
+  if (inBucket <= 0) {
+    return bucket.le;
+  }
+  return lower.le + (bucket.le - lower.le) * ((rank - lower.count) / inBucket);
+}
+
+/**
+ * Calculate the p50, p90 and p99 of a histogram from its buckets
+ */
+export function calculateHistogramPercentiles(
+  metrics: RawMetricValue[],
+  baseName: string
+): HistogramPercentiles | undefined {
+  const buckets = getHistogramBuckets(metrics, baseName);
+  const p50 = histogramQuantile(buckets, 0.5);
+  const p90 = histogramQuantile(buckets, 0.9);
+  const p99 = histogramQuantile(buckets, 0.99);
+
+  if (p50 === undefined || p90 === undefined || p99 === undefined) {
+    return undefined;
+  }
+  return { p50, p90, p99 };
+}
+
+/**
+ * Increase of each series of a counter between two scrapes. A series that
+ * went down was reset by a restart and counts from zero; a series missing from
+ * the earlier scrape is skipped.
+ */
+export function counterIncreases(previous: RawMetricValue[], current: RawMetricValue[], name: string): RawMetricValue[] {
+  const before = new Map(findAllMetrics(previous, name).map((m) => [seriesKey(m), m.value]));
+  const increases: RawMetricValue[] = [];
+
+  for (const metric of findAllMetrics(current, name)) {
+    const earlier = before.get(seriesKey(metric));
+    if (earlier === undefined) {
+      continue;
+    }
+    increases.push({ ...metric, value: metric.value >= earlier ? metric.value - earlier : metric.value });
+  }
+  return increases;
+}
+
+/**
+ * Calculate the per-second rate of a counter between two scrapes, summed
+ * across label combinations (see counterIncreases)
+ */
+export function calculateCounterRate(
+  previous: RawMetricValue[],
+  current: RawMetricValue[],
+  name: string,
+  elapsedSeconds: number
+): number | undefined {
+  if (elapsedSeconds <= 0) {
+    return undefined;
+  }
+
+  const increases = counterIncreases(previous, current, name);
+  if (increases.length === 0) {
+    return undefined;
+  }
+  return increases.reduce((sum, m) => sum + m.value, 0) / elapsedSeconds;
+}
@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'bun:test';
+import type { Toleration } from '@kubefoundry/shared';
+import { buildPodScheduling, parsePodScheduling } from './scheduling';
+
+const gpuToleration: Toleration = { key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' };
+
+describe('buildPodScheduling', () => {
+  test('returns nothing without constraints', () => {
+    expect(buildPodScheduling({})).toEqual({});
+    expect(buildPodScheduling({ nodeSelector: {}, tolerations: [], topologySpreadConstraints: [] })).toEqual({});
+  });
+
+  test('includes every set field', () => {
+    const spec = buildPodScheduling({
+      nodeSelector: { agentpool: 'a100' },
+      tolerations: [{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' }],
+      affinity: {
+        nodeAffinity: {
+          requiredDuringSchedulingIgnoredDuringExecution: {
+            nodeSelectorTerms: [{ matchExpressions: [{ key: 'gpu', operator: 'In', values: ['a100'] }] }],
+          },
+        },
+      },
+      topologySpreadConstraints: [{ maxSkew: 1, topologyKey: 'kubernetes.io/hostname', whenUnsatisfiable: 'ScheduleAnyway' }],
+    });
+
+    expect(Object.keys(spec).sort()).toEqual(['affinity', 'nodeSelector', 'tolerations', 'topologySpreadConstraints']);
+    expect(spec.nodeSelector).toEqual({ agentpool: 'a100' });
+  });
+
+  test('keeps default tolerations first without duplicating them', () => {
+    const spec = buildPodScheduling(
+      { tolerations: [{ key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' }, { key: 'spot', operator: 'Exists' }] },
+      [gpuToleration]
+    );
+    expect(spec.tolerations).toEqual([gpuToleration, { key: 'spot', operator: 'Exists' }]);
+  });
+});
+
+describe('parsePodScheduling', () => {
+  test('round-trips a built spec and drops default tolerations', () => {
+    const scheduling = {
+      nodeSelector: { agentpool: 'a100' },
+      tolerations: [{ key: 'spot', operator: 'Exists' as const }],
+    };
+    expect(parsePodScheduling(buildPodScheduling(scheduling, [gpuToleration]), [gpuToleration])).toEqual(scheduling);
+  });
+
+  test('handles a missing spec', () => {
+    expect(parsePodScheduling(undefined)).toEqual({});
+  });
+});
@@ -0,0 +1,79 @@
+import type { DeploymentConfig, Toleration } from '@kubefoundry/shared';
+
+/**
+ * Pod scheduling fields of a deployment config
+ */
+export type PodScheduling = Pick<DeploymentConfig, 'nodeSelector' | 'tolerations' | 'affinity' | 'topologySpreadConstraints'>;
+
+function isSameToleration(a: Toleration, b: Toleration): boolean {
+  return (a.key || '') === (b.key || '')
+    && (a.operator || 'Equal') === (b.operator || 'Equal')
+    && (a.value || '') === (b.value || '')
+    && (a.effect || '') === (b.effect || '');
+}
+
+/**
+ * Pod spec fields for a config's scheduling constraints. Empty fields are
+ * omitted; tolerations a provider always adds are kept ahead of the user's.
+ */
+export function buildPodScheduling(config: PodScheduling, defaultTolerations: Toleration[] = []): Record<string, unknown> {
+  const spec: Record<string, unknown> = {};
+
+  if (config.nodeSelector && Object.keys(config.nodeSelector).length > 0) {
+    spec.nodeSelector = config.nodeSelector;
+  }
+
+  const tolerations = [...defaultTolerations];
+  for (const toleration of config.tolerations || []) {
+    if (!tolerations.some((existing) => isSameToleration(existing, toleration))) {
+      tolerations.push(toleration);
+    }
+  }
+  if (tolerations.length > 0) {
+    spec.tolerations = tolerations;
+  }
+
+  if (config.affinity && Object.keys(config.affinity).length > 0) {
+    spec.affinity = config.affinity;
+  }
+
+  if (config.topologySpreadConstraints && config.topologySpreadConstraints.length > 0) {
+    spec.topologySpreadConstraints = config.topologySpreadConstraints;
+  }
+
+  return spec;
+}
+
+/**
+ * Recover scheduling constraints from a pod spec, leaving out the
+ * tolerations the provider adds on its own
+ */
+export function parsePodScheduling(spec: Record<string, unknown> | undefined, defaultTolerations: Toleration[] = []): PodScheduling {
+  const scheduling: PodScheduling = {};
+  if (!spec) {
+    return scheduling;
+  }
+
+  const nodeSelector = spec.nodeSelector as PodScheduling['nodeSelector'];
+  if (nodeSelector && Object.keys(nodeSelector).length > 0) {
+    scheduling.nodeSelector = nodeSelector;
+  }
+
+  const tolerations = ((spec.tolerations || []) as Toleration[])
+    .filter((toleration) => !defaultTolerations.some((d) => isSameToleration(d, toleration)));
+  if (tolerations.length > 0) {
+    scheduling.tolerations = tolerations;
+  }
+
+  const affinity = spec.affinity as PodScheduling['affinity'];
+  if (affinity && Object.keys(affinity).length > 0) {
+    scheduling.affinity = affinity;
+  }
+
+  const constraints = spec.topologySpreadConstraints as PodScheduling['topologySpreadConstraints'];
+  if (constraints && constraints.length > 0) {
+    scheduling.topologySpreadConstraints = constraints;
+  }
+
+  return scheduling;
+}
@@ -0,0 +1,33 @@
+import { describe, test, expect } from 'bun:test';
+import { shellJoin, shellQuote, shellSplit } from './shell';
+
+describe('shellQuote', () => {
+  test('leaves plain words unquoted', () => {
+    expect(shellQuote('meta-llama/Llama-3.2-1B')).toBe('meta-llama/Llama-3.2-1B');
+    expect(shellQuote('sql=/adapters/sql')).toBe('sql=/adapters/sql');
+  });
+
+  test('single-quotes words the shell would split or expand', () => {
+    expect(shellQuote('a b')).toBe("'a b'");
+    expect(shellQuote('$HOME')).toBe("'$HOME'");
+    expect(shellQuote("it's")).toBe("'it'\\''s'");
+    expect(shellQuote('')).toBe("''");
+  });
+});
+
+describe('shellSplit', () => {
+  test('splits on unquoted whitespace', () => {
+    expect(shellSplit('  python3 -m  dynamo.vllm\n--model m ')).toEqual(['python3', '-m', 'dynamo.vllm', '--model', 'm']);
+  });
+
+  test('honours quotes and escapes', () => {
+    expect(shellSplit(`--a 'x y' --b "say \\"hi\\" \\$5" --c one\\ word --d ''`)).toEqual([
+      '--a', 'x y', '--b', 'say "hi" $5', '--c', 'one word', '--d', '',
+    ]);
+  });
+
+  test('reverses shellJoin', () => {
+    const words = ['--config', '{"sizes": [1, 2], "level": 3}', "it's", '`id` $HOME \\n', ''];
+    expect(shellSplit(shellJoin(words))).toEqual(words);
+  });
+});
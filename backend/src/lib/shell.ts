@@ -0,0 +1,74 @@
+/**
+ * Quoting for command lines run through `/bin/sh -c`
+ */
+
+// Words made only of these characters mean the same to the shell unquoted
+const SAFE_WORD = /^[\w@%+=:,./-]+$/;
+
+/**
+ * Quote a word so the shell passes it through as a single argument
+ */
+export function shellQuote(word: string): string {
+  if (SAFE_WORD.test(word)) {
+    return word;
+  }
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Join words into a command line the shell splits back into the same words
+ */
+export function shellJoin(words: string[]): string {
+  return words.map(shellQuote).join(' ');
+}
+
+/**
+ * Split a command line into words the way the shell does, honouring single
+ * quotes, double quotes and backslash escapes. Expansions are not performed.
+ */
+export function shellSplit(command: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        word += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < command.length && '"\\$`'.includes(command[i + 1])) {
+        word += command[++i];
+      } else {
+        word += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inWord = true;
+    } else if (char === '\\' && i + 1 < command.length) {
+      word += command[++i];
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
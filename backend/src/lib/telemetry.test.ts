@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  MetricsRegistry,
+  externalApiRequestsTotal,
+  fetchExternalApi,
+  helmOperationDuration,
+  kubernetesApiRequestsTotal,
+  observeHelmOperation,
+  observeKubernetesCall,
+} from './telemetry';
+
+describe('MetricsRegistry', () => {
+  test('renders counters and gauges in the text exposition format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('test_requests_total', 'Requests handled');
+    requests.inc({ route: '/a', method: 'GET' });
+    requests.inc({ method: 'GET', route: '/a' }, 2);
+    registry.gauge('test_entries', 'Entries cached', () => [{ labels: {}, value: 4 }]);
+
+    expect(requests.get({ method: 'GET', route: '/a' })).toBe(3);
+    expect(registry.render()).toBe(
+      [
+        '# HELP test_requests_total Requests handled',
+        '# TYPE test_requests_total counter',
+        'test_requests_total{method="GET",route="/a"} 3',
+        '# HELP test_entries Entries cached',
+        '# TYPE test_entries gauge',
+        'test_entries 4',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('renders cumulative histogram buckets with sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('test_duration_seconds', 'Latency', [0.1, 1]);
+    latency.observe({ op: 'get' }, 0.05);
+    latency.observe({ op: 'get' }, 0.5);
+    latency.observe({ op: 'get' }, 3);
+
+    expect(registry.render().split('\n').slice(2, -1)).toEqual([
+      'test_duration_seconds_bucket{le="0.1",op="get"} 1',
+      'test_duration_seconds_bucket{le="1",op="get"} 2',
+      'test_duration_seconds_bucket{le="+Inf",op="get"} 3',
+      'test_duration_seconds_sum{op="get"} 3.55',
+      'test_duration_seconds_count{op="get"} 3',
+    ]);
+  });
+
+  test('escapes label values', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('test_info', 'Info').set({ path: 'a"b\\c\nd' }, 1);
+
+    expect(registry.render()).toContain('test_info{path="a\\"b\\\\c\\nd"} 1');
+  });
+
+  test('rejects duplicate metric names', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('test_total', 'Test');
+
+    expect(() => registry.gauge('test_total', 'Test')).toThrow('already registered');
+  });
+});
+
+describe('instrumentation helpers', () => {
+  test('observeKubernetesCall counts successes and errors', async () => {
+    const labels = (result: string) => ({ operation: 'telemetryTest', result });
+
+    await observeKubernetesCall('telemetryTest', async () => 'ok');
+    await expect(observeKubernetesCall('telemetryTest', async () => {
+      throw new Error('boom');
+    })).rejects.toThrow('boom');
+
+    expect(kubernetesApiRequestsTotal.get(labels('success'))).toBe(1);
+    expect(kubernetesApiRequestsTotal.get(labels('error'))).toBe(1);
+  });
+
+  test('fetchExternalApi records the response status, or error when the request fails', async () => {
+    const originalFetch = globalThis.fetch;
+    try {
+      // @ts-expect-error - mocking fetch for tests
+      globalThis.fetch = () => Promise.resolve(new Response('', { status: 429 }));
+      await fetchExternalApi('test', 'lookup', 'https://example.com');
+      // @ts-expect-error - mocking fetch for tests
+      globalThis.fetch = () => Promise.reject(new Error('fetch failed'));
+      await expect(fetchExternalApi('test', 'lookup', 'https://example.com')).rejects.toThrow('fetch failed');
+    } finally {
+      globalThis.fetch = originalFetch;
+    }
+
+    expect(externalApiRequestsTotal.get({ service: 'test', operation: 'lookup', status: '429' })).toBe(1);
+    expect(externalApiRequestsTotal.get({ service: 'test', operation: 'lookup', status: 'error' })).toBe(1);
+  });
+
+  test('observeHelmOperation records the result of the operation', async () => {
+    await observeHelmOperation('telemetryTest', async () => ({ success: false }));
+
+    expect(helmOperationDuration.getCount({ operation: 'telemetryTest', result: 'failure' })).toBe(1);
+  });
+});
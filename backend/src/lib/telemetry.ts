@@ -0,0 +1,293 @@
+/**
+ * KubeFoundry's own operational metrics, served in the Prometheus text
+ * exposition format at GET /metrics
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Sample {
+  labels: Labels;
+  value: number;
+}
+
+/** Reads the current samples of a metric whose values live elsewhere */
+export type Collector = () => Sample[];
+
+/** Request latency buckets, in seconds */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/** Helm runs take seconds to minutes */
+const HELM_BUCKETS = [1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.keys(labels)
+    .sort()
+    .map((name) => `${name}="${escapeLabelValue(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function formatSample(name: string, sample: Sample): string {
+  return `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`;
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  abstract samples(): string[];
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+}
+
+/**
+ * Counter or gauge. Values are either recorded with inc/set or read from a
+ * collector when the metrics are scraped.
+ */
+class ValueMetric extends Metric {
+  private values = new Map<string, Sample>();
+
+  constructor(name: string, help: string, type: 'counter' | 'gauge', private collect?: Collector) {
+    super(name, help, type);
+  }
+
+  protected add(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  get(labels: Labels = {}): number {
+    return this.values.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  samples(): string[] {
+    const samples = this.collect ? this.collect() : [...this.values.values()];
+    return samples.map((sample) => formatSample(this.name, sample));
+  }
+}
+
+export class Counter extends ValueMetric {
+  constructor(name: string, help: string, collect?: Collector) {
+    super(name, help, 'counter', collect);
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.add(labels, value);
+  }
+}
+
+export class Gauge extends ValueMetric {
+  constructor(name: string, help: string, collect?: Collector) {
+    super(name, help, 'gauge', collect);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.add(labels, value - this.get(labels));
+  }
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  /** Observations per bucket, not cumulative */
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, readonly buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = seriesKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket >= 0) {
+      series.counts[bucket] += 1;
+    }
+    series.sum += value;
+    series.count += 1;
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.count ?? 0;
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const series of this.series.values()) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        lines.push(formatSample(`${this.name}_bucket`, { labels: { ...series.labels, le: formatValue(bound) }, value: cumulative }));
+      });
+      lines.push(formatSample(`${this.name}_bucket`, { labels: { ...series.labels, le: '+Inf' }, value: series.count }));
+      lines.push(formatSample(`${this.name}_sum`, { labels: series.labels, value: series.sum }));
+      lines.push(formatSample(`${this.name}_count`, { labels: series.labels, value: series.count }));
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+
+  counter(name: string, help: string, collect?: Collector): Counter {
+    return this.register(new Counter(name, help, collect));
+  }
+
+  gauge(name: string, help: string, collect?: Collector): Gauge {
+    return this.register(new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    const lines = [...this.metrics.values()].flatMap((metric) => metric.render());
+    return lines.join('\n') + '\n';
+  }
+}
+
+export const telemetry = new MetricsRegistry();
+
+export const httpRequestsTotal = telemetry.counter(
+  'kubefoundry_http_requests_total',
+  'HTTP requests handled, by method, route and status code'
+);
+export const httpRequestDuration = telemetry.histogram(
+  'kubefoundry_http_request_duration_seconds',
+  'HTTP request latency, by method and route'
+);
+export const kubernetesApiRequestsTotal = telemetry.counter(
+  'kubefoundry_kubernetes_api_requests_total',
+  'Kubernetes API calls, by operation and result, counting retries as one call'
+);
+export const kubernetesApiDuration = telemetry.histogram(
+  'kubefoundry_kubernetes_api_request_duration_seconds',
+  'Kubernetes API call latency including retries, by operation'
+);
+export const externalApiRequestsTotal = telemetry.counter(
+  'kubefoundry_external_api_requests_total',
+  'Requests to external APIs, by service, operation and status code ("error" when no response arrived)'
+);
+export const externalApiDuration = telemetry.histogram(
+  'kubefoundry_external_api_request_duration_seconds',
+  'External API request latency, by service and operation'
+);
+export const helmOperationDuration = telemetry.histogram(
+  'kubefoundry_helm_operation_duration_seconds',
+  'Duration of Helm installs, upgrades and uninstalls, by operation and result',
+  HELM_BUCKETS
+);
+
+function elapsedSeconds(startedAt: number): number {
+  return (performance.now() - startedAt) / 1000;
+}
+
+/**
+ * Run a Kubernetes API call, recording its outcome and latency
+ */
+export async function observeKubernetesCall<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+  const startedAt = performance.now();
+  try {
+    const result = await fn();
+    kubernetesApiRequestsTotal.inc({ operation, result: 'success' });
+    return result;
+  } catch (error) {
+    kubernetesApiRequestsTotal.inc({ operation, result: 'error' });
+    throw error;
+  } finally {
+    kubernetesApiDuration.observe({ operation }, elapsedSeconds(startedAt));
+  }
+}
+
+/**
+ * fetch() an external API, recording the response status and latency
+ */
+export async function fetchExternalApi(
+  service: string,
+  operation: string,
+  input: string | URL,
+  init?: RequestInit
+): Promise<Response> {
+  const startedAt = performance.now();
+  let status = 'error';
+  try {
+    const response = await fetch(input, init);
+    status = String(response.status);
+    return response;
+  } finally {
+    externalApiRequestsTotal.inc({ service, operation, status });
+    externalApiDuration.observe({ service, operation }, elapsedSeconds(startedAt));
+  }
+}
+
+/**
+ * Run a Helm operation, recording how long it took and whether it succeeded
+ */
+export async function observeHelmOperation<T extends { success: boolean }>(
+  operation: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const startedAt = performance.now();
+  let result = 'error';
+  try {
+    const outcome = await fn();
+    result = outcome.success ? 'success' : 'failure';
+    return outcome;
+  } finally {
+    helmOperationDuration.observe({ operation, result }, elapsedSeconds(startedAt));
+  }
+}
+
+/**
+ * Record an HTTP request handled by the app
+ */
+export function recordHttpRequest(method: string, route: string, status: number, startedAt: number): void {
+  httpRequestsTotal.inc({ method, route, status: String(status) });
+  httpRequestDuration.observe({ method, route }, elapsedSeconds(startedAt));
+}
@@ -0,0 +1,80 @@
+import { describe, test, expect } from 'bun:test';
+import { meterResponse, extractUsage, type MeteredUsage } from './usage-meter';
+
+function sseResponse(events: unknown[]): Response {
+  const body = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+async function meter(response: Response): Promise<{ body: string; usage: MeteredUsage | null }> {
+  let usage: MeteredUsage | null = null;
+  const metered = meterResponse(response, (u) => {
+    usage = u;
+  });
+  const body = await metered.text();
+  return { body, usage };
+}
+
+describe('extractUsage', () => {
+  test('reads OpenAI usage from a JSON body', () => {
+    expect(extractUsage(JSON.stringify({ usage: { prompt_tokens: 12, completion_tokens: 7 } })))
+      .toEqual({ promptTokens: 12, completionTokens: 7, reported: true });
+    expect(extractUsage('not json')).toBeNull();
+  });
+});
+
+describe('meterResponse', () => {
+  test('uses the usage chunk of a streamed response and passes the body through', async () => {
+    const response = sseResponse([
+      { choices: [{ delta: { content: 'Hel' } }] },
+      { choices: [{ delta: { content: 'lo' } }] },
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } },
+    ]);
+
+    const { body, usage } = await meter(response);
+    expect(body).toContain('data: [DONE]');
+    expect(usage).toEqual({ promptTokens: 9, completionTokens: 2, reported: true });
+  });
+
+  test('counts content chunks when a stream reports no usage', async () => {
+    const { usage } = await meter(sseResponse([
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'a' } }] },
+      { choices: [{ delta: { content: 'b' } }] },
+      { choices: [{ text: 'c' }] },
+    ]));
+    expect(usage).toEqual({ promptTokens: 0, completionTokens: 3, reported: false });
+  });
+
+  test('records the tokens relayed so far when the client cancels the stream', async () => {
+    const encoder = new TextEncoder();
+    const upstream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'a' } }] })}\n\n`));
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'b' } }] })}\n\n`));
+        // Left open, as a server still generating would
+      },
+    });
+    const usages: MeteredUsage[] = [];
+    const metered = meterResponse(
+      new Response(upstream, { headers: { 'Content-Type': 'text/event-stream' } }),
+      (u) => usages.push(u),
+    );
+
+    const reader = metered.body!.getReader();
+    await reader.read();
+    await reader.read();
+    await reader.cancel();
+
+    expect(usages).toEqual([{ promptTokens: 0, completionTokens: 2, reported: false }]);
+  });
+
+  test('reads usage from a JSON response', async () => {
+    const payload = { choices: [{ message: { content: 'hi' } }], usage: { prompt_tokens: 4, completion_tokens: 1 } };
+    const { body, usage } = await meter(new Response(JSON.stringify(payload), {
+      headers: { 'Content-Type': 'application/json' },
+    }));
+    expect(JSON.parse(body)).toEqual(payload);
+    expect(usage).toEqual({ promptTokens: 4, completionTokens: 1, reported: true });
+  });
+});
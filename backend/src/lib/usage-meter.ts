@@ -0,0 +1,128 @@
+/**
+ * Token counting for relayed OpenAI-compatible responses
+ */
+
+export interface MeteredUsage {
+  promptTokens: number;
+  completionTokens: number;
+  /** False when the server sent no usage and completion tokens were counted from chunks */
+  reported: boolean;
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIPayload {
+  usage?: OpenAIUsage | null;
+  choices?: Array<{ text?: string | null; delta?: { content?: string | null } }>;
+}
+
+function fromUsage(usage: OpenAIUsage): MeteredUsage {
+  return {
+    promptTokens: usage.prompt_tokens || 0,
+    completionTokens: usage.completion_tokens || 0,
+    reported: true,
+  };
+}
+
+/**
+ * Read token usage from a complete JSON response body
+ */
+export function extractUsage(body: string): MeteredUsage | null {
+  try {
+    const payload = JSON.parse(body) as OpenAIPayload;
+    return payload.usage ? fromUsage(payload.usage) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Pass a response through unchanged while counting its tokens. Streamed responses
+ * use the usage chunk when the server sends one (stream_options.include_usage),
+ * otherwise each content chunk counts as one completion token.
+ * onComplete is called once, when the body has been fully read or the stream ends
+ * early (client disconnect or upstream error) with the tokens relayed so far.
+ */
+export function meterResponse(response: Response, onComplete: (usage: MeteredUsage) => void): Response {
+  if (!response.body) {
+    onComplete({ promptTokens: 0, completionTokens: 0, reported: false });
+    return response;
+  }
+
+  const streamed = (response.headers.get('content-type') || '').includes('text/event-stream');
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let usage: MeteredUsage | null = null;
+  let contentChunks = 0;
+
+  const readEventLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    try {
+      const payload = JSON.parse(data) as OpenAIPayload;
+      if (payload.usage) {
+        usage = fromUsage(payload.usage);
+      }
+      if (payload.choices?.some((choice) => choice.delta?.content || choice.text)) {
+        contentChunks += 1;
+      }
+    } catch {
+      // Not a JSON event
+    }
+  };
+
+  const read = (chunk: Uint8Array) => {
+    buffer += decoder.decode(chunk, { stream: true });
+    if (streamed) {
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(readEventLine);
+    }
+  };
+
+  let completed = false;
+  const complete = () => {
+    if (completed) return;
+    completed = true;
+    buffer += decoder.decode();
+    if (streamed) {
+      buffer.split('\n').forEach(readEventLine);
+      onComplete(usage || { promptTokens: 0, completionTokens: contentChunks, reported: false });
+    } else {
+      onComplete(extractUsage(buffer) || { promptTokens: 0, completionTokens: 0, reported: false });
+    }
+  };
+
+  // Pulled by hand rather than piped so a client disconnect still reports what was relayed
+  const reader = response.body.getReader();
+  const metered = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          complete();
+          controller.close();
+          return;
+        }
+        read(value);
+        controller.enqueue(value);
+      } catch (error) {
+        complete();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      complete();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(metered, {
+    status: response.status,
+    headers: response.headers,
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'bun:test';
+import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
+import { capabilityCheck } from './capabilities';
+import { providerRegistry } from './index';
+
+const capabilities: ProviderCapabilities = {
+  engines: ['vllm', 'sglang'],
+  modes: ['aggregated'],
+  routerModes: ['none'],
+  adapterEngines: ['vllm'],
+  adapterSources: ['huggingface', 'pvc'],
+  cpu: false,
+  gguf: false,
+  autoscaling: false,
+  engineArgs: true,
+  multiNode: false,
+};
+
+const schema = z.object({
+  engine: z.string(),
+  mode: z.string().default('aggregated'),
+  routerMode: z.string().default('none'),
+  adapters: z.array(z.unknown()).optional(),
+}).superRefine(capabilityCheck('Example', capabilities));
+
+function issues(config: Record<string, unknown>) {
+  const result = schema.safeParse(config);
+  return result.success ? [] : result.error.issues.map((i) => ({ path: i.path, message: i.message }));
+}
+
+describe('capabilityCheck', () => {
+  test('accepts a config within the capabilities', () => {
+    expect(issues({ engine: 'sglang' })).toEqual([]);
+  });
+
+  test('rejects an unsupported engine', () => {
+    expect(issues({ engine: 'trtllm' })).toEqual([
+      { path: ['engine'], message: 'Example only supports the vllm and sglang engines' },
+    ]);
+  });
+
+  test('rejects an unsupported serving mode', () => {
+    expect(issues({ engine: 'vllm', mode: 'disaggregated' })).toEqual([
+      { path: ['mode'], message: 'Example only supports aggregated serving' },
+    ]);
+  });
+
+  test('rejects an unsupported router mode', () => {
+    expect(issues({ engine: 'vllm', routerMode: 'kv' })).toEqual([
+      { path: ['routerMode'], message: 'Example does not support KV-aware routing' },
+    ]);
+  });
+
+  test('rejects adapters on an engine that cannot serve them', () => {
+    expect(issues({ engine: 'sglang', adapters: [{}] })).toEqual([
+      { path: ['adapters'], message: 'LoRA adapters are only supported with the vllm engine' },
+    ]);
+  });
+
+  test('rejects adapters from a source the provider cannot load', () => {
+    expect(issues({ engine: 'vllm', adapters: [{ name: 'a', image: 'registry/a:v1' }] })).toEqual([
+      { path: ['adapters'], message: 'Example only loads LoRA adapters from HuggingFace and volume claims' },
+    ]);
+  });
+
+  test('rejects adapters when the provider supports none', () => {
+    const noAdapters = z.object({ engine: z.string(), mode: z.string(), routerMode: z.string(), adapters: z.array(z.unknown()) })
+      .superRefine(capabilityCheck('Example', { ...capabilities, adapterEngines: [] }));
+    const result = noAdapters.safeParse({ engine: 'vllm', mode: 'aggregated', routerMode: 'none', adapters: [{}] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].message).toBe('LoRA adapters are not supported by Example');
+    }
+  });
+});
+
+describe('provider capabilities', () => {
+  test('every registered provider is listed with its capabilities', () => {
+    for (const info of providerRegistry.listProviderInfo()) {
+      const capabilities = providerRegistry.getProvider(info.id).getCapabilities();
+      expect(info.capabilities).toEqual(capabilities);
+      expect(capabilities.engines.length).toBeGreaterThan(0);
+      expect(capabilities.modes).toContain('aggregated');
+      expect(capabilities.routerModes).toContain('none');
+      for (const engine of capabilities.adapterEngines) {
+        expect(capabilities.engines).toContain(engine);
+      }
+      if (capabilities.adapterEngines.length > 0) {
+        expect(capabilities.adapterSources.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  test('provider schemas accept every declared engine', () => {
+    for (const provider of providerRegistry.listProviders()) {
+      if (provider.id === 'kaito') continue; // keyed on modelSource, not engine
+      for (const engine of provider.getCapabilities().engines) {
+        const result = provider.validateConfig({
+          name: 'example',
+          namespace: provider.defaultNamespace,
+          provider: provider.id,
+          modelId: 'Qwen/Qwen3-0.6B',
+          engine,
+          hfTokenSecret: 'hf-token-secret',
+          resources: { gpu: 2 },
+        });
+        expect({ provider: provider.id, engine, errors: result.errors }).toEqual({ provider: provider.id, engine, errors: [] });
+      }
+    }
+  });
+});
@@ -0,0 +1,98 @@
+import { z } from 'zod';
+import type { LoraAdapter, LoraAdapterSource, ProviderCapabilities } from '@kubefoundry/shared';
+
+/**
+ * Config fields whose allowed values come from a provider's capabilities
+ */
+interface CapabilityFields {
+  engine: string;
+  mode: string;
+  routerMode: string;
+  adapters?: unknown[];
+}
+
+const ADAPTER_SOURCE_LABELS: Record<LoraAdapterSource, string> = {
+  huggingface: 'HuggingFace',
+  pvc: 'volume claims',
+  image: 'container images',
+};
+
+/**
+ * Where an adapter's weights come from
+ */
+export function adapterSource(adapter: LoraAdapter): LoraAdapterSource {
+  if (adapter.pvc) return 'pvc';
+  if (adapter.image) return 'image';
+  return 'huggingface';
+}
+
+const ROUTER_MODE_LABELS: Record<string, string> = {
+  kv: 'KV-aware',
+  'round-robin': 'round-robin',
+};
+
+function formatEngines(engines: string[]): string {
+  if (engines.length === 1) {
+    return `the ${engines[0]} engine`;
+  }
+  return `the ${engines.slice(0, -1).join(', ')} and ${engines[engines.length - 1]} engines`;
+}
+
+/**
+ * Build a superRefine callback rejecting configs outside a provider's capabilities.
+ * `providerName` starts each message, e.g. 'KServe only supports aggregated serving'.
+ */
+export function capabilityCheck(providerName: string, capabilities: ProviderCapabilities) {
+  return (data: CapabilityFields, ctx: z.RefinementCtx): void => {
+    const engines: string[] = capabilities.engines;
+    if (!engines.includes(data.engine)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${providerName} only supports ${formatEngines(engines)}`,
+        path: ['engine'],
+      });
+    }
+
+    if (!(capabilities.modes as string[]).includes(data.mode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${providerName} only supports ${capabilities.modes.join(' and ')} serving`,
+        path: ['mode'],
+      });
+    }
+
+    if (!(capabilities.routerModes as string[]).includes(data.routerMode)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `${providerName} does not support ${ROUTER_MODE_LABELS[data.routerMode] || data.routerMode} routing`,
+        path: ['routerMode'],
+      });
+    }
+
+    if (data.adapters?.length) {
+      const adapterEngines: string[] = capabilities.adapterEngines;
+      if (adapterEngines.length === 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `LoRA adapters are not supported by ${providerName}`,
+          path: ['adapters'],
+        });
+      } else if (!adapterEngines.includes(data.engine)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `LoRA adapters are only supported with ${formatEngines(adapterEngines)}`,
+          path: ['adapters'],
+        });
+      }
+
+      const sources = capabilities.adapterSources;
+      if (adapterEngines.length > 0 && (data.adapters as LoraAdapter[]).some((a) => !sources.includes(adapterSource(a)))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `${providerName} only loads LoRA adapters from ${sources.map((s) => ADAPTER_SOURCE_LABELS[s]).join(' and ')}`,
+          path: ['adapters'],
+        });
+      }
+    }
+  };
+}
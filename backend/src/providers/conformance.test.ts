@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'bun:test';
+import { describeProviderConformance, conformanceCases } from './conformance';
+import { dynamoProvider } from './dynamo';
+import { kuberayProvider } from './kuberay';
+import { kaitoProvider } from './kaito';
+import { kserveProvider } from './kserve';
+import { nativeProvider } from './native';
+import { lwsProvider } from './lws';
+import { DeclarativeProvider } from './declarative';
+import { providerDefinitionSchema } from './declarative/schema';
+import { providerRegistry } from './index';
+
+const baseConfig = {
+  name: 'conformance',
+  namespace: 'conformance',
+  modelId: 'Qwen/Qwen3-0.6B',
+  hfTokenSecret: 'hf-token-secret',
+  resources: { gpu: 1 },
+};
+
+const disaggregated = {
+  resources: undefined,
+  prefillReplicas: 1,
+  decodeReplicas: 2,
+  prefillGpus: 1,
+  decodeGpus: 1,
+};
+
+const withStatus = (status: Record<string, unknown>) =>
+  (manifest: Record<string, unknown>) => ({ ...manifest, status });
+
+const exampleDefinition = providerDefinitionSchema.parse({
+  id: 'example',
+  name: 'Example Serving',
+  description: 'Declarative provider used by the conformance suite',
+  defaultNamespace: 'example-inference',
+  crd: { apiGroup: 'serving.example.com', apiVersion: 'v1', plural: 'modelservers', kind: 'ModelServer' },
+  capabilities: { engines: ['vllm', 'sglang'] },
+  manifest: {
+    apiVersion: 'serving.example.com/v1',
+    kind: 'ModelServer',
+    spec: { model: '{{modelId}}', runtime: '{{engine}}', replicas: '{{replicas}}' },
+  },
+  status: {
+    phase: [
+      { path: '$.status.state', equals: 'Failed', phase: 'Failed' },
+      { path: '$.status.state', equals: 'Ready', phase: 'Running' },
+    ],
+    replicas: { ready: '$.status.readyReplicas' },
+  },
+  metrics: { port: 8000, serviceNamePattern: '{name}' },
+});
+
+describeProviderConformance(dynamoProvider, {
+  baseConfig: { ...baseConfig, provider: 'dynamo' },
+  modeConfig: { disaggregated },
+  failedResource: withStatus({ phase: 'Failed' }),
+});
+
+describeProviderConformance(kuberayProvider, {
+  baseConfig: { ...baseConfig, provider: 'kuberay' },
+  modeConfig: { disaggregated },
+  failedResource: withStatus({ serviceStatus: 'Failed' }),
+});
+
+describeProviderConformance(kaitoProvider, {
+  baseConfig: { name: 'conformance', namespace: 'conformance', provider: 'kaito' },
+  engineConfig: {
+    llamacpp: { modelSource: 'premade', premadeModel: 'llama3.2:1b' },
+    vllm: { modelSource: 'vllm', modelId: 'Qwen/Qwen3-0.6B', computeType: 'gpu', resources: { gpu: 1 } },
+  },
+  failedResource: withStatus({ phase: 'Failed' }),
+});
+
+describeProviderConformance(kserveProvider, {
+  baseConfig: { ...baseConfig, provider: 'kserve' },
+  failedResource: withStatus({ modelStatus: { transitionStatus: 'InvalidSpec' } }),
+});
+
+describeProviderConformance(nativeProvider, {
+  baseConfig: { ...baseConfig, provider: 'native' },
+  failedResource: withStatus({
+    conditions: [{ type: 'Progressing', status: 'False', reason: 'ProgressDeadlineExceeded' }],
+  }),
+});
+
+describeProviderConformance(lwsProvider, {
+  baseConfig: { ...baseConfig, provider: 'lws', resources: { gpu: 8 } },
+});
+
+describeProviderConformance(new DeclarativeProvider(exampleDefinition), {
+  baseConfig: { ...baseConfig, provider: 'example' },
+  failedResource: withStatus({ state: 'Failed' }),
+});
+
+describe('conformance coverage', () => {
+  test('runs every built-in provider', () => {
+    const covered = [dynamoProvider, kuberayProvider, kaitoProvider, kserveProvider, nativeProvider, lwsProvider].map((p) => p.id);
+    expect(providerRegistry.listProviders().map((p) => p.id).filter((id) => !covered.includes(id))).toEqual([]);
+  });
+
+  test('builds one case per engine, mode and router mode', () => {
+    const names = conformanceCases(dynamoProvider, { baseConfig }).map((c) => c.name);
+    expect(names).toHaveLength(3 * 2 * 3);
+    expect(names).toContain('trtllm/disaggregated/kv');
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, test, expect } from 'bun:test';
+import type { DeploymentConfig, DeploymentMode, DeploymentPhase, Engine } from '@kubefoundry/shared';
+import type { Provider } from './types';
+
+/**
+ * Provider conformance suite
+ *
+ * Behaviour every provider shares, checked the same way for each of them.
+ * Run it from a test file with `describeProviderConformance(provider, options)`.
+ * Manifests for every engine × mode × router combination the provider supports
+ * are compared against golden snapshots; after an intended manifest change,
+ * refresh them with `bun test --update-snapshots`.
+ */
+
+export interface ConformanceOptions {
+  /** A valid config apart from the engine, mode and router mode */
+  baseConfig: Record<string, unknown>;
+  /** Fields added for an engine, for providers that select it through other fields */
+  engineConfig?: Partial<Record<Engine, Record<string, unknown>>>;
+  /** Fields added for a serving mode, such as prefill and decode sizes */
+  modeConfig?: Partial<Record<DeploymentMode, Record<string, unknown>>>;
+  /** Turn a generated manifest into the resource its operator reports as failed */
+  failedResource?: (manifest: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface ConformanceCase {
+  /** e.g. `vllm/disaggregated/kv` */
+  name: string;
+  input: Record<string, unknown>;
+}
+
+/**
+ * Labels every generated resource carries, so KubeFoundry can find what it created
+ */
+export function requiredLabels(deploymentName: string, providerId: string): Record<string, string> {
+  return {
+    'app.kubernetes.io/name': 'kubefoundry',
+    'app.kubernetes.io/instance': deploymentName,
+    'app.kubernetes.io/managed-by': 'kubefoundry',
+    'kubefoundry.io/provider': providerId,
+  };
+}
+
+/**
+ * Validate a config the way the API does, failing the test on any validation error
+ */
+export function validConfig(provider: Provider, input: Record<string, unknown>): DeploymentConfig {
+  const validation = provider.validateConfig(input);
+  expect(validation.errors).toEqual([]);
+  return validation.data!;
+}
+
+/**
+ * Generate the manifest of a valid config, typed as the fields the test reads
+ */
+export function buildManifest<T>(provider: Provider, input: Record<string, unknown>): T {
+  return provider.generateManifest(validConfig(provider, input)) as T;
+}
+
+const PHASES: DeploymentPhase[] = ['Pending', 'Deploying', 'Running', 'Failed', 'Terminating'];
+const INVALID_NAMES = ['', 'Uppercase', 'under_score', '-leading-hyphen', 'trailing-hyphen-', 'a'.repeat(64)];
+const METRIC_NAME = /^[a-zA-Z_:][a-zA-Z0-9_:]*$/;
+const LABEL_VALUE = /^(([A-Za-z0-9][-A-Za-z0-9_.]*)?[A-Za-z0-9])?$/;
+
+/**
+ * Every engine × mode × router combination the provider's capabilities allow
+ */
+export function conformanceCases(provider: Provider, options: ConformanceOptions): ConformanceCase[] {
+  const { engines, modes, routerModes } = provider.getCapabilities();
+  const cases: ConformanceCase[] = [];
+
+  for (const engine of engines) {
+    for (const mode of modes) {
+      for (const routerMode of routerModes) {
+        cases.push({
+          name: `${engine}/${mode}/${routerMode}`,
+          input: {
+            ...options.baseConfig,
+            engine,
+            mode,
+            routerMode,
+            ...options.engineConfig?.[engine],
+            ...options.modeConfig?.[mode],
+          },
+        });
+      }
+    }
+  }
+  return cases;
+}
+
+function labelsOf(resource: Record<string, unknown>): Record<string, string> {
+  return ((resource.metadata as { labels?: Record<string, string> } | undefined)?.labels) || {};
+}
+
+export function describeProviderConformance(provider: Provider, options: ConformanceOptions): void {
+  const cases = conformanceCases(provider, options);
+
+  const build = (input: Record<string, unknown>) => validConfig(provider, input);
+
+  describe(`${provider.id} conformance`, () => {
+    describe('generateManifest', () => {
+      for (const { name, input } of cases) {
+        test(`matches the golden manifest for ${name}`, () => {
+          const config = build(input);
+          expect({
+            manifest: provider.generateManifest(config),
+            ownedResources: provider.generateOwnedResources?.(config) ?? [],
+          }).toMatchSnapshot();
+        });
+
+        test(`labels resources for ${name}`, () => {
+          const config = build(input);
+          const resources = [provider.generateManifest(config), ...(provider.generateOwnedResources?.(config) ?? [])];
+
+          for (const resource of resources) {
+            const labels = labelsOf(resource);
+            expect(labels).toMatchObject(requiredLabels(config.name, provider.id));
+            for (const [key, value] of Object.entries(labels).filter(([key]) => key.startsWith('kubefoundry.io/'))) {
+              expect({ key, valid: value.length <= 63 && LABEL_VALUE.test(value) }).toEqual({ key, valid: true });
+            }
+          }
+        });
+      }
+
+      test('targets the configured CRD', () => {
+        const manifest = provider.generateManifest(build(cases[0].input));
+        const crd = provider.getCRDConfig();
+        const apiVersion = crd.apiGroup ? `${crd.apiGroup}/${crd.apiVersion}` : crd.apiVersion;
+        expect(manifest.apiVersion).toBe(apiVersion);
+        expect(manifest.kind).toBe(crd.kind);
+      });
+    });
+
+    describe('validateConfig', () => {
+      for (const name of INVALID_NAMES) {
+        test(`rejects the name '${name.length > 20 ? `${name.slice(0, 8)}… (${name.length} chars)` : name}'`, () => {
+          const result = provider.validateConfig({ ...cases[0].input, name });
+          expect(result.valid).toBe(false);
+          expect(result.errors.some((e) => e.startsWith('name'))).toBe(true);
+        });
+      }
+
+      test('rejects a config without a name', () => {
+        const { name: _name, ...input } = cases[0].input;
+        expect(provider.validateConfig(input).valid).toBe(false);
+      });
+    });
+
+    describe('parseStatus', () => {
+      const expectWellFormed = (raw: unknown) => {
+        const status = provider.parseStatus(raw);
+        expect(PHASES).toContain(status.phase);
+        expect(status.provider).toBe(provider.id);
+        expect(status.replicas.desired).toBeGreaterThanOrEqual(0);
+        expect(status.replicas.ready).toBeGreaterThanOrEqual(0);
+        expect(status.replicas.available).toBeGreaterThanOrEqual(0);
+        expect(Array.isArray(status.conditions)).toBe(true);
+        expect(Array.isArray(status.pods)).toBe(true);
+        return status;
+      };
+
+      test('handles an empty object', () => {
+        const status = expectWellFormed({});
+        expect(status.phase).toBe('Pending');
+      });
+
+      test('handles metadata without spec or status', () => {
+        const status = expectWellFormed({ metadata: { name: 'partial', namespace: 'conformance' } });
+        expect(status.name).toBe('partial');
+        expect(status.phase).toBe('Pending');
+      });
+
+      test('handles a generated manifest before the operator reports status', () => {
+        const config = build(cases[0].input);
+        const status = expectWellFormed(provider.generateManifest(config));
+        expect(status.name).toBe(config.name);
+        expect(status.namespace).toBe(config.namespace);
+        expect(status.phase).not.toBe('Running');
+      });
+
+      const { failedResource } = options;
+      if (failedResource) {
+        test('reports a failed resource as Failed', () => {
+          const manifest = provider.generateManifest(build(cases[0].input));
+          expect(expectWellFormed(failedResource(manifest)).phase).toBe('Failed');
+        });
+      }
+    });
+
+    describe('getUninstallResources', () => {
+      test('names the provider CRD when it removes CRDs', () => {
+        const { crds } = provider.getUninstallResources();
+        const crd = provider.getCRDConfig();
+        if (crds.length > 0) {
+          expect(crds).toContain(`${crd.plural}.${crd.apiGroup}`);
+        }
+      });
+
+      test('lists well-formed CRD and namespace names', () => {
+        const { crds, namespaces } = provider.getUninstallResources();
+        for (const crd of crds) {
+          expect(crd).toMatch(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/);
+        }
+        for (const namespace of namespaces) {
+          expect(namespace).toMatch(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/);
+        }
+      });
+    });
+
+    describe('metrics', () => {
+      test('has a well-formed endpoint config', () => {
+        const config = provider.getMetricsConfig();
+        if (config) {
+          expect(config.endpointPath).toStartWith('/');
+          expect(Number.isInteger(config.port)).toBe(true);
+          expect(config.port).toBeGreaterThan(0);
+          expect(config.port).toBeLessThanOrEqual(65535);
+          expect(config.serviceNamePattern).toContain('{name}');
+        }
+      });
+
+      test('has well-formed key metric definitions for every engine', () => {
+        for (const engine of [undefined, ...provider.getCapabilities().engines]) {
+          const metrics = provider.getKeyMetrics(engine);
+          for (const metric of metrics) {
+            expect(metric.name).toMatch(METRIC_NAME);
+            expect(metric.displayName.length).toBeGreaterThan(0);
+            expect(metric.description.length).toBeGreaterThan(0);
+            expect(typeof metric.unit).toBe('string');
+            expect(['gauge', 'counter', 'histogram']).toContain(metric.type);
+            expect(['throughput', 'latency', 'queue', 'cache', 'errors']).toContain(metric.category);
+          }
+          expect(new Set(metrics.map((m) => m.name)).size).toBe(metrics.length);
+        }
+      });
+    });
+  });
+}
@@ -0,0 +1,313 @@
+import * as k8s from '@kubernetes/client-node';
+import { z } from 'zod';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, Engine, MetricDefinition, MetricsEndpointConfig, ProviderCapabilities } from '@kubefoundry/shared';
+import { baseDeploymentConfigSchema, ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { capabilityCheck } from '../capabilities';
+import { keyMetricsForEngine } from '../metrics';
+import type { ProviderDefinition } from './schema';
+import { extractTemplateValues, getField, renderTemplate, setField } from './template';
+import { readJsonPath } from '../../lib/jsonpath';
+import { createMergePatch } from '../../lib/merge-patch';
+import logger from '../../lib/logger';
+
+type ResourceObject = {
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    creationTimestamp?: string;
+    labels?: Record<string, string>;
+  };
+};
+
+// Config fields that come back as text when a template interpolates them into a string
+const NUMBER_FIELDS = ['replicas', 'contextLength', 'prefillReplicas', 'decodeReplicas', 'prefillGpus', 'decodeGpus', 'resources.gpu'];
+const BOOLEAN_FIELDS = ['enforceEager', 'enablePrefixCaching', 'trustRemoteCode'];
+
+/**
+ * Provider built from a declarative definition rather than code.
+ * Manifests come from the definition's templates and status from its JSONPath rules.
+ */
+export class DeclarativeProvider implements Provider {
+  id: string;
+  name: string;
+  description: string;
+  defaultNamespace: string;
+
+  private readonly configSchema;
+
+  constructor(private readonly definition: ProviderDefinition) {
+    this.id = definition.id;
+    this.name = definition.name;
+    this.description = definition.description;
+    this.defaultNamespace = definition.defaultNamespace;
+
+    this.configSchema = baseDeploymentConfigSchema.extend({
+      provider: z.literal(definition.id).optional(),
+      engine: baseDeploymentConfigSchema.shape.engine.default(definition.capabilities.engines[0]),
+    }).superRefine(capabilityCheck(definition.name, definition.capabilities));
+  }
+
+  getCRDConfig(): CRDConfig {
+    return { ...this.definition.crd };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return this.definition.capabilities;
+  }
+
+  /**
+   * Values templates are rendered with: the config, with servedModelName
+   * falling back to the model ID as it does for the built-in providers
+   */
+  private templateValues(config: Partial<DeploymentConfig>): Record<string, unknown> {
+    return {
+      ...config,
+      servedModelName: config.servedModelName || config.modelId,
+    };
+  }
+
+  /**
+   * Render a template and give it the deployment's name, namespace and standard labels
+   */
+  private renderResource(template: Record<string, unknown>, config: DeploymentConfig, name: string): Record<string, unknown> {
+    const rendered = renderTemplate(template, this.templateValues(config)) as Record<string, unknown> & ResourceObject;
+    return {
+      ...rendered,
+      metadata: {
+        ...rendered.metadata,
+        name,
+        namespace: config.namespace,
+        labels: {
+          ...rendered.metadata?.labels,
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
+        },
+      },
+    };
+  }
+
+  generateManifest(config: DeploymentConfig): Record<string, unknown> {
+    logger.debug({ name: config.name, provider: this.id }, 'Generating declarative provider manifest');
+    return this.renderResource(this.definition.manifest, config, config.name);
+  }
+
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
+  generateOwnedResources(config: DeploymentConfig): Record<string, unknown>[] {
+    return this.definition.ownedResources.map((template) => {
+      const name = renderTemplate((template.metadata as Record<string, unknown> | undefined)?.name, this.templateValues(config));
+      return this.renderResource(template, config, typeof name === 'string' && name ? name : config.name);
+    });
+  }
+
+  parseStatus(raw: unknown): DeploymentStatus {
+    const obj = raw as ResourceObject;
+    const metadata = obj.metadata || {};
+    // Status is reported even for resources whose fields no longer validate
+    const config = this.readConfig(raw) as Partial<DeploymentConfig>;
+    const { status: rules } = this.definition;
+
+    const phase = this.mapPhase(raw);
+    const readNumber = (path: string | undefined): number | undefined => {
+      const value = path ? Number(readJsonPath(raw, path)) : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    };
+
+    const desired = readNumber(rules.replicas.desired) ?? config.replicas ?? 1;
+    // Without a ready count, a running resource is taken to have all its replicas up
+    const ready = readNumber(rules.replicas.ready) ?? (phase === 'Running' ? desired : 0);
+    const available = readNumber(rules.replicas.available) ?? ready;
+
+    const conditions = rules.conditions ? readJsonPath(raw, rules.conditions) : undefined;
+    const frontendService = rules.frontendService
+      ? renderTemplate(rules.frontendService, this.templateValues(config))
+      : undefined;
+
+    return {
+      name: metadata.name || 'unknown',
+      namespace: metadata.namespace || 'default',
+      modelId: config.modelId || '',
+      servedModelName: config.servedModelName || config.modelId || metadata.name || 'unknown',
+      engine: config.engine || this.definition.capabilities.engines[0],
+      mode: config.mode || 'aggregated',
+      phase,
+      provider: this.id,
+      replicas: { desired, ready, available },
+      conditions: Array.isArray(conditions)
+        ? conditions.map((c: Record<string, unknown>) => ({
+            type: String(c.type || ''),
+            status: (c.status as 'True' | 'False' | 'Unknown') || 'Unknown',
+            reason: c.reason as string | undefined,
+            message: c.message as string | undefined,
+            lastTransitionTime: c.lastTransitionTime as string | undefined,
+          }))
+        : [],
+      pods: [],
+      createdAt: metadata.creationTimestamp || new Date().toISOString(),
+      frontendService: typeof frontendService === 'string' ? frontendService : undefined,
+    };
+  }
+
+  /**
+   * Apply the definition's phase rules in order, defaulting to Pending
+   */
+  private mapPhase(raw: unknown): DeploymentPhase {
+    for (const rule of this.definition.status.phase) {
+      const value = readJsonPath(raw, rule.path);
+      const matches = rule.equals === undefined
+        ? value !== undefined && value !== null
+        : String(value) === String(rule.equals);
+      if (matches) {
+        return rule.phase;
+      }
+    }
+    return 'Pending';
+  }
+
+  parseConfig(raw: unknown): DeploymentConfig {
+    const config = this.readConfig(raw);
+    const result = this.configSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(config.name as string | undefined, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
+  /**
+   * Read the config fields back out of a resource without validating them
+   */
+  private readConfig(raw: unknown): Record<string, unknown> {
+    const obj = raw as ResourceObject;
+
+    const config: Record<string, unknown> = {
+      ...extractTemplateValues(this.definition.manifest, raw),
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: this.id,
+    };
+
+    for (const field of NUMBER_FIELDS) {
+      const value = getField(config, field);
+      if (typeof value === 'string') {
+        setField(config, field, Number(value));
+      }
+    }
+    for (const field of BOOLEAN_FIELDS) {
+      const value = getField(config, field);
+      if (typeof value === 'string') {
+        setField(config, field, value === 'true');
+      }
+    }
+
+    return config;
+  }
+
+  validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
+    const result = this.configSchema.safeParse(config);
+
+    if (!result.success) {
+      const errors = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+      logger.warn({ errors, provider: this.id }, `${this.name} config validation failed`);
+      return {
+        valid: false,
+        errors,
+      };
+    }
+
+    return {
+      valid: true,
+      errors: [],
+      data: result.data as unknown as DeploymentConfig,
+    };
+  }
+
+  getConfigSchema() {
+    return this.configSchema;
+  }
+
+  getInstallationSteps(): InstallationStep[] {
+    return this.definition.installation.steps;
+  }
+
+  getHelmRepos(): HelmRepo[] {
+    return this.definition.installation.helmRepos;
+  }
+
+  getHelmCharts(): HelmChart[] {
+    return this.definition.installation.helmCharts;
+  }
+
+  async checkInstallation(k8sApi: {
+    customObjectsApi: unknown;
+    coreV1Api: unknown;
+  }): Promise<InstallationStatus> {
+    const customObjectsApi = k8sApi.customObjectsApi as k8s.CustomObjectsApi;
+    const coreV1Api = k8sApi.coreV1Api as k8s.CoreV1Api;
+    const { crd, installation } = this.definition;
+
+    let crdFound = false;
+    try {
+      await customObjectsApi.listNamespacedCustomObject(crd.apiGroup, crd.apiVersion, this.defaultNamespace, crd.plural);
+      crdFound = true;
+    } catch (error: unknown) {
+      const k8sError = error as { response?: { statusCode?: number } };
+      if (k8sError?.response?.statusCode !== 404) {
+        logger.debug({ error, provider: this.id }, 'Could not list declarative provider resources');
+      }
+    }
+
+    let operatorRunning = crdFound;
+    if (installation.operator) {
+      try {
+        const pods = await coreV1Api.listNamespacedPod(
+          installation.operator.namespace,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          installation.operator.labelSelector
+        );
+        operatorRunning = pods.body.items.some(pod => pod.status?.phase === 'Running');
+      } catch {
+        // Namespace might not exist
+        operatorRunning = false;
+      }
+    }
+
+    const installed = crdFound && operatorRunning;
+    logger.info({ installed, crdFound, operatorRunning, provider: this.id }, 'Declarative provider installation check complete');
+
+    return {
+      installed,
+      crdFound,
+      operatorRunning,
+      message: installed
+        ? `${this.name} is installed and running`
+        : !crdFound
+        ? `${crd.kind} CRD not found. Please install ${this.name}.`
+        : `${this.name} operator is not running`,
+    };
+  }
+
+  getMetricsConfig(): MetricsEndpointConfig | null {
+    return this.definition.metrics ?? null;
+  }
+
+  getKeyMetrics(engine?: Engine): MetricDefinition[] {
+    if (this.definition.keyMetrics.length > 0) {
+      return this.definition.keyMetrics;
+    }
+    return keyMetricsForEngine(this.definition.capabilities.engines, engine);
+  }
+
+  getUninstallResources(): UninstallResources {
+    return this.definition.uninstall ?? {
+      crds: [`${this.definition.crd.plural}.${this.definition.crd.apiGroup}`],
+      namespaces: [],
+    };
+  }
+}
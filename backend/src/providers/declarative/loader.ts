@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as k8s from '@kubernetes/client-node';
+import * as yaml from 'js-yaml';
+import { providerDefinitionSchema, type ProviderDefinition } from './schema';
+import { CONFIG_NAMESPACE } from '../../services/config';
+import logger from '../../lib/logger';
+
+const DEFINITION_FILE = /\.(ya?ml|json)$/i;
+
+export interface LoadedDefinitions {
+  definitions: ProviderDefinition[];
+  /** Definitions that could not be read, as `<source>: <reason>` */
+  errors: string[];
+}
+
+/**
+ * Parse provider definitions from YAML or JSON text. A YAML file may hold
+ * several definitions as separate documents.
+ */
+export function parseProviderDefinitions(source: string, text: string): LoadedDefinitions {
+  const result: LoadedDefinitions = { definitions: [], errors: [] };
+
+  let documents: unknown[];
+  try {
+    documents = yaml.loadAll(text).filter((doc) => doc !== null && doc !== undefined);
+  } catch (error) {
+    result.errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  }
+
+  for (const doc of documents) {
+    const parsed = providerDefinitionSchema.safeParse(doc);
+    if (parsed.success) {
+      result.definitions.push(parsed.data);
+    } else {
+      const reasons = parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ');
+      result.errors.push(`${source}: ${reasons}`);
+    }
+  }
+  return result;
+}
+
+function merge(into: LoadedDefinitions, from: LoadedDefinitions): void {
+  into.definitions.push(...from.definitions);
+  into.errors.push(...from.errors);
+}
+
+/**
+ * Read every .yaml, .yml and .json file in a directory, such as a mounted ConfigMap
+ */
+export function loadDefinitionsFromDirectory(dir: string): LoadedDefinitions {
+  const result: LoadedDefinitions = { definitions: [], errors: [] };
+
+  let files: string[];
+  try {
+    files = fs.readdirSync(dir).filter((f) => DEFINITION_FILE.test(f)).sort();
+  } catch (error) {
+    result.errors.push(`${dir}: ${error instanceof Error ? error.message : String(error)}`);
+    return result;
+  }
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let text: string;
+    try {
+      text = fs.readFileSync(filePath, 'utf-8');
+    } catch (error) {
+      result.errors.push(`${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    merge(result, parseProviderDefinitions(filePath, text));
+  }
+  return result;
+}
+
+/**
+ * Read every .yaml, .yml and .json key of a ConfigMap in the KubeFoundry namespace
+ */
+export async function loadDefinitionsFromConfigMap(name: string): Promise<LoadedDefinitions> {
+  const result: LoadedDefinitions = { definitions: [], errors: [] };
+
+  try {
+    const kc = new k8s.KubeConfig();
+    kc.loadFromDefault();
+    const coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+    const response = await coreV1Api.readNamespacedConfigMap(name, CONFIG_NAMESPACE);
+
+    for (const [key, text] of Object.entries(response.body.data || {}).sort(([a], [b]) => a.localeCompare(b))) {
+      if (DEFINITION_FILE.test(key)) {
+        merge(result, parseProviderDefinitions(`configmap/${name}/${key}`, text));
+      }
+    }
+  } catch (error) {
+    const k8sError = error as { response?: { statusCode?: number } };
+    const reason = k8sError?.response?.statusCode === 404
+      ? 'not found'
+      : error instanceof Error ? error.message : String(error);
+    result.errors.push(`configmap/${CONFIG_NAMESPACE}/${name}: ${reason}`);
+  }
+  return result;
+}
+
+/**
+ * Load the provider definitions configured through PROVIDER_PLUGINS_DIR and
+ * PROVIDER_PLUGINS_CONFIGMAP. Definitions that fail to load are logged and skipped.
+ */
+export async function loadConfiguredDefinitions(): Promise<ProviderDefinition[]> {
+  const result: LoadedDefinitions = { definitions: [], errors: [] };
+
+  const dir = process.env.PROVIDER_PLUGINS_DIR;
+  if (dir) {
+    merge(result, loadDefinitionsFromDirectory(dir));
+  }
+
+  const configMap = process.env.PROVIDER_PLUGINS_CONFIGMAP;
+  if (configMap) {
+    merge(result, await loadDefinitionsFromConfigMap(configMap));
+  }
+
+  for (const error of result.errors) {
+    logger.error({ error }, 'Skipping invalid provider plugin definition');
+  }
+  return result.definitions;
+}
@@ -0,0 +1,355 @@
+import { describe, test, expect, afterAll } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DeclarativeProvider } from './index';
+import { providerDefinitionSchema } from './schema';
+import { loadDefinitionsFromDirectory, parseProviderDefinitions } from './loader';
+import { ConfigParseError } from '../types';
+import { buildManifest } from '../conformance';
+
+const DEFINITION_YAML = `
+id: acme
+name: Acme Serving
+description: In-house model server operator
+defaultNamespace: acme-inference
+crd:
+  apiGroup: serving.acme.io
+  apiVersion: v1
+  plural: modelservers
+  kind: ModelServer
+capabilities:
+  engines: [vllm, sglang]
+  engineArgs: true
+manifest:
+  apiVersion: serving.acme.io/v1
+  kind: ModelServer
+  metadata:
+    labels:
+      team: ml-platform
+  spec:
+    model: "{{modelId}}"
+    servedName: "{{servedModelName}}"
+    runtime: "{{engine}}"
+    replicas: "{{replicas}}"
+    gpusPerReplica: "{{resources.gpu}}"
+    tokenSecret: "{{hfTokenSecret}}"
+    args:
+      - "--max-model-len={{contextLength}}"
+ownedResources:
+  - apiVersion: v1
+    kind: Service
+    metadata:
+      name: "{{name}}-api"
+    spec:
+      selector:
+        serving.acme.io/server: "{{name}}"
+      ports:
+        - port: 8000
+status:
+  phase:
+    - path: "$.status.conditions[?(@.type=='Ready')].status"
+      equals: "True"
+      phase: Running
+    - path: "$.status.failureReason"
+      phase: Failed
+    - path: "$.status"
+      phase: Deploying
+  replicas:
+    desired: "$.spec.replicas"
+    ready: "$.status.readyReplicas"
+  conditions: "$.status.conditions"
+  frontendService: "{{name}}-api:8000"
+installation:
+  operator:
+    namespace: acme-system
+    labelSelector: app=acme-operator
+metrics:
+  port: 8000
+  serviceNamePattern: "{name}-api"
+`;
+
+const definition = parseProviderDefinitions('acme.yaml', DEFINITION_YAML).definitions[0];
+const provider = new DeclarativeProvider(definition);
+
+const baseConfig = {
+  name: 'qwen',
+  namespace: 'acme-inference',
+  provider: 'acme',
+  modelId: 'Qwen/Qwen3-0.6B',
+  engine: 'vllm',
+  hfTokenSecret: 'hf-token-secret',
+  replicas: 2,
+  contextLength: 8192,
+  resources: { gpu: 1 },
+};
+
+/**
+ * The ModelServer fields these tests read
+ */
+interface ModelServer {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string; namespace: string; labels: Record<string, string> };
+  spec: Record<string, unknown>;
+}
+
+const build = (overrides: Record<string, unknown> = {}) =>
+  buildManifest<ModelServer>(provider, { ...baseConfig, ...overrides });
+
+describe('providerDefinitionSchema', () => {
+  test('parses the example definition with defaults filled in', () => {
+    expect(definition).toBeDefined();
+    expect(definition.capabilities.modes).toEqual(['aggregated']);
+    expect(definition.capabilities.adapterEngines).toEqual([]);
+    expect(definition.metrics?.endpointPath).toBe('/metrics');
+  });
+
+  test('rejects a manifest whose kind does not match the crd', () => {
+    const result = providerDefinitionSchema.safeParse({ ...definition, manifest: { ...definition.manifest, kind: 'Other' } });
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects unsupported JSONPath expressions', () => {
+    const result = providerDefinitionSchema.safeParse({
+      ...definition,
+      status: { ...definition.status, conditions: '$..conditions' },
+    });
+    expect(result.success).toBe(false);
+  });
+
+  test('rejects invalid provider IDs', () => {
+    const result = providerDefinitionSchema.safeParse({ ...definition, id: 'Acme_Serving' });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe('DeclarativeProvider', () => {
+  test('takes its metadata and capabilities from the definition', () => {
+    expect(provider.id).toBe('acme');
+    expect(provider.name).toBe('Acme Serving');
+    expect(provider.defaultNamespace).toBe('acme-inference');
+    expect(provider.getCRDConfig()).toEqual({
+      apiGroup: 'serving.acme.io',
+      apiVersion: 'v1',
+      plural: 'modelservers',
+      kind: 'ModelServer',
+    });
+    expect(provider.getCapabilities().engines).toEqual(['vllm', 'sglang']);
+  });
+
+  describe('validateConfig', () => {
+    test('rejects engines outside the capabilities', () => {
+      const result = provider.validateConfig({ ...baseConfig, engine: 'trtllm' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('Acme Serving only supports the vllm and sglang engines');
+    });
+
+    test('rejects disaggregated mode', () => {
+      const result = provider.validateConfig({ ...baseConfig, mode: 'disaggregated' });
+      expect(result.valid).toBe(false);
+    });
+
+    test('rejects another provider ID', () => {
+      const result = provider.validateConfig({ ...baseConfig, provider: 'dynamo' });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('generateManifest', () => {
+    test('fills the template from the config', () => {
+      const manifest = build();
+      expect(manifest.apiVersion).toBe('serving.acme.io/v1');
+      expect(manifest.kind).toBe('ModelServer');
+      expect(manifest.spec).toEqual({
+        model: 'Qwen/Qwen3-0.6B',
+        servedName: 'Qwen/Qwen3-0.6B',
+        runtime: 'vllm',
+        replicas: 2,
+        gpusPerReplica: 1,
+        tokenSecret: 'hf-token-secret',
+        args: ['--max-model-len=8192'],
+      });
+    });
+
+    test('sets name, namespace and standard labels next to the template labels', () => {
+      const manifest = build();
+      expect(manifest.metadata.name).toBe('qwen');
+      expect(manifest.metadata.namespace).toBe('acme-inference');
+      expect(manifest.metadata.labels).toEqual({
+        team: 'ml-platform',
+        'app.kubernetes.io/name': 'kubefoundry',
+        'app.kubernetes.io/instance': 'qwen',
+        'app.kubernetes.io/managed-by': 'kubefoundry',
+        'kubefoundry.io/provider': 'acme',
+      });
+    });
+
+    test('renders owned resources under their own names', () => {
+      const validation = provider.validateConfig(baseConfig);
+      const [service] = provider.generateOwnedResources(validation.data!) as any[];
+      expect(service.kind).toBe('Service');
+      expect(service.metadata.name).toBe('qwen-api');
+      expect(service.spec.selector).toEqual({ 'serving.acme.io/server': 'qwen' });
+    });
+
+    test('patches only changed fields', () => {
+      const previous = provider.validateConfig(baseConfig).data!;
+      const config = provider.validateConfig({ ...baseConfig, replicas: 3 }).data!;
+      expect(provider.generatePatch(config, previous)).toEqual({ spec: { replicas: 3 } });
+    });
+  });
+
+  describe('parseStatus', () => {
+    const resource = (status?: Record<string, unknown>) => ({
+      ...build(),
+      metadata: { ...build().metadata, creationTimestamp: '2026-01-01T00:00:00Z' },
+      ...(status && { status }),
+    });
+
+    test('is Pending before the operator reports status', () => {
+      const status = provider.parseStatus(resource());
+      expect(status.phase).toBe('Pending');
+      expect(status.replicas).toEqual({ desired: 2, ready: 0, available: 0 });
+    });
+
+    test('reports resources whose fields no longer make up a valid config', () => {
+      const edited = { ...resource(), spec: { ...build().spec, runtime: 'unknown-engine' } };
+      expect(() => provider.parseConfig(edited)).toThrow(ConfigParseError);
+      expect(provider.parseStatus(edited).name).toBe('qwen');
+    });
+
+    test('applies phase rules in order', () => {
+      expect(provider.parseStatus(resource({ readyReplicas: 0 })).phase).toBe('Deploying');
+      expect(provider.parseStatus(resource({ failureReason: 'OOMKilled' })).phase).toBe('Failed');
+      expect(provider.parseStatus(resource({
+        readyReplicas: 2,
+        conditions: [{ type: 'Ready', status: 'True' }],
+      })).phase).toBe('Running');
+    });
+
+    test('maps the model, replicas, conditions and frontend service', () => {
+      const status = provider.parseStatus(resource({
+        readyReplicas: 1,
+        conditions: [{ type: 'Ready', status: 'False', reason: 'Scaling' }],
+      }));
+      expect(status.name).toBe('qwen');
+      expect(status.provider).toBe('acme');
+      expect(status.modelId).toBe('Qwen/Qwen3-0.6B');
+      expect(status.engine).toBe('vllm');
+      expect(status.replicas).toEqual({ desired: 2, ready: 1, available: 1 });
+      expect(status.conditions).toEqual([
+        { type: 'Ready', status: 'False', reason: 'Scaling', message: undefined, lastTransitionTime: undefined },
+      ]);
+      expect(status.frontendService).toBe('qwen-api:8000');
+      expect(status.createdAt).toBe('2026-01-01T00:00:00Z');
+    });
+  });
+
+  describe('parseConfig', () => {
+    test('round-trips the config through the template', () => {
+      const config = provider.validateConfig(baseConfig).data!;
+      const parsed = provider.parseConfig(provider.generateManifest(config));
+      expect(parsed).toEqual({ ...config, servedModelName: 'Qwen/Qwen3-0.6B' });
+    });
+  });
+
+  describe('checkInstallation', () => {
+    const k8sApi = (crdFound: boolean, podPhase?: string) => ({
+      customObjectsApi: {
+        listNamespacedCustomObject: async () => {
+          if (!crdFound) throw { response: { statusCode: 404 } };
+          return { body: { items: [] } };
+        },
+      },
+      coreV1Api: {
+        listNamespacedPod: async () => ({ body: { items: podPhase ? [{ status: { phase: podPhase } }] : [] } }),
+      },
+    });
+
+    test('is installed with the CRD and a running operator', async () => {
+      const status = await provider.checkInstallation(k8sApi(true, 'Running'));
+      expect(status.installed).toBe(true);
+      expect(status.message).toBe('Acme Serving is installed and running');
+    });
+
+    test('reports a missing CRD', async () => {
+      const status = await provider.checkInstallation(k8sApi(false, 'Running'));
+      expect(status.installed).toBe(false);
+      expect(status.message).toContain('ModelServer CRD not found');
+    });
+
+    test('reports a stopped operator', async () => {
+      const status = await provider.checkInstallation(k8sApi(true));
+      expect(status.installed).toBe(false);
+      expect(status.operatorRunning).toBe(false);
+    });
+  });
+
+  test('exposes metrics and default uninstall resources', () => {
+    expect(provider.getMetricsConfig()).toEqual({ endpointPath: '/metrics', port: 8000, serviceNamePattern: '{name}-api' });
+    expect(provider.getUninstallResources()).toEqual({ crds: ['modelservers.serving.acme.io'], namespaces: [] });
+  });
+});
+
+describe('loader', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kubefoundry-plugins-'));
+  afterAll(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  test('parses several YAML documents', () => {
+    const second = DEFINITION_YAML.replace('id: acme', 'id: acme-two');
+    const result = parseProviderDefinitions('two.yaml', `${DEFINITION_YAML}\n---\n${second}`);
+    expect(result.errors).toEqual([]);
+    expect(result.definitions.map((d) => d.id)).toEqual(['acme', 'acme-two']);
+  });
+
+  test('reports invalid definitions with their source', () => {
+    const result = parseProviderDefinitions('bad.yaml', 'id: bad\nname: Bad\n');
+    expect(result.definitions).toEqual([]);
+    expect(result.errors[0]).toStartWith('bad.yaml: ');
+  });
+
+  test('loads YAML and JSON files from a directory', () => {
+    fs.writeFileSync(path.join(dir, 'acme.yaml'), DEFINITION_YAML);
+    fs.writeFileSync(path.join(dir, 'other.json'), JSON.stringify({ ...definition, id: 'other' }));
+    fs.writeFileSync(path.join(dir, 'README.md'), '# not a definition');
+
+    const result = loadDefinitionsFromDirectory(dir);
+    expect(result.errors).toEqual([]);
+    expect(result.definitions.map((d) => d.id)).toEqual(['acme', 'other']);
+  });
+
+  test('skips files that cannot be read', () => {
+    const unreadable = path.join(dir, 'unreadable');
+    fs.mkdirSync(path.join(unreadable, 'nested.yaml'), { recursive: true });
+    fs.writeFileSync(path.join(unreadable, 'acme.yaml'), DEFINITION_YAML);
+
+    const result = loadDefinitionsFromDirectory(unreadable);
+    expect(result.definitions.map((d) => d.id)).toEqual(['acme']);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]).toStartWith(`${path.join(unreadable, 'nested.yaml')}: `);
+  });
+
+  test('reports a missing directory', () => {
+    const result = loadDefinitionsFromDirectory(path.join(dir, 'missing'));
+    expect(result.definitions).toEqual([]);
+    expect(result.errors).toHaveLength(1);
+  });
+});
+
+describe('provider registry integration', () => {
+  test('registers definitions next to the built-in providers', async () => {
+    const { providerRegistry } = await import('../index');
+    const registered = providerRegistry.registerDefinitions([{ ...definition, id: 'acme-registry' }]);
+    expect(registered).toEqual(['acme-registry']);
+    expect(providerRegistry.getProvider('acme-registry')).toBeInstanceOf(DeclarativeProvider);
+    expect(providerRegistry.listProviderInfo().find((p) => p.id === 'acme-registry')?.capabilities.engines).toEqual(['vllm', 'sglang']);
+  });
+
+  test('does not replace built-in providers', async () => {
+    const { providerRegistry } = await import('../index');
+    const registered = providerRegistry.registerDefinitions([{ ...definition, id: 'dynamo' }]);
+    expect(registered).toEqual([]);
+    expect(providerRegistry.getProvider('dynamo')).not.toBeInstanceOf(DeclarativeProvider);
+  });
+});
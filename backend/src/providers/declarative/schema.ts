@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { parseJsonPath } from '../../lib/jsonpath';
+
+const kubernetesNameSchema = z.string().min(1).max(63).regex(/^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/, {
+  message: 'Must be a valid Kubernetes resource name (lowercase alphanumeric and hyphens)',
+});
+
+const jsonPathSchema = z.string().superRefine((path, ctx) => {
+  try {
+    parseJsonPath(path);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+  }
+});
+
+const templateObjectSchema = z.record(z.unknown());
+
+const capabilitiesSchema = z.object({
+  engines: z.array(z.enum(['vllm', 'sglang', 'trtllm'])).min(1).default(['vllm']),
+  modes: z.array(z.enum(['aggregated', 'disaggregated'])).min(1).default(['aggregated']),
+  routerModes: z.array(z.enum(['none', 'kv', 'round-robin'])).min(1).default(['none']),
+  adapterEngines: z.array(z.enum(['vllm', 'sglang', 'trtllm'])).default([]),
+  adapterSources: z.array(z.enum(['huggingface', 'pvc', 'image'])).min(1).default(['huggingface', 'pvc']),
+  cpu: z.boolean().default(false),
+  gguf: z.boolean().default(false),
+  autoscaling: z.boolean().default(false),
+  engineArgs: z.boolean().default(false),
+  multiNode: z.boolean().default(false),
+}).refine(
+  (c) => c.modes.includes('aggregated') && c.routerModes.includes('none'),
+  { message: 'Capabilities must include the aggregated mode and the none router mode, which configs default to' }
+);
+
+/**
+ * Rule mapping a field of the resource to a DeploymentPhase. The first rule
+ * whose field equals `equals` (or exists, without `equals`) wins.
+ */
+const phaseRuleSchema = z.object({
+  path: jsonPathSchema,
+  equals: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  phase: z.enum(['Pending', 'Deploying', 'Running', 'Failed', 'Terminating']),
+});
+
+const helmChartSchema = z.object({
+  name: z.string().min(1),
+  chart: z.string().min(1),
+  version: z.string().optional(),
+  namespace: z.string().min(1),
+  values: z.record(z.unknown()).optional(),
+  createNamespace: z.boolean().optional(),
+  fetchUrl: z.string().url().optional(),
+  skipCrds: z.boolean().optional(),
+  preCrdUrls: z.array(z.string().url()).optional(),
+});
+
+const metricDefinitionSchema = z.object({
+  name: z.string().min(1),
+  displayName: z.string().min(1),
+  description: z.string().default(''),
+  unit: z.string().default(''),
+  type: z.enum(['gauge', 'counter', 'histogram']),
+  category: z.enum(['throughput', 'latency', 'queue', 'cache', 'errors']),
+});
+
+/**
+ * Declarative provider definition, loaded from YAML or JSON.
+ * Templates hold `{{field}}` placeholders for DeploymentConfig fields.
+ */
+export const providerDefinitionSchema = z.object({
+  id: kubernetesNameSchema,
+  name: z.string().min(1),
+  description: z.string().default(''),
+  defaultNamespace: kubernetesNameSchema,
+
+  crd: z.object({
+    apiGroup: z.string().min(1),
+    apiVersion: z.string().min(1),
+    plural: z.string().min(1),
+    kind: z.string().min(1),
+    labelSelector: z.string().optional(),
+  }),
+  capabilities: capabilitiesSchema.default({}),
+
+  // The custom resource, and resources it owns such as a Service
+  manifest: templateObjectSchema,
+  ownedResources: z.array(templateObjectSchema).default([]),
+
+  // How the resource's fields map into DeploymentStatus
+  status: z.object({
+    phase: z.array(phaseRuleSchema).default([]),
+    replicas: z.object({
+      desired: jsonPathSchema.optional(),
+      ready: jsonPathSchema.optional(),
+      available: jsonPathSchema.optional(),
+    }).default({}),
+    conditions: jsonPathSchema.optional(),
+    frontendService: z.string().optional().describe('Template for the service:port serving the OpenAI API'),
+  }).default({}),
+
+  installation: z.object({
+    steps: z.array(z.object({
+      title: z.string().min(1),
+      command: z.string().optional(),
+      description: z.string().default(''),
+    })).default([]),
+    helmRepos: z.array(z.object({ name: z.string().min(1), url: z.string().url() })).default([]),
+    helmCharts: z.array(helmChartSchema).default([]),
+    // Pods whose Running phase means the operator is up; without it, the CRD is enough
+    operator: z.object({
+      namespace: z.string().min(1),
+      labelSelector: z.string().min(1),
+    }).optional(),
+  }).default({}),
+
+  metrics: z.object({
+    endpointPath: z.string().default('/metrics'),
+    port: z.number().int().min(1).max(65535),
+    serviceNamePattern: z.string().min(1),
+    podNamePattern: z.string().min(1).optional(),
+  }).optional(),
+  keyMetrics: z.array(metricDefinitionSchema).default([]),
+
+  uninstall: z.object({
+    crds: z.array(z.string()).default([]),
+    namespaces: z.array(z.string()).default([]),
+  }).optional(),
+}).refine(
+  (def) => def.manifest.apiVersion === `${def.crd.apiGroup}/${def.crd.apiVersion}` && def.manifest.kind === def.crd.kind,
+  { message: 'manifest apiVersion and kind must match the crd', path: ['manifest'] }
+);
+
+export type ProviderDefinition = z.infer<typeof providerDefinitionSchema>;
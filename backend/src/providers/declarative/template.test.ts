@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test';
+import { extractTemplateValues, renderTemplate } from './template';
+
+const template = {
+  spec: {
+    model: '{{modelId}}',
+    replicas: '{{replicas}}',
+    args: ['--served-model-name={{servedModelName}}', '{{contextLength}}'],
+    resources: { gpus: '{{resources.gpu}}' },
+    secret: '{{hfTokenSecret}}',
+  },
+};
+
+const values = {
+  modelId: 'Qwen/Qwen3-0.6B',
+  servedModelName: 'qwen',
+  replicas: 2,
+  resources: { gpu: 4 },
+  hfTokenSecret: 'hf-token',
+};
+
+describe('renderTemplate', () => {
+  test('keeps the type of whole-value placeholders', () => {
+    const rendered = renderTemplate(template, values) as any;
+    expect(rendered.spec.replicas).toBe(2);
+    expect(rendered.spec.resources.gpus).toBe(4);
+  });
+
+  test('interpolates placeholders inside strings', () => {
+    const rendered = renderTemplate(template, values) as any;
+    expect(rendered.spec.args[0]).toBe('--served-model-name=qwen');
+  });
+
+  test('leaves out keys and items for unset fields', () => {
+    const rendered = renderTemplate(template, values) as any;
+    expect(rendered.spec.args).toEqual(['--served-model-name=qwen']);
+    expect(renderTemplate({ a: '{{missing}}', b: 1 }, {})).toEqual({ b: 1 });
+  });
+
+  test('interpolates unset fields as empty text', () => {
+    expect(renderTemplate('{{name}}-{{missing}}', { name: 'a' })).toBe('a-');
+  });
+});
+
+describe('extractTemplateValues', () => {
+  test('reads back the values a template was rendered with', () => {
+    const rendered = renderTemplate(template, values);
+    expect(extractTemplateValues(template, rendered)).toEqual(values);
+  });
+
+  test('ignores fields missing from the rendered object', () => {
+    expect(extractTemplateValues(template, { spec: { model: 'm' } })).toEqual({ modelId: 'm' });
+  });
+
+  test('ignores strings that no longer match the template', () => {
+    expect(extractTemplateValues({ arg: '--model={{modelId}}' }, { arg: 'other' })).toEqual({});
+  });
+});
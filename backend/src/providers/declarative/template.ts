@@ -0,0 +1,132 @@
+/**
+ * Manifest templates for declarative providers
+ *
+ * A template is any JSON value whose strings may hold `{{field.path}}`
+ * placeholders for DeploymentConfig fields. A string that is exactly one
+ * placeholder takes the field's value as is, so numbers, booleans and objects
+ * keep their type; other strings interpolate the values as text.
+ */
+
+type JsonObject = Record<string, unknown>;
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+const WHOLE_PLACEHOLDER = /^\{\{\s*([\w.]+)\s*\}\}$/;
+
+function isPlainObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Look up a dotted field path such as `resources.gpu`
+ */
+export function getField(values: JsonObject, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (current, key) => (isPlainObject(current) ? current[key] : undefined),
+    values
+  );
+}
+
+/**
+ * Set a dotted field path, creating the objects along it
+ */
+export function setField(values: JsonObject, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = values;
+  for (const key of keys.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as JsonObject;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+/**
+ * Fill a template's placeholders. Object keys and array items whose whole
+ * value is a placeholder for an unset field are left out.
+ */
+export function renderTemplate(template: unknown, values: JsonObject): unknown {
+  if (typeof template === 'string') {
+    const whole = template.match(WHOLE_PLACEHOLDER);
+    if (whole) {
+      return getField(values, whole[1]);
+    }
+    return template.replace(PLACEHOLDER, (_, path: string) => {
+      const value = getField(values, path);
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  if (Array.isArray(template)) {
+    return template
+      .map((item) => renderTemplate(item, values))
+      .filter((item) => item !== undefined);
+  }
+
+  if (isPlainObject(template)) {
+    const rendered: JsonObject = {};
+    for (const [key, value] of Object.entries(template)) {
+      const result = renderTemplate(value, values);
+      if (result !== undefined) {
+        rendered[key] = result;
+      }
+    }
+    return rendered;
+  }
+
+  return template;
+}
+
+/**
+ * Read back the field values a rendered object was generated with, by
+ * matching it against the template. Interpolated strings yield their
+ * placeholders' text.
+ */
+export function extractTemplateValues(template: unknown, rendered: unknown): JsonObject {
+  const values: JsonObject = {};
+
+  const visit = (tmpl: unknown, actual: unknown): void => {
+    if (actual === undefined || actual === null) {
+      return;
+    }
+
+    if (typeof tmpl === 'string') {
+      const whole = tmpl.match(WHOLE_PLACEHOLDER);
+      if (whole) {
+        setField(values, whole[1], actual);
+        return;
+      }
+
+      const fields = Array.from(tmpl.matchAll(PLACEHOLDER), (m) => m[1]);
+      if (fields.length === 0 || typeof actual !== 'string') {
+        return;
+      }
+      const pattern = new RegExp(`^${tmpl.split(PLACEHOLDER).map((part, i) => (i % 2 === 0 ? escapeRegExp(part) : '(.*?)')).join('')}$`);
+      const match = actual.match(pattern);
+      fields.forEach((field, i) => {
+        if (match && match[i + 1] !== '') {
+          setField(values, field, match[i + 1]);
+        }
+      });
+      return;
+    }
+
+    if (Array.isArray(tmpl) && Array.isArray(actual)) {
+      tmpl.forEach((item, i) => visit(item, actual[i]));
+      return;
+    }
+
+    if (isPlainObject(tmpl) && isPlainObject(actual)) {
+      for (const [key, value] of Object.entries(tmpl)) {
+        visit(value, actual[key]);
+      }
+    }
+  };
+
+  visit(template, rendered);
+  return values;
+}
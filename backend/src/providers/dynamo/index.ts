@@ -1,7 +1,13 @@
 import * as k8s from '@kubernetes/client-node';
-import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, MetricDefinition, MetricsEndpointConfig } from '@kubefoundry/shared';
-import type { Provider, CRDConfig, HelmRepo, HelmChart, InstallationStatus, InstallationStep, UninstallResources } from '../types';
-import { dynamoDeploymentConfigSchema, type DynamoDeploymentConfig } from './schema';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, MetricDefinition, MetricsEndpointConfig, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { dynamoCapabilities, dynamoDeploymentConfigSchema, type DynamoDeploymentConfig } from './schema';
+import { dynamoFrontendMetrics } from '../metrics';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
+import { adapterVolumeMounts, adapterVolumes, buildLoraArgs, extractLoraModules, getAdapterNames, parseLoraAdapters } from '../../lib/lora';
+import { shellJoin, shellSplit } from '../../lib/shell';
 import logger from '../../lib/logger';
 
 // Default fallback version if GitHub fetch fails
@@ -102,6 +108,10 @@ export class DynamoProvider implements Provider {
     };
   }
 
+  getCapabilities(): ProviderCapabilities {
+    return dynamoCapabilities;
+  }
+
   generateManifest(config: DeploymentConfig): Record<string, unknown> {
     const dynamoConfig = config as DynamoDeploymentConfig;
 
@@ -257,11 +267,11 @@ export class DynamoProvider implements Provider {
 
     // Build args for the inference engine
     const args: string[] = [];
-    args.push(`python3 -m dynamo.${config.engine}`);
-    args.push(`--model ${config.modelId}`);
+    args.push('python3', '-m', `dynamo.${config.engine}`);
+    args.push('--model', config.modelId);
     
     if (config.servedModelName) {
-      args.push(`--served-model-name ${config.servedModelName}`);
+      args.push('--served-model-name', config.servedModelName);
     }
 
     if (config.enforceEager) {
@@ -277,7 +287,7 @@ export class DynamoProvider implements Provider {
     }
 
     if (config.contextLength) {
-      args.push(`--max-model-len ${config.contextLength}`);
+      args.push('--max-model-len', String(config.contextLength));
     }
 
     // Add engine-specific arguments
@@ -286,15 +296,27 @@ export class DynamoProvider implements Provider {
         if (typeof value === 'boolean' && value) {
           args.push(`--${key}`);
         } else if (typeof value !== 'boolean') {
-          args.push(`--${key} ${value}`);
+          args.push(`--${key}`, String(value));
         }
       });
     }
 
+    args.push(...buildLoraArgs(config.adapters));
+
     mainContainer.command = ['/bin/sh', '-c'];
-    mainContainer.args = [args.join(' ')];
+    mainContainer.args = [shellJoin(args)];
+
+    if (config.modelCache) {
+      mainContainer.env = [modelCacheEnv()];
+    }
+    const { volumes, volumeMounts } = this.buildWorkerVolumes(config);
+    if (volumeMounts.length > 0) {
+      mainContainer.volumeMounts = volumeMounts;
+    }
 
     baseSpec.extraPodSpec = {
+      ...buildPodScheduling(config),
+      ...(volumes.length > 0 && { volumes }),
       mainContainer,
     };
 
@@ -355,11 +377,11 @@ export class DynamoProvider implements Provider {
 
     // Build args for the inference engine
     const args: string[] = [];
-    args.push(`python3 -m dynamo.${config.engine}`);
-    args.push(`--model ${config.modelId}`);
+    args.push('python3', '-m', `dynamo.${config.engine}`);
+    args.push('--model', config.modelId);
     
     if (config.servedModelName) {
-      args.push(`--served-model-name ${config.servedModelName}`);
+      args.push('--served-model-name', config.servedModelName);
     }
 
     if (config.enforceEager) {
@@ -375,7 +397,7 @@ export class DynamoProvider implements Provider {
     }
 
     if (config.contextLength) {
-      args.push(`--max-model-len ${config.contextLength}`);
+      args.push('--max-model-len', String(config.contextLength));
     }
 
     // Add engine-specific disaggregation flags
@@ -387,7 +409,7 @@ export class DynamoProvider implements Provider {
         break;
       case 'sglang':
       case 'trtllm':
-        args.push(`--disaggregation-mode ${role}`);
+        args.push('--disaggregation-mode', role);
         break;
     }
 
@@ -397,17 +419,24 @@ export class DynamoProvider implements Provider {
         if (typeof value === 'boolean' && value) {
           args.push(`--${key}`);
         } else if (typeof value !== 'boolean') {
-          args.push(`--${key} ${value}`);
+          args.push(`--${key}`, String(value));
         }
       });
     }
 
+    args.push(...buildLoraArgs(config.adapters));
+
+    const { volumes, volumeMounts } = this.buildWorkerVolumes(config);
     baseSpec.extraPodSpec = {
+      ...buildPodScheduling(config),
+      ...(volumes.length > 0 && { volumes }),
       mainContainer: {
         image: runtimeImage,
         workingDir: '/workspace/examples/backends/' + config.engine,
         command: ['/bin/sh', '-c'],
-        args: [args.join(' ')],
+        args: [shellJoin(args)],
+        ...(config.modelCache && { env: [modelCacheEnv()] }),
+        ...(volumeMounts.length > 0 && { volumeMounts }),
       },
     };
 
@@ -424,6 +453,29 @@ export class DynamoProvider implements Provider {
     }
   }
 
+  /**
+   * Worker volumes for the model cache and PVC adapters, with their mounts
+   */
+  private buildWorkerVolumes(config: DynamoDeploymentConfig): {
+    volumes: Record<string, unknown>[];
+    volumeMounts: Record<string, unknown>[];
+  } {
+    return {
+      volumes: [
+        ...(config.modelCache ? [modelCacheVolume(config.modelCache)] : []),
+        ...adapterVolumes(config.adapters),
+      ],
+      volumeMounts: [
+        ...(config.modelCache ? [modelCacheVolumeMount()] : []),
+        ...adapterVolumeMounts(config.adapters),
+      ],
+    };
+  }
+
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
   parseStatus(raw: unknown): DeploymentStatus {
     interface WorkerSpec {
       replicas?: number;
@@ -511,13 +563,11 @@ export class DynamoProvider implements Provider {
       }
     }
 
-    // Extract model info from worker args
-    let modelId = '';
-    let servedModelName = '';
     let desiredReplicas = 1;
     let mode: 'aggregated' | 'disaggregated' = 'aggregated';
     let prefillDesired = 0;
     let decodeDesired = 0;
+    let workerCommand = '';
 
     // Check for disaggregated workers
     const prefillWorker = services.VllmPrefillWorker || services.SglangPrefillWorker || services.TrtllmPrefillWorker;
@@ -526,12 +576,7 @@ export class DynamoProvider implements Provider {
     if (prefillWorker || decodeWorker) {
       mode = 'disaggregated';
       const worker = prefillWorker || decodeWorker;
-      // Try to extract model from args
-      const args = worker?.extraPodSpec?.mainContainer?.args?.[0] || '';
-      const modelMatch = args.match(/--model\s+(\S+)/);
-      if (modelMatch) modelId = modelMatch[1];
-      const servedMatch = args.match(/--served-model-name\s+(\S+)/);
-      if (servedMatch) servedModelName = servedMatch[1];
+      workerCommand = worker?.extraPodSpec?.mainContainer?.args?.[0] || '';
       prefillDesired = prefillWorker?.replicas || 0;
       decodeDesired = decodeWorker?.replicas || 0;
       desiredReplicas = prefillDesired + decodeDesired;
@@ -540,15 +585,15 @@ export class DynamoProvider implements Provider {
       const worker = services.VllmWorker || services.SglangWorker || services.TrtllmWorker;
       if (worker) {
         desiredReplicas = worker.replicas || 1;
-        // Try to extract model from args
-        const args = worker.extraPodSpec?.mainContainer?.args?.[0] || '';
-        const modelMatch = args.match(/--model\s+(\S+)/);
-        if (modelMatch) modelId = modelMatch[1];
-        const servedMatch = args.match(/--served-model-name\s+(\S+)/);
-        if (servedMatch) servedModelName = servedMatch[1];
+        workerCommand = worker.extraPodSpec?.mainContainer?.args?.[0] || '';
       }
     }
 
+    // Extract model info from the worker command
+    const { flags } = this.parseWorkerCommand(workerCommand);
+    const modelId = typeof flags.model === 'string' ? flags.model : '';
+    const servedModelName = typeof flags['served-model-name'] === 'string' ? flags['served-model-name'] : '';
+
     // Determine phase from status
     let phase: DeploymentPhase = 'Pending';
     if (status.state === 'successful') {
@@ -572,11 +617,14 @@ export class DynamoProvider implements Provider {
       }
     }
 
+    const adapterNames = getAdapterNames(shellSplit(workerCommand));
+
     const result: DeploymentStatus = {
       name: obj.metadata?.name || 'unknown',
       namespace: obj.metadata?.namespace || 'default',
       modelId,
       servedModelName: servedModelName || obj.metadata?.name || 'unknown',
+      ...(adapterNames.length > 0 && { adapters: adapterNames }),
       engine,
       mode,
       phase,
@@ -613,6 +661,140 @@ export class DynamoProvider implements Provider {
     return result;
   }
 
+  parseConfig(raw: unknown): DeploymentConfig {
+    interface ServiceSpec {
+      componentType?: string;
+      subComponentType?: string;
+      replicas?: number;
+      envFromSecret?: string;
+      'router-mode'?: string;
+      resources?: { limits?: { gpu?: string; memory?: string } };
+      extraPodSpec?: Record<string, unknown> & { mainContainer?: { args?: string[]; volumeMounts?: unknown } };
+    }
+
+    const obj = raw as {
+      metadata?: { name?: string; namespace?: string };
+      spec?: { backendFramework?: string; services?: Record<string, ServiceSpec> };
+    };
+
+    const services = Object.values(obj.spec?.services || {});
+    const frontend = services.find((s) => s.componentType === 'frontend');
+    const workers = services.filter((s) => s.componentType === 'worker');
+    const prefillWorker = workers.find((w) => w.subComponentType === 'prefill');
+    const decodeWorker = workers.find((w) => w.subComponentType === 'decode');
+    const worker = prefillWorker || decodeWorker || workers[0];
+
+    if (!worker) {
+      throw new Error(`DynamoGraphDeployment '${obj.metadata?.name}' has no worker service`);
+    }
+
+    const mode = prefillWorker || decodeWorker ? 'disaggregated' : 'aggregated';
+    const command = worker.extraPodSpec?.mainContainer?.args?.[0] || '';
+    const engine = obj.spec?.backendFramework || command.match(/dynamo\.(\w+)/)?.[1] || 'vllm';
+    const { flags, engineArgs, loraModules } = this.parseWorkerCommand(command);
+    const limits = worker.resources?.limits;
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'dynamo',
+      modelId: flags.model,
+      engine,
+      mode,
+      servedModelName: flags['served-model-name'],
+      routerMode: frontend?.['router-mode'] || 'none',
+      hfTokenSecret: worker.envFromSecret || frontend?.envFromSecret,
+      contextLength: flags['max-model-len'] ? Number(flags['max-model-len']) : undefined,
+      enforceEager: 'enforce-eager' in flags,
+      enablePrefixCaching: 'enable-prefix-caching' in flags,
+      trustRemoteCode: 'trust-remote-code' in flags,
+      ...(Object.keys(engineArgs).length > 0 && { engineArgs }),
+      ...parsePodScheduling(worker.extraPodSpec),
+      modelCache: parseModelCache(worker.extraPodSpec),
+      adapters: parseLoraAdapters(loraModules, worker.extraPodSpec?.volumes, worker.extraPodSpec?.mainContainer?.volumeMounts),
+    };
+
+    if (mode === 'aggregated') {
+      config.replicas = worker.replicas ?? 1;
+      if (limits?.gpu) {
+        config.resources = {
+          gpu: Number(limits.gpu),
+          ...(limits.memory && { memory: limits.memory }),
+        };
+      }
+    } else {
+      config.prefillReplicas = prefillWorker?.replicas ?? 1;
+      config.decodeReplicas = decodeWorker?.replicas ?? 1;
+      config.prefillGpus = Number(prefillWorker?.resources?.limits?.gpu || 1);
+      config.decodeGpus = Number(decodeWorker?.resources?.limits?.gpu || 1);
+      if (limits?.memory) {
+        config.resources = { memory: limits.memory };
+      }
+    }
+
+    const result = dynamoDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as DeploymentConfig;
+  }
+
+  /**
+   * Split a worker command line into the flags KubeFoundry sets itself and
+   * any remaining engine arguments. Flags without a value are treated as booleans.
+   */
+  private parseWorkerCommand(command: string): {
+    flags: Record<string, string | true>;
+    engineArgs: Record<string, unknown>;
+    loraModules: string[];
+  } {
+    const ownFlags = new Set([
+      'model',
+      'served-model-name',
+      'enforce-eager',
+      'enable-prefix-caching',
+      'trust-remote-code',
+      'max-model-len',
+      'is-prefill-worker',
+      'disaggregation-mode',
+    ]);
+    const flags: Record<string, string | true> = {};
+    const engineArgs: Record<string, unknown> = {};
+    const tokens = shellSplit(command);
+
+    // LoRA flags belong to the adapters when there are any
+    const loraModules = extractLoraModules(tokens);
+    if (loraModules.length > 0) {
+      ['enable-lora', 'max-loras', 'lora-modules'].forEach((flag) => ownFlags.add(flag));
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+      if (!tokens[i].startsWith('--')) {
+        continue;
+      }
+      const key = tokens[i].slice(2);
+      if (key === 'lora-modules') {
+        i += loraModules.length;
+        continue;
+      }
+      const next = tokens[i + 1];
+      const value = next !== undefined && !next.startsWith('--') ? next : undefined;
+      if (value !== undefined) {
+        i++;
+      }
+
+      if (ownFlags.has(key)) {
+        flags[key] = value ?? true;
+      } else if (value === undefined) {
+        engineArgs[key] = true;
+      } else {
+        engineArgs[key] = value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      }
+    }
+
+    return { flags, engineArgs, loraModules };
+  }
+
   validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
     const result = dynamoDeploymentConfigSchema.safeParse(config);
 
@@ -786,96 +968,14 @@ export class DynamoProvider implements Provider {
       port: 8000,
       // Dynamo creates a service named {deployment-name}-frontend
       serviceNamePattern: '{name}-frontend',
+      // Pods of the {name}-frontend Deployment
+      podNamePattern: '{name}-frontend-[a-z0-9]+-[a-z0-9]{5}',
     };
   }
 
   getKeyMetrics(): MetricDefinition[] {
-    return [
-      // Queue metrics
-      {
-        name: 'vllm:num_requests_running',
-        displayName: 'Running Requests',
-        description: 'Number of requests currently running on GPU',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      {
-        name: 'vllm:num_requests_waiting',
-        displayName: 'Waiting Requests',
-        description: 'Number of requests waiting to be processed',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      // Cache metrics
-      {
-        name: 'vllm:gpu_cache_usage_perc',
-        displayName: 'GPU KV-Cache Usage',
-        description: 'GPU KV-cache usage percentage (1 = 100%)',
-        unit: '%',
-        type: 'gauge',
-        category: 'cache',
-      },
-      {
-        name: 'vllm:gpu_prefix_cache_hit_rate',
-        displayName: 'Prefix Cache Hit Rate',
-        description: 'GPU prefix cache block hit rate',
-        unit: '%',
-        type: 'gauge',
-        category: 'cache',
-      },
-      // Latency metrics (histograms - use _sum and _count for averages)
-      {
-        name: 'vllm:e2e_request_latency_seconds',
-        displayName: 'Avg Request Latency',
-        description: 'End-to-end request latency',
-        unit: 'ms',
-        type: 'histogram',
-        category: 'latency',
-      },
-      {
-        name: 'vllm:time_to_first_token_seconds',
-        displayName: 'Avg Time to First Token',
-        description: 'Time to first token (TTFT)',
-        unit: 'ms',
-        type: 'histogram',
-        category: 'latency',
-      },
-      {
-        name: 'vllm:time_per_output_token_seconds',
-        displayName: 'Avg Time per Token',
-        description: 'Time per output token',
-        unit: 'ms',
-        type: 'histogram',
-        category: 'latency',
-      },
-      // Throughput metrics (counters - calculate rate)
-      {
-        name: 'vllm:prompt_tokens_total',
-        displayName: 'Prompt Tokens',
-        description: 'Number of prefill tokens processed',
-        unit: 'tokens/s',
-        type: 'counter',
-        category: 'throughput',
-      },
-      {
-        name: 'vllm:generation_tokens_total',
-        displayName: 'Generation Tokens',
-        description: 'Number of generation tokens processed',
-        unit: 'tokens/s',
-        type: 'counter',
-        category: 'throughput',
-      },
-      {
-        name: 'vllm:request_success_total',
-        displayName: 'Successful Requests',
-        description: 'Count of successfully processed requests',
-        unit: 'req/s',
-        type: 'counter',
-        category: 'throughput',
-      },
-    ];
+    // Metrics are scraped from the frontend, whatever engine the workers run
+    return dynamoFrontendMetrics;
   }
 
   getUninstallResources(): UninstallResources {
@@ -160,9 +160,216 @@ describe('DynamoProvider', () => {
       expect(resources.limits.gpu).toBe('2');
       expect(resources.limits.memory).toBe('16Gi');
     });
+
+    test('places scheduling constraints in worker extraPodSpec', () => {
+      const manifest = provider.generateManifest({
+        ...baseConfig,
+        mode: 'disaggregated',
+        nodeSelector: { agentpool: 'h100' },
+        tolerations: [{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' }],
+      });
+      const services = (manifest.spec as any).services;
+      for (const worker of [services.VllmPrefillWorker, services.VllmDecodeWorker]) {
+        expect(worker.extraPodSpec.nodeSelector).toEqual({ agentpool: 'h100' });
+        expect(worker.extraPodSpec.tolerations).toEqual([{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' }]);
+        expect(worker.extraPodSpec.mainContainer).toBeDefined();
+      }
+      expect(services.Frontend.extraPodSpec.nodeSelector).toBeUndefined();
+    });
+
+    test('mounts the model cache claim as HF_HOME on workers', () => {
+      const manifest = provider.generateManifest({
+        ...baseConfig,
+        modelCache: { claimName: 'hf-cache', size: '200Gi' },
+      });
+      const worker = (manifest.spec as any).services.VllmWorker;
+      expect(worker.extraPodSpec.volumes).toEqual([
+        { name: 'model-cache', persistentVolumeClaim: { claimName: 'hf-cache' } },
+      ]);
+      expect(worker.extraPodSpec.mainContainer.volumeMounts).toEqual([{ name: 'model-cache', mountPath: '/model-cache' }]);
+      expect(worker.extraPodSpec.mainContainer.env).toContainEqual({ name: 'HF_HOME', value: '/model-cache' });
+      expect(provider.parseConfig(manifest).modelCache).toEqual({ claimName: 'hf-cache' });
+    });
+
+    test('serves LoRA adapters through vLLM flags and read-only mounts', () => {
+      const manifest = provider.generateManifest({
+        ...baseConfig,
+        adapters: [
+          { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' },
+          { name: 'chat', pvc: { claimName: 'adapters', path: 'chat/v2' } },
+        ],
+      });
+      const worker = (manifest.spec as any).services.VllmWorker;
+      const args = worker.extraPodSpec.mainContainer.args[0];
+      expect(args).toContain('--enable-lora --max-loras 2 --lora-modules sql-lora=org/sql-lora chat=/adapters/chat');
+      expect(worker.extraPodSpec.volumes).toEqual([
+        { name: 'lora-0', persistentVolumeClaim: { claimName: 'adapters', readOnly: true } },
+      ]);
+      expect(worker.extraPodSpec.mainContainer.volumeMounts).toEqual([
+        { name: 'lora-0', mountPath: '/adapters/chat', subPath: 'chat/v2', readOnly: true },
+      ]);
+      expect(worker.extraPodSpec.mainContainer.env).toBeUndefined();
+    });
+  });
+
+  describe('generatePatch', () => {
+    const baseConfig: DeploymentConfig = {
+      name: 'test-deployment',
+      namespace: 'test-ns',
+      modelId: 'meta-llama/Llama-3.2-1B',
+      engine: 'vllm',
+      mode: 'aggregated',
+      routerMode: 'none',
+      replicas: 1,
+      hfTokenSecret: 'hf-token',
+      enforceEager: true,
+      enablePrefixCaching: false,
+      trustRemoteCode: false,
+    };
+
+    test('returns empty patch when nothing changed', () => {
+      expect(provider.generatePatch(baseConfig, { ...baseConfig })).toEqual({});
+    });
+
+    test('patches worker replicas when scaling', () => {
+      const patch = provider.generatePatch({ ...baseConfig, replicas: 3 }, baseConfig);
+      expect(patch).toEqual({ spec: { services: { VllmWorker: { replicas: 3 } } } });
+    });
+
+    test('replaces worker args when engine args change', () => {
+      const patch = provider.generatePatch(
+        { ...baseConfig, engineArgs: { 'max-num-seqs': 64 } },
+        baseConfig
+      ) as any;
+      const args = patch.spec.services.VllmWorker.extraPodSpec.mainContainer.args;
+      expect(args[0]).toContain('--max-num-seqs 64');
+    });
+
+    test('removes router mode when disabled', () => {
+      const patch = provider.generatePatch(baseConfig, { ...baseConfig, routerMode: 'kv' }) as any;
+      expect(patch.spec.services.Frontend['router-mode']).toBeNull();
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    const baseInput = {
+      name: 'test-deployment',
+      namespace: 'test-ns',
+      provider: 'dynamo',
+      modelId: 'meta-llama/Llama-3.2-1B',
+      engine: 'vllm',
+      hfTokenSecret: 'hf-token',
+    };
+
+    test('round-trips a minimal aggregated config', () => {
+      roundTrip(baseInput);
+    });
+
+    test('round-trips an aggregated config with all options', () => {
+      roundTrip({
+        ...baseInput,
+        engine: 'sglang',
+        servedModelName: 'llama',
+        routerMode: 'kv',
+        replicas: 3,
+        contextLength: 8192,
+        enforceEager: false,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        resources: { gpu: 2, memory: '64Gi' },
+        engineArgs: { 'max-num-seqs': 64, 'enable-chunked-prefill': true, 'kv-cache-dtype': 'fp8' },
+        nodeSelector: { agentpool: 'h100' },
+        tolerations: [{ key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' }],
+        affinity: {
+          podAntiAffinity: {
+            preferredDuringSchedulingIgnoredDuringExecution: [{
+              weight: 100,
+              podAffinityTerm: { topologyKey: 'kubernetes.io/hostname' },
+            }],
+          },
+        },
+        topologySpreadConstraints: [{ maxSkew: 1, topologyKey: 'topology.kubernetes.io/zone', whenUnsatisfiable: 'ScheduleAnyway' }],
+      });
+    });
+
+    test('round-trips engine args containing spaces and quotes', () => {
+      roundTrip({
+        ...baseInput,
+        servedModelName: "llama 3.2 (team's)",
+        engineArgs: {
+          'compilation-config': '{"cudagraph_capture_sizes": [1, 2, 4], "level": 3}',
+          'chat-template': '{{ "$HOME" }} `id` \\n',
+        },
+      });
+    });
+
+    test('round-trips a disaggregated config', () => {
+      roundTrip({
+        ...baseInput,
+        engine: 'trtllm',
+        mode: 'disaggregated',
+        routerMode: 'kv',
+        prefillReplicas: 2,
+        decodeReplicas: 3,
+        prefillGpus: 1,
+        decodeGpus: 4,
+        engineArgs: { 'max-batch-size': 16 },
+      });
+    });
+
+    test('round-trips LoRA adapters alongside the model cache', () => {
+      roundTrip({
+        ...baseInput,
+        modelCache: { claimName: 'hf-cache' },
+        adapters: [
+          { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' },
+          { name: 'chat', pvc: { claimName: 'adapters', path: 'chat/v2' } },
+          { name: 'summarize', pvc: { claimName: 'adapters', path: 'summarize' } },
+        ],
+      });
+    });
+
+    test('reports the effective router mode for disaggregated deployments', () => {
+      const config = provider.validateConfig({ ...baseInput, mode: 'disaggregated' }).data!;
+      const parsed = provider.parseConfig(provider.generateManifest(config));
+      expect(parsed.routerMode).toBe('round-robin');
+    });
+
+    test('throws when there is no worker service', () => {
+      expect(() => provider.parseConfig({ metadata: { name: 'empty' }, spec: { services: {} } }))
+        .toThrow('has no worker service');
+    });
   });
 
   describe('parseStatus', () => {
+    test('reports the adapter model names a worker serves', () => {
+      const manifest = provider.generateManifest({
+        name: 'test-deployment',
+        namespace: 'test-ns',
+        modelId: 'meta-llama/Llama-3.2-1B',
+        engine: 'vllm',
+        mode: 'aggregated',
+        routerMode: 'none',
+        replicas: 1,
+        hfTokenSecret: 'hf-token',
+        enforceEager: true,
+        enablePrefixCaching: false,
+        trustRemoteCode: false,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+
+      const status = provider.parseStatus(manifest);
+      expect(status.modelId).toBe('meta-llama/Llama-3.2-1B');
+      expect(status.adapters).toEqual(['sql-lora']);
+    });
+
     test('parses basic deployment status from spec.services format', () => {
       const raw = {
         metadata: {
@@ -392,25 +599,15 @@ describe('DynamoProvider', () => {
       expect(config!.serviceNamePattern).toContain('{name}');
     });
 
-    test('getKeyMetrics returns metric definitions', () => {
+    test('getKeyMetrics returns the frontend metrics', () => {
       const metrics = provider.getKeyMetrics();
       expect(metrics.length).toBeGreaterThan(0);
 
-      // Check for expected metrics
+      // The {name}-frontend service serves Dynamo's own metrics, not the engine's
       const metricNames = metrics.map(m => m.name);
-      expect(metricNames).toContain('vllm:num_requests_running');
-      expect(metricNames).toContain('vllm:gpu_cache_usage_perc');
-      expect(metricNames).toContain('vllm:e2e_request_latency_seconds');
-    });
-
-    test('metrics have required fields', () => {
-      const metrics = provider.getKeyMetrics();
-      for (const metric of metrics) {
-        expect(metric.name).toBeDefined();
-        expect(metric.displayName).toBeDefined();
-        expect(metric.type).toMatch(/gauge|counter|histogram/);
-        expect(metric.category).toBeDefined();
-      }
+      expect(metricNames).toContain('dynamo_frontend_inflight_requests');
+      expect(metricNames).toContain('dynamo_frontend_time_to_first_token_seconds');
+      expect(metricNames).not.toContain('vllm:num_requests_running');
     });
   });
 });
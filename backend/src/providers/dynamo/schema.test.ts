@@ -191,6 +191,46 @@ describe('dynamoDeploymentConfigSchema', () => {
       expect(result.success).toBe(false);
     });
   });
+
+  describe('adapters validation', () => {
+    const adapter = { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' };
+
+    it('accepts HuggingFace and PVC adapters', () => {
+      const result = dynamoDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        adapters: [adapter, { name: 'chat', pvc: { claimName: 'adapters', path: 'chat/v2' } }],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects an adapter with both or neither source', () => {
+      for (const invalid of [{ name: 'x' }, { ...adapter, pvc: { claimName: 'adapters', path: 'x' } }]) {
+        const result = dynamoDeploymentConfigSchema.safeParse({ ...validConfig, adapters: [invalid] });
+        expect(result.success).toBe(false);
+      }
+    });
+
+    it('rejects duplicate adapter names', () => {
+      const result = dynamoDeploymentConfigSchema.safeParse({ ...validConfig, adapters: [adapter, adapter] });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects PVC paths escaping the claim', () => {
+      const result = dynamoDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        adapters: [{ name: 'x', pvc: { claimName: 'adapters', path: '../secrets' } }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects adapters for engines other than vllm', () => {
+      const result = dynamoDeploymentConfigSchema.safeParse({ ...validConfig, engine: 'sglang', adapters: [adapter] });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['adapters']);
+      }
+    });
+  });
 });
 
 describe('dynamoManifestSchema', () => {
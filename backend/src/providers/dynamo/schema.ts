@@ -1,5 +1,20 @@
 import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
 import { baseDeploymentConfigSchema } from '../types';
+import { capabilityCheck } from '../capabilities';
+
+export const dynamoCapabilities: ProviderCapabilities = {
+  engines: ['vllm', 'sglang', 'trtllm'],
+  modes: ['aggregated', 'disaggregated'],
+  routerModes: ['none', 'kv', 'round-robin'],
+  adapterEngines: ['vllm'],
+  adapterSources: ['huggingface', 'pvc'],
+  cpu: false,
+  gguf: false,
+  autoscaling: false,
+  engineArgs: true,
+  multiNode: false,
+};
 
 /**
  * Dynamo-specific deployment configuration schema
@@ -11,7 +26,7 @@ export const dynamoDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
   // - vllm: --is-prefill-worker for prefill workers
   // - sglang: --disaggregation-mode prefill|decode
   // - trtllm: --disaggregation-mode prefill|decode
-});
+}).superRefine(capabilityCheck('NVIDIA Dynamo', dynamoCapabilities));
 
 export type DynamoDeploymentConfig = z.infer<typeof dynamoDeploymentConfigSchema>;
 
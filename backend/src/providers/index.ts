@@ -2,6 +2,12 @@ import type { Provider, ProviderInfo } from './types';
 import { dynamoProvider } from './dynamo';
 import { kuberayProvider } from './kuberay';
 import { kaitoProvider } from './kaito';
+import { kserveProvider } from './kserve';
+import { nativeProvider } from './native';
+import { lwsProvider } from './lws';
+import { DeclarativeProvider } from './declarative';
+import type { ProviderDefinition } from './declarative/schema';
+import { loadConfiguredDefinitions } from './declarative/loader';
 import logger from '../lib/logger';
 
 // Re-export types
@@ -13,12 +19,17 @@ export * from './types';
  */
 class ProviderRegistry {
   private providers: Map<string, Provider> = new Map();
+  private builtInIds: Set<string>;
 
   constructor() {
     // Register built-in providers
     this.register(dynamoProvider);
     this.register(kuberayProvider);
     this.register(kaitoProvider);
+    this.register(kserveProvider);
+    this.register(nativeProvider);
+    this.register(lwsProvider);
+    this.builtInIds = new Set(this.providers.keys());
   }
 
   /**
@@ -31,6 +42,35 @@ class ProviderRegistry {
     this.providers.set(provider.id, provider);
   }
 
+  /**
+   * Register declarative providers next to the built-in ones.
+   * Definitions reusing a built-in provider's ID are skipped.
+   * @returns IDs of the registered providers
+   */
+  registerDefinitions(definitions: ProviderDefinition[]): string[] {
+    const registered: string[] = [];
+    for (const definition of definitions) {
+      if (this.builtInIds.has(definition.id)) {
+        logger.warn({ providerId: definition.id }, `Provider plugin '${definition.id}' conflicts with a built-in provider. Skipping.`);
+        continue;
+      }
+      this.register(new DeclarativeProvider(definition));
+      registered.push(definition.id);
+    }
+    return registered;
+  }
+
+  /**
+   * Load the declarative providers configured for this server
+   */
+  async loadPlugins(): Promise<string[]> {
+    const registered = this.registerDefinitions(await loadConfiguredDefinitions());
+    if (registered.length > 0) {
+      logger.info({ providers: registered }, `Loaded ${registered.length} provider plugin(s)`);
+    }
+    return registered;
+  }
+
   /**
    * Get a provider by ID
    * @throws Error if provider not found
@@ -80,6 +120,7 @@ class ProviderRegistry {
       name: p.name,
       description: p.description,
       defaultNamespace: p.defaultNamespace,
+      capabilities: p.getCapabilities(),
     }));
   }
 
@@ -1,8 +1,12 @@
 import * as k8s from '@kubernetes/client-node';
-import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, MetricDefinition, MetricsEndpointConfig } from '@kubefoundry/shared';
-import type { Provider, CRDConfig, HelmRepo, HelmChart, InstallationStatus, InstallationStep, UninstallResources } from '../types';
-import { kaitoDeploymentConfigSchema, type KaitoDeploymentConfig } from './schema';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, Engine, LoraAdapter, MetricDefinition, MetricsEndpointConfig, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { kaitoCapabilities, kaitoDeploymentConfigSchema, type KaitoDeploymentConfig } from './schema';
+import { keyMetricsForEngine } from '../metrics';
 import { aikitService, GGUF_RUNNER_IMAGE } from '../../services/aikit';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
 import logger from '../../lib/logger';
 
 // Hardcoded KAITO version
@@ -15,6 +19,23 @@ const KAITO_BASE_IMAGE = 'mcr.microsoft.com/aks/kaito/kaito-base:0.1.1';
 const LLAMACPP_PORT = 5000;
 const VLLM_PORT = 8000;
 
+/**
+ * Entry of a Workspace's inference.adapters
+ */
+interface KaitoAdapterSpec {
+  source?: { name?: string; image?: string };
+}
+
+/**
+ * Recover the image adapters of a Workspace
+ */
+function parseAdapters(specs: KaitoAdapterSpec[] = []): LoraAdapter[] | undefined {
+  const adapters = specs.flatMap((spec) => (spec.source?.name && spec.source.image
+    ? [{ name: spec.source.name, image: spec.source.image }]
+    : []));
+  return adapters.length > 0 ? adapters : undefined;
+}
+
 /**
  * KAITO Provider
  * Implements the Provider interface for KAITO (Kubernetes AI Toolchain Operator)
@@ -43,6 +64,10 @@ export class KaitoProvider implements Provider {
     };
   }
 
+  getCapabilities(): ProviderCapabilities {
+    return kaitoCapabilities;
+  }
+
   generateManifest(config: DeploymentConfig): Record<string, unknown> {
     const kaitoConfig = config as KaitoDeploymentConfig;
 
@@ -107,12 +132,20 @@ export class KaitoProvider implements Provider {
           'app.kubernetes.io/name': 'kubefoundry',
           'app.kubernetes.io/instance': kaitoConfig.name,
           'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
           'kubefoundry.io/compute-type': kaitoConfig.computeType,
           'kubefoundry.io/model-source': kaitoConfig.modelSource,
           ...(kaitoConfig.modelSource === 'huggingface' && {
             'kubefoundry.io/run-mode': kaitoConfig.ggufRunMode || 'direct',
           }),
         },
+        // Record the GGUF source so the config can be recovered from build-mode images
+        ...(kaitoConfig.modelSource === 'huggingface' && {
+          annotations: {
+            'kubefoundry.io/model-id': kaitoConfig.modelId,
+            'kubefoundry.io/gguf-file': kaitoConfig.ggufFile,
+          },
+        }),
       },
       resource: this.buildResourceSpec(kaitoConfig),
       inference: {
@@ -130,8 +163,11 @@ export class KaitoProvider implements Provider {
                   },
                 ],
                 ...(Object.keys(resources).length > 0 && { resources }),
+                ...(kaitoConfig.modelCache && { env: [modelCacheEnv()], volumeMounts: [modelCacheVolumeMount()] }),
               },
             ],
+            ...(kaitoConfig.modelCache && { volumes: [modelCacheVolume(kaitoConfig.modelCache)] }),
+            ...this.buildTemplateScheduling(kaitoConfig),
           },
         },
       },
@@ -232,6 +268,11 @@ export class KaitoProvider implements Provider {
       ],
     };
 
+    if (config.modelCache) {
+      env.push(modelCacheEnv());
+      (container.volumeMounts as Array<Record<string, unknown>>).push(modelCacheVolumeMount());
+    }
+
     // Add env if we have environment variables
     if (env.length > 0) {
       container.env = env;
@@ -248,6 +289,7 @@ export class KaitoProvider implements Provider {
           'app.kubernetes.io/name': 'kubefoundry',
           'app.kubernetes.io/instance': config.name,
           'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
           'kubefoundry.io/compute-type': 'gpu',  // vLLM always requires GPU
           'kubefoundry.io/model-source': 'vllm',
         },
@@ -264,9 +306,15 @@ export class KaitoProvider implements Provider {
                   medium: 'Memory',
                 },
               },
+              ...(config.modelCache ? [modelCacheVolume(config.modelCache)] : []),
             ],
+            ...this.buildTemplateScheduling(config),
           },
         },
+        // KAITO pulls each adapter image and loads it into vLLM under the adapter's name
+        ...(config.adapters && config.adapters.length > 0 && {
+          adapters: config.adapters.map((adapter) => ({ source: { name: adapter.name, image: adapter.image } })),
+        }),
       },
     };
 
@@ -282,33 +330,9 @@ export class KaitoProvider implements Provider {
       count: config.replicas || 1,
     };
 
-    // If user provided a custom labelSelector, use it
-    if (config.labelSelector && Object.keys(config.labelSelector).length > 0) {
-      resourceSpec.labelSelector = {
-        matchLabels: config.labelSelector,
-      };
-    } else {
-      // Determine default labelSelector based on compute requirements
-      // vLLM always requires GPU
-      const requiresGPU = config.computeType === 'gpu' || config.modelSource === 'vllm';
-
-      if (requiresGPU) {
-        // GPU workloads: use NVIDIA GPU Feature Discovery label
-        // This label is published by NVIDIA GFD on nodes with NVIDIA GPUs
-        resourceSpec.labelSelector = {
-          matchLabels: {
-            'nvidia.com/gpu.present': 'true',
-          },
-        };
-      } else {
-        // CPU-only workloads: use basic Linux node selector
-        resourceSpec.labelSelector = {
-          matchLabels: {
-            'kubernetes.io/os': 'linux',
-          },
-        };
-      }
-    }
+    resourceSpec.labelSelector = {
+      matchLabels: this.getNodeLabels(config) || this.getDefaultLabelSelector(config),
+    };
 
     // NOTE: preferredNodes removed - deprecated in KAITO 0.8.0
     // BYO nodes should use labelSelector instead
@@ -316,6 +340,43 @@ export class KaitoProvider implements Provider {
     return resourceSpec;
   }
 
+  /**
+   * Node labels the user asked for. KAITO selects nodes through the workspace's
+   * labelSelector, so a nodeSelector is merged into it rather than set on pods.
+   */
+  private getNodeLabels(config: KaitoDeploymentConfig): Record<string, string> | undefined {
+    const labels = { ...config.labelSelector, ...config.nodeSelector };
+    return Object.keys(labels).length > 0 ? labels : undefined;
+  }
+
+  /**
+   * Pod template fields for the remaining scheduling constraints
+   */
+  private buildTemplateScheduling(config: KaitoDeploymentConfig): Record<string, unknown> {
+    return buildPodScheduling({
+      tolerations: config.tolerations,
+      affinity: config.affinity,
+      topologySpreadConstraints: config.topologySpreadConstraints,
+    });
+  }
+
+  /**
+   * Default node labels to target based on compute requirements
+   */
+  private getDefaultLabelSelector(config: Pick<KaitoDeploymentConfig, 'computeType' | 'modelSource'>): Record<string, string> {
+    // vLLM always requires GPU
+    const requiresGPU = config.computeType === 'gpu' || config.modelSource === 'vllm';
+
+    if (requiresGPU) {
+      // GPU workloads: use NVIDIA GPU Feature Discovery label
+      // This label is published by NVIDIA GFD on nodes with NVIDIA GPUs
+      return { 'nvidia.com/gpu.present': 'true' };
+    }
+
+    // CPU-only workloads: use basic Linux node selector
+    return { 'kubernetes.io/os': 'linux' };
+  }
+
   /**
    * Get the image reference for a KAITO deployment
    */
@@ -344,6 +405,25 @@ export class KaitoProvider implements Provider {
     return null;
   }
 
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    const kaitoConfig = config as KaitoDeploymentConfig;
+    const previousConfig = previous as KaitoDeploymentConfig;
+
+    // KAITO does not allow the resource selector to change after creation, and switching
+    // model source changes the serving port and companion Service
+    if (kaitoConfig.modelSource !== previousConfig.modelSource) {
+      throw new Error('Model source cannot be changed on an existing KAITO workspace');
+    }
+    if (kaitoConfig.computeType !== previousConfig.computeType) {
+      throw new Error('Compute type cannot be changed on an existing KAITO workspace');
+    }
+    if (JSON.stringify(this.getNodeLabels(kaitoConfig) || {}) !== JSON.stringify(this.getNodeLabels(previousConfig) || {})) {
+      throw new Error('Label selector cannot be changed on an existing KAITO workspace');
+    }
+
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
   parseStatus(raw: unknown): DeploymentStatus {
     // Note: KAITO Workspace API has resource/inference/tuning at top level, NOT inside a spec field
     const obj = raw as {
@@ -358,7 +438,7 @@ export class KaitoProvider implements Provider {
       };
       inference?: {
         template?: {
-          spec?: {
+          spec?: Record<string, unknown> & {
             containers?: Array<{
               image?: string;
               command?: string[];
@@ -366,6 +446,7 @@ export class KaitoProvider implements Provider {
             }>;
           };
         };
+        adapters?: KaitoAdapterSpec[];
       };
       status?: {
         phase?: string;
@@ -444,12 +525,14 @@ export class KaitoProvider implements Provider {
     // For vLLM, we create a separate KubeFoundry-managed service on port 8000
     const servicePort = engine === 'vllm' ? VLLM_PORT : 80;  // KAITO service exposes port 80
     const serviceName = engine === 'vllm' ? `${metadata.name}-vllm` : metadata.name;
+    const adapterNames = (inference.adapters || []).flatMap((a) => (a.source?.name ? [a.source.name] : []));
 
     return {
       name: metadata.name || 'unknown',
       namespace: metadata.namespace || 'default',
       modelId,
       servedModelName: metadata.name || 'unknown',
+      ...(adapterNames.length > 0 && { adapters: adapterNames }),
       engine,  // 'vllm' or 'llamacpp' based on model source
       mode: 'aggregated',
       phase,
@@ -500,6 +583,126 @@ export class KaitoProvider implements Provider {
     }
   }
 
+  parseConfig(raw: unknown): DeploymentConfig {
+    const obj = raw as {
+      metadata?: {
+        name?: string;
+        namespace?: string;
+        labels?: Record<string, string>;
+        annotations?: Record<string, string>;
+      };
+      resource?: {
+        count?: number;
+        labelSelector?: { matchLabels?: Record<string, string> };
+      };
+      inference?: {
+        template?: {
+          spec?: Record<string, unknown> & {
+            containers?: Array<{
+              image?: string;
+              args?: string[];
+              env?: Array<{ name?: string; valueFrom?: { secretKeyRef?: { name?: string } } }>;
+              volumeMounts?: unknown;
+              resources?: {
+                requests?: Record<string, string | number>;
+                limits?: Record<string, string | number>;
+              };
+            }>;
+          };
+        };
+        adapters?: KaitoAdapterSpec[];
+      };
+    };
+
+    const labels = obj.metadata?.labels || {};
+    const annotations = obj.metadata?.annotations || {};
+    const container = obj.inference?.template?.spec?.containers?.[0];
+
+    if (!container) {
+      throw new Error(`Workspace '${obj.metadata?.name}' has no inference container`);
+    }
+
+    const image = container.image || '';
+    const args = container.args || [];
+    const argValue = (flag: string) => {
+      const index = args.indexOf(flag);
+      return index >= 0 ? args[index + 1] : undefined;
+    };
+    const gpuLimit = container.resources?.limits?.['nvidia.com/gpu'];
+
+    const modelSource = (labels['kubefoundry.io/model-source']
+      || (image === KAITO_BASE_IMAGE ? 'vllm' : image === GGUF_RUNNER_IMAGE ? 'huggingface' : 'premade')) as KaitoDeploymentConfig['modelSource'];
+    const computeType = (labels['kubefoundry.io/compute-type'] || (gpuLimit ? 'gpu' : 'cpu')) as KaitoDeploymentConfig['computeType'];
+
+    // Only report the selector if it differs from the one generation would default to
+    const matchLabels = obj.resource?.labelSelector?.matchLabels;
+    const isDefaultSelector = JSON.stringify(matchLabels || {})
+      === JSON.stringify(this.getDefaultLabelSelector({ computeType, modelSource }));
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'kaito',
+      modelSource,
+      computeType,
+      replicas: obj.resource?.count ?? 1,
+      ...(matchLabels && !isDefaultSelector && { labelSelector: matchLabels }),
+      ...parsePodScheduling(obj.inference?.template?.spec),
+      modelCache: parseModelCache(obj.inference?.template?.spec),
+    };
+
+    if (modelSource === 'vllm') {
+      const maxModelLen = argValue('--max-model-len');
+      const hfTokenEnv = container.env?.find((e) => e.name === 'HF_TOKEN');
+      config.modelId = argValue('--model');
+      config.resources = { gpu: Number(gpuLimit || 1) };
+      config.maxModelLen = maxModelLen ? Number(maxModelLen) : undefined;
+      config.hfTokenSecret = hfTokenEnv?.valueFrom?.secretKeyRef?.name;
+      config.adapters = parseAdapters(obj.inference?.adapters);
+    } else {
+      const requests = container.resources?.requests || {};
+      const resources: Record<string, unknown> = {
+        ...(requests.memory !== undefined && { memory: String(requests.memory) }),
+        ...(requests.cpu !== undefined && { cpu: String(requests.cpu) }),
+        ...(computeType === 'gpu' && gpuLimit !== undefined && { gpu: Number(gpuLimit) }),
+      };
+      if (Object.keys(resources).length > 0) {
+        config.resources = resources;
+      }
+
+      if (modelSource === 'huggingface') {
+        const runMode = labels['kubefoundry.io/run-mode'] || 'direct';
+        config.ggufRunMode = runMode;
+        config.modelId = annotations['kubefoundry.io/model-id'];
+        config.ggufFile = annotations['kubefoundry.io/gguf-file'];
+
+        // Direct mode carries the source in its huggingface://org/repo/file.gguf argument
+        const modelUri = args.find((arg) => arg.startsWith('huggingface://'));
+        if ((!config.modelId || !config.ggufFile) && modelUri) {
+          const parts = modelUri.slice('huggingface://'.length).split('/');
+          config.modelId = parts.slice(0, 2).join('/');
+          config.ggufFile = parts.slice(2).join('/');
+        }
+        if (runMode === 'build') {
+          config.imageRef = image;
+        }
+      } else {
+        const premade = aikitService.getPremadeModels().find((m) => m.image === image);
+        if (premade) {
+          config.premadeModel = premade.id;
+        } else {
+          config.imageRef = image;
+        }
+      }
+    }
+
+    const result = kaitoDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
   validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
     const result = kaitoDeploymentConfigSchema.safeParse(config);
 
@@ -723,85 +926,8 @@ export class KaitoProvider implements Provider {
     };
   }
 
-  getKeyMetrics(): MetricDefinition[] {
-    // Return metrics for both llama.cpp and vLLM
-    // The frontend/metrics service will filter based on what's actually available
-    return [
-      // llama.cpp/AIKit metrics
-      {
-        name: 'llamacpp_requests_processing',
-        displayName: 'Processing Requests',
-        description: 'Number of requests currently being processed',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      {
-        name: 'llamacpp_requests_pending',
-        displayName: 'Pending Requests',
-        description: 'Number of requests waiting in queue',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      {
-        name: 'llamacpp_kv_cache_usage_ratio',
-        displayName: 'KV Cache Usage',
-        description: 'KV cache usage ratio',
-        unit: '%',
-        type: 'gauge',
-        category: 'cache',
-      },
-      {
-        name: 'llamacpp_tokens_predicted_total',
-        displayName: 'Tokens Generated',
-        description: 'Total tokens generated',
-        unit: 'tokens/s',
-        type: 'counter',
-        category: 'throughput',
-      },
-      {
-        name: 'llamacpp_prompt_tokens_processed_total',
-        displayName: 'Prompt Tokens',
-        description: 'Total prompt tokens processed',
-        unit: 'tokens/s',
-        type: 'counter',
-        category: 'throughput',
-      },
-      // vLLM metrics
-      {
-        name: 'vllm:num_requests_running',
-        displayName: 'Running Requests',
-        description: 'Number of requests currently running',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      {
-        name: 'vllm:num_requests_waiting',
-        displayName: 'Waiting Requests',
-        description: 'Number of requests waiting in queue',
-        unit: 'requests',
-        type: 'gauge',
-        category: 'queue',
-      },
-      {
-        name: 'vllm:gpu_cache_usage_perc',
-        displayName: 'GPU Cache Usage',
-        description: 'GPU KV cache usage percentage',
-        unit: '%',
-        type: 'gauge',
-        category: 'cache',
-      },
-      {
-        name: 'vllm:avg_generation_throughput_toks_per_s',
-        displayName: 'Generation Throughput',
-        description: 'Average tokens generated per second',
-        unit: 'tokens/s',
-        type: 'gauge',
-        category: 'throughput',
-      },
-    ];
+  getKeyMetrics(engine?: Engine): MetricDefinition[] {
+    return keyMetricsForEngine(kaitoCapabilities.engines, engine);
   }
 
   getUninstallResources(): UninstallResources {
@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test';
 import { KaitoProvider } from './index';
+import { ConfigParseError } from '../types';
 import { aikitService } from '../../services/aikit';
 
 const provider = new KaitoProvider();
@@ -94,6 +95,31 @@ describe('KaitoProvider', () => {
       expect((manifest.metadata as any).labels['kubefoundry.io/compute-type']).toBe('gpu');
     });
 
+    test('vLLM manifest mounts the model cache claim as HF_HOME', () => {
+      const manifest = provider.generateManifest({ ...baseVllmConfig, modelCache: { claimName: 'hf-cache' } });
+      const spec = (manifest.inference as any).template.spec;
+      expect(spec.volumes).toContainEqual({ name: 'model-cache', persistentVolumeClaim: { claimName: 'hf-cache' } });
+      expect(spec.containers[0].volumeMounts).toContainEqual({ name: 'model-cache', mountPath: '/model-cache' });
+      expect(spec.containers[0].env).toContainEqual({ name: 'HF_HOME', value: '/model-cache' });
+    });
+
+    test('vLLM manifest serves LoRA adapters through inference.adapters', () => {
+      const manifest = provider.generateManifest({
+        ...baseVllmConfig,
+        adapters: [
+          { name: 'sql-lora', image: 'myregistry.azurecr.io/sql-lora:v1' },
+          { name: 'chat', image: 'myregistry.azurecr.io/chat:v3' },
+        ],
+      });
+      const inference = manifest.inference as any;
+      expect(inference.adapters).toEqual([
+        { source: { name: 'sql-lora', image: 'myregistry.azurecr.io/sql-lora:v1' } },
+        { source: { name: 'chat', image: 'myregistry.azurecr.io/chat:v3' } },
+      ]);
+      expect(inference.template.spec.containers[0].args).not.toContain('--enable-lora');
+      expect(provider.parseStatus(manifest).adapters).toEqual(['sql-lora', 'chat']);
+    });
+
     test('vLLM manifest uses kaito-base image', () => {
       const manifest = provider.generateManifest(baseVllmConfig);
       const container = (manifest.inference as any).template.spec.containers[0];
@@ -254,6 +280,21 @@ describe('KaitoProvider', () => {
       expect((manifest.resource as any).labelSelector.matchLabels['nvidia.com/gpu.present']).toBeUndefined();
     });
 
+    test('targets nodeSelector labels through the workspace labelSelector', () => {
+      const manifest = provider.generateManifest({
+        ...baseVllmConfig,
+        nodeSelector: { agentpool: 'a100' },
+        tolerations: [{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' }],
+        topologySpreadConstraints: [{ maxSkew: 1, topologyKey: 'kubernetes.io/hostname', whenUnsatisfiable: 'ScheduleAnyway' }],
+      });
+      const templateSpec = (manifest.inference as any).template.spec;
+
+      expect((manifest.resource as any).labelSelector.matchLabels).toEqual({ agentpool: 'a100' });
+      expect(templateSpec.nodeSelector).toBeUndefined();
+      expect(templateSpec.tolerations).toEqual([{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoSchedule' }]);
+      expect(templateSpec.topologySpreadConstraints).toHaveLength(1);
+    });
+
     test('includes resource requests when specified', () => {
       const config = {
         ...basePremadeConfig,
@@ -291,6 +332,162 @@ describe('KaitoProvider', () => {
     });
   });
 
+  describe('generatePatch', () => {
+    const baseConfig = {
+      name: 'test-deployment',
+      namespace: 'test-ns',
+      provider: 'kaito',
+      modelSource: 'premade' as const,
+      premadeModel: 'llama3.2:3b',
+      computeType: 'cpu' as const,
+      replicas: 1,
+    };
+
+    test('patches resource count when scaling', () => {
+      const patch = provider.generatePatch({ ...baseConfig, replicas: 2 }, baseConfig);
+      expect(patch).toEqual({ resource: { count: 2 } });
+    });
+
+    test('rejects model source changes', () => {
+      const vllmConfig = { ...baseConfig, modelSource: 'vllm' as const, modelId: 'Qwen/Qwen2.5-0.5B' };
+      expect(() => provider.generatePatch(vllmConfig, baseConfig)).toThrow('Model source cannot be changed');
+    });
+
+    test('rejects label selector changes', () => {
+      const config = { ...baseConfig, labelSelector: { pool: 'cpu' } };
+      expect(() => provider.generatePatch(config, baseConfig)).toThrow('Label selector cannot be changed');
+    });
+
+    test('rejects node selector changes', () => {
+      const config = { ...baseConfig, nodeSelector: { pool: 'cpu' } };
+      expect(() => provider.generatePatch(config, baseConfig)).toThrow('Label selector cannot be changed');
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    test('round-trips a vLLM model with a cache claim', () => {
+      roundTrip({
+        name: 'vllm-deployment',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'vllm',
+        modelId: 'mistralai/Mistral-7B-v0.1',
+        computeType: 'gpu',
+        resources: { gpu: 1 },
+        modelCache: { claimName: 'hf-cache' },
+      });
+    });
+
+    test('round-trips a vLLM model with LoRA adapters', () => {
+      roundTrip({
+        name: 'vllm-deployment',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'vllm',
+        modelId: 'mistralai/Mistral-7B-v0.1',
+        computeType: 'gpu',
+        resources: { gpu: 1 },
+        modelCache: { claimName: 'hf-cache' },
+        adapters: [
+          { name: 'sql-lora', image: 'myregistry.azurecr.io/sql-lora:v1' },
+          { name: 'chat', image: 'myregistry.azurecr.io/chat:v3' },
+        ],
+      });
+    });
+
+    test('round-trips a premade model', () => {
+      roundTrip({
+        name: 'premade-deployment',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'premade',
+        premadeModel: 'llama3.2:3b',
+        computeType: 'cpu',
+        replicas: 2,
+        resources: { memory: '8Gi', cpu: '4' },
+      });
+    });
+
+    test('round-trips a direct-run GGUF model', () => {
+      roundTrip({
+        name: 'gguf-direct',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'huggingface',
+        modelId: 'TheBloke/Llama-2-7B-Chat-GGUF',
+        ggufFile: 'llama-2-7b-chat.Q4_K_M.gguf',
+        ggufRunMode: 'direct',
+        computeType: 'gpu',
+        resources: { gpu: 1 },
+        labelSelector: { 'agentpool': 'gpupool' },
+      });
+    });
+
+    test('round-trips a built GGUF model', () => {
+      roundTrip({
+        name: 'gguf-build',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'huggingface',
+        modelId: 'TheBloke/Llama-2-7B-Chat-GGUF',
+        ggufFile: 'llama-2-7b-chat.Q4_K_M.gguf',
+        ggufRunMode: 'build',
+        imageRef: 'kubefoundry-registry.kubefoundry-system.svc:5000/thebloke-llama-2-7b-chat-gguf:q4-k-m',
+        computeType: 'cpu',
+      });
+    });
+
+    test('round-trips a vLLM model', () => {
+      roundTrip({
+        name: 'vllm-deployment',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'vllm',
+        modelId: 'Qwen/Qwen2.5-0.5B-Instruct',
+        computeType: 'gpu',
+        resources: { gpu: 2 },
+        maxModelLen: 4096,
+        hfTokenSecret: 'hf-token',
+      });
+    });
+
+    test('recovers the GGUF file from the direct-run URI without annotations', () => {
+      const config = provider.validateConfig({
+        name: 'gguf-direct',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'huggingface',
+        modelId: 'TheBloke/Llama-2-7B-Chat-GGUF',
+        ggufFile: 'llama-2-7b-chat.Q4_K_M.gguf',
+      }).data!;
+      const manifest = provider.generateManifest(config);
+      delete (manifest.metadata as any).annotations;
+
+      const parsed = provider.parseConfig(manifest);
+      expect(parsed.modelId).toBe('TheBloke/Llama-2-7B-Chat-GGUF');
+      expect(parsed.ggufFile).toBe('llama-2-7b-chat.Q4_K_M.gguf');
+    });
+
+    test('throws ConfigParseError when the resource no longer makes up a valid config', () => {
+      const manifest = provider.generateManifest(provider.validateConfig({
+        name: 'vllm-deployment',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'vllm',
+        modelId: 'mistralai/Mistral-7B-v0.1',
+      }).data!);
+      const edited = { ...manifest, metadata: { ...(manifest.metadata as object), name: 'Not_Valid' } };
+      expect(() => provider.parseConfig(edited)).toThrow(ConfigParseError);
+    });
+  });
+
   describe('parseStatus', () => {
     test('parses basic deployment status', () => {
       const raw = {
@@ -486,6 +683,20 @@ describe('KaitoProvider', () => {
   });
 
   describe('validateConfig', () => {
+    test('rejects a model cache for premade models', () => {
+      const result = provider.validateConfig({
+        name: 'valid-name',
+        namespace: 'test-ns',
+        provider: 'kaito',
+        modelSource: 'premade',
+        premadeModel: 'llama3.2:3b',
+        computeType: 'cpu',
+        modelCache: { claimName: 'hf-cache' },
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors.join()).toContain('model cache');
+    });
+
     test('validates correct premade configuration', () => {
       const config = {
         name: 'valid-name',
@@ -752,16 +963,6 @@ describe('KaitoProvider', () => {
       expect(metricNames).toContain('vllm:num_requests_running');
       expect(metricNames).toContain('vllm:gpu_cache_usage_perc');
     });
-
-    test('metrics have required fields', () => {
-      const metrics = provider.getKeyMetrics();
-      for (const metric of metrics) {
-        expect(metric.name).toBeDefined();
-        expect(metric.displayName).toBeDefined();
-        expect(metric.type).toMatch(/gauge|counter|histogram/);
-        expect(metric.category).toBeDefined();
-      }
-    });
   });
 });
 
@@ -265,6 +265,30 @@ describe('kaitoDeploymentConfigSchema', () => {
     });
   });
 
+  describe('adapters validation', () => {
+    const adapters = [{ name: 'sql-lora', image: 'myregistry.azurecr.io/sql-lora:v1' }];
+
+    it('accepts adapters on vllm models', () => {
+      const result = kaitoDeploymentConfigSchema.safeParse({ ...validVllmConfig, adapters });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects adapters that are not images', () => {
+      const result = kaitoDeploymentConfigSchema.safeParse({
+        ...validVllmConfig,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects adapters on premade and GGUF models', () => {
+      for (const config of [validPremadeConfig, validHuggingFaceConfig]) {
+        const result = kaitoDeploymentConfigSchema.safeParse({ ...config, adapters });
+        expect(result.success).toBe(false);
+      }
+    });
+  });
+
   describe('required fields', () => {
     it('rejects missing namespace', () => {
       const { namespace, ...configWithoutNamespace } = validPremadeConfig;
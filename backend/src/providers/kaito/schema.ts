@@ -1,4 +1,21 @@
 import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
+import { schedulingConfigSchema, modelCacheSchema, loraAdaptersSchema } from '../types';
+
+// KAITO configs are keyed on modelSource rather than engine, so the schema below
+// validates them itself: llama.cpp serves premade and GGUF models, vLLM the rest
+export const kaitoCapabilities: ProviderCapabilities = {
+  engines: ['llamacpp', 'vllm'],
+  modes: ['aggregated'],
+  routerModes: ['none'],
+  adapterEngines: ['vllm'],
+  adapterSources: ['image'],
+  cpu: true,
+  gguf: true,
+  autoscaling: false,
+  engineArgs: false,
+  multiNode: false,
+};
 
 /**
  * KAITO-specific deployment configuration schema
@@ -35,6 +52,7 @@ export const kaitoDeploymentConfigSchema = z.object({
 
   // Node targeting
   labelSelector: z.record(z.string()).optional(),
+  ...schedulingConfigSchema.shape,
 
   // Resources
   resources: z.object({
@@ -52,6 +70,12 @@ export const kaitoDeploymentConfigSchema = z.object({
   // HuggingFace token secret for gated models
   hfTokenSecret: z.string().optional(),
 
+  // Cache for models downloaded at startup (vLLM and direct-run GGUF)
+  modelCache: modelCacheSchema.optional(),
+
+  // LoRA adapters, served by vLLM models
+  adapters: loraAdaptersSchema.optional(),
+
 }).refine(
   data => {
     if (data.modelSource === 'premade') {
@@ -68,6 +92,16 @@ export const kaitoDeploymentConfigSchema = z.object({
     return false;
   },
   { message: 'Invalid model configuration: premade requires premadeModel, huggingface requires modelId and ggufFile, vllm requires modelId' }
+).refine(
+  // Premade and built images carry their weights, so there is nothing to cache
+  data => !data.modelCache || data.modelSource === 'vllm' || (data.modelSource === 'huggingface' && data.ggufRunMode === 'direct'),
+  { message: 'A model cache is only used by vLLM and direct-run GGUF models', path: ['modelCache'] }
+).refine(
+  data => !data.adapters?.length || data.modelSource === 'vllm',
+  { message: 'LoRA adapters are only supported for vLLM models', path: ['adapters'] }
+).refine(
+  data => !data.adapters?.some((adapter) => !adapter.image),
+  { message: 'KAITO only loads LoRA adapters from container images', path: ['adapters'] }
 );
 
 export type KaitoDeploymentConfig = z.infer<typeof kaitoDeploymentConfigSchema>;
@@ -109,6 +143,12 @@ export const kaitoWorkspaceSchema = z.object({
           })),
         }),
       }),
+      adapters: z.array(z.object({
+        source: z.object({
+          name: z.string(),
+          image: z.string(),
+        }),
+      })).optional(),
     }),
   }),
 });
@@ -0,0 +1,531 @@
+import * as k8s from '@kubernetes/client-node';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, Engine, MetricDefinition, MetricsEndpointConfig, Toleration, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { kserveCapabilities, kserveDeploymentConfigSchema, type KServeDeploymentConfig } from './schema';
+import { keyMetricsForEngine } from '../metrics';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
+import logger from '../../lib/logger';
+
+// KServe release installed from its OCI Helm charts
+const KSERVE_VERSION = process.env.KSERVE_VERSION || 'v0.15.2';
+
+// Namespace the KServe controller runs in
+const KSERVE_NAMESPACE = 'kserve';
+
+// Lets GPU predictors land on nodes tainted by the NVIDIA GPU operator
+const GPU_TOLERATION: Toleration = {
+  key: 'nvidia.com/gpu',
+  operator: 'Exists',
+  effect: 'NoSchedule',
+};
+
+// Annotation selecting how KServe runs the predictor
+const DEPLOYMENT_MODE_ANNOTATION = 'serving.kserve.io/deploymentMode';
+
+// Service port of the predictor, forwarding to the runtime's HTTP port
+const PREDICTOR_PORT = 80;
+
+// Model server arguments KubeFoundry derives from dedicated config fields
+const OWN_ARGS = new Set([
+  'model_name',
+  'model_id',
+  'backend',
+  'max-model-len',
+  'tensor-parallel-size',
+  'enforce-eager',
+  'enable-prefix-caching',
+  'trust_remote_code',
+]);
+
+/**
+ * Raw InferenceService fields read when parsing status and config
+ */
+interface InferenceServiceObject {
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    creationTimestamp?: string;
+    annotations?: Record<string, string>;
+  };
+  spec?: {
+    predictor?: Record<string, unknown> & {
+      minReplicas?: number;
+      model?: {
+        runtime?: string;
+        args?: string[];
+        env?: Array<{ name?: string; valueFrom?: { secretKeyRef?: { name?: string } } }>;
+        resources?: { limits?: Record<string, string> };
+      };
+    };
+  };
+  status?: {
+    conditions?: Array<{
+      type?: string;
+      status?: string;
+      reason?: string;
+      message?: string;
+      lastTransitionTime?: string;
+    }>;
+    modelStatus?: {
+      transitionStatus?: string;
+      states?: { activeModelState?: string };
+    };
+  };
+}
+
+/**
+ * KServe Provider
+ * Implements the Provider interface for KServe InferenceServices, serving
+ * HuggingFace models through the HuggingFace runtime's vLLM backend
+ */
+export class KServeProvider implements Provider {
+  id = 'kserve';
+  name = 'KServe';
+  description = 'KServe InferenceServices running the HuggingFace serving runtime with its vLLM backend, for clusters that standardize on KServe.';
+  defaultNamespace = 'kserve-inference';
+
+  // CRD Constants
+  private static readonly API_GROUP = 'serving.kserve.io';
+  private static readonly API_VERSION = 'v1beta1';
+  private static readonly CRD_PLURAL = 'inferenceservices';
+  private static readonly CRD_KIND = 'InferenceService';
+
+  getCRDConfig(): CRDConfig {
+    return {
+      apiGroup: KServeProvider.API_GROUP,
+      apiVersion: KServeProvider.API_VERSION,
+      plural: KServeProvider.CRD_PLURAL,
+      kind: KServeProvider.CRD_KIND,
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return kserveCapabilities;
+  }
+
+  generateManifest(config: DeploymentConfig): Record<string, unknown> {
+    const kserveConfig = config as unknown as KServeDeploymentConfig;
+    const gpuCount = kserveConfig.resources?.gpu || 1;
+
+    logger.debug({ name: config.name, deploymentMode: kserveConfig.deploymentMode }, 'Generating KServe manifest');
+
+    const limits: Record<string, string> = {
+      'nvidia.com/gpu': String(gpuCount),
+      ...(kserveConfig.cpu && { cpu: kserveConfig.cpu }),
+      ...(kserveConfig.resources?.memory && { memory: kserveConfig.resources.memory }),
+    };
+
+    const env: Record<string, unknown>[] = [
+      {
+        name: 'HF_TOKEN',
+        valueFrom: { secretKeyRef: { name: kserveConfig.hfTokenSecret, key: 'HF_TOKEN' } },
+      },
+    ];
+    if (kserveConfig.modelCache) {
+      env.push(modelCacheEnv());
+    }
+
+    return {
+      apiVersion: `${KServeProvider.API_GROUP}/${KServeProvider.API_VERSION}`,
+      kind: KServeProvider.CRD_KIND,
+      metadata: {
+        name: config.name,
+        namespace: config.namespace,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
+        },
+        annotations: {
+          [DEPLOYMENT_MODE_ANNOTATION]: kserveConfig.deploymentMode || 'RawDeployment',
+        },
+      },
+      spec: {
+        predictor: {
+          // Fixed replica count; KubeFoundry scales by changing replicas
+          minReplicas: kserveConfig.replicas || 1,
+          maxReplicas: kserveConfig.replicas || 1,
+          model: {
+            modelFormat: { name: 'huggingface' },
+            ...(kserveConfig.runtime && { runtime: kserveConfig.runtime }),
+            args: this.buildArgs(kserveConfig, gpuCount),
+            env,
+            resources: { limits, requests: limits },
+            ...(kserveConfig.modelCache && { volumeMounts: [modelCacheVolumeMount()] }),
+          },
+          ...(kserveConfig.modelCache && { volumes: [modelCacheVolume(kserveConfig.modelCache)] }),
+          ...buildPodScheduling(kserveConfig, [GPU_TOLERATION]),
+        },
+      },
+    };
+  }
+
+  /**
+   * Command line for the HuggingFace runtime. Its own options use underscores;
+   * vLLM engine options are passed through with dashes.
+   */
+  private buildArgs(config: KServeDeploymentConfig, gpuCount: number): string[] {
+    const args = [
+      `--model_name=${config.servedModelName || config.modelId}`,
+      `--model_id=${config.modelId}`,
+      '--backend=vllm',
+    ];
+
+    if (config.contextLength) {
+      args.push(`--max-model-len=${config.contextLength}`);
+    }
+    if (gpuCount > 1) {
+      args.push(`--tensor-parallel-size=${gpuCount}`);
+    }
+    if (config.enforceEager) {
+      args.push('--enforce-eager');
+    }
+    if (config.enablePrefixCaching) {
+      args.push('--enable-prefix-caching');
+    }
+    if (config.trustRemoteCode) {
+      args.push('--trust_remote_code');
+    }
+
+    for (const [key, value] of Object.entries(config.engineArgs || {})) {
+      if (value === true) {
+        args.push(`--${key}`);
+      } else if (value !== false) {
+        args.push(`--${key}=${value}`);
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Split model server arguments into the ones KubeFoundry sets itself and
+   * any remaining engine arguments. Arguments without a value are booleans.
+   */
+  private parseArgs(args: string[]): {
+    flags: Record<string, string | true>;
+    engineArgs: Record<string, unknown>;
+  } {
+    const flags: Record<string, string | true> = {};
+    const engineArgs: Record<string, unknown> = {};
+
+    for (const arg of args) {
+      if (!arg.startsWith('--')) {
+        continue;
+      }
+      const separator = arg.indexOf('=');
+      const key = separator < 0 ? arg.slice(2) : arg.slice(2, separator);
+      const value = separator < 0 ? undefined : arg.slice(separator + 1);
+
+      if (OWN_ARGS.has(key)) {
+        flags[key] = value ?? true;
+      } else if (value === undefined) {
+        engineArgs[key] = true;
+      } else {
+        engineArgs[key] = value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      }
+    }
+
+    return { flags, engineArgs };
+  }
+
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
+  parseStatus(raw: unknown): DeploymentStatus {
+    const obj = raw as InferenceServiceObject;
+    const metadata = obj.metadata || {};
+    const predictor = obj.spec?.predictor || {};
+    const status = obj.status || {};
+    const conditions = status.conditions || [];
+
+    const { flags } = this.parseArgs(predictor.model?.args || []);
+    const modelId = typeof flags.model_id === 'string' ? flags.model_id : '';
+    const servedModelName = typeof flags.model_name === 'string' ? flags.model_name : modelId;
+
+    const phase = this.mapPhase(status);
+    const desiredReplicas = predictor.minReplicas || 1;
+    // InferenceService status has no replica counts; Ready means every predictor replica is up
+    const readyReplicas = phase === 'Running' ? desiredReplicas : 0;
+
+    return {
+      name: metadata.name || 'unknown',
+      namespace: metadata.namespace || 'default',
+      modelId,
+      servedModelName: servedModelName || metadata.name || 'unknown',
+      engine: 'vllm',
+      mode: 'aggregated',
+      phase,
+      provider: this.id,
+      replicas: {
+        desired: desiredReplicas,
+        ready: readyReplicas,
+        available: readyReplicas,
+      },
+      conditions: conditions.map((c) => ({
+        type: c.type || '',
+        status: (c.status as 'True' | 'False' | 'Unknown') || 'Unknown',
+        reason: c.reason,
+        message: c.message,
+        lastTransitionTime: c.lastTransitionTime,
+      })),
+      pods: [],
+      createdAt: metadata.creationTimestamp || new Date().toISOString(),
+      frontendService: `${metadata.name}-predictor:${PREDICTOR_PORT}`,
+    };
+  }
+
+  /**
+   * Map InferenceService conditions and model status to our DeploymentPhase
+   */
+  private mapPhase(status: NonNullable<InferenceServiceObject['status']>): DeploymentPhase {
+    const conditions = status.conditions || [];
+    if (conditions.find((c) => c.type === 'Ready')?.status === 'True') {
+      return 'Running';
+    }
+
+    const modelStatus = status.modelStatus;
+    if (
+      modelStatus?.transitionStatus === 'BlockedByFailedLoad'
+      || modelStatus?.transitionStatus === 'InvalidSpec'
+      || modelStatus?.states?.activeModelState === 'FailedToLoad'
+    ) {
+      return 'Failed';
+    }
+
+    // The controller reports conditions once it has started reconciling
+    return conditions.length > 0 ? 'Deploying' : 'Pending';
+  }
+
+  parseConfig(raw: unknown): DeploymentConfig {
+    const obj = raw as InferenceServiceObject;
+    const predictor = obj.spec?.predictor;
+    const model = predictor?.model;
+
+    if (!model?.args) {
+      throw new Error(`InferenceService '${obj.metadata?.name}' has no model server arguments`);
+    }
+
+    const { flags, engineArgs } = this.parseArgs(model.args);
+    const limits = model.resources?.limits || {};
+    const hfToken = model.env?.find((e) => e.name === 'HF_TOKEN');
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'kserve',
+      modelId: flags.model_id,
+      engine: 'vllm',
+      mode: 'aggregated',
+      servedModelName: flags.model_name !== flags.model_id ? flags.model_name : undefined,
+      replicas: predictor?.minReplicas ?? 1,
+      hfTokenSecret: hfToken?.valueFrom?.secretKeyRef?.name,
+      contextLength: typeof flags['max-model-len'] === 'string' ? Number(flags['max-model-len']) : undefined,
+      enforceEager: flags['enforce-eager'] === true,
+      enablePrefixCaching: flags['enable-prefix-caching'] === true,
+      trustRemoteCode: flags.trust_remote_code === true,
+      ...(Object.keys(engineArgs).length > 0 && { engineArgs }),
+      resources: {
+        gpu: Number(limits['nvidia.com/gpu'] || 1),
+        ...(limits.memory && { memory: limits.memory }),
+      },
+      deploymentMode: obj.metadata?.annotations?.[DEPLOYMENT_MODE_ANNOTATION],
+      runtime: model.runtime,
+      cpu: limits.cpu,
+      ...parsePodScheduling(predictor, [GPU_TOLERATION]),
+      modelCache: parseModelCache(predictor),
+    };
+
+    const result = kserveDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
+  validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
+    const result = kserveDeploymentConfigSchema.safeParse(config);
+
+    if (!result.success) {
+      const errors = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+      logger.warn({ errors }, 'KServe config validation failed');
+      return {
+        valid: false,
+        errors,
+      };
+    }
+
+    logger.debug({ name: result.data.name }, 'KServe config validated successfully');
+    return {
+      valid: true,
+      errors: [],
+      data: result.data as unknown as DeploymentConfig,
+    };
+  }
+
+  getConfigSchema() {
+    return kserveDeploymentConfigSchema;
+  }
+
+  getInstallationSteps(): InstallationStep[] {
+    return [
+      {
+        title: 'Install cert-manager',
+        command: 'helm install cert-manager jetstack/cert-manager --namespace cert-manager --create-namespace --set crds.enabled=true',
+        description: 'KServe uses cert-manager to issue its webhook certificates. It is not installed by KubeFoundry, since other workloads may already rely on it.',
+      },
+      {
+        title: 'Install KServe CRDs',
+        command: `helm install kserve-crd oci://ghcr.io/kserve/charts/kserve-crd --version ${KSERVE_VERSION} --namespace ${KSERVE_NAMESPACE} --create-namespace`,
+        description: 'Install the InferenceService and ServingRuntime custom resource definitions.',
+      },
+      {
+        title: 'Install KServe Controller',
+        command: `helm install kserve oci://ghcr.io/kserve/charts/kserve --version ${KSERVE_VERSION} --namespace ${KSERVE_NAMESPACE} --set kserve.controller.deploymentMode=RawDeployment`,
+        description: `Install the KServe ${KSERVE_VERSION} controller and its cluster serving runtimes in raw deployment mode, which does not need Knative or Istio.`,
+      },
+    ];
+  }
+
+  getHelmRepos(): HelmRepo[] {
+    // Charts are pulled from an OCI registry
+    return [];
+  }
+
+  getHelmCharts(): HelmChart[] {
+    return [
+      {
+        name: 'kserve-crd',
+        chart: 'oci://ghcr.io/kserve/charts/kserve-crd',
+        version: KSERVE_VERSION,
+        namespace: KSERVE_NAMESPACE,
+        createNamespace: true,
+      },
+      {
+        name: 'kserve',
+        chart: 'oci://ghcr.io/kserve/charts/kserve',
+        version: KSERVE_VERSION,
+        namespace: KSERVE_NAMESPACE,
+        createNamespace: true,
+        values: {
+          kserve: {
+            controller: {
+              deploymentMode: 'RawDeployment',
+            },
+          },
+        },
+      },
+    ];
+  }
+
+  async checkInstallation(k8sApi: {
+    customObjectsApi: unknown;
+    coreV1Api: unknown;
+  }): Promise<InstallationStatus> {
+    const customObjectsApi = k8sApi.customObjectsApi as k8s.CustomObjectsApi;
+    const coreV1Api = k8sApi.coreV1Api as k8s.CoreV1Api;
+
+    logger.debug('Checking KServe installation status');
+
+    try {
+      // Check if InferenceService CRD exists by trying to list resources
+      let crdFound = false;
+      try {
+        await customObjectsApi.listNamespacedCustomObject(
+          KServeProvider.API_GROUP,
+          KServeProvider.API_VERSION,
+          this.defaultNamespace,
+          KServeProvider.CRD_PLURAL
+        );
+        crdFound = true;
+        logger.debug('KServe CRD found');
+      } catch (error: unknown) {
+        const k8sError = error as { response?: { statusCode?: number } };
+        // 404 means CRD doesn't exist, other errors might be permissions
+        if (k8sError?.response?.statusCode === 404) {
+          logger.debug('KServe CRD not found');
+        }
+      }
+
+      let operatorRunning = false;
+      try {
+        const pods = await coreV1Api.listNamespacedPod(
+          KSERVE_NAMESPACE,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          'control-plane=kserve-controller-manager'
+        );
+        operatorRunning = pods.body.items.some(
+          pod => pod.status?.phase === 'Running'
+        );
+      } catch {
+        // Namespace might not exist
+        operatorRunning = false;
+      }
+
+      const installed = crdFound && operatorRunning;
+      logger.info({ installed, crdFound, operatorRunning }, 'KServe installation check complete');
+
+      return {
+        installed,
+        crdFound,
+        operatorRunning,
+        message: installed
+          ? 'KServe is installed and running'
+          : !crdFound
+          ? 'KServe CRD not found. Please install KServe.'
+          : 'KServe controller is not running',
+      };
+    } catch (error) {
+      logger.error({ error }, 'Error checking KServe installation');
+      return {
+        installed: false,
+        message: `Error checking installation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  getMetricsConfig(): MetricsEndpointConfig | null {
+    return {
+      endpointPath: '/metrics',
+      port: PREDICTOR_PORT,
+      // The model server exposes vLLM's metrics on its HTTP port, behind the predictor service
+      serviceNamePattern: '{name}-predictor',
+      // Predictor pods of RawDeployment ({name}-predictor-<hash>-<suffix>) and Serverless
+      // ({name}-predictor-<revision>-deployment-<hash>-<suffix>) inference services
+      podNamePattern: '{name}-predictor(-[0-9]+-deployment)?-[a-z0-9]+-[a-z0-9]{5}',
+    };
+  }
+
+  getKeyMetrics(engine?: Engine): MetricDefinition[] {
+    return keyMetricsForEngine(kserveCapabilities.engines, engine);
+  }
+
+  getUninstallResources(): UninstallResources {
+    return {
+      // CRDs installed by the kserve-crd chart
+      crds: [
+        `${KServeProvider.CRD_PLURAL}.${KServeProvider.API_GROUP}`,
+        `servingruntimes.${KServeProvider.API_GROUP}`,
+        `clusterservingruntimes.${KServeProvider.API_GROUP}`,
+        `clusterstoragecontainers.${KServeProvider.API_GROUP}`,
+        `inferencegraphs.${KServeProvider.API_GROUP}`,
+        `trainedmodels.${KServeProvider.API_GROUP}`,
+        `localmodelcaches.${KServeProvider.API_GROUP}`,
+        `localmodelnodegroups.${KServeProvider.API_GROUP}`,
+        `localmodelnodes.${KServeProvider.API_GROUP}`,
+      ],
+      // KServe controller namespace
+      namespaces: [KSERVE_NAMESPACE],
+    };
+  }
+}
+
+// Export singleton instance
+export const kserveProvider = new KServeProvider();
@@ -0,0 +1,374 @@
+import { describe, test, expect } from 'bun:test';
+import type * as k8s from '@kubernetes/client-node';
+import { KServeProvider } from './index';
+import { buildManifest } from '../conformance';
+
+const provider = new KServeProvider();
+
+const baseConfig = {
+  name: 'qwen',
+  namespace: 'kserve-inference',
+  provider: 'kserve',
+  modelId: 'Qwen/Qwen3-0.6B',
+  engine: 'vllm',
+  hfTokenSecret: 'hf-token-secret',
+  resources: { gpu: 1 },
+};
+
+/**
+ * The InferenceService fields these tests read
+ */
+interface InferenceService {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string; labels: Record<string, string>; annotations: Record<string, string> };
+  spec: {
+    predictor: {
+      minReplicas: number;
+      maxReplicas: number;
+      tolerations: k8s.V1Toleration[];
+      volumes?: k8s.V1Volume[];
+      model: {
+        modelFormat: { name: string };
+        runtime?: string;
+        args: string[];
+        env: k8s.V1EnvVar[];
+        resources: { limits: Record<string, string>; requests: Record<string, string> };
+        volumeMounts?: k8s.V1VolumeMount[];
+      };
+    };
+  };
+}
+
+const build = (overrides: Record<string, unknown> = {}) =>
+  buildManifest<InferenceService>(provider, { ...baseConfig, ...overrides });
+
+describe('KServeProvider', () => {
+  describe('provider info', () => {
+    test('has correct id and name', () => {
+      expect(provider.id).toBe('kserve');
+      expect(provider.name).toBe('KServe');
+    });
+
+    test('has default namespace outside the controller namespace', () => {
+      expect(provider.defaultNamespace).toBe('kserve-inference');
+    });
+  });
+
+  describe('getCRDConfig', () => {
+    test('returns correct CRD configuration', () => {
+      const config = provider.getCRDConfig();
+      expect(config.apiGroup).toBe('serving.kserve.io');
+      expect(config.apiVersion).toBe('v1beta1');
+      expect(config.plural).toBe('inferenceservices');
+      expect(config.kind).toBe('InferenceService');
+    });
+  });
+
+  describe('generateManifest', () => {
+    test('generates an InferenceService with a huggingface predictor', () => {
+      const manifest = build();
+
+      expect(manifest.apiVersion).toBe('serving.kserve.io/v1beta1');
+      expect(manifest.kind).toBe('InferenceService');
+      expect(manifest.metadata.name).toBe('qwen');
+      expect(manifest.metadata.labels['app.kubernetes.io/managed-by']).toBe('kubefoundry');
+      expect(manifest.metadata.annotations['serving.kserve.io/deploymentMode']).toBe('RawDeployment');
+      expect(manifest.spec.predictor.model.modelFormat).toEqual({ name: 'huggingface' });
+      expect(manifest.spec.predictor.model.runtime).toBeUndefined();
+    });
+
+    test('passes the model and vLLM backend to the runtime', () => {
+      const { args } = build().spec.predictor.model;
+      expect(args.slice(0, 3)).toEqual(['--model_name=Qwen/Qwen3-0.6B', '--model_id=Qwen/Qwen3-0.6B', '--backend=vllm']);
+      expect(args.some((a) => a.startsWith('--tensor-parallel-size'))).toBe(false);
+    });
+
+    test('maps engine options and engine args to runtime flags', () => {
+      const { args } = build({
+        servedModelName: 'qwen-small',
+        contextLength: 8192,
+        enforceEager: true,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        engineArgs: { 'gpu-memory-utilization': 0.85, 'disable-log-requests': true },
+      }).spec.predictor.model;
+
+      expect(args).toContain('--model_name=qwen-small');
+      expect(args).toContain('--max-model-len=8192');
+      expect(args).toContain('--enforce-eager');
+      expect(args).toContain('--enable-prefix-caching');
+      expect(args).toContain('--trust_remote_code');
+      expect(args).toContain('--gpu-memory-utilization=0.85');
+      expect(args).toContain('--disable-log-requests');
+    });
+
+    test('shards across GPUs with tensor parallelism', () => {
+      const { model } = build({ resources: { gpu: 4, memory: '64Gi' }, cpu: '16' }).spec.predictor;
+      expect(model.args).toContain('--tensor-parallel-size=4');
+      expect(model.resources.limits).toEqual({ 'nvidia.com/gpu': '4', cpu: '16', memory: '64Gi' });
+      expect(model.resources.requests).toEqual(model.resources.limits);
+    });
+
+    test('fixes the replica count', () => {
+      const { predictor } = build({ replicas: 3 }).spec;
+      expect(predictor.minReplicas).toBe(3);
+      expect(predictor.maxReplicas).toBe(3);
+    });
+
+    test('reads the HuggingFace token from the secret', () => {
+      const { env } = build().spec.predictor.model;
+      expect(env).toContainEqual({
+        name: 'HF_TOKEN',
+        valueFrom: { secretKeyRef: { name: 'hf-token-secret', key: 'HF_TOKEN' } },
+      });
+    });
+
+    test('tolerates GPU node taints', () => {
+      const { tolerations } = build().spec.predictor;
+      expect(tolerations).toContainEqual({ key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' });
+    });
+
+    test('mounts the model cache claim as HF_HOME', () => {
+      const { predictor } = build({ modelCache: { claimName: 'hf-cache' } }).spec;
+      expect(predictor.volumes).toHaveLength(1);
+      expect(predictor.model.volumeMounts).toHaveLength(1);
+      expect(predictor.model.env.map((e) => e.name)).toContain('HF_HOME');
+    });
+
+    test('uses the requested runtime and deployment mode', () => {
+      const manifest = build({ runtime: 'kserve-huggingfaceserver', deploymentMode: 'Serverless' });
+      expect(manifest.spec.predictor.model.runtime).toBe('kserve-huggingfaceserver');
+      expect(manifest.metadata.annotations['serving.kserve.io/deploymentMode']).toBe('Serverless');
+    });
+  });
+
+  describe('generatePatch', () => {
+    test('patches replicas when scaling', () => {
+      const previous = provider.validateConfig(baseConfig).data!;
+      const next = provider.validateConfig({ ...baseConfig, replicas: 2 }).data!;
+      const patch = provider.generatePatch(next, previous) as any;
+      expect(patch.spec.predictor.minReplicas).toBe(2);
+      expect(patch.spec.predictor.maxReplicas).toBe(2);
+      expect(patch.metadata).toBeUndefined();
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    test('round-trips a minimal deployment', () => {
+      roundTrip(baseConfig);
+    });
+
+    test('round-trips a deployment with every option', () => {
+      roundTrip({
+        ...baseConfig,
+        servedModelName: 'qwen-small',
+        replicas: 2,
+        contextLength: 8192,
+        enforceEager: true,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        engineArgs: { 'gpu-memory-utilization': 0.85, 'disable-log-requests': true },
+        resources: { gpu: 2, memory: '64Gi' },
+        cpu: '16',
+        deploymentMode: 'Serverless',
+        runtime: 'kserve-huggingfaceserver',
+        nodeSelector: { 'nvidia.com/gpu.product': 'NVIDIA-A100-SXM4-80GB' },
+        tolerations: [{ key: 'dedicated', operator: 'Equal', value: 'inference', effect: 'NoSchedule' }],
+        modelCache: { claimName: 'hf-cache' },
+      });
+    });
+
+    test('throws when the predictor has no model server arguments', () => {
+      expect(() => provider.parseConfig({
+        metadata: { name: 'custom' },
+        spec: { predictor: { model: { modelFormat: { name: 'sklearn' } } } },
+      })).toThrow('has no model server arguments');
+    });
+  });
+
+  describe('parseStatus', () => {
+    const manifest = () => build({ replicas: 2 });
+
+    test('parses a ready InferenceService', () => {
+      const status = provider.parseStatus({
+        ...manifest(),
+        metadata: { ...manifest().metadata, creationTimestamp: '2025-01-01T00:00:00Z' },
+        status: {
+          conditions: [
+            { type: 'PredictorReady', status: 'True' },
+            { type: 'Ready', status: 'True' },
+          ],
+        },
+      });
+
+      expect(status.name).toBe('qwen');
+      expect(status.namespace).toBe('kserve-inference');
+      expect(status.modelId).toBe('Qwen/Qwen3-0.6B');
+      expect(status.servedModelName).toBe('Qwen/Qwen3-0.6B');
+      expect(status.engine).toBe('vllm');
+      expect(status.provider).toBe('kserve');
+      expect(status.phase).toBe('Running');
+      expect(status.replicas).toEqual({ desired: 2, ready: 2, available: 2 });
+      expect(status.conditions).toHaveLength(2);
+      expect(status.createdAt).toBe('2025-01-01T00:00:00Z');
+      expect(status.frontendService).toBe('qwen-predictor:80');
+    });
+
+    test('parses a deploying InferenceService', () => {
+      const status = provider.parseStatus({
+        ...manifest(),
+        status: { conditions: [{ type: 'Ready', status: 'False', reason: 'PredictorNotReady' }] },
+      });
+      expect(status.phase).toBe('Deploying');
+      expect(status.replicas.ready).toBe(0);
+    });
+
+    test('parses a pending InferenceService without status', () => {
+      expect(provider.parseStatus(manifest()).phase).toBe('Pending');
+    });
+
+    test('parses a model that failed to load', () => {
+      for (const modelStatus of [
+        { transitionStatus: 'BlockedByFailedLoad' },
+        { transitionStatus: 'InvalidSpec' },
+        { states: { activeModelState: 'FailedToLoad' } },
+      ]) {
+        const status = provider.parseStatus({
+          ...manifest(),
+          status: { conditions: [{ type: 'Ready', status: 'False' }], modelStatus },
+        });
+        expect(status.phase).toBe('Failed');
+      }
+    });
+  });
+
+  describe('validateConfig', () => {
+    test('validates a minimal configuration', () => {
+      const result = provider.validateConfig(baseConfig);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    test('rejects disaggregated mode', () => {
+      const result = provider.validateConfig({ ...baseConfig, mode: 'disaggregated' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('KServe only supports aggregated serving');
+    });
+
+    test('rejects other engines', () => {
+      const result = provider.validateConfig({ ...baseConfig, engine: 'sglang' });
+      expect(result.valid).toBe(false);
+    });
+
+    test('rejects LoRA adapters', () => {
+      const result = provider.validateConfig({
+        ...baseConfig,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toContain('LoRA adapters are not supported');
+    });
+  });
+
+  describe('installation', () => {
+    test('documents cert-manager as a prerequisite', () => {
+      const steps = provider.getInstallationSteps();
+      expect(steps[0].command).toContain('cert-manager');
+    });
+
+    test('getHelmRepos returns no repos for OCI charts', () => {
+      expect(provider.getHelmRepos()).toEqual([]);
+    });
+
+    test('getHelmCharts installs the CRDs before the controller', () => {
+      const charts = provider.getHelmCharts();
+      expect(charts.map((c) => c.name)).toEqual(['kserve-crd', 'kserve']);
+      expect(charts.every((c) => c.chart.startsWith('oci://ghcr.io/kserve/charts/'))).toBe(true);
+      expect(charts.every((c) => c.namespace === 'kserve')).toBe(true);
+    });
+
+    test('getHelmCharts does not install cert-manager', () => {
+      const charts = provider.getHelmCharts();
+      expect(charts.some((c) => c.name.includes('cert-manager'))).toBe(false);
+    });
+
+    test('getHelmCharts runs the controller in raw deployment mode', () => {
+      const controller = provider.getHelmCharts().find((c) => c.name === 'kserve');
+      expect((controller?.values as any).kserve.controller.deploymentMode).toBe('RawDeployment');
+    });
+  });
+
+  describe('checkInstallation', () => {
+    const runningPods = { body: { items: [{ status: { phase: 'Running' } }] } };
+
+    test('reports installed when the CRD exists and the controller runs', async () => {
+      const status = await provider.checkInstallation({
+        customObjectsApi: { listNamespacedCustomObject: async () => ({ body: { items: [] } }) },
+        coreV1Api: { listNamespacedPod: async () => runningPods },
+      });
+      expect(status.installed).toBe(true);
+      expect(status.crdFound).toBe(true);
+      expect(status.operatorRunning).toBe(true);
+    });
+
+    test('reports a missing CRD', async () => {
+      const status = await provider.checkInstallation({
+        customObjectsApi: {
+          listNamespacedCustomObject: async () => {
+            throw { response: { statusCode: 404 } };
+          },
+        },
+        coreV1Api: { listNamespacedPod: async () => runningPods },
+      });
+      expect(status.installed).toBe(false);
+      expect(status.message).toContain('CRD not found');
+    });
+  });
+
+  describe('metrics', () => {
+    test('scrapes the predictor service', () => {
+      const config = provider.getMetricsConfig();
+      expect(config?.endpointPath).toBe('/metrics');
+      expect(config?.port).toBe(80);
+      expect(config?.serviceNamePattern).toBe('{name}-predictor');
+    });
+
+    test('returns vLLM key metrics', () => {
+      const names = provider.getKeyMetrics().map((m) => m.name);
+      expect(names).toContain('vllm:num_requests_running');
+      expect(names).toContain('vllm:gpu_cache_usage_perc');
+    });
+  });
+
+  describe('getUninstallResources', () => {
+    test('removes the KServe CRDs and controller namespace', () => {
+      const resources = provider.getUninstallResources();
+      expect(resources.crds).toContain('inferenceservices.serving.kserve.io');
+      expect(resources.crds).toContain('servingruntimes.serving.kserve.io');
+      expect(resources.namespaces).toEqual(['kserve']);
+    });
+  });
+});
+
+describe('provider registry integration', () => {
+  test('kserve provider is registered', async () => {
+    const { providerRegistry } = await import('../index');
+    const kserveProvider = providerRegistry.getProvider('kserve');
+    expect(kserveProvider).toBeDefined();
+    expect(kserveProvider?.id).toBe('kserve');
+  });
+
+  test('kserve appears in available providers list', async () => {
+    const { providerRegistry } = await import('../index');
+    const providers = providerRegistry.listProviders();
+    expect(providers.find((p: { id: string }) => p.id === 'kserve')).toBeDefined();
+  });
+});
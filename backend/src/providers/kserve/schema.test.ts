@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'bun:test';
+import { kserveDeploymentConfigSchema, kserveManifestSchema } from './schema';
+import { KServeProvider } from './index';
+
+describe('kserveDeploymentConfigSchema', () => {
+  const validConfig = {
+    name: 'my-deployment',
+    namespace: 'kserve-inference',
+    modelId: 'Qwen/Qwen3-0.6B',
+    engine: 'vllm' as const,
+    hfTokenSecret: 'hf-token-secret',
+  };
+
+  describe('valid configurations', () => {
+    it('accepts minimal valid configuration', () => {
+      const result = kserveDeploymentConfigSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.engine).toBe('vllm');
+        expect(result.data.mode).toBe('aggregated');
+        expect(result.data.routerMode).toBe('none');
+        // Check KServe-specific defaults
+        expect(result.data.deploymentMode).toBe('RawDeployment');
+        expect(result.data.runtime).toBeUndefined();
+      }
+    });
+
+    it('defaults the engine to vllm', () => {
+      const { engine, ...configWithoutEngine } = validConfig;
+      const result = kserveDeploymentConfigSchema.safeParse(configWithoutEngine);
+      expect(result.success).toBe(true);
+    });
+
+    it('accepts Serverless deployment mode with a custom runtime', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        deploymentMode: 'Serverless',
+        runtime: 'kserve-huggingfaceserver-gpu',
+        cpu: '8',
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('engine validation', () => {
+    it('rejects engines other than vllm', () => {
+      for (const engine of ['sglang', 'trtllm']) {
+        const result = kserveDeploymentConfigSchema.safeParse({ ...validConfig, engine });
+        expect(result.success).toBe(false);
+      }
+    });
+  });
+
+  describe('serving mode validation', () => {
+    it('rejects disaggregated mode', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({ ...validConfig, mode: 'disaggregated' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('KServe only supports aggregated serving');
+      }
+    });
+
+    it('rejects KV-aware routing', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({ ...validConfig, routerMode: 'kv' });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects unknown deployment modes', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({ ...validConfig, deploymentMode: 'ModelMesh' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('adapters validation', () => {
+    it('rejects LoRA adapters', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('inherits base schema validation', () => {
+    it('rejects invalid Kubernetes name', () => {
+      const result = kserveDeploymentConfigSchema.safeParse({ ...validConfig, name: 'Invalid_Name' });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects missing required fields', () => {
+      const { hfTokenSecret, ...configWithoutToken } = validConfig;
+      const result = kserveDeploymentConfigSchema.safeParse(configWithoutToken);
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('kserveManifestSchema', () => {
+  it('accepts a generated InferenceService', () => {
+    const config = kserveDeploymentConfigSchema.parse({
+      name: 'my-deployment',
+      namespace: 'kserve-inference',
+      modelId: 'Qwen/Qwen3-0.6B',
+      hfTokenSecret: 'hf-token-secret',
+    });
+    const manifest = new KServeProvider().generateManifest(config as any);
+    expect(kserveManifestSchema.safeParse(manifest).success).toBe(true);
+  });
+
+  it('rejects other kinds', () => {
+    const result = kserveManifestSchema.safeParse({
+      apiVersion: 'serving.kserve.io/v1beta1',
+      kind: 'ServingRuntime',
+      metadata: { name: 'runtime' },
+      spec: {},
+    });
+    expect(result.success).toBe(false);
+  });
+});
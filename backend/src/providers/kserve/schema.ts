@@ -0,0 +1,71 @@
+import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
+import { baseDeploymentConfigSchema } from '../types';
+import { capabilityCheck } from '../capabilities';
+
+// One predictor serves the whole model, so there is no P/D split or KV-aware
+// routing. Adapters are only wired up for runtimes started with vLLM's own
+// command line, which the HuggingFace runtime is not.
+export const kserveCapabilities: ProviderCapabilities = {
+  engines: ['vllm'],
+  modes: ['aggregated'],
+  routerModes: ['none'],
+  adapterEngines: [],
+  adapterSources: [],
+  cpu: false,
+  gguf: false,
+  autoscaling: false,
+  engineArgs: true,
+  multiNode: false,
+};
+
+/**
+ * KServe-specific deployment configuration schema
+ * Extends the base schema with options for the HuggingFace serving runtime
+ */
+export const kserveDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
+  // The HuggingFace runtime serves generative models through its vLLM backend
+  engine: baseDeploymentConfigSchema.shape.engine.default('vllm'),
+
+  // KServe-specific fields
+  deploymentMode: z.enum(['RawDeployment', 'Serverless']).default('RawDeployment')
+    .describe('RawDeployment runs a plain Deployment; Serverless needs Knative and can scale to zero'),
+  runtime: z.string().min(1).optional().describe('ServingRuntime to use instead of the one KServe selects for the huggingface format'),
+  cpu: z.string().optional().describe('CPU limit for the predictor container'),
+}).superRefine(capabilityCheck('KServe', kserveCapabilities));
+
+export type KServeDeploymentConfig = z.infer<typeof kserveDeploymentConfigSchema>;
+
+/**
+ * KServe InferenceService manifest schema for validation
+ */
+export const kserveManifestSchema = z.object({
+  apiVersion: z.literal('serving.kserve.io/v1beta1'),
+  kind: z.literal('InferenceService'),
+  metadata: z.object({
+    name: z.string(),
+    namespace: z.string().optional(),
+    labels: z.record(z.string()).optional(),
+    annotations: z.record(z.string()).optional(),
+  }),
+  spec: z.object({
+    predictor: z.object({
+      minReplicas: z.number().optional(),
+      maxReplicas: z.number().optional(),
+      model: z.object({
+        modelFormat: z.object({
+          name: z.string(),
+        }),
+        runtime: z.string().optional(),
+        args: z.array(z.string()),
+        env: z.array(z.record(z.unknown())).optional(),
+        resources: z.object({
+          limits: z.record(z.string()),
+          requests: z.record(z.string()),
+        }),
+      }),
+    }),
+  }),
+});
+
+export type KServeManifest = z.infer<typeof kserveManifestSchema>;
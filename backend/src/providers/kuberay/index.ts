@@ -1,9 +1,21 @@
 import * as k8s from '@kubernetes/client-node';
-import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, MetricDefinition, MetricsEndpointConfig } from '@kubefoundry/shared';
-import type { Provider, CRDConfig, HelmRepo, HelmChart, InstallationStatus, InstallationStep, UninstallResources } from '../types';
-import { kuberayDeploymentConfigSchema, type KubeRayDeploymentConfig } from './schema';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, MetricDefinition, MetricsEndpointConfig, Toleration, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { kuberayCapabilities, kuberayDeploymentConfigSchema, type KubeRayDeploymentConfig } from './schema';
+import * as yaml from 'js-yaml';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
+import { ADAPTERS_MOUNT_PATH, adapterVolumeMounts, adapterVolumes, getMountedAdapterNames, parseMountedAdapters } from '../../lib/lora';
 import logger from '../../lib/logger';
 
+// Lets GPU workers land on nodes tainted by the NVIDIA GPU operator
+const GPU_TOLERATION: Toleration = {
+  key: 'nvidia.com/gpu',
+  operator: 'Exists',
+  effect: 'NoSchedule',
+};
+
 // Default fallback version if GitHub fetch fails
 const DEFAULT_KUBERAY_VERSION = '1.5.1';
 
@@ -62,6 +74,40 @@ function getKuberayVersion(): string {
   return cachedKuberayVersion || process.env.KUBERAY_VERSION || DEFAULT_KUBERAY_VERSION;
 }
 
+/**
+ * Ray Serve LLM config for a single model, as written into serveConfigV2
+ */
+interface RayLlmConfig {
+  model_loading_config?: {
+    model_id?: string;
+    model_source?: string;
+    accelerator_type?: string;
+  };
+  deployment_config?: {
+    autoscaling_config?: { min_replicas?: number; max_replicas?: number };
+  };
+  engine_kwargs?: Record<string, unknown>;
+  lora_config?: {
+    dynamic_lora_loading_path?: string;
+    max_num_adapters_per_replica?: number;
+  };
+}
+
+/**
+ * Parsed serveConfigV2 document
+ */
+interface KubeRayServeConfig {
+  applications?: Array<{
+    name?: string;
+    import_path?: string;
+    args?: {
+      llm_configs?: RayLlmConfig[];
+      prefill_config?: RayLlmConfig;
+      decode_config?: RayLlmConfig;
+    };
+  }>;
+}
+
 /**
  * KubeRay Provider
  * Implements the Provider interface for Ray Serve on Kubernetes via KubeRay
@@ -95,6 +141,10 @@ export class KubeRayProvider implements Provider {
     };
   }
 
+  getCapabilities(): ProviderCapabilities {
+    return kuberayCapabilities;
+  }
+
   generateManifest(config: DeploymentConfig): Record<string, unknown> {
     // Cast to KubeRay-specific config type
     const kuberayConfig = config as unknown as KubeRayDeploymentConfig;
@@ -111,6 +161,7 @@ export class KubeRayProvider implements Provider {
    * Generate manifest for aggregated (standard) serving mode
    */
   private generateAggregatedManifest(config: KubeRayDeploymentConfig): Record<string, unknown> {
+    const adapters = config.adapters || [];
     const serveConfig = {
       applications: [
         {
@@ -147,7 +198,15 @@ export class KubeRayProvider implements Provider {
                   enable_prefix_caching: config.enablePrefixCaching ?? true,
                   enforce_eager: config.enforceEager ?? true,
                   ...(config.trustRemoteCode && { trust_remote_code: true }),
+                  ...(adapters.length > 0 && { enable_lora: true, max_loras: adapters.length }),
                 },
+                ...(adapters.length > 0 && {
+                  lora_config: {
+                    // Ray serves each subdirectory as `<model_id>:<subdirectory>`
+                    dynamic_lora_loading_path: ADAPTERS_MOUNT_PATH,
+                    max_num_adapters_per_replica: adapters.length,
+                  },
+                }),
               },
             ],
           },
@@ -165,6 +224,7 @@ export class KubeRayProvider implements Provider {
           'app.kubernetes.io/name': 'kubefoundry',
           'app.kubernetes.io/instance': config.name,
           'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
         },
       },
       spec: {
@@ -274,6 +334,7 @@ export class KubeRayProvider implements Provider {
           'app.kubernetes.io/name': 'kubefoundry',
           'app.kubernetes.io/instance': config.name,
           'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
         },
       },
       spec: {
@@ -329,6 +390,7 @@ export class KubeRayProvider implements Provider {
               ],
             },
           ],
+          ...buildPodScheduling(config),
         },
       },
     };
@@ -339,6 +401,8 @@ export class KubeRayProvider implements Provider {
     const workerCpu = config.workerCpu || '8';
     const workerMemory = config.workerMemory || '64Gi';
     const gpuCount = config.resources?.gpu || 1;
+    const volumes = [...(config.modelCache ? [modelCacheVolume(config.modelCache)] : []), ...adapterVolumes(config.adapters)];
+    const volumeMounts = [...(config.modelCache ? [modelCacheVolumeMount()] : []), ...adapterVolumeMounts(config.adapters)];
 
     return {
       groupName,
@@ -371,15 +435,12 @@ export class KubeRayProvider implements Provider {
                   },
                 },
               ],
+              ...(config.modelCache && { env: [modelCacheEnv()] }),
+              ...(volumeMounts.length > 0 && { volumeMounts }),
             },
           ],
-          tolerations: [
-            {
-              key: 'nvidia.com/gpu',
-              operator: 'Exists',
-              effect: 'NoSchedule',
-            },
-          ],
+          ...(volumes.length > 0 && { volumes }),
+          ...buildPodScheduling(config, [GPU_TOLERATION]),
         },
       },
     };
@@ -456,20 +517,31 @@ export class KubeRayProvider implements Provider {
                   },
                 },
               ],
+              ...(config.modelCache && { env: [modelCacheEnv()], volumeMounts: [modelCacheVolumeMount()] }),
             },
           ],
-          tolerations: [
-            {
-              key: 'nvidia.com/gpu',
-              operator: 'Exists',
-              effect: 'NoSchedule',
-            },
-          ],
+          ...(config.modelCache && { volumes: [modelCacheVolume(config.modelCache)] }),
+          ...buildPodScheduling(config, [GPU_TOLERATION]),
         },
       },
     };
   }
 
+  /**
+   * Parse serveConfigV2 into an object, returning null if it is missing or malformed
+   */
+  private parseServeConfig(serveConfigV2?: string): KubeRayServeConfig | null {
+    if (!serveConfigV2) {
+      return null;
+    }
+    try {
+      return yaml.load(serveConfigV2) as KubeRayServeConfig;
+    } catch (error) {
+      logger.debug({ error }, 'Failed to parse RayService serveConfigV2');
+      return null;
+    }
+  }
+
   /**
    * Simple YAML-like string serialization for serveConfigV2
    */
@@ -511,6 +583,10 @@ export class KubeRayProvider implements Provider {
     return String(obj);
   }
 
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
   parseStatus(raw: unknown): DeploymentStatus {
     const obj = raw as {
       metadata?: { name?: string; namespace?: string; creationTimestamp?: string };
@@ -522,6 +598,7 @@ export class KubeRayProvider implements Provider {
             replicas?: number;
             minReplicas?: number;
             maxReplicas?: number;
+            template?: { spec?: { containers?: Array<{ volumeMounts?: unknown }> } };
           }>;
         };
       };
@@ -558,26 +635,27 @@ export class KubeRayProvider implements Provider {
     let modelId = '';
     let servedModelName = '';
     let mode: 'aggregated' | 'disaggregated' = 'aggregated';
+    let servesAdapters = false;
 
-    if (spec.serveConfigV2) {
-      // Check for disaggregated mode
-      if (spec.serveConfigV2.includes('build_pd_openai_app') || spec.serveConfigV2.includes('pd-disaggregation')) {
+    const serveApp = this.parseServeConfig(spec.serveConfigV2)?.applications?.[0];
+    if (serveApp) {
+      if (serveApp.import_path?.includes('build_pd_openai_app') || serveApp.name === 'pd-disaggregation') {
         mode = 'disaggregated';
       }
-      // Try to extract model_source
-      const modelMatch = spec.serveConfigV2.match(/model_source:\s*["']?([^"'\n]+)["']?/);
-      if (modelMatch) {
-        modelId = modelMatch[1].trim();
-      }
-      // Try to extract model_id (served model name)
-      const servedModelMatch = spec.serveConfigV2.match(/model_id:\s*["']?([^"'\n]+)["']?/);
-      if (servedModelMatch) {
-        servedModelName = servedModelMatch[1].trim();
-      }
+      const llmConfig = serveApp.args?.llm_configs?.[0] || serveApp.args?.prefill_config;
+      modelId = llmConfig?.model_loading_config?.model_source || '';
+      servedModelName = llmConfig?.model_loading_config?.model_id || '';
+      servesAdapters = !!llmConfig?.lora_config;
     }
 
     // Calculate replicas from worker specs
     const workerSpecs = spec.rayClusterConfig?.workerGroupSpecs || [];
+
+    // Ray Serve takes `<model_id>:<adapter>` as the model name of an adapter
+    const adapterNames = servesAdapters
+      ? getMountedAdapterNames(workerSpecs[0]?.template?.spec?.containers?.[0]?.volumeMounts)
+        .map((name) => `${servedModelName}:${name}`)
+      : [];
     const desiredReplicas = workerSpecs.reduce((sum, w) => sum + (w.replicas || 0), 0);
 
     // Extract prefill/decode replica counts for disaggregated mode
@@ -630,6 +708,7 @@ export class KubeRayProvider implements Provider {
       pods: [],
       createdAt: obj.metadata?.creationTimestamp || new Date().toISOString(),
       frontendService: `${obj.metadata?.name}-serve-svc`,
+      ...(adapterNames.length > 0 && { adapters: adapterNames }),
     };
 
     // Add disaggregated replica status if in disaggregated mode
@@ -653,6 +732,109 @@ export class KubeRayProvider implements Provider {
     return result;
   }
 
+  parseConfig(raw: unknown): DeploymentConfig {
+    interface GroupSpec {
+      groupName?: string;
+      replicas?: number;
+      template?: {
+        spec?: Record<string, unknown> & {
+          containers?: Array<{
+            image?: string;
+            resources?: { limits?: Record<string, string> };
+            envFrom?: Array<{ secretRef?: { name?: string } }>;
+            volumeMounts?: unknown;
+          }>;
+        };
+      };
+    }
+
+    const obj = raw as {
+      metadata?: { name?: string; namespace?: string };
+      spec?: {
+        serveConfigV2?: string;
+        rayClusterConfig?: { headGroupSpec?: GroupSpec; workerGroupSpecs?: GroupSpec[] };
+      };
+    };
+
+    const serveApp = this.parseServeConfig(obj.spec?.serveConfigV2)?.applications?.[0];
+    const mode = serveApp?.import_path?.includes('build_pd_openai_app') ? 'disaggregated' : 'aggregated';
+    const llmConfig = mode === 'disaggregated' ? serveApp?.args?.prefill_config : serveApp?.args?.llm_configs?.[0];
+
+    if (!llmConfig) {
+      throw new Error(`RayService '${obj.metadata?.name}' has no LLM serve configuration`);
+    }
+
+    const loading = llmConfig.model_loading_config || {};
+    const kwargs = llmConfig.engine_kwargs || {};
+    const autoscaling = llmConfig.deployment_config?.autoscaling_config || {};
+    const head = obj.spec?.rayClusterConfig?.headGroupSpec?.template?.spec?.containers?.[0];
+    const workerGroups = obj.spec?.rayClusterConfig?.workerGroupSpecs || [];
+    const containerOf = (group?: GroupSpec) => group?.template?.spec?.containers?.[0];
+    const gpusOf = (group?: GroupSpec) => Number(containerOf(group)?.resources?.limits?.['nvidia.com/gpu'] || 1);
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'kuberay',
+      modelId: loading.model_source,
+      engine: 'vllm',
+      mode,
+      servedModelName: loading.model_id !== loading.model_source ? loading.model_id : undefined,
+      hfTokenSecret: head?.envFrom?.[0]?.secretRef?.name,
+      contextLength: kwargs.max_model_len,
+      enforceEager: kwargs.enforce_eager,
+      enablePrefixCaching: kwargs.enable_prefix_caching,
+      trustRemoteCode: kwargs.trust_remote_code === true,
+      acceleratorType: loading.accelerator_type,
+      tensorParallelSize: kwargs.tensor_parallel_size,
+      gpuMemoryUtilization: kwargs.gpu_memory_utilization,
+      maxNumSeqs: kwargs.max_num_seqs,
+      enableChunkedPrefill: kwargs.enable_chunked_prefill,
+      rayImage: head?.image,
+      headCpu: head?.resources?.limits?.cpu,
+      headMemory: head?.resources?.limits?.memory,
+      ...parsePodScheduling(workerGroups[0]?.template?.spec, [GPU_TOLERATION]),
+      modelCache: parseModelCache(workerGroups[0]?.template?.spec),
+    };
+
+    if (mode === 'aggregated') {
+      const workerGroup = workerGroups[0];
+      config.replicas = workerGroup?.replicas ?? 1;
+      config.resources = { gpu: gpusOf(workerGroup) };
+      config.pipelineParallelSize = kwargs.pipeline_parallel_size;
+      config.minReplicas = autoscaling.min_replicas;
+      config.maxReplicas = autoscaling.max_replicas;
+      config.workerCpu = containerOf(workerGroup)?.resources?.limits?.cpu;
+      config.workerMemory = containerOf(workerGroup)?.resources?.limits?.memory;
+      if (llmConfig.lora_config) {
+        config.adapters = parseMountedAdapters(workerGroup?.template?.spec?.volumes, containerOf(workerGroup)?.volumeMounts);
+      }
+    } else {
+      const prefillGroup = workerGroups.find((g) => g.groupName === 'prefill-group');
+      const decodeGroup = workerGroups.find((g) => g.groupName === 'decode-group');
+      const decodeAutoscaling = serveApp?.args?.decode_config?.deployment_config?.autoscaling_config || {};
+      const kvTransfer = kwargs.kv_transfer_config as { kv_connector?: string } | undefined;
+
+      config.prefillReplicas = prefillGroup?.replicas ?? 1;
+      config.decodeReplicas = decodeGroup?.replicas ?? 1;
+      config.prefillGpus = gpusOf(prefillGroup);
+      config.decodeGpus = gpusOf(decodeGroup);
+      config.prefillMinReplicas = autoscaling.min_replicas;
+      config.prefillMaxReplicas = autoscaling.max_replicas;
+      config.decodeMinReplicas = decodeAutoscaling.min_replicas;
+      config.decodeMaxReplicas = decodeAutoscaling.max_replicas;
+      config.kvConnector = kvTransfer?.kv_connector;
+      config.workerCpu = containerOf(prefillGroup)?.resources?.limits?.cpu;
+      config.workerMemory = containerOf(prefillGroup)?.resources?.limits?.memory;
+    }
+
+    const result = kuberayDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
   validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
     const result = kuberayDeploymentConfigSchema.safeParse(config);
 
@@ -812,6 +994,8 @@ export class KubeRayProvider implements Provider {
       port: 8080,
       // KubeRay exposes metrics on the head service (not serve-svc)
       serviceNamePattern: '{name}-head-svc',
+      // Head and worker pods of the RayService's cluster, {name}-raycluster-<suffix>
+      podNamePattern: '{name}-raycluster-[a-z0-9]+-.+',
     };
   }
 
@@ -856,7 +1040,7 @@ export class KubeRayProvider implements Provider {
         name: 'ray_serve_deployment_request_counter_total',
         displayName: 'Requests Processed',
         description: 'Total number of queries processed',
-        unit: 'req/s',
+        unit: 'requests',
         type: 'counter',
         category: 'throughput',
       },
@@ -864,7 +1048,7 @@ export class KubeRayProvider implements Provider {
         name: 'ray_serve_num_http_requests_total',
         displayName: 'HTTP Requests',
         description: 'Number of HTTP requests processed',
-        unit: 'req/s',
+        unit: 'requests',
         type: 'counter',
         category: 'throughput',
       },
@@ -873,7 +1057,7 @@ export class KubeRayProvider implements Provider {
         name: 'ray_serve_deployment_error_counter_total',
         displayName: 'Errors',
         description: 'Number of exceptions in the deployment',
-        unit: 'errors/s',
+        unit: 'errors',
         type: 'counter',
         category: 'errors',
       },
@@ -881,7 +1065,7 @@ export class KubeRayProvider implements Provider {
         name: 'ray_serve_num_http_error_requests_total',
         displayName: 'HTTP Errors',
         description: 'Number of non-200 HTTP responses',
-        unit: 'errors/s',
+        unit: 'errors',
         type: 'counter',
         category: 'errors',
       },
@@ -0,0 +1,168 @@
+import { describe, test, expect } from 'bun:test';
+import { KubeRayProvider } from './index';
+import { ConfigParseError } from '../types';
+
+const provider = new KubeRayProvider();
+
+describe('KubeRayProvider', () => {
+  const baseInput = {
+    name: 'ray-deployment',
+    namespace: 'test-ns',
+    provider: 'kuberay',
+    modelId: 'Qwen/Qwen3-0.6B',
+    engine: 'vllm',
+    hfTokenSecret: 'hf-token',
+    contextLength: 8192,
+    resources: { gpu: 1 },
+  };
+
+  describe('generateManifest', () => {
+    test('applies scheduling constraints to head and worker templates', () => {
+      const config = provider.validateConfig({
+        ...baseInput,
+        nodeSelector: { agentpool: 'a100' },
+        tolerations: [{ key: 'spot', operator: 'Exists' }],
+      }).data!;
+      const cluster = (provider.generateManifest(config).spec as any).rayClusterConfig;
+      const head = cluster.headGroupSpec.template.spec;
+      const worker = cluster.workerGroupSpecs[0].template.spec;
+
+      expect(head.nodeSelector).toEqual({ agentpool: 'a100' });
+      expect(head.tolerations).toEqual([{ key: 'spot', operator: 'Exists' }]);
+      expect(worker.nodeSelector).toEqual({ agentpool: 'a100' });
+      // The GPU taint toleration is always kept for workers
+      expect(worker.tolerations).toEqual([
+        { key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' },
+        { key: 'spot', operator: 'Exists' },
+      ]);
+    });
+
+    test('mounts the model cache claim on workers only', () => {
+      const config = provider.validateConfig({
+        ...baseInput,
+        modelCache: { claimName: 'hf-cache' },
+      }).data!;
+      const cluster = (provider.generateManifest(config).spec as any).rayClusterConfig;
+      const worker = cluster.workerGroupSpecs[0].template.spec;
+
+      expect(worker.volumes).toContainEqual({ name: 'model-cache', persistentVolumeClaim: { claimName: 'hf-cache' } });
+      expect(worker.containers[0].env).toContainEqual({ name: 'HF_HOME', value: '/model-cache' });
+      expect(cluster.headGroupSpec.template.spec.volumes).toBeUndefined();
+    });
+
+    test('loads adapters mounted from claims through lora_config', () => {
+      const config = provider.validateConfig({
+        ...baseInput,
+        modelCache: { claimName: 'hf-cache' },
+        adapters: [{ name: 'sql-lora', pvc: { claimName: 'adapters', path: 'sql/v2' } }],
+      }).data!;
+      const manifest = provider.generateManifest(config);
+      const serveConfig = (manifest.spec as any).serveConfigV2 as string;
+      const worker = (manifest.spec as any).rayClusterConfig.workerGroupSpecs[0].template.spec;
+
+      expect(serveConfig).toContain('dynamic_lora_loading_path: "/adapters"');
+      expect(serveConfig).toContain('max_num_adapters_per_replica: 1');
+      expect(serveConfig).toContain('enable_lora: true');
+      expect(worker.volumes).toEqual([
+        { name: 'model-cache', persistentVolumeClaim: { claimName: 'hf-cache' } },
+        { name: 'lora-0', persistentVolumeClaim: { claimName: 'adapters', readOnly: true } },
+      ]);
+      expect(worker.containers[0].volumeMounts).toContainEqual({
+        name: 'lora-0', mountPath: '/adapters/sql-lora', subPath: 'sql/v2', readOnly: true,
+      });
+      expect(provider.parseStatus(manifest).adapters).toEqual(['Qwen/Qwen3-0.6B:sql-lora']);
+    });
+  });
+
+  describe('parseStatus', () => {
+    test('reads model info from serveConfigV2', () => {
+      const config = provider.validateConfig({ ...baseInput, servedModelName: 'qwen' }).data!;
+      const status = provider.parseStatus(provider.generateManifest(config));
+      expect(status.modelId).toBe('Qwen/Qwen3-0.6B');
+      expect(status.servedModelName).toBe('qwen');
+      expect(status.mode).toBe('aggregated');
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    test('round-trips a minimal aggregated config', () => {
+      roundTrip(baseInput);
+    });
+
+    test('round-trips an aggregated config with all options', () => {
+      roundTrip({
+        ...baseInput,
+        servedModelName: 'qwen',
+        replicas: 2,
+        resources: { gpu: 4 },
+        enforceEager: false,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        acceleratorType: 'H100',
+        tensorParallelSize: 4,
+        pipelineParallelSize: 2,
+        gpuMemoryUtilization: 0.85,
+        maxNumSeqs: 128,
+        enableChunkedPrefill: false,
+        rayImage: 'rayproject/ray-llm:custom',
+        headCpu: '2',
+        headMemory: '16Gi',
+        workerCpu: '16',
+        workerMemory: '128Gi',
+        minReplicas: 2,
+        maxReplicas: 4,
+      });
+    });
+
+    test('round-trips a model cache claim', () => {
+      roundTrip({ ...baseInput, modelCache: { claimName: 'hf-cache' } });
+    });
+
+    test('round-trips LoRA adapters', () => {
+      roundTrip({
+        ...baseInput,
+        adapters: [
+          { name: 'sql-lora', pvc: { claimName: 'adapters', path: 'sql' } },
+          { name: 'chat', pvc: { claimName: 'chat-adapters', path: 'chat/v3' } },
+        ],
+      });
+    });
+
+    test('round-trips a disaggregated config', () => {
+      roundTrip({
+        ...baseInput,
+        mode: 'disaggregated',
+        resources: undefined,
+        prefillReplicas: 2,
+        decodeReplicas: 3,
+        prefillGpus: 1,
+        decodeGpus: 2,
+        kvConnector: 'SimpleConnector',
+        prefillMinReplicas: 2,
+        prefillMaxReplicas: 3,
+        decodeMinReplicas: 1,
+        decodeMaxReplicas: 5,
+        nodeSelector: { agentpool: 'a100' },
+        tolerations: [{ key: 'spot', operator: 'Exists' }],
+      });
+    });
+
+    test('throws when serveConfigV2 has no LLM config', () => {
+      expect(() => provider.parseConfig({ metadata: { name: 'empty' }, spec: { serveConfigV2: 'applications: []' } }))
+        .toThrow('has no LLM serve configuration');
+    });
+
+    test('throws ConfigParseError when the resource no longer makes up a valid config', () => {
+      const manifest = provider.generateManifest(provider.validateConfig(baseInput).data!);
+      const edited = { ...manifest, metadata: { ...(manifest.metadata as object), name: 'Not_Valid' } };
+      expect(() => provider.parseConfig(edited)).toThrow(ConfigParseError);
+    });
+  });
+});
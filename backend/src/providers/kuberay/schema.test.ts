@@ -165,6 +165,31 @@ describe('kuberayDeploymentConfigSchema', () => {
     });
   });
 
+  describe('adapters validation', () => {
+    const adapters = [{ name: 'sql-lora', pvc: { claimName: 'adapters', path: 'sql' } }];
+
+    it('accepts adapters on a volume claim', () => {
+      const result = kuberayDeploymentConfigSchema.safeParse({ ...validConfig, adapters });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects HuggingFace adapters', () => {
+      const result = kuberayDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].message).toBe('KubeRay only loads LoRA adapters from volume claims');
+      }
+    });
+
+    it('rejects adapters in disaggregated mode', () => {
+      const result = kuberayDeploymentConfigSchema.safeParse({ ...validConfig, mode: 'disaggregated', adapters });
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('inherits base schema validation', () => {
     it('rejects invalid Kubernetes name', () => {
       const result = kuberayDeploymentConfigSchema.safeParse({ ...validConfig, name: 'Invalid_Name' });
@@ -1,13 +1,30 @@
 import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
 import { baseDeploymentConfigSchema } from '../types';
+import { capabilityCheck } from '../capabilities';
+
+// Ray Serve LLM loads adapters from its dynamic_lora_loading_path, so they are
+// mounted there from volume claims; it cannot fetch them from HuggingFace
+export const kuberayCapabilities: ProviderCapabilities = {
+  engines: ['vllm'],
+  modes: ['aggregated', 'disaggregated'],
+  routerModes: ['none'],
+  adapterEngines: ['vllm'],
+  adapterSources: ['pvc'],
+  cpu: false,
+  gguf: false,
+  autoscaling: true,
+  engineArgs: false,
+  multiNode: false,
+};
 
 /**
  * KubeRay-specific deployment configuration schema
  * Extends the base schema with KubeRay/Ray Serve specific options
  */
 export const kuberayDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
-  // Override engine to only allow vllm for KubeRay (Ray Serve uses vLLM backend)
-  engine: z.enum(['vllm']).default('vllm'),
+  // Ray Serve uses the vLLM backend, so default to it
+  engine: baseDeploymentConfigSchema.shape.engine.default('vllm'),
 
   // Override enforceEager with same default as base schema
   enforceEager: z.boolean().default(true).describe('Use eager mode for faster startup (disables CUDA graphs)'),
@@ -39,7 +56,12 @@ export const kuberayDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
   prefillMaxReplicas: z.number().int().min(1).default(2).describe('Maximum prefill worker replicas'),
   decodeMinReplicas: z.number().int().min(1).default(1).describe('Minimum decode worker replicas'),
   decodeMaxReplicas: z.number().int().min(1).default(2).describe('Maximum decode worker replicas'),
-});
+}).superRefine(capabilityCheck('KubeRay', kuberayCapabilities)).refine(
+  // Adapters are loaded by the single LLM server of aggregated mode, not split
+  // across the prefill and decode servers
+  (data) => !data.adapters?.length || data.mode === 'aggregated',
+  { message: 'LoRA adapters are only supported in aggregated mode', path: ['adapters'] }
+);
 
 export type KubeRayDeploymentConfig = z.infer<typeof kuberayDeploymentConfigSchema>;
 
@@ -0,0 +1,615 @@
+import * as k8s from '@kubernetes/client-node';
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, Engine, MetricDefinition, MetricsEndpointConfig, Toleration, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { lwsCapabilities, lwsDeploymentConfigSchema, type LwsDeploymentConfig } from './schema';
+import { keyMetricsForEngine } from '../metrics';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
+import logger from '../../lib/logger';
+
+// LeaderWorkerSet release installed from its OCI Helm chart
+const LWS_VERSION = process.env.LWS_VERSION || '0.7.0';
+
+// Namespace the LeaderWorkerSet controller runs in
+const LWS_NAMESPACE = 'lws-system';
+
+// vLLM image, which needs multi-node support in its multiprocessing executor
+const VLLM_IMAGE = process.env.LWS_VLLM_IMAGE || 'vllm/vllm-openai:v0.11.0';
+
+// Port the leader's OpenAI-compatible server listens on
+const SERVER_PORT = 8000;
+
+// Port the leader listens on for the workers' distributed setup
+const MASTER_PORT = 29500;
+
+// Name of the server container in the leader and worker templates
+const CONTAINER_NAME = 'vllm';
+
+// Labels the LeaderWorkerSet controller sets on every pod of a group
+const LWS_NAME_LABEL = 'leaderworkerset.sigs.k8s.io/name';
+const WORKER_INDEX_LABEL = 'leaderworkerset.sigs.k8s.io/worker-index';
+
+// Lets GPU pods land on nodes tainted by the NVIDIA GPU operator
+const GPU_TOLERATION: Toleration = {
+  key: 'nvidia.com/gpu',
+  operator: 'Exists',
+  effect: 'NoSchedule',
+};
+
+// vLLM options KubeFoundry derives from dedicated config fields
+const OWN_FLAGS = new Set([
+  'model',
+  'served-model-name',
+  'host',
+  'port',
+  'headless',
+  'tensor-parallel-size',
+  'pipeline-parallel-size',
+  'distributed-executor-backend',
+  'nnodes',
+  'node-rank',
+  'master-addr',
+  'master-port',
+  'max-model-len',
+  'enforce-eager',
+  'enable-prefix-caching',
+  'trust-remote-code',
+]);
+
+interface ServerContainer {
+  name?: string;
+  image?: string;
+  args?: string[];
+  env?: Array<{ name?: string; valueFrom?: { secretKeyRef?: { name?: string } } }>;
+  resources?: { limits?: Record<string, string> };
+}
+
+interface PodTemplate {
+  spec?: Record<string, unknown> & {
+    containers?: ServerContainer[];
+  };
+}
+
+/**
+ * Raw LeaderWorkerSet fields read when parsing status and config
+ */
+interface LeaderWorkerSetObject {
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    generation?: number;
+    creationTimestamp?: string;
+    deletionTimestamp?: string;
+  };
+  spec?: {
+    replicas?: number;
+    leaderWorkerTemplate?: {
+      size?: number;
+      leaderTemplate?: PodTemplate;
+      workerTemplate?: PodTemplate;
+    };
+  };
+  status?: {
+    replicas?: number;
+    readyReplicas?: number;
+    updatedReplicas?: number;
+    conditions?: Array<{
+      type?: string;
+      status?: string;
+      reason?: string;
+      message?: string;
+      lastTransitionTime?: string;
+    }>;
+  };
+}
+
+/**
+ * LeaderWorkerSet Provider
+ * Implements the Provider interface for models too large for one node. Each replica
+ * is a LeaderWorkerSet group whose pods run vLLM across several nodes without Ray:
+ * the leader serves the API and the workers join it headless.
+ */
+export class LwsProvider implements Provider {
+  id = 'lws';
+  name = 'LeaderWorkerSet';
+  description = 'Multi-node vLLM serving on LeaderWorkerSet groups, for models that do not fit on a single node.';
+  defaultNamespace = 'lws-inference';
+
+  // CRD constants
+  private static readonly API_GROUP = 'leaderworkerset.x-k8s.io';
+  private static readonly API_VERSION = 'v1';
+  private static readonly CRD_PLURAL = 'leaderworkersets';
+  private static readonly CRD_KIND = 'LeaderWorkerSet';
+
+  getCRDConfig(): CRDConfig {
+    return {
+      apiGroup: LwsProvider.API_GROUP,
+      apiVersion: LwsProvider.API_VERSION,
+      plural: LwsProvider.CRD_PLURAL,
+      kind: LwsProvider.CRD_KIND,
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return lwsCapabilities;
+  }
+
+  /**
+   * Tensor and pipeline parallel sizes splitting a replica's GPUs
+   */
+  private parallelism(config: LwsDeploymentConfig): { tensor: number; pipeline: number } {
+    const gpusPerNode = config.resources?.gpu || 1;
+    const pipeline = config.pipelineParallel || config.nodesPerReplica;
+    return { tensor: (gpusPerNode * config.nodesPerReplica) / pipeline, pipeline };
+  }
+
+  generateManifest(config: DeploymentConfig): Record<string, unknown> {
+    const lwsConfig = config as unknown as LwsDeploymentConfig;
+    const gpuCount = lwsConfig.resources?.gpu || 1;
+
+    logger.debug(
+      { name: config.name, nodesPerReplica: lwsConfig.nodesPerReplica, gpuCount },
+      'Generating LeaderWorkerSet manifest'
+    );
+
+    const labels = {
+      'app.kubernetes.io/name': 'kubefoundry',
+      'app.kubernetes.io/instance': config.name,
+      'app.kubernetes.io/managed-by': 'kubefoundry',
+      'kubefoundry.io/provider': this.id,
+    };
+
+    return {
+      apiVersion: `${LwsProvider.API_GROUP}/${LwsProvider.API_VERSION}`,
+      kind: LwsProvider.CRD_KIND,
+      metadata: {
+        name: config.name,
+        namespace: config.namespace,
+        labels,
+      },
+      spec: {
+        replicas: lwsConfig.replicas || 1,
+        // Workers must start alongside the leader, which only becomes ready once they join
+        startupPolicy: 'LeaderCreated',
+        leaderWorkerTemplate: {
+          size: lwsConfig.nodesPerReplica,
+          // A lost pod breaks the group's collective communication, so restart all of it
+          restartPolicy: 'RecreateGroupOnPodRestart',
+          leaderTemplate: this.buildPodTemplate(lwsConfig, labels, 'leader'),
+          workerTemplate: this.buildPodTemplate(lwsConfig, labels, 'worker'),
+        },
+      },
+    };
+  }
+
+  /**
+   * Pod template for the leader, which serves the API, or a headless worker
+   */
+  private buildPodTemplate(
+    config: LwsDeploymentConfig,
+    labels: Record<string, string>,
+    role: 'leader' | 'worker'
+  ): Record<string, unknown> {
+    const gpuCount = config.resources?.gpu || 1;
+    const limits: Record<string, string> = {
+      'nvidia.com/gpu': String(gpuCount),
+      ...(config.cpu && { cpu: config.cpu }),
+      ...(config.resources?.memory && { memory: config.resources.memory }),
+    };
+
+    const env: Record<string, unknown>[] = [
+      {
+        name: 'HF_TOKEN',
+        valueFrom: { secretKeyRef: { name: config.hfTokenSecret, key: 'HF_TOKEN' } },
+      },
+    ];
+    if (config.modelCache) {
+      env.push(modelCacheEnv());
+    }
+
+    const container: Record<string, unknown> = {
+      name: CONTAINER_NAME,
+      image: config.image || VLLM_IMAGE,
+      command: ['vllm', 'serve'],
+      args: this.buildArgs(config, role),
+      env,
+      resources: { limits, requests: limits },
+      volumeMounts: [
+        { name: 'dshm', mountPath: '/dev/shm' },
+        ...(config.modelCache ? [modelCacheVolumeMount()] : []),
+      ],
+    };
+
+    if (role === 'leader') {
+      const healthCheck = { httpGet: { path: '/health', port: 'http' } };
+      Object.assign(container, {
+        ports: [{ name: 'http', containerPort: SERVER_PORT, protocol: 'TCP' }],
+        // Downloading and loading weights on every node can take a long time
+        startupProbe: { ...healthCheck, periodSeconds: 10, failureThreshold: 180 },
+        readinessProbe: { ...healthCheck, periodSeconds: 10, failureThreshold: 3 },
+        livenessProbe: { ...healthCheck, periodSeconds: 30, failureThreshold: 3 },
+      });
+    }
+
+    return {
+      metadata: {
+        labels: { ...labels, 'kubefoundry.io/role': role },
+      },
+      spec: {
+        containers: [container],
+        volumes: [
+          { name: 'dshm', emptyDir: { medium: 'Memory' } },
+          ...(config.modelCache ? [modelCacheVolume(config.modelCache)] : []),
+        ],
+        ...buildPodScheduling(config, [GPU_TOLERATION]),
+      },
+    };
+  }
+
+  /**
+   * vLLM command line. Leader and workers share it except for their role flags;
+   * the rank and leader address come from variables the LeaderWorkerSet controller injects.
+   */
+  private buildArgs(config: LwsDeploymentConfig, role: 'leader' | 'worker'): string[] {
+    const { tensor, pipeline } = this.parallelism(config);
+    const args = [
+      '--model', config.modelId,
+      '--served-model-name', config.servedModelName || config.modelId,
+      '--tensor-parallel-size', String(tensor),
+      '--pipeline-parallel-size', String(pipeline),
+      '--distributed-executor-backend', 'mp',
+      '--nnodes', String(config.nodesPerReplica),
+      '--node-rank', '$(LWS_WORKER_INDEX)',
+      '--master-addr', '$(LWS_LEADER_ADDRESS)',
+      '--master-port', String(MASTER_PORT),
+      ...(role === 'leader' ? ['--host', '0.0.0.0', '--port', String(SERVER_PORT)] : ['--headless']),
+    ];
+
+    if (config.contextLength) {
+      args.push('--max-model-len', String(config.contextLength));
+    }
+    if (config.enforceEager) {
+      args.push('--enforce-eager');
+    }
+    if (config.enablePrefixCaching) {
+      args.push('--enable-prefix-caching');
+    }
+    if (config.trustRemoteCode) {
+      args.push('--trust-remote-code');
+    }
+
+    for (const [key, value] of Object.entries(config.engineArgs || {})) {
+      if (value === true) {
+        args.push(`--${key}`);
+      } else if (value !== false) {
+        args.push(`--${key}`, String(value));
+      }
+    }
+    return args;
+  }
+
+  /**
+   * Split a vLLM command line into the options KubeFoundry sets itself and any
+   * remaining engine arguments. Options without a value are booleans.
+   */
+  private parseArgs(args: string[]): { flags: Record<string, string | true>; engineArgs: Record<string, unknown> } {
+    const flags: Record<string, string | true> = {};
+    const engineArgs: Record<string, unknown> = {};
+
+    for (let i = 0; i < args.length; i++) {
+      if (!args[i].startsWith('--')) {
+        continue;
+      }
+      const key = args[i].slice(2);
+      const next = args[i + 1];
+      const value = next !== undefined && !next.startsWith('--') ? next : undefined;
+      if (value !== undefined) {
+        i++;
+      }
+
+      if (OWN_FLAGS.has(key)) {
+        flags[key] = value ?? true;
+      } else if (value === undefined) {
+        engineArgs[key] = true;
+      } else {
+        engineArgs[key] = value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      }
+    }
+
+    return { flags, engineArgs };
+  }
+
+  /**
+   * The container serving the API, which carries the full set of options
+   */
+  private leaderContainer(obj: LeaderWorkerSetObject): ServerContainer | undefined {
+    const template = obj.spec?.leaderWorkerTemplate;
+    const podTemplate = template?.leaderTemplate || template?.workerTemplate;
+    return podTemplate?.spec?.containers?.find((c) => c.name === CONTAINER_NAME);
+  }
+
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    const lwsConfig = config as unknown as LwsDeploymentConfig;
+    const previousConfig = previous as unknown as LwsDeploymentConfig;
+
+    if (lwsConfig.nodesPerReplica !== previousConfig.nodesPerReplica) {
+      throw new Error('Nodes per replica cannot be changed on an existing LeaderWorkerSet');
+    }
+
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
+  generateOwnedResources(config: DeploymentConfig): Record<string, unknown>[] {
+    // The controller's own headless Service addresses every pod; clients need only the leaders
+    return [{
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: {
+        name: `${config.name}-leader`,
+        namespace: config.namespace,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
+        },
+      },
+      spec: {
+        type: 'ClusterIP',
+        ports: [{ name: 'http', port: SERVER_PORT, targetPort: 'http', protocol: 'TCP' }],
+        selector: {
+          [LWS_NAME_LABEL]: config.name,
+          [WORKER_INDEX_LABEL]: '0',
+        },
+      },
+    }];
+  }
+
+  parseStatus(raw: unknown): DeploymentStatus {
+    const obj = raw as LeaderWorkerSetObject;
+    const metadata = obj.metadata || {};
+    const status = obj.status || {};
+    const { flags } = this.parseArgs(this.leaderContainer(obj)?.args || []);
+
+    const modelId = typeof flags.model === 'string' ? flags.model : '';
+    const servedModelName = typeof flags['served-model-name'] === 'string' ? flags['served-model-name'] : modelId;
+    const desiredReplicas = obj.spec?.replicas ?? 1;
+
+    return {
+      name: metadata.name || 'unknown',
+      namespace: metadata.namespace || 'default',
+      modelId,
+      servedModelName: servedModelName || metadata.name || 'unknown',
+      engine: 'vllm',
+      mode: 'aggregated',
+      phase: this.mapPhase(obj, desiredReplicas),
+      provider: this.id,
+      replicas: {
+        desired: desiredReplicas,
+        ready: status.readyReplicas || 0,
+        available: status.readyReplicas || 0,
+      },
+      conditions: (status.conditions || []).map((c) => ({
+        type: c.type || '',
+        status: (c.status as 'True' | 'False' | 'Unknown') || 'Unknown',
+        reason: c.reason,
+        message: c.message,
+        lastTransitionTime: c.lastTransitionTime,
+      })),
+      pods: [],
+      createdAt: metadata.creationTimestamp || new Date().toISOString(),
+      frontendService: `${metadata.name}-leader:${SERVER_PORT}`,
+    };
+  }
+
+  /**
+   * Map LeaderWorkerSet status, counted in whole groups, to our DeploymentPhase
+   */
+  private mapPhase(obj: LeaderWorkerSetObject, desiredReplicas: number): DeploymentPhase {
+    if (obj.metadata?.deletionTimestamp) {
+      return 'Terminating';
+    }
+
+    const status = obj.status || {};
+    const conditions = status.conditions || [];
+    const available = conditions.find((c) => c.type === 'Available');
+    const updating = conditions.find((c) => c.type === 'UpdateInProgress');
+
+    // A group is ready once the leader and every worker are ready
+    if (available?.status === 'True' && updating?.status !== 'True' && (status.readyReplicas || 0) >= desiredReplicas) {
+      return 'Running';
+    }
+
+    return status.replicas !== undefined || conditions.length > 0 ? 'Deploying' : 'Pending';
+  }
+
+  parseConfig(raw: unknown): DeploymentConfig {
+    const obj = raw as LeaderWorkerSetObject;
+    const template = obj.spec?.leaderWorkerTemplate;
+    const podSpec = (template?.leaderTemplate || template?.workerTemplate)?.spec;
+    const container = this.leaderContainer(obj);
+
+    if (!container?.args) {
+      throw new Error(`LeaderWorkerSet '${obj.metadata?.name}' has no ${CONTAINER_NAME} container arguments`);
+    }
+
+    const { flags, engineArgs } = this.parseArgs(container.args);
+    const limits = container.resources?.limits || {};
+    const hfToken = container.env?.find((e) => e.name === 'HF_TOKEN');
+    const nodesPerReplica = template?.size ?? 1;
+    const pipelineParallel = Number(flags['pipeline-parallel-size'] || nodesPerReplica);
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'lws',
+      modelId: flags.model,
+      engine: 'vllm',
+      mode: 'aggregated',
+      servedModelName: flags['served-model-name'] !== flags.model ? flags['served-model-name'] : undefined,
+      replicas: obj.spec?.replicas ?? 1,
+      hfTokenSecret: hfToken?.valueFrom?.secretKeyRef?.name,
+      contextLength: typeof flags['max-model-len'] === 'string' ? Number(flags['max-model-len']) : undefined,
+      enforceEager: flags['enforce-eager'] === true,
+      enablePrefixCaching: flags['enable-prefix-caching'] === true,
+      trustRemoteCode: flags['trust-remote-code'] === true,
+      ...(Object.keys(engineArgs).length > 0 && { engineArgs }),
+      resources: {
+        gpu: Number(limits['nvidia.com/gpu'] || 1),
+        ...(limits.memory && { memory: limits.memory }),
+      },
+      nodesPerReplica,
+      // One stage per node is the default and is left implicit
+      pipelineParallel: pipelineParallel !== nodesPerReplica ? pipelineParallel : undefined,
+      image: container.image !== VLLM_IMAGE ? container.image : undefined,
+      cpu: limits.cpu,
+      ...parsePodScheduling(podSpec, [GPU_TOLERATION]),
+      modelCache: parseModelCache(podSpec),
+    };
+
+    const result = lwsDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
+  validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
+    const result = lwsDeploymentConfigSchema.safeParse(config);
+
+    if (!result.success) {
+      const errors = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+      logger.warn({ errors }, 'LeaderWorkerSet config validation failed');
+      return {
+        valid: false,
+        errors,
+      };
+    }
+
+    logger.debug({ name: result.data.name }, 'LeaderWorkerSet config validated successfully');
+    return {
+      valid: true,
+      errors: [],
+      data: result.data as unknown as DeploymentConfig,
+    };
+  }
+
+  getConfigSchema() {
+    return lwsDeploymentConfigSchema;
+  }
+
+  getInstallationSteps(): InstallationStep[] {
+    return [
+      {
+        title: 'Install LeaderWorkerSet',
+        command: `helm install lws oci://registry.k8s.io/lws/charts/lws --version ${LWS_VERSION} --namespace ${LWS_NAMESPACE} --create-namespace`,
+        description: `Install the LeaderWorkerSet ${LWS_VERSION} CRD and controller, which create and restart multi-node pod groups as a unit.`,
+      },
+    ];
+  }
+
+  getHelmRepos(): HelmRepo[] {
+    // The chart is pulled from an OCI registry
+    return [];
+  }
+
+  getHelmCharts(): HelmChart[] {
+    return [
+      {
+        name: 'lws',
+        chart: 'oci://registry.k8s.io/lws/charts/lws',
+        version: LWS_VERSION,
+        namespace: LWS_NAMESPACE,
+        createNamespace: true,
+      },
+    ];
+  }
+
+  async checkInstallation(k8sApi: {
+    customObjectsApi: unknown;
+    coreV1Api: unknown;
+  }): Promise<InstallationStatus> {
+    const customObjectsApi = k8sApi.customObjectsApi as k8s.CustomObjectsApi;
+    const coreV1Api = k8sApi.coreV1Api as k8s.CoreV1Api;
+
+    logger.debug('Checking LeaderWorkerSet installation status');
+
+    try {
+      // Check if LeaderWorkerSet CRD exists by trying to list resources
+      let crdFound = false;
+      try {
+        await customObjectsApi.listNamespacedCustomObject(
+          LwsProvider.API_GROUP,
+          LwsProvider.API_VERSION,
+          this.defaultNamespace,
+          LwsProvider.CRD_PLURAL
+        );
+        crdFound = true;
+        logger.debug('LeaderWorkerSet CRD found');
+      } catch (error: unknown) {
+        const k8sError = error as { response?: { statusCode?: number } };
+        // 404 means CRD doesn't exist, other errors might be permissions
+        if (k8sError?.response?.statusCode === 404) {
+          logger.debug('LeaderWorkerSet CRD not found');
+        }
+      }
+
+      let operatorRunning = false;
+      try {
+        const pods = await coreV1Api.listNamespacedPod(LWS_NAMESPACE);
+        operatorRunning = pods.body.items.some(
+          pod => pod.metadata?.name?.startsWith('lws-controller-manager') && pod.status?.phase === 'Running'
+        );
+      } catch {
+        // Namespace might not exist
+        operatorRunning = false;
+      }
+
+      const installed = crdFound && operatorRunning;
+      logger.info({ installed, crdFound, operatorRunning }, 'LeaderWorkerSet installation check complete');
+
+      return {
+        installed,
+        crdFound,
+        operatorRunning,
+        message: installed
+          ? 'LeaderWorkerSet is installed and running'
+          : !crdFound
+          ? 'LeaderWorkerSet CRD not found. Please install LeaderWorkerSet.'
+          : 'LeaderWorkerSet controller is not running',
+      };
+    } catch (error) {
+      logger.error({ error }, 'Error checking LeaderWorkerSet installation');
+      return {
+        installed: false,
+        message: `Error checking installation: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  getMetricsConfig(): MetricsEndpointConfig | null {
+    return {
+      endpointPath: '/metrics',
+      port: SERVER_PORT,
+      // The leader reports metrics for the whole group
+      serviceNamePattern: '{name}-leader',
+      // Leaders are named {name}-<group>, workers {name}-<group>-<index>
+      podNamePattern: '{name}-[0-9]+(-[0-9]+)?',
+    };
+  }
+
+  getKeyMetrics(engine?: Engine): MetricDefinition[] {
+    return keyMetricsForEngine(lwsCapabilities.engines, engine);
+  }
+
+  getUninstallResources(): UninstallResources {
+    return {
+      crds: [`${LwsProvider.CRD_PLURAL}.${LwsProvider.API_GROUP}`],
+      namespaces: [LWS_NAMESPACE],
+    };
+  }
+}
+
+// Export singleton instance
+export const lwsProvider = new LwsProvider();
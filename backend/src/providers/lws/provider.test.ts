@@ -0,0 +1,344 @@
+import { describe, test, expect } from 'bun:test';
+import type * as k8s from '@kubernetes/client-node';
+import { LwsProvider } from './index';
+import { ConfigParseError } from '../types';
+import { buildManifest } from '../conformance';
+
+const provider = new LwsProvider();
+
+const baseConfig = {
+  name: 'llama-405b',
+  namespace: 'lws-inference',
+  provider: 'lws',
+  modelId: 'meta-llama/Llama-3.1-405B-Instruct',
+  engine: 'vllm',
+  hfTokenSecret: 'hf-token-secret',
+  resources: { gpu: 8 },
+};
+
+/**
+ * The pod template fields these tests read
+ */
+interface PodTemplate {
+  metadata: { labels: Record<string, string> };
+  spec: {
+    containers: Array<{
+      command: string[];
+      args: string[];
+      resources: { limits: Record<string, string> };
+      readinessProbe?: k8s.V1Probe;
+      ports?: k8s.V1ContainerPort[];
+    }>;
+    nodeSelector?: Record<string, string>;
+    tolerations: k8s.V1Toleration[];
+  };
+}
+
+/**
+ * The LeaderWorkerSet fields these tests read
+ */
+interface LeaderWorkerSet {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string };
+  spec: {
+    replicas: number;
+    startupPolicy: string;
+    leaderWorkerTemplate: {
+      size: number;
+      restartPolicy: string;
+      leaderTemplate: PodTemplate;
+      workerTemplate: PodTemplate;
+    };
+  };
+}
+
+const build = (overrides: Record<string, unknown> = {}) =>
+  buildManifest<LeaderWorkerSet>(provider, { ...baseConfig, ...overrides });
+
+const leader = (manifest: LeaderWorkerSet) => manifest.spec.leaderWorkerTemplate.leaderTemplate.spec.containers[0];
+const worker = (manifest: LeaderWorkerSet) => manifest.spec.leaderWorkerTemplate.workerTemplate.spec.containers[0];
+
+const flagValue = (args: string[], flag: string) => args[args.indexOf(flag) + 1];
+
+describe('LwsProvider', () => {
+  describe('provider info', () => {
+    test('has correct id and name', () => {
+      expect(provider.id).toBe('lws');
+      expect(provider.name).toBe('LeaderWorkerSet');
+    });
+
+    test('has default namespace', () => {
+      expect(provider.defaultNamespace).toBe('lws-inference');
+    });
+  });
+
+  describe('getCRDConfig', () => {
+    test('returns LeaderWorkerSet CRD configuration', () => {
+      const config = provider.getCRDConfig();
+      expect(config.apiGroup).toBe('leaderworkerset.x-k8s.io');
+      expect(config.apiVersion).toBe('v1');
+      expect(config.plural).toBe('leaderworkersets');
+      expect(config.kind).toBe('LeaderWorkerSet');
+    });
+  });
+
+  describe('generateManifest', () => {
+    test('generates a LeaderWorkerSet with one pod per node', () => {
+      const manifest = build({ replicas: 2, nodesPerReplica: 4 });
+
+      expect(manifest.apiVersion).toBe('leaderworkerset.x-k8s.io/v1');
+      expect(manifest.kind).toBe('LeaderWorkerSet');
+      expect(manifest.metadata.name).toBe('llama-405b');
+      expect(manifest.spec.replicas).toBe(2);
+      expect(manifest.spec.startupPolicy).toBe('LeaderCreated');
+      expect(manifest.spec.leaderWorkerTemplate.size).toBe(4);
+      expect(manifest.spec.leaderWorkerTemplate.restartPolicy).toBe('RecreateGroupOnPodRestart');
+    });
+
+    test('splits GPUs into tensor and pipeline parallel', () => {
+      const defaults = leader(build()).args;
+      expect(flagValue(defaults, '--tensor-parallel-size')).toBe('8');
+      expect(flagValue(defaults, '--pipeline-parallel-size')).toBe('2');
+
+      const custom = leader(build({ nodesPerReplica: 4, pipelineParallel: 2 })).args;
+      expect(flagValue(custom, '--tensor-parallel-size')).toBe('16');
+      expect(flagValue(custom, '--pipeline-parallel-size')).toBe('2');
+    });
+
+    test('joins workers to the leader without Ray', () => {
+      const manifest = build();
+      for (const container of [leader(manifest), worker(manifest)]) {
+        expect(container.command).toEqual(['vllm', 'serve']);
+        expect(flagValue(container.args, '--distributed-executor-backend')).toBe('mp');
+        expect(flagValue(container.args, '--nnodes')).toBe('2');
+        expect(flagValue(container.args, '--node-rank')).toBe('$(LWS_WORKER_INDEX)');
+        expect(flagValue(container.args, '--master-addr')).toBe('$(LWS_LEADER_ADDRESS)');
+      }
+      expect(worker(manifest).args).toContain('--headless');
+      expect(worker(manifest).args).not.toContain('--port');
+      expect(leader(manifest).args).not.toContain('--headless');
+      expect(flagValue(leader(manifest).args, '--port')).toBe('8000');
+    });
+
+    test('probes only the leader', () => {
+      const manifest = build();
+      expect(leader(manifest).readinessProbe?.httpGet).toEqual({ path: '/health', port: 'http' });
+      expect(worker(manifest).readinessProbe).toBeUndefined();
+      expect(worker(manifest).ports).toBeUndefined();
+    });
+
+    test('requests the GPUs of each node on every pod', () => {
+      const manifest = build({ cpu: '32', resources: { gpu: 8, memory: '512Gi' } });
+      for (const container of [leader(manifest), worker(manifest)]) {
+        expect(container.resources.limits).toEqual({ 'nvidia.com/gpu': '8', cpu: '32', memory: '512Gi' });
+      }
+    });
+
+    test('labels pods with the deployment instance and role', () => {
+      const template = build().spec.leaderWorkerTemplate;
+      expect(template.leaderTemplate.metadata.labels['app.kubernetes.io/instance']).toBe('llama-405b');
+      expect(template.leaderTemplate.metadata.labels['kubefoundry.io/role']).toBe('leader');
+      expect(template.workerTemplate.metadata.labels['kubefoundry.io/role']).toBe('worker');
+    });
+
+    test('applies scheduling to leader and workers', () => {
+      const template = build({ nodeSelector: { 'nvidia.com/gpu.product': 'NVIDIA-H100-80GB-HBM3' } }).spec.leaderWorkerTemplate;
+      for (const podTemplate of [template.leaderTemplate, template.workerTemplate]) {
+        expect(podTemplate.spec.nodeSelector).toEqual({ 'nvidia.com/gpu.product': 'NVIDIA-H100-80GB-HBM3' });
+        expect(podTemplate.spec.tolerations).toContainEqual({ key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' });
+      }
+    });
+  });
+
+  describe('generateOwnedResources', () => {
+    test('creates a Service in front of the leaders', () => {
+      const config = provider.validateConfig(baseConfig).data!;
+      const [service] = provider.generateOwnedResources(config) as any[];
+
+      expect(service.kind).toBe('Service');
+      expect(service.metadata.name).toBe('llama-405b-leader');
+      expect(service.spec.ports[0].port).toBe(8000);
+      expect(service.spec.selector).toEqual({
+        'leaderworkerset.sigs.k8s.io/name': 'llama-405b',
+        'leaderworkerset.sigs.k8s.io/worker-index': '0',
+      });
+    });
+  });
+
+  describe('generatePatch', () => {
+    test('patches replicas when scaling', () => {
+      const previous = provider.validateConfig(baseConfig).data!;
+      const next = provider.validateConfig({ ...baseConfig, replicas: 2 }).data!;
+      expect(provider.generatePatch(next, previous)).toEqual({ spec: { replicas: 2 } });
+    });
+
+    test('rejects changing the group size', () => {
+      const previous = provider.validateConfig(baseConfig).data!;
+      const next = provider.validateConfig({ ...baseConfig, nodesPerReplica: 4 }).data!;
+      expect(() => provider.generatePatch(next, previous)).toThrow('Nodes per replica cannot be changed');
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    test('round-trips a minimal deployment', () => {
+      roundTrip(baseConfig);
+    });
+
+    test('round-trips a deployment with every option', () => {
+      roundTrip({
+        ...baseConfig,
+        servedModelName: 'llama',
+        replicas: 2,
+        nodesPerReplica: 4,
+        pipelineParallel: 2,
+        contextLength: 32768,
+        enforceEager: false,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        engineArgs: { 'gpu-memory-utilization': 0.92 },
+        resources: { gpu: 8, memory: '512Gi' },
+        cpu: '32',
+        image: 'registry.example.com/vllm:custom',
+        nodeSelector: { 'nvidia.com/gpu.product': 'NVIDIA-H100-80GB-HBM3' },
+        modelCache: { claimName: 'hf-cache' },
+      });
+    });
+
+    test('throws when the LeaderWorkerSet has no vllm container', () => {
+      expect(() => provider.parseConfig({
+        metadata: { name: 'other' },
+        spec: { leaderWorkerTemplate: { size: 2, workerTemplate: { spec: { containers: [{ name: 'app' }] } } } },
+      })).toThrow('has no vllm container arguments');
+    });
+
+    test('throws ConfigParseError when the resource no longer makes up a valid config', () => {
+      const manifest = provider.generateManifest(provider.validateConfig(baseConfig).data!);
+      const edited = { ...manifest, metadata: { ...(manifest.metadata as object), name: 'Not_Valid' } };
+      expect(() => provider.parseConfig(edited)).toThrow(ConfigParseError);
+    });
+  });
+
+  describe('parseStatus', () => {
+    const withStatus = (status?: Record<string, unknown>, metadata: Record<string, unknown> = {}) => {
+      const manifest = build({ servedModelName: 'llama' });
+      return {
+        ...manifest,
+        metadata: { ...manifest.metadata, creationTimestamp: '2025-01-01T00:00:00Z', ...metadata },
+        ...(status && { status }),
+      };
+    };
+
+    test('parses a LeaderWorkerSet whose groups are ready', () => {
+      const status = provider.parseStatus(withStatus({
+        replicas: 1,
+        readyReplicas: 1,
+        updatedReplicas: 1,
+        conditions: [{ type: 'Available', status: 'True', reason: 'AllGroupsReady' }],
+      }));
+
+      expect(status.name).toBe('llama-405b');
+      expect(status.namespace).toBe('lws-inference');
+      expect(status.modelId).toBe('meta-llama/Llama-3.1-405B-Instruct');
+      expect(status.servedModelName).toBe('llama');
+      expect(status.engine).toBe('vllm');
+      expect(status.provider).toBe('lws');
+      expect(status.phase).toBe('Running');
+      expect(status.replicas).toEqual({ desired: 1, ready: 1, available: 1 });
+      expect(status.createdAt).toBe('2025-01-01T00:00:00Z');
+      expect(status.frontendService).toBe('llama-405b-leader:8000');
+    });
+
+    test('parses a LeaderWorkerSet that is still starting', () => {
+      const status = provider.parseStatus(withStatus({
+        replicas: 1,
+        readyReplicas: 0,
+        conditions: [{ type: 'Progressing', status: 'True', reason: 'GroupsProgressing' }],
+      }));
+      expect(status.phase).toBe('Deploying');
+    });
+
+    test('parses a LeaderWorkerSet that is rolling out an update', () => {
+      const status = provider.parseStatus(withStatus({
+        replicas: 1,
+        readyReplicas: 1,
+        conditions: [
+          { type: 'Available', status: 'True' },
+          { type: 'UpdateInProgress', status: 'True' },
+        ],
+      }));
+      expect(status.phase).toBe('Deploying');
+    });
+
+    test('parses a pending LeaderWorkerSet without status', () => {
+      expect(provider.parseStatus(withStatus()).phase).toBe('Pending');
+    });
+
+    test('parses a LeaderWorkerSet being deleted', () => {
+      const status = provider.parseStatus(withStatus(undefined, { deletionTimestamp: '2025-01-02T00:00:00Z' }));
+      expect(status.phase).toBe('Terminating');
+    });
+  });
+
+  describe('validateConfig', () => {
+    test('validates a minimal configuration', () => {
+      const result = provider.validateConfig(baseConfig);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    test('reports the pipeline parallel field when it does not divide the GPUs', () => {
+      const result = provider.validateConfig({ ...baseConfig, pipelineParallel: 3 });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toStartWith('pipelineParallel:');
+    });
+  });
+
+  describe('getHelmCharts', () => {
+    test('installs the LeaderWorkerSet chart from its OCI registry', () => {
+      const charts = provider.getHelmCharts();
+      expect(charts).toHaveLength(1);
+      expect(charts[0].chart).toBe('oci://registry.k8s.io/lws/charts/lws');
+      expect(charts[0].namespace).toBe('lws-system');
+    });
+  });
+
+  describe('getUninstallResources', () => {
+    test('removes the CRD and controller namespace', () => {
+      expect(provider.getUninstallResources()).toEqual({
+        crds: ['leaderworkersets.leaderworkerset.x-k8s.io'],
+        namespaces: ['lws-system'],
+      });
+    });
+  });
+
+  describe('metrics', () => {
+    test('scrapes the leader service', () => {
+      const config = provider.getMetricsConfig();
+      expect(config?.port).toBe(8000);
+      expect(config?.serviceNamePattern).toBe('{name}-leader');
+    });
+  });
+});
+
+describe('provider registry integration', () => {
+  test('lws provider is registered', async () => {
+    const { providerRegistry } = await import('../index');
+    const lwsProvider = providerRegistry.getProvider('lws');
+    expect(lwsProvider).toBeDefined();
+    expect(lwsProvider?.id).toBe('lws');
+  });
+
+  test('lws appears in available providers list', async () => {
+    const { providerRegistry } = await import('../index');
+    const providers = providerRegistry.listProviders();
+    expect(providers.find((p: { id: string }) => p.id === 'lws')).toBeDefined();
+  });
+});
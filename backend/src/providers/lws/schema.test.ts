@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'bun:test';
+import { lwsDeploymentConfigSchema, lwsManifestSchema } from './schema';
+import { LwsProvider } from './index';
+
+describe('lwsDeploymentConfigSchema', () => {
+  const validConfig = {
+    name: 'my-deployment',
+    namespace: 'lws-inference',
+    modelId: 'meta-llama/Llama-3.1-405B-Instruct',
+    engine: 'vllm' as const,
+    hfTokenSecret: 'hf-token-secret',
+    resources: { gpu: 8 },
+  };
+
+  describe('valid configurations', () => {
+    it('accepts minimal valid configuration', () => {
+      const result = lwsDeploymentConfigSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe('aggregated');
+        expect(result.data.nodesPerReplica).toBe(2);
+        expect(result.data.pipelineParallel).toBeUndefined();
+      }
+    });
+
+    it('accepts a pipeline parallel size dividing the replica GPUs', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, nodesPerReplica: 4, pipelineParallel: 2 });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('engine validation', () => {
+    it('rejects sglang', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, engine: 'sglang' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('LeaderWorkerSet only supports the vllm engine');
+      }
+    });
+  });
+
+  describe('multi-node validation', () => {
+    it('rejects more than 16 nodes per replica', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, nodesPerReplica: 17 });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects a pipeline parallel size that does not divide the replica GPUs', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, pipelineParallel: 3 });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['pipelineParallel']);
+      }
+    });
+  });
+
+  describe('serving mode validation', () => {
+    it('rejects disaggregated mode', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, mode: 'disaggregated' });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects adapters', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        adapters: [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }],
+      });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['adapters']);
+      }
+    });
+  });
+
+  describe('inherits base schema validation', () => {
+    it('rejects invalid Kubernetes name', () => {
+      const result = lwsDeploymentConfigSchema.safeParse({ ...validConfig, name: 'Invalid_Name' });
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('lwsManifestSchema', () => {
+  it('accepts a generated LeaderWorkerSet', () => {
+    const config = lwsDeploymentConfigSchema.parse({
+      name: 'my-deployment',
+      namespace: 'lws-inference',
+      modelId: 'meta-llama/Llama-3.1-405B-Instruct',
+      engine: 'vllm',
+      hfTokenSecret: 'hf-token-secret',
+    });
+    const manifest = new LwsProvider().generateManifest(config as any);
+    expect(lwsManifestSchema.safeParse(manifest).success).toBe(true);
+  });
+
+  it('rejects other kinds', () => {
+    const result = lwsManifestSchema.safeParse({
+      apiVersion: 'leaderworkerset.x-k8s.io/v1',
+      kind: 'Deployment',
+      metadata: { name: 'server' },
+      spec: {},
+    });
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
+import { baseDeploymentConfigSchema } from '../types';
+import { capabilityCheck } from '../capabilities';
+
+// Multi-node serving uses vLLM's own multiprocessing executor, without Ray.
+// One group serves the whole model; no P/D split or KV-aware routing.
+export const lwsCapabilities: ProviderCapabilities = {
+  engines: ['vllm'],
+  modes: ['aggregated'],
+  routerModes: ['none'],
+  adapterEngines: [],
+  adapterSources: [],
+  cpu: false,
+  gguf: false,
+  autoscaling: false,
+  engineArgs: true,
+  multiNode: true,
+};
+
+/**
+ * LeaderWorkerSet deployment configuration schema
+ * Extends the base schema for a vLLM server spread over a group of nodes
+ */
+export const lwsDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
+  // Multi-node fields; resources.gpu is the GPU count of each node
+  nodesPerReplica: z.number().int().min(1).max(16).default(2)
+    .describe('Nodes each replica spans, leader included; each runs one pod'),
+  pipelineParallel: z.number().int().min(1).optional()
+    .describe('Pipeline parallel size, defaulting to one stage per node'),
+
+  // LeaderWorkerSet-specific fields
+  image: z.string().min(1).optional().describe('vLLM image to run instead of the default'),
+  cpu: z.string().optional().describe('CPU limit for each server container'),
+}).superRefine(capabilityCheck('LeaderWorkerSet', lwsCapabilities)).refine(
+  (data) => (data.resources?.gpu ?? 1) * data.nodesPerReplica % (data.pipelineParallel ?? data.nodesPerReplica) === 0,
+  {
+    message: 'pipelineParallel must evenly divide the GPUs of a replica (resources.gpu × nodesPerReplica)',
+    path: ['pipelineParallel'],
+  }
+);
+
+export type LwsDeploymentConfig = z.infer<typeof lwsDeploymentConfigSchema>;
+
+const podTemplateSchema = z.object({
+  metadata: z.object({
+    labels: z.record(z.string()).optional(),
+  }).optional(),
+  spec: z.object({
+    containers: z.array(z.object({
+      name: z.string(),
+      image: z.string(),
+      command: z.array(z.string()),
+      args: z.array(z.string()),
+    }).passthrough()).min(1),
+  }).passthrough(),
+});
+
+/**
+ * LeaderWorkerSet manifest schema for validation
+ */
+export const lwsManifestSchema = z.object({
+  apiVersion: z.literal('leaderworkerset.x-k8s.io/v1'),
+  kind: z.literal('LeaderWorkerSet'),
+  metadata: z.object({
+    name: z.string(),
+    namespace: z.string().optional(),
+    labels: z.record(z.string()).optional(),
+  }),
+  spec: z.object({
+    replicas: z.number(),
+    leaderWorkerTemplate: z.object({
+      size: z.number(),
+      leaderTemplate: podTemplateSchema.optional(),
+      workerTemplate: podTemplateSchema,
+    }).passthrough(),
+  }).passthrough(),
+});
+
+export type LwsManifest = z.infer<typeof lwsManifestSchema>;
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'bun:test';
+import type { Engine } from '@kubefoundry/shared';
+import { dynamoFrontendMetrics, engineKeyMetrics, keyMetricsForEngine } from './metrics';
+import type { Provider } from './types';
+import { dynamoProvider } from './dynamo';
+import { nativeProvider } from './native';
+
+const engines = Object.keys(engineKeyMetrics) as Engine[];
+
+describe('engineKeyMetrics', () => {
+  test('uses the same display names for the same kind of metric', () => {
+    const byDisplayName = new Map<string, Set<string>>();
+    for (const engine of engines) {
+      for (const metric of engineKeyMetrics[engine]) {
+        const shape = `${metric.unit}/${metric.type}/${metric.category}`;
+        byDisplayName.set(metric.displayName, (byDisplayName.get(metric.displayName) || new Set()).add(shape));
+      }
+    }
+    for (const shapes of byDisplayName.values()) {
+      expect([...shapes]).toHaveLength(1);
+    }
+  });
+
+  test('covers queue, latency and throughput for every engine but llama.cpp latency', () => {
+    for (const engine of engines) {
+      const categories = new Set(engineKeyMetrics[engine].map((m) => m.category));
+      expect(categories.has('queue')).toBe(true);
+      expect(categories.has('throughput')).toBe(true);
+      if (engine !== 'llamacpp') {
+        expect(categories.has('latency')).toBe(true);
+      }
+    }
+  });
+
+  test('maps SGLang and TRT-LLM to their own metric families', () => {
+    expect(engineKeyMetrics.sglang.every((m) => m.name.startsWith('sglang:'))).toBe(true);
+    expect(engineKeyMetrics.trtllm.every((m) => m.name.startsWith('trtllm_'))).toBe(true);
+  });
+});
+
+describe('keyMetricsForEngine', () => {
+  test('returns the metrics of the given engine', () => {
+    expect(keyMetricsForEngine(['vllm', 'sglang'], 'sglang')).toEqual(engineKeyMetrics.sglang);
+  });
+
+  test('returns every supported engine without an engine or with an unsupported one', () => {
+    const all = [...engineKeyMetrics.vllm, ...engineKeyMetrics.sglang];
+    expect(keyMetricsForEngine(['vllm', 'sglang'])).toEqual(all);
+    expect(keyMetricsForEngine(['vllm', 'sglang'], 'trtllm')).toEqual(all);
+  });
+
+  test('is used by providers that scrape the engine itself', () => {
+    expect(nativeProvider.getKeyMetrics('sglang').map((m) => m.name)).toContain('sglang:num_running_reqs');
+    expect(nativeProvider.getKeyMetrics('vllm').map((m) => m.name)).not.toContain('sglang:num_running_reqs');
+  });
+});
+
+describe('dynamoFrontendMetrics', () => {
+  test('are what Dynamo reports for every engine, since it scrapes the frontend', () => {
+    const provider: Provider = dynamoProvider;
+    for (const engine of [undefined, 'vllm', 'sglang', 'trtllm'] as const) {
+      expect(provider.getKeyMetrics(engine)).toEqual(dynamoFrontendMetrics);
+    }
+  });
+
+  test('share display names with the engine metrics', () => {
+    const displayNames = new Set(engineKeyMetrics.vllm.map((m) => m.displayName));
+    for (const metric of dynamoFrontendMetrics) {
+      expect(displayNames.has(metric.displayName)).toBe(true);
+    }
+  });
+});
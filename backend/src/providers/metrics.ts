@@ -0,0 +1,392 @@
+import type { Engine, MetricDefinition } from '@kubefoundry/shared';
+
+/**
+ * vLLM metrics, exposed by its OpenAI-compatible server
+ */
+const vllmMetrics: MetricDefinition[] = [
+  // Queue metrics
+  {
+    name: 'vllm:num_requests_running',
+    displayName: 'Running Requests',
+    description: 'Number of requests currently running on GPU',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  {
+    name: 'vllm:num_requests_waiting',
+    displayName: 'Waiting Requests',
+    description: 'Number of requests waiting to be processed',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  // Cache metrics
+  {
+    name: 'vllm:gpu_cache_usage_perc',
+    displayName: 'KV-Cache Usage',
+    description: 'GPU KV-cache usage percentage (1 = 100%)',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  {
+    name: 'vllm:gpu_prefix_cache_hit_rate',
+    displayName: 'Prefix Cache Hit Rate',
+    description: 'GPU prefix cache block hit rate',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  // Latency metrics (histograms - use _sum and _count for averages)
+  {
+    name: 'vllm:e2e_request_latency_seconds',
+    displayName: 'Avg Request Latency',
+    description: 'End-to-end request latency',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'vllm:time_to_first_token_seconds',
+    displayName: 'Avg Time to First Token',
+    description: 'Time to first token (TTFT)',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'vllm:time_per_output_token_seconds',
+    displayName: 'Avg Time per Token',
+    description: 'Time per output token',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  // Throughput metrics (counters - calculate rate)
+  {
+    name: 'vllm:prompt_tokens_total',
+    displayName: 'Prompt Tokens',
+    description: 'Number of prefill tokens processed',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'vllm:generation_tokens_total',
+    displayName: 'Generation Tokens',
+    description: 'Number of generation tokens processed',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'vllm:request_success_total',
+    displayName: 'Completed Requests',
+    description: 'Count of successfully processed requests',
+    unit: 'requests',
+    type: 'counter',
+    category: 'throughput',
+  },
+];
+
+/**
+ * SGLang metrics, exposed when the server runs with --enable-metrics
+ */
+const sglangMetrics: MetricDefinition[] = [
+  // Queue metrics
+  {
+    name: 'sglang:num_running_reqs',
+    displayName: 'Running Requests',
+    description: 'Number of requests currently running',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  {
+    name: 'sglang:num_queue_reqs',
+    displayName: 'Waiting Requests',
+    description: 'Number of requests waiting in the queue',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  // Cache metrics
+  {
+    name: 'sglang:token_usage',
+    displayName: 'KV-Cache Usage',
+    description: 'Fraction of KV-cache tokens in use (1 = 100%)',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  {
+    name: 'sglang:cache_hit_rate',
+    displayName: 'Prefix Cache Hit Rate',
+    description: 'Radix cache prefix hit rate',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  // Latency metrics
+  {
+    name: 'sglang:e2e_request_latency_seconds',
+    displayName: 'Avg Request Latency',
+    description: 'End-to-end request latency',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'sglang:time_to_first_token_seconds',
+    displayName: 'Avg Time to First Token',
+    description: 'Time to first token (TTFT)',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'sglang:inter_token_latency_seconds',
+    displayName: 'Avg Time per Token',
+    description: 'Latency between consecutive output tokens',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  // Throughput metrics
+  {
+    name: 'sglang:prompt_tokens_total',
+    displayName: 'Prompt Tokens',
+    description: 'Number of prefill tokens processed',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'sglang:generation_tokens_total',
+    displayName: 'Generation Tokens',
+    description: 'Number of generation tokens processed',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'sglang:num_requests_total',
+    displayName: 'Completed Requests',
+    description: 'Count of processed requests',
+    unit: 'requests',
+    type: 'counter',
+    category: 'throughput',
+  },
+];
+
+/**
+ * TensorRT-LLM metrics, exposed by trtllm-serve at /prometheus/metrics
+ */
+const trtllmMetrics: MetricDefinition[] = [
+  // Queue metrics
+  {
+    name: 'trtllm_request_queue_time_seconds',
+    displayName: 'Avg Queue Time',
+    description: 'Time requests spend waiting before being scheduled',
+    unit: 's',
+    type: 'histogram',
+    category: 'queue',
+  },
+  // Cache metrics
+  {
+    name: 'trtllm_kv_cache_utilization',
+    displayName: 'KV-Cache Usage',
+    description: 'Fraction of KV-cache blocks in use (1 = 100%)',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  {
+    name: 'trtllm_kv_cache_hit_rate',
+    displayName: 'Prefix Cache Hit Rate',
+    description: 'KV-cache block reuse rate',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  // Latency metrics
+  {
+    name: 'trtllm_e2e_request_latency_seconds',
+    displayName: 'Avg Request Latency',
+    description: 'End-to-end request latency',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'trtllm_time_to_first_token_seconds',
+    displayName: 'Avg Time to First Token',
+    description: 'Time to first token (TTFT)',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'trtllm_time_per_output_token_seconds',
+    displayName: 'Avg Time per Token',
+    description: 'Time per output token',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  // Throughput metrics
+  {
+    name: 'trtllm_request_success_total',
+    displayName: 'Completed Requests',
+    description: 'Count of successfully processed requests',
+    unit: 'requests',
+    type: 'counter',
+    category: 'throughput',
+  },
+];
+
+/**
+ * Dynamo frontend metrics. Dynamo deployments are observed through the
+ * frontend that routes to the workers, which serves the same metrics whatever
+ * engine the workers run. Token counts come from the sums of the sequence
+ * length histograms, which grow like counters.
+ */
+export const dynamoFrontendMetrics: MetricDefinition[] = [
+  // Queue metrics
+  {
+    name: 'dynamo_frontend_inflight_requests',
+    displayName: 'Running Requests',
+    description: 'Number of requests the frontend is serving',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  {
+    name: 'dynamo_frontend_queued_requests',
+    displayName: 'Waiting Requests',
+    description: 'Number of requests waiting for a worker',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  // Latency metrics
+  {
+    name: 'dynamo_frontend_request_duration_seconds',
+    displayName: 'Avg Request Latency',
+    description: 'End-to-end request latency',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'dynamo_frontend_time_to_first_token_seconds',
+    displayName: 'Avg Time to First Token',
+    description: 'Time to first token (TTFT)',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  {
+    name: 'dynamo_frontend_inter_token_latency_seconds',
+    displayName: 'Avg Time per Token',
+    description: 'Latency between consecutive output tokens',
+    unit: 's',
+    type: 'histogram',
+    category: 'latency',
+  },
+  // Throughput metrics
+  {
+    name: 'dynamo_frontend_input_sequence_tokens_sum',
+    displayName: 'Prompt Tokens',
+    description: 'Number of prompt tokens received',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'dynamo_frontend_output_sequence_tokens_sum',
+    displayName: 'Generation Tokens',
+    description: 'Number of tokens generated',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'dynamo_frontend_requests_total',
+    displayName: 'Completed Requests',
+    description: 'Count of requests the frontend answered',
+    unit: 'requests',
+    type: 'counter',
+    category: 'throughput',
+  },
+];
+
+/**
+ * llama.cpp server metrics, exposed with --metrics
+ */
+const llamacppMetrics: MetricDefinition[] = [
+  {
+    name: 'llamacpp_requests_processing',
+    displayName: 'Running Requests',
+    description: 'Number of requests currently being processed',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  {
+    name: 'llamacpp_requests_pending',
+    displayName: 'Waiting Requests',
+    description: 'Number of requests waiting to be processed',
+    unit: 'requests',
+    type: 'gauge',
+    category: 'queue',
+  },
+  {
+    name: 'llamacpp_kv_cache_usage_ratio',
+    displayName: 'KV-Cache Usage',
+    description: 'KV-cache usage ratio (1 = 100%)',
+    unit: '%',
+    type: 'gauge',
+    category: 'cache',
+  },
+  {
+    name: 'llamacpp_prompt_tokens_processed_total',
+    displayName: 'Prompt Tokens',
+    description: 'Number of prompt tokens processed',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+  {
+    name: 'llamacpp_tokens_predicted_total',
+    displayName: 'Generation Tokens',
+    description: 'Number of tokens generated',
+    unit: 'tokens',
+    type: 'counter',
+    category: 'throughput',
+  },
+];
+
+/**
+ * Key metrics of each inference engine's own server. Equivalent metrics share
+ * a display name, unit and category, so deployments show the same cards
+ * whatever engine serves them. Providers that put their own server in front
+ * of the engine, like Dynamo's frontend, define their metrics separately.
+ */
+export const engineKeyMetrics: Record<Engine, MetricDefinition[]> = {
+  vllm: vllmMetrics,
+  sglang: sglangMetrics,
+  trtllm: trtllmMetrics,
+  llamacpp: llamacppMetrics,
+};
+
+/**
+ * Key metrics for a deployment served by `engine`. Without an engine, or with
+ * one the provider does not support, the metrics of every supported engine
+ * are returned.
+ */
+export function keyMetricsForEngine(engines: Engine[], engine?: Engine): MetricDefinition[] {
+  const selected = engine && engines.includes(engine) ? [engine] : engines;
+  return selected.flatMap((e) => engineKeyMetrics[e]);
+}
@@ -0,0 +1,572 @@
+import type { DeploymentConfig, DeploymentStatus, DeploymentPhase, Engine, MetricDefinition, MetricsEndpointConfig, Toleration, ProviderCapabilities } from '@kubefoundry/shared';
+import { ConfigParseError, type Provider, type CRDConfig, type HelmRepo, type HelmChart, type InstallationStatus, type InstallationStep, type UninstallResources } from '../types';
+import { nativeCapabilities, nativeDeploymentConfigSchema, type NativeDeploymentConfig } from './schema';
+import { keyMetricsForEngine } from '../metrics';
+import { createMergePatch } from '../../lib/merge-patch';
+import { buildPodScheduling, parsePodScheduling } from '../../lib/scheduling';
+import { modelCacheEnv, modelCacheVolume, modelCacheVolumeMount, parseModelCache } from '../../lib/model-cache';
+import { adapterVolumeMounts, adapterVolumes, buildLoraArgs, extractLoraModules, parseLoraAdapters } from '../../lib/lora';
+import logger from '../../lib/logger';
+
+// OpenAI-compatible server images, overridable per cluster (e.g. for a mirror)
+const VLLM_IMAGE = process.env.NATIVE_VLLM_IMAGE || 'vllm/vllm-openai:v0.10.1.1';
+const SGLANG_IMAGE = process.env.NATIVE_SGLANG_IMAGE || 'lmsysorg/sglang:v0.5.1.post3-cu126';
+
+// Port the server listens on, also used by the Service
+const SERVER_PORT = 8000;
+
+// Name of the server container in the pod template
+const CONTAINER_NAME = 'server';
+
+// Lets GPU pods land on nodes tainted by the NVIDIA GPU operator
+const GPU_TOLERATION: Toleration = {
+  key: 'nvidia.com/gpu',
+  operator: 'Exists',
+  effect: 'NoSchedule',
+};
+
+type NativeEngine = 'vllm' | 'sglang';
+
+/**
+ * How each engine's server is started and spells the options KubeFoundry sets
+ */
+const ENGINE_SERVERS: Record<NativeEngine, {
+  module: string;
+  image: string;
+  modelFlag: string;
+  tensorParallelFlag: string;
+  contextLengthFlag: string;
+  /** Flag turning CUDA graphs off (enforceEager) */
+  eagerFlag: string;
+  /** Flag set when enablePrefixCaching is true for vLLM, or false for SGLang */
+  prefixCachingFlag: string;
+  /** Flags the server needs on every deployment */
+  fixedFlags: string[];
+}> = {
+  vllm: {
+    module: 'vllm.entrypoints.openai.api_server',
+    image: VLLM_IMAGE,
+    modelFlag: '--model',
+    tensorParallelFlag: '--tensor-parallel-size',
+    contextLengthFlag: '--max-model-len',
+    eagerFlag: '--enforce-eager',
+    prefixCachingFlag: '--enable-prefix-caching',
+    fixedFlags: [],
+  },
+  sglang: {
+    module: 'sglang.launch_server',
+    image: SGLANG_IMAGE,
+    modelFlag: '--model-path',
+    tensorParallelFlag: '--tp',
+    contextLengthFlag: '--context-length',
+    eagerFlag: '--disable-cuda-graph',
+    // SGLang's radix cache reuses prefixes unless it is turned off
+    prefixCachingFlag: '--disable-radix-cache',
+    // SGLang only serves /metrics when asked to
+    fixedFlags: ['--enable-metrics'],
+  },
+};
+
+/**
+ * Raw Deployment fields read when parsing status and config
+ */
+interface DeploymentObject {
+  metadata?: {
+    name?: string;
+    namespace?: string;
+    generation?: number;
+    creationTimestamp?: string;
+    deletionTimestamp?: string;
+  };
+  spec?: {
+    replicas?: number;
+    template?: {
+      spec?: Record<string, unknown> & {
+        containers?: Array<{
+          name?: string;
+          image?: string;
+          command?: string[];
+          args?: string[];
+          env?: Array<{ name?: string; valueFrom?: { secretKeyRef?: { name?: string } } }>;
+          resources?: { limits?: Record<string, string> };
+          volumeMounts?: unknown[];
+        }>;
+      };
+    };
+  };
+  status?: {
+    observedGeneration?: number;
+    replicas?: number;
+    updatedReplicas?: number;
+    readyReplicas?: number;
+    availableReplicas?: number;
+    conditions?: Array<{
+      type?: string;
+      status?: string;
+      reason?: string;
+      message?: string;
+      lastTransitionTime?: string;
+    }>;
+  };
+}
+
+/**
+ * Native Provider
+ * Implements the Provider interface with a plain apps/v1 Deployment and Service
+ * running the engine's own OpenAI-compatible server, for clusters without an operator
+ */
+export class NativeProvider implements Provider {
+  id = 'native';
+  name = 'Native Kubernetes';
+  description = 'A plain Deployment and Service running the vLLM or SGLang OpenAI server. Needs no operator, so it works on any cluster with GPU nodes.';
+  defaultNamespace = 'kubefoundry-inference';
+
+  // Built-in resource constants
+  private static readonly API_GROUP = 'apps';
+  private static readonly API_VERSION = 'v1';
+  private static readonly RESOURCE_PLURAL = 'deployments';
+  private static readonly RESOURCE_KIND = 'Deployment';
+
+  getCRDConfig(): CRDConfig {
+    return {
+      apiGroup: NativeProvider.API_GROUP,
+      apiVersion: NativeProvider.API_VERSION,
+      plural: NativeProvider.RESOURCE_PLURAL,
+      kind: NativeProvider.RESOURCE_KIND,
+      // Deployments are shared with every other workload in the namespace
+      labelSelector: `kubefoundry.io/provider=${this.id}`,
+    };
+  }
+
+  getCapabilities(): ProviderCapabilities {
+    return nativeCapabilities;
+  }
+
+  /**
+   * Labels selecting a deployment's pods, for both the Deployment and its Service
+   */
+  private podSelector(name: string): Record<string, string> {
+    return {
+      'app.kubernetes.io/instance': name,
+      'kubefoundry.io/provider': this.id,
+    };
+  }
+
+  generateManifest(config: DeploymentConfig): Record<string, unknown> {
+    const nativeConfig = config as unknown as NativeDeploymentConfig;
+    const server = ENGINE_SERVERS[nativeConfig.engine as NativeEngine] || ENGINE_SERVERS.vllm;
+    const gpuCount = nativeConfig.resources?.gpu || 1;
+
+    logger.debug({ name: config.name, engine: nativeConfig.engine, gpuCount }, 'Generating native Deployment manifest');
+
+    const limits: Record<string, string> = {
+      'nvidia.com/gpu': String(gpuCount),
+      ...(nativeConfig.cpu && { cpu: nativeConfig.cpu }),
+      ...(nativeConfig.resources?.memory && { memory: nativeConfig.resources.memory }),
+    };
+
+    const env: Record<string, unknown>[] = [
+      {
+        name: 'HF_TOKEN',
+        valueFrom: { secretKeyRef: { name: nativeConfig.hfTokenSecret, key: 'HF_TOKEN' } },
+      },
+    ];
+    if (nativeConfig.modelCache) {
+      env.push(modelCacheEnv());
+    }
+
+    const healthCheck = { httpGet: { path: '/health', port: 'http' } };
+
+    const container: Record<string, unknown> = {
+      name: CONTAINER_NAME,
+      image: nativeConfig.image || server.image,
+      command: ['python3', '-m', server.module],
+      args: this.buildArgs(nativeConfig, gpuCount),
+      ports: [{ name: 'http', containerPort: SERVER_PORT, protocol: 'TCP' }],
+      env,
+      resources: { limits, requests: limits },
+      // Downloading and loading weights can take a long time on first start
+      startupProbe: { ...healthCheck, periodSeconds: 10, failureThreshold: 180 },
+      readinessProbe: { ...healthCheck, periodSeconds: 10, failureThreshold: 3 },
+      livenessProbe: { ...healthCheck, periodSeconds: 30, failureThreshold: 3 },
+      volumeMounts: [
+        { name: 'dshm', mountPath: '/dev/shm' },
+        ...(nativeConfig.modelCache ? [modelCacheVolumeMount()] : []),
+        ...adapterVolumeMounts(nativeConfig.adapters),
+      ],
+    };
+
+    return {
+      apiVersion: `${NativeProvider.API_GROUP}/${NativeProvider.API_VERSION}`,
+      kind: NativeProvider.RESOURCE_KIND,
+      metadata: {
+        name: config.name,
+        namespace: config.namespace,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
+        },
+      },
+      spec: {
+        replicas: nativeConfig.replicas || 1,
+        selector: { matchLabels: this.podSelector(config.name) },
+        template: {
+          metadata: {
+            labels: {
+              'app.kubernetes.io/name': 'kubefoundry',
+              ...this.podSelector(config.name),
+            },
+          },
+          spec: {
+            containers: [container],
+            volumes: [
+              // Tensor parallel workers share memory through /dev/shm
+              { name: 'dshm', emptyDir: { medium: 'Memory' } },
+              ...(nativeConfig.modelCache ? [modelCacheVolume(nativeConfig.modelCache)] : []),
+              ...adapterVolumes(nativeConfig.adapters),
+            ],
+            ...buildPodScheduling(nativeConfig, [GPU_TOLERATION]),
+          },
+        },
+      },
+    };
+  }
+
+  generateOwnedResources(config: DeploymentConfig): Record<string, unknown>[] {
+    return [this.generateService(config)];
+  }
+
+  /**
+   * Service exposing a deployment's server on port 8000. Unlike the operator-backed
+   * providers, nothing else creates one.
+   */
+  generateService(config: DeploymentConfig): Record<string, unknown> {
+    return {
+      apiVersion: 'v1',
+      kind: 'Service',
+      metadata: {
+        name: config.name,
+        namespace: config.namespace,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/provider': this.id,
+        },
+      },
+      spec: {
+        type: 'ClusterIP',
+        ports: [{ name: 'http', port: SERVER_PORT, targetPort: 'http', protocol: 'TCP' }],
+        selector: this.podSelector(config.name),
+      },
+    };
+  }
+
+  /**
+   * Server command line. Each option and its value are separate arguments.
+   */
+  private buildArgs(config: NativeDeploymentConfig, gpuCount: number): string[] {
+    const server = ENGINE_SERVERS[config.engine as NativeEngine] || ENGINE_SERVERS.vllm;
+    const args = [
+      server.modelFlag, config.modelId,
+      '--served-model-name', config.servedModelName || config.modelId,
+      '--host', '0.0.0.0',
+      '--port', String(SERVER_PORT),
+      ...server.fixedFlags,
+    ];
+
+    if (gpuCount > 1) {
+      args.push(server.tensorParallelFlag, String(gpuCount));
+    }
+    if (config.contextLength) {
+      args.push(server.contextLengthFlag, String(config.contextLength));
+    }
+    if (config.enforceEager) {
+      args.push(server.eagerFlag);
+    }
+    if (config.engine === 'sglang' ? !config.enablePrefixCaching : config.enablePrefixCaching) {
+      args.push(server.prefixCachingFlag);
+    }
+    if (config.trustRemoteCode) {
+      args.push('--trust-remote-code');
+    }
+
+    for (const [key, value] of Object.entries(config.engineArgs || {})) {
+      if (value === true) {
+        args.push(`--${key}`);
+      } else if (value !== false) {
+        args.push(`--${key}`, String(value));
+      }
+    }
+
+    args.push(...buildLoraArgs(config.adapters));
+    return args;
+  }
+
+  /**
+   * Split a server command line into the options KubeFoundry sets itself and
+   * any remaining engine arguments. Options without a value are booleans.
+   */
+  private parseArgs(engine: NativeEngine, args: string[]): {
+    flags: Record<string, string | true>;
+    engineArgs: Record<string, unknown>;
+    loraModules: string[];
+  } {
+    const server = ENGINE_SERVERS[engine];
+    const ownFlags = new Set([
+      server.modelFlag,
+      '--served-model-name',
+      '--host',
+      '--port',
+      server.tensorParallelFlag,
+      server.contextLengthFlag,
+      server.eagerFlag,
+      server.prefixCachingFlag,
+      '--trust-remote-code',
+      ...server.fixedFlags,
+    ].map((flag) => flag.slice(2)));
+    const flags: Record<string, string | true> = {};
+    const engineArgs: Record<string, unknown> = {};
+
+    // LoRA flags belong to the adapters when there are any
+    const loraModules = extractLoraModules(args);
+    if (loraModules.length > 0) {
+      ['enable-lora', 'max-loras', 'lora-modules'].forEach((flag) => ownFlags.add(flag));
+    }
+
+    for (let i = 0; i < args.length; i++) {
+      if (!args[i].startsWith('--')) {
+        continue;
+      }
+      const key = args[i].slice(2);
+      if (key === 'lora-modules') {
+        i += loraModules.length;
+        continue;
+      }
+      const next = args[i + 1];
+      const value = next !== undefined && !next.startsWith('--') ? next : undefined;
+      if (value !== undefined) {
+        i++;
+      }
+
+      if (ownFlags.has(key)) {
+        flags[key] = value ?? true;
+      } else if (value === undefined) {
+        engineArgs[key] = true;
+      } else {
+        engineArgs[key] = value !== '' && !isNaN(Number(value)) ? Number(value) : value;
+      }
+    }
+
+    return { flags, engineArgs, loraModules };
+  }
+
+  /**
+   * Engine a server container runs, from the module its command starts
+   */
+  private detectEngine(command: string[] = []): NativeEngine {
+    const module = command[command.indexOf('-m') + 1];
+    return module === ENGINE_SERVERS.sglang.module ? 'sglang' : 'vllm';
+  }
+
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown> {
+    return createMergePatch(this.generateManifest(previous), this.generateManifest(config));
+  }
+
+  parseStatus(raw: unknown): DeploymentStatus {
+    const obj = raw as DeploymentObject;
+    const metadata = obj.metadata || {};
+    const status = obj.status || {};
+    const container = obj.spec?.template?.spec?.containers?.find((c) => c.name === CONTAINER_NAME);
+
+    const engine = this.detectEngine(container?.command);
+    const { flags } = this.parseArgs(engine, container?.args || []);
+    const modelFlag = ENGINE_SERVERS[engine].modelFlag.slice(2);
+    const modelId = typeof flags[modelFlag] === 'string' ? flags[modelFlag] as string : '';
+    const servedModelName = typeof flags['served-model-name'] === 'string' ? flags['served-model-name'] as string : modelId;
+
+    const desiredReplicas = obj.spec?.replicas ?? 1;
+
+    return {
+      name: metadata.name || 'unknown',
+      namespace: metadata.namespace || 'default',
+      modelId,
+      servedModelName: servedModelName || metadata.name || 'unknown',
+      engine,
+      mode: 'aggregated',
+      phase: this.mapPhase(obj, desiredReplicas),
+      provider: this.id,
+      replicas: {
+        desired: desiredReplicas,
+        ready: status.readyReplicas || 0,
+        available: status.availableReplicas || 0,
+      },
+      conditions: (status.conditions || []).map((c) => ({
+        type: c.type || '',
+        status: (c.status as 'True' | 'False' | 'Unknown') || 'Unknown',
+        reason: c.reason,
+        message: c.message,
+        lastTransitionTime: c.lastTransitionTime,
+      })),
+      pods: [],
+      createdAt: metadata.creationTimestamp || new Date().toISOString(),
+      frontendService: `${metadata.name}:${SERVER_PORT}`,
+    };
+  }
+
+  /**
+   * Map Deployment status, which aggregates its ReplicaSets, to our DeploymentPhase
+   */
+  private mapPhase(obj: DeploymentObject, desiredReplicas: number): DeploymentPhase {
+    if (obj.metadata?.deletionTimestamp) {
+      return 'Terminating';
+    }
+
+    const status = obj.status || {};
+    const conditions = status.conditions || [];
+    const progressing = conditions.find((c) => c.type === 'Progressing');
+    const replicaFailure = conditions.find((c) => c.type === 'ReplicaFailure');
+
+    // ReplicaFailure is raised when a ReplicaSet cannot create pods (quota, admission)
+    if (progressing?.reason === 'ProgressDeadlineExceeded' || replicaFailure?.status === 'True') {
+      return 'Failed';
+    }
+
+    const rolledOut = (status.observedGeneration ?? 0) >= (obj.metadata?.generation ?? 0)
+      && (status.updatedReplicas || 0) >= desiredReplicas;
+    if (rolledOut && (status.availableReplicas || 0) >= desiredReplicas) {
+      return 'Running';
+    }
+
+    // The controller fills in status once it has created a ReplicaSet
+    return status.replicas !== undefined || conditions.length > 0 ? 'Deploying' : 'Pending';
+  }
+
+  parseConfig(raw: unknown): DeploymentConfig {
+    const obj = raw as DeploymentObject;
+    const podSpec = obj.spec?.template?.spec;
+    const container = podSpec?.containers?.find((c) => c.name === CONTAINER_NAME);
+
+    if (!container?.args) {
+      throw new Error(`Deployment '${obj.metadata?.name}' has no ${CONTAINER_NAME} container arguments`);
+    }
+
+    const engine = this.detectEngine(container.command);
+    const server = ENGINE_SERVERS[engine];
+    const { flags, engineArgs, loraModules } = this.parseArgs(engine, container.args);
+    const flag = (name: string) => flags[name.slice(2)];
+    const limits = container.resources?.limits || {};
+    const hfToken = container.env?.find((e) => e.name === 'HF_TOKEN');
+    const modelId = flag(server.modelFlag);
+    const contextLength = flag(server.contextLengthFlag);
+
+    const config: Record<string, unknown> = {
+      name: obj.metadata?.name,
+      namespace: obj.metadata?.namespace,
+      provider: 'native',
+      modelId,
+      engine,
+      mode: 'aggregated',
+      servedModelName: flags['served-model-name'] !== modelId ? flags['served-model-name'] : undefined,
+      replicas: obj.spec?.replicas ?? 1,
+      hfTokenSecret: hfToken?.valueFrom?.secretKeyRef?.name,
+      contextLength: typeof contextLength === 'string' ? Number(contextLength) : undefined,
+      enforceEager: flag(server.eagerFlag) === true,
+      enablePrefixCaching: engine === 'sglang' ? !flag(server.prefixCachingFlag) : flag(server.prefixCachingFlag) === true,
+      trustRemoteCode: flags['trust-remote-code'] === true,
+      ...(Object.keys(engineArgs).length > 0 && { engineArgs }),
+      resources: {
+        gpu: Number(limits['nvidia.com/gpu'] || 1),
+        ...(limits.memory && { memory: limits.memory }),
+      },
+      image: container.image !== server.image ? container.image : undefined,
+      cpu: limits.cpu,
+      ...parsePodScheduling(podSpec, [GPU_TOLERATION]),
+      modelCache: parseModelCache(podSpec),
+      adapters: parseLoraAdapters(loraModules, podSpec?.volumes, container.volumeMounts),
+    };
+
+    const result = nativeDeploymentConfigSchema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigParseError(obj.metadata?.name, result.error);
+    }
+    return result.data as unknown as DeploymentConfig;
+  }
+
+  validateConfig(config: unknown): { valid: boolean; errors: string[]; data?: DeploymentConfig } {
+    const result = nativeDeploymentConfigSchema.safeParse(config);
+
+    if (!result.success) {
+      const errors = result.error.errors.map(e => `${e.path.join('.')}: ${e.message}`);
+      logger.warn({ errors }, 'Native config validation failed');
+      return {
+        valid: false,
+        errors,
+      };
+    }
+
+    logger.debug({ name: result.data.name }, 'Native config validated successfully');
+    return {
+      valid: true,
+      errors: [],
+      data: result.data as unknown as DeploymentConfig,
+    };
+  }
+
+  getConfigSchema() {
+    return nativeDeploymentConfigSchema;
+  }
+
+  getInstallationSteps(): InstallationStep[] {
+    return [
+      {
+        title: 'No installation required',
+        description: 'Native deployments use the built-in Deployment and Service resources. GPU nodes need the NVIDIA device plugin to advertise nvidia.com/gpu.',
+      },
+    ];
+  }
+
+  getHelmRepos(): HelmRepo[] {
+    return [];
+  }
+
+  getHelmCharts(): HelmChart[] {
+    return [];
+  }
+
+  async checkInstallation(): Promise<InstallationStatus> {
+    // Deployments and Services are part of every cluster
+    return {
+      installed: true,
+      message: 'Native deployments need no operator',
+    };
+  }
+
+  getMetricsConfig(): MetricsEndpointConfig | null {
+    return {
+      endpointPath: '/metrics',
+      port: SERVER_PORT,
+      // Both servers expose Prometheus metrics on their HTTP port
+      serviceNamePattern: '{name}',
+      // Pods of the {name} Deployment
+      podNamePattern: '{name}-[a-z0-9]+-[a-z0-9]{5}',
+    };
+  }
+
+  getKeyMetrics(engine?: Engine): MetricDefinition[] {
+    return keyMetricsForEngine(nativeCapabilities.engines, engine);
+  }
+
+  getUninstallResources(): UninstallResources {
+    // Nothing is installed, so there is nothing to remove
+    return {
+      crds: [],
+      namespaces: [],
+    };
+  }
+}
+
+// Export singleton instance
+export const nativeProvider = new NativeProvider();
@@ -0,0 +1,413 @@
+import { describe, test, expect } from 'bun:test';
+import type * as k8s from '@kubernetes/client-node';
+import { NativeProvider } from './index';
+import { ConfigParseError } from '../types';
+import { buildManifest } from '../conformance';
+
+const provider = new NativeProvider();
+
+const baseConfig = {
+  name: 'qwen',
+  namespace: 'kubefoundry-inference',
+  provider: 'native',
+  modelId: 'Qwen/Qwen3-0.6B',
+  engine: 'vllm',
+  hfTokenSecret: 'hf-token-secret',
+  resources: { gpu: 1 },
+};
+
+/**
+ * The Deployment fields these tests read
+ */
+interface ServerDeployment {
+  apiVersion: string;
+  kind: string;
+  metadata: { name: string };
+  spec: {
+    replicas: number;
+    selector: { matchLabels: Record<string, string> };
+    template: {
+      metadata: { labels: Record<string, string> };
+      spec: {
+        containers: Array<{
+          image: string;
+          command: string[];
+          args: string[];
+          env: k8s.V1EnvVar[];
+          resources: { limits: Record<string, string>; requests: Record<string, string> };
+          startupProbe: k8s.V1Probe;
+          readinessProbe: k8s.V1Probe;
+          livenessProbe: k8s.V1Probe;
+        }>;
+        volumes: k8s.V1Volume[];
+        tolerations: k8s.V1Toleration[];
+      };
+    };
+  };
+}
+
+const build = (overrides: Record<string, unknown> = {}) =>
+  buildManifest<ServerDeployment>(provider, { ...baseConfig, ...overrides });
+
+const serverContainer = (manifest: ServerDeployment) => manifest.spec.template.spec.containers[0];
+
+describe('NativeProvider', () => {
+  describe('provider info', () => {
+    test('has correct id and name', () => {
+      expect(provider.id).toBe('native');
+      expect(provider.name).toBe('Native Kubernetes');
+    });
+
+    test('has default namespace', () => {
+      expect(provider.defaultNamespace).toBe('kubefoundry-inference');
+    });
+  });
+
+  describe('getCRDConfig', () => {
+    test('targets apps/v1 Deployments labelled with the provider', () => {
+      const config = provider.getCRDConfig();
+      expect(config.apiGroup).toBe('apps');
+      expect(config.apiVersion).toBe('v1');
+      expect(config.plural).toBe('deployments');
+      expect(config.kind).toBe('Deployment');
+      expect(config.labelSelector).toBe('kubefoundry.io/provider=native');
+    });
+  });
+
+  describe('generateManifest', () => {
+    test('generates a Deployment running the vLLM OpenAI server', () => {
+      const manifest = build();
+      const container = serverContainer(manifest);
+
+      expect(manifest.apiVersion).toBe('apps/v1');
+      expect(manifest.kind).toBe('Deployment');
+      expect(manifest.metadata.name).toBe('qwen');
+      expect(manifest.spec.replicas).toBe(1);
+      expect(container.image).toStartWith('vllm/vllm-openai:');
+      expect(container.command).toEqual(['python3', '-m', 'vllm.entrypoints.openai.api_server']);
+      expect(container.args.slice(0, 8)).toEqual([
+        '--model', 'Qwen/Qwen3-0.6B',
+        '--served-model-name', 'Qwen/Qwen3-0.6B',
+        '--host', '0.0.0.0',
+        '--port', '8000',
+      ]);
+    });
+
+    test('selects pods by instance and provider', () => {
+      const manifest = build();
+      const selector = { 'app.kubernetes.io/instance': 'qwen', 'kubefoundry.io/provider': 'native' };
+      expect(manifest.spec.selector.matchLabels).toEqual(selector);
+      expect(manifest.spec.template.metadata.labels).toMatchObject(selector);
+    });
+
+    test('runs the SGLang server with its own flag names', () => {
+      const { args, command, image } = serverContainer(build({
+        engine: 'sglang',
+        resources: { gpu: 2 },
+        contextLength: 8192,
+        enforceEager: true,
+        enablePrefixCaching: false,
+      }));
+
+      expect(image).toStartWith('lmsysorg/sglang:');
+      expect(command).toEqual(['python3', '-m', 'sglang.launch_server']);
+      expect(args).toContain('--model-path');
+      expect(args).toContain('--enable-metrics');
+      expect(args.join(' ')).toContain('--tp 2');
+      expect(args.join(' ')).toContain('--context-length 8192');
+      expect(args).toContain('--disable-cuda-graph');
+      expect(args).toContain('--disable-radix-cache');
+    });
+
+    test('maps engine options and engine args to vLLM flags', () => {
+      const { args } = serverContainer(build({
+        resources: { gpu: 4 },
+        contextLength: 8192,
+        enforceEager: true,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        engineArgs: { 'gpu-memory-utilization': 0.85, 'disable-log-requests': true },
+      }));
+      const line = args.join(' ');
+
+      expect(line).toContain('--tensor-parallel-size 4');
+      expect(line).toContain('--max-model-len 8192');
+      expect(args).toContain('--enforce-eager');
+      expect(args).toContain('--enable-prefix-caching');
+      expect(args).toContain('--trust-remote-code');
+      expect(line).toContain('--gpu-memory-utilization 0.85');
+      expect(args).toContain('--disable-log-requests');
+    });
+
+    test('sets GPU limits and requests', () => {
+      const { resources } = serverContainer(build({ resources: { gpu: 2, memory: '64Gi' }, cpu: '16' }));
+      expect(resources.limits).toEqual({ 'nvidia.com/gpu': '2', cpu: '16', memory: '64Gi' });
+      expect(resources.requests).toEqual(resources.limits);
+    });
+
+    test('reads the HuggingFace token from the secret', () => {
+      const { env } = serverContainer(build());
+      expect(env).toContainEqual({
+        name: 'HF_TOKEN',
+        valueFrom: { secretKeyRef: { name: 'hf-token-secret', key: 'HF_TOKEN' } },
+      });
+    });
+
+    test('probes the server health endpoint', () => {
+      const container = serverContainer(build());
+      for (const probe of [container.startupProbe, container.readinessProbe, container.livenessProbe]) {
+        expect(probe.httpGet).toEqual({ path: '/health', port: 'http' });
+      }
+    });
+
+    test('mounts shared memory and tolerates GPU node taints', () => {
+      const { spec } = build().spec.template;
+      expect(spec.volumes[0]).toEqual({ name: 'dshm', emptyDir: { medium: 'Memory' } });
+      expect(spec.tolerations).toContainEqual({ key: 'nvidia.com/gpu', operator: 'Exists', effect: 'NoSchedule' });
+    });
+
+    test('serves LoRA adapters through vLLM flags', () => {
+      const manifest = build({
+        adapters: [
+          { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' },
+          { name: 'chat', pvc: { claimName: 'adapters', path: 'chat' } },
+        ],
+      });
+      const { args } = serverContainer(manifest);
+      expect(args).toContain('--enable-lora');
+      expect(args).toContain('sql-lora=org/sql-lora');
+      expect(args).toContain('chat=/adapters/chat');
+      expect(manifest.spec.template.spec.volumes).toContainEqual({
+        name: 'lora-0',
+        persistentVolumeClaim: { claimName: 'adapters', readOnly: true },
+      });
+    });
+
+    test('uses a custom image when given', () => {
+      const { image } = serverContainer(build({ image: 'registry.example.com/vllm:custom' }));
+      expect(image).toBe('registry.example.com/vllm:custom');
+    });
+  });
+
+  describe('generateService', () => {
+    test('exposes the server port to the deployment pods', () => {
+      const config = provider.validateConfig(baseConfig).data!;
+      const service = provider.generateService(config) as any;
+
+      expect(service.kind).toBe('Service');
+      expect(service.metadata.name).toBe('qwen');
+      expect(service.spec.ports).toEqual([{ name: 'http', port: 8000, targetPort: 'http', protocol: 'TCP' }]);
+      expect(service.spec.selector).toEqual(build().spec.selector.matchLabels);
+    });
+
+    test('is the only resource created alongside the Deployment', () => {
+      const config = provider.validateConfig(baseConfig).data!;
+      expect(provider.generateOwnedResources(config)).toEqual([provider.generateService(config)]);
+    });
+  });
+
+  describe('generatePatch', () => {
+    test('patches replicas when scaling', () => {
+      const previous = provider.validateConfig(baseConfig).data!;
+      const next = provider.validateConfig({ ...baseConfig, replicas: 3 }).data!;
+      const patch = provider.generatePatch(next, previous) as any;
+      expect(patch).toEqual({ spec: { replicas: 3 } });
+    });
+  });
+
+  describe('parseConfig', () => {
+    const roundTrip = (input: Record<string, unknown>) => {
+      const validation = provider.validateConfig(input);
+      expect(validation.valid).toBe(true);
+      const config = validation.data!;
+      expect(provider.parseConfig(provider.generateManifest(config))).toEqual(config);
+    };
+
+    test('round-trips a minimal vLLM deployment', () => {
+      roundTrip(baseConfig);
+    });
+
+    test('round-trips a vLLM deployment with every option', () => {
+      roundTrip({
+        ...baseConfig,
+        servedModelName: 'qwen-small',
+        replicas: 2,
+        contextLength: 8192,
+        enforceEager: false,
+        enablePrefixCaching: true,
+        trustRemoteCode: true,
+        engineArgs: { 'gpu-memory-utilization': 0.85, 'disable-log-requests': true },
+        resources: { gpu: 2, memory: '64Gi' },
+        cpu: '16',
+        image: 'registry.example.com/vllm:custom',
+        nodeSelector: { 'nvidia.com/gpu.product': 'NVIDIA-A100-SXM4-80GB' },
+        tolerations: [{ key: 'dedicated', operator: 'Equal', value: 'inference', effect: 'NoSchedule' }],
+        modelCache: { claimName: 'hf-cache' },
+        adapters: [
+          { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' },
+          { name: 'chat', pvc: { claimName: 'adapters', path: 'chat' } },
+        ],
+      });
+    });
+
+    test('round-trips SGLang deployments with and without prefix caching', () => {
+      roundTrip({ ...baseConfig, engine: 'sglang', enablePrefixCaching: true, contextLength: 4096 });
+      roundTrip({ ...baseConfig, engine: 'sglang', enablePrefixCaching: false, resources: { gpu: 4 } });
+    });
+
+    test('throws when the Deployment has no server container', () => {
+      expect(() => provider.parseConfig({
+        metadata: { name: 'other' },
+        spec: { template: { spec: { containers: [{ name: 'app', args: [] }] } } },
+      })).toThrow('has no server container arguments');
+    });
+
+    test('throws ConfigParseError when the resource no longer makes up a valid config', () => {
+      const manifest = provider.generateManifest(provider.validateConfig(baseConfig).data!);
+      const edited = { ...manifest, metadata: { ...(manifest.metadata as object), name: 'Not_Valid' } };
+      expect(() => provider.parseConfig(edited)).toThrow(ConfigParseError);
+    });
+  });
+
+  describe('parseStatus', () => {
+    const manifest = () => ({
+      ...build({ replicas: 2 }),
+      metadata: { ...build().metadata, generation: 1, creationTimestamp: '2025-01-01T00:00:00Z' },
+    });
+
+    test('parses an available Deployment', () => {
+      const status = provider.parseStatus({
+        ...manifest(),
+        status: {
+          observedGeneration: 1,
+          replicas: 2,
+          updatedReplicas: 2,
+          readyReplicas: 2,
+          availableReplicas: 2,
+          conditions: [
+            { type: 'Available', status: 'True', reason: 'MinimumReplicasAvailable' },
+            { type: 'Progressing', status: 'True', reason: 'NewReplicaSetAvailable' },
+          ],
+        },
+      });
+
+      expect(status.name).toBe('qwen');
+      expect(status.namespace).toBe('kubefoundry-inference');
+      expect(status.modelId).toBe('Qwen/Qwen3-0.6B');
+      expect(status.servedModelName).toBe('Qwen/Qwen3-0.6B');
+      expect(status.engine).toBe('vllm');
+      expect(status.provider).toBe('native');
+      expect(status.phase).toBe('Running');
+      expect(status.replicas).toEqual({ desired: 2, ready: 2, available: 2 });
+      expect(status.conditions).toHaveLength(2);
+      expect(status.createdAt).toBe('2025-01-01T00:00:00Z');
+      expect(status.frontendService).toBe('qwen:8000');
+    });
+
+    test('parses a Deployment that is rolling out', () => {
+      const status = provider.parseStatus({
+        ...manifest(),
+        status: {
+          observedGeneration: 1,
+          replicas: 2,
+          updatedReplicas: 1,
+          readyReplicas: 1,
+          availableReplicas: 1,
+          conditions: [{ type: 'Progressing', status: 'True', reason: 'ReplicaSetUpdated' }],
+        },
+      });
+      expect(status.phase).toBe('Deploying');
+      expect(status.replicas.ready).toBe(1);
+    });
+
+    test('parses a pending Deployment without status', () => {
+      expect(provider.parseStatus(manifest()).phase).toBe('Pending');
+    });
+
+    test('parses a stalled rollout and a ReplicaSet failure as failed', () => {
+      for (const condition of [
+        { type: 'Progressing', status: 'False', reason: 'ProgressDeadlineExceeded' },
+        { type: 'ReplicaFailure', status: 'True', reason: 'FailedCreate' },
+      ]) {
+        const status = provider.parseStatus({ ...manifest(), status: { replicas: 0, conditions: [condition] } });
+        expect(status.phase).toBe('Failed');
+      }
+    });
+
+    test('parses a Deployment being deleted', () => {
+      const status = provider.parseStatus({
+        ...manifest(),
+        metadata: { ...manifest().metadata, deletionTimestamp: '2025-01-02T00:00:00Z' },
+      });
+      expect(status.phase).toBe('Terminating');
+    });
+
+    test('reads the SGLang model path', () => {
+      const status = provider.parseStatus(build({ engine: 'sglang', servedModelName: 'qwen-small' }));
+      expect(status.engine).toBe('sglang');
+      expect(status.modelId).toBe('Qwen/Qwen3-0.6B');
+      expect(status.servedModelName).toBe('qwen-small');
+    });
+  });
+
+  describe('validateConfig', () => {
+    test('validates a minimal configuration', () => {
+      const result = provider.validateConfig(baseConfig);
+      expect(result.valid).toBe(true);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    test('rejects disaggregated mode', () => {
+      const result = provider.validateConfig({ ...baseConfig, mode: 'disaggregated' });
+      expect(result.valid).toBe(false);
+    });
+
+    test('rejects the trtllm engine', () => {
+      const result = provider.validateConfig({ ...baseConfig, engine: 'trtllm' });
+      expect(result.valid).toBe(false);
+    });
+  });
+
+  describe('installation', () => {
+    test('always reports installed', async () => {
+      const status = await provider.checkInstallation();
+      expect(status.installed).toBe(true);
+    });
+
+    test('has no Helm repos, charts or uninstall resources', () => {
+      expect(provider.getHelmRepos()).toEqual([]);
+      expect(provider.getHelmCharts()).toEqual([]);
+      expect(provider.getUninstallResources()).toEqual({ crds: [], namespaces: [] });
+    });
+  });
+
+  describe('metrics', () => {
+    test('scrapes the deployment service', () => {
+      const config = provider.getMetricsConfig();
+      expect(config?.endpointPath).toBe('/metrics');
+      expect(config?.port).toBe(8000);
+      expect(config?.serviceNamePattern).toBe('{name}');
+    });
+
+    test('returns vLLM and SGLang key metrics', () => {
+      const names = provider.getKeyMetrics().map((m) => m.name);
+      expect(names).toContain('vllm:num_requests_running');
+      expect(names).toContain('sglang:num_running_reqs');
+    });
+  });
+});
+
+describe('provider registry integration', () => {
+  test('native provider is registered', async () => {
+    const { providerRegistry } = await import('../index');
+    const nativeProvider = providerRegistry.getProvider('native');
+    expect(nativeProvider).toBeDefined();
+    expect(nativeProvider?.id).toBe('native');
+  });
+
+  test('native appears in available providers list', async () => {
+    const { providerRegistry } = await import('../index');
+    const providers = providerRegistry.listProviders();
+    expect(providers.find((p: { id: string }) => p.id === 'native')).toBeDefined();
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'bun:test';
+import { nativeDeploymentConfigSchema, nativeManifestSchema } from './schema';
+import { NativeProvider } from './index';
+
+describe('nativeDeploymentConfigSchema', () => {
+  const validConfig = {
+    name: 'my-deployment',
+    namespace: 'kubefoundry-inference',
+    modelId: 'Qwen/Qwen3-0.6B',
+    engine: 'vllm' as const,
+    hfTokenSecret: 'hf-token-secret',
+  };
+
+  describe('valid configurations', () => {
+    it('accepts minimal valid configuration', () => {
+      const result = nativeDeploymentConfigSchema.safeParse(validConfig);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.mode).toBe('aggregated');
+        expect(result.data.routerMode).toBe('none');
+        expect(result.data.image).toBeUndefined();
+      }
+    });
+
+    it('accepts the sglang engine with a custom image', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({
+        ...validConfig,
+        engine: 'sglang',
+        image: 'registry.example.com/sglang:latest',
+        cpu: '8',
+      });
+      expect(result.success).toBe(true);
+    });
+  });
+
+  describe('engine validation', () => {
+    it('rejects trtllm', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, engine: 'trtllm' });
+      expect(result.success).toBe(false);
+    });
+
+    it('requires an engine', () => {
+      const { engine, ...configWithoutEngine } = validConfig;
+      const result = nativeDeploymentConfigSchema.safeParse(configWithoutEngine);
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('serving mode validation', () => {
+    it('rejects disaggregated mode', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, mode: 'disaggregated' });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.errors[0].message).toBe('Native Kubernetes only supports aggregated serving');
+      }
+    });
+
+    it('rejects KV-aware routing', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, routerMode: 'kv' });
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('adapters validation', () => {
+    const adapters = [{ name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' }];
+
+    it('accepts adapters with vllm', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, adapters });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects adapters with sglang', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, engine: 'sglang', adapters });
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.issues[0].path).toEqual(['adapters']);
+      }
+    });
+  });
+
+  describe('inherits base schema validation', () => {
+    it('rejects invalid Kubernetes name', () => {
+      const result = nativeDeploymentConfigSchema.safeParse({ ...validConfig, name: 'Invalid_Name' });
+      expect(result.success).toBe(false);
+    });
+
+    it('rejects missing required fields', () => {
+      const { hfTokenSecret, ...configWithoutToken } = validConfig;
+      const result = nativeDeploymentConfigSchema.safeParse(configWithoutToken);
+      expect(result.success).toBe(false);
+    });
+  });
+});
+
+describe('nativeManifestSchema', () => {
+  it('accepts a generated Deployment', () => {
+    const config = nativeDeploymentConfigSchema.parse({
+      name: 'my-deployment',
+      namespace: 'kubefoundry-inference',
+      modelId: 'Qwen/Qwen3-0.6B',
+      engine: 'vllm',
+      hfTokenSecret: 'hf-token-secret',
+    });
+    const manifest = new NativeProvider().generateManifest(config as any);
+    expect(nativeManifestSchema.safeParse(manifest).success).toBe(true);
+  });
+
+  it('rejects other kinds', () => {
+    const result = nativeManifestSchema.safeParse({
+      apiVersion: 'apps/v1',
+      kind: 'StatefulSet',
+      metadata: { name: 'server' },
+      spec: {},
+    });
+    expect(result.success).toBe(false);
+  });
+});
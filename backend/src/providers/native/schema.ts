@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import type { ProviderCapabilities } from '@kubefoundry/shared';
+import { baseDeploymentConfigSchema } from '../types';
+import { capabilityCheck } from '../capabilities';
+
+// Engines with an OpenAI-compatible server image that runs on its own. One
+// Deployment serves the whole model; no P/D split or KV-aware routing.
+export const nativeCapabilities: ProviderCapabilities = {
+  engines: ['vllm', 'sglang'],
+  modes: ['aggregated'],
+  routerModes: ['none'],
+  adapterEngines: ['vllm'],
+  adapterSources: ['huggingface', 'pvc'],
+  cpu: false,
+  gguf: false,
+  autoscaling: false,
+  engineArgs: true,
+  multiNode: false,
+};
+
+/**
+ * Native deployment configuration schema
+ * Extends the base schema for a plain Deployment running an OpenAI-compatible server
+ */
+export const nativeDeploymentConfigSchema = baseDeploymentConfigSchema.extend({
+  // Native-specific fields
+  image: z.string().min(1).optional().describe('Server image to run instead of the default image for the engine'),
+  cpu: z.string().optional().describe('CPU limit for the server container'),
+}).superRefine(capabilityCheck('Native Kubernetes', nativeCapabilities));
+
+export type NativeDeploymentConfig = z.infer<typeof nativeDeploymentConfigSchema>;
+
+/**
+ * apps/v1 Deployment manifest schema for validation
+ */
+export const nativeManifestSchema = z.object({
+  apiVersion: z.literal('apps/v1'),
+  kind: z.literal('Deployment'),
+  metadata: z.object({
+    name: z.string(),
+    namespace: z.string().optional(),
+    labels: z.record(z.string()).optional(),
+  }),
+  spec: z.object({
+    replicas: z.number(),
+    selector: z.object({
+      matchLabels: z.record(z.string()),
+    }),
+    template: z.object({
+      metadata: z.object({
+        labels: z.record(z.string()),
+      }),
+      spec: z.object({
+        containers: z.array(z.object({
+          name: z.string(),
+          image: z.string(),
+          command: z.array(z.string()),
+          args: z.array(z.string()),
+        }).passthrough()).min(1),
+      }).passthrough(),
+    }),
+  }),
+});
+
+export type NativeManifest = z.infer<typeof nativeManifestSchema>;
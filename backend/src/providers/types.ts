@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import type { DeploymentConfig, DeploymentStatus, MetricDefinition, MetricsEndpointConfig } from '@kubefoundry/shared';
+import type { DeploymentConfig, DeploymentStatus, Engine, MetricDefinition, MetricsEndpointConfig, ProviderCapabilities } from '@kubefoundry/shared';
 
 /**
  * CRD configuration for a provider's custom resources
@@ -9,6 +9,12 @@ export interface CRDConfig {
   apiVersion: string;
   plural: string;
   kind: string;
+  /**
+   * Optional: Equality-based label selector (e.g. 'kubefoundry.io/provider=native')
+   * narrowing the resources that belong to the provider. Needed for built-in
+   * kinds that other workloads create too.
+   */
+  labelSelector?: string;
 }
 
 /**
@@ -70,6 +76,21 @@ export interface UninstallResources {
 /**
  * Provider interface - all inference providers must implement this
  */
+/**
+ * Raised by parseConfig when the fields read back from a resource do not make up a
+ * valid config, e.g. after the resource was edited outside KubeFoundry
+ */
+export class ConfigParseError extends Error {
+  errors: string[];
+
+  constructor(resourceName: string | undefined, error: z.ZodError) {
+    const errors = error.errors.map((e) => `${e.path.join('.')}: ${e.message}`);
+    super(`Configuration read from '${resourceName}' is not valid: ${errors.join(', ')}`);
+    this.name = 'ConfigParseError';
+    this.errors = errors;
+  }
+}
+
 export interface Provider {
   /** Unique identifier for the provider (e.g., 'dynamo', 'kuberay') */
   id: string;
@@ -88,6 +109,11 @@ export interface Provider {
    */
   getCRDConfig(): CRDConfig;
 
+  /**
+   * Get the engines, serving modes and features this provider supports
+   */
+  getCapabilities(): ProviderCapabilities;
+
   /**
    * Generate Kubernetes manifest from deployment config
    */
@@ -98,6 +124,27 @@ export interface Provider {
    */
   parseStatus(raw: unknown): DeploymentStatus;
 
+  /**
+   * Rebuild the DeploymentConfig a raw Kubernetes object was generated from.
+   * Values that generation fills in by default come back explicitly.
+   * Throws ConfigParseError when the rebuilt config does not validate.
+   */
+  parseConfig(raw: unknown): DeploymentConfig;
+
+  /**
+   * Generate a JSON merge patch that updates an existing deployment in place.
+   * `previous` is the config the resource was last applied with; throws if the
+   * change cannot be applied without recreating the resource.
+   */
+  generatePatch(config: DeploymentConfig, previous: DeploymentConfig): Record<string, unknown>;
+
+  /**
+   * Optional: Resources no operator creates for a deployment, such as the Service
+   * in front of its pods. They are created with the deployment resource as their
+   * owner, so Kubernetes deletes them along with it.
+   */
+  generateOwnedResources?(config: DeploymentConfig): Record<string, unknown>[];
+
   /**
    * Validate deployment configuration
    * Returns validation result with any errors
@@ -142,8 +189,9 @@ export interface Provider {
   /**
    * Get the list of key metrics to display for this provider.
    * These define which Prometheus metrics to extract and how to display them.
+   * With an engine, only the metrics that engine exposes are returned.
    */
-  getKeyMetrics(): MetricDefinition[];
+  getKeyMetrics(engine?: Engine): MetricDefinition[];
 
   /**
    * Optional: Refresh version information from external source (e.g., GitHub releases)
@@ -166,8 +214,127 @@ export interface ProviderInfo {
   name: string;
   description: string;
   defaultNamespace: string;
+  capabilities: ProviderCapabilities;
 }
 
+const labelSelectorSchema = z.object({
+  matchLabels: z.record(z.string()).optional(),
+  matchExpressions: z.array(z.object({
+    key: z.string().min(1),
+    operator: z.enum(['In', 'NotIn', 'Exists', 'DoesNotExist']),
+    values: z.array(z.string()).optional(),
+  })).optional(),
+});
+
+const nodeSelectorRequirementSchema = z.object({
+  key: z.string().min(1),
+  operator: z.enum(['In', 'NotIn', 'Exists', 'DoesNotExist', 'Gt', 'Lt']),
+  values: z.array(z.string()).optional(),
+});
+
+const nodeSelectorTermSchema = z.object({
+  matchExpressions: z.array(nodeSelectorRequirementSchema).optional(),
+  matchFields: z.array(nodeSelectorRequirementSchema).optional(),
+});
+
+const podAffinityTermSchema = z.object({
+  labelSelector: labelSelectorSchema.optional(),
+  namespaces: z.array(z.string()).optional(),
+  topologyKey: z.string().min(1),
+});
+
+const podAffinitySchema = z.object({
+  requiredDuringSchedulingIgnoredDuringExecution: z.array(podAffinityTermSchema).optional(),
+  preferredDuringSchedulingIgnoredDuringExecution: z.array(z.object({
+    weight: z.number().int().min(1).max(100),
+    podAffinityTerm: podAffinityTermSchema,
+  })).optional(),
+});
+
+/**
+ * Pod scheduling fields, shared by every provider's config schema.
+ * Each provider places them where its CRD expects pod spec fields.
+ */
+export const schedulingConfigSchema = z.object({
+  nodeSelector: z.record(z.string()).optional(),
+  tolerations: z.array(z.object({
+    key: z.string().optional(),
+    operator: z.enum(['Equal', 'Exists']).optional(),
+    value: z.string().optional(),
+    effect: z.enum(['NoSchedule', 'PreferNoSchedule', 'NoExecute']).optional(),
+    tolerationSeconds: z.number().int().optional(),
+  }).refine(
+    (t) => t.operator !== 'Exists' || !t.value,
+    { message: 'A toleration with operator Exists must not have a value' }
+  )).optional(),
+  affinity: z.object({
+    nodeAffinity: z.object({
+      requiredDuringSchedulingIgnoredDuringExecution: z.object({
+        nodeSelectorTerms: z.array(nodeSelectorTermSchema).min(1),
+      }).optional(),
+      preferredDuringSchedulingIgnoredDuringExecution: z.array(z.object({
+        weight: z.number().int().min(1).max(100),
+        preference: nodeSelectorTermSchema,
+      })).optional(),
+    }).optional(),
+    podAffinity: podAffinitySchema.optional(),
+    podAntiAffinity: podAffinitySchema.optional(),
+  }).optional(),
+  topologySpreadConstraints: z.array(z.object({
+    maxSkew: z.number().int().min(1),
+    topologyKey: z.string().min(1),
+    whenUnsatisfiable: z.enum(['DoNotSchedule', 'ScheduleAnyway']),
+    labelSelector: labelSelectorSchema.optional(),
+    minDomains: z.number().int().min(1).optional(),
+  })).optional(),
+});
+
+/**
+ * PVC mounted as the HuggingFace cache of a deployment's model server pods
+ */
+export const modelCacheSchema = z.object({
+  claimName: z.string().min(1).max(253).regex(/^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/, {
+    message: 'Claim name must be a valid Kubernetes resource name',
+  }),
+  size: z.string().regex(/^\d+(\.\d+)?(Ki|Mi|Gi|Ti|Pi|K|M|G|T|P)?$/, {
+    message: 'Size must be a Kubernetes quantity, e.g. 200Gi',
+  }).optional(),
+  storageClassName: z.string().min(1).optional(),
+  accessMode: z.enum(['ReadWriteOnce', 'ReadWriteMany']).optional(),
+}).refine(
+  (cache) => cache.size !== undefined || (cache.storageClassName === undefined && cache.accessMode === undefined),
+  { message: 'Storage class and access mode only apply when a size is given to create the claim' }
+);
+
+/**
+ * LoRA adapter served under its own model name, from a HuggingFace repo or a PVC path
+ */
+export const loraAdapterSchema = z.object({
+  name: z.string().min(1).max(128).regex(/^[A-Za-z0-9][A-Za-z0-9._-]*$/, {
+    message: 'Adapter name may only contain letters, digits, dots, hyphens and underscores',
+  }),
+  huggingFaceRepo: z.string().regex(/^[\w.-]+\/[\w.-]+$/, {
+    message: 'HuggingFace repo must be in the form org/name',
+  }).optional(),
+  pvc: z.object({
+    claimName: z.string().min(1).max(253).regex(/^[a-z0-9]([-a-z0-9.]*[a-z0-9])?$/, {
+      message: 'Claim name must be a valid Kubernetes resource name',
+    }),
+    path: z.string().min(1).refine((path) => !path.startsWith('/') && !path.split('/').includes('..'), {
+      message: 'Path must be relative to the claim root',
+    }),
+  }).optional(),
+  image: z.string().min(1).optional(),
+}).refine(
+  (adapter) => [adapter.huggingFaceRepo, adapter.pvc, adapter.image].filter((source) => source !== undefined).length === 1,
+  { message: 'An adapter needs exactly one of huggingFaceRepo, pvc or image' }
+);
+
+export const loraAdaptersSchema = z.array(loraAdapterSchema).max(16).refine(
+  (adapters) => new Set(adapters.map((a) => a.name)).size === adapters.length,
+  { message: 'Adapter names must be unique' }
+);
+
 /**
  * Base Zod schema for deployment config (shared across providers)
  */
@@ -179,7 +346,7 @@ export const baseDeploymentConfigSchema = z.object({
   modelId: z.string().min(1),
   engine: z.enum(['vllm', 'sglang', 'trtllm']),
   mode: z.enum(['aggregated', 'disaggregated']).default('aggregated'),
-  provider: z.enum(['dynamo', 'kuberay', 'kaito']).optional(),
+  provider: z.enum(['dynamo', 'kuberay', 'kaito', 'kserve', 'native', 'lws']).optional(),
   servedModelName: z.string().optional(),
   routerMode: z.enum(['none', 'kv', 'round-robin']).default('none'),
   replicas: z.number().int().min(1).max(10).default(1),
@@ -199,4 +366,8 @@ export const baseDeploymentConfigSchema = z.object({
   decodeReplicas: z.number().int().min(1).max(10).default(1).describe('Number of decode worker replicas'),
   prefillGpus: z.number().int().min(1).default(1).describe('GPUs per prefill worker'),
   decodeGpus: z.number().int().min(1).default(1).describe('GPUs per decode worker'),
+
+  ...schedulingConfigSchema.shape,
+  modelCache: modelCacheSchema.optional(),
+  adapters: loraAdaptersSchema.optional(),
 });
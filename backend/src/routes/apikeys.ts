@@ -0,0 +1,64 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { HTTPException } from 'hono/http-exception';
+import { apiKeyService } from '../services/apiKeys';
+import logger from '../lib/logger';
+import type { CreateGatewayApiKeyResponse, GatewayApiKeysResponse } from '@kubefoundry/shared';
+
+const createApiKeySchema = z.object({
+  name: z.string().min(1, 'Name is required').max(63),
+  models: z.array(z.string().min(1)).optional(),
+  namespaces: z.array(z.string().min(1)).optional(),
+  requestsPerMinute: z.number().int().min(1).optional(),
+  tokensPerMinute: z.number().int().min(1).optional(),
+});
+
+/**
+ * Model gateway API key management, mounted at /api/gateway/keys
+ */
+const apiKeys = new Hono()
+  .get('/', async (c) => {
+    try {
+      const keys = await apiKeyService.listKeys();
+      return c.json<GatewayApiKeysResponse>({ keys });
+    } catch (error) {
+      logger.error({ error }, 'Failed to list gateway API keys');
+      throw new HTTPException(500, {
+        message: error instanceof Error ? error.message : 'Failed to list API keys',
+      });
+    }
+  })
+  .post('/', zValidator('json', createApiKeySchema), async (c) => {
+    const request = c.req.valid('json');
+
+    try {
+      const created = await apiKeyService.createKey(request);
+      return c.json<CreateGatewayApiKeyResponse>(created, 201);
+    } catch (error) {
+      logger.error({ error }, 'Failed to create gateway API key');
+      throw new HTTPException(500, {
+        message: error instanceof Error ? error.message : 'Failed to create API key',
+      });
+    }
+  })
+  .delete('/:id', async (c) => {
+    const id = c.req.param('id');
+
+    let revoked: boolean;
+    try {
+      revoked = await apiKeyService.revokeKey(id);
+    } catch (error) {
+      logger.error({ error, id }, 'Failed to revoke gateway API key');
+      throw new HTTPException(500, {
+        message: error instanceof Error ? error.message : 'Failed to revoke API key',
+      });
+    }
+
+    if (!revoked) {
+      throw new HTTPException(404, { message: `API key '${id}' not found` });
+    }
+    return c.json({ success: true, message: `API key '${id}' revoked` });
+  });
+
+export default apiKeys;
@@ -2,15 +2,40 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { HTTPException } from 'hono/http-exception';
+import { streamSSE } from 'hono/streaming';
 import { kubernetesService } from '../services/kubernetes';
 import { configService } from '../services/config';
 import { providerRegistry } from '../providers';
 import { metricsService } from '../services/metrics';
-import { validateGpuFit, formatGpuWarnings } from '../services/gpuValidation';
+import { validateGpuFit, formatGpuWarnings, calculateRequiredGpus } from '../services/gpuValidation';
+import { revisionService, REVISION_NUMBER_LABEL } from '../services/revisions';
+import { deploymentWatcher } from '../services/deploymentWatcher';
+import { logStreamService, type LogStreamTarget } from '../services/logStream';
+import {
+  modelGatewayService,
+  getInferenceService,
+  getServedModelName,
+  toRelayResponse,
+  GatewayError,
+} from '../services/gateway';
+import { benchmarkService, BenchmarkError, BENCHMARK_ID_LABEL } from '../services/benchmark';
+import { ModelCacheError } from '../services/modelCache';
+import { buildModelCacheClaim } from '../lib/model-cache';
+import { deploymentEventsService } from '../services/events';
 import { handleK8sError } from '../lib/k8s-errors';
+import { createMergePatch } from '../lib/merge-patch';
+import { loraAdapterSchema, ConfigParseError } from '../providers/types';
 import models from '../data/models.json';
 import logger from '../lib/logger';
-import type { DeploymentStatus } from '@kubefoundry/shared';
+import type {
+  DeploymentAdaptersResponse,
+  DeploymentConfig,
+  DeploymentEventsResponse,
+  DeploymentPreviewResource,
+  DeploymentPreviewResponse,
+  DeploymentStatus,
+  DeploymentStreamEvent,
+} from '@kubefoundry/shared';
 import {
   namespaceSchema,
   resourceNameSchema,
@@ -34,45 +59,291 @@ const deploymentQuerySchema = z.object({
   namespace: namespaceSchema.optional(),
 });
 
+const previewQuerySchema = z.object({
+  dryRun: z.enum(['true', 'false']).optional()
+    .transform((val) => val === 'true'),
+});
+
 const deploymentParamsSchema = z.object({
   name: resourceNameSchema,
 });
 
+const revisionNumberSchema = z
+  .string()
+  .transform((val) => parseInt(val, 10))
+  .pipe(z.number().int().min(1));
+
+const revisionDiffQuerySchema = z.object({
+  namespace: namespaceSchema.optional(),
+  from: revisionNumberSchema,
+  to: revisionNumberSchema,
+});
+
+// Keeps client-supplied patterns short, limiting how much they can backtrack
+const MAX_LOG_FILTER_LENGTH = 200;
+
+const logStreamQuerySchema = z.object({
+  namespace: namespaceSchema.optional(),
+  podName: z.string().optional(),
+  container: z.string().optional(),
+  previous: z.string().optional()
+    .transform((val) => val === 'true'),
+  sinceSeconds: z.string().optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(1).optional()),
+  tailLines: z.string().optional()
+    .transform((val) => (val ? parseInt(val, 10) : undefined))
+    .pipe(z.number().int().min(1).max(10000).optional()),
+  timestamps: z.string().optional()
+    .transform((val) => val === 'true'),
+  filter: z.string().max(MAX_LOG_FILTER_LENGTH).optional().transform((val, ctx) => {
+    if (!val) return undefined;
+    try {
+      return new RegExp(val);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid filter expression: ${val}` });
+      return z.NEVER;
+    }
+  }),
+});
+
+const chatCompletionSchema = z.object({
+  model: z.string().optional(),
+  messages: z.array(z.object({
+    role: z.enum(['system', 'user', 'assistant']),
+    content: z.string(),
+  })).min(1, 'At least one message is required'),
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().min(1).optional(),
+  top_p: z.number().min(0).max(1).optional(),
+  stream: z.boolean().optional(),
+}).passthrough();
+
+const benchmarkSchema = z.object({
+  concurrency: z.array(z.number().int().min(1).max(256))
+    .min(1, 'At least one concurrency level is required')
+    .max(10),
+  inputTokens: z.number().int().min(1).max(32768).default(512),
+  outputTokens: z.number().int().min(1).max(8192).default(128),
+  requestsPerStep: z.number().int().min(1).max(10000).optional(),
+  durationSeconds: z.number().int().min(1).max(600).optional(),
+  gpuType: z.string().min(1).optional(),
+  gpuCount: z.number().int().min(1).optional(),
+});
+
+const benchmarkParamsSchema = z.object({
+  name: resourceNameSchema,
+  id: z.string().regex(/^[a-f0-9]+$/, 'Invalid benchmark id'),
+});
+
+const rollbackQuerySchema = z.object({
+  namespace: namespaceSchema.optional(),
+  revision: revisionNumberSchema,
+});
+
+const metricsHistoryQuerySchema = z.object({
+  namespace: namespaceSchema.optional(),
+  range: z.enum(['15m', '1h', '24h']).default('1h'),
+});
+
+/**
+ * Check a config against current cluster GPU capacity and return any warnings.
+ * `heldGpus` are GPUs the deployment already occupies and will release when updated.
+ */
+async function getGpuFitWarnings(config: DeploymentConfig, heldGpus = 0): Promise<string[]> {
+  let gpuWarnings: string[] = [];
+  try {
+    const clusterCapacity = await kubernetesService.getClusterGpuCapacity();
+    const capacity = heldGpus > 0
+      ? { ...clusterCapacity, availableGpus: clusterCapacity.availableGpus + heldGpus }
+      : clusterCapacity;
+
+    const model = models.models.find((m) => m.id === config.modelId);
+    const modelMinGpus = (model as { minGpus?: number })?.minGpus ?? 1;
+
+    const gpuFitResult = validateGpuFit(config, capacity, modelMinGpus);
+    if (!gpuFitResult.fits) {
+      gpuWarnings = formatGpuWarnings(gpuFitResult);
+      logger.warn(
+        {
+          modelId: config.modelId,
+          warnings: gpuWarnings,
+          capacity: {
+            available: capacity.availableGpus,
+            maxContiguous: capacity.maxContiguousAvailable,
+          },
+        },
+        'GPU fit warnings for deployment'
+      );
+    }
+  } catch (gpuError) {
+    logger.warn({ error: gpuError }, 'Could not perform GPU fit validation');
+  }
+  return gpuWarnings;
+}
+
+/**
+ * Namespaces listed when no namespace is given: each provider's default namespace
+ */
+function getListNamespaces(): string[] {
+  const providerNamespaces = providerRegistry.listProviderIds()
+    .map(id => providerRegistry.getProvider(id).defaultNamespace);
+  return [...new Set(providerNamespaces)];
+}
+
+/**
+ * List deployments in one namespace, or across all provider namespaces, newest first
+ */
+async function listAllDeployments(namespace?: string): Promise<DeploymentStatus[]> {
+  if (namespace) {
+    // If namespace specified, query that namespace only
+    return kubernetesService.listDeployments(namespace);
+  }
+
+  // Query all provider namespaces in parallel and merge results
+  const results = await Promise.all(
+    getListNamespaces().map(ns => kubernetesService.listDeployments(ns))
+  );
+  const deploymentsList = results.flat();
+
+  // Sort by creation time (newest first)
+  deploymentsList.sort((a, b) => {
+    const dateA = new Date(a.createdAt).getTime();
+    const dateB = new Date(b.createdAt).getTime();
+    return dateB - dateA;
+  });
+  return deploymentsList;
+}
+
+/**
+ * Keep-alive interval for the deployment status stream
+ */
+const STREAM_PING_INTERVAL_MS = 30000;
+
+/**
+ * Record the applied config as a new revision. Failures are logged rather than
+ * surfaced, since the deployment itself has already been applied.
+ */
+async function recordRevision(
+  config: DeploymentConfig,
+  changeCause: string,
+  appliedManifest?: Record<string, unknown>
+): Promise<number | undefined> {
+  try {
+    const manifest = appliedManifest || kubernetesService.buildDeploymentManifest(config, config.provider!);
+    return await revisionService.recordRevision(config, manifest, changeCause);
+  } catch (error) {
+    logger.warn({ error, name: config.name, namespace: config.namespace }, 'Failed to record deployment revision');
+    return undefined;
+  }
+}
+
+/**
+ * Get the config a deployment was last applied with, failing the request when
+ * it cannot be determined or the live resource no longer makes up a valid config
+ */
+function getAppliedConfig(name: string, manifest: Record<string, unknown>): DeploymentConfig {
+  let config: DeploymentConfig | null;
+  try {
+    config = kubernetesService.getAppliedConfig(manifest);
+  } catch (error) {
+    if (error instanceof ConfigParseError) {
+      throw new HTTPException(422, { message: error.message });
+    }
+    throw error;
+  }
+
+  if (!config) {
+    throw new HTTPException(409, {
+      message: `Configuration for deployment '${name}' could not be determined`,
+    });
+  }
+  return config;
+}
+
+/**
+ * Apply changes to a deployment's current config in place and record the
+ * result as a new revision. When a target manifest is given, e.g. one recorded
+ * in a revision, the resource is patched to it instead of to a manifest
+ * regenerated from the config.
+ */
+async function applyConfigChange(
+  name: string,
+  namespace: string,
+  change: (current: DeploymentConfig) => Record<string, unknown>,
+  changeCause: string,
+  targetManifest?: Record<string, unknown>
+): Promise<{ config: DeploymentConfig; providerId: string; gpuWarnings: string[]; revision?: number }> {
+  const manifest = await kubernetesService.getDeploymentManifest(name, namespace);
+  if (!manifest) {
+    throw new HTTPException(404, { message: 'Deployment not found' });
+  }
+
+  const currentConfig = getAppliedConfig(name, manifest);
+
+  // Identity fields select the resource and cannot be changed in place
+  const changes = change(currentConfig);
+  for (const field of ['name', 'namespace', 'provider'] as const) {
+    if (changes[field] !== undefined && changes[field] !== currentConfig[field]) {
+      throw new HTTPException(400, { message: `The "${field}" field cannot be changed on an existing deployment` });
+    }
+  }
+
+  const providerId = currentConfig.provider!;
+  const provider = providerRegistry.getProvider(providerId);
+  const validationResult = provider.validateConfig({ ...currentConfig, ...changes });
+
+  if (!validationResult.valid) {
+    throw new HTTPException(400, {
+      message: `Validation error: ${validationResult.errors.join(', ')}`,
+    });
+  }
+
+  const config = validationResult.data!;
+  config.provider = providerId;
+
+  // GPU fit validation, crediting back the GPUs the current revision holds
+  const gpuWarnings = await getGpuFitWarnings(config, calculateRequiredGpus(currentConfig).total);
+
+  let patch: Record<string, unknown>;
+  try {
+    patch = provider.generatePatch(config, currentConfig);
+    if (targetManifest) {
+      patch = createMergePatch(kubernetesService.buildDeploymentManifest(currentConfig, providerId), targetManifest);
+    }
+  } catch (error) {
+    throw new HTTPException(422, {
+      message: error instanceof Error ? error.message : 'Deployment cannot be updated in place',
+    });
+  }
+
+  try {
+    await kubernetesService.patchDeployment(config, patch);
+  } catch (error) {
+    const { message, statusCode } = handleK8sError(error, {
+      operation: 'updateDeployment',
+      deploymentName: name,
+      namespace,
+      providerId,
+      modelId: config.modelId,
+    });
+
+    throw new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, {
+      message: `Failed to update deployment: ${message}`,
+    });
+  }
+
+  const revision = await recordRevision(config, changeCause, targetManifest);
+
+  return { config, providerId, gpuWarnings, revision };
+}
+
 const deployments = new Hono()
   .get('/', zValidator('query', listDeploymentsQuerySchema), async (c) => {
     try {
       const { namespace, limit, offset } = c.req.valid('query');
 
-      let deploymentsList: DeploymentStatus[] = [];
-
-      if (namespace) {
-        // If namespace specified, query that namespace only
-        deploymentsList = await kubernetesService.listDeployments(namespace);
-      } else {
-        // Query all provider namespaces and merge results
-        const providerNamespaces = providerRegistry.listProviderIds()
-          .map(id => providerRegistry.getProvider(id).defaultNamespace);
-        
-        // Remove duplicates
-        const uniqueNamespaces = [...new Set(providerNamespaces)];
-        
-        // Query all namespaces in parallel
-        const results = await Promise.all(
-          uniqueNamespaces.map(ns => kubernetesService.listDeployments(ns))
-        );
-        
-        // Merge and flatten
-        for (const result of results) {
-          deploymentsList.push(...result);
-        }
-        
-        // Sort by creation time (newest first)
-        deploymentsList.sort((a, b) => {
-          const dateA = new Date(a.createdAt).getTime();
-          const dateB = new Date(b.createdAt).getTime();
-          return dateB - dateA;
-        });
-      }
+      let deploymentsList = await listAllDeployments(namespace);
 
       const total = deploymentsList.length;
 
@@ -100,14 +371,45 @@ const deployments = new Hono()
       });
     }
   })
-  .post('/preview', async (c) => {
+  .get('/stream', zValidator('query', deploymentQuerySchema), async (c) => {
+    const { namespace } = c.req.valid('query');
+    const namespaces = namespace ? [namespace] : getListNamespaces();
+
+    // Informers start on first use; until they sync the snapshot comes from the API
+    deploymentWatcher.start();
+
+    return streamSSE(c, async (stream) => {
+      const send = (event: DeploymentStreamEvent) =>
+        stream.writeSSE({ event: event.type, data: JSON.stringify(event) });
+
+      const unsubscribe = deploymentWatcher.subscribe((event) => {
+        const eventNamespace = event.type === 'delete' ? event.namespace : event.deployment.namespace;
+        if (namespaces.includes(eventNamespace)) {
+          send(event).catch((error) => logger.debug({ error }, 'Failed to write deployment stream event'));
+        }
+      });
+      stream.onAbort(unsubscribe);
+
+      await send({ type: 'snapshot', deployments: await listAllDeployments(namespace) });
+
+      while (!stream.aborted) {
+        await stream.sleep(STREAM_PING_INTERVAL_MS);
+        if (!stream.aborted) {
+          await stream.writeSSE({ event: 'ping', data: '' });
+        }
+      }
+      unsubscribe();
+    });
+  })
+  .post('/preview', zValidator('query', previewQuerySchema), async (c) => {
     // Preview endpoint - generates all resources without creating them
     const body = await c.req.json();
+    const { dryRun } = c.req.valid('query');
 
     const providerId = body.provider;
     if (!providerId) {
       throw new HTTPException(400, {
-        message: 'The "provider" field is required. Please specify the runtime (dynamo, kuberay, or kaito).',
+        message: 'The "provider" field is required. Please specify the runtime (dynamo, kuberay, kaito, kserve, native, or lws).',
       });
     }
 
@@ -136,12 +438,7 @@ const deployments = new Hono()
     const crdConfig = provider.getCRDConfig();
 
     // Build array of all resources that will be created
-    const resources: Array<{
-      kind: string;
-      apiVersion: string;
-      name: string;
-      manifest: Record<string, unknown>;
-    }> = [];
+    const resources: DeploymentPreviewResource[] = [];
 
     // Add the main CR
     resources.push({
@@ -190,7 +487,50 @@ const deployments = new Hono()
       });
     }
 
-    return c.json({
+    // Resources owned by the main one, such as the Service of a native deployment
+    for (const owned of provider.generateOwnedResources?.(config) || []) {
+      resources.push({
+        kind: owned.kind as string,
+        apiVersion: owned.apiVersion as string,
+        name: (owned.metadata as { name: string }).name,
+        manifest: owned,
+      });
+    }
+
+    // A model cache with a size gets its claim created unless it already exists
+    if (config.modelCache?.size) {
+      resources.push({
+        kind: 'PersistentVolumeClaim',
+        apiVersion: 'v1',
+        name: config.modelCache.claimName,
+        manifest: buildModelCacheClaim(config.namespace, config.modelCache),
+      });
+    }
+
+    // Let the API server and its admission webhooks check each resource without persisting it
+    if (dryRun) {
+      await Promise.all(resources.map(async (resource) => {
+        try {
+          await kubernetesService.dryRunCreate(resource.manifest);
+          resource.dryRun = { success: true };
+        } catch (error) {
+          const { message, statusCode } = handleK8sError(error, {
+            operation: 'dryRunPreview',
+            kind: resource.kind,
+            name: resource.name,
+            namespace: config.namespace,
+          });
+          // An existing cache claim is reused rather than created
+          if (resource.kind === 'PersistentVolumeClaim' && statusCode === 409) {
+            resource.dryRun = { success: true, message: 'Claim already exists and will be reused' };
+            return;
+          }
+          resource.dryRun = { success: false, message, statusCode };
+        }
+      }));
+    }
+
+    return c.json<DeploymentPreviewResponse>({
       resources,
       primaryResource: {
         kind: crdConfig.kind,
@@ -205,7 +545,7 @@ const deployments = new Hono()
     const providerId = body.provider;
     if (!providerId) {
       throw new HTTPException(400, {
-        message: 'The "provider" field is required. Please specify the runtime (dynamo or kuberay).',
+        message: 'The "provider" field is required. Please specify the runtime (dynamo, kuberay, kaito, kserve, native, or lws).',
       });
     }
 
@@ -223,36 +563,17 @@ const deployments = new Hono()
     config.provider = providerId;
 
     // GPU fit validation
-    let gpuWarnings: string[] = [];
-    try {
-      const capacity = await kubernetesService.getClusterGpuCapacity();
-
-      const model = models.models.find((m) => m.id === config.modelId);
-      const modelMinGpus = (model as { minGpus?: number })?.minGpus ?? 1;
-
-      const gpuFitResult = validateGpuFit(config, capacity, modelMinGpus);
-      if (!gpuFitResult.fits) {
-        gpuWarnings = formatGpuWarnings(gpuFitResult);
-        logger.warn(
-          {
-            modelId: config.modelId,
-            warnings: gpuWarnings,
-            capacity: {
-              available: capacity.availableGpus,
-              maxContiguous: capacity.maxContiguousAvailable,
-            },
-          },
-          'GPU fit warnings for deployment'
-        );
-      }
-    } catch (gpuError) {
-      logger.warn({ error: gpuError }, 'Could not perform GPU fit validation');
-    }
+    const gpuWarnings = await getGpuFitWarnings(config);
 
     // Create deployment with detailed error handling
     try {
       await kubernetesService.createDeployment(config, providerId);
     } catch (error) {
+      if (error instanceof ModelCacheError) {
+        throw new HTTPException(error.statusCode === 404 ? 400 : error.statusCode, {
+          message: `Failed to create deployment: ${error.message}`,
+        });
+      }
       const { message, statusCode } = handleK8sError(error, {
         operation: 'createDeployment',
         deploymentName: config.name,
@@ -266,6 +587,8 @@ const deployments = new Hono()
       });
     }
 
+    await recordRevision(config, 'Created');
+
     return c.json(
       {
         message: 'Deployment created successfully',
@@ -295,6 +618,192 @@ const deployments = new Hono()
       return c.json(deployment);
     }
   )
+  .get(
+    '/:name/config',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const manifest = await kubernetesService.getDeploymentManifest(name, resolvedNamespace);
+      if (!manifest) {
+        throw new HTTPException(404, { message: 'Deployment not found' });
+      }
+
+      return c.json({ config: getAppliedConfig(name, manifest) });
+    }
+  )
+  .patch(
+    '/:name',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+      const body = await c.req.json();
+
+      if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        throw new HTTPException(400, { message: 'Request body must be a JSON object' });
+      }
+
+      const { providerId, gpuWarnings } = await applyConfigChange(name, resolvedNamespace, () => body, 'Updated');
+
+      return c.json({
+        message: 'Deployment updated successfully',
+        name,
+        namespace: resolvedNamespace,
+        provider: providerId,
+        ...(gpuWarnings.length > 0 && { warnings: gpuWarnings }),
+      });
+    }
+  )
+  .post(
+    '/:name/adapters',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    zValidator('json', loraAdapterSchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+      const adapter = c.req.valid('json');
+
+      const { config, gpuWarnings } = await applyConfigChange(name, resolvedNamespace, (current) => {
+        const adapters = current.adapters || [];
+        if (adapters.some((a) => a.name === adapter.name) || adapter.name === (current.servedModelName || current.modelId)) {
+          throw new HTTPException(409, { message: `Model name '${adapter.name}' is already served by '${name}'` });
+        }
+        return { adapters: [...adapters, adapter] };
+      }, `Attached adapter ${adapter.name}`);
+
+      return c.json<DeploymentAdaptersResponse>({
+        message: `Adapter '${adapter.name}' attached`,
+        name,
+        namespace: resolvedNamespace,
+        adapters: config.adapters || [],
+        ...(gpuWarnings.length > 0 && { warnings: gpuWarnings }),
+      });
+    }
+  )
+  .delete(
+    '/:name/adapters/:adapter',
+    zValidator('param', deploymentParamsSchema.extend({ adapter: z.string().min(1) })),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name, adapter } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const { config } = await applyConfigChange(name, resolvedNamespace, (current) => {
+        const adapters = current.adapters || [];
+        if (!adapters.some((a) => a.name === adapter)) {
+          throw new HTTPException(404, { message: `Adapter '${adapter}' not found on '${name}'` });
+        }
+        const remaining = adapters.filter((a) => a.name !== adapter);
+        return { adapters: remaining.length > 0 ? remaining : undefined };
+      }, `Detached adapter ${adapter}`);
+
+      return c.json<DeploymentAdaptersResponse>({
+        message: `Adapter '${adapter}' detached`,
+        name,
+        namespace: resolvedNamespace,
+        adapters: config.adapters || [],
+      });
+    }
+  )
+  .get(
+    '/:name/revisions',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      try {
+        const revisions = await revisionService.listRevisions(name, resolvedNamespace);
+        return c.json({
+          revisions: revisions.map(({ manifest: _manifest, ...summary }) => summary),
+        });
+      } catch (error) {
+        const { message, statusCode } = handleK8sError(error, {
+          operation: 'listRevisions',
+          deploymentName: name,
+          namespace: resolvedNamespace,
+        });
+
+        throw new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, {
+          message: `Failed to list revisions: ${message}`,
+        });
+      }
+    }
+  )
+  .get(
+    '/:name/revisions/diff',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', revisionDiffQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace, from, to } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const [fromRevision, toRevision] = await Promise.all([
+        revisionService.getRevision(name, resolvedNamespace, from),
+        revisionService.getRevision(name, resolvedNamespace, to),
+      ]);
+
+      if (!fromRevision) {
+        throw new HTTPException(404, { message: `Revision ${from} not found` });
+      }
+      if (!toRevision) {
+        throw new HTTPException(404, { message: `Revision ${to} not found` });
+      }
+
+      return c.json(revisionService.diffRevisions(fromRevision, toRevision));
+    }
+  )
+  .post(
+    '/:name/rollback',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', rollbackQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace, revision } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const revisions = await revisionService.listRevisions(name, resolvedNamespace);
+      const target = revisions.find((r) => r.revision === revision);
+      if (!target) {
+        throw new HTTPException(404, { message: `Revision ${revision} not found` });
+      }
+
+      // Goes through the same validation, GPU fit check and provider checks as
+      // PATCH. Fields set since the target revision are cleared rather than kept,
+      // and the resource is restored to the manifest the revision recorded.
+      const { gpuWarnings, revision: newRevision } = await applyConfigChange(
+        name,
+        resolvedNamespace,
+        (current) => ({
+          ...Object.fromEntries(Object.keys(current).map((field) => [field, undefined])),
+          ...target.config,
+        }),
+        `Rollback to revision ${revision}`,
+        target.manifest
+      );
+
+      return c.json({
+        message: `Deployment rolled back to revision ${revision}`,
+        name,
+        namespace: resolvedNamespace,
+        revision: newRevision ?? revisions[revisions.length - 1].revision,
+        rolledBackTo: revision,
+        ...(gpuWarnings.length > 0 && { warnings: gpuWarnings }),
+      });
+    }
+  )
   .get(
     '/:name/manifest',
     zValidator('param', deploymentParamsSchema),
@@ -336,21 +845,25 @@ const deployments = new Hono()
 
       // Look for related resources (Services, ConfigMaps, etc.)
       try {
-        // Check for KAITO vLLM service
-        if (providerId === 'kaito') {
-          const vllmServiceName = `${name}-vllm`;
+        // Check for the Service KubeFoundry creates for KAITO vLLM, native and LeaderWorkerSet deployments
+        const serviceName = ({
+          kaito: `${name}-vllm`,
+          native: name,
+          lws: `${name}-leader`,
+        } as Record<string, string>)[providerId];
+        if (serviceName) {
           try {
             const k8s = await import('@kubernetes/client-node');
             const kc = new k8s.KubeConfig();
             kc.loadFromDefault();
             const coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
             
-            const serviceResponse = await coreV1Api.readNamespacedService(vllmServiceName, resolvedNamespace);
+            const serviceResponse = await coreV1Api.readNamespacedService(serviceName, resolvedNamespace);
             if (serviceResponse.body) {
               resources.push({
                 kind: 'Service',
                 apiVersion: 'v1',
-                name: vllmServiceName,
+                name: serviceName,
                 manifest: serviceResponse.body as unknown as Record<string, unknown>,
               });
             }
@@ -372,7 +885,7 @@ const deployments = new Hono()
             undefined,
             undefined,
             undefined,
-            `app.kubernetes.io/instance=${name},app.kubernetes.io/managed-by=kubefoundry`
+            `app.kubernetes.io/instance=${name},app.kubernetes.io/managed-by=kubefoundry,!${REVISION_NUMBER_LABEL},!${BENCHMARK_ID_LABEL}`
           );
           
           for (const cm of configMapsResponse.body.items) {
@@ -444,22 +957,256 @@ const deployments = new Hono()
     }
   )
   .get(
-    '/:name/metrics',
+    '/:name/logs/stream',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', logStreamQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace, podName, container, previous, sinceSeconds, tailLines, timestamps, filter } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const pods = await kubernetesService.getDeploymentPods(name, resolvedNamespace);
+      if (podName && !pods.some((pod) => pod.name === podName)) {
+        throw new HTTPException(400, {
+          message: `Pod '${podName}' is not part of deployment '${name}'`,
+        });
+      }
+
+      // One stream per container of every selected pod
+      const targets: LogStreamTarget[] = pods
+        .filter((pod) => !podName || pod.name === podName)
+        .flatMap((pod) => {
+          const containers = pod.containers?.length ? pod.containers : [''];
+          return (container ? containers.filter((cn) => cn === container) : containers)
+            .map((cn) => ({ pod: pod.name, container: cn }));
+        });
+
+      logger.debug({ name, namespace: resolvedNamespace, targets: targets.length, previous }, 'Streaming deployment logs');
+
+      return streamSSE(c, async (stream) => {
+        const write = (event: string, data: unknown) =>
+          stream.writeSSE({ event, data: JSON.stringify(data) })
+            .catch((error) => logger.debug({ error }, 'Failed to write log stream event'));
+
+        await new Promise<void>((resolve) => {
+          const ping = setInterval(() => {
+            stream.writeSSE({ event: 'ping', data: '' }).catch(() => undefined);
+          }, STREAM_PING_INTERVAL_MS);
+          const finish = () => {
+            clearInterval(ping);
+            resolve();
+          };
+
+          const stop = logStreamService.streamLogs(
+            resolvedNamespace,
+            targets,
+            {
+              // Logs of a terminated container are complete, so there is nothing to follow
+              follow: !previous,
+              previous,
+              sinceSeconds,
+              tailLines: tailLines ?? (sinceSeconds ? undefined : 100),
+              timestamps,
+              filter,
+            },
+            {
+              onLine: (line) => write('log', line),
+              onError: (error) => write('error', error),
+              onEnd: finish,
+            }
+          );
+
+          stream.onAbort(() => {
+            stop();
+            finish();
+          });
+        });
+
+        if (!stream.aborted) {
+          await write('end', { pods: [...new Set(targets.map((t) => t.pod))] });
+        }
+      });
+    }
+  )
+  .post(
+    '/:name/chat/completions',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    zValidator('json', chatCompletionSchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const body = c.req.valid('json');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const deployment = await kubernetesService.getDeployment(name, resolvedNamespace);
+      if (!deployment) {
+        throw new HTTPException(404, { message: 'Deployment not found' });
+      }
+      if (deployment.phase !== 'Running') {
+        throw new HTTPException(409, {
+          message: `Deployment '${name}' is not running (phase: ${deployment.phase})`,
+        });
+      }
+
+      let upstream: Response;
+      try {
+        upstream = await modelGatewayService.forward(
+          { name, namespace: resolvedNamespace, address: getInferenceService(deployment) },
+          '/v1/chat/completions',
+          { ...body, model: body.model || getServedModelName(deployment) },
+          c.req.raw.signal
+        );
+      } catch (error) {
+        if (error instanceof GatewayError) {
+          throw new HTTPException(error.statusCode, { message: error.message });
+        }
+        throw error;
+      }
+
+      return toRelayResponse(upstream);
+    }
+  )
+  .post(
+    '/:name/benchmarks',
     zValidator('param', deploymentParamsSchema),
     zValidator('query', deploymentQuerySchema),
+    zValidator('json', benchmarkSchema),
     async (c) => {
       const { name } = c.req.valid('param');
       const { namespace } = c.req.valid('query');
+      const config = c.req.valid('json');
       const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
 
-      // Get deployment to determine its provider
       const deployment = await kubernetesService.getDeployment(name, resolvedNamespace);
-      const providerId = deployment?.provider;
+      if (!deployment) {
+        throw new HTTPException(404, { message: 'Deployment not found' });
+      }
+      if (deployment.phase !== 'Running') {
+        throw new HTTPException(409, {
+          message: `Deployment '${name}' is not running (phase: ${deployment.phase})`,
+        });
+      }
 
-      const metricsResponse = await metricsService.getDeploymentMetrics(name, resolvedNamespace, providerId);
+      try {
+        // Runs in the background; poll the report for results
+        const { report } = await benchmarkService.startBenchmark(deployment, config);
+        return c.json(report, 202);
+      } catch (error) {
+        if (error instanceof BenchmarkError) {
+          throw new HTTPException(error.statusCode, { message: error.message });
+        }
+        const { message, statusCode } = handleK8sError(error, {
+          operation: 'startBenchmark',
+          deploymentName: name,
+          namespace: resolvedNamespace,
+        });
+        throw new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, {
+          message: `Failed to start benchmark: ${message}`,
+        });
+      }
+    }
+  )
+  .get(
+    '/:name/benchmarks',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      try {
+        const reports = await benchmarkService.listReports(name, resolvedNamespace);
+        return c.json({ reports });
+      } catch (error) {
+        const { message, statusCode } = handleK8sError(error, {
+          operation: 'listBenchmarks',
+          deploymentName: name,
+          namespace: resolvedNamespace,
+        });
+        throw new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, {
+          message: `Failed to list benchmarks: ${message}`,
+        });
+      }
+    }
+  )
+  .get(
+    '/:name/benchmarks/:id',
+    zValidator('param', benchmarkParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name, id } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const report = await benchmarkService.getReport(name, resolvedNamespace, id);
+      if (!report) {
+        throw new HTTPException(404, { message: `Benchmark '${id}' not found` });
+      }
+      return c.json(report);
+    }
+  )
+  .delete(
+    '/:name/benchmarks/:id',
+    zValidator('param', benchmarkParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name, id } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const deleted = await benchmarkService.deleteReport(name, resolvedNamespace, id);
+      if (!deleted) {
+        throw new HTTPException(404, { message: `Benchmark '${id}' not found` });
+      }
+      return c.json({ success: true, message: `Benchmark '${id}' deleted` });
+    }
+  )
+  .get(
+    '/:name/metrics',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      // Get deployment to determine its provider and engine
+      const deployment = await kubernetesService.getDeployment(name, resolvedNamespace);
+      const metricsResponse = await metricsService.getDeploymentMetrics(
+        name,
+        resolvedNamespace,
+        deployment?.provider,
+        deployment?.engine
+      );
       return c.json(metricsResponse);
     }
 )
+  .get(
+    '/:name/metrics/history',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', metricsHistoryQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace, range } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const deployment = await kubernetesService.getDeployment(name, resolvedNamespace);
+      if (!deployment) {
+        throw new HTTPException(404, { message: 'Deployment not found' });
+      }
+
+      const history = await metricsService.getDeploymentMetricsHistory(
+        name,
+        resolvedNamespace,
+        range,
+        deployment.provider,
+        deployment.engine
+      );
+      return c.json(history);
+    }
+  )
   .get(
     '/:name/pending-reasons',
     zValidator('param', deploymentParamsSchema),
@@ -506,6 +1253,35 @@ const deployments = new Hono()
       }
     }
   )
+  .get(
+    '/:name/events',
+    zValidator('param', deploymentParamsSchema),
+    zValidator('query', deploymentQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      const deployment = await kubernetesService.getDeployment(name, resolvedNamespace);
+      if (!deployment) {
+        throw new HTTPException(404, { message: 'Deployment not found' });
+      }
+
+      try {
+        const events = await deploymentEventsService.getDeploymentEvents(deployment);
+        return c.json<DeploymentEventsResponse>({ events });
+      } catch (error) {
+        const { message, statusCode } = handleK8sError(error, {
+          operation: 'listDeploymentEvents',
+          deploymentName: name,
+          namespace: resolvedNamespace,
+        });
+        throw new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, {
+          message: `Failed to list events: ${message}`,
+        });
+      }
+    }
+  )
   .get(
     '/:name/logs',
     zValidator('param', deploymentParamsSchema),
@@ -0,0 +1,96 @@
+import { Hono, type Context } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { HTTPException } from 'hono/http-exception';
+import { modelGatewayService, toRelayResponse, GatewayError } from '../services/gateway';
+import { gatewayUsageService } from '../services/gatewayUsage';
+import { meterResponse } from '../lib/usage-meter';
+import logger from '../lib/logger';
+import type { GatewayApiKey, GatewayModelList } from '@kubefoundry/shared';
+
+/**
+ * Set by the gateway auth middleware when the request carries an API key
+ */
+type GatewayEnv = { Variables: { apiKey?: GatewayApiKey } };
+
+/**
+ * Any OpenAI-compatible request body; only the model is needed for routing
+ */
+const inferenceRequestSchema = z.object({
+  model: z.string().min(1, 'model is required'),
+  stream: z.boolean().optional(),
+  stream_options: z.record(z.unknown()).optional(),
+}).passthrough();
+
+type InferenceRequest = z.infer<typeof inferenceRequestSchema>;
+
+/**
+ * Route a request to the next ready backend for its model and relay the response.
+ * Requests made with an API key are checked against its scope and rate limits,
+ * and their tokens are accounted once the response has been read.
+ */
+async function forwardToModel(c: Context<GatewayEnv>, path: string, body: InferenceRequest) {
+  const apiKey = c.get('apiKey');
+
+  if (apiKey) {
+    if (apiKey.models.length > 0 && !apiKey.models.includes(body.model)) {
+      throw new HTTPException(403, { message: `API key '${apiKey.name}' may not use model '${body.model}'` });
+    }
+
+    const limit = gatewayUsageService.checkRateLimit(apiKey);
+    if (!limit.allowed) {
+      return c.json(
+        { error: { message: limit.message, statusCode: 429 } },
+        429,
+        { 'Retry-After': String(limit.retryAfterSeconds) }
+      );
+    }
+  }
+
+  // Ask streamed responses for a final usage chunk so tokens can be accounted exactly
+  const upstreamBody = apiKey && body.stream && !body.stream_options
+    ? { ...body, stream_options: { include_usage: true } }
+    : body;
+
+  try {
+    const backend = await modelGatewayService.resolveBackend(body.model, apiKey);
+    // Only requests that reach a model count against the key's request limit
+    if (apiKey) {
+      gatewayUsageService.countRequest(apiKey);
+    }
+    const response = toRelayResponse(await modelGatewayService.forward(backend, path, upstreamBody, c.req.raw.signal));
+
+    if (!apiKey) {
+      return response;
+    }
+    return meterResponse(response, (usage) => {
+      gatewayUsageService.recordUsage(apiKey, body.model, usage)
+        .catch((error) => logger.warn({ error, keyId: apiKey.id }, 'Failed to record gateway usage'));
+    });
+  } catch (error) {
+    if (error instanceof GatewayError) {
+      throw new HTTPException(error.statusCode, { message: error.message });
+    }
+    throw error;
+  }
+}
+
+/**
+ * OpenAI-compatible gateway, mounted at /v1
+ */
+const gateway = new Hono<GatewayEnv>()
+  .get('/models', async (c) => {
+    const models = await modelGatewayService.listModels(c.get('apiKey'));
+    return c.json<GatewayModelList>({ object: 'list', data: models });
+  })
+  .post('/chat/completions', zValidator('json', inferenceRequestSchema), async (c) =>
+    forwardToModel(c, '/v1/chat/completions', c.req.valid('json'))
+  )
+  .post('/completions', zValidator('json', inferenceRequestSchema), async (c) =>
+    forwardToModel(c, '/v1/completions', c.req.valid('json'))
+  )
+  .post('/embeddings', zValidator('json', inferenceRequestSchema), async (c) =>
+    forwardToModel(c, '/v1/embeddings', c.req.valid('json'))
+  );
+
+export default gateway;
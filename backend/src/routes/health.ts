@@ -3,6 +3,7 @@ import { kubernetesService } from '../services/kubernetes';
 import { configService } from '../services/config';
 import { BUILD_INFO } from '../build-info';
 import logger from '../lib/logger';
+import type { NodePoolsResponse } from '@kubefoundry/shared';
 
 const health = new Hono()
   .get('/', (c) => {
@@ -48,6 +49,11 @@ const health = new Hono()
       logger.error({ error }, 'Error getting cluster nodes');
       return c.json({ nodes: [] });
     }
+  })
+  .get('/node-pools', async (c) => {
+    // getAllNodePools logs and returns no pools when the cluster can't be reached
+    const nodePools = await kubernetesService.getAllNodePools();
+    return c.json<NodePoolsResponse>({ nodePools });
   });
 
 export default health;
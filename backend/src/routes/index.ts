@@ -10,3 +10,7 @@ export { default as runtimes } from './runtimes';
 export { default as aikit } from './aikit';
 export { default as aiconfigurator } from './aiconfigurator';
 export { costsRoutes as costs } from './costs';
+export { default as gateway } from './gateway';
+export { default as apiKeys } from './apikeys';
+export { default as usage } from './usage';
+export { default as telemetry } from './telemetry';
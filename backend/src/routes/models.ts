@@ -3,6 +3,11 @@ import { zValidator } from '@hono/zod-validator';
 import { z } from 'zod';
 import { HTTPException } from 'hono/http-exception';
 import { huggingFaceService } from '../services/huggingface';
+import { modelCacheService, ModelCacheError } from '../services/modelCache';
+import { configService } from '../services/config';
+import { modelCacheSchema } from '../providers/types';
+import { handleK8sError } from '../lib/k8s-errors';
+import { namespaceSchema, resourceNameSchema } from '../lib/validation';
 import models from '../data/models.json';
 import logger from '../lib/logger';
 
@@ -20,6 +25,26 @@ const modelSearchQuerySchema = z.object({
     .pipe(z.number().int().min(0)),
 });
 
+const prefetchRequestSchema = z.object({
+  modelId: z.string().min(1),
+  namespace: namespaceSchema.optional(),
+  modelCache: modelCacheSchema,
+  revision: z.string().min(1).optional(),
+  hfTokenSecret: resourceNameSchema.optional(),
+});
+
+const prefetchQuerySchema = z.object({
+  namespace: namespaceSchema.optional(),
+});
+
+function toPrefetchHttpError(error: unknown, operation: string, namespace: string): HTTPException {
+  if (error instanceof ModelCacheError) {
+    return new HTTPException(error.statusCode, { message: error.message });
+  }
+  const { message, statusCode } = handleK8sError(error, { operation, namespace });
+  return new HTTPException(statusCode as 400 | 403 | 404 | 409 | 422 | 500, { message });
+}
+
 const modelsRoute = new Hono()
   .get('/', (c) => {
     return c.json({ models: models.models });
@@ -44,6 +69,45 @@ const modelsRoute = new Hono()
       });
     }
   })
+  .post('/prefetch', zValidator('json', prefetchRequestSchema), async (c) => {
+    const request = c.req.valid('json');
+    const namespace = request.namespace || (await configService.getDefaultNamespace());
+
+    try {
+      // The Job runs in the background; poll its status for progress
+      const prefetch = await modelCacheService.startPrefetch(namespace, request);
+      return c.json(prefetch, 202);
+    } catch (error) {
+      throw toPrefetchHttpError(error, 'startPrefetch', namespace);
+    }
+  })
+  .get('/prefetch', zValidator('query', prefetchQuerySchema), async (c) => {
+    const { namespace } = c.req.valid('query');
+    const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+    try {
+      const prefetches = await modelCacheService.listPrefetches(resolvedNamespace);
+      return c.json({ prefetches });
+    } catch (error) {
+      throw toPrefetchHttpError(error, 'listPrefetches', resolvedNamespace);
+    }
+  })
+  .get(
+    '/prefetch/:name',
+    zValidator('param', z.object({ name: resourceNameSchema })),
+    zValidator('query', prefetchQuerySchema),
+    async (c) => {
+      const { name } = c.req.valid('param');
+      const { namespace } = c.req.valid('query');
+      const resolvedNamespace = namespace || (await configService.getDefaultNamespace());
+
+      try {
+        return c.json(await modelCacheService.getPrefetch(name, resolvedNamespace));
+      } catch (error) {
+        throw toPrefetchHttpError(error, 'getPrefetch', resolvedNamespace);
+      }
+    }
+  )
   .get('/:modelId{.+}/gguf-files', async (c) => {
     const modelId = c.req.param('modelId');
     
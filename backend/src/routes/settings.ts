@@ -9,6 +9,8 @@ import logger from '../lib/logger';
 
 const updateSettingsSchema = z.object({
   defaultNamespace: z.string().optional(),
+  // An empty string clears the Prometheus server
+  prometheusUrl: z.union([z.string().url().regex(/^https?:\/\//, 'Must be an http or https URL'), z.literal('')]).optional(),
 });
 
 const providerIdParamsSchema = z.object({
@@ -58,6 +60,7 @@ const settings = new Hono()
       name: provider.name,
       description: provider.description,
       defaultNamespace: provider.defaultNamespace,
+      capabilities: provider.getCapabilities(),
       crdConfig: provider.getCRDConfig(),
       installationSteps: provider.getInstallationSteps(),
       helmRepos: provider.getHelmRepos(),
@@ -0,0 +1,14 @@
+import { Hono } from 'hono';
+import { telemetry as registry } from '../lib/telemetry';
+
+const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * KubeFoundry's own metrics for Prometheus to scrape. Served outside /api so
+ * scrapers need no token, like a kubelet or operator metrics endpoint.
+ */
+const telemetry = new Hono().get('/', (c) => {
+  return c.body(registry.render(), 200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+});
+
+export default telemetry;
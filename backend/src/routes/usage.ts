@@ -0,0 +1,52 @@
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { z } from 'zod';
+import { HTTPException } from 'hono/http-exception';
+import { gatewayUsageService } from '../services/gatewayUsage';
+import { apiKeyService } from '../services/apiKeys';
+import logger from '../lib/logger';
+import type { GatewayUsageResponse } from '@kubefoundry/shared';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+const usageQuerySchema = z.object({
+  keyId: z.string().min(1).optional(),
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+});
+
+/**
+ * Model gateway usage for chargeback, mounted at /api/usage
+ */
+const usage = new Hono()
+  .get('/', zValidator('query', usageQuerySchema), async (c) => {
+    const query = c.req.valid('query');
+
+    try {
+      const { records, totals } = await gatewayUsageService.getUsage(query);
+
+      // Revoked keys keep their usage but no longer have a name
+      const names = new Map<string, string>();
+      try {
+        for (const key of await apiKeyService.listKeys()) {
+          names.set(key.id, key.name);
+        }
+      } catch (error) {
+        logger.warn({ error: error instanceof Error ? error.message : error }, 'Could not read API key names for usage');
+      }
+
+      return c.json<GatewayUsageResponse>({
+        from: query.from,
+        to: query.to,
+        records,
+        totals: totals.map((total) => ({ ...total, keyName: names.get(total.keyId) })),
+      });
+    } catch (error) {
+      logger.error({ error }, 'Failed to get gateway usage');
+      throw new HTTPException(500, {
+        message: error instanceof Error ? error.message : 'Failed to get usage',
+      });
+    }
+  });
+
+export default usage;
@@ -0,0 +1,108 @@
+import { describe, test, expect } from 'bun:test';
+import { ApiKeyService, hashApiKey, type ApiKeyStore } from './apiKeys';
+
+/**
+ * In-memory store that, like the API server, rejects writes based on a stale read
+ */
+function memoryStore(initial: Record<string, string> = {}): ApiKeyStore & { records: Record<string, string> } {
+  let version = 1;
+  return {
+    records: { ...initial },
+    async load() {
+      // Yield so concurrent callers read before either writes
+      await Promise.resolve();
+      return { records: { ...this.records }, version: String(version) };
+    },
+    async save(records, readVersion) {
+      if (readVersion !== String(version)) {
+        throw Object.assign(new Error('Conflict'), { statusCode: 409 });
+      }
+      this.records = { ...records };
+      version += 1;
+    },
+  };
+}
+
+describe('ApiKeyService', () => {
+  test('creates a key that authenticates and only stores its hash', async () => {
+    const store = memoryStore();
+    const service = new ApiKeyService(store);
+
+    const { key, apiKey } = await service.createKey({ name: 'team-a', models: ['qwen'], requestsPerMinute: 10 });
+
+    expect(key.startsWith('kf-')).toBe(true);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(apiKey.models).toEqual(['qwen']);
+    expect(apiKey.namespaces).toEqual([]);
+
+    const stored = store.records[apiKey.id];
+    expect(stored).not.toContain(key);
+    expect(JSON.parse(stored).hash).toBe(hashApiKey(key));
+
+    expect(await service.authenticate(key)).toEqual(apiKey);
+    expect(await service.authenticate('kf-wrong')).toBeNull();
+    expect(await service.authenticate('not-a-gateway-key')).toBeNull();
+  });
+
+  test('lists keys without hashes and revokes them', async () => {
+    const service = new ApiKeyService(memoryStore());
+    expect(await service.hasKeys()).toBe(false);
+
+    const { key, apiKey } = await service.createKey({ name: 'team-a' });
+    const keys = await service.listKeys();
+    expect(keys).toHaveLength(1);
+    expect(keys[0]).not.toHaveProperty('hash');
+    expect(await service.hasKeys()).toBe(true);
+
+    expect(await service.revokeKey(apiKey.id)).toBe(true);
+    expect(await service.revokeKey(apiKey.id)).toBe(false);
+    expect(await service.authenticate(key)).toBeNull();
+    expect(await service.hasKeys()).toBe(false);
+  });
+
+  test('keeps every key when keys are created concurrently', async () => {
+    const store = memoryStore();
+    const service = new ApiKeyService(store);
+    const otherReplica = new ApiKeyService(store);
+
+    const created = await Promise.all([
+      service.createKey({ name: 'a' }),
+      service.createKey({ name: 'b' }),
+      otherReplica.createKey({ name: 'c' }),
+    ]);
+
+    expect(Object.keys(store.records).sort()).toEqual(created.map(({ apiKey }) => apiKey.id).sort());
+    for (const { key } of created) {
+      expect(await otherReplica.authenticate(key)).not.toBeNull();
+    }
+  });
+
+  test('does not restore a key revoked while another replica creates one', async () => {
+    const store = memoryStore();
+    const service = new ApiKeyService(store);
+    const otherReplica = new ApiKeyService(store);
+    const { key: revokedKey, apiKey } = await service.createKey({ name: 'old' });
+
+    const [revoked, { key }] = await Promise.all([
+      service.revokeKey(apiKey.id),
+      otherReplica.createKey({ name: 'new' }),
+    ]);
+
+    expect(revoked).toBe(true);
+    const reader = new ApiKeyService(store);
+    expect(Object.keys(store.records)).toHaveLength(1);
+    expect(await reader.authenticate(revokedKey)).toBeNull();
+    expect(await reader.authenticate(key)).not.toBeNull();
+  });
+
+  test('throws when keys cannot be loaded rather than reporting none', async () => {
+    const service = new ApiKeyService({
+      load: async () => {
+        throw new Error('forbidden');
+      },
+      save: async () => {},
+    });
+
+    await expect(service.hasKeys()).rejects.toThrow('forbidden');
+  });
+});
@@ -0,0 +1,292 @@
+import * as k8s from '@kubernetes/client-node';
+import { createHash, randomBytes } from 'crypto';
+import type { CreateGatewayApiKeyRequest, GatewayApiKey } from '@kubefoundry/shared';
+import { CONFIG_NAMESPACE } from './config';
+import { withRetry, isK8sRetryableError } from '../lib/retry';
+import { isConflictError } from '../lib/k8s-errors';
+import logger from '../lib/logger';
+
+const API_KEYS_SECRET_NAME = 'kubefoundry-gateway-keys';
+
+/** Every gateway key starts with this, which tells them apart from Kubernetes tokens */
+export const API_KEY_PREFIX = 'kf-';
+
+/** How long keys read from the Secret are trusted, so revocations reach every replica */
+const KEYS_CACHE_TTL_MS = 30000;
+
+/**
+ * A key as persisted: its public fields plus the SHA-256 of the secret
+ */
+interface StoredApiKey extends GatewayApiKey {
+  hash: string;
+}
+
+/**
+ * Serialized keys by key id, with the version they were read at
+ */
+export interface StoredApiKeys {
+  records: Record<string, string>;
+  /** Absent when nothing has been stored yet */
+  version?: string;
+}
+
+/**
+ * Where serialized keys are persisted; injectable for tests.
+ * save fails with a 409 when the keys changed since `version` was read.
+ */
+export interface ApiKeyStore {
+  load(): Promise<StoredApiKeys>;
+  save(records: Record<string, string>, version?: string): Promise<void>;
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_PREFIX);
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Stores keys in a Secret in the KubeFoundry namespace
+ */
+class SecretApiKeyStore implements ApiKeyStore {
+  private coreV1Api: k8s.CoreV1Api;
+
+  constructor() {
+    const kc = new k8s.KubeConfig();
+    try {
+      kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for ApiKeyService');
+    }
+    this.coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+  }
+
+  async load(): Promise<StoredApiKeys> {
+    try {
+      const response = await withRetry(
+        () => this.coreV1Api.readNamespacedSecret(API_KEYS_SECRET_NAME, CONFIG_NAMESPACE),
+        { operationName: 'readApiKeys', maxRetries: 2 }
+      );
+      const records: Record<string, string> = {};
+      for (const [id, value] of Object.entries(response.body.data || {})) {
+        records[id] = Buffer.from(value, 'base64').toString('utf-8');
+      }
+      return { records, version: response.body.metadata?.resourceVersion };
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        return { records: {} };
+      }
+      throw error;
+    }
+  }
+
+  async save(records: Record<string, string>, version?: string): Promise<void> {
+    const secret: k8s.V1Secret = {
+      apiVersion: 'v1',
+      kind: 'Secret',
+      metadata: {
+        name: API_KEYS_SECRET_NAME,
+        namespace: CONFIG_NAMESPACE,
+        resourceVersion: version,
+        labels: {
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          'kubefoundry.io/secret-type': 'gateway-api-keys',
+        },
+      },
+      type: 'Opaque',
+      data: Object.fromEntries(
+        Object.entries(records).map(([id, value]) => [id, Buffer.from(value).toString('base64')])
+      ),
+    };
+
+    // Without a version nothing was stored when the keys were read, so create
+    // the Secret; the API server answers 409 if another writer created it first
+    if (!version) {
+      await withRetry(
+        () => this.coreV1Api.createNamespacedSecret(CONFIG_NAMESPACE, secret),
+        { operationName: 'createApiKeys', maxRetries: 2 }
+      );
+      return;
+    }
+
+    await withRetry(
+      () => this.coreV1Api.replaceNamespacedSecret(API_KEYS_SECRET_NAME, CONFIG_NAMESPACE, secret),
+      { operationName: 'replaceApiKeys', maxRetries: 2 }
+    );
+  }
+}
+
+/**
+ * API Key Service
+ * Creates, revokes and verifies model gateway API keys. Only a hash of each key is stored.
+ */
+export class ApiKeyService {
+  private store: ApiKeyStore;
+  private keys: Map<string, StoredApiKey> | null = null;
+  private loadedAt = 0;
+  private updates: Promise<unknown> = Promise.resolve();
+
+  constructor(store?: ApiKeyStore) {
+    this.store = store || new SecretApiKeyStore();
+  }
+
+  /**
+   * List keys without their hashes, oldest first
+   */
+  async listKeys(): Promise<GatewayApiKey[]> {
+    const keys = await this.getKeys();
+    return [...keys.values()]
+      .map(toPublicKey)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  async getKey(id: string): Promise<GatewayApiKey | null> {
+    const key = (await this.getKeys()).get(id);
+    return key ? toPublicKey(key) : null;
+  }
+
+  /**
+   * Whether any key exists. Once one does, the gateway only accepts API keys.
+   */
+  async hasKeys(): Promise<boolean> {
+    return (await this.getKeys()).size > 0;
+  }
+
+  /**
+   * Create a key. The returned secret is not stored and cannot be shown again.
+   */
+  async createKey(request: CreateGatewayApiKeyRequest): Promise<{ key: string; apiKey: GatewayApiKey }> {
+    const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const stored: StoredApiKey = {
+      id: randomBytes(6).toString('hex'),
+      name: request.name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+      models: request.models || [],
+      namespaces: request.namespaces || [],
+      requestsPerMinute: request.requestsPerMinute,
+      tokensPerMinute: request.tokensPerMinute,
+      createdAt: new Date().toISOString(),
+      hash: hashApiKey(key),
+    };
+
+    await this.update((keys) => {
+      keys.set(stored.id, stored);
+      return true;
+    });
+    logger.info({ id: stored.id, name: stored.name }, 'Created gateway API key');
+
+    return { key, apiKey: toPublicKey(stored) };
+  }
+
+  /**
+   * Revoke a key. Returns false when no key has that id.
+   */
+  async revokeKey(id: string): Promise<boolean> {
+    const revoked = await this.update((keys) => keys.delete(id));
+    if (revoked) {
+      logger.info({ id }, 'Revoked gateway API key');
+    }
+    return revoked;
+  }
+
+  /**
+   * Find the key matching a presented secret
+   */
+  async authenticate(key: string): Promise<GatewayApiKey | null> {
+    if (!isApiKey(key)) {
+      return null;
+    }
+
+    const hash = hashApiKey(key);
+    for (const stored of (await this.getKeys()).values()) {
+      if (stored.hash === hash) {
+        return toPublicKey(stored);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Read keys, from cache while it is fresh. If a refresh fails the previous keys
+   * stay in use; with nothing loaded yet the error is thrown rather than treating
+   * the gateway as having no keys.
+   */
+  private async getKeys(refresh = false): Promise<Map<string, StoredApiKey>> {
+    if (this.keys && !refresh && Date.now() - this.loadedAt < KEYS_CACHE_TTL_MS) {
+      return this.keys;
+    }
+
+    try {
+      const { records } = await this.store.load();
+      return this.setKeys(parseKeys(records));
+    } catch (error) {
+      if (this.keys && !refresh) {
+        logger.warn({ error: error instanceof Error ? error.message : error }, 'Failed to refresh gateway API keys, using cached keys');
+        return this.keys;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Apply a change to freshly read keys and write them back. Changes run one at
+   * a time in this process; when another replica wrote in between, the keys are
+   * read again and the change reapplied. The change returns false to skip the
+   * write, and that is what update returns.
+   */
+  private update(change: (keys: Map<string, StoredApiKey>) => boolean): Promise<boolean> {
+    const run = () => withRetry(
+      async () => {
+        const { records, version } = await this.store.load();
+        const keys = parseKeys(records);
+        if (!change(keys)) {
+          this.setKeys(keys);
+          return false;
+        }
+        await this.store.save(
+          Object.fromEntries([...keys.entries()].map(([id, key]) => [id, JSON.stringify(key)])),
+          version
+        );
+        this.setKeys(keys);
+        return true;
+      },
+      {
+        operationName: 'updateApiKeys',
+        maxRetries: 5,
+        initialDelayMs: 50,
+        isRetryable: (error) => isConflictError(error) || isK8sRetryableError(error),
+      }
+    );
+
+    const result = this.updates.then(run, run);
+    this.updates = result.catch(() => undefined);
+    return result;
+  }
+
+  private setKeys(keys: Map<string, StoredApiKey>): Map<string, StoredApiKey> {
+    this.keys = keys;
+    this.loadedAt = Date.now();
+    return keys;
+  }
+}
+
+function parseKeys(records: Record<string, string>): Map<string, StoredApiKey> {
+  const keys = new Map<string, StoredApiKey>();
+  for (const [id, value] of Object.entries(records)) {
+    try {
+      keys.set(id, JSON.parse(value) as StoredApiKey);
+    } catch {
+      logger.warn({ id }, 'Ignoring malformed gateway API key');
+    }
+  }
+  return keys;
+}
+
+function toPublicKey({ hash: _hash, ...key }: StoredApiKey): GatewayApiKey {
+  return key;
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -63,6 +63,14 @@ class AuthService {
     return authEnabled === 'true' || authEnabled === '1';
   }
 
+  /**
+   * Check if /metrics stays open to anonymous scrapers while auth is enabled
+   */
+  isMetricsPublic(): boolean {
+    const metricsPublic = process.env.METRICS_PUBLIC?.toLowerCase();
+    return metricsPublic === 'true' || metricsPublic === '1';
+  }
+
   /**
    * Validate a bearer token using Kubernetes TokenReview API
    * This delegates trust to the Kubernetes cluster
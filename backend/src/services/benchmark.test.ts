@@ -0,0 +1,265 @@
+import { describe, test, expect, beforeAll, afterAll, afterEach, spyOn } from 'bun:test';
+import * as k8s from '@kubernetes/client-node';
+import type { BenchmarkReport, DeploymentConfig, DeploymentStatus } from '@kubefoundry/shared';
+import {
+  BenchmarkService,
+  BenchmarkError,
+  ConfigMapBenchmarkStore,
+  summarizeLatencies,
+  buildPrompt,
+  type BenchmarkStore,
+} from './benchmark';
+import { RevisionService } from './revisions';
+import { ServiceProxyService } from './serviceProxy';
+
+function memoryStore(): BenchmarkStore & { reports: Map<string, BenchmarkReport> } {
+  return {
+    reports: new Map(),
+    async list(name, namespace) {
+      return [...this.reports.values()]
+        .filter((r) => r.deploymentName === name && r.namespace === namespace)
+        .map((r) => structuredClone(r));
+    },
+    async save(report) {
+      this.reports.set(report.id, structuredClone(report));
+    },
+    async delete(_name, _namespace, id) {
+      return this.reports.delete(id);
+    },
+  };
+}
+
+const deployment: DeploymentStatus = {
+  name: 'qwen',
+  namespace: 'default',
+  modelId: 'Qwen/Qwen3-0.6B',
+  engine: 'vllm',
+  mode: 'aggregated',
+  phase: 'Running',
+  provider: 'dynamo',
+  replicas: { desired: 1, ready: 1, available: 1 },
+  pods: [],
+  createdAt: '2025-01-01T00:00:00Z',
+  frontendService: 'qwen-frontend:8000',
+};
+
+/**
+ * Stand in for the ConfigMap API of one namespace, honouring equality and
+ * existence label selectors
+ */
+function mockConfigMapApi(): { configMaps: Map<string, k8s.V1ConfigMap>; restore: () => void } {
+  const configMaps = new Map<string, k8s.V1ConfigMap>();
+  const matches = (configMap: k8s.V1ConfigMap, selector = '') => selector.split(',').filter(Boolean).every((term) => {
+    const [key, value] = term.split('=');
+    const label = configMap.metadata?.labels?.[key];
+    return value === undefined ? label !== undefined : label === value;
+  });
+  const notFound = () => Object.assign(new Error('Not Found'), { statusCode: 404 });
+  const api = k8s.CoreV1Api.prototype;
+
+  const spies = [
+    spyOn(api, 'listNamespacedConfigMap').mockImplementation((async (
+      _namespace: string, _pretty?: string, _bookmarks?: boolean, _continue?: string, _fieldSelector?: string, labelSelector?: string
+    ) => ({ body: { items: [...configMaps.values()].filter((cm) => matches(cm, labelSelector)) } })) as any),
+    spyOn(api, 'createNamespacedConfigMap').mockImplementation((async (_namespace: string, body: k8s.V1ConfigMap) => {
+      configMaps.set(body.metadata!.name!, body);
+      return { body };
+    }) as any),
+    spyOn(api, 'replaceNamespacedConfigMap').mockImplementation((async (name: string, _namespace: string, body: k8s.V1ConfigMap) => {
+      if (!configMaps.has(name)) throw notFound();
+      configMaps.set(name, body);
+      return { body };
+    }) as any),
+    spyOn(api, 'deleteNamespacedConfigMap').mockImplementation((async (name: string) => {
+      if (!configMaps.delete(name)) throw notFound();
+      return { body: {} };
+    }) as any),
+    spyOn(api, 'deleteCollectionNamespacedConfigMap').mockImplementation((async (
+      _namespace: string, _pretty?: string, _continue?: string, _dryRun?: string, _fieldSelector?: string, _grace?: number, labelSelector?: string
+    ) => {
+      for (const [name, configMap] of configMaps) {
+        if (matches(configMap, labelSelector)) configMaps.delete(name);
+      }
+      return { body: {} };
+    }) as any),
+  ];
+
+  return { configMaps, restore: () => spies.forEach((spy) => spy.mockRestore()) };
+}
+
+describe('summarizeLatencies', () => {
+  test('computes mean and nearest-rank percentiles', () => {
+    const values = Array.from({ length: 100 }, (_, i) => i + 1);
+    expect(summarizeLatencies(values)).toEqual({ mean: 50.5, p50: 50, p95: 95, p99: 99 });
+  });
+
+  test('returns zeros without samples', () => {
+    expect(summarizeLatencies([])).toEqual({ mean: 0, p50: 0, p95: 0, p99: 0 });
+  });
+});
+
+describe('buildPrompt', () => {
+  test('produces about one word per requested token', () => {
+    expect(buildPrompt(100).split(' ').length).toBe(100);
+  });
+});
+
+describe('ConfigMapBenchmarkStore', () => {
+  let api: ReturnType<typeof mockConfigMapApi>;
+
+  afterEach(() => {
+    api.restore();
+  });
+
+  test('keeps reports when the deployment\'s revisions are deleted', async () => {
+    api = mockConfigMapApi();
+    const store = new ConfigMapBenchmarkStore();
+    const revisions = new RevisionService();
+    const report: BenchmarkReport = {
+      id: 'abc123',
+      deploymentName: 'qwen',
+      namespace: 'default',
+      model: 'Qwen/Qwen3-0.6B',
+      status: 'completed',
+      config: { concurrency: [1], inputTokens: 32, outputTokens: 8, requestsPerStep: 8 },
+      results: [],
+      startedAt: '2025-01-01T00:00:00Z',
+    };
+
+    await store.save(report);
+    await revisions.recordRevision(
+      { name: 'qwen', namespace: 'default', modelId: 'Qwen/Qwen3-0.6B', engine: 'vllm' } as DeploymentConfig,
+      {},
+      'Created'
+    );
+    expect(api.configMaps.size).toBe(2);
+
+    await revisions.deleteRevisions('qwen', 'default');
+    expect(await revisions.listRevisions('qwen', 'default')).toEqual([]);
+    expect(await store.list('qwen', 'default')).toEqual([report]);
+  });
+});
+
+describe('BenchmarkService', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let proxy: ServiceProxyService;
+  const requests: Array<{ path: string; body: any }> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  beforeAll(() => {
+    // Stands in for the API server proxying to an OpenAI-compatible model server
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        requests.push({ path: new URL(req.url).pathname, body });
+        if (body.model !== 'Qwen/Qwen3-0.6B') {
+          return Response.json({ error: { message: 'unknown model' } }, { status: 404 });
+        }
+
+        inFlight += 1;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        const encoder = new TextEncoder();
+        const stream = new ReadableStream({
+          async start(controller) {
+            for (let i = 0; i < body.max_tokens; i++) {
+              await Bun.sleep(2);
+              controller.enqueue(encoder.encode(`data: ${JSON.stringify({ choices: [{ delta: { content: 'tok' } }] })}\n\n`));
+            }
+            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
+              choices: [],
+              usage: { prompt_tokens: 10, completion_tokens: body.max_tokens },
+            })}\n\ndata: [DONE]\n\n`));
+            inFlight -= 1;
+            controller.close();
+          },
+        });
+        return new Response(stream, { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    });
+
+    const kc = new k8s.KubeConfig();
+    kc.loadFromOptions({
+      clusters: [{ name: 'test', server: `http://127.0.0.1:${server.port}`, skipTLSVerify: true }],
+      users: [{ name: 'test', token: 'secret-token' }],
+      contexts: [{ name: 'test', cluster: 'test', user: 'test' }],
+      currentContext: 'test',
+    });
+    proxy = new ServiceProxyService(kc);
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('runs a concurrency sweep and stores the report', async () => {
+    const store = memoryStore();
+    const service = new BenchmarkService(store, proxy);
+
+    const { report, completion } = await service.startBenchmark(deployment, {
+      concurrency: [1, 4],
+      inputTokens: 32,
+      outputTokens: 8,
+      requestsPerStep: 8,
+    });
+    expect(report.status).toBe('running');
+
+    const final = await completion;
+    expect(final.status).toBe('completed');
+    expect(final.results.map((r) => r.concurrency)).toEqual([1, 4]);
+    expect(maxInFlight).toBe(4);
+
+    for (const step of final.results) {
+      expect(step.completedRequests).toBe(8);
+      expect(step.failedRequests).toBe(0);
+      expect(step.ttftMs.p50).toBeGreaterThan(0);
+      expect(step.itlMs.p50).toBeGreaterThan(0);
+      expect(step.latencyMs.p99).toBeGreaterThanOrEqual(step.latencyMs.p50);
+      expect(step.outputTokensPerSecond).toBeGreaterThan(0);
+    }
+
+    const sent = requests.at(-1)!;
+    expect(sent.path).toBe('/api/v1/namespaces/default/services/qwen-frontend:8000/proxy/v1/chat/completions');
+    expect(sent.body).toMatchObject({ model: 'Qwen/Qwen3-0.6B', max_tokens: 8, stream: true });
+
+    const reports = await service.listReports('qwen', 'default');
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toEqual(final);
+  });
+
+  test('fails the report when every request fails', async () => {
+    const service = new BenchmarkService(memoryStore(), proxy);
+
+    const { completion } = await service.startBenchmark(
+      { ...deployment, servedModelName: 'missing' },
+      { concurrency: [2], inputTokens: 8, outputTokens: 4, requestsPerStep: 2 }
+    );
+
+    const final = await completion;
+    expect(final.status).toBe('failed');
+    expect(final.error).toContain('HTTP 404');
+    expect(final.results[0].failedRequests).toBe(2);
+  });
+
+  test('allows one running benchmark per deployment and reports interrupted ones as failed', async () => {
+    const store = memoryStore();
+    const service = new BenchmarkService(store, proxy);
+
+    const { completion } = await service.startBenchmark(deployment, {
+      concurrency: [1],
+      inputTokens: 8,
+      outputTokens: 4,
+      requestsPerStep: 2,
+    });
+    await expect(service.startBenchmark(deployment, { concurrency: [1], inputTokens: 8, outputTokens: 4 }))
+      .rejects.toBeInstanceOf(BenchmarkError);
+    await completion;
+
+    // Left running by another process
+    await store.save({ ...(await service.listReports('qwen', 'default'))[0], id: 'stale', status: 'running' });
+    const stale = await service.getReport('qwen', 'default', 'stale');
+    expect(stale?.status).toBe('failed');
+    expect(stale?.error).toBe('Benchmark was interrupted');
+  });
+});
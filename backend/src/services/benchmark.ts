@@ -0,0 +1,480 @@
+import * as k8s from '@kubernetes/client-node';
+import { randomBytes } from 'crypto';
+import type {
+  BenchmarkConfig,
+  BenchmarkReport,
+  BenchmarkStepResult,
+  DeploymentStatus,
+  LatencyStats,
+} from '@kubefoundry/shared';
+import { serviceProxyService, ServiceProxyService } from './serviceProxy';
+import { getInferenceService, getServedModelName } from './gateway';
+import { aiConfiguratorService } from './aiconfigurator';
+import { LineSplitter } from './logStream';
+import { REVISION_DEPLOYMENT_LABEL } from './revisions';
+import { withRetry } from '../lib/retry';
+import logger from '../lib/logger';
+
+/**
+ * Label holding a benchmark report's id. It also marks a ConfigMap as a report:
+ * reports share the deployment label with revisions, so they are always
+ * selected on this label as well.
+ */
+export const BENCHMARK_ID_LABEL = 'kubefoundry.io/benchmark';
+
+const REPORT_KEY = 'report.json';
+
+/**
+ * Number of reports kept per deployment; older ones are pruned
+ */
+const BENCHMARK_HISTORY_LIMIT = 20;
+
+// A single benchmark request may legitimately take minutes for long outputs
+const BENCHMARK_REQUEST_TIMEOUT_MS = 300000;
+
+// Distinct request errors kept per step
+const MAX_STEP_ERRORS = 5;
+
+/**
+ * Raised when a benchmark cannot be started or found
+ */
+export class BenchmarkError extends Error {
+  constructor(message: string, public statusCode: 404 | 409) {
+    super(message);
+    this.name = 'BenchmarkError';
+  }
+}
+
+/**
+ * Where reports are persisted; injectable for tests
+ */
+export interface BenchmarkStore {
+  list(name: string, namespace: string): Promise<BenchmarkReport[]>;
+  save(report: BenchmarkReport): Promise<void>;
+  delete(name: string, namespace: string, id: string): Promise<boolean>;
+}
+
+/**
+ * A chunk of a streamed chat completion
+ */
+interface ChatCompletionChunk {
+  usage?: { completion_tokens?: number } | null;
+  choices?: Array<{ text?: string | null; delta?: { content?: string | null } }>;
+}
+
+/**
+ * Measurements of one successful request
+ */
+interface RequestSample {
+  ttftMs: number;
+  /** Null when the request produced a single token */
+  itlMs: number | null;
+  latencyMs: number;
+  outputTokens: number;
+}
+
+/**
+ * Stores each report in a ConfigMap next to its deployment
+ */
+export class ConfigMapBenchmarkStore implements BenchmarkStore {
+  private coreV1Api: k8s.CoreV1Api;
+
+  constructor() {
+    const kc = new k8s.KubeConfig();
+    try {
+      kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for BenchmarkService');
+    }
+    this.coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+  }
+
+  private getConfigMapName(name: string, id: string): string {
+    return `${name}-bench-${id}`;
+  }
+
+  async list(name: string, namespace: string): Promise<BenchmarkReport[]> {
+    const response = await withRetry(
+      () => this.coreV1Api.listNamespacedConfigMap(
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        `${REVISION_DEPLOYMENT_LABEL}=${name},${BENCHMARK_ID_LABEL}`
+      ),
+      { operationName: 'listBenchmarks' }
+    );
+
+    const reports: BenchmarkReport[] = [];
+    for (const configMap of response.body.items) {
+      try {
+        reports.push(JSON.parse(configMap.data?.[REPORT_KEY] || '') as BenchmarkReport);
+      } catch {
+        logger.warn({ configMap: configMap.metadata?.name }, 'Failed to parse benchmark ConfigMap');
+      }
+    }
+    return reports;
+  }
+
+  async save(report: BenchmarkReport): Promise<void> {
+    const configMap: k8s.V1ConfigMap = {
+      metadata: {
+        name: this.getConfigMapName(report.deploymentName, report.id),
+        namespace: report.namespace,
+        labels: {
+          // No app.kubernetes.io/instance label, so reports are not listed among the deployment's resources
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          [REVISION_DEPLOYMENT_LABEL]: report.deploymentName,
+          [BENCHMARK_ID_LABEL]: report.id,
+        },
+      },
+      data: {
+        [REPORT_KEY]: JSON.stringify(report),
+      },
+    };
+    const configMapName = configMap.metadata!.name!;
+
+    try {
+      await withRetry(
+        () => this.coreV1Api.replaceNamespacedConfigMap(configMapName, report.namespace, configMap),
+        { operationName: 'replaceBenchmark', maxRetries: 2 }
+      );
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode !== 404) {
+        throw error;
+      }
+      await withRetry(
+        () => this.coreV1Api.createNamespacedConfigMap(report.namespace, configMap),
+        { operationName: 'createBenchmark', maxRetries: 2 }
+      );
+    }
+  }
+
+  async delete(name: string, namespace: string, id: string): Promise<boolean> {
+    try {
+      await withRetry(
+        () => this.coreV1Api.deleteNamespacedConfigMap(this.getConfigMapName(name, id), namespace),
+        { operationName: 'deleteBenchmark', maxRetries: 2 }
+      );
+      return true;
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Nearest-rank percentile of sorted values
+ */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(rank, 1)) - 1];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Mean and percentiles of a set of latencies
+ */
+export function summarizeLatencies(values: number[]): LatencyStats {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.length > 0 ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0;
+  return {
+    mean: round(mean),
+    p50: round(percentile(sorted, 50)),
+    p95: round(percentile(sorted, 95)),
+    p99: round(percentile(sorted, 99)),
+  };
+}
+
+/**
+ * A prompt of roughly the given number of tokens. Common short words are about one token each.
+ */
+export function buildPrompt(tokens: number): string {
+  const words = ['the', 'quick', 'brown', 'fox', 'jumps', 'over', 'a', 'lazy', 'dog'];
+  const filler = Array.from({ length: Math.max(tokens - 9, 1) }, (_, i) => words[i % words.length]);
+  return `Continue this text for as long as you can: ${filler.join(' ')}`;
+}
+
+/**
+ * Read a streamed chat completion, timing its tokens
+ */
+async function measureStream(response: Response, start: number): Promise<RequestSample> {
+  if (!response.body) {
+    throw new Error('Empty response');
+  }
+
+  const tokenTimes: number[] = [];
+  let reportedTokens: number | undefined;
+
+  const splitter = new LineSplitter((line) => {
+    if (!line.startsWith('data:')) return;
+    const data = line.slice(5).trim();
+    if (!data || data === '[DONE]') return;
+    try {
+      const payload = JSON.parse(data) as ChatCompletionChunk;
+      if (payload.usage?.completion_tokens) {
+        reportedTokens = payload.usage.completion_tokens;
+      }
+      if (payload.choices?.some((choice) => choice.delta?.content || choice.text)) {
+        tokenTimes.push(performance.now());
+      }
+    } catch {
+      // Not a JSON event
+    }
+  });
+
+  const decoder = new TextDecoder();
+  const reader = response.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    splitter.push(decoder.decode(value, { stream: true }));
+  }
+  splitter.flush();
+
+  const end = performance.now();
+  if (tokenTimes.length === 0) {
+    throw new Error('No tokens received');
+  }
+
+  // Servers may send several tokens per chunk, so spread the decode time over the reported count
+  const outputTokens = reportedTokens || tokenTimes.length;
+  return {
+    ttftMs: tokenTimes[0] - start,
+    itlMs: outputTokens > 1 ? (tokenTimes[tokenTimes.length - 1] - tokenTimes[0]) / (outputTokens - 1) : null,
+    latencyMs: end - start,
+    outputTokens,
+  };
+}
+
+/**
+ * Benchmark Service
+ * Runs synthetic load against a deployment's OpenAI-compatible endpoint over a sweep of
+ * concurrency levels, and keeps the results as reports next to the deployment.
+ */
+export class BenchmarkService {
+  private store: BenchmarkStore;
+  private proxy: ServiceProxyService;
+  /** Running benchmarks by report id */
+  private running = new Map<string, AbortController>();
+
+  constructor(store?: BenchmarkStore, proxy: ServiceProxyService = serviceProxyService) {
+    this.store = store || new ConfigMapBenchmarkStore();
+    this.proxy = proxy;
+  }
+
+  /**
+   * List a deployment's reports, newest first. Reports left running by a previous
+   * process are shown as failed.
+   */
+  async listReports(name: string, namespace: string): Promise<BenchmarkReport[]> {
+    const reports = await this.store.list(name, namespace);
+    return reports
+      .map((report) => report.status === 'running' && !this.running.has(report.id)
+        ? { ...report, status: 'failed' as const, error: report.error || 'Benchmark was interrupted' }
+        : report)
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+  }
+
+  async getReport(name: string, namespace: string, id: string): Promise<BenchmarkReport | null> {
+    return (await this.listReports(name, namespace)).find((report) => report.id === id) || null;
+  }
+
+  /**
+   * Start a benchmark in the background. Returns the report as first saved, and a
+   * promise of the final report.
+   */
+  async startBenchmark(
+    deployment: DeploymentStatus,
+    config: BenchmarkConfig
+  ): Promise<{ report: BenchmarkReport; completion: Promise<BenchmarkReport> }> {
+    const reports = await this.listReports(deployment.name, deployment.namespace);
+    const active = reports.find((report) => report.status === 'running');
+    if (active) {
+      throw new BenchmarkError(`Benchmark '${active.id}' is already running for '${deployment.name}'`, 409);
+    }
+
+    const report: BenchmarkReport = {
+      id: randomBytes(4).toString('hex'),
+      deploymentName: deployment.name,
+      namespace: deployment.namespace,
+      model: getServedModelName(deployment),
+      status: 'running',
+      config,
+      results: [],
+      startedAt: new Date().toISOString(),
+    };
+    await this.store.save(report);
+
+    const controller = new AbortController();
+    this.running.set(report.id, controller);
+    logger.info({ id: report.id, name: deployment.name, namespace: deployment.namespace, config }, 'Starting benchmark');
+
+    const completion = this.run(report, deployment, controller.signal)
+      .finally(() => this.running.delete(report.id));
+    await this.prune(reports);
+
+    return { report: { ...report }, completion };
+  }
+
+  /**
+   * Delete a report, stopping the benchmark if it is still running
+   */
+  async deleteReport(name: string, namespace: string, id: string): Promise<boolean> {
+    this.running.get(id)?.abort();
+    return this.store.delete(name, namespace, id);
+  }
+
+  private async run(report: BenchmarkReport, deployment: DeploymentStatus, signal: AbortSignal): Promise<BenchmarkReport> {
+    const address = getInferenceService(deployment);
+    const body = {
+      model: report.model,
+      messages: [{ role: 'user', content: buildPrompt(report.config.inputTokens) }],
+      max_tokens: report.config.outputTokens,
+      // Keep generating to max_tokens so every request has the configured output length
+      ignore_eos: true,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    const send = () => this.proxy.request({
+      namespace: deployment.namespace,
+      ...address,
+      path: '/v1/chat/completions',
+      body,
+      signal,
+      timeoutMs: BENCHMARK_REQUEST_TIMEOUT_MS,
+    });
+
+    try {
+      for (const concurrency of report.config.concurrency) {
+        if (signal.aborted) break;
+        const result = await this.runStep(send, concurrency, report.config, signal);
+        report.results.push(result);
+        logger.info({ id: report.id, ...result }, 'Benchmark step finished');
+
+        if (result.completedRequests === 0) {
+          throw new Error(`All requests failed at concurrency ${concurrency}: ${result.errors?.join('; ')}`);
+        }
+        await this.store.save(report);
+      }
+
+      if (report.config.gpuType && !signal.aborted) {
+        report.estimatedPerformance = await this.getEstimate(deployment.modelId, report.config);
+      }
+      report.status = 'completed';
+    } catch (error) {
+      report.status = 'failed';
+      report.error = error instanceof Error ? error.message : String(error);
+      logger.warn({ id: report.id, error: report.error }, 'Benchmark failed');
+    }
+
+    report.completedAt = new Date().toISOString();
+    if (!signal.aborted) {
+      try {
+        await this.store.save(report);
+      } catch (error) {
+        logger.error({ error, id: report.id }, 'Failed to save benchmark report');
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Keep `concurrency` requests in flight until the step's request count or duration is reached
+   */
+  private async runStep(
+    send: () => Promise<Response>,
+    concurrency: number,
+    config: BenchmarkConfig,
+    signal: AbortSignal
+  ): Promise<BenchmarkStepResult> {
+    const totalRequests = config.requestsPerStep ?? (config.durationSeconds ? Infinity : concurrency * 4);
+    const deadline = config.durationSeconds ? performance.now() + config.durationSeconds * 1000 : Infinity;
+    const samples: RequestSample[] = [];
+    const errors = new Set<string>();
+    let started = 0;
+    let failed = 0;
+
+    const worker = async () => {
+      while (started < totalRequests && performance.now() < deadline && !signal.aborted) {
+        started += 1;
+        const start = performance.now();
+        try {
+          const response = await send();
+          if (!response.ok) {
+            const text = await response.text();
+            throw new Error(`HTTP ${response.status}: ${text.slice(0, 200)}`);
+          }
+          samples.push(await measureStream(response, start));
+        } catch (error) {
+          if (signal.aborted) return;
+          failed += 1;
+          if (errors.size < MAX_STEP_ERRORS) {
+            errors.add(error instanceof Error ? error.message : String(error));
+          }
+        }
+      }
+    };
+
+    const stepStart = performance.now();
+    await Promise.all(Array.from({ length: concurrency }, worker));
+    const durationSeconds = (performance.now() - stepStart) / 1000;
+    const outputTokens = samples.reduce((sum, sample) => sum + sample.outputTokens, 0);
+
+    return {
+      concurrency,
+      completedRequests: samples.length,
+      failedRequests: failed,
+      durationSeconds: round(durationSeconds),
+      ttftMs: summarizeLatencies(samples.map((s) => s.ttftMs)),
+      itlMs: summarizeLatencies(samples.flatMap((s) => (s.itlMs === null ? [] : [s.itlMs]))),
+      latencyMs: summarizeLatencies(samples.map((s) => s.latencyMs)),
+      outputTokensPerSecond: durationSeconds > 0 ? round(outputTokens / durationSeconds) : 0,
+      requestsPerSecond: durationSeconds > 0 ? round(samples.length / durationSeconds) : 0,
+      errors: errors.size > 0 ? [...errors] : undefined,
+    };
+  }
+
+  private async getEstimate(modelId: string, config: BenchmarkConfig) {
+    try {
+      const result = await aiConfiguratorService.analyze({
+        modelId,
+        gpuType: config.gpuType!,
+        gpuCount: config.gpuCount || 1,
+      });
+      return result.success ? result.estimatedPerformance : undefined;
+    } catch (error) {
+      logger.warn({ error, modelId }, 'Failed to get AI Configurator estimate for benchmark');
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete the oldest reports beyond the history limit, counting the one just started
+   */
+  private async prune(existing: BenchmarkReport[]): Promise<void> {
+    const stale = existing.slice(BENCHMARK_HISTORY_LIMIT - 1);
+    for (const report of stale) {
+      try {
+        await this.store.delete(report.deploymentName, report.namespace, report.id);
+      } catch (error) {
+        logger.warn({ error, id: report.id }, 'Failed to prune benchmark report');
+      }
+    }
+  }
+}
+
+export const benchmarkService = new BenchmarkService();
@@ -407,6 +407,32 @@ describe('CloudPricingService', () => {
       expect(stats).toHaveProperty('ttlMs');
       expect(stats.ttlMs).toBe(60 * 60 * 1000); // 1 hour
     });
+
+    test('getCacheStats counts cache hits and misses', async () => {
+      mockFetch({
+        Items: [
+          {
+            retailPrice: 3.5,
+            currencyCode: 'USD',
+            armRegionName: 'westus',
+            effectiveStartDate: '2024-01-01',
+            productName: 'Virtual Machines NC Series',
+            meterName: 'NC24ads A100 v4',
+            unitOfMeasure: '1 Hour',
+          },
+        ],
+      });
+      const before = cloudPricingService.getCacheStats();
+
+      await cloudPricingService.getInstancePrice('Standard_NC24ads_A100_v4', 'azure', 'westus');
+      await cloudPricingService.getInstancePrice('Standard_NC24ads_A100_v4', 'azure', 'westus');
+      await cloudPricingService.getInstancePrice('Standard_NC24ads_A100_v4', 'azure', 'westus');
+
+      const stats = cloudPricingService.getCacheStats();
+      expect(stats.misses - before.misses).toBe(1);
+      expect(stats.hits - before.hits).toBe(2);
+      expect(stats.hitRatio).toBe(stats.hits / (stats.hits + stats.misses));
+    });
   });
 
   describe('Azure GPU info mapping', () => {
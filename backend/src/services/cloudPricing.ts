@@ -10,6 +10,7 @@
 
 import { logger } from '../lib/logger';
 import { withRetry } from '../lib/retry';
+import { fetchExternalApi, telemetry } from '../lib/telemetry';
 
 /** Timeout for external API calls in milliseconds */
 const API_TIMEOUT_MS = 10000;
@@ -21,6 +22,8 @@ const MAX_CACHE_ENTRIES = 1000;
 interface PricingCache {
   data: Map<string, CachedPrice>;
   ttlMs: number;
+  hits: number;
+  misses: number;
 }
 
 interface CachedPrice {
@@ -118,6 +121,8 @@ class CloudPricingService {
   private cache: PricingCache = {
     data: new Map(),
     ttlMs: 60 * 60 * 1000, // 1 hour cache
+    hits: 0,
+    misses: 0,
   };
 
   /**
@@ -134,8 +139,10 @@ class CloudPricingService {
     this.cleanExpiredCache();
     const cached = this.cache.data.get(cacheKey);
     if (cached && Date.now() - cached.fetchedAt < this.cache.ttlMs) {
+      this.cache.hits += 1;
       return { success: true, price: cached.price, cached: true };
     }
+    this.cache.misses += 1;
 
     try {
       let price: InstancePrice | undefined;
@@ -241,7 +248,7 @@ class CloudPricingService {
         const timeoutId = setTimeout(() => controller.abort(), API_TIMEOUT_MS);
 
         try {
-          const res = await fetch(url, {
+          const res = await fetchExternalApi('azure-pricing', 'getPrices', url, {
             headers: {
               Accept: 'application/json',
             },
@@ -462,15 +469,32 @@ class CloudPricingService {
   }
 
   /**
-   * Get cache statistics
+   * Get cache statistics. Hits and misses count every lookup since startup.
    */
-  getCacheStats(): { size: number; ttlMs: number; maxEntries: number } {
+  getCacheStats(): { size: number; ttlMs: number; maxEntries: number; hits: number; misses: number; hitRatio: number } {
+    const lookups = this.cache.hits + this.cache.misses;
     return {
       size: this.cache.data.size,
       ttlMs: this.cache.ttlMs,
       maxEntries: MAX_CACHE_ENTRIES,
+      hits: this.cache.hits,
+      misses: this.cache.misses,
+      hitRatio: lookups > 0 ? this.cache.hits / lookups : 0,
     };
   }
 }
 
 export const cloudPricingService = new CloudPricingService();
+
+telemetry.counter('kubefoundry_pricing_cache_hits_total', 'Instance price lookups answered from the cache', () => [
+  { labels: {}, value: cloudPricingService.getCacheStats().hits },
+]);
+telemetry.counter('kubefoundry_pricing_cache_misses_total', 'Instance price lookups that went to the pricing API', () => [
+  { labels: {}, value: cloudPricingService.getCacheStats().misses },
+]);
+telemetry.gauge('kubefoundry_pricing_cache_hit_ratio', 'Share of instance price lookups answered from the cache', () => [
+  { labels: {}, value: cloudPricingService.getCacheStats().hitRatio },
+]);
+telemetry.gauge('kubefoundry_pricing_cache_entries', 'Instance prices currently cached', () => [
+  { labels: {}, value: cloudPricingService.getCacheStats().size },
+]);
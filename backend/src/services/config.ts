@@ -9,9 +9,11 @@ export interface AppConfig {
   /** @deprecated No longer used - each deployment specifies its own provider */
   activeProviderId?: string;
   defaultNamespace?: string;
+  /** Prometheus server deployment metrics are queried from, e.g. http://prometheus.monitoring:9090 */
+  prometheusUrl?: string;
 }
 
-const CONFIG_NAMESPACE = 'kubefoundry-system';
+export const CONFIG_NAMESPACE = 'kubefoundry-system';
 const CONFIG_NAME = 'kubefoundry-config';
 const CONFIG_KEY = 'config.json';
 
@@ -43,6 +45,7 @@ class ConfigService {
   private getDefaultConfig(): AppConfig {
     return {
       defaultNamespace: process.env.DEFAULT_NAMESPACE,
+      prometheusUrl: process.env.PROMETHEUS_URL,
     };
   }
 
@@ -0,0 +1,178 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import type { V1Pod } from '@kubernetes/client-node';
+import { DeploymentWatchService, podBelongsToDeployment, type InformerFactory } from './deploymentWatcher';
+import { dynamoProvider } from '../providers/dynamo';
+
+type Handler = (obj: any) => void;
+
+/**
+ * Minimal in-memory informer that tests drive by hand
+ */
+class FakeInformer {
+  objects: any[] = [];
+  handlers: Record<string, Handler[]> = {};
+  startError: unknown;
+
+  constructor(public path: string, public labelSelector?: string) {}
+
+  on(verb: string, cb: Handler) {
+    const verbs = verb === 'change' ? ['add', 'update', 'delete'] : [verb];
+    for (const v of verbs) {
+      (this.handlers[v] ||= []).push(cb);
+    }
+  }
+  off() {}
+  async start() {
+    if (this.startError) throw this.startError;
+  }
+  async stop() {}
+  get(name: string, namespace?: string) {
+    return this.objects.find((o) => o.metadata.name === name && o.metadata.namespace === namespace);
+  }
+  list(namespace?: string) {
+    return this.objects.filter((o) => !namespace || o.metadata.namespace === namespace);
+  }
+
+  fire(verb: 'add' | 'update' | 'delete', obj: any) {
+    if (verb === 'delete') {
+      this.objects = this.objects.filter((o) => o.metadata.name !== obj.metadata.name);
+    } else {
+      this.objects = [...this.objects.filter((o) => o.metadata.name !== obj.metadata.name), obj];
+    }
+    for (const cb of this.handlers[verb] || []) cb(obj);
+  }
+}
+
+const crdPath = () => {
+  const crd = dynamoProvider.getCRDConfig();
+  return `/apis/${crd.apiGroup}/${crd.apiVersion}/${crd.plural}`;
+};
+
+function createService(configure?: (informer: FakeInformer) => void) {
+  const informers: FakeInformer[] = [];
+  const factory: InformerFactory = (path, _list, labelSelector) => {
+    const informer = new FakeInformer(path, labelSelector);
+    configure?.(informer);
+    informers.push(informer);
+    return informer as unknown as ReturnType<InformerFactory>;
+  };
+  const service = new DeploymentWatchService(factory);
+  const find = (path: string, labelSelector?: string) =>
+    informers.find((i) => i.path === path && i.labelSelector === labelSelector)!;
+  return { service, informers, find };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+function dynamoResource(name: string, createdAt = '2025-01-01T00:00:00Z') {
+  return {
+    apiVersion: 'nvidia.com/v1alpha1',
+    kind: 'DynamoGraphDeployment',
+    metadata: { name, namespace: 'dynamo-system', creationTimestamp: createdAt },
+    spec: { services: {} },
+    status: { state: 'successful' },
+  };
+}
+
+function pod(name: string, labels: Record<string, string>, ready = true): V1Pod {
+  return {
+    metadata: { name, namespace: 'dynamo-system', labels },
+    spec: { containers: [], nodeName: 'node-1' },
+    status: { phase: 'Running', containerStatuses: [{ name: 'main', ready, restartCount: 0, image: '', imageID: '' }] },
+  } as V1Pod;
+}
+
+describe('podBelongsToDeployment', () => {
+  test('matches instance, KAITO workspace and Ray cluster labels', () => {
+    expect(podBelongsToDeployment(pod('a', { 'app.kubernetes.io/instance': 'qwen' }), 'qwen')).toBe(true);
+    expect(podBelongsToDeployment(pod('b', { 'kaito.sh/workspace': 'qwen' }), 'qwen')).toBe(true);
+    expect(podBelongsToDeployment(pod('c', { 'ray.io/cluster': 'qwen-raycluster-x7k2p' }), 'qwen')).toBe(true);
+  });
+
+  test('does not match other deployments', () => {
+    expect(podBelongsToDeployment(pod('a', { 'app.kubernetes.io/instance': 'llama' }), 'qwen')).toBe(false);
+    expect(podBelongsToDeployment(pod('b', {}), 'qwen')).toBe(false);
+  });
+});
+
+describe('DeploymentWatchService', () => {
+  let service: DeploymentWatchService | undefined;
+
+  afterEach(async () => {
+    await service?.stop();
+    service = undefined;
+  });
+
+  test('returns null before informers have synced', () => {
+    ({ service } = createService());
+    expect(service.isSynced()).toBe(false);
+    expect(service.listDeployments()).toBeNull();
+    expect(service.getDeploymentPods('qwen', 'dynamo-system')).toBeNull();
+  });
+
+  test('lists cached deployments with their pods once synced', async () => {
+    const created = createService();
+    service = created.service;
+    service.start();
+    await flush();
+
+    created.find(crdPath()).fire('add', dynamoResource('qwen'));
+    created.find('/api/v1/pods', 'app.kubernetes.io/instance')
+      .fire('add', pod('qwen-worker-0', { 'app.kubernetes.io/instance': 'qwen' }));
+
+    expect(service.isSynced()).toBe(true);
+    const deployments = service.listDeployments('dynamo-system');
+    expect(deployments).toHaveLength(1);
+    expect(deployments![0].name).toBe('qwen');
+    expect(deployments![0].pods.map((p) => p.name)).toEqual(['qwen-worker-0']);
+    expect(service.listDeployments('other')).toEqual([]);
+  });
+
+  test('watches only labelled Deployments for the native provider', async () => {
+    const created = createService();
+    service = created.service;
+    service.start();
+    await flush();
+
+    expect(created.find('/apis/apps/v1/deployments', 'kubefoundry.io/provider=native')).toBeDefined();
+  });
+
+  test('emits upserts for resource and pod changes and deletes', async () => {
+    const created = createService();
+    service = created.service;
+    const events: any[] = [];
+    service.subscribe((event) => events.push(event));
+    service.start();
+    await flush();
+
+    const crd = created.find(crdPath());
+    crd.fire('add', dynamoResource('qwen'));
+    created.find('/api/v1/pods', 'app.kubernetes.io/instance')
+      .fire('update', pod('qwen-worker-0', { 'app.kubernetes.io/instance': 'qwen' }, false));
+    crd.fire('delete', dynamoResource('qwen'));
+
+    expect(events.map((e) => e.type)).toEqual(['upsert', 'upsert', 'delete']);
+    expect(events[1].deployment.pods[0].ready).toBe(false);
+    expect(events[2]).toEqual({ type: 'delete', name: 'qwen', namespace: 'dynamo-system' });
+  });
+
+  test('treats a missing CRD as synced but other errors as unsynced', async () => {
+    const notFound = createService((informer) => {
+      if (informer.path.startsWith('/apis/')) informer.startError = { statusCode: 404 };
+    });
+    service = notFound.service;
+    service.start();
+    await flush();
+    expect(service.isSynced()).toBe(true);
+    await service.stop();
+
+    const forbidden = createService((informer) => {
+      if (informer.labelSelector === 'kaito.sh/workspace') informer.startError = { statusCode: 403 };
+    });
+    service = forbidden.service;
+    service.start();
+    await flush();
+    expect(service.isSynced()).toBe(false);
+    expect(service.listDeployments()).toBeNull();
+  });
+});
@@ -0,0 +1,353 @@
+import * as k8s from '@kubernetes/client-node';
+import type { DeploymentStatus, DeploymentStreamEvent, PodPhase, PodStatus } from '@kubefoundry/shared';
+import { providerRegistry } from '../providers';
+import logger from '../lib/logger';
+import { telemetry, type Sample } from '../lib/telemetry';
+
+/**
+ * Pod labels that tie a pod to a deployment, mirroring the selectors
+ * KubernetesService.getDeploymentPods tries. Label selectors cannot match a key
+ * prefix, so one informer is run per label.
+ */
+const POD_LABEL_SELECTORS = [
+  'app.kubernetes.io/instance',  // Dynamo, KubeRay
+  'kaito.sh/workspace',          // KAITO
+  'serving.kserve.io/inferenceservice', // KServe
+  'ray.io/cluster',              // KubeRay worker and head pods
+];
+
+/** Delay before restarting an informer after a watch error */
+const RESTART_DELAY_MS = 5000;
+
+/** Delay before checking again for a provider CRD that is not installed */
+const CRD_RETRY_DELAY_MS = 60000;
+
+type WatchedObject = k8s.KubernetesObject;
+type ObjectInformer = k8s.Informer<WatchedObject> & k8s.ObjectCache<WatchedObject>;
+
+/**
+ * Creates an informer for an API path; injectable for tests
+ */
+export type InformerFactory = (
+  path: string,
+  list: () => Promise<{ body: { items?: unknown[] } }>,
+  labelSelector?: string
+) => ObjectInformer;
+
+export type DeploymentWatchListener = (event: Exclude<DeploymentStreamEvent, { type: 'snapshot' }>) => void;
+
+/**
+ * Whether a pod belongs to a deployment, using the same labels as getDeploymentPods
+ */
+export function podBelongsToDeployment(pod: k8s.V1Pod, name: string): boolean {
+  const labels = pod.metadata?.labels || {};
+  return labels['app.kubernetes.io/instance'] === name
+    || labels['kaito.sh/workspace'] === name
+    || labels['serving.kserve.io/inferenceservice'] === name
+    // KubeRay pods carry the generated RayCluster name, which starts with the RayService name
+    || (labels['ray.io/cluster'] || '').startsWith(name);
+}
+
+/**
+ * Summarize a pod for API responses
+ */
+export function toPodStatus(pod: k8s.V1Pod): PodStatus {
+  return {
+    name: pod.metadata?.name || 'unknown',
+    phase: (pod.status?.phase as PodPhase) || 'Unknown',
+    ready: pod.status?.containerStatuses?.every((cs) => cs.ready) || false,
+    restarts: pod.status?.containerStatuses?.reduce((sum, cs) => sum + cs.restartCount, 0) || 0,
+    node: pod.spec?.nodeName,
+    containers: pod.spec?.containers?.map((c) => c.name) || [],
+  };
+}
+
+/**
+ * Deployment Watch Service
+ * Runs cluster-wide informers on every provider CRD and on deployment pods,
+ * keeping an in-memory cache that list requests and the status stream read from.
+ */
+export class DeploymentWatchService {
+  private kc: k8s.KubeConfig;
+  private customObjectsApi: k8s.CustomObjectsApi;
+  private coreV1Api: k8s.CoreV1Api;
+  private createInformer: InformerFactory;
+
+  private deploymentInformers = new Map<string, ObjectInformer>();
+  private podInformers: ObjectInformer[] = [];
+  private listeners = new Set<DeploymentWatchListener>();
+  /** Informer keys whose cache reflects the cluster */
+  private synced = new Set<string>();
+  /** Informer keys currently failing, so repeated errors are only logged once */
+  private failing = new Set<string>();
+  private restartTimers = new Set<ReturnType<typeof setTimeout>>();
+  private started = false;
+
+  constructor(createInformer?: InformerFactory) {
+    this.kc = new k8s.KubeConfig();
+
+    try {
+      this.kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for DeploymentWatchService');
+    }
+
+    this.customObjectsApi = this.kc.makeApiClient(k8s.CustomObjectsApi);
+    this.coreV1Api = this.kc.makeApiClient(k8s.CoreV1Api);
+    this.createInformer = createInformer || ((path, list, labelSelector) =>
+      k8s.makeInformer(
+        this.kc,
+        path,
+        list as unknown as k8s.ListPromise<WatchedObject>,
+        labelSelector
+      ));
+  }
+
+  /**
+   * Start watching. Safe to call more than once.
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+
+    for (const provider of providerRegistry.listProviders()) {
+      const crdConfig = provider.getCRDConfig();
+      const informer = this.createInformer(
+        `/apis/${crdConfig.apiGroup}/${crdConfig.apiVersion}/${crdConfig.plural}`,
+        () => this.customObjectsApi.listClusterCustomObject(
+          crdConfig.apiGroup,
+          crdConfig.apiVersion,
+          crdConfig.plural,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          crdConfig.labelSelector
+        ) as Promise<{ body: { items?: unknown[] } }>,
+        crdConfig.labelSelector
+      );
+
+      informer.on(k8s.ADD, (obj) => this.handleDeploymentChange(provider.id, obj));
+      informer.on(k8s.UPDATE, (obj) => this.handleDeploymentChange(provider.id, obj));
+      informer.on(k8s.DELETE, (obj) => this.emit({
+        type: 'delete',
+        name: obj.metadata?.name || '',
+        namespace: obj.metadata?.namespace || '',
+      }));
+
+      this.deploymentInformers.set(provider.id, informer);
+      this.addInformer(`crd:${provider.id}`, informer);
+    }
+
+    for (const labelSelector of POD_LABEL_SELECTORS) {
+      const informer = this.createInformer(
+        '/api/v1/pods',
+        () => this.coreV1Api.listPodForAllNamespaces(undefined, undefined, undefined, labelSelector),
+        labelSelector
+      );
+
+      informer.on(k8s.CHANGE, (pod) => this.handlePodChange(pod as k8s.V1Pod));
+
+      this.podInformers.push(informer);
+      this.addInformer(`pods:${labelSelector}`, informer);
+    }
+
+    logger.info(
+      { providers: [...this.deploymentInformers.keys()], podSelectors: POD_LABEL_SELECTORS },
+      'Started deployment watches'
+    );
+  }
+
+  /**
+   * Stop all informers and drop the cache
+   */
+  async stop(): Promise<void> {
+    for (const timer of this.restartTimers) {
+      clearTimeout(timer);
+    }
+    this.restartTimers.clear();
+
+    await Promise.all([...this.deploymentInformers.values(), ...this.podInformers].map((i) => i.stop()));
+    this.deploymentInformers.clear();
+    this.podInformers = [];
+    this.synced.clear();
+    this.failing.clear();
+    this.started = false;
+  }
+
+  /**
+   * Whether every informer has listed successfully, so the cache can replace API calls
+   */
+  isSynced(): boolean {
+    return this.started && this.synced.size === this.deploymentInformers.size + this.podInformers.length;
+  }
+
+  /**
+   * Subscribe to deployment changes. Returns an unsubscribe function.
+   */
+  subscribe(listener: DeploymentWatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * List cached deployments, newest first. Returns null until the cache is synced.
+   */
+  listDeployments(namespace?: string): DeploymentStatus[] | null {
+    if (!this.isSynced()) {
+      return null;
+    }
+
+    const deployments: DeploymentStatus[] = [];
+    for (const [providerId, informer] of this.deploymentInformers) {
+      for (const obj of informer.list(namespace)) {
+        const status = this.toDeploymentStatus(providerId, obj);
+        if (status) {
+          deployments.push(status);
+        }
+      }
+    }
+
+    return deployments.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  /**
+   * Get cached pods for a deployment. Returns null until the cache is synced.
+   */
+  getDeploymentPods(name: string, namespace: string): PodStatus[] | null {
+    if (!this.isSynced()) {
+      return null;
+    }
+
+    return this.getPodsFromCache(name, namespace);
+  }
+
+  private addInformer(key: string, informer: ObjectInformer): void {
+    // Errors after the initial list (dropped or expired watches) arrive here
+    informer.on(k8s.ERROR, (error) => this.handleInformerError(key, informer, error));
+    this.runInformer(key, informer);
+  }
+
+  private runInformer(key: string, informer: ObjectInformer): void {
+    informer.start()
+      .then(() => {
+        this.synced.add(key);
+        if (this.failing.delete(key)) {
+          logger.info({ key }, 'Deployment watch recovered');
+        }
+      })
+      .catch((error) => this.handleInformerError(key, informer, error));
+  }
+
+  /**
+   * Mark an informer as unsynced and schedule a restart. A missing CRD means the
+   * provider is not installed, which counts as synced with no deployments.
+   */
+  private handleInformerError(key: string, informer: ObjectInformer, error: any): void {
+    if (!this.started) {
+      return;
+    }
+
+    const statusCode = error?.statusCode || error?.response?.statusCode || error?.code;
+    const crdMissing = key.startsWith('crd:') && statusCode === 404;
+
+    if (crdMissing) {
+      this.synced.add(key);
+      logger.debug({ key }, 'CRD not found for deployment watch (provider may not be installed)');
+    } else {
+      this.synced.delete(key);
+      if (!this.failing.has(key)) {
+        this.failing.add(key);
+        logger.warn({ error: error?.message || error, key }, 'Deployment watch failed, falling back to API requests');
+      }
+    }
+
+    const timer = setTimeout(() => {
+      this.restartTimers.delete(timer);
+      if (this.started) {
+        this.runInformer(key, informer);
+      }
+    }, crdMissing ? CRD_RETRY_DELAY_MS : RESTART_DELAY_MS);
+    this.restartTimers.add(timer);
+  }
+
+  private toDeploymentStatus(providerId: string, obj: WatchedObject): DeploymentStatus | null {
+    try {
+      const status = providerRegistry.getProvider(providerId).parseStatus(obj);
+      status.pods = this.getPodsFromCache(status.name, status.namespace);
+      return status;
+    } catch (error) {
+      logger.warn({ error, providerId, name: obj.metadata?.name }, 'Failed to parse watched deployment');
+      return null;
+    }
+  }
+
+  private getPodsFromCache(name: string, namespace: string): PodStatus[] {
+    const pods = new Map<string, PodStatus>();
+    for (const informer of this.podInformers) {
+      for (const pod of informer.list(namespace) as k8s.V1Pod[]) {
+        if (podBelongsToDeployment(pod, name)) {
+          const status = toPodStatus(pod);
+          pods.set(status.name, status);
+        }
+      }
+    }
+    return [...pods.values()];
+  }
+
+  private handleDeploymentChange(providerId: string, obj: WatchedObject): void {
+    const deployment = this.toDeploymentStatus(providerId, obj);
+    if (deployment) {
+      this.emit({ type: 'upsert', deployment });
+    }
+  }
+
+  /**
+   * Re-emit the deployments a changed pod belongs to
+   */
+  private handlePodChange(pod: k8s.V1Pod): void {
+    const namespace = pod.metadata?.namespace;
+    if (!namespace) {
+      return;
+    }
+
+    for (const [providerId, informer] of this.deploymentInformers) {
+      for (const obj of informer.list(namespace)) {
+        if (obj.metadata?.name && podBelongsToDeployment(pod, obj.metadata.name)) {
+          this.handleDeploymentChange(providerId, obj);
+        }
+      }
+    }
+  }
+
+  private emit(event: Parameters<DeploymentWatchListener>[0]): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn({ error }, 'Deployment watch listener failed');
+      }
+    }
+  }
+}
+
+export const deploymentWatcher = new DeploymentWatchService();
+
+// Read from the watch cache, so nothing is reported until it has synced
+telemetry.gauge('kubefoundry_deployments', 'Deployments by provider and phase', () => {
+  const samples = new Map<string, Sample>();
+  for (const deployment of deploymentWatcher.listDeployments() ?? []) {
+    const key = `${deployment.provider}/${deployment.phase}`;
+    const sample = samples.get(key);
+    if (sample) {
+      sample.value += 1;
+    } else {
+      samples.set(key, { labels: { provider: deployment.provider, phase: deployment.phase }, value: 1 });
+    }
+  }
+  return [...samples.values()];
+});
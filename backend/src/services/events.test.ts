@@ -0,0 +1,112 @@
+import { describe, test, expect } from 'bun:test';
+import type * as k8s from '@kubernetes/client-node';
+import { isInScope, mergeEvents, type DeploymentEventScope } from './events';
+
+const scope: DeploymentEventScope = {
+  name: 'qwen',
+  kind: 'DynamoGraphDeployment',
+  podNames: ['qwen-worker-0', 'qwen-frontend-abc'],
+};
+
+function event(overrides: Partial<k8s.CoreV1Event>): k8s.CoreV1Event {
+  return {
+    metadata: { name: 'e' },
+    involvedObject: { kind: 'Pod', name: 'qwen-worker-0' },
+    type: 'Normal',
+    reason: 'Pulling',
+    message: 'Pulling image "vllm/vllm-openai"',
+    count: 1,
+    firstTimestamp: new Date('2025-01-01T10:00:00Z'),
+    lastTimestamp: new Date('2025-01-01T10:00:00Z'),
+    source: { component: 'kubelet' },
+    ...overrides,
+  };
+}
+
+describe('isInScope', () => {
+  test('matches the CR, its pods, and services and PVCs named after it', () => {
+    expect(isInScope({ kind: 'DynamoGraphDeployment', name: 'qwen' }, scope)).toBe(true);
+    expect(isInScope({ kind: 'Pod', name: 'qwen-worker-0' }, scope)).toBe(true);
+    expect(isInScope({ kind: 'Service', name: 'qwen-frontend' }, scope)).toBe(true);
+    expect(isInScope({ kind: 'PersistentVolumeClaim', name: 'qwen' }, scope)).toBe(true);
+  });
+
+  test('ignores other deployments and unrelated kinds', () => {
+    expect(isInScope({ kind: 'DynamoGraphDeployment', name: 'qwen-large' }, scope)).toBe(false);
+    expect(isInScope({ kind: 'Pod', name: 'other-worker-0' }, scope)).toBe(false);
+    expect(isInScope({ kind: 'Service', name: 'qwenish' }, scope)).toBe(false);
+    expect(isInScope({ kind: 'ConfigMap', name: 'qwen-rev-1' }, scope)).toBe(false);
+  });
+});
+
+describe('mergeEvents', () => {
+  test('merges repeats of the same event, summing counts and widening the time range', () => {
+    const events = mergeEvents([
+      event({
+        type: 'Warning',
+        reason: 'BackOff',
+        message: 'Back-off restarting failed container',
+        count: 3,
+        firstTimestamp: new Date('2025-01-01T10:01:00Z'),
+        lastTimestamp: new Date('2025-01-01T10:05:00Z'),
+      }),
+      event({
+        type: 'Warning',
+        reason: 'BackOff',
+        message: 'Back-off restarting failed container',
+        count: 2,
+        firstTimestamp: new Date('2025-01-01T10:06:00Z'),
+        lastTimestamp: new Date('2025-01-01T10:08:00Z'),
+      }),
+    ]);
+
+    expect(events).toEqual([{
+      type: 'warning',
+      reason: 'BackOff',
+      message: 'Back-off restarting failed container',
+      count: 5,
+      firstTimestamp: '2025-01-01T10:01:00.000Z',
+      lastTimestamp: '2025-01-01T10:08:00.000Z',
+      involvedObject: { kind: 'Pod', name: 'qwen-worker-0' },
+      source: 'kubelet',
+    }]);
+  });
+
+  test('sorts newest first and tags event types', () => {
+    const events = mergeEvents([
+      event({ reason: 'Scheduled', lastTimestamp: new Date('2025-01-01T09:59:00Z') }),
+      event({
+        type: 'Warning',
+        reason: 'FailedMount',
+        involvedObject: { kind: 'Pod', name: 'qwen-frontend-abc' },
+        lastTimestamp: new Date('2025-01-01T10:02:00Z'),
+      }),
+      event({ reason: 'Pulling', lastTimestamp: new Date('2025-01-01T10:00:00Z') }),
+    ]);
+
+    expect(events.map((e) => [e.reason, e.type])).toEqual([
+      ['FailedMount', 'warning'],
+      ['Pulling', 'normal'],
+      ['Scheduled', 'normal'],
+    ]);
+  });
+
+  test('uses eventTime and series for events.k8s.io style events', () => {
+    const [merged] = mergeEvents([
+      event({
+        count: undefined,
+        firstTimestamp: undefined,
+        lastTimestamp: undefined,
+        eventTime: new Date('2025-01-01T10:00:00Z'),
+        series: { count: 7, lastObservedTime: new Date('2025-01-01T10:30:00Z') },
+        source: undefined,
+        reportingComponent: 'dynamo-operator',
+      }),
+    ]);
+
+    expect(merged.count).toBe(7);
+    expect(merged.firstTimestamp).toBe('2025-01-01T10:00:00.000Z');
+    expect(merged.lastTimestamp).toBe('2025-01-01T10:30:00.000Z');
+    expect(merged.source).toBe('dynamo-operator');
+  });
+});
@@ -0,0 +1,129 @@
+import * as k8s from '@kubernetes/client-node';
+import type { DeploymentEvent, DeploymentStatus } from '@kubefoundry/shared';
+import { providerRegistry } from '../providers';
+import { withRetry } from '../lib/retry';
+import logger from '../lib/logger';
+
+/**
+ * Kinds whose events are included when named after the deployment
+ */
+const NAMED_RESOURCE_KINDS = ['Service', 'PersistentVolumeClaim'];
+
+/**
+ * Objects a deployment's events can be about
+ */
+export interface DeploymentEventScope {
+  name: string;
+  /** Kind of the provider's custom resource */
+  kind: string;
+  podNames: string[];
+}
+
+/**
+ * Whether an event is about the deployment's CR, one of its pods, or a service
+ * or PVC named after it (the providers name them `<name>` or `<name>-<suffix>`)
+ */
+export function isInScope(involved: k8s.V1ObjectReference, scope: DeploymentEventScope): boolean {
+  const { kind = '', name = '' } = involved;
+  if (kind === scope.kind) {
+    return name === scope.name;
+  }
+  if (kind === 'Pod') {
+    return scope.podNames.includes(name);
+  }
+  return NAMED_RESOURCE_KINDS.includes(kind) && (name === scope.name || name.startsWith(`${scope.name}-`));
+}
+
+function toTime(value: Date | string | undefined): string | undefined {
+  return value ? new Date(value).toISOString() : undefined;
+}
+
+/**
+ * Merge repeats of the same event on the same object, summing their counts and
+ * widening the time range, and sort newest first
+ */
+export function mergeEvents(items: k8s.CoreV1Event[]): DeploymentEvent[] {
+  const merged = new Map<string, DeploymentEvent>();
+
+  for (const item of items) {
+    const last = toTime(item.series?.lastObservedTime)
+      || toTime(item.lastTimestamp)
+      || toTime(item.eventTime)
+      || toTime(item.metadata?.creationTimestamp);
+    if (!last) {
+      continue;
+    }
+    const first = toTime(item.firstTimestamp) || toTime(item.eventTime) || last;
+
+    const event: DeploymentEvent = {
+      type: item.type === 'Warning' ? 'warning' : 'normal',
+      reason: item.reason || 'Unknown',
+      message: (item.message || '').trim(),
+      count: item.series?.count || item.count || 1,
+      firstTimestamp: first,
+      lastTimestamp: last,
+      involvedObject: {
+        kind: item.involvedObject.kind || '',
+        name: item.involvedObject.name || '',
+      },
+      source: item.source?.component || item.reportingComponent || undefined,
+    };
+
+    const key = [event.involvedObject.kind, event.involvedObject.name, event.type, event.reason, event.message].join('|');
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, event);
+      continue;
+    }
+
+    existing.count += event.count;
+    if (event.firstTimestamp < existing.firstTimestamp) {
+      existing.firstTimestamp = event.firstTimestamp;
+    }
+    if (event.lastTimestamp > existing.lastTimestamp) {
+      existing.lastTimestamp = event.lastTimestamp;
+      existing.source = event.source || existing.source;
+    }
+  }
+
+  return [...merged.values()].sort((a, b) => b.lastTimestamp.localeCompare(a.lastTimestamp));
+}
+
+/**
+ * Deployment Events Service
+ * Gathers Kubernetes Events for a deployment's CR, pods, services and PVCs into one timeline
+ */
+class DeploymentEventsService {
+  private coreV1Api: k8s.CoreV1Api;
+
+  constructor() {
+    const kc = new k8s.KubeConfig();
+    try {
+      kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for DeploymentEventsService');
+    }
+    this.coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+  }
+
+  /**
+   * Events for a deployment, newest first
+   */
+  async getDeploymentEvents(deployment: DeploymentStatus): Promise<DeploymentEvent[]> {
+    const scope: DeploymentEventScope = {
+      name: deployment.name,
+      kind: providerRegistry.getProviderOrNull(deployment.provider)?.getCRDConfig().kind || '',
+      podNames: deployment.pods.map((pod) => pod.name),
+    };
+
+    // One namespace-wide list is cheaper than a field-selected list per object
+    const response = await withRetry(
+      () => this.coreV1Api.listNamespacedEvent(deployment.namespace),
+      { operationName: 'listDeploymentEvents' }
+    );
+
+    return mergeEvents(response.body.items.filter((event) => isInScope(event.involvedObject, scope)));
+  }
+}
+
+export const deploymentEventsService = new DeploymentEventsService();
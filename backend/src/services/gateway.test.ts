@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'bun:test';
+import type { DeploymentStatus } from '@kubefoundry/shared';
+import { ModelGatewayService, GatewayError, getInferenceService } from './gateway';
+
+function deployment(overrides: Partial<DeploymentStatus>): DeploymentStatus {
+  return {
+    name: 'qwen',
+    namespace: 'default',
+    modelId: 'Qwen/Qwen3-0.6B',
+    engine: 'vllm',
+    mode: 'aggregated',
+    phase: 'Running',
+    provider: 'dynamo',
+    replicas: { desired: 1, ready: 1, available: 1 },
+    pods: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function createService(deployments: DeploymentStatus[]) {
+  return new ModelGatewayService(async () => deployments);
+}
+
+describe('getInferenceService', () => {
+  test('uses frontendService with its port', () => {
+    expect(getInferenceService(deployment({ frontendService: 'qwen-vllm:5000' })))
+      .toEqual({ service: 'qwen-vllm', port: 5000 });
+  });
+
+  test('falls back to the provider service pattern', () => {
+    expect(getInferenceService(deployment({ frontendService: undefined })))
+      .toEqual({ service: 'qwen-frontend', port: 8000 });
+  });
+});
+
+describe('ModelGatewayService', () => {
+  test('lists models of ready deployments once, counting backends', async () => {
+    const service = createService([
+      deployment({ name: 'a' }),
+      deployment({ name: 'b', namespace: 'team-b' }),
+      deployment({ name: 'c', servedModelName: 'llama', phase: 'Deploying', replicas: { desired: 1, ready: 0, available: 0 } }),
+    ]);
+
+    const models = await service.listModels();
+    expect(models.map((m) => [m.id, m.backends])).toEqual([['Qwen/Qwen3-0.6B', 2]]);
+  });
+
+  test('routes adapter model names to the deployment serving them', async () => {
+    const service = createService([
+      deployment({ name: 'base', servedModelName: 'llama', adapters: ['sql', 'support'] }),
+    ]);
+
+    expect((await service.listModels()).map((m) => m.id)).toEqual(['llama', 'sql', 'support']);
+    expect((await service.resolveBackend('sql')).name).toBe('base');
+    expect((await service.listModels({ models: ['sql'], namespaces: [] })).map((m) => m.id)).toEqual(['sql']);
+  });
+
+  test('round-robins across ready backends', async () => {
+    const service = createService([
+      deployment({ name: 'b', servedModelName: 'qwen' }),
+      deployment({ name: 'a', servedModelName: 'qwen' }),
+      deployment({ name: 'c', servedModelName: 'qwen', phase: 'Pending', replicas: { desired: 1, ready: 0, available: 0 } }),
+    ]);
+
+    const picks = [];
+    for (let i = 0; i < 4; i++) {
+      picks.push((await service.resolveBackend('qwen')).name);
+    }
+    expect(picks).toEqual(['a', 'b', 'a', 'b']);
+  });
+
+  test('returns 404 for unknown models and 503 when nothing is ready', async () => {
+    const service = createService([
+      deployment({ servedModelName: 'qwen', phase: 'Pending', replicas: { desired: 1, ready: 0, available: 0 } }),
+    ]);
+
+    const notFound = await service.resolveBackend('llama').catch((e) => e);
+    expect(notFound).toBeInstanceOf(GatewayError);
+    expect(notFound.statusCode).toBe(404);
+
+    const unavailable = await service.resolveBackend('qwen').catch((e) => e);
+    expect(unavailable).toBeInstanceOf(GatewayError);
+    expect(unavailable.statusCode).toBe(503);
+    expect(unavailable.message).toContain('default/qwen: Pending');
+  });
+});
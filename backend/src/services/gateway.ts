@@ -0,0 +1,243 @@
+import type { DeploymentStatus, GatewayApiKey, GatewayModel } from '@kubefoundry/shared';
+import { deploymentWatcher } from './deploymentWatcher';
+import { kubernetesService } from './kubernetes';
+import { serviceProxyService, parseServiceAddress, type ServiceAddress } from './serviceProxy';
+import { providerRegistry } from '../providers';
+import logger from '../lib/logger';
+
+/**
+ * A deployment that requests for a model can be sent to
+ */
+export interface GatewayBackend {
+  name: string;
+  namespace: string;
+  provider: string;
+  address: ServiceAddress;
+}
+
+// How long to wait for a model server to start responding
+const INFERENCE_RESPONSE_TIMEOUT_MS = 120000;
+
+/**
+ * Raised when a request cannot be routed to, or was rejected by, a model server
+ */
+export class GatewayError extends Error {
+  constructor(message: string, public statusCode: 400 | 404 | 422 | 502 | 503) {
+    super(message);
+    this.name = 'GatewayError';
+  }
+}
+
+/**
+ * Model name a deployment answers to on its OpenAI-compatible API
+ */
+export function getServedModelName(deployment: DeploymentStatus): string {
+  return deployment.servedModelName || deployment.modelId;
+}
+
+/**
+ * Every model name a deployment answers to: the base model and its LoRA adapters
+ */
+export function getModelNames(deployment: DeploymentStatus): string[] {
+  return [getServedModelName(deployment), ...(deployment.adapters || [])];
+}
+
+/**
+ * Service and port serving a deployment's OpenAI-compatible API. Uses
+ * frontendService when the provider reports it, otherwise the provider's service pattern.
+ */
+export function getInferenceService(deployment: DeploymentStatus): ServiceAddress {
+  if (deployment.frontendService) {
+    return parseServiceAddress(deployment.frontendService);
+  }
+
+  try {
+    const metricsConfig = providerRegistry.getProvider(deployment.provider).getMetricsConfig();
+    if (metricsConfig) {
+      return {
+        service: metricsConfig.serviceNamePattern.replace('{name}', deployment.name),
+        port: metricsConfig.port,
+      };
+    }
+  } catch {
+    // Unknown provider, use the default frontend name
+  }
+
+  return parseServiceAddress(`${deployment.name}-frontend`);
+}
+
+/**
+ * Response to send the client for a model server response. Streamed
+ * completions are already server-sent events, so the body is passed through as is.
+ */
+export function toRelayResponse(upstream: Response): Response {
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: {
+      'Content-Type': upstream.headers.get('content-type') || 'application/json',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Limits what an API key can see and reach; no scope means unrestricted
+ */
+export type GatewayScope = Pick<GatewayApiKey, 'models' | 'namespaces'>;
+
+function inScope(deployment: DeploymentStatus, model: string, scope?: GatewayScope): boolean {
+  if (!scope) {
+    return true;
+  }
+  return (scope.namespaces.length === 0 || scope.namespaces.includes(deployment.namespace))
+    && (scope.models.length === 0 || scope.models.includes(model));
+}
+
+function isReady(deployment: DeploymentStatus): boolean {
+  return deployment.phase === 'Running' && deployment.replicas.ready > 0;
+}
+
+/**
+ * List deployments across the cluster from the watch cache, falling back to
+ * each provider's default namespace while the cache is not synced
+ */
+async function listGatewayDeployments(): Promise<DeploymentStatus[]> {
+  const cached = deploymentWatcher.listDeployments();
+  if (cached) {
+    return cached;
+  }
+
+  const namespaces = [...new Set(
+    providerRegistry.listProviderIds().map((id) => providerRegistry.getProvider(id).defaultNamespace)
+  )];
+  const results = await Promise.all(namespaces.map((ns) => kubernetesService.listDeployments(ns)));
+  return results.flat();
+}
+
+/**
+ * Model Gateway Service
+ * Routes OpenAI-compatible requests to the deployments serving the requested model,
+ * round-robin across the ready ones.
+ */
+export class ModelGatewayService {
+  /** Next backend index per model */
+  private cursors = new Map<string, number>();
+
+  constructor(private listDeployments: () => Promise<DeploymentStatus[]> = listGatewayDeployments) {}
+
+  /**
+   * Models with at least one ready deployment in scope
+   */
+  async listModels(scope?: GatewayScope): Promise<GatewayModel[]> {
+    const models = new Map<string, GatewayModel>();
+
+    for (const deployment of await this.listDeployments()) {
+      if (!isReady(deployment)) {
+        continue;
+      }
+
+      const created = Math.floor(new Date(deployment.createdAt).getTime() / 1000);
+      for (const id of getModelNames(deployment)) {
+        if (!inScope(deployment, id, scope)) {
+          continue;
+        }
+        const existing = models.get(id);
+        if (existing) {
+          existing.backends += 1;
+          existing.created = Math.min(existing.created, created);
+        } else {
+          models.set(id, { id, object: 'model', created, owned_by: 'kubefoundry', backends: 1 });
+        }
+      }
+    }
+
+    return [...models.values()].sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Pick the next ready backend for a model. Deployments outside the scope are
+   * treated as if they did not exist.
+   */
+  async resolveBackend(model: string, scope?: GatewayScope): Promise<GatewayBackend> {
+    const candidates = (await this.listDeployments())
+      .filter((deployment) => getModelNames(deployment).includes(model) && inScope(deployment, model, scope));
+
+    if (candidates.length === 0) {
+      throw new GatewayError(`The model '${model}' does not exist`, 404);
+    }
+
+    // Stable order so the cursor walks the same sequence between calls
+    const ready = candidates
+      .filter(isReady)
+      .sort((a, b) => `${a.namespace}/${a.name}`.localeCompare(`${b.namespace}/${b.name}`));
+
+    if (ready.length === 0) {
+      throw new GatewayError(
+        `No ready deployment is serving '${model}' (${candidates.map((d) => `${d.namespace}/${d.name}: ${d.phase}`).join(', ')})`,
+        503
+      );
+    }
+
+    const cursor = this.cursors.get(model) ?? 0;
+    this.cursors.set(model, (cursor + 1) % ready.length);
+    const deployment = ready[cursor % ready.length];
+
+    logger.debug({ model, name: deployment.name, namespace: deployment.namespace, backends: ready.length }, 'Routing gateway request');
+
+    return {
+      name: deployment.name,
+      namespace: deployment.namespace,
+      provider: deployment.provider,
+      address: getInferenceService(deployment),
+    };
+  }
+
+  /**
+   * Send an OpenAI-compatible request to a backend and return its response for relaying.
+   * Streamed completions come back as the model server's own server-sent events.
+   */
+  async forward(
+    backend: Pick<GatewayBackend, 'name' | 'namespace' | 'address'>,
+    path: string,
+    body: unknown,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let upstream: Response;
+    try {
+      upstream = await serviceProxyService.request({
+        namespace: backend.namespace,
+        ...backend.address,
+        path,
+        body,
+        signal,
+        timeoutMs: INFERENCE_RESPONSE_TIMEOUT_MS,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'unknown error';
+      logger.warn({ error: message, name: backend.name, namespace: backend.namespace, path }, 'Inference request failed');
+      throw new GatewayError(`Failed to reach deployment '${backend.name}': ${message}`, 502);
+    }
+
+    if (upstream.ok) {
+      return upstream;
+    }
+
+    // Model servers report OpenAI-style errors; the API server proxy reports a Status
+    const text = await upstream.text();
+    let message = text || upstream.statusText;
+    try {
+      const parsed = JSON.parse(text);
+      message = parsed.error?.message || parsed.message || message;
+    } catch {
+      // Not JSON, use the raw text
+    }
+
+    // Pass client errors through; a 401 or 403 here concerns KubeFoundry's own credentials
+    const statusCode = upstream.status === 400 || upstream.status === 404 || upstream.status === 422
+      ? upstream.status
+      : 502;
+    throw new GatewayError(`Model server returned ${upstream.status}: ${message}`, statusCode);
+  }
+}
+
+export const modelGatewayService = new ModelGatewayService();
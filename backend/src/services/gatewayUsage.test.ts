@@ -0,0 +1,167 @@
+import { describe, test, expect } from 'bun:test';
+import type { GatewayApiKey, GatewayUsageRecord } from '@kubefoundry/shared';
+import { GatewayUsageService, type UsageStore } from './gatewayUsage';
+
+function apiKey(overrides: Partial<GatewayApiKey> = {}): GatewayApiKey {
+  return {
+    id: 'abc123',
+    name: 'team-a',
+    prefix: 'kf-abcdef',
+    models: [],
+    namespaces: [],
+    createdAt: '2025-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+/**
+ * In-memory store that, like the API server, rejects writes based on a stale read
+ */
+function memoryStore(initial: GatewayUsageRecord[] = []): UsageStore & { records: GatewayUsageRecord[] } {
+  let version = 1;
+  return {
+    records: initial,
+    async load() {
+      // Yield so concurrent callers read before either writes
+      await Promise.resolve();
+      return { records: this.records.map((r) => ({ ...r })), version: String(version) };
+    },
+    async save(records, readVersion) {
+      if (readVersion !== String(version)) {
+        throw Object.assign(new Error('Conflict'), { statusCode: 409 });
+      }
+      this.records = records.map((r) => ({ ...r }));
+      version += 1;
+    },
+  };
+}
+
+function createService(store: UsageStore = memoryStore()) {
+  const clock = { now: Date.parse('2025-03-01T12:00:00Z') };
+  return { service: new GatewayUsageService(store, () => clock.now), clock };
+}
+
+describe('GatewayUsageService', () => {
+  test('limits requests per minute over a sliding window', () => {
+    const { service, clock } = createService();
+    const key = apiKey({ requestsPerMinute: 2 });
+
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+    service.countRequest(key);
+    clock.now += 10000;
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+    service.countRequest(key);
+
+    const limited = service.checkRateLimit(key);
+    expect(limited).toMatchObject({ allowed: false, retryAfterSeconds: 50 });
+
+    clock.now += 50001;
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+  });
+
+  test('does not count checked requests until they are counted', () => {
+    const { service } = createService();
+    const key = apiKey({ requestsPerMinute: 1 });
+
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+
+    service.countRequest(key);
+    expect(service.checkRateLimit(key).allowed).toBe(false);
+  });
+
+  test('limits tokens per minute once recorded usage reaches the limit', async () => {
+    const { service, clock } = createService();
+    const key = apiKey({ tokensPerMinute: 100 });
+
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+    await service.recordUsage(key, 'qwen', { promptTokens: 40, completionTokens: 60 });
+
+    const limited = service.checkRateLimit(key);
+    expect(limited.allowed).toBe(false);
+    if (!limited.allowed) {
+      expect(limited.message).toContain('100 tokens per minute');
+    }
+
+    clock.now += 60001;
+    expect(service.checkRateLimit(key).allowed).toBe(true);
+  });
+
+  test('accounts usage per key, model and day', async () => {
+    const { service, clock } = createService();
+    const key = apiKey();
+
+    await service.recordUsage(key, 'qwen', { promptTokens: 10, completionTokens: 5 });
+    await service.recordUsage(key, 'qwen', { promptTokens: 20, completionTokens: 15 });
+    await service.recordUsage(key, 'llama', { promptTokens: 1, completionTokens: 1 });
+    clock.now += 24 * 60 * 60 * 1000;
+    await service.recordUsage(key, 'qwen', { promptTokens: 3, completionTokens: 4 });
+
+    const all = await service.getUsage();
+    expect(all.records).toHaveLength(3);
+    expect(all.records.find((r) => r.date === '2025-03-01' && r.model === 'qwen'))
+      .toMatchObject({ requests: 2, promptTokens: 30, completionTokens: 20 });
+    expect(all.totals).toEqual([
+      { keyId: 'abc123', requests: 4, promptTokens: 34, completionTokens: 25, totalTokens: 59 },
+    ]);
+
+    const secondDay = await service.getUsage({ from: '2025-03-02' });
+    expect(secondDay.records).toEqual([
+      { keyId: 'abc123', model: 'qwen', date: '2025-03-02', requests: 1, promptTokens: 3, completionTokens: 4 },
+    ]);
+  });
+
+  test('merges stored usage and flushes it back', async () => {
+    const store = memoryStore([
+      { keyId: 'abc123', model: 'qwen', date: '2025-03-01', requests: 5, promptTokens: 50, completionTokens: 50 },
+    ]);
+    const { service } = createService(store);
+
+    await service.recordUsage(apiKey(), 'qwen', { promptTokens: 1, completionTokens: 2 });
+    await service.flush();
+
+    expect(store.records).toEqual([
+      { keyId: 'abc123', model: 'qwen', date: '2025-03-01', requests: 6, promptTokens: 51, completionTokens: 52 },
+    ]);
+  });
+
+  test('adds usage from every replica without overwriting the others', async () => {
+    const store = memoryStore();
+    const { service } = createService(store);
+    const { service: otherReplica } = createService(store);
+
+    await service.recordUsage(apiKey(), 'qwen', { promptTokens: 1, completionTokens: 1 });
+    await otherReplica.recordUsage(apiKey(), 'qwen', { promptTokens: 10, completionTokens: 10 });
+    await Promise.all([service.flush(), otherReplica.flush()]);
+    await service.recordUsage(apiKey(), 'qwen', { promptTokens: 100, completionTokens: 100 });
+    await service.flush();
+
+    expect(store.records).toEqual([
+      { keyId: 'abc123', model: 'qwen', date: '2025-03-01', requests: 3, promptTokens: 111, completionTokens: 111 },
+    ]);
+    expect((await otherReplica.getUsage()).totals[0].requests).toBe(3);
+  });
+
+  test('keeps usage for the next flush when saving fails', async () => {
+    const store = memoryStore();
+    let failures = 1;
+    const { service } = createService({
+      load: () => store.load(),
+      save: async (records, version) => {
+        if (failures-- > 0) {
+          throw new Error('forbidden');
+        }
+        await store.save(records, version);
+      },
+    });
+
+    await service.recordUsage(apiKey(), 'qwen', { promptTokens: 1, completionTokens: 2 });
+    await service.flush();
+    expect(store.records).toEqual([]);
+
+    await service.flush();
+    expect(store.records).toEqual([
+      { keyId: 'abc123', model: 'qwen', date: '2025-03-01', requests: 1, promptTokens: 1, completionTokens: 2 },
+    ]);
+  });
+});
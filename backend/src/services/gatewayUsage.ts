@@ -0,0 +1,321 @@
+import * as k8s from '@kubernetes/client-node';
+import type { GatewayApiKey, GatewayUsageRecord, GatewayUsageTotal } from '@kubefoundry/shared';
+import { CONFIG_NAMESPACE } from './config';
+import { withRetry, isK8sRetryableError } from '../lib/retry';
+import { isConflictError } from '../lib/k8s-errors';
+import logger from '../lib/logger';
+
+const USAGE_CONFIGMAP_NAME = 'kubefoundry-gateway-usage';
+const USAGE_KEY = 'usage.json';
+
+/** Rate limits count requests and tokens over this sliding window */
+const RATE_WINDOW_MS = 60000;
+
+/** How often accumulated usage is written back to the ConfigMap */
+const FLUSH_INTERVAL_MS = 60000;
+
+/** Daily records older than this are dropped when saving */
+const USAGE_RETENTION_DAYS = 90;
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; message: string; retryAfterSeconds: number };
+
+/**
+ * Daily usage records with the version they were read at
+ */
+export interface StoredUsage {
+  records: GatewayUsageRecord[];
+  /** Absent when nothing has been stored yet */
+  version?: string;
+}
+
+/**
+ * Where daily usage records are persisted; injectable for tests.
+ * save fails with a 409 when the records changed since `version` was read.
+ */
+export interface UsageStore {
+  load(): Promise<StoredUsage>;
+  save(records: GatewayUsageRecord[], version?: string): Promise<void>;
+}
+
+interface RateWindow {
+  requests: number[];
+  tokens: Array<{ at: number; count: number }>;
+}
+
+/**
+ * Stores usage in a ConfigMap in the KubeFoundry namespace
+ */
+class ConfigMapUsageStore implements UsageStore {
+  private coreV1Api: k8s.CoreV1Api;
+
+  constructor() {
+    const kc = new k8s.KubeConfig();
+    try {
+      kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for GatewayUsageService');
+    }
+    this.coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+  }
+
+  async load(): Promise<StoredUsage> {
+    try {
+      const response = await this.coreV1Api.readNamespacedConfigMap(USAGE_CONFIGMAP_NAME, CONFIG_NAMESPACE);
+      const data = response.body.data?.[USAGE_KEY];
+      return {
+        records: data ? (JSON.parse(data) as GatewayUsageRecord[]) : [],
+        version: response.body.metadata?.resourceVersion,
+      };
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        return { records: [] };
+      }
+      throw error;
+    }
+  }
+
+  async save(records: GatewayUsageRecord[], version?: string): Promise<void> {
+    const configMap: k8s.V1ConfigMap = {
+      metadata: {
+        name: USAGE_CONFIGMAP_NAME,
+        namespace: CONFIG_NAMESPACE,
+        resourceVersion: version,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+        },
+      },
+      data: {
+        [USAGE_KEY]: JSON.stringify(records),
+      },
+    };
+
+    // Without a version nothing was stored when the records were read; the API
+    // server answers 409 if another replica created the ConfigMap first
+    if (!version) {
+      await this.coreV1Api.createNamespacedConfigMap(CONFIG_NAMESPACE, configMap);
+      return;
+    }
+    await this.coreV1Api.replaceNamespacedConfigMap(USAGE_CONFIGMAP_NAME, CONFIG_NAMESPACE, configMap);
+  }
+}
+
+function toDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function recordId(record: GatewayUsageRecord): string {
+  return `${record.keyId}|${record.model}|${record.date}`;
+}
+
+/**
+ * Add the counts of `records` into `into`, by key, model and day
+ */
+function mergeRecords(into: Map<string, GatewayUsageRecord>, records: Iterable<GatewayUsageRecord>): Map<string, GatewayUsageRecord> {
+  for (const record of records) {
+    const id = recordId(record);
+    const current = into.get(id);
+    into.set(id, current
+      ? {
+        ...current,
+        requests: current.requests + record.requests,
+        promptTokens: current.promptTokens + record.promptTokens,
+        completionTokens: current.completionTokens + record.completionTokens,
+      }
+      : { ...record });
+  }
+  return into;
+}
+
+/**
+ * Gateway Usage Service
+ * Enforces per-key request and token rate limits and accounts tokens per key,
+ * model and day for chargeback.
+ */
+export class GatewayUsageService {
+  private store: UsageStore;
+  private now: () => number;
+  private windows = new Map<string, RateWindow>();
+  /** Usage as last read from or written to the store */
+  private stored = new Map<string, GatewayUsageRecord>();
+  /** Usage recorded by this replica and not yet saved */
+  private pending = new Map<string, GatewayUsageRecord>();
+  private flushes: Promise<void> = Promise.resolve();
+  private flushTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(store?: UsageStore, now: () => number = Date.now) {
+    this.store = store || new ConfigMapUsageStore();
+    this.now = now;
+  }
+
+  /**
+   * Check whether a key's limits allow another request. The request is not
+   * counted until countRequest is called.
+   */
+  checkRateLimit(key: GatewayApiKey): RateLimitResult {
+    const now = this.now();
+    const window = this.getWindow(key.id, now);
+
+    if (key.requestsPerMinute && window.requests.length >= key.requestsPerMinute) {
+      return {
+        allowed: false,
+        message: `Rate limit exceeded: ${key.requestsPerMinute} requests per minute`,
+        retryAfterSeconds: Math.ceil((window.requests[0] + RATE_WINDOW_MS - now) / 1000),
+      };
+    }
+
+    const tokens = window.tokens.reduce((sum, entry) => sum + entry.count, 0);
+    if (key.tokensPerMinute && tokens >= key.tokensPerMinute) {
+      return {
+        allowed: false,
+        message: `Rate limit exceeded: ${key.tokensPerMinute} tokens per minute`,
+        retryAfterSeconds: Math.ceil((window.tokens[0].at + RATE_WINDOW_MS - now) / 1000),
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Count a request against the key's per-minute window
+   */
+  countRequest(key: GatewayApiKey): void {
+    const now = this.now();
+    this.getWindow(key.id, now).requests.push(now);
+  }
+
+  /**
+   * Account a completed request's tokens
+   */
+  async recordUsage(key: GatewayApiKey, model: string, usage: TokenUsage): Promise<void> {
+    const now = this.now();
+    const total = usage.promptTokens + usage.completionTokens;
+    if (total > 0) {
+      this.getWindow(key.id, now).tokens.push({ at: now, count: total });
+    }
+
+    mergeRecords(this.pending, [{
+      keyId: key.id,
+      model,
+      date: toDate(now),
+      requests: 1,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    }]);
+    this.scheduleFlush();
+  }
+
+  /**
+   * Daily records between two dates (inclusive), with totals per key. Includes
+   * usage saved by other replicas and usage this one has not saved yet.
+   */
+  async getUsage(options: { keyId?: string; from?: string; to?: string } = {}): Promise<{
+    records: GatewayUsageRecord[];
+    totals: Omit<GatewayUsageTotal, 'keyName'>[];
+  }> {
+    try {
+      const { records } = await this.store.load();
+      this.stored = mergeRecords(new Map(), records);
+    } catch (error) {
+      logger.warn({ error: error instanceof Error ? error.message : error }, 'Failed to load gateway usage, using last known usage');
+    }
+
+    const records = [...mergeRecords(new Map(this.stored), this.pending.values()).values()]
+      .filter((r) => (!options.keyId || r.keyId === options.keyId)
+        && (!options.from || r.date >= options.from)
+        && (!options.to || r.date <= options.to))
+      .sort((a, b) => a.date.localeCompare(b.date) || a.keyId.localeCompare(b.keyId) || a.model.localeCompare(b.model));
+
+    const totals = new Map<string, Omit<GatewayUsageTotal, 'keyName'>>();
+    for (const record of records) {
+      const total = totals.get(record.keyId)
+        || { keyId: record.keyId, requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      total.requests += record.requests;
+      total.promptTokens += record.promptTokens;
+      total.completionTokens += record.completionTokens;
+      total.totalTokens += record.promptTokens + record.completionTokens;
+      totals.set(record.keyId, total);
+    }
+
+    return { records: records.map((r) => ({ ...r })), totals: [...totals.values()] };
+  }
+
+  /**
+   * Add usage recorded since the last flush to the stored usage. The stored
+   * records are read fresh and the write is guarded by their version, so when
+   * another replica saved in between the merge is redone on its records.
+   * Flushes run one at a time.
+   */
+  flush(): Promise<void> {
+    this.flushes = this.flushes.then(() => this.save());
+    return this.flushes;
+  }
+
+  private async save(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const saving = this.pending;
+    this.pending = new Map();
+
+    try {
+      this.stored = await withRetry(
+        async () => {
+          const { records, version } = await this.store.load();
+          const merged = mergeRecords(mergeRecords(new Map(), records), saving.values());
+
+          const cutoff = toDate(this.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+          for (const [id, record] of merged) {
+            if (record.date < cutoff) {
+              merged.delete(id);
+            }
+          }
+
+          await this.store.save([...merged.values()], version);
+          return merged;
+        },
+        {
+          operationName: 'saveGatewayUsage',
+          maxRetries: 5,
+          initialDelayMs: 100,
+          isRetryable: (error) => isConflictError(error) || isK8sRetryableError(error),
+        }
+      );
+    } catch (error) {
+      // Keep the usage for the next flush
+      mergeRecords(this.pending, saving.values());
+      logger.warn({ error: error instanceof Error ? error.message : error }, 'Failed to save gateway usage');
+    }
+  }
+
+  private getWindow(keyId: string, now: number): RateWindow {
+    const window = this.windows.get(keyId) || { requests: [], tokens: [] };
+    const start = now - RATE_WINDOW_MS;
+    window.requests = window.requests.filter((at) => at > start);
+    window.tokens = window.tokens.filter((entry) => entry.at > start);
+    this.windows.set(keyId, window);
+    return window;
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setInterval(() => {
+      this.flush();
+    }, FLUSH_INTERVAL_MS);
+    // Do not keep the process alive just to save usage; the server flushes on shutdown
+    this.flushTimer.unref?.();
+  }
+}
+
+export const gatewayUsageService = new GatewayUsageService();
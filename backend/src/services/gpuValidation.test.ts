@@ -120,6 +120,18 @@ describe('calculateRequiredGpus', () => {
     expect(result.prefillPerWorker).toBe(2);
     expect(result.decodePerWorker).toBe(1);
   });
+
+  test('calculates for multi-node replicas', () => {
+    const result = calculateRequiredGpus({
+      ...baseConfig,
+      replicas: 2,
+      nodesPerReplica: 2,
+      resources: { gpu: 8 },
+    });
+    expect(result.total).toBe(32); // 2 replicas * 2 nodes * 8 GPUs
+    expect(result.maxPerWorker).toBe(8);
+    expect(result.nodesPerReplica).toBe(2);
+  });
 });
 
 describe('validateGpuFit', () => {
@@ -182,6 +194,40 @@ describe('validateGpuFit', () => {
     expect(result.warnings.some(w => w.type === 'model_minimum')).toBe(true);
   });
 
+  test('fits multi-node replicas across nodes with enough free GPUs', () => {
+    const result = validateGpuFit(
+      { ...baseConfig, nodesPerReplica: 2, resources: { gpu: 8 } },
+      {
+        ...clusterWithCapacity(16, 8),
+        nodes: [
+          { nodeName: 'gpu-1', totalGpus: 8, allocatedGpus: 0, availableGpus: 8 },
+          { nodeName: 'gpu-2', totalGpus: 8, allocatedGpus: 0, availableGpus: 8 },
+        ],
+      },
+      16
+    );
+    expect(result.fits).toBe(true);
+  });
+
+  test('warns when too few nodes fit a multi-node replica', () => {
+    // 16 GPUs free in total, but only one node has 8 of them
+    const result = validateGpuFit(
+      { ...baseConfig, nodesPerReplica: 2, resources: { gpu: 8 } },
+      {
+        ...clusterWithCapacity(16, 8),
+        nodes: [
+          { nodeName: 'gpu-1', totalGpus: 8, allocatedGpus: 0, availableGpus: 8 },
+          { nodeName: 'gpu-2', totalGpus: 8, allocatedGpus: 4, availableGpus: 4 },
+          { nodeName: 'gpu-3', totalGpus: 8, allocatedGpus: 4, availableGpus: 4 },
+        ],
+      }
+    );
+    expect(result.fits).toBe(false);
+    expect(result.warnings.map(w => w.type)).toEqual(['nodes_insufficient']);
+    expect(result.warnings[0].required).toBe(2);
+    expect(result.warnings[0].available).toBe(1);
+  });
+
   test('multiple warnings can occur', () => {
     const result = validateGpuFit(
       { ...baseConfig, replicas: 4, resources: { gpu: 4 } },
@@ -236,4 +282,18 @@ describe('formatGpuWarnings', () => {
     const formatted = formatGpuWarnings(result);
     expect(formatted[0]).toContain('Model requirement');
   });
+
+  test('formats nodes insufficient warning', () => {
+    const result: GpuFitResult = {
+      fits: false,
+      warnings: [{
+        type: 'nodes_insufficient',
+        message: 'Too few nodes',
+        required: 2,
+        available: 1,
+      }],
+    };
+    const formatted = formatGpuWarnings(result);
+    expect(formatted[0]).toContain('Multi-node placement');
+  });
 });
@@ -64,6 +64,7 @@ export function parseGpuMemory(gpuMemoryStr: string): number | undefined {
 export type GpuWarningType =
   | 'total_insufficient'      // Not enough total GPUs in cluster
   | 'contiguous_insufficient' // No single node has enough GPUs for a worker
+  | 'nodes_insufficient'      // Too few nodes with enough GPUs for multi-node replicas
   | 'model_minimum';          // Configured GPUs per worker is below model minimum
 
 /**
@@ -85,15 +86,19 @@ export interface GpuFitResult {
 }
 
 /**
- * Calculate total GPUs required for a deployment configuration
+ * Calculate total GPUs required for a deployment configuration.
+ * A multi-node replica needs `resources.gpu` on each of its nodes, so a worker
+ * is one node's share of it.
  */
 export function calculateRequiredGpus(config: DeploymentConfig): {
   total: number;
   maxPerWorker: number;
   prefillPerWorker: number;
   decodePerWorker: number;
+  nodesPerReplica: number;
 } {
   const gpusPerReplica = config.resources?.gpu ?? 1;
+  const nodesPerReplica = config.nodesPerReplica ?? 1;
 
   if (config.mode === 'disaggregated') {
     const prefillReplicas = config.prefillReplicas ?? 1;
@@ -109,16 +114,18 @@ export function calculateRequiredGpus(config: DeploymentConfig): {
       maxPerWorker,
       prefillPerWorker: prefillGpus,
       decodePerWorker: decodeGpus,
+      nodesPerReplica: 1,
     };
   }
 
   // Aggregated mode
-  const total = config.replicas * gpusPerReplica;
+  const total = config.replicas * nodesPerReplica * gpusPerReplica;
   return {
     total,
     maxPerWorker: gpusPerReplica,
     prefillPerWorker: gpusPerReplica,
     decodePerWorker: gpusPerReplica,
+    nodesPerReplica,
   };
 }
 
@@ -160,16 +167,36 @@ export function validateGpuFit(
     });
   }
 
-  // Check 3: Model minimum requirements
-  // Ensure configured GPUs per worker meets model's minimum
+  // Check 3: Nodes for multi-node replicas
+  // Each node of a replica must fit a worker, so count how many workers the
+  // nodes' free GPUs can hold
+  if (required.nodesPerReplica > 1) {
+    const requiredWorkers = config.replicas * required.nodesPerReplica;
+    const placeableWorkers = capacity.nodes.reduce(
+      (sum, node) => sum + Math.floor(node.availableGpus / required.maxPerWorker),
+      0
+    );
+    if (placeableWorkers < requiredWorkers) {
+      warnings.push({
+        type: 'nodes_insufficient',
+        message: `Deployment spans ${requiredWorkers} node(s) with ${required.maxPerWorker} GPU(s) each but the cluster's free GPUs only fit ${placeableWorkers}`,
+        required: requiredWorkers,
+        available: placeableWorkers,
+      });
+    }
+  }
+
+  // Check 4: Model minimum requirements
+  // Ensure configured GPUs per worker meets model's minimum; a multi-node
+  // replica pools the GPUs of all its nodes
   const configuredGpusPerWorker = config.mode === 'disaggregated'
     ? Math.min(required.prefillPerWorker, required.decodePerWorker)
-    : required.maxPerWorker;
+    : required.maxPerWorker * required.nodesPerReplica;
 
   if (configuredGpusPerWorker < modelMinGpus) {
     warnings.push({
       type: 'model_minimum',
-      message: `Model requires at least ${modelMinGpus} GPU(s) per worker but configuration specifies ${configuredGpusPerWorker}`,
+      message: `Model requires at least ${modelMinGpus} GPU(s) per ${required.nodesPerReplica > 1 ? 'replica' : 'worker'} but configuration specifies ${configuredGpusPerWorker}`,
       required: modelMinGpus,
       available: configuredGpusPerWorker,
     });
@@ -191,6 +218,8 @@ export function formatGpuWarnings(result: GpuFitResult): string[] {
         return `⚠️ Insufficient cluster GPUs: ${warning.message}`;
       case 'contiguous_insufficient':
         return `⚠️ Scheduling constraint: ${warning.message}`;
+      case 'nodes_insufficient':
+        return `⚠️ Multi-node placement: ${warning.message}`;
       case 'model_minimum':
         return `⚠️ Model requirement: ${warning.message}`;
       default:
@@ -2,6 +2,7 @@ import { spawn } from 'child_process';
 import { mkdirSync, existsSync } from 'fs';
 import type { HelmRepo, HelmChart } from '../providers/types';
 import logger from '../lib/logger';
+import { observeHelmOperation } from '../lib/telemetry';
 
 /**
  * NVIDIA GPU Operator Helm configuration
@@ -326,6 +327,13 @@ class HelmService {
   async install(
     chart: HelmChart,
     onStream?: StreamCallback
+  ): Promise<HelmResult> {
+    return observeHelmOperation('install', () => this.installChart(chart, onStream));
+  }
+
+  private async installChart(
+    chart: HelmChart,
+    onStream?: StreamCallback
   ): Promise<HelmResult> {
     let chartPath = chart.chart;
 
@@ -403,7 +411,7 @@ class HelmService {
 
     args.push('--wait', '--timeout', '10m');
 
-    return this.execute(args, onStream);
+    return observeHelmOperation('upgrade', () => this.execute(args, onStream));
   }
 
   /**
@@ -414,7 +422,9 @@ class HelmService {
     namespace: string,
     onStream?: StreamCallback
   ): Promise<HelmResult> {
-    return this.execute(['uninstall', releaseName, '--namespace', namespace], onStream);
+    return observeHelmOperation('uninstall', () =>
+      this.execute(['uninstall', releaseName, '--namespace', namespace], onStream)
+    );
   }
 
   /**
@@ -1,4 +1,5 @@
 import logger from '../lib/logger';
+import { fetchExternalApi } from '../lib/telemetry';
 import type { HfUserInfo, HfTokenExchangeResponse, HfApiModelResult, HfModelSearchResult, HfSearchParams, HfModelSearchResponse } from '@kubefoundry/shared';
 import { filterCompatibleModels } from './modelCompatibility';
 
@@ -48,7 +49,7 @@ class HuggingFaceService {
       code_verifier: codeVerifier,
     });
 
-    const response = await fetch(HF_TOKEN_URL, {
+    const response = await fetchExternalApi('huggingface', 'exchangeToken', HF_TOKEN_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -78,7 +79,7 @@ class HuggingFaceService {
   async getUserInfo(accessToken: string): Promise<HfUserInfo> {
     logger.debug('Fetching HuggingFace user info');
 
-    const response = await fetch(HF_WHOAMI_URL, {
+    const response = await fetchExternalApi('huggingface', 'whoami', HF_WHOAMI_URL, {
       headers: {
         Authorization: `Bearer ${accessToken}`,
       },
@@ -179,7 +180,7 @@ class HuggingFaceService {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    const response = await fetch(urlWithExpand, {
+    const response = await fetchExternalApi('huggingface', 'searchModels', urlWithExpand, {
       headers,
     });
 
@@ -228,7 +229,7 @@ class HuggingFaceService {
       headers['Authorization'] = `Bearer ${accessToken}`;
     }
 
-    const response = await fetch(url, { headers });
+    const response = await fetchExternalApi('huggingface', 'getModelInfo', url, { headers });
 
     if (!response.ok) {
       logger.error({ status: response.status, modelId }, 'Failed to fetch model info');
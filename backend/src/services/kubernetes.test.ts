@@ -1,5 +1,6 @@
 import { describe, test, expect } from 'bun:test';
 import type { ClusterGpuCapacity, NodeGpuInfo, GPUAvailability, GPUOperatorStatus } from './kubernetes';
+import { matchesLabelSelector, resolveServiceEndpoints } from './kubernetes';
 import type { ClusterStatus, PodStatus, DeploymentStatus, PodPhase } from '@kubefoundry/shared';
 
 describe('KubernetesService - Type Definitions', () => {
@@ -321,6 +322,62 @@ describe('KubernetesService - Label Selector Logic', () => {
   });
 });
 
+describe('matchesLabelSelector', () => {
+  const deployment = {
+    metadata: { labels: { 'kubefoundry.io/provider': 'native', 'app.kubernetes.io/instance': 'qwen' } },
+  };
+
+  test('matches when every requirement is met', () => {
+    expect(matchesLabelSelector(deployment, 'kubefoundry.io/provider=native')).toBe(true);
+    expect(matchesLabelSelector(deployment, 'kubefoundry.io/provider=native,app.kubernetes.io/instance=qwen')).toBe(true);
+  });
+
+  test('rejects a different value or a missing label', () => {
+    expect(matchesLabelSelector(deployment, 'kubefoundry.io/provider=dynamo')).toBe(false);
+    expect(matchesLabelSelector({ metadata: {} }, 'kubefoundry.io/provider=native')).toBe(false);
+  });
+
+  test('matches anything without a selector', () => {
+    expect(matchesLabelSelector({}, undefined)).toBe(true);
+  });
+});
+
+describe('resolveServiceEndpoints', () => {
+  const service = {
+    spec: { ports: [{ name: 'http', port: 8000 }, { name: 'grpc', port: 9000 }] },
+  };
+  const pod = (name: string, ip: string) => ({ ip, targetRef: { kind: 'Pod', name } });
+
+  test('lists ready pods with the container port the service port targets', () => {
+    const endpoints = {
+      subsets: [{
+        addresses: [pod('qwen-0', '10.0.0.1'), pod('qwen-1', '10.0.0.2')],
+        notReadyAddresses: [pod('qwen-2', '10.0.0.3')],
+        ports: [{ name: 'grpc', port: 9001 }, { name: 'http', port: 8080 }],
+      }],
+    };
+
+    expect(resolveServiceEndpoints(service, endpoints, 8000)).toEqual([
+      { pod: 'qwen-0', ip: '10.0.0.1', port: 8080 },
+      { pod: 'qwen-1', ip: '10.0.0.2', port: 8080 },
+    ]);
+  });
+
+  test('uses the only endpoint port when ports are unnamed', () => {
+    const endpoints = { subsets: [{ addresses: [pod('qwen-0', '10.0.0.1')], ports: [{ port: 8000 }] }] };
+    expect(resolveServiceEndpoints({ spec: { ports: [{ port: 8000 }] } }, endpoints, 8000))
+      .toEqual([{ pod: 'qwen-0', ip: '10.0.0.1', port: 8000 }]);
+  });
+
+  test('skips addresses that are not pods and ports the service does not expose', () => {
+    const endpoints = {
+      subsets: [{ addresses: [{ ip: '10.0.0.9' }], ports: [{ name: 'http', port: 8000 }] }],
+    };
+    expect(resolveServiceEndpoints(service, endpoints, 8000)).toEqual([]);
+    expect(resolveServiceEndpoints(service, { subsets: [] }, 7000)).toEqual([]);
+  });
+});
+
 describe('KubernetesService - Protected Namespaces', () => {
   const protectedNamespaces = ['default', 'kube-system', 'kube-public', 'kube-node-lease'];
 
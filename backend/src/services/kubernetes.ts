@@ -1,9 +1,13 @@
 import * as k8s from '@kubernetes/client-node';
 import { configService } from './config';
+import { revisionService } from './revisions';
+import { deploymentWatcher, toPodStatus } from './deploymentWatcher';
+import { modelCacheService } from './modelCache';
 import { providerRegistry } from '../providers';
-import type { DeploymentStatus, PodStatus, ClusterStatus, PodPhase, DeploymentConfig, RuntimeStatus } from '@kubefoundry/shared';
-import type { InstallationStatus } from '../providers/types';
-import { withRetry, isK8sRetryableError } from '../lib/retry';
+import type { DeploymentStatus, PodStatus, ClusterStatus, DeploymentConfig, RuntimeStatus } from '@kubefoundry/shared';
+import { ConfigParseError, type InstallationStatus } from '../providers/types';
+import { withRetry, isK8sRetryableError, type RetryOptions } from '../lib/retry';
+import { observeKubernetesCall } from '../lib/telemetry';
 import logger from '../lib/logger';
 
 /**
@@ -52,11 +56,75 @@ export interface ClusterGpuCapacity {
   nodes: NodeGpuInfo[];           // Per-node breakdown
 }
 
+/**
+ * A ready pod behind a service port
+ */
+export interface ServiceEndpoint {
+  pod: string;
+  ip: string;
+  /** Container port the service port targets, which can differ from the service port */
+  port: number;
+}
+
+/**
+ * Ready pods behind one port of a service, read from its Endpoints. Endpoint
+ * ports carry the name of the service port they belong to.
+ */
+export function resolveServiceEndpoints(
+  service: k8s.V1Service,
+  endpoints: k8s.V1Endpoints,
+  port: number
+): ServiceEndpoint[] {
+  const servicePort = service.spec?.ports?.find((p) => p.port === port);
+  if (!servicePort) {
+    return [];
+  }
+
+  return (endpoints.subsets || []).flatMap((subset) => {
+    const ports = subset.ports || [];
+    const endpointPort = ports.find((p) => p.name === servicePort.name) || (ports.length === 1 ? ports[0] : undefined);
+    if (!endpointPort) {
+      return [];
+    }
+    return (subset.addresses || [])
+      .filter((address) => address.targetRef?.kind === 'Pod' && address.targetRef.name)
+      .map((address) => ({ pod: address.targetRef!.name!, ip: address.ip, port: endpointPort.port }));
+  });
+}
+
+/**
+ * Annotation holding the DeploymentConfig a resource was last applied with
+ */
+export const APPLIED_CONFIG_ANNOTATION = 'kubefoundry.io/config';
+
+/**
+ * Whether a resource carries every label of an equality-based selector
+ * such as 'a=b,c=d'. An empty selector matches everything.
+ */
+export function matchesLabelSelector(obj: unknown, selector?: string): boolean {
+  if (!selector) {
+    return true;
+  }
+  const labels = (obj as { metadata?: { labels?: Record<string, string> } })?.metadata?.labels || {};
+  return selector.split(',').every((requirement) => {
+    const [key, value] = requirement.split('=');
+    return labels[key.trim()] === value?.trim();
+  });
+}
+
+/**
+ * Call the Kubernetes API with retries, recording the call in KubeFoundry's own metrics
+ */
+function callKubernetesApi<T>(fn: () => Promise<T>, options: RetryOptions & { operationName: string }): Promise<T> {
+  return observeKubernetesCall(options.operationName, () => withRetry(fn, options));
+}
+
 class KubernetesService {
   private kc: k8s.KubeConfig;
   private customObjectsApi: k8s.CustomObjectsApi;
   private coreV1Api: k8s.CoreV1Api;
   private apiExtensionsApi: k8s.ApiextensionsV1Api;
+  private objectApi: k8s.KubernetesObjectApi;
   private defaultNamespace: string;
 
   constructor() {
@@ -71,12 +139,13 @@ class KubernetesService {
     this.customObjectsApi = this.kc.makeApiClient(k8s.CustomObjectsApi);
     this.coreV1Api = this.kc.makeApiClient(k8s.CoreV1Api);
     this.apiExtensionsApi = this.kc.makeApiClient(k8s.ApiextensionsV1Api);
+    this.objectApi = k8s.KubernetesObjectApi.makeApiClient(this.kc);
     this.defaultNamespace = process.env.DEFAULT_NAMESPACE || 'kubefoundry-system';
   }
 
   async checkClusterConnection(): Promise<ClusterStatus> {
     try {
-      await withRetry(
+      await callKubernetesApi(
         () => this.coreV1Api.listNamespace(),
         { operationName: 'checkClusterConnection', maxRetries: 2 }
       );
@@ -98,6 +167,12 @@ class KubernetesService {
   async listDeployments(namespace: string, providerId?: string): Promise<DeploymentStatus[]> {
     logger.debug({ namespace, providerId }, 'listDeployments called');
 
+    // Serve from the watch cache when it is in sync with the cluster
+    const cached = deploymentWatcher.listDeployments(namespace);
+    if (cached) {
+      return providerId ? cached.filter((d) => d.provider === providerId) : cached;
+    }
+
     // If a specific provider is requested, only query that provider
     if (providerId) {
       return this.listDeploymentsForProvider(namespace, providerId);
@@ -140,12 +215,17 @@ class KubernetesService {
         'Calling listNamespacedCustomObject'
       );
 
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.customObjectsApi.listNamespacedCustomObject(
           crdConfig.apiGroup,
           crdConfig.apiVersion,
           namespace,
-          crdConfig.plural
+          crdConfig.plural,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          crdConfig.labelSelector
         ),
         { operationName: `listDeployments:${providerId}` }
       );
@@ -187,12 +267,17 @@ class KubernetesService {
         'Calling listNamespacedCustomObject'
       );
 
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.customObjectsApi.listNamespacedCustomObject(
           crdConfig.apiGroup,
           crdConfig.apiVersion,
           namespace,
-          crdConfig.plural
+          crdConfig.plural,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          crdConfig.labelSelector
         ),
         { operationName: 'listDeployments' }
       );
@@ -244,7 +329,7 @@ class KubernetesService {
       const provider = providerRegistry.getProvider(providerId);
       const crdConfig = provider.getCRDConfig();
 
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.customObjectsApi.getNamespacedCustomObject(
           crdConfig.apiGroup,
           crdConfig.apiVersion,
@@ -255,6 +340,11 @@ class KubernetesService {
         { operationName: `getDeployment:${providerId}` }
       );
 
+      // A same-named resource of a shared kind may belong to another workload
+      if (!matchesLabelSelector(response.body, crdConfig.labelSelector)) {
+        return null;
+      }
+
       return provider.parseStatus(response.body);
     } catch (error: any) {
       const statusCode = error?.statusCode || error?.response?.statusCode;
@@ -302,7 +392,7 @@ class KubernetesService {
       const provider = providerRegistry.getProvider(providerId);
       const crdConfig = provider.getCRDConfig();
 
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.customObjectsApi.getNamespacedCustomObject(
           crdConfig.apiGroup,
           crdConfig.apiVersion,
@@ -313,6 +403,10 @@ class KubernetesService {
         { operationName: `getDeploymentManifest:${providerId}` }
       );
 
+      if (!matchesLabelSelector(response.body, crdConfig.labelSelector)) {
+        return null;
+      }
+
       return response.body as Record<string, unknown>;
     } catch (error: any) {
       const statusCode = error?.statusCode || error?.response?.statusCode;
@@ -325,11 +419,11 @@ class KubernetesService {
     }
   }
 
-  async createDeployment(config: DeploymentConfig, providerId?: string): Promise<void> {
-    // Get the provider - prefer config.provider, then explicit providerId, then fall back to active provider
-    const resolvedProviderId = config.provider || providerId || await configService.getActiveProviderId();
-    const provider = providerRegistry.getProvider(resolvedProviderId);
-    const crdConfig = provider.getCRDConfig();
+  /**
+   * Generate the custom resource for a deployment, labelled with its provider
+   */
+  buildDeploymentManifest(config: DeploymentConfig, providerId: string): Record<string, unknown> {
+    const provider = providerRegistry.getProvider(providerId);
 
     // Generate manifest using provider
     const manifest = provider.generateManifest(config) as Record<string, unknown>;
@@ -337,11 +431,34 @@ class KubernetesService {
     // Add kubefoundry.io/provider label for easier querying
     const metadata = manifest.metadata as Record<string, unknown> || {};
     const labels = (metadata.labels as Record<string, string>) || {};
-    labels['kubefoundry.io/provider'] = resolvedProviderId;
+    labels['kubefoundry.io/provider'] = providerId;
     metadata.labels = labels;
     manifest.metadata = metadata;
 
-    await withRetry(
+    return manifest;
+  }
+
+  async createDeployment(config: DeploymentConfig, providerId?: string): Promise<void> {
+    // Get the provider - prefer config.provider, then explicit providerId, then fall back to active provider
+    const resolvedProviderId = config.provider || providerId || await configService.getActiveProviderId();
+    const provider = providerRegistry.getProvider(resolvedProviderId);
+    const crdConfig = provider.getCRDConfig();
+
+    const manifest = this.buildDeploymentManifest(config, resolvedProviderId);
+    const metadata = manifest.metadata as Record<string, unknown>;
+
+    // Record the applied config so later updates can be diffed against it
+    const annotations = (metadata.annotations as Record<string, string>) || {};
+    annotations[APPLIED_CONFIG_ANNOTATION] = JSON.stringify({ ...config, provider: resolvedProviderId });
+    metadata.annotations = annotations;
+    manifest.metadata = metadata;
+
+    // Pods would stay Pending on a missing claim, so fail before creating anything
+    if (config.modelCache) {
+      await modelCacheService.ensureClaim(config.namespace, config.modelCache);
+    }
+
+    const response = await callKubernetesApi(
       () => this.customObjectsApi.createNamespacedCustomObject(
         crdConfig.apiGroup,
         crdConfig.apiVersion,
@@ -352,6 +469,19 @@ class KubernetesService {
       { operationName: 'createDeployment' }
     );
 
+    // Resources without an operator to create them, e.g. the Service of a native deployment.
+    // The deployment resource owns them, so Kubernetes garbage-collects them along with it.
+    for (const resource of provider.generateOwnedResources?.(config) || []) {
+      try {
+        await this.createOwnedResource(resource, response.body as k8s.KubernetesObject);
+      } catch (error) {
+        logger.warn(
+          { error, name: config.name, kind: resource.kind },
+          'Failed to create owned resource, deployment may not be accessible'
+        );
+      }
+    }
+
     // For KAITO vLLM deployments, create a separate service targeting port 8000
     // KAITO controller creates its service with hardcoded targetPort 5000, which doesn't work for vLLM
     const kaitoConfig = config as { modelSource?: string };
@@ -370,12 +500,162 @@ class KubernetesService {
     }
   }
 
+  /**
+   * Create a resource owned by another. One that already exists is left alone,
+   * or merge-patched to match when updateExisting is set.
+   */
+  private async createOwnedResource(
+    resource: Record<string, unknown>,
+    owner: k8s.KubernetesObject,
+    updateExisting = false
+  ): Promise<void> {
+    const metadata = resource.metadata as Record<string, unknown>;
+    metadata.ownerReferences = [{
+      apiVersion: owner.apiVersion,
+      kind: owner.kind,
+      name: owner.metadata?.name,
+      uid: owner.metadata?.uid,
+      controller: true,
+      blockOwnerDeletion: true,
+    }];
+
+    try {
+      await callKubernetesApi(
+        () => this.objectApi.create(resource as k8s.KubernetesObject),
+        { operationName: 'createOwnedResource' }
+      );
+      logger.info({ kind: resource.kind, name: metadata.name, owner: owner.metadata?.name }, 'Created owned resource');
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode !== 409) {
+        throw error;
+      }
+      if (!updateExisting) {
+        logger.debug({ kind: resource.kind, name: metadata.name }, 'Owned resource already exists');
+        return;
+      }
+      await callKubernetesApi(
+        () => this.objectApi.patch(
+          resource as k8s.KubernetesObject,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_JSON_MERGE_PATCH } }
+        ),
+        { operationName: 'patchOwnedResource' }
+      );
+      logger.info({ kind: resource.kind, name: metadata.name, owner: owner.metadata?.name }, 'Updated owned resource');
+    }
+  }
+
+  /**
+   * Submit any resource to the API server with dryRun=All. It goes through schema
+   * validation, quota and admission webhooks without being persisted.
+   * Throws the API server's error when the resource would be rejected.
+   */
+  async dryRunCreate(manifest: Record<string, unknown>): Promise<void> {
+    await callKubernetesApi(
+      () => this.objectApi.create(manifest as k8s.KubernetesObject, undefined, 'All'),
+      { operationName: 'dryRunCreate' }
+    );
+  }
+
+  /**
+   * Get the config a deployment was last applied with.
+   * Prefers the recorded annotation and otherwise rebuilds it from the live resource,
+   * returning null if no provider recognizes the resource. Throws ConfigParseError
+   * when the rebuilt config does not validate.
+   */
+  getAppliedConfig(manifest: Record<string, unknown>): DeploymentConfig | null {
+    const metadata = manifest.metadata as {
+      name?: string;
+      labels?: Record<string, string>;
+      annotations?: Record<string, string>;
+    } | undefined;
+    const raw = metadata?.annotations?.[APPLIED_CONFIG_ANNOTATION];
+
+    if (raw) {
+      try {
+        return JSON.parse(raw) as DeploymentConfig;
+      } catch (error) {
+        logger.warn({ error, annotation: APPLIED_CONFIG_ANNOTATION }, 'Failed to parse applied config annotation');
+      }
+    }
+
+    const providerId = metadata?.labels?.['kubefoundry.io/provider'];
+    const provider = (providerId && providerRegistry.getProviderOrNull(providerId))
+      || providerRegistry.listProviders().find((p) => {
+        const crdConfig = p.getCRDConfig();
+        return manifest.apiVersion === `${crdConfig.apiGroup}/${crdConfig.apiVersion}` && manifest.kind === crdConfig.kind;
+      });
+
+    if (!provider) {
+      return null;
+    }
+
+    try {
+      return provider.parseConfig(manifest);
+    } catch (error) {
+      if (error instanceof ConfigParseError) {
+        throw error;
+      }
+      logger.warn({ error, name: metadata?.name, providerId: provider.id }, 'Failed to rebuild config from live resource');
+      return null;
+    }
+  }
+
+  /**
+   * Update an existing deployment in place by applying a JSON merge patch to its CR.
+   * The new config is recorded on the resource alongside the patch.
+   */
+  async patchDeployment(config: DeploymentConfig, patch: Record<string, unknown>): Promise<void> {
+    const providerId = config.provider || await configService.getActiveProviderId();
+    const provider = providerRegistry.getProvider(providerId);
+    const crdConfig = provider.getCRDConfig();
+
+    const metadata = (patch.metadata as Record<string, unknown>) || {};
+    const annotations = (metadata.annotations as Record<string, string>) || {};
+    annotations[APPLIED_CONFIG_ANNOTATION] = JSON.stringify({ ...config, provider: providerId });
+    metadata.annotations = annotations;
+    patch.metadata = metadata;
+
+    const response = await callKubernetesApi(
+      () => this.customObjectsApi.patchNamespacedCustomObject(
+        crdConfig.apiGroup,
+        crdConfig.apiVersion,
+        config.namespace,
+        crdConfig.plural,
+        config.name,
+        patch,
+        undefined,
+        undefined,
+        undefined,
+        { headers: { 'Content-Type': k8s.PatchUtils.PATCH_FORMAT_JSON_MERGE_PATCH } }
+      ),
+      { operationName: 'patchDeployment' }
+    );
+
+    // No operator updates owned resources, so bring them in line with the new config
+    for (const resource of provider.generateOwnedResources?.(config) || []) {
+      try {
+        await this.createOwnedResource(resource, response.body as k8s.KubernetesObject, true);
+      } catch (error) {
+        logger.warn(
+          { error, name: config.name, kind: resource.kind },
+          'Failed to update owned resource, deployment may not be accessible'
+        );
+      }
+    }
+  }
+
   async deleteDeployment(name: string, namespace: string, providerId?: string): Promise<void> {
     // If provider is specified, delete from that provider
     if (providerId) {
       await this.deleteDeploymentFromProvider(name, namespace, providerId);
       // Also try to delete vLLM service if it exists
       await this.deleteService(`${name}-vllm`, namespace);
+      await this.deleteRevisions(name, namespace);
       return;
     }
 
@@ -390,6 +670,18 @@ class KubernetesService {
     
     // Also try to delete vLLM service if it exists (for KAITO vLLM deployments)
     await this.deleteService(`${name}-vllm`, namespace);
+    await this.deleteRevisions(name, namespace);
+  }
+
+  /**
+   * Remove recorded revisions of a deleted deployment
+   */
+  private async deleteRevisions(name: string, namespace: string): Promise<void> {
+    try {
+      await revisionService.deleteRevisions(name, namespace);
+    } catch (error) {
+      logger.warn({ error, name, namespace }, 'Failed to delete deployment revisions');
+    }
   }
 
   /**
@@ -399,7 +691,7 @@ class KubernetesService {
     const provider = providerRegistry.getProvider(providerId);
     const crdConfig = provider.getCRDConfig();
 
-    await withRetry(
+    await callKubernetesApi(
       () => this.customObjectsApi.deleteNamespacedCustomObject(
         crdConfig.apiGroup,
         crdConfig.apiVersion,
@@ -412,16 +704,22 @@ class KubernetesService {
   }
 
   async getDeploymentPods(name: string, namespace: string): Promise<PodStatus[]> {
+    const cached = deploymentWatcher.getDeploymentPods(name, namespace);
+    if (cached) {
+      return cached;
+    }
+
     // Try multiple label selectors since different providers use different labels
     const labelSelectors = [
       `app.kubernetes.io/instance=${name}`,  // Standard K8s label (Dynamo, KubeRay)
       `kaito.sh/workspace=${name}`,          // KAITO workspace label
+      `serving.kserve.io/inferenceservice=${name}`, // KServe predictor pods
       `app=${name}`,                         // Common fallback
     ];
 
     for (const labelSelector of labelSelectors) {
       try {
-        const response = await withRetry(
+        const response = await callKubernetesApi(
           () => this.coreV1Api.listNamespacedPod(
             namespace,
             undefined,
@@ -435,13 +733,7 @@ class KubernetesService {
 
         if (response.body.items.length > 0) {
           logger.debug({ name, namespace, labelSelector, podCount: response.body.items.length }, 'Found pods with selector');
-          return response.body.items.map((pod): PodStatus => ({
-            name: pod.metadata?.name || 'unknown',
-            phase: (pod.status?.phase as PodPhase) || 'Unknown',
-            ready: pod.status?.containerStatuses?.every((cs) => cs.ready) || false,
-            restarts: pod.status?.containerStatuses?.reduce((sum, cs) => sum + cs.restartCount, 0) || 0,
-            node: pod.spec?.nodeName,
-          }));
+          return response.body.items.map(toPodStatus);
         }
       } catch (error) {
         logger.debug({ error, name, namespace, labelSelector }, 'Error trying label selector');
@@ -453,7 +745,7 @@ class KubernetesService {
     // The RayCluster name is the RayService name with a random suffix, so we need to
     // find pods where the ray.io/cluster label starts with the deployment name
     try {
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.coreV1Api.listNamespacedPod(
           namespace,
           undefined,
@@ -473,13 +765,7 @@ class KubernetesService {
 
       if (matchingPods.length > 0) {
         logger.debug({ name, namespace, podCount: matchingPods.length }, 'Found KubeRay pods by cluster label prefix');
-        return matchingPods.map((pod): PodStatus => ({
-          name: pod.metadata?.name || 'unknown',
-          phase: (pod.status?.phase as PodPhase) || 'Unknown',
-          ready: pod.status?.containerStatuses?.every((cs) => cs.ready) || false,
-          restarts: pod.status?.containerStatuses?.reduce((sum, cs) => sum + cs.restartCount, 0) || 0,
-          node: pod.spec?.nodeName,
-        }));
+        return matchingPods.map(toPodStatus);
       }
     } catch (error) {
       logger.debug({ error, name, namespace }, 'Error trying KubeRay cluster label selector');
@@ -553,7 +839,7 @@ class KubernetesService {
    */
   async checkGPUAvailability(): Promise<GPUAvailability> {
     try {
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.coreV1Api.listNode(),
         { operationName: 'checkGPUAvailability' }
       );
@@ -595,7 +881,7 @@ class KubernetesService {
     // Check for GPU Operator CRD (ClusterPolicy)
     let crdFound = false;
     try {
-      await withRetry(
+      await callKubernetesApi(
         () => this.customObjectsApi.listClusterCustomObject(
           'nvidia.com',
           'v1',
@@ -615,7 +901,7 @@ class KubernetesService {
     // Check for GPU Operator pods in gpu-operator namespace
     let operatorRunning = false;
     try {
-      const pods = await withRetry(
+      const pods = await callKubernetesApi(
         () => this.coreV1Api.listNamespacedPod(
           'gpu-operator',
           undefined,
@@ -673,7 +959,7 @@ class KubernetesService {
   async getClusterGpuCapacity(): Promise<ClusterGpuCapacity> {
     try {
       // Step 1: Get all nodes and their GPU capacity
-      const nodesResponse = await withRetry(
+      const nodesResponse = await callKubernetesApi(
         () => this.coreV1Api.listNode(),
         { operationName: 'getClusterGpuCapacity:listNodes' }
       );
@@ -713,7 +999,7 @@ class KubernetesService {
       }
 
       // Step 2: Get all pods across all namespaces and sum their GPU requests per node
-      const podsResponse = await withRetry(
+      const podsResponse = await callKubernetesApi(
         () => this.coreV1Api.listPodForAllNamespaces(),
         { operationName: 'getClusterGpuCapacity:listPods' }
       );
@@ -807,7 +1093,7 @@ class KubernetesService {
       const basicCapacity = await this.getClusterGpuCapacity();
 
       // Step 1: Get all nodes and group by node pool
-      const nodesResponse = await withRetry(
+      const nodesResponse = await callKubernetesApi(
         () => this.coreV1Api.listNode(),
         { operationName: 'getDetailedClusterGpuCapacity:listNodes' }
       );
@@ -935,7 +1221,7 @@ class KubernetesService {
    */
   async getAllNodePools(): Promise<import('@kubefoundry/shared').NodePoolInfo[]> {
     try {
-      const nodesResponse = await withRetry(
+      const nodesResponse = await callKubernetesApi(
         () => this.coreV1Api.listNode(),
         { operationName: 'getAllNodePools:listNodes' }
       );
@@ -947,6 +1233,8 @@ class KubernetesService {
         gpuModel?: string;
         instanceType?: string;
         region?: string;
+        labels: Record<string, string>;
+        taints: import('@kubefoundry/shared').NodeTaint[];
       }>();
 
       for (const node of nodesResponse.body.items) {
@@ -978,6 +1266,10 @@ class KubernetesService {
           this.extractGpuModelFromInstanceType(node.metadata?.labels)
         ) : undefined;
 
+        // Per-node labels can't be used to target a pool
+        const labels = { ...node.metadata?.labels };
+        delete labels['kubernetes.io/hostname'];
+
         if (!nodePoolMap.has(nodePoolName)) {
           nodePoolMap.set(nodePoolName, {
             nodeCount: 0,
@@ -986,6 +1278,8 @@ class KubernetesService {
             gpuModel,
             instanceType,
             region,
+            labels,
+            taints: [],
           });
         }
 
@@ -993,6 +1287,24 @@ class KubernetesService {
         poolInfo.nodeCount += 1;
         poolInfo.gpuCount += gpuCount;
 
+        // Keep only the labels every node in the pool shares
+        for (const [key, value] of Object.entries(poolInfo.labels)) {
+          if (labels[key] !== value) {
+            delete poolInfo.labels[key];
+          }
+        }
+
+        // Condition taints (not-ready, unschedulable, ...) are set by the node controller and come and go
+        for (const taint of node.spec?.taints || []) {
+          if (taint.key.startsWith('node.kubernetes.io/')) {
+            continue;
+          }
+          const effect = taint.effect as import('@kubefoundry/shared').NodeTaint['effect'];
+          if (!poolInfo.taints.some((t) => t.key === taint.key && (t.value || '') === (taint.value || '') && t.effect === effect)) {
+            poolInfo.taints.push({ key: taint.key, ...(taint.value && { value: taint.value }), effect });
+          }
+        }
+
         // Update instance type if not set
         if (!poolInfo.instanceType && instanceType) {
           poolInfo.instanceType = instanceType;
@@ -1018,6 +1330,8 @@ class KubernetesService {
           gpuModel: info.gpuModel,
           instanceType: info.instanceType,
           region: info.region,
+          labels: info.labels,
+          taints: info.taints,
         });
       }
 
@@ -1037,7 +1351,7 @@ class KubernetesService {
   ): Promise<import('@kubefoundry/shared').PodFailureReason[]> {
     try {
       // Get events for the pod
-      const eventsResponse = await withRetry(
+      const eventsResponse = await callKubernetesApi(
         () => this.coreV1Api.listNamespacedEvent(
           namespace,
           undefined,
@@ -1211,7 +1525,7 @@ class KubernetesService {
    */
   async getClusterNodes(): Promise<{ name: string; ready: boolean; gpuCount: number }[]> {
     try {
-      const nodesResponse = await withRetry(
+      const nodesResponse = await callKubernetesApi(
         () => this.coreV1Api.listNode(),
         { operationName: 'getClusterNodes' }
       );
@@ -1258,7 +1572,7 @@ class KubernetesService {
     }
   ): Promise<string> {
     try {
-      const response = await withRetry(
+      const response = await callKubernetesApi(
         () => this.coreV1Api.readNamespacedPodLog(
           podName,
           namespace,
@@ -1329,7 +1643,7 @@ class KubernetesService {
     };
 
     try {
-      await withRetry(
+      await callKubernetesApi(
         () => this.coreV1Api.createNamespacedService(namespace, service),
         { operationName: 'createService' }
       );
@@ -1350,7 +1664,7 @@ class KubernetesService {
    */
   async deleteService(name: string, namespace: string): Promise<void> {
     try {
-      await withRetry(
+      await callKubernetesApi(
         () => this.coreV1Api.deleteNamespacedService(name, namespace),
         { operationName: 'deleteService' }
       );
@@ -1366,6 +1680,23 @@ class KubernetesService {
     }
   }
 
+  /**
+   * List the ready pods behind a service port
+   */
+  async getServiceEndpoints(name: string, namespace: string, port: number): Promise<ServiceEndpoint[]> {
+    const [service, endpoints] = await Promise.all([
+      callKubernetesApi(
+        () => this.coreV1Api.readNamespacedService(name, namespace),
+        { operationName: 'getServiceEndpoints:service', maxRetries: 1 }
+      ),
+      callKubernetesApi(
+        () => this.coreV1Api.readNamespacedEndpoints(name, namespace),
+        { operationName: 'getServiceEndpoints:endpoints', maxRetries: 1 }
+      ),
+    ]);
+    return resolveServiceEndpoints(service.body, endpoints.body, port);
+  }
+
   /**
    * Delete a Custom Resource Definition (CRD) from the cluster
    * @param crdName - Full CRD name (e.g., 'workspaces.kaito.sh')
@@ -1374,7 +1705,7 @@ class KubernetesService {
   async deleteCRD(crdName: string): Promise<{ success: boolean; message: string }> {
     try {
       logger.info({ crdName }, 'Deleting CRD');
-      await withRetry(
+      await callKubernetesApi(
         () => this.apiExtensionsApi.deleteCustomResourceDefinition(crdName),
         { operationName: 'deleteCRD', maxRetries: 2 }
       );
@@ -1406,7 +1737,7 @@ class KubernetesService {
 
     try {
       logger.info({ namespace }, 'Deleting namespace');
-      await withRetry(
+      await callKubernetesApi(
         () => this.coreV1Api.deleteNamespace(namespace),
         { operationName: 'deleteNamespace', maxRetries: 2 }
       );
@@ -0,0 +1,121 @@
+import { describe, test, expect, afterEach, spyOn } from 'bun:test';
+import * as k8s from '@kubernetes/client-node';
+import type { Writable } from 'stream';
+import type { LogStreamError, LogStreamLine } from '@kubefoundry/shared';
+import { LineSplitter, logStreamService, type LogStreamSettings } from './logStream';
+
+describe('LineSplitter', () => {
+  test('emits complete lines and holds back partial ones', () => {
+    const lines: string[] = [];
+    const splitter = new LineSplitter((line) => lines.push(line));
+
+    splitter.push('INFO starting\nINFO load');
+    expect(lines).toEqual(['INFO starting']);
+
+    splitter.push('ing model\r\nWARN slow\n');
+    expect(lines).toEqual(['INFO starting', 'INFO loading model', 'WARN slow']);
+  });
+
+  test('flushes a trailing line without a newline', () => {
+    const lines: string[] = [];
+    const splitter = new LineSplitter((line) => lines.push(line));
+
+    splitter.push('last line');
+    splitter.flush();
+    splitter.flush();
+    expect(lines).toEqual(['last line']);
+  });
+});
+
+describe('LogStreamService', () => {
+  let logSpy: ReturnType<typeof spyOn<k8s.Log, 'log'>> | undefined;
+
+  afterEach(() => {
+    logSpy?.mockRestore();
+  });
+
+  /** Capture the sink of each pod's stream so the test decides when lines arrive */
+  function mockLogs(failingPods: string[] = []) {
+    const sinks = new Map<string, Writable>();
+    logSpy = spyOn(k8s.Log.prototype, 'log').mockImplementation(async (_namespace, pod, _container, stream) => {
+      if (failingPods.includes(pod)) {
+        throw { body: { message: `container in pod ${pod} is waiting to start` } };
+      }
+      sinks.set(pod, stream as Writable);
+      return { abort: () => undefined, on: () => undefined } as never;
+    });
+    return sinks;
+  }
+
+  function start(pods: string[], settings: Partial<LogStreamSettings> = {}) {
+    const lines: LogStreamLine[] = [];
+    const errors: LogStreamError[] = [];
+    let ended = 0;
+    logStreamService.streamLogs(
+      'inference',
+      pods.map((pod) => ({ pod, container: 'main' })),
+      { follow: true, ...settings },
+      { onLine: (line) => lines.push(line), onError: (error) => errors.push(error), onEnd: () => { ended += 1; } }
+    );
+    return { lines, errors, ended: () => ended };
+  }
+
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  test('interleaves lines from every pod in the order they arrive', async () => {
+    const sinks = mockLogs();
+    const { lines } = start(['qwen-a', 'qwen-b']);
+    await settle();
+
+    sinks.get('qwen-a')!.write('loading\n');
+    sinks.get('qwen-b')!.write('\x1b[32mready\x1b[0m\nserv');
+    sinks.get('qwen-a')!.write('ready\n');
+    sinks.get('qwen-b')!.write('ing\n');
+
+    expect(lines).toEqual([
+      { pod: 'qwen-a', container: 'main', line: 'loading' },
+      { pod: 'qwen-b', container: 'main', line: 'ready' },
+      { pod: 'qwen-a', container: 'main', line: 'ready' },
+      { pod: 'qwen-b', container: 'main', line: 'serving' },
+    ]);
+  });
+
+  test('only delivers lines matching the filter', async () => {
+    const sinks = mockLogs();
+    const { lines } = start(['qwen-a'], { filter: /^(WARN|ERROR) / });
+    await settle();
+
+    sinks.get('qwen-a')!.write('INFO started\nWARN slow\nINFO WARN ignored\nERROR failed\n');
+
+    expect(lines.map((l) => l.line)).toEqual(['WARN slow', 'ERROR failed']);
+  });
+
+  test('passes the previous and follow settings to the API server', async () => {
+    mockLogs();
+    start(['qwen-a'], { follow: false, previous: true, tailLines: 50 });
+    await settle();
+
+    expect(logSpy).toHaveBeenCalledWith('inference', 'qwen-a', 'main', expect.anything(), {
+      follow: false,
+      previous: true,
+      sinceSeconds: undefined,
+      tailLines: 50,
+      timestamps: undefined,
+    });
+  });
+
+  test('ends once every stream has closed or failed', async () => {
+    const sinks = mockLogs(['qwen-c']);
+    const { errors, ended } = start(['qwen-a', 'qwen-b', 'qwen-c']);
+    await settle();
+
+    expect(errors).toEqual([{ pod: 'qwen-c', container: 'main', message: 'container in pod qwen-c is waiting to start' }]);
+    sinks.get('qwen-a')!.end();
+    await settle();
+    expect(ended()).toBe(0);
+
+    sinks.get('qwen-b')!.end('last line without newline');
+    await settle();
+    expect(ended()).toBe(1);
+  });
+});
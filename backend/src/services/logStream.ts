@@ -0,0 +1,168 @@
+import * as k8s from '@kubernetes/client-node';
+import { Writable } from 'stream';
+import type { LogStreamError, LogStreamLine } from '@kubefoundry/shared';
+import logger from '../lib/logger';
+
+// eslint-disable-next-line no-control-regex
+const ANSI_REGEX = /\x1b\[[0-9;]*m/g;
+
+/**
+ * A pod container to stream logs from
+ */
+export interface LogStreamTarget {
+  pod: string;
+  /** Empty string lets the API server pick the only container */
+  container: string;
+}
+
+export interface LogStreamSettings {
+  follow: boolean;
+  previous?: boolean;
+  sinceSeconds?: number;
+  tailLines?: number;
+  timestamps?: boolean;
+  /** Only lines matching this pattern are delivered */
+  filter?: RegExp;
+}
+
+export interface LogStreamHandlers {
+  onLine: (line: LogStreamLine) => void;
+  onError: (error: LogStreamError) => void;
+  /** Called once every target's stream has ended or failed */
+  onEnd: () => void;
+}
+
+/**
+ * Split streamed text into complete lines, holding back a trailing partial line
+ */
+export class LineSplitter {
+  private buffer = '';
+
+  constructor(private onLine: (line: string) => void) {}
+
+  push(chunk: string): void {
+    const lines = (this.buffer + chunk).split('\n');
+    this.buffer = lines.pop() || '';
+    for (const line of lines) {
+      this.onLine(line.replace(/\r$/, ''));
+    }
+  }
+
+  flush(): void {
+    if (this.buffer) {
+      this.onLine(this.buffer);
+      this.buffer = '';
+    }
+  }
+}
+
+/**
+ * Log Stream Service
+ * Follows logs of several pod containers at once and delivers their lines as they arrive
+ */
+class LogStreamService {
+  private kc: k8s.KubeConfig;
+  private log: k8s.Log;
+
+  constructor() {
+    this.kc = new k8s.KubeConfig();
+
+    try {
+      this.kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for LogStreamService');
+    }
+
+    this.log = new k8s.Log(this.kc);
+  }
+
+  /**
+   * Start streaming logs from every target. Returns a function that stops all streams.
+   */
+  streamLogs(
+    namespace: string,
+    targets: LogStreamTarget[],
+    settings: LogStreamSettings,
+    handlers: LogStreamHandlers
+  ): () => void {
+    let remaining = targets.length;
+    let stopped = false;
+    const requests: Array<{ abort: () => void }> = [];
+
+    const finishTarget = () => {
+      remaining -= 1;
+      if (remaining === 0 && !stopped) {
+        handlers.onEnd();
+      }
+    };
+
+    if (targets.length === 0) {
+      handlers.onEnd();
+    }
+
+    for (const { pod, container } of targets) {
+      let finished = false;
+      const finish = () => {
+        if (!finished) {
+          finished = true;
+          finishTarget();
+        }
+      };
+      const fail = (error: any) => {
+        const message = error?.body?.message || error?.message || 'Failed to stream logs';
+        logger.debug({ error: message, pod, container, namespace }, 'Log stream failed');
+        if (!stopped) {
+          handlers.onError({ pod, container, message });
+        }
+        finish();
+      };
+
+      const splitter = new LineSplitter((raw) => {
+        const line = raw.replace(ANSI_REGEX, '');
+        if (!settings.filter || settings.filter.test(line)) {
+          handlers.onLine({ pod, container, line });
+        }
+      });
+
+      const sink = new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          splitter.push(chunk.toString());
+          callback();
+        },
+        final(callback) {
+          splitter.flush();
+          callback();
+        },
+      });
+      sink.on('finish', finish);
+
+      this.log
+        .log(namespace, pod, container, sink, {
+          follow: settings.follow,
+          previous: settings.previous,
+          sinceSeconds: settings.sinceSeconds,
+          tailLines: settings.tailLines,
+          timestamps: settings.timestamps,
+        })
+        .then((request) => {
+          if (stopped) {
+            request.abort();
+            return;
+          }
+          requests.push(request);
+          // Failures after the response started, such as a dropped connection
+          request.on('error', fail);
+        })
+        .catch(fail);
+    }
+
+    return () => {
+      stopped = true;
+      for (const request of requests) {
+        request.abort();
+      }
+    };
+  }
+}
+
+export const logStreamService = new LogStreamService();
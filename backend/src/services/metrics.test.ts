@@ -1,5 +1,10 @@
-import { describe, test, expect } from 'bun:test';
+import { describe, test, expect, afterEach, spyOn } from 'bun:test';
 import type { RawMetricValue, MetricsResponse } from '@kubefoundry/shared';
+import { metricsService } from './metrics';
+import { configService } from './config';
+import { prometheusService, PrometheusError } from './prometheus';
+import { kubernetesService } from './kubernetes';
+import { serviceProxyService, type ServiceProxyRequest } from './serviceProxy';
 
 describe('MetricsService - buildMetricsUrl', () => {
   // Test the URL building logic (unit test the pattern)
@@ -52,7 +57,9 @@ describe('MetricsService - Error Message Handling', () => {
   // Test error message mapping logic
   function mapErrorMessage(errorMessage: string): string {
     if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('getaddrinfo')) {
-      return 'Cannot resolve service DNS. KubeFoundry must be running in-cluster to fetch metrics.';
+      return 'Cannot resolve service DNS. The metrics service may not exist yet.';
+    } else if (errorMessage.includes('HTTP 403')) {
+      return 'Forbidden. Reading metrics through the Kubernetes API server needs get access to pods/proxy and services/proxy.';
     } else if (errorMessage.includes('ECONNREFUSED')) {
       return 'Connection refused. The deployment may not be ready yet.';
     } else if (errorMessage.includes('abort')) {
@@ -62,14 +69,18 @@ describe('MetricsService - Error Message Handling', () => {
     } else if (errorMessage.includes('HTTP 503')) {
       return 'Service unavailable. The deployment is starting up.';
     } else if (errorMessage.includes('fetch failed') || errorMessage.includes('TypeError')) {
-      return 'Cannot connect to metrics endpoint. KubeFoundry must be running in-cluster.';
+      return 'Cannot connect to metrics endpoint. The deployment may not be ready yet.';
     }
     return errorMessage;
   }
 
   test('maps DNS resolution errors', () => {
     expect(mapErrorMessage('getaddrinfo ENOTFOUND service.namespace.svc')).toContain('Cannot resolve service DNS');
-    expect(mapErrorMessage('Error: ENOTFOUND')).toContain('in-cluster');
+    expect(mapErrorMessage('Error: ENOTFOUND')).toContain('may not exist');
+  });
+
+  test('maps proxy permission errors', () => {
+    expect(mapErrorMessage('HTTP 403: pods "qwen-0" is forbidden')).toContain('pods/proxy');
   });
 
   test('maps connection refused errors', () => {
@@ -93,8 +104,8 @@ describe('MetricsService - Error Message Handling', () => {
   });
 
   test('maps fetch errors', () => {
-    expect(mapErrorMessage('fetch failed')).toContain('in-cluster');
-    expect(mapErrorMessage('TypeError: Failed to fetch')).toContain('in-cluster');
+    expect(mapErrorMessage('fetch failed')).toContain('Cannot connect');
+    expect(mapErrorMessage('TypeError: Failed to fetch')).toContain('not be ready');
   });
 
   test('returns original message for unknown errors', () => {
@@ -228,3 +239,225 @@ describe('MetricsService - Key Metrics Filtering', () => {
     expect(filtered).toHaveLength(0);
   });
 });
+
+// The test process runs outside a cluster, so scraping always goes through the API server proxy here
+describe('MetricsService - metrics sources', () => {
+  const spies: Array<{ mockRestore: () => void }> = [];
+  const withPrometheus = (prometheusUrl?: string) => {
+    spies.push(spyOn(configService, 'getConfig').mockResolvedValue({ prometheusUrl }));
+  };
+  const withEndpoints = (pods: string[] | Error) => {
+    const spy = spyOn(kubernetesService, 'getServiceEndpoints');
+    spies.push(pods instanceof Error
+      ? spy.mockRejectedValue(pods)
+      : spy.mockResolvedValue(pods.map((pod, i) => ({ pod, ip: `10.0.0.${i + 1}`, port: 8000 }))));
+  };
+  const withProxy = (respond: (target: string) => Response | Error) => {
+    const spy = spyOn(serviceProxyService, 'request').mockImplementation(async (options: ServiceProxyRequest) => {
+      const result = respond('pod' in options ? options.pod : options.service);
+      if (result instanceof Error) throw result;
+      return result;
+    });
+    spies.push(spy);
+    return spy;
+  };
+  const metricsText = (running: number) => `# TYPE vllm:num_requests_running gauge\nvllm:num_requests_running ${running}\n`;
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  test('reads current values from Prometheus when configured', async () => {
+    withPrometheus('http://prometheus:9090');
+    const current = spyOn(prometheusService, 'getCurrentValues').mockResolvedValue([
+      { name: 'vllm:num_requests_running', value: 2, labels: {} },
+    ]);
+    spies.push(current);
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(true);
+    expect(response.source).toBe('prometheus');
+    expect(response.metrics).toHaveLength(1);
+    expect(current.mock.calls[0].slice(2)).toEqual(['qwen', 'inference', '{name}-frontend-[a-z0-9]+-[a-z0-9]{5}']);
+  });
+
+  test('returns the key metrics of the deployment engine', async () => {
+    withPrometheus('http://prometheus:9090');
+    const current = spyOn(prometheusService, 'getCurrentValues').mockResolvedValue([
+      { name: 'sglang:num_running_reqs', value: 1, labels: {} },
+    ]);
+    spies.push(current);
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'native', 'sglang');
+
+    expect(response.definitions?.length).toBeGreaterThan(0);
+    expect(response.definitions?.every((d) => d.name.startsWith('sglang:'))).toBe(true);
+    expect(current.mock.calls[0][1]).toEqual(response.definitions!);
+  });
+
+  test('derives histogram percentiles and counter rates over the last minute of reads', async () => {
+    withPrometheus('http://prometheus:9090');
+    const read = (tokens: number, fast: number, total: number): RawMetricValue[] => [
+      { name: 'vllm:generation_tokens_total', value: tokens, labels: { pod: 'qwen-0' } },
+      { name: 'vllm:time_to_first_token_seconds_bucket', value: fast, labels: { pod: 'qwen-0', le: '0.1' } },
+      { name: 'vllm:time_to_first_token_seconds_bucket', value: total, labels: { pod: 'qwen-0', le: '+Inf' } },
+    ];
+    spies.push(spyOn(prometheusService, 'getCurrentValues')
+      .mockResolvedValueOnce(read(100, 8, 10))
+      .mockResolvedValueOnce(read(1000, 10, 20))
+      .mockResolvedValueOnce(read(1900, 24, 40)));
+    const now = spyOn(Date, 'now').mockReturnValue(1700000000000);
+    spies.push(now);
+
+    const first = await metricsService.getDeploymentMetrics('derived', 'inference', 'native');
+    now.mockReturnValue(1700000030000);
+    const second = await metricsService.getDeploymentMetrics('derived', 'inference', 'native');
+    now.mockReturnValue(1700000060000);
+    const third = await metricsService.getDeploymentMetrics('derived', 'inference', 'native');
+
+    expect(first.derived).toEqual([]);
+    expect(second.derived).toEqual([]);
+    // Measured from the read a minute earlier, not the one in between
+    expect(third.derived).toContainEqual({ name: 'vllm:generation_tokens_total', rate: 30 });
+    // 16 of the 30 observations in the window were under 0.1s
+    expect(third.derived?.find((d) => d.name === 'vllm:time_to_first_token_seconds')?.percentiles?.p50).toBeCloseTo(0.09375);
+  });
+
+  test('starts derived values over once a deployment is forgotten', async () => {
+    withPrometheus('http://prometheus:9090');
+    const read: RawMetricValue[] = [{ name: 'vllm:generation_tokens_total', value: 100, labels: { pod: 'qwen-0' } }];
+    spies.push(spyOn(prometheusService, 'getCurrentValues').mockResolvedValue(read));
+    const now = spyOn(Date, 'now').mockReturnValue(1700000000000);
+    spies.push(now);
+
+    await metricsService.getDeploymentMetrics('forgotten', 'inference', 'native');
+    metricsService.forgetDeployment('forgotten', 'inference');
+    now.mockReturnValue(1700000060000);
+    const afterDelete = await metricsService.getDeploymentMetrics('forgotten', 'inference', 'native');
+
+    expect(afterDelete.derived).toEqual([]);
+  });
+
+  test('reports the Prometheus error when scraping is not possible', async () => {
+    withPrometheus('http://prometheus:9090');
+    withEndpoints(new Error('services "qwen-frontend" not found'));
+    withProxy(() => new Response('not found', { status: 404 }));
+    spies.push(spyOn(prometheusService, 'getCurrentValues').mockRejectedValue(new PrometheusError('Prometheus query failed: bad_data')));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(false);
+    expect(response.error).toBe('Prometheus query failed: bad_data');
+    expect(response.runningOffCluster).toBeUndefined();
+  });
+
+  test('treats an empty Prometheus result as unavailable', async () => {
+    withPrometheus('http://prometheus:9090');
+    spies.push(spyOn(prometheusService, 'getCurrentValues').mockResolvedValue([]));
+    withEndpoints([]);
+    withProxy(() => new Response('no endpoints available', { status: 503 }));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(false);
+    expect(response.error).toContain('Prometheus has no metrics for inference/qwen');
+  });
+
+  test('scrapes every pod behind the metrics service through the pod proxy', async () => {
+    withPrometheus(undefined);
+    withEndpoints(['qwen-frontend-a', 'qwen-frontend-b']);
+    const proxy = withProxy((pod) => new Response(metricsText(pod.endsWith('a') ? 2 : 3)));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(true);
+    expect(response.source).toBe('scrape');
+    expect(response.metrics).toEqual([
+      { name: 'vllm:num_requests_running', value: 2, labels: { pod: 'qwen-frontend-a' } },
+      { name: 'vllm:num_requests_running', value: 3, labels: { pod: 'qwen-frontend-b' } },
+    ]);
+    expect(proxy.mock.calls[0][0]).toMatchObject({ namespace: 'inference', pod: 'qwen-frontend-a', port: 8000, path: '/metrics' });
+  });
+
+  test('keeps the replicas that answered', async () => {
+    withPrometheus(undefined);
+    withEndpoints(['qwen-frontend-a', 'qwen-frontend-b']);
+    withProxy((pod) => (pod.endsWith('a') ? new Response('starting', { status: 503 }) : new Response(metricsText(1))));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(true);
+    expect(response.metrics.map((m) => m.labels.pod)).toEqual(['qwen-frontend-b']);
+  });
+
+  test('scrapes the service through the service proxy when its endpoints cannot be read', async () => {
+    withPrometheus(undefined);
+    withEndpoints(new Error('endpoints is forbidden'));
+    const proxy = withProxy(() => new Response(metricsText(4)));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.metrics).toEqual([{ name: 'vllm:num_requests_running', value: 4, labels: {} }]);
+    expect(proxy.mock.calls[0][0]).toMatchObject({ service: 'qwen-frontend', port: 8000 });
+  });
+
+  test('explains a proxy permission error', async () => {
+    withPrometheus(undefined);
+    withEndpoints(['qwen-frontend-a']);
+    withProxy(() => new Response('pods "qwen-frontend-a" is forbidden', { status: 403 }));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(false);
+    expect(response.error).toContain('pods/proxy');
+    expect(response.runningOffCluster).toBe(true);
+  });
+
+  test('flags off-cluster mode without a cluster to proxy through', async () => {
+    withPrometheus(undefined);
+    withEndpoints(new Error('connect ECONNREFUSED'));
+    withProxy(() => new Error('No Kubernetes cluster configured'));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.available).toBe(false);
+    expect(response.runningOffCluster).toBe(true);
+  });
+
+  test('does not flag off-cluster mode while the deployment starts', async () => {
+    withPrometheus(undefined);
+    withEndpoints([]);
+    withProxy(() => new Response('no endpoints available', { status: 503 }));
+
+    const response = await metricsService.getDeploymentMetrics('qwen', 'inference', 'dynamo');
+
+    expect(response.error).toBe('Service unavailable. The deployment is starting up.');
+    expect(response.runningOffCluster).toBeUndefined();
+  });
+
+  test('returns one series per key metric as history', async () => {
+    withPrometheus('http://prometheus:9090');
+    const range = spyOn(prometheusService, 'queryRange').mockResolvedValue([{ timestamp: 1700000000, value: 1 }]);
+    spies.push(range);
+
+    const history = await metricsService.getDeploymentMetricsHistory('qwen', 'inference', '15m', 'kuberay');
+
+    expect(history.available).toBe(true);
+    expect(history.step).toBe(15);
+    expect(history.series.map((s) => s.name)).toContain('ray_serve_num_http_requests_total');
+    expect(history.series.every((s) => s.samples.length === 1)).toBe(true);
+    // 15s steps take rates over at least a minute
+    expect(range.mock.calls.some(([, query]) => query.includes('[60s]'))).toBe(true);
+  });
+
+  test('needs Prometheus for history', async () => {
+    withPrometheus(undefined);
+
+    const history = await metricsService.getDeploymentMetricsHistory('qwen', 'inference', '1h', 'dynamo');
+
+    expect(history.available).toBe(false);
+    expect(history.error).toContain('Prometheus');
+    expect(history.series).toEqual([]);
+  });
+});
@@ -3,16 +3,41 @@
  * Fetches and processes Prometheus metrics from inference deployments
  */
 
-import type { MetricsResponse, RawMetricValue } from '@kubefoundry/shared';
-import { parsePrometheusText } from '../lib/prometheus-parser';
+import type {
+  DerivedMetricValue,
+  Engine,
+  MetricDefinition,
+  MetricsEndpointConfig,
+  MetricsHistoryResponse,
+  MetricsRange,
+  MetricsResponse,
+  MetricSeries,
+  RawMetricValue,
+} from '@kubefoundry/shared';
+import { parsePrometheusText, calculateCounterRate, calculateHistogramPercentiles, counterIncreases } from '../lib/prometheus-parser';
 import { configService } from './config';
+import { kubernetesService, type ServiceEndpoint } from './kubernetes';
+import { serviceProxyService, type PodAddress, type ServiceAddress } from './serviceProxy';
+import { prometheusService, buildRangeQuery, deploymentSelector, exposedMetricNames, RANGE_SETTINGS } from './prometheus';
 import { providerRegistry } from '../providers';
+import type { Provider } from '../providers/types';
 import logger from '../lib/logger';
 import * as fs from 'fs';
 
 // Timeout for metrics fetch (5 seconds)
 const METRICS_FETCH_TIMEOUT = 5000;
 
+// Rates and percentiles cover at least this long, whichever clients poll and how often
+const DERIVE_WINDOW_MS = 60_000;
+
+// Reads are kept as samples at most this often
+const SAMPLE_INTERVAL_MS = 15_000;
+
+interface MetricsSample {
+  time: number;
+  metrics: RawMetricValue[];
+}
+
 // Kubernetes service account token path (exists only when running in-cluster)
 const K8S_SERVICE_ACCOUNT_TOKEN_PATH = '/var/run/secrets/kubernetes.io/serviceaccount/token';
 
@@ -39,32 +64,52 @@ function checkInCluster(): boolean {
 }
 
 /**
- * Build the metrics URL for a deployment
+ * Where a deployment's metrics endpoint is scraped from: its metrics service,
+ * or one pod behind it for a single replica's values
  */
-function buildMetricsUrl(
-  deploymentName: string,
-  namespace: string,
-  servicePattern: string,
-  port: number,
-  endpointPath: string
-): string {
-  // Replace {name} placeholder with actual deployment name
-  const serviceName = servicePattern.replace('{name}', deploymentName);
-  
-  // Build the in-cluster service URL
+type ScrapeTarget = ServiceAddress | (PodAddress & { ip: string });
+
+/**
+ * Build the in-cluster URL of a scrape target
+ */
+function buildMetricsUrl(namespace: string, target: ScrapeTarget, endpointPath: string): string {
+  if ('pod' in target) {
+    const host = target.ip.includes(':') ? `[${target.ip}]` : target.ip;
+    return `http://${host}:${target.port}${endpointPath}`;
+  }
+
   // Format: http://<service>.<namespace>.svc.cluster.local:<port><path>
-  return `http://${serviceName}.${namespace}.svc.cluster.local:${port}${endpointPath}`;
+  return `http://${target.service}.${namespace}.svc.cluster.local:${target.port}${endpointPath}`;
 }
 
 /**
- * Fetch raw metrics from a deployment's metrics endpoint
+ * Fetch raw metrics from a scrape target. In-cluster the target is fetched
+ * directly; off-cluster the request goes through the API server's services or
+ * pods proxy with the kubeconfig credentials.
  */
-async function fetchRawMetrics(url: string): Promise<string> {
+async function fetchRawMetrics(namespace: string, target: ScrapeTarget, endpointPath: string): Promise<string> {
+  if (!checkInCluster()) {
+    const address = 'pod' in target ? { pod: target.pod, port: target.port } : target;
+    const response = await serviceProxyService.request({
+      ...address,
+      namespace,
+      path: endpointPath,
+      headers: { Accept: 'text/plain' },
+      timeoutMs: METRICS_FETCH_TIMEOUT,
+    });
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${body.slice(0, 200)}`);
+    }
+    return body;
+  }
+
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), METRICS_FETCH_TIMEOUT);
 
   try {
-    const response = await fetch(url, {
+    const response = await fetch(buildMetricsUrl(namespace, target, endpointPath), {
       method: 'GET',
       signal: controller.signal,
       headers: {
@@ -82,57 +127,193 @@ async function fetchRawMetrics(url: string): Promise<string> {
   }
 }
 
+/**
+ * Scrape every ready pod behind a deployment's metrics service, labelling each
+ * value with its pod so per-replica metrics are kept. The service itself is
+ * scraped when its endpoints cannot be read or list no ready pods.
+ */
+async function scrapeDeployment(
+  deploymentName: string,
+  namespace: string,
+  config: MetricsEndpointConfig
+): Promise<RawMetricValue[]> {
+  const service = config.serviceNamePattern.replace('{name}', deploymentName);
+
+  let endpoints: ServiceEndpoint[] = [];
+  try {
+    endpoints = await kubernetesService.getServiceEndpoints(service, namespace, config.port);
+  } catch (error) {
+    logger.debug({ error, service, namespace }, 'Cannot read metrics service endpoints, scraping the service');
+  }
+
+  if (endpoints.length === 0) {
+    return parsePrometheusText(await fetchRawMetrics(namespace, { service, port: config.port }, config.endpointPath));
+  }
+
+  const results = await Promise.allSettled(endpoints.map(async ({ pod, ip, port }): Promise<RawMetricValue[]> => {
+    const rawText = await fetchRawMetrics(namespace, { pod, ip, port }, config.endpointPath);
+    return parsePrometheusText(rawText).map((metric) => ({ ...metric, labels: { ...metric.labels, pod } }));
+  }));
+
+  const scraped = results.filter((r): r is PromiseFulfilledResult<RawMetricValue[]> => r.status === 'fulfilled');
+  if (scraped.length === 0) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+  if (scraped.length < results.length) {
+    logger.debug(
+      { deploymentName, namespace, scraped: scraped.length, pods: results.length },
+      'Some pods did not return metrics'
+    );
+  }
+  return scraped.flatMap((r) => r.value);
+}
+
 /**
  * MetricsService class for fetching deployment metrics
  */
 class MetricsService {
+  // Reads of each deployment's metrics over the last window, oldest first
+  private samples = new Map<string, MetricsSample[]>();
+
   /**
-   * Check if metrics fetching is available (requires in-cluster deployment)
+   * Drop the reads kept for a deployment, e.g. once it has been deleted
    */
-  isMetricsAvailable(): boolean {
-    return checkInCluster();
+  forgetDeployment(deploymentName: string, namespace: string): void {
+    this.samples.delete(`${namespace}/${deploymentName}`);
+  }
+
+  /**
+   * Resolve a deployment's provider, falling back to the active provider
+   * for backward compatibility
+   */
+  private async resolveProvider(providerId?: string): Promise<Provider | undefined> {
+    if (providerId) {
+      return providerRegistry.getProviderOrNull(providerId);
+    }
+    return configService.getActiveProvider();
+  }
+
+  /**
+   * Record a read of a deployment's metrics and return the newest sample at
+   * least one window old, which derived values are measured from
+   */
+  private sampleWindow(key: string, metrics: RawMetricValue[], time: number): MetricsSample | undefined {
+    const samples = this.samples.get(key) ?? [];
+    const latest = samples[samples.length - 1];
+    if (!latest || time - latest.time >= SAMPLE_INTERVAL_MS) {
+      samples.push({ time, metrics });
+    }
+
+    // Only the newest sample older than the window is still needed as a baseline
+    let start = -1;
+    samples.forEach((sample, i) => {
+      if (time - sample.time >= DERIVE_WINDOW_MS) start = i;
+    });
+    if (start > 0) {
+      samples.splice(0, start);
+    }
+    this.samples.set(key, samples);
+    return start >= 0 ? samples[0] : undefined;
+  }
+
+  /**
+   * Percentiles of the key histograms and rates of the key counters over the
+   * last window of at least DERIVE_WINDOW_MS. Nothing is derived until the
+   * deployment has been read for a full window.
+   */
+  private deriveMetrics(
+    key: string,
+    definitions: MetricDefinition[],
+    metrics: RawMetricValue[],
+    time = Date.now()
+  ): DerivedMetricValue[] {
+    const baseline = this.sampleWindow(key, metrics, time);
+    if (!baseline) {
+      return [];
+    }
+
+    const derived: DerivedMetricValue[] = [];
+    for (const definition of definitions) {
+      if (definition.type === 'histogram') {
+        const bucketName = `${definition.name}_bucket`;
+        const percentiles = calculateHistogramPercentiles(counterIncreases(baseline.metrics, metrics, bucketName), definition.name);
+        if (percentiles) {
+          derived.push({ name: definition.name, percentiles });
+        }
+      } else if (definition.type === 'counter') {
+        const rates = exposedMetricNames(definition)
+          .map((name) => calculateCounterRate(baseline.metrics, metrics, name, (time - baseline.time) / 1000))
+          .filter((rate): rate is number => rate !== undefined);
+        if (rates.length > 0) {
+          derived.push({ name: definition.name, rate: rates.reduce((sum, rate) => sum + rate, 0) });
+        }
+      }
+    }
+    return derived;
   }
 
   /**
    * Get metrics for a deployment
+   *
+   * Metrics come from Prometheus when a server is configured in settings.
+   * Without one, or when the query fails, every pod behind the deployment's
+   * metrics service is scraped: directly in-cluster, or through the API
+   * server proxy with the kubeconfig credentials off-cluster.
    * 
    * @param deploymentName - Name of the deployment
    * @param namespace - Kubernetes namespace
    * @param providerId - Provider ID (dynamo or kuberay) - if not provided, uses active provider
+   * @param engine - Engine serving the deployment, which decides its key metrics
    * @returns MetricsResponse with available metrics or error
    */
-  async getDeploymentMetrics(deploymentName: string, namespace: string, providerId?: string): Promise<MetricsResponse> {
+  async getDeploymentMetrics(
+    deploymentName: string,
+    namespace: string,
+    providerId?: string,
+    engine?: Engine
+  ): Promise<MetricsResponse> {
     const timestamp = new Date().toISOString();
 
-    // Check if running in-cluster first
-    if (!checkInCluster()) {
+    const provider = await this.resolveProvider(providerId);
+    if (!provider) {
       return {
         available: false,
-        error: 'Metrics are only available when KubeFoundry is deployed inside the Kubernetes cluster. Run KubeFoundry in-cluster to access deployment metrics.',
+        error: `Provider ${providerId} not found`,
         timestamp,
         metrics: [],
-        runningOffCluster: true,
       };
     }
+    const definitions = provider.getKeyMetrics(engine);
 
-    try {
-      // Get provider - use specified provider or fall back to active provider
-      let provider;
-      if (providerId) {
-        provider = providerRegistry.getProvider(providerId);
-        if (!provider) {
+    const { prometheusUrl } = await configService.getConfig();
+    let prometheusError: string | undefined;
+    if (prometheusUrl) {
+      try {
+        const metrics = await prometheusService.getCurrentValues(
+          prometheusUrl,
+          definitions,
+          deploymentName,
+          namespace,
+          provider.getMetricsConfig()?.podNamePattern
+        );
+        if (metrics.length > 0) {
           return {
-            available: false,
-            error: `Provider ${providerId} not found`,
+            available: true,
             timestamp,
-            metrics: [],
+            metrics,
+            source: 'prometheus',
+            definitions,
+            derived: this.deriveMetrics(`${namespace}/${deploymentName}`, definitions, metrics),
           };
         }
-      } else {
-        // Fall back to active provider for backward compatibility
-        provider = await configService.getActiveProvider();
+        prometheusError = `Prometheus has no metrics for ${namespace}/${deploymentName}. Check that it scrapes the deployment's pods.`;
+      } catch (error) {
+        prometheusError = error instanceof Error ? error.message : 'Unknown error';
       }
-      
+      logger.warn({ deploymentName, namespace, error: prometheusError }, 'Prometheus metrics unavailable, falling back to scraping the deployment');
+    }
+
+    try {
       // Check if provider supports metrics
       const metricsConfig = provider.getMetricsConfig();
       if (!metricsConfig) {
@@ -144,23 +325,9 @@ class MetricsService {
         };
       }
 
-      // Build the metrics URL
-      const url = buildMetricsUrl(
-        deploymentName,
-        namespace,
-        metricsConfig.serviceNamePattern,
-        metricsConfig.port,
-        metricsConfig.endpointPath
-      );
-
-      logger.debug({ url, deploymentName, namespace }, 'Fetching metrics from deployment');
-      logger.info({ metricsUrl: url }, 'Attempting to fetch metrics from URL');
-
-      // Fetch raw metrics
-      const rawText = await fetchRawMetrics(url);
+      logger.debug({ deploymentName, namespace, inCluster: checkInCluster() }, 'Scraping metrics from deployment');
 
-      // Parse Prometheus format
-      const metrics = parsePrometheusText(rawText);
+      const metrics = await scrapeDeployment(deploymentName, namespace, metricsConfig);
 
       logger.debug(
         { deploymentName, namespace, metricCount: metrics.length },
@@ -171,6 +338,9 @@ class MetricsService {
         available: true,
         timestamp,
         metrics,
+        source: 'scrape',
+        definitions,
+        derived: this.deriveMetrics(`${namespace}/${deploymentName}`, definitions, metrics),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -179,7 +349,9 @@ class MetricsService {
       let userMessage = errorMessage;
       
       if (errorMessage.includes('ENOTFOUND') || errorMessage.includes('getaddrinfo')) {
-        userMessage = 'Cannot resolve service DNS. KubeFoundry must be running in-cluster to fetch metrics.';
+        userMessage = 'Cannot resolve service DNS. The metrics service may not exist yet.';
+      } else if (errorMessage.includes('HTTP 403')) {
+        userMessage = 'Forbidden. Reading metrics through the Kubernetes API server needs get access to pods/proxy and services/proxy.';
       } else if (errorMessage.includes('ECONNREFUSED')) {
         userMessage = 'Connection refused. The deployment may not be ready yet.';
       } else if (errorMessage.includes('abort')) {
@@ -189,7 +361,7 @@ class MetricsService {
       } else if (errorMessage.includes('HTTP 503')) {
         userMessage = 'Service unavailable. The deployment is starting up.';
       } else if (errorMessage.includes('fetch failed') || errorMessage.includes('TypeError')) {
-        userMessage = 'Cannot connect to metrics endpoint. KubeFoundry must be running in-cluster.';
+        userMessage = 'Cannot connect to metrics endpoint. The deployment may not be ready yet.';
       }
 
       logger.warn(
@@ -197,15 +369,76 @@ class MetricsService {
         'Failed to fetch deployment metrics'
       );
 
+      // A configured Prometheus is the source the user expects, so its error comes first
+      if (prometheusError) {
+        return {
+          available: false,
+          error: prometheusError,
+          timestamp,
+          metrics: [],
+        };
+      }
+
+      // Off-cluster scraping needs a cluster in the kubeconfig and proxy access to it
+      const proxyUnavailable = !checkInCluster()
+        && (errorMessage.includes('HTTP 403') || errorMessage.includes('No Kubernetes cluster'));
+
       return {
         available: false,
         error: userMessage,
         timestamp,
         metrics: [],
+        ...(proxyUnavailable && { runningOffCluster: true }),
       };
     }
   }
 
+  /**
+   * Get the history of a deployment's key metrics from Prometheus
+   *
+   * @param range - How far back to go; also sets the sample resolution
+   */
+  async getDeploymentMetricsHistory(
+    deploymentName: string,
+    namespace: string,
+    range: MetricsRange,
+    providerId?: string,
+    engine?: Engine
+  ): Promise<MetricsHistoryResponse> {
+    const { step } = RANGE_SETTINGS[range];
+    const empty = { range, step, series: [], timestamp: new Date().toISOString() };
+
+    const { prometheusUrl } = await configService.getConfig();
+    if (!prometheusUrl) {
+      return { ...empty, available: false, error: 'Metric history needs a Prometheus server. Set its URL in Settings.' };
+    }
+
+    const provider = await this.resolveProvider(providerId);
+    if (!provider) {
+      return { ...empty, available: false, error: `Provider ${providerId} not found` };
+    }
+
+    const selector = deploymentSelector(deploymentName, namespace, provider.getMetricsConfig()?.podNamePattern);
+    const window = `${Math.max(step * 2, 60)}s`;
+
+    try {
+      const series = await Promise.all(provider.getKeyMetrics(engine).map(async (definition): Promise<MetricSeries> => ({
+        name: definition.name,
+        displayName: definition.displayName,
+        unit: definition.unit,
+        type: definition.type,
+        category: definition.category,
+        samples: await prometheusService.queryRange(prometheusUrl, buildRangeQuery(definition, selector, window), range),
+      })));
+
+      return { ...empty, available: true, series };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      logger.warn({ deploymentName, namespace, range, error: errorMessage }, 'Failed to fetch metrics history');
+      return { ...empty, available: false, error: errorMessage };
+    }
+  }
+
   /**
    * Get the key metrics definitions for the active provider
    */
@@ -0,0 +1,93 @@
+import { describe, test, expect } from 'bun:test';
+import type * as k8s from '@kubernetes/client-node';
+import {
+  buildPrefetchJob,
+  getPrefetchPhase,
+  parsePrefetchProgress,
+  prefetchJobName,
+  PREFETCH_CLAIM_LABEL,
+} from './modelCache';
+
+describe('prefetchJobName', () => {
+  test('is a valid name derived from the repository', () => {
+    const name = prefetchJobName('Qwen/Qwen3-0.6B');
+    expect(name).toMatch(/^prefetch-qwen3-0-6b-[0-9a-f]{6}$/);
+    expect(name.length).toBeLessThanOrEqual(63);
+  });
+
+  test('truncates long repository names', () => {
+    const name = prefetchJobName(`org/${'a'.repeat(100)}`);
+    expect(name.length).toBeLessThanOrEqual(63);
+  });
+});
+
+describe('buildPrefetchJob', () => {
+  const request = {
+    modelId: 'meta-llama/Llama-3.1-8B-Instruct',
+    modelCache: { claimName: 'hf-cache' },
+  };
+
+  test('mounts the claim as HF_HOME and labels the Job with it', () => {
+    const job = buildPrefetchJob('prefetch-llama-abc123', 'default', request);
+    const container = job.spec!.template.spec!.containers[0];
+
+    expect(job.metadata!.labels![PREFETCH_CLAIM_LABEL]).toBe('hf-cache');
+    expect(job.metadata!.annotations!['kubefoundry.io/model-id']).toBe(request.modelId);
+    expect(job.spec!.template.spec!.volumes).toEqual([
+      { name: 'model-cache', persistentVolumeClaim: { claimName: 'hf-cache' } },
+    ]);
+    expect(container.env).toContainEqual({ name: 'HF_HOME', value: '/model-cache' });
+    expect(container.env).toContainEqual({ name: 'MODEL_ID', value: request.modelId });
+    expect(container.env!.some((e) => e.name === 'HF_TOKEN')).toBe(false);
+  });
+
+  test('passes the revision and token secret', () => {
+    const job = buildPrefetchJob('prefetch-llama-abc123', 'default', {
+      ...request,
+      revision: 'v1',
+      hfTokenSecret: 'hf-token-secret',
+    });
+    const env = job.spec!.template.spec!.containers[0].env!;
+
+    expect(env).toContainEqual({ name: 'MODEL_REVISION', value: 'v1' });
+    expect(env).toContainEqual({
+      name: 'HF_TOKEN',
+      valueFrom: { secretKeyRef: { name: 'hf-token-secret', key: 'HF_TOKEN' } },
+    });
+  });
+});
+
+describe('parsePrefetchProgress', () => {
+  test('returns the latest progress line', () => {
+    const logs = [
+      '{"prefetch": {"files": 3, "filesDone": 0, "bytesDone": 0, "totalBytes": 300}}',
+      '{"prefetch": {"files": 3, "filesDone": 1, "bytesDone": 100, "totalBytes": 300, "file": "model.safetensors"}}',
+      'Downloading model.safetensors: 40%',
+    ].join('\n');
+
+    expect(parsePrefetchProgress(logs)).toEqual({
+      files: 3,
+      filesDone: 1,
+      bytesDone: 100,
+      totalBytes: 300,
+      currentFile: 'model.safetensors',
+    });
+  });
+
+  test('skips truncated lines and handles logs without progress', () => {
+    const logs = '{"prefetch": {"files": 2, "filesDone": 2, "bytesDone": 5, "totalBytes": 5}}\n{"prefetch": {"fil';
+    expect(parsePrefetchProgress(logs)?.filesDone).toBe(2);
+    expect(parsePrefetchProgress('Collecting huggingface_hub')).toBeUndefined();
+  });
+});
+
+describe('getPrefetchPhase', () => {
+  test('maps Job status to a phase', () => {
+    expect(getPrefetchPhase({} as k8s.V1Job)).toBe('Pending');
+    expect(getPrefetchPhase({ status: { active: 1 } } as k8s.V1Job)).toBe('Running');
+    expect(getPrefetchPhase({ status: { succeeded: 1 } } as k8s.V1Job)).toBe('Succeeded');
+    expect(getPrefetchPhase({
+      status: { conditions: [{ type: 'Failed', status: 'True' }] },
+    } as k8s.V1Job)).toBe('Failed');
+  });
+});
@@ -0,0 +1,382 @@
+import * as k8s from '@kubernetes/client-node';
+import { randomBytes } from 'crypto';
+import type {
+  ModelCacheConfig,
+  ModelPrefetchPhase,
+  ModelPrefetchProgress,
+  ModelPrefetchRequest,
+  ModelPrefetchStatus,
+} from '@kubefoundry/shared';
+import { buildModelCacheClaim, MODEL_CACHE_MOUNT_PATH, modelCacheEnv, modelCacheVolume, modelCacheVolumeMount } from '../lib/model-cache';
+import { withRetry } from '../lib/retry';
+import logger from '../lib/logger';
+
+/**
+ * Label marking prefetch Jobs, holding the claim they download into
+ */
+export const PREFETCH_CLAIM_LABEL = 'kubefoundry.io/prefetch';
+
+// Model ids contain '/', which label values cannot
+const PREFETCH_MODEL_ANNOTATION = 'kubefoundry.io/model-id';
+
+const PREFETCH_IMAGE = 'python:3.12-slim';
+
+// Finished Jobs and their pods are kept for a day so progress stays visible
+const PREFETCH_TTL_SECONDS = 86400;
+
+const PREFETCH_BACKOFF_LIMIT = 2;
+
+/**
+ * Downloads a snapshot file by file, printing a JSON progress line after each
+ * so the Job's logs can be read back as progress
+ */
+const PREFETCH_SCRIPT = `
+import json, os
+from huggingface_hub import HfApi, hf_hub_download
+
+model_id = os.environ["MODEL_ID"]
+revision = os.environ.get("MODEL_REVISION") or None
+token = os.environ.get("HF_TOKEN") or None
+
+def report(**progress):
+    print(json.dumps({"prefetch": progress}), flush=True)
+
+info = HfApi().model_info(model_id, revision=revision, files_metadata=True, token=token)
+files = [(s.rfilename, s.size or 0) for s in info.siblings]
+total = sum(size for _, size in files)
+done = 0
+report(files=len(files), filesDone=0, bytesDone=0, totalBytes=total)
+for index, (name, size) in enumerate(files):
+    report(files=len(files), filesDone=index, bytesDone=done, totalBytes=total, file=name)
+    hf_hub_download(model_id, name, revision=revision, token=token)
+    done += size
+report(files=len(files), filesDone=len(files), bytesDone=done, totalBytes=total)
+`.trim();
+
+/**
+ * Raised when a cache claim or prefetch cannot be used or found
+ */
+export class ModelCacheError extends Error {
+  constructor(message: string, public statusCode: 404 | 409) {
+    super(message);
+    this.name = 'ModelCacheError';
+  }
+}
+
+/**
+ * Job name for a prefetch, from the model's repository name
+ */
+export function prefetchJobName(modelId: string): string {
+  const slug = modelId
+    .split('/')
+    .pop()!
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return `prefetch-${slug || 'model'}-${randomBytes(3).toString('hex')}`;
+}
+
+/**
+ * Job that downloads a model into a cache claim
+ */
+export function buildPrefetchJob(
+  name: string,
+  namespace: string,
+  request: Pick<ModelPrefetchRequest, 'modelId' | 'modelCache' | 'revision' | 'hfTokenSecret'>
+): k8s.V1Job {
+  const env: k8s.V1EnvVar[] = [
+    { name: 'MODEL_ID', value: request.modelId },
+    modelCacheEnv() as unknown as k8s.V1EnvVar,
+    { name: 'PIP_DISABLE_PIP_VERSION_CHECK', value: '1' },
+  ];
+  if (request.revision) {
+    env.push({ name: 'MODEL_REVISION', value: request.revision });
+  }
+  if (request.hfTokenSecret) {
+    env.push({
+      name: 'HF_TOKEN',
+      valueFrom: { secretKeyRef: { name: request.hfTokenSecret, key: 'HF_TOKEN' } },
+    });
+  }
+
+  return {
+    apiVersion: 'batch/v1',
+    kind: 'Job',
+    metadata: {
+      name,
+      namespace,
+      labels: {
+        'app.kubernetes.io/name': 'kubefoundry',
+        'app.kubernetes.io/managed-by': 'kubefoundry',
+        [PREFETCH_CLAIM_LABEL]: request.modelCache.claimName,
+      },
+      annotations: { [PREFETCH_MODEL_ANNOTATION]: request.modelId },
+    },
+    spec: {
+      backoffLimit: PREFETCH_BACKOFF_LIMIT,
+      ttlSecondsAfterFinished: PREFETCH_TTL_SECONDS,
+      template: {
+        metadata: { labels: { [PREFETCH_CLAIM_LABEL]: request.modelCache.claimName } },
+        spec: {
+          restartPolicy: 'Never',
+          containers: [
+            {
+              name: 'prefetch',
+              image: PREFETCH_IMAGE,
+              command: ['sh', '-c', 'pip install --quiet huggingface_hub && exec python -c "$PREFETCH_SCRIPT"'],
+              env: [...env, { name: 'PREFETCH_SCRIPT', value: PREFETCH_SCRIPT }],
+              workingDir: MODEL_CACHE_MOUNT_PATH,
+              volumeMounts: [modelCacheVolumeMount() as unknown as k8s.V1VolumeMount],
+            },
+          ],
+          volumes: [modelCacheVolume(request.modelCache) as unknown as k8s.V1Volume],
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Latest progress line in a prefetch Job's logs
+ */
+export function parsePrefetchProgress(logs: string): ModelPrefetchProgress | undefined {
+  const lines = logs.split('\n');
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const line = lines[i].trim();
+    if (!line.startsWith('{"prefetch"')) {
+      continue;
+    }
+    try {
+      const { prefetch } = JSON.parse(line) as { prefetch: Record<string, unknown> };
+      return {
+        files: Number(prefetch.files) || 0,
+        filesDone: Number(prefetch.filesDone) || 0,
+        bytesDone: Number(prefetch.bytesDone) || 0,
+        totalBytes: Number(prefetch.totalBytes) || 0,
+        ...(typeof prefetch.file === 'string' && { currentFile: prefetch.file }),
+      };
+    } catch {
+      // A line cut off by the log tail; look further back
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Phase of a prefetch from its Job's status
+ */
+export function getPrefetchPhase(job: k8s.V1Job): ModelPrefetchPhase {
+  const conditions = job.status?.conditions || [];
+  if (job.status?.succeeded || conditions.some((c) => c.type === 'Complete' && c.status === 'True')) {
+    return 'Succeeded';
+  }
+  if (conditions.some((c) => c.type === 'Failed' && c.status === 'True')) {
+    return 'Failed';
+  }
+  return job.status?.active ? 'Running' : 'Pending';
+}
+
+/**
+ * Creates model cache claims and runs Jobs that download models into them,
+ * so deployments start without waiting on the download
+ */
+export class ModelCacheService {
+  private coreV1Api: k8s.CoreV1Api;
+  private batchV1Api: k8s.BatchV1Api;
+
+  constructor() {
+    const kc = new k8s.KubeConfig();
+    try {
+      kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for ModelCacheService');
+    }
+    this.coreV1Api = kc.makeApiClient(k8s.CoreV1Api);
+    this.batchV1Api = kc.makeApiClient(k8s.BatchV1Api);
+  }
+
+  /**
+   * Make sure the cache claim exists. A cache with a size is created unless
+   * already there; one without must name an existing claim.
+   */
+  async ensureClaim(namespace: string, cache: ModelCacheConfig): Promise<void> {
+    if (cache.size) {
+      try {
+        await withRetry(
+          () => this.coreV1Api.createNamespacedPersistentVolumeClaim(
+            namespace,
+            buildModelCacheClaim(namespace, cache) as k8s.V1PersistentVolumeClaim
+          ),
+          { operationName: 'createModelCacheClaim' }
+        );
+        logger.info({ claimName: cache.claimName, namespace }, 'Created model cache claim');
+      } catch (error: any) {
+        const statusCode = error?.statusCode || error?.response?.statusCode;
+        if (statusCode !== 409) {
+          throw error;
+        }
+      }
+      return;
+    }
+
+    try {
+      await withRetry(
+        () => this.coreV1Api.readNamespacedPersistentVolumeClaim(cache.claimName, namespace),
+        { operationName: 'getModelCacheClaim' }
+      );
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        throw new ModelCacheError(
+          `PersistentVolumeClaim '${cache.claimName}' not found in namespace '${namespace}'; give a size to create it`,
+          404
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Start downloading a model into a cache claim, creating the claim if needed
+   */
+  async startPrefetch(namespace: string, request: ModelPrefetchRequest): Promise<ModelPrefetchStatus> {
+    const running = (await this.listPrefetches(namespace)).find((prefetch) =>
+      prefetch.claimName === request.modelCache.claimName
+      && prefetch.modelId === request.modelId
+      && (prefetch.phase === 'Pending' || prefetch.phase === 'Running'));
+    if (running) {
+      throw new ModelCacheError(
+        `'${request.modelId}' is already being prefetched into '${request.modelCache.claimName}' by Job '${running.name}'`,
+        409
+      );
+    }
+
+    await this.ensureClaim(namespace, request.modelCache);
+
+    const job = buildPrefetchJob(prefetchJobName(request.modelId), namespace, request);
+    const response = await withRetry(
+      () => this.batchV1Api.createNamespacedJob(namespace, job),
+      { operationName: 'createPrefetchJob' }
+    );
+    logger.info({ job: job.metadata?.name, modelId: request.modelId, namespace }, 'Started model prefetch');
+    return this.toStatus(response.body, namespace);
+  }
+
+  /**
+   * Status of a prefetch, with progress read from its pod's logs
+   */
+  async getPrefetch(name: string, namespace: string): Promise<ModelPrefetchStatus> {
+    let job: k8s.V1Job;
+    try {
+      const response = await withRetry(
+        () => this.batchV1Api.readNamespacedJob(name, namespace),
+        { operationName: 'getPrefetchJob' }
+      );
+      job = response.body;
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        throw new ModelCacheError(`Prefetch '${name}' not found in namespace '${namespace}'`, 404);
+      }
+      throw error;
+    }
+
+    if (!job.metadata?.labels?.[PREFETCH_CLAIM_LABEL]) {
+      throw new ModelCacheError(`Prefetch '${name}' not found in namespace '${namespace}'`, 404);
+    }
+
+    const status = this.toStatus(job, namespace);
+    const logs = await this.getLatestPodLogs(name, namespace);
+    if (logs) {
+      status.progress = parsePrefetchProgress(logs);
+      if (status.phase === 'Failed' && !status.message) {
+        status.message = logs.trim().split('\n').pop();
+      }
+    }
+    return status;
+  }
+
+  /**
+   * Prefetches in a namespace, newest first. Progress is only read for a single prefetch.
+   */
+  async listPrefetches(namespace: string): Promise<ModelPrefetchStatus[]> {
+    const response = await withRetry(
+      () => this.batchV1Api.listNamespacedJob(
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        PREFETCH_CLAIM_LABEL
+      ),
+      { operationName: 'listPrefetchJobs' }
+    );
+    return response.body.items
+      .map((job) => this.toStatus(job, namespace))
+      .sort((a, b) => (b.startedAt || '').localeCompare(a.startedAt || ''));
+  }
+
+  private toStatus(job: k8s.V1Job, namespace: string): ModelPrefetchStatus {
+    const phase = getPrefetchPhase(job);
+    const failed = job.status?.conditions?.find((c) => c.type === 'Failed' && c.status === 'True');
+    const startedAt = job.status?.startTime || job.metadata?.creationTimestamp;
+    return {
+      name: job.metadata?.name || '',
+      namespace,
+      modelId: job.metadata?.annotations?.[PREFETCH_MODEL_ANNOTATION] || '',
+      claimName: job.metadata?.labels?.[PREFETCH_CLAIM_LABEL] || '',
+      phase,
+      ...(failed?.message && { message: failed.message }),
+      ...(startedAt && { startedAt: new Date(startedAt).toISOString() }),
+      ...(job.status?.completionTime && { completedAt: new Date(job.status.completionTime).toISOString() }),
+    };
+  }
+
+  /**
+   * Logs of the Job's most recent pod; retries leave earlier pods behind
+   */
+  private async getLatestPodLogs(jobName: string, namespace: string): Promise<string | undefined> {
+    try {
+      const pods = await withRetry(
+        () => this.coreV1Api.listNamespacedPod(
+          namespace,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          `job-name=${jobName}`
+        ),
+        { operationName: 'listPrefetchPods' }
+      );
+      const pod = pods.body.items
+        .filter((p) => p.status?.phase !== 'Pending')
+        .sort((a, b) => new Date(b.metadata?.creationTimestamp || 0).getTime() - new Date(a.metadata?.creationTimestamp || 0).getTime())[0];
+      if (!pod?.metadata?.name) {
+        return undefined;
+      }
+      const response = await withRetry(
+        () => this.coreV1Api.readNamespacedPodLog(
+          pod.metadata!.name!,
+          namespace,
+          'prefetch',
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          50
+        ),
+        { operationName: 'getPrefetchLogs', maxRetries: 1 }
+      );
+      return response.body || undefined;
+    } catch (error) {
+      logger.debug({ error, jobName, namespace }, 'Could not read prefetch logs');
+      return undefined;
+    }
+  }
+}
+
+export const modelCacheService = new ModelCacheService();
@@ -0,0 +1,163 @@
+import { describe, test, expect, afterEach, mock } from 'bun:test';
+import type { MetricDefinition } from '@kubefoundry/shared';
+import {
+  prometheusService,
+  buildRangeQuery,
+  deploymentSelector,
+  exposedMetricNames,
+  PrometheusError,
+} from './prometheus';
+
+const originalFetch = globalThis.fetch;
+
+function mockFetch(body: unknown, options?: { ok?: boolean; status?: number }) {
+  const mockFn = mock((_url: string) =>
+    Promise.resolve({
+      ok: options?.ok ?? true,
+      status: options?.status ?? 200,
+      json: () => Promise.resolve(body),
+    } as Response)
+  );
+  // @ts-expect-error - mocking fetch for tests
+  globalThis.fetch = mockFn;
+  return mockFn;
+}
+
+const gauge: MetricDefinition = {
+  name: 'vllm:num_requests_running',
+  displayName: 'Running Requests',
+  description: 'Requests being processed',
+  unit: 'requests',
+  type: 'gauge',
+  category: 'queue',
+};
+
+const counter: MetricDefinition = { ...gauge, name: 'ray_serve_num_http_requests', type: 'counter', category: 'throughput' };
+const histogram: MetricDefinition = { ...gauge, name: 'vllm:e2e_request_latency_seconds', type: 'histogram', category: 'latency' };
+
+const selector = deploymentSelector('qwen', 'inference');
+
+describe('PromQL building', () => {
+  test('selects the deployment pods in its namespace', () => {
+    expect(selector).toBe('namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"');
+  });
+
+  test('does not select the pods of deployments whose names start with the same prefix', () => {
+    // Prometheus anchors the pod regex at both ends
+    const podMatcher = (selector: string) => new RegExp(`^${selector.match(/pod=~"(.*)"$/)![1]}$`);
+
+    const qwen = podMatcher(selector);
+    expect(qwen.test('qwen-7d9f8b6c5-x2k4p')).toBe(true);
+    expect(qwen.test('qwen-0')).toBe(true);
+    expect(qwen.test('qwen-2-7d9f8b6c5-x2k4p')).toBe(false);
+    expect(qwen.test('qwen-2-0')).toBe(false);
+
+    const frontend = podMatcher(deploymentSelector('qwen', 'inference', '{name}-frontend-[a-z0-9]+-[a-z0-9]{5}'));
+    expect(frontend.test('qwen-frontend-7d9f8b6c5-x2k4p')).toBe(true);
+    expect(frontend.test('qwen-2-frontend-7d9f8b6c5-x2k4p')).toBe(false);
+  });
+
+  test('matches dots in the deployment name literally', () => {
+    expect(deploymentSelector('qwen2.5', 'inference', '{name}-[0-9]+')).toBe('namespace="inference",pod=~"qwen2\\\\.5-[0-9]+"');
+  });
+
+  test('lists the series each metric type is exposed as', () => {
+    expect(exposedMetricNames(gauge)).toEqual(['vllm:num_requests_running']);
+    expect(exposedMetricNames(counter)).toEqual(['ray_serve_num_http_requests', 'ray_serve_num_http_requests_total']);
+    expect(exposedMetricNames({ ...counter, name: 'vllm:prompt_tokens_total' })).toEqual(['vllm:prompt_tokens_total']);
+    expect(exposedMetricNames(histogram)).toEqual([
+      'vllm:e2e_request_latency_seconds_sum',
+      'vllm:e2e_request_latency_seconds_count',
+      'vllm:e2e_request_latency_seconds_bucket',
+    ]);
+  });
+
+  test('sums gauges across pods', () => {
+    expect(buildRangeQuery(gauge, selector, '60s')).toBe('sum(vllm:num_requests_running{namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"})');
+  });
+
+  test('takes the rate of counters with or without the _total suffix', () => {
+    expect(buildRangeQuery(counter, selector, '120s')).toBe(
+      'sum(rate({__name__=~"ray_serve_num_http_requests|ray_serve_num_http_requests_total",namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"}[120s]))'
+    );
+  });
+
+  test('divides histogram sum and count rates for the mean', () => {
+    expect(buildRangeQuery(histogram, selector, '60s')).toBe(
+      'sum(rate(vllm:e2e_request_latency_seconds_sum{namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"}[60s]))'
+      + ' / sum(rate(vllm:e2e_request_latency_seconds_count{namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"}[60s]))'
+    );
+  });
+});
+
+describe('PrometheusService', () => {
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  describe('getCurrentValues', () => {
+    test('returns instant samples as raw metric values', async () => {
+      const fetchMock = mockFetch({
+        status: 'success',
+        data: {
+          resultType: 'vector',
+          result: [
+            { metric: { __name__: 'vllm:num_requests_running', pod: 'qwen-0' }, value: [1700000000, '3'] },
+            { metric: { __name__: 'vllm:e2e_request_latency_seconds_sum', pod: 'qwen-0' }, value: [1700000000, 'NaN'] },
+          ],
+        },
+      });
+
+      const metrics = await prometheusService.getCurrentValues('http://prometheus:9090/', [gauge, histogram], 'qwen', 'inference');
+
+      expect(metrics).toEqual([{ name: 'vllm:num_requests_running', value: 3, labels: { pod: 'qwen-0' } }]);
+      const url = new URL(fetchMock.mock.calls[0][0]);
+      expect(url.origin + url.pathname).toBe('http://prometheus:9090/api/v1/query');
+      expect(url.searchParams.get('query')).toBe(
+        '{__name__=~"vllm:num_requests_running|vllm:e2e_request_latency_seconds_sum|vllm:e2e_request_latency_seconds_count|vllm:e2e_request_latency_seconds_bucket",namespace="inference",pod=~"qwen-([0-9]+|[a-z0-9]+-[a-z0-9]{5})"}'
+      );
+    });
+
+    test('raises the error Prometheus reports', async () => {
+      mockFetch({ status: 'error', error: 'parse error at char 3' }, { ok: false, status: 400 });
+      await expect(prometheusService.getCurrentValues('http://prometheus:9090', [gauge], 'qwen', 'inference'))
+        .rejects.toThrow('Prometheus query failed: parse error at char 3');
+    });
+
+    test('raises a PrometheusError when the server cannot be reached', async () => {
+      // @ts-expect-error - mocking fetch for tests
+      globalThis.fetch = mock(() => Promise.reject(new TypeError('fetch failed')));
+      const error = await prometheusService.getCurrentValues('http://prometheus:9090', [gauge], 'qwen', 'inference').catch((e) => e);
+      expect(error).toBeInstanceOf(PrometheusError);
+      expect(error.message).toBe('Cannot reach Prometheus at http://prometheus:9090: fetch failed');
+    });
+  });
+
+  describe('queryRange', () => {
+    test('queries the range ending now at the range step', async () => {
+      const fetchMock = mockFetch({
+        status: 'success',
+        data: {
+          resultType: 'matrix',
+          result: [{ metric: {}, values: [[1700000000, '1.5'], [1700000060, 'NaN'], [1700000120, '2']] }],
+        },
+      });
+
+      const samples = await prometheusService.queryRange('http://prometheus:9090', 'up', '1h', 1700003600 * 1000);
+
+      expect(samples).toEqual([
+        { timestamp: 1700000000, value: 1.5 },
+        { timestamp: 1700000120, value: 2 },
+      ]);
+      const params = new URL(fetchMock.mock.calls[0][0]).searchParams;
+      expect(params.get('start')).toBe('1700000000');
+      expect(params.get('end')).toBe('1700003600');
+      expect(params.get('step')).toBe('60');
+    });
+
+    test('returns no samples when the query matches nothing', async () => {
+      mockFetch({ status: 'success', data: { resultType: 'matrix', result: [] } });
+      expect(await prometheusService.queryRange('http://prometheus:9090', 'up', '15m')).toEqual([]);
+    });
+  });
+});
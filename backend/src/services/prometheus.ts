@@ -0,0 +1,194 @@
+/**
+ * Prometheus Service
+ * Reads deployment metrics from a Prometheus server through its HTTP API
+ */
+
+import type { MetricDefinition, MetricSample, MetricsRange, RawMetricValue } from '@kubefoundry/shared';
+import logger from '../lib/logger';
+
+// Timeout for a single PromQL query
+const QUERY_TIMEOUT_MS = 10000;
+
+/**
+ * Length and resolution of each history range. Rates are taken over twice the
+ * step so every sample covers at least two scrapes.
+ */
+export const RANGE_SETTINGS: Record<MetricsRange, { seconds: number; step: number }> = {
+  '15m': { seconds: 15 * 60, step: 15 },
+  '1h': { seconds: 60 * 60, step: 60 },
+  '24h': { seconds: 24 * 60 * 60, step: 15 * 60 },
+};
+
+/**
+ * Raised when Prometheus cannot be reached or rejects a query
+ */
+export class PrometheusError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PrometheusError';
+  }
+}
+
+interface PrometheusResponse {
+  status: 'success' | 'error';
+  error?: string;
+  data?: {
+    resultType: 'vector' | 'matrix' | 'scalar' | 'string';
+    result: Array<{
+      metric: Record<string, string>;
+      value?: [number, string];
+      values?: Array<[number, string]>;
+    }>;
+  };
+}
+
+/**
+ * Pods of a Deployment ({name}-<replicaset hash>-<5 character suffix>) or StatefulSet ({name}-<ordinal>)
+ * named after the deployment
+ */
+export const DEFAULT_POD_NAME_PATTERN = '{name}-([0-9]+|[a-z0-9]+-[a-z0-9]{5})';
+
+/**
+ * Label matchers for the series of one deployment. Prometheus scrape configs
+ * (ServiceMonitors, PodMonitors, the kubernetes-pods job) attach the pod's
+ * namespace and name, so the pod name must match the exact format the provider
+ * generates: a plain prefix would also match deployments whose names start
+ * with this one (llama and llama-2).
+ */
+export function deploymentSelector(
+  deploymentName: string,
+  namespace: string,
+  podNamePattern: string = DEFAULT_POD_NAME_PATTERN
+): string {
+  // Prometheus anchors regex matchers; dots in the name are literal
+  const pod = podNamePattern.replace('{name}', deploymentName.replace(/\./g, '\\\\.'));
+  return `namespace="${namespace}",pod=~"${pod}"`;
+}
+
+/**
+ * Names a definition is exposed under: histograms as their _sum, _count and
+ * _bucket series, counters with or without the _total suffix
+ */
+export function exposedMetricNames(definition: MetricDefinition): string[] {
+  if (definition.type === 'histogram') {
+    return [`${definition.name}_sum`, `${definition.name}_count`, `${definition.name}_bucket`];
+  }
+  if (definition.type === 'counter' && !definition.name.endsWith('_total')) {
+    return [definition.name, `${definition.name}_total`];
+  }
+  return [definition.name];
+}
+
+/**
+ * PromQL for a definition's history, on the same scale as the current value:
+ * gauges summed across pods, counters as a per-second rate and histograms as
+ * the mean observation over the window
+ */
+export function buildRangeQuery(definition: MetricDefinition, selector: string, window: string): string {
+  switch (definition.type) {
+    case 'gauge':
+      return `sum(${definition.name}{${selector}})`;
+    case 'counter': {
+      const names = exposedMetricNames(definition).join('|');
+      return `sum(rate({__name__=~"${names}",${selector}}[${window}]))`;
+    }
+    case 'histogram':
+      return `sum(rate(${definition.name}_sum{${selector}}[${window}])) / sum(rate(${definition.name}_count{${selector}}[${window}]))`;
+  }
+}
+
+/**
+ * Turn a sample value into a number, dropping NaN and infinities (a histogram
+ * with no observations in the window divides zero by zero)
+ */
+function toSample(timestamp: number, value: string): MetricSample | null {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? { timestamp, value: parsed } : null;
+}
+
+class PrometheusService {
+  /**
+   * Run a PromQL query against a Prometheus server
+   */
+  private async request(baseUrl: string, path: string, params: Record<string, string>): Promise<PrometheusResponse['data']> {
+    const url = `${baseUrl.replace(/\/+$/, '')}${path}?${new URLSearchParams(params).toString()}`;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), QUERY_TIMEOUT_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        headers: { Accept: 'application/json' },
+        signal: controller.signal,
+      });
+    } catch (error) {
+      const message = error instanceof Error && error.name === 'AbortError'
+        ? `Prometheus did not answer within ${QUERY_TIMEOUT_MS / 1000}s`
+        : `Cannot reach Prometheus at ${baseUrl}: ${error instanceof Error ? error.message : String(error)}`;
+      throw new PrometheusError(message);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    let body: PrometheusResponse;
+    try {
+      body = await response.json() as PrometheusResponse;
+    } catch {
+      throw new PrometheusError(`Prometheus returned HTTP ${response.status} without a JSON body`);
+    }
+
+    if (!response.ok || body.status !== 'success') {
+      throw new PrometheusError(`Prometheus query failed: ${body.error || `HTTP ${response.status}`}`);
+    }
+    return body.data;
+  }
+
+  /**
+   * Current raw values of a deployment's key metrics, in the same form as a
+   * direct scrape of its /metrics endpoint
+   */
+  async getCurrentValues(
+    baseUrl: string,
+    definitions: MetricDefinition[],
+    deploymentName: string,
+    namespace: string,
+    podNamePattern?: string
+  ): Promise<RawMetricValue[]> {
+    const names = [...new Set(definitions.flatMap(exposedMetricNames))].join('|');
+    const query = `{__name__=~"${names}",${deploymentSelector(deploymentName, namespace, podNamePattern)}}`;
+    const data = await this.request(baseUrl, '/api/v1/query', { query });
+
+    const metrics: RawMetricValue[] = [];
+    for (const { metric, value } of data?.result || []) {
+      const sample = value && toSample(value[0], value[1]);
+      if (!sample) continue;
+      const { __name__: name, ...labels } = metric;
+      metrics.push({ name, value: sample.value, labels });
+    }
+    return metrics;
+  }
+
+  /**
+   * Samples of one PromQL expression over a range ending now
+   */
+  async queryRange(baseUrl: string, query: string, range: MetricsRange, now = Date.now()): Promise<MetricSample[]> {
+    const { seconds, step } = RANGE_SETTINGS[range];
+    const end = Math.floor(now / 1000);
+    const data = await this.request(baseUrl, '/api/v1/query_range', {
+      query,
+      start: String(end - seconds),
+      end: String(end),
+      step: String(step),
+    });
+
+    // Aggregated queries return at most one series
+    const values = data?.result[0]?.values || [];
+    logger.debug({ query, range, samples: values.length }, 'Prometheus range query complete');
+    return values
+      .map(([timestamp, value]) => toSample(timestamp, value))
+      .filter((sample): sample is MetricSample => sample !== null);
+  }
+}
+
+// Export singleton instance
+export const prometheusService = new PrometheusService();
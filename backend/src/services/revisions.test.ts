@@ -0,0 +1,27 @@
+import { describe, test, expect, afterEach, spyOn } from 'bun:test';
+import * as k8s from '@kubernetes/client-node';
+import { RevisionService } from './revisions';
+
+describe('RevisionService', () => {
+  const spies: Array<{ mockRestore: () => void }> = [];
+
+  afterEach(() => {
+    spies.splice(0).forEach((spy) => spy.mockRestore());
+  });
+
+  test('lists and deletes only revision ConfigMaps of the deployment', async () => {
+    const list = spyOn(k8s.CoreV1Api.prototype, 'listNamespacedConfigMap')
+      .mockResolvedValue({ body: { items: [] } } as any);
+    const deleteCollection = spyOn(k8s.CoreV1Api.prototype, 'deleteCollectionNamespacedConfigMap')
+      .mockResolvedValue({ body: {} } as any);
+    spies.push(list, deleteCollection);
+
+    const service = new RevisionService();
+    await service.listRevisions('qwen', 'default');
+    await service.deleteRevisions('qwen', 'default');
+
+    const selector = 'kubefoundry.io/deployment=qwen,kubefoundry.io/revision';
+    expect(list.mock.calls[0][5]).toBe(selector);
+    expect(deleteCollection.mock.calls[0][6]).toBe(selector);
+  });
+});
@@ -0,0 +1,209 @@
+import * as k8s from '@kubernetes/client-node';
+import type { DeploymentConfig, DeploymentRevision, DeploymentRevisionDiff } from '@kubefoundry/shared';
+import { withRetry } from '../lib/retry';
+import { diffObjects } from '../lib/object-diff';
+import logger from '../lib/logger';
+
+/**
+ * Label linking a revision ConfigMap to its deployment
+ */
+export const REVISION_DEPLOYMENT_LABEL = 'kubefoundry.io/deployment';
+
+/**
+ * Label holding the revision number
+ */
+export const REVISION_NUMBER_LABEL = 'kubefoundry.io/revision';
+
+const CHANGE_CAUSE_ANNOTATION = 'kubefoundry.io/change-cause';
+const CONFIG_KEY = 'config.json';
+const MANIFEST_KEY = 'manifest.json';
+
+/**
+ * Number of revisions kept per deployment; older ones are pruned
+ */
+const REVISION_HISTORY_LIMIT = 10;
+
+/**
+ * Revision Service
+ * Records each applied DeploymentConfig and manifest in a ConfigMap next to the deployment
+ */
+export class RevisionService {
+  private kc: k8s.KubeConfig;
+  private coreV1Api: k8s.CoreV1Api;
+
+  constructor() {
+    this.kc = new k8s.KubeConfig();
+
+    try {
+      this.kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for RevisionService');
+    }
+
+    this.coreV1Api = this.kc.makeApiClient(k8s.CoreV1Api);
+  }
+
+  private getConfigMapName(name: string, revision: number): string {
+    return `${name}-rev-${revision}`;
+  }
+
+  /**
+   * Select a deployment's revision ConfigMaps only. Other ConfigMaps, such as
+   * benchmark reports, carry the deployment label too.
+   */
+  private getLabelSelector(name: string): string {
+    return `${REVISION_DEPLOYMENT_LABEL}=${name},${REVISION_NUMBER_LABEL}`;
+  }
+
+  private parseConfigMap(configMap: k8s.V1ConfigMap): DeploymentRevision | null {
+    const revision = parseInt(configMap.metadata?.labels?.[REVISION_NUMBER_LABEL] || '', 10);
+    const config = configMap.data?.[CONFIG_KEY];
+    const manifest = configMap.data?.[MANIFEST_KEY];
+
+    if (isNaN(revision) || !config || !manifest) {
+      return null;
+    }
+
+    try {
+      return {
+        revision,
+        createdAt: configMap.metadata?.creationTimestamp
+          ? new Date(configMap.metadata.creationTimestamp).toISOString()
+          : new Date().toISOString(),
+        changeCause: configMap.metadata?.annotations?.[CHANGE_CAUSE_ANNOTATION] || '',
+        config: JSON.parse(config) as DeploymentConfig,
+        manifest: JSON.parse(manifest) as Record<string, unknown>,
+      };
+    } catch (error) {
+      logger.warn({ error, configMap: configMap.metadata?.name }, 'Failed to parse revision ConfigMap');
+      return null;
+    }
+  }
+
+  /**
+   * List all recorded revisions for a deployment, oldest first
+   */
+  async listRevisions(name: string, namespace: string): Promise<DeploymentRevision[]> {
+    const response = await withRetry(
+      () => this.coreV1Api.listNamespacedConfigMap(
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        this.getLabelSelector(name)
+      ),
+      { operationName: 'listRevisions' }
+    );
+
+    return response.body.items
+      .map((cm) => this.parseConfigMap(cm))
+      .filter((r): r is DeploymentRevision => r !== null)
+      .sort((a, b) => a.revision - b.revision);
+  }
+
+  /**
+   * Get a single revision, or null if it does not exist
+   */
+  async getRevision(name: string, namespace: string, revision: number): Promise<DeploymentRevision | null> {
+    try {
+      const response = await withRetry(
+        () => this.coreV1Api.readNamespacedConfigMap(this.getConfigMapName(name, revision), namespace),
+        { operationName: 'getRevision' }
+      );
+      return this.parseConfigMap(response.body);
+    } catch (error: any) {
+      const statusCode = error?.statusCode || error?.response?.statusCode;
+      if (statusCode === 404) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a new revision and prune revisions beyond the history limit.
+   * Returns the new revision number.
+   */
+  async recordRevision(
+    config: DeploymentConfig,
+    manifest: Record<string, unknown>,
+    changeCause: string
+  ): Promise<number> {
+    const existing = await this.listRevisions(config.name, config.namespace);
+    const revision = existing.length > 0 ? existing[existing.length - 1].revision + 1 : 1;
+
+    const configMap: k8s.V1ConfigMap = {
+      metadata: {
+        name: this.getConfigMapName(config.name, revision),
+        namespace: config.namespace,
+        labels: {
+          'app.kubernetes.io/name': 'kubefoundry',
+          'app.kubernetes.io/instance': config.name,
+          'app.kubernetes.io/managed-by': 'kubefoundry',
+          [REVISION_DEPLOYMENT_LABEL]: config.name,
+          [REVISION_NUMBER_LABEL]: String(revision),
+        },
+        annotations: {
+          [CHANGE_CAUSE_ANNOTATION]: changeCause,
+        },
+      },
+      data: {
+        [CONFIG_KEY]: JSON.stringify(config, null, 2),
+        [MANIFEST_KEY]: JSON.stringify(manifest, null, 2),
+      },
+    };
+
+    await withRetry(
+      () => this.coreV1Api.createNamespacedConfigMap(config.namespace, configMap),
+      { operationName: 'recordRevision' }
+    );
+
+    const stale = existing.slice(0, Math.max(0, existing.length + 1 - REVISION_HISTORY_LIMIT));
+    for (const old of stale) {
+      try {
+        await this.coreV1Api.deleteNamespacedConfigMap(
+          this.getConfigMapName(config.name, old.revision),
+          config.namespace
+        );
+      } catch (error) {
+        logger.warn({ error, name: config.name, revision: old.revision }, 'Failed to prune old revision');
+      }
+    }
+
+    logger.info({ name: config.name, namespace: config.namespace, revision, changeCause }, 'Recorded deployment revision');
+    return revision;
+  }
+
+  /**
+   * Delete all revisions of a deployment
+   */
+  async deleteRevisions(name: string, namespace: string): Promise<void> {
+    await withRetry(
+      () => this.coreV1Api.deleteCollectionNamespacedConfigMap(
+        namespace,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        this.getLabelSelector(name)
+      ),
+      { operationName: 'deleteRevisions' }
+    );
+  }
+
+  /**
+   * Compare two revisions' configs and manifests
+   */
+  diffRevisions(from: DeploymentRevision, to: DeploymentRevision): DeploymentRevisionDiff {
+    return {
+      from: from.revision,
+      to: to.revision,
+      config: diffObjects(from.config, to.config),
+      manifest: diffObjects(from.manifest, to.manifest),
+    };
+  }
+}
+
+export const revisionService = new RevisionService();
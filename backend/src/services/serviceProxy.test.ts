@@ -0,0 +1,91 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test';
+import * as k8s from '@kubernetes/client-node';
+import { ServiceProxyService, buildPodProxyPath, buildServiceProxyPath, parseServiceAddress } from './serviceProxy';
+
+describe('parseServiceAddress', () => {
+  test('parses name and port', () => {
+    expect(parseServiceAddress('qwen-vllm:5000')).toEqual({ service: 'qwen-vllm', port: 5000 });
+  });
+
+  test('defaults the port to 8000', () => {
+    expect(parseServiceAddress('qwen-frontend')).toEqual({ service: 'qwen-frontend', port: 8000 });
+  });
+});
+
+describe('buildServiceProxyPath', () => {
+  test('builds the API server proxy path', () => {
+    expect(buildServiceProxyPath('default', { service: 'qwen-frontend', port: 8000 }, '/v1/models'))
+      .toBe('/api/v1/namespaces/default/services/qwen-frontend:8000/proxy/v1/models');
+  });
+
+  test('builds the API server pod proxy path', () => {
+    expect(buildPodProxyPath('default', { pod: 'qwen-frontend-0', port: 8000 }, 'metrics'))
+      .toBe('/api/v1/namespaces/default/pods/qwen-frontend-0:8000/proxy/metrics');
+  });
+});
+
+describe('ServiceProxyService', () => {
+  let server: ReturnType<typeof Bun.serve>;
+  let service: ServiceProxyService;
+  const received: Array<{ path: string; auth: string | null; body: unknown }> = [];
+
+  beforeAll(() => {
+    // Stands in for the API server
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        received.push({
+          path: url.pathname,
+          auth: req.headers.get('authorization'),
+          body: req.method === 'POST' ? await req.json() : undefined,
+        });
+        return new Response('data: {"ok":true}\n\n', { headers: { 'Content-Type': 'text/event-stream' } });
+      },
+    });
+
+    const kc = new k8s.KubeConfig();
+    kc.loadFromOptions({
+      clusters: [{ name: 'test', server: `http://127.0.0.1:${server.port}`, skipTLSVerify: true }],
+      users: [{ name: 'test', token: 'secret-token' }],
+      contexts: [{ name: 'test', cluster: 'test', user: 'test' }],
+      currentContext: 'test',
+    });
+    service = new ServiceProxyService(kc);
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  test('sends authenticated requests through the service proxy and streams the response', async () => {
+    const response = await service.request({
+      namespace: 'default',
+      service: 'qwen-frontend',
+      port: 8000,
+      path: '/v1/chat/completions',
+      body: { model: 'qwen', messages: [] },
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('text/event-stream');
+    expect(await response.text()).toBe('data: {"ok":true}\n\n');
+    expect(received.at(-1)).toEqual({
+      path: '/api/v1/namespaces/default/services/qwen-frontend:8000/proxy/v1/chat/completions',
+      auth: 'Bearer secret-token',
+      body: { model: 'qwen', messages: [] },
+    });
+  });
+
+  test('sends requests to a single pod through the pod proxy', async () => {
+    const response = await service.request({
+      namespace: 'default',
+      pod: 'qwen-frontend-0',
+      port: 8000,
+      path: '/metrics',
+    });
+
+    expect(response.status).toBe(200);
+    expect(received.at(-1)?.path).toBe('/api/v1/namespaces/default/pods/qwen-frontend-0:8000/proxy/metrics');
+  });
+});
@@ -0,0 +1,166 @@
+import * as k8s from '@kubernetes/client-node';
+import * as http from 'http';
+import * as https from 'https';
+import { Readable } from 'stream';
+import logger from '../lib/logger';
+
+// Port most inference frontends listen on when the service address has none
+const DEFAULT_SERVICE_PORT = 8000;
+
+/**
+ * A Kubernetes service and port to send requests to
+ */
+export interface ServiceAddress {
+  service: string;
+  port: number;
+}
+
+/**
+ * A pod and one of its container ports, for reaching a single replica
+ */
+export interface PodAddress {
+  pod: string;
+  port: number;
+}
+
+interface ProxyRequestOptions {
+  namespace: string;
+  /** Path on the service or pod, e.g. /v1/chat/completions */
+  path: string;
+  method?: string;
+  /** Sent as JSON */
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  /** Give up if response headers have not arrived in time */
+  timeoutMs?: number;
+}
+
+export type ServiceProxyRequest = ProxyRequestOptions & (ServiceAddress | PodAddress);
+
+/**
+ * Parse a "name" or "name:port" service address, such as DeploymentStatus.frontendService
+ */
+export function parseServiceAddress(address: string): ServiceAddress {
+  const [service, port] = address.split(':');
+  const parsedPort = port ? parseInt(port, 10) : NaN;
+  return { service, port: Number.isNaN(parsedPort) ? DEFAULT_SERVICE_PORT : parsedPort };
+}
+
+/**
+ * API server path that proxies to a service port
+ */
+export function buildServiceProxyPath(namespace: string, address: ServiceAddress, path: string): string {
+  const suffix = path.startsWith('/') ? path : `/${path}`;
+  return `/api/v1/namespaces/${encodeURIComponent(namespace)}/services/${encodeURIComponent(address.service)}:${address.port}/proxy${suffix}`;
+}
+
+/**
+ * API server path that proxies to a pod port
+ */
+export function buildPodProxyPath(namespace: string, address: PodAddress, path: string): string {
+  const suffix = path.startsWith('/') ? path : `/${path}`;
+  return `/api/v1/namespaces/${encodeURIComponent(namespace)}/pods/${encodeURIComponent(address.pod)}:${address.port}/proxy${suffix}`;
+}
+
+/**
+ * Service Proxy Service
+ * Sends HTTP requests to in-cluster services and pods through the API server's proxy,
+ * so they work the same whether KubeFoundry runs inside or outside the cluster.
+ */
+export class ServiceProxyService {
+  private kc: k8s.KubeConfig;
+
+  constructor(kc?: k8s.KubeConfig) {
+    if (kc) {
+      this.kc = kc;
+      return;
+    }
+
+    this.kc = new k8s.KubeConfig();
+    try {
+      this.kc.loadFromDefault();
+    } catch {
+      logger.warn('No kubeconfig found for ServiceProxyService');
+    }
+  }
+
+  /**
+   * Send a request and return the response as soon as its headers arrive.
+   * The body is streamed, so server-sent events can be relayed as they are produced.
+   */
+  async request(options: ServiceProxyRequest): Promise<Response> {
+    const server = this.kc.getCurrentCluster()?.server;
+    if (!server) {
+      throw new Error('No Kubernetes cluster configured');
+    }
+
+    const proxyPath = 'pod' in options
+      ? buildPodProxyPath(options.namespace, options, options.path)
+      : buildServiceProxyPath(options.namespace, options, options.path);
+    const url = new URL(proxyPath, server);
+    const target = 'pod' in options ? options.pod : options.service;
+    const requestOptions: https.RequestOptions = {};
+    await this.kc.applyToHTTPSOptions(requestOptions);
+
+    const body = options.body === undefined ? undefined : JSON.stringify(options.body);
+    const transport = url.protocol === 'http:' ? http : https;
+
+    return new Promise<Response>((resolve, reject) => {
+      let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+      const req = transport.request(url, {
+        ...requestOptions,
+        method: options.method || (body ? 'POST' : 'GET'),
+        headers: {
+          ...(requestOptions.headers || {}),
+          Accept: 'application/json, text/event-stream',
+          ...(body && { 'Content-Type': 'application/json' }),
+          ...options.headers,
+        },
+      }, (res) => {
+        clearTimeout(timeoutId);
+
+        const headers = new Headers();
+        for (const [key, value] of Object.entries(res.headers)) {
+          if (value !== undefined) {
+            headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+          }
+        }
+
+        // stream/web's ReadableStream type differs from the global one Response expects
+        resolve(new Response(Readable.toWeb(res) as unknown as ReadableStream<Uint8Array>, {
+          status: res.statusCode || 502,
+          headers,
+        }));
+      });
+
+      req.on('error', (error) => {
+        clearTimeout(timeoutId);
+        reject(error);
+      });
+
+      const { timeoutMs } = options;
+      if (timeoutMs) {
+        timeoutId = setTimeout(() => {
+          req.destroy(new Error(`Request to ${target} timed out after ${timeoutMs / 1000} seconds`));
+        }, timeoutMs);
+      }
+
+      if (options.signal) {
+        if (options.signal.aborted) {
+          req.destroy(new Error('Request aborted'));
+        } else {
+          options.signal.addEventListener('abort', () => req.destroy(new Error('Request aborted')), { once: true });
+        }
+      }
+
+      if (body) {
+        req.write(body);
+      }
+      req.end();
+    });
+  }
+}
+
+export const serviceProxyService = new ServiceProxyService();
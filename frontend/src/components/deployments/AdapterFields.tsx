@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { LoraAdapter, LoraAdapterSource } from '@/lib/api';
+import { Loader2, Plus, X } from 'lucide-react';
+
+const SOURCE_LABELS: Record<LoraAdapterSource, string> = {
+  huggingface: 'HuggingFace',
+  pvc: 'Volume claim',
+  image: 'Image',
+};
+
+interface AdapterInputProps {
+  onAdd: (adapter: LoraAdapter) => void;
+  /** Sources the provider loads adapters from */
+  sources: LoraAdapterSource[];
+  /** Model names already served, which an adapter cannot reuse */
+  takenNames: string[];
+  isPending?: boolean;
+}
+
+/**
+ * Where an adapter is loaded from, for display
+ */
+export function describeAdapterSource(adapter: LoraAdapter): string {
+  return adapter.pvc ? `${adapter.pvc.claimName}:${adapter.pvc.path}` : adapter.huggingFaceRepo || adapter.image || '';
+}
+
+/**
+ * Inputs for one new adapter: its model name and a HuggingFace repo, a path
+ * on a PersistentVolumeClaim or a container image
+ */
+export function AdapterInput({ onAdd, sources, takenNames, isPending }: AdapterInputProps) {
+  const [name, setName] = useState('');
+  const [selectedSource, setSource] = useState<LoraAdapterSource>(sources[0]);
+  const [repo, setRepo] = useState('');
+  const [claimName, setClaimName] = useState('');
+  const [path, setPath] = useState('');
+  const [image, setImage] = useState('');
+
+  // Another provider may not load adapters from the source picked before
+  const source = sources.includes(selectedSource) ? selectedSource : sources[0];
+  const trimmedName = name.trim();
+  const isTaken = takenNames.includes(trimmedName);
+  const isComplete = source === 'huggingface'
+    ? !!repo.trim()
+    : source === 'pvc' ? !!claimName.trim() && !!path.trim() : !!image.trim();
+
+  const handleAdd = () => {
+    onAdd({
+      name: trimmedName,
+      ...(source === 'huggingface' && { huggingFaceRepo: repo.trim() }),
+      ...(source === 'pvc' && { pvc: { claimName: claimName.trim(), path: path.trim() } }),
+      ...(source === 'image' && { image: image.trim() }),
+    });
+    setName('');
+    setRepo('');
+    setPath('');
+    setImage('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid gap-2 md:grid-cols-[1fr_10rem]">
+        <Input
+          aria-label="Adapter name"
+          placeholder="Model name, e.g. sql-lora"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <Select value={source} onValueChange={(v) => setSource(v as LoraAdapterSource)}>
+          <SelectTrigger aria-label="Adapter source">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sources.map((s) => (
+              <SelectItem key={s} value={s}>{SOURCE_LABELS[s]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex gap-2">
+        {source === 'huggingface' ? (
+          <Input
+            aria-label="Adapter repository"
+            placeholder="org/adapter-repo"
+            value={repo}
+            onChange={(e) => setRepo(e.target.value)}
+          />
+        ) : source === 'image' ? (
+          <Input
+            aria-label="Adapter image"
+            placeholder="registry/adapter-image:tag"
+            value={image}
+            onChange={(e) => setImage(e.target.value)}
+          />
+        ) : (
+          <>
+            <Input
+              aria-label="Adapter claim"
+              placeholder="Claim name"
+              value={claimName}
+              onChange={(e) => setClaimName(e.target.value)}
+            />
+            <Input
+              aria-label="Adapter path"
+              placeholder="Path in the claim"
+              value={path}
+              onChange={(e) => setPath(e.target.value)}
+            />
+          </>
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          disabled={!trimmedName || isTaken || !isComplete || isPending}
+          onClick={handleAdd}
+        >
+          {isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+          Add
+        </Button>
+      </div>
+      {isTaken && (
+        <p className="text-xs text-destructive">A model named {trimmedName} is already served</p>
+      )}
+    </div>
+  );
+}
+
+interface AdapterListProps {
+  adapters: LoraAdapter[];
+  onRemove: (name: string) => void;
+  /** Adapter currently being removed */
+  removing?: string;
+}
+
+export function AdapterList({ adapters, onRemove, removing }: AdapterListProps) {
+  if (adapters.length === 0) {
+    return <p className="text-sm text-muted-foreground">No adapters</p>;
+  }
+
+  return (
+    <div className="rounded-md border divide-y">
+      {adapters.map((adapter) => (
+        <div key={adapter.name} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+          <div className="min-w-0">
+            <span className="font-medium">{adapter.name}</span>
+            <span className="ml-2 truncate font-mono text-xs text-muted-foreground">
+              {describeAdapterSource(adapter)}
+            </span>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={`Remove ${adapter.name}`}
+            disabled={!!removing}
+            onClick={() => onRemove(adapter.name)}
+          >
+            {removing === adapter.name ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface AdapterFieldsProps {
+  value: LoraAdapter[] | undefined;
+  onChange: (value: LoraAdapter[] | undefined) => void;
+  servedModelName: string;
+  sources: LoraAdapterSource[];
+}
+
+/**
+ * LoRA adapters served next to the base model, each under its own model name
+ */
+export function AdapterFields({ value = [], onChange, servedModelName, sources }: AdapterFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <div className="space-y-0.5">
+        <Label>LoRA Adapters</Label>
+        <p className="text-xs text-muted-foreground">
+          Each adapter is served as its own model on the same replicas
+        </p>
+      </div>
+      {value.length > 0 && (
+        <AdapterList
+          adapters={value}
+          onRemove={(name) => {
+            const remaining = value.filter((a) => a.name !== name);
+            onChange(remaining.length > 0 ? remaining : undefined);
+          }}
+        />
+      )}
+      <AdapterInput
+        sources={sources}
+        takenNames={[servedModelName, ...value.map((a) => a.name)]}
+        onAdd={(adapter) => onChange([...value, adapter])}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAttachAdapter, useDeploymentConfig, useDetachAdapter } from '@/hooks/useDeployments';
+import { useToast } from '@/hooks/useToast';
+import type { LoraAdapter, LoraAdapterSource } from '@/lib/api';
+import { Layers, Loader2 } from 'lucide-react';
+import { AdapterInput, AdapterList } from './AdapterFields';
+
+interface AdaptersPanelProps {
+  deploymentName: string;
+  namespace: string;
+  /** Sources the provider loads adapters from */
+  sources: LoraAdapterSource[];
+}
+
+/**
+ * LoRA adapters served by a running deployment. Attaching or detaching one
+ * updates the deployment, so the runtime restarts the serving pods.
+ */
+export function AdaptersPanel({ deploymentName, namespace, sources }: AdaptersPanelProps) {
+  const { toast } = useToast();
+  const { data: config, isLoading, error } = useDeploymentConfig(deploymentName, namespace);
+  const attach = useAttachAdapter();
+  const detach = useDetachAdapter();
+
+  const adapters = config?.adapters || [];
+
+  const handleAttach = async (adapter: LoraAdapter) => {
+    try {
+      const result = await attach.mutateAsync({ name: deploymentName, namespace, adapter });
+      toast({ title: 'Adapter Attached', description: result.message, variant: 'success' });
+    } catch (err) {
+      toast({
+        title: 'Attach Failed',
+        description: err instanceof Error ? err.message : 'Failed to attach adapter',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDetach = async (adapter: string) => {
+    try {
+      const result = await detach.mutateAsync({ name: deploymentName, namespace, adapter });
+      toast({ title: 'Adapter Detached', description: result.message, variant: 'success' });
+    } catch (err) {
+      toast({
+        title: 'Detach Failed',
+        description: err instanceof Error ? err.message : 'Failed to detach adapter',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Layers className="h-5 w-5" />
+          <CardTitle>LoRA Adapters</CardTitle>
+        </div>
+        <CardDescription>
+          Fine-tuned adapters served next to the base model, each under its own model name
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !config ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load deployment configuration'}
+          </p>
+        ) : (
+          <>
+            <AdapterList
+              adapters={adapters}
+              onRemove={handleDetach}
+              removing={detach.isPending ? detach.variables?.adapter : undefined}
+            />
+            <AdapterInput
+              sources={sources}
+              takenNames={[config.servedModelName || config.modelId, ...adapters.map((a) => a.name)]}
+              onAdd={handleAttach}
+              isPending={attach.isPending}
+            />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
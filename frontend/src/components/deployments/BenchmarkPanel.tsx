@@ -0,0 +1,373 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useBenchmarks, useStartBenchmark, useDeleteBenchmark } from '@/hooks/useBenchmarks';
+import { useToast } from '@/hooks/useToast';
+import { formatRelativeTime } from '@/lib/utils';
+import type { BenchmarkReport, BenchmarkStatus } from '@/lib/api';
+import { Loader2, Gauge, Play, Trash2 } from 'lucide-react';
+
+interface BenchmarkPanelProps {
+  deploymentName: string;
+  namespace: string;
+  isRunning: boolean;
+}
+
+// Line colours for compared reports, in selection order
+const SERIES_COLORS = ['#3b82f6', '#f97316', '#22c55e', '#a855f7'];
+
+const STATUS_VARIANTS: Record<BenchmarkStatus, 'secondary' | 'outline' | 'destructive'> = {
+  running: 'outline',
+  completed: 'secondary',
+  failed: 'destructive',
+};
+
+/**
+ * Parse "1, 4, 16" into concurrency levels; null when any entry is invalid
+ */
+function parseConcurrency(value: string): number[] | null {
+  const levels = value.split(',').map((v) => v.trim()).filter(Boolean).map(Number);
+  if (levels.length === 0 || levels.some((n) => !Number.isInteger(n) || n < 1 || n > 256)) {
+    return null;
+  }
+  return levels;
+}
+
+function optionalNumber(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) ? undefined : parsed;
+}
+
+/**
+ * Output tokens/sec against concurrency for each compared report, with
+ * the AI Configurator estimate drawn as a dashed line when a report has one
+ */
+function ThroughputChart({ reports }: { reports: BenchmarkReport[] }) {
+  const width = 480;
+  const height = 200;
+  const pad = { top: 12, right: 12, bottom: 28, left: 52 };
+
+  const points = reports.flatMap((r) => r.results);
+  const estimates = reports.flatMap((r) => (r.estimatedPerformance ? [r.estimatedPerformance.throughputTokensPerSec] : []));
+  const maxX = Math.max(1, ...points.map((p) => p.concurrency));
+  const maxY = Math.max(1, ...points.map((p) => p.outputTokensPerSecond), ...estimates) * 1.1;
+
+  const x = (concurrency: number) => pad.left + ((concurrency - 1) / Math.max(maxX - 1, 1)) * (width - pad.left - pad.right);
+  const y = (value: number) => height - pad.bottom - (value / maxY) * (height - pad.top - pad.bottom);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full max-w-xl" role="img" aria-label="Throughput by concurrency">
+      <line x1={pad.left} y1={height - pad.bottom} x2={width - pad.right} y2={height - pad.bottom} className="stroke-border" />
+      <line x1={pad.left} y1={pad.top} x2={pad.left} y2={height - pad.bottom} className="stroke-border" />
+      <text x={pad.left - 6} y={pad.top + 4} textAnchor="end" className="fill-muted-foreground text-[10px]">
+        {Math.round(maxY)}
+      </text>
+      <text x={pad.left - 6} y={height - pad.bottom} textAnchor="end" className="fill-muted-foreground text-[10px]">0</text>
+      <text x={(width + pad.left) / 2} y={height - 6} textAnchor="middle" className="fill-muted-foreground text-[10px]">
+        concurrency (1–{maxX}) · output tok/s
+      </text>
+
+      {reports.map((report, i) => {
+        const color = SERIES_COLORS[i % SERIES_COLORS.length];
+        const path = report.results.map((p) => `${x(p.concurrency)},${y(p.outputTokensPerSecond)}`).join(' ');
+        return (
+          <g key={report.id}>
+            <polyline points={path} fill="none" stroke={color} strokeWidth={2} />
+            {report.results.map((p) => (
+              <circle key={p.concurrency} cx={x(p.concurrency)} cy={y(p.outputTokensPerSecond)} r={3} fill={color}>
+                <title>{`${p.concurrency} concurrent: ${p.outputTokensPerSecond} tok/s`}</title>
+              </circle>
+            ))}
+            {report.estimatedPerformance && (
+              <line
+                x1={pad.left}
+                x2={width - pad.right}
+                y1={y(report.estimatedPerformance.throughputTokensPerSec)}
+                y2={y(report.estimatedPerformance.throughputTokensPerSec)}
+                stroke={color}
+                strokeDasharray="4 4"
+              >
+                <title>{`AI Configurator estimate: ${report.estimatedPerformance.throughputTokensPerSec} tok/s`}</title>
+              </line>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function ResultsTable({ report, color }: { report: BenchmarkReport; color: string }) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="inline-block h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+        <span className="font-mono">{report.id}</span>
+        <span className="text-muted-foreground">
+          {report.config.inputTokens} in / {report.config.outputTokens} out tokens
+        </span>
+      </div>
+      <div className="overflow-x-auto rounded-md border">
+        <table className="w-full text-xs font-mono">
+          <thead className="bg-muted/50 text-muted-foreground">
+            <tr>
+              <th className="px-2 py-1 text-left">Concurrency</th>
+              <th className="px-2 py-1 text-right">Output tok/s</th>
+              <th className="px-2 py-1 text-right">Req/s</th>
+              <th className="px-2 py-1 text-right">TTFT p50 / p99</th>
+              <th className="px-2 py-1 text-right">ITL p50</th>
+              <th className="px-2 py-1 text-right">Latency p50 / p95 / p99</th>
+              <th className="px-2 py-1 text-right">Failed</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y">
+            {report.results.map((step) => (
+              <tr key={step.concurrency}>
+                <td className="px-2 py-1">{step.concurrency}</td>
+                <td className="px-2 py-1 text-right">{step.outputTokensPerSecond.toLocaleString()}</td>
+                <td className="px-2 py-1 text-right">{step.requestsPerSecond}</td>
+                <td className="px-2 py-1 text-right">{step.ttftMs.p50.toFixed(0)} / {step.ttftMs.p99.toFixed(0)} ms</td>
+                <td className="px-2 py-1 text-right">{step.itlMs.p50.toFixed(1)} ms</td>
+                <td className="px-2 py-1 text-right">
+                  {step.latencyMs.p50.toFixed(0)} / {step.latencyMs.p95.toFixed(0)} / {step.latencyMs.p99.toFixed(0)} ms
+                </td>
+                <td className="px-2 py-1 text-right">{step.failedRequests}</td>
+              </tr>
+            ))}
+            {report.estimatedPerformance && (
+              <tr className="text-muted-foreground">
+                <td className="px-2 py-1">Estimate</td>
+                <td className="px-2 py-1 text-right">{report.estimatedPerformance.throughputTokensPerSec.toLocaleString()}</td>
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1" />
+                <td className="px-2 py-1 text-right">
+                  {report.estimatedPerformance.latencyP50Ms.toFixed(0)} / — / {report.estimatedPerformance.latencyP99Ms.toFixed(0)} ms
+                </td>
+                <td className="px-2 py-1" />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export function BenchmarkPanel({ deploymentName, namespace, isRunning }: BenchmarkPanelProps) {
+  const { toast } = useToast();
+  const { data: reports, isLoading, error } = useBenchmarks(deploymentName, namespace);
+  const startBenchmark = useStartBenchmark();
+  const deleteBenchmark = useDeleteBenchmark();
+
+  const [concurrency, setConcurrency] = useState('1, 4, 16');
+  const [inputTokens, setInputTokens] = useState('512');
+  const [outputTokens, setOutputTokens] = useState('128');
+  const [requestsPerStep, setRequestsPerStep] = useState('');
+  const [durationSeconds, setDurationSeconds] = useState('');
+  const [gpuType, setGpuType] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+
+  const levels = parseConcurrency(concurrency);
+  const hasRunning = reports?.some((r) => r.status === 'running') ?? false;
+
+  // Until the user picks, compare the newest report that has results
+  const compared = (reports || []).filter((r) =>
+    selectedIds ? selectedIds.includes(r.id) : r.id === reports?.find((x) => x.results.length > 0)?.id
+  );
+
+  const toggleSelected = (id: string) => {
+    const current = selectedIds ?? compared.map((r) => r.id);
+    setSelectedIds(current.includes(id) ? current.filter((x) => x !== id) : [...current, id]);
+  };
+
+  const handleStart = async () => {
+    if (!levels) return;
+
+    try {
+      const report = await startBenchmark.mutateAsync({
+        name: deploymentName,
+        namespace,
+        config: {
+          concurrency: levels,
+          inputTokens: optionalNumber(inputTokens),
+          outputTokens: optionalNumber(outputTokens),
+          requestsPerStep: optionalNumber(requestsPerStep),
+          durationSeconds: optionalNumber(durationSeconds),
+          gpuType: gpuType.trim() || undefined,
+        },
+      });
+      setSelectedIds([report.id]);
+      toast({
+        title: 'Benchmark Started',
+        description: `Running ${levels.length} step${levels.length > 1 ? 's' : ''} against ${deploymentName}`,
+        variant: 'success',
+      });
+    } catch (err) {
+      toast({
+        title: 'Benchmark Failed',
+        description: err instanceof Error ? err.message : 'Failed to start benchmark',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteBenchmark.mutateAsync({ name: deploymentName, namespace, id });
+      setSelectedIds((ids) => ids?.filter((x) => x !== id) ?? null);
+    } catch (err) {
+      toast({
+        title: 'Delete Failed',
+        description: err instanceof Error ? err.message : 'Failed to delete benchmark',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          <CardTitle>Benchmarks</CardTitle>
+        </div>
+        <CardDescription>
+          Load the model with synthetic requests at increasing concurrency and record the achieved latency and throughput
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-concurrency">Concurrency levels</Label>
+            <Input
+              id="benchmark-concurrency"
+              value={concurrency}
+              onChange={(e) => setConcurrency(e.target.value)}
+              placeholder="1, 4, 16"
+            />
+            {!levels && <p className="text-xs text-destructive">Comma-separated numbers from 1 to 256</p>}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-input">Input tokens</Label>
+            <Input id="benchmark-input" type="number" min={1} value={inputTokens} onChange={(e) => setInputTokens(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-output">Output tokens</Label>
+            <Input id="benchmark-output" type="number" min={1} value={outputTokens} onChange={(e) => setOutputTokens(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-requests">Requests per step</Label>
+            <Input
+              id="benchmark-requests"
+              type="number"
+              min={1}
+              value={requestsPerStep}
+              onChange={(e) => setRequestsPerStep(e.target.value)}
+              placeholder="4 × concurrency"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-duration">Max seconds per step</Label>
+            <Input
+              id="benchmark-duration"
+              type="number"
+              min={1}
+              value={durationSeconds}
+              onChange={(e) => setDurationSeconds(e.target.value)}
+              placeholder="No limit"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="benchmark-gpu">GPU type for estimate</Label>
+            <Input
+              id="benchmark-gpu"
+              value={gpuType}
+              onChange={(e) => setGpuType(e.target.value)}
+              placeholder="e.g. H100 (optional)"
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <Button onClick={handleStart} disabled={!isRunning || !levels || hasRunning || startBenchmark.isPending}>
+            {startBenchmark.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Play className="mr-2 h-4 w-4" />
+            )}
+            Run Benchmark
+          </Button>
+          {!isRunning && (
+            <span className="text-sm text-muted-foreground">The deployment must be running to benchmark it</span>
+          )}
+          {hasRunning && (
+            <span className="text-sm text-muted-foreground">A benchmark is in progress</span>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load benchmarks'}
+          </p>
+        ) : !reports?.length ? (
+          <p className="text-sm text-muted-foreground">No benchmarks have been run yet</p>
+        ) : (
+          <>
+            <div className="rounded-md border divide-y">
+              {reports.map((report) => (
+                <div key={report.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                  <label className="flex items-center gap-3 min-w-0 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={compared.some((r) => r.id === report.id)}
+                      onChange={() => toggleSelected(report.id)}
+                      disabled={report.results.length === 0}
+                      aria-label={`Compare ${report.id}`}
+                    />
+                    <span className="font-mono text-sm">{report.id}</span>
+                    <Badge variant={STATUS_VARIANTS[report.status]}>
+                      {report.status === 'running' && <Loader2 className="mr-1 h-3 w-3 animate-spin" />}
+                      {report.status}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground truncate" title={report.error}>
+                      {report.error || `concurrency ${report.config.concurrency.join(', ')}`}
+                    </span>
+                  </label>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-muted-foreground">{formatRelativeTime(report.startedAt)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(report.id)}
+                      disabled={deleteBenchmark.isPending}
+                      aria-label={`Delete ${report.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {compared.length > 0 && (
+              <div className="space-y-4">
+                <ThroughputChart reports={compared} />
+                {compared.map((report, i) => (
+                  <ResultsTable key={report.id} report={report} color={SERIES_COLORS[i % SERIES_COLORS.length]} />
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useRef, useEffect, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useChatCompletion } from '@/hooks/usePlayground';
+import type { ChatMessage } from '@/lib/api';
+import { Loader2, Send, Square, Trash2, Timer, Gauge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ChatPlaygroundProps {
+  deploymentName: string;
+  namespace: string;
+  /** The model server only answers once the deployment is Running */
+  isRunning: boolean;
+}
+
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 512;
+
+const textareaClassName =
+  'flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-y';
+
+export function ChatPlayground({ deploymentName, namespace, isRunning }: ChatPlaygroundProps) {
+  const [systemPrompt, setSystemPrompt] = useState('');
+  const [temperature, setTemperature] = useState(DEFAULT_TEMPERATURE);
+  const [maxTokens, setMaxTokens] = useState(DEFAULT_MAX_TOKENS);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [input, setInput] = useState('');
+  const conversationRef = useRef<HTMLDivElement>(null);
+
+  const { send, stop, reset, content, isStreaming, error, stats } = useChatCompletion(deploymentName, namespace);
+
+  // Keep the latest tokens in view
+  useEffect(() => {
+    if (conversationRef.current) {
+      conversationRef.current.scrollTop = conversationRef.current.scrollHeight;
+    }
+  }, [messages, content]);
+
+  const handleSend = async () => {
+    const prompt = input.trim();
+    if (!prompt || isStreaming) return;
+
+    const conversation: ChatMessage[] = [...messages, { role: 'user', content: prompt }];
+    setMessages(conversation);
+    setInput('');
+
+    const reply = await send({
+      messages: systemPrompt.trim()
+        ? [{ role: 'system', content: systemPrompt.trim() }, ...conversation]
+        : conversation,
+      temperature,
+      max_tokens: maxTokens,
+    });
+
+    if (reply) {
+      setMessages([...conversation, { role: 'assistant', content: reply }]);
+    }
+  };
+
+  const handleClear = () => {
+    reset();
+    setMessages([]);
+  };
+
+  if (!isRunning) {
+    return (
+      <p className="text-sm text-muted-foreground py-4">
+        The playground is available once the deployment is running.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Generation settings */}
+      <div className="grid gap-4 sm:grid-cols-[1fr_auto_auto]">
+        <div className="space-y-1">
+          <Label htmlFor="playground-system-prompt">System prompt</Label>
+          <textarea
+            id="playground-system-prompt"
+            className={cn(textareaClassName, 'min-h-[40px]')}
+            rows={1}
+            placeholder="You are a helpful assistant."
+            value={systemPrompt}
+            onChange={(e) => setSystemPrompt(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="playground-temperature">Temperature</Label>
+          <Input
+            id="playground-temperature"
+            type="number"
+            className="w-[110px]"
+            min={0}
+            max={2}
+            step={0.1}
+            value={temperature}
+            onChange={(e) => setTemperature(Math.min(2, Math.max(0, parseFloat(e.target.value) || 0)))}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="playground-max-tokens">Max tokens</Label>
+          <Input
+            id="playground-max-tokens"
+            type="number"
+            className="w-[110px]"
+            min={1}
+            step={1}
+            value={maxTokens}
+            onChange={(e) => setMaxTokens(Math.max(1, parseInt(e.target.value, 10) || 1))}
+          />
+        </div>
+      </div>
+
+      {/* Conversation */}
+      <div
+        ref={conversationRef}
+        className="rounded-lg border bg-muted/30 p-4 space-y-3 overflow-auto max-h-[400px] min-h-[160px]"
+      >
+        {messages.length === 0 && !isStreaming && (
+          <p className="text-sm text-muted-foreground">Send a message to try the model.</p>
+        )}
+        {messages.map((message, index) => (
+          <ChatBubble key={index} role={message.role} content={message.content} />
+        ))}
+        {isStreaming && (
+          <ChatBubble
+            role="assistant"
+            content={content}
+            placeholder={<Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+          />
+        )}
+      </div>
+
+      {error && (
+        <p className="text-sm text-destructive">{error.message}</p>
+      )}
+
+      {/* Prompt */}
+      <div className="flex gap-2 items-end">
+        <textarea
+          className={cn(textareaClassName, 'min-h-[60px]')}
+          rows={2}
+          placeholder="Type a message (Enter to send, Shift+Enter for a new line)"
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+        />
+        <div className="flex flex-col gap-2">
+          {isStreaming ? (
+            <Button variant="outline" onClick={stop} title="Stop generating">
+              <Square className="h-4 w-4" />
+            </Button>
+          ) : (
+            <Button onClick={handleSend} disabled={!input.trim()} title="Send">
+              <Send className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={handleClear}
+            disabled={messages.length === 0 && !isStreaming}
+            title="Clear conversation"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Response timing */}
+      {stats && (
+        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Timer className="h-3 w-3" />
+            TTFT: {stats.ttftMs !== null ? `${Math.round(stats.ttftMs)} ms` : '—'}
+          </span>
+          <span className="flex items-center gap-1">
+            <Gauge className="h-3 w-3" />
+            {stats.tokensPerSecond !== null ? `${stats.tokensPerSecond.toFixed(1)} tokens/s` : '— tokens/s'}
+          </span>
+          <span>
+            {stats.completionTokens} tokens{!stats.usage && ' (estimated)'} in {(stats.totalMs / 1000).toFixed(2)}s
+          </span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function ChatBubble({
+  role,
+  content,
+  placeholder,
+}: {
+  role: ChatMessage['role'];
+  content: string;
+  placeholder?: ReactNode;
+}) {
+  const isUser = role === 'user';
+  return (
+    <div className={cn('flex', isUser ? 'justify-end' : 'justify-start')}>
+      <div
+        className={cn(
+          'rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words max-w-[85%]',
+          isUser ? 'bg-primary text-primary-foreground' : 'bg-background border'
+        )}
+      >
+        {content || placeholder}
+      </div>
+    </div>
+  );
+}
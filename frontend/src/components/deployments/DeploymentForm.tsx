@@ -14,17 +14,21 @@ import { useHuggingFaceStatus, useGgufFiles } from '@/hooks/useHuggingFace'
 import { usePremadeModels } from '@/hooks/useAikit'
 import { useToast } from '@/hooks/useToast'
 import { generateDeploymentName, cn } from '@/lib/utils'
-import { type Model, type DetailedClusterCapacity, type AutoscalerDetectionResult, type RuntimeStatus, type PremadeModel, type AIConfiguratorResult, aikitApi, type Engine } from '@/lib/api'
+import { type Model, type DetailedClusterCapacity, type AutoscalerDetectionResult, type RuntimeStatus, type ProviderInfo, type ProviderCapabilities, type PremadeModel, type AIConfiguratorResult, aikitApi, type Engine } from '@/lib/api'
 import { ChevronDown, AlertCircle, Rocket, CheckCircle2, Sparkles, AlertTriangle, Server, Cpu, Box, Loader2 } from 'lucide-react'
 import { CapacityWarning } from './CapacityWarning'
 import { AIConfiguratorPanel } from './AIConfiguratorPanel'
 import { ManifestViewer } from './ManifestViewer'
 import { CostEstimate } from './CostEstimate'
+import { NodePlacementFields } from './NodePlacementFields'
+import { ModelCacheFields } from './ModelCacheFields'
+import { AdapterFields } from './AdapterFields'
 import { calculateGpuRecommendation, type GpuRecommendation } from '@/lib/gpu-recommendations'
 
 // Reusable GPU per Replica field component
 interface GpuPerReplicaFieldProps {
   id: string
+  label?: string
   value: number
   onChange: (value: number) => void
   maxGpus?: number
@@ -32,14 +36,14 @@ interface GpuPerReplicaFieldProps {
   aiConfigRecommended?: number | null
 }
 
-function GpuPerReplicaField({ id, value, onChange, maxGpus = 8, recommendation, aiConfigRecommended }: GpuPerReplicaFieldProps) {
+function GpuPerReplicaField({ id, label = 'GPUs per Replica', value, onChange, maxGpus = 8, recommendation, aiConfigRecommended }: GpuPerReplicaFieldProps) {
   const isAiOptimized = aiConfigRecommended != null && value === aiConfigRecommended
   const isRecommended = value === recommendation.recommendedGpus
 
   return (
     <div className="space-y-2">
       <Label htmlFor={id} className="flex items-center gap-2">
-        GPUs per Replica
+        {label}
         {isAiOptimized ? (
           <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 border border-blue-200 dark:border-blue-800">
             <Sparkles className="h-3 w-3" />
@@ -77,54 +81,35 @@ interface DeploymentFormProps {
   detailedCapacity?: DetailedClusterCapacity
   autoscaler?: AutoscalerDetectionResult
   runtimes?: RuntimeStatus[]
+  providers?: ProviderInfo[]
 }
 
-// Subset of Engine type for traditional GPU inference engines (excludes llamacpp which is KAITO-only)
+// Subset of Engine type for traditional GPU inference engines (excludes llamacpp, which providers serving GGUF files pick themselves)
 type TraditionalEngine = 'vllm' | 'sglang' | 'trtllm'
 type RouterMode = 'none' | 'kv' | 'round-robin'
 type DeploymentMode = 'aggregated' | 'disaggregated'
-type RuntimeId = 'dynamo' | 'kuberay' | 'kaito'
-type KaitoComputeType = 'cpu' | 'gpu'
+type ComputeType = 'cpu' | 'gpu'
 type GgufRunMode = 'build' | 'direct'
 
-// Runtime metadata for display
-const RUNTIME_INFO: Record<RuntimeId, { name: string; description: string; defaultNamespace: string }> = {
-  dynamo: {
-    name: 'NVIDIA Dynamo',
-    description: 'High-performance inference with KV-cache routing and disaggregated serving',
-    defaultNamespace: 'dynamo-system',
-  },
-  kuberay: {
-    name: 'KubeRay',
-    description: 'Ray-based serving with autoscaling and distributed inference',
-    defaultNamespace: 'kuberay-system',
-  },
-  kaito: {
-    name: 'KAITO',
-    description: 'Flexible inference with GGUF (llama.cpp) and vLLM support',
-    defaultNamespace: 'kaito-workspace',
-  },
+const ROUTER_MODE_LABELS: Record<RouterMode, string> = {
+  none: 'None',
+  kv: 'KV-Aware',
+  'round-robin': 'Round Robin',
 }
 
-// Engine support by runtime (only traditional GPU engines, not llamacpp)
-const RUNTIME_ENGINES: Record<RuntimeId, TraditionalEngine[]> = {
-  dynamo: ['vllm', 'sglang', 'trtllm'],
-  kuberay: ['vllm'], // KubeRay only supports vLLM currently
-  kaito: [], // KAITO uses llama.cpp, not traditional engines
+// Engines both the provider and the model support
+function getCompatibleEngines(capabilities: ProviderCapabilities | undefined, modelEngines: Engine[]): Engine[] {
+  return modelEngines.filter(e => capabilities?.engines.includes(e))
 }
 
-// Check if a runtime is compatible with a model based on engine support
-function isRuntimeCompatible(runtimeId: RuntimeId, modelEngines: Engine[]): boolean {
-  // KAITO supports llamacpp (GGUF) AND vllm models
-  if (runtimeId === 'kaito') {
-    return modelEngines.includes('llamacpp') || modelEngines.includes('vllm');
-  }
-  // Other models need at least one matching engine with the runtime
-  const runtimeEngines = RUNTIME_ENGINES[runtimeId];
-  return modelEngines.some(e => runtimeEngines.includes(e as TraditionalEngine));
+// Traditional GPU engines the selected provider can run this model with
+function getTraditionalEngines(capabilities: ProviderCapabilities | undefined, modelEngines: Engine[]): TraditionalEngine[] {
+  return getCompatibleEngines(capabilities, modelEngines).filter(
+    (e): e is TraditionalEngine => e !== 'llamacpp'
+  )
 }
 
-export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }: DeploymentFormProps) {
+export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes, providers }: DeploymentFormProps) {
   const navigate = useNavigate()
   const { toast } = useToast()
   const createDeployment = useCreateDeployment()
@@ -137,33 +122,24 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
   const isGatedModel = model.gated === true
   const needsHfAuth = isGatedModel && !hfStatus?.configured
 
+  const getProvider = (id: string) => providers?.find(p => p.id === id)
+  const isRuntimeCompatible = (id: string) =>
+    getCompatibleEngines(getProvider(id)?.capabilities, model.supportedEngines).length > 0
+
   // Determine default runtime: prefer compatible and installed runtime
-  const getDefaultRuntime = (): RuntimeId => {
-    if (!runtimes || runtimes.length === 0) {
-      // Fallback based on model engines
-      return model.supportedEngines.includes('llamacpp') ? 'kaito' : 'dynamo';
-    }
+  const getDefaultRuntime = (): string => {
+    const compatibleProviders = (providers || []).filter(p => isRuntimeCompatible(p.id));
 
     // Find first compatible and installed runtime
-    const compatibleRuntimes: RuntimeId[] = ['dynamo', 'kuberay', 'kaito'];
-    for (const rtId of compatibleRuntimes) {
-      const rt = runtimes.find(r => r.id === rtId);
-      if (rt?.installed && isRuntimeCompatible(rtId, model.supportedEngines)) {
-        return rtId;
-      }
-    }
+    const installed = compatibleProviders.find(p => runtimes?.find(r => r.id === p.id)?.installed);
 
     // If no compatible installed runtime, return first compatible one
-    for (const rtId of compatibleRuntimes) {
-      if (isRuntimeCompatible(rtId, model.supportedEngines)) {
-        return rtId;
-      }
-    }
-
-    return 'dynamo';
+    return (installed || compatibleProviders[0])?.id || 'dynamo';
   }
 
-  const [selectedRuntime, setSelectedRuntime] = useState<RuntimeId>(getDefaultRuntime)
+  const [selectedRuntime, setSelectedRuntime] = useState<string>(getDefaultRuntime)
+  const selectedProvider = getProvider(selectedRuntime)
+  const capabilities = selectedProvider?.capabilities
   const selectedRuntimeStatus = runtimes?.find(r => r.id === selectedRuntime)
   const isRuntimeInstalled = selectedRuntimeStatus?.installed ?? false
 
@@ -180,12 +156,11 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
     gpuPerReplica?: number
   } | null>(null)
 
-  // KAITO-specific state
-  const [kaitoComputeType, setKaitoComputeType] = useState<KaitoComputeType>('cpu')
+  // Model source state, for providers serving premade images and GGUF files
+  const [computeType, setComputeType] = useState<ComputeType>('cpu')
   const [selectedPremadeModel, setSelectedPremadeModel] = useState<PremadeModel | null>(null)
   const [ggufFile, setGgufFile] = useState<string>('')
   const [ggufRunMode, setGgufRunMode] = useState<GgufRunMode>('direct')
-  const [maxModelLen, setMaxModelLen] = useState<number | undefined>(undefined)
 
   // Check if this is a HuggingFace GGUF model (not a premade model)
   // GGUF models have only llamacpp as supported engine and come from HuggingFace
@@ -193,15 +168,22 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                                   model.supportedEngines[0] === 'llamacpp' &&
                                   !model.id.startsWith('kaito/');
 
-  // Check if this is a vLLM-compatible model for KAITO
+  // Check if this is a vLLM-compatible model
   // vLLM models have 'vllm' in supported engines but NOT 'llamacpp'
   const isVllmModel = model.supportedEngines.includes('vllm') &&
                       !model.supportedEngines.includes('llamacpp');
 
-  // Fetch GGUF files from HuggingFace repo when it's a GGUF model and KAITO is selected
+  // Providers serving GGUF files deploy from a model source: premade images and
+  // GGUF files run through llama.cpp, vLLM models through vLLM
+  const choosesModelSource = capabilities?.gguf ?? false
+  const servesLlamaCpp = choosesModelSource && !isVllmModel
+  // llama.cpp can run on CPU nodes when the provider supports them
+  const runsOnCpu = servesLlamaCpp && (capabilities?.cpu ?? false) && computeType === 'cpu'
+
+  // Fetch GGUF files from HuggingFace repo when it's a GGUF model the provider can serve
   const { data: ggufFilesData, isLoading: ggufFilesLoading } = useGgufFiles(
     model.id,
-    isHuggingFaceGgufModel && selectedRuntime === 'kaito'
+    isHuggingFaceGgufModel && choosesModelSource
   );
   const ggufFiles = ggufFilesData?.files || [];
 
@@ -220,24 +202,18 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
   }, [ggufFiles, ggufFile]);
 
   // Get supported engines for the selected runtime, filtered by model support
-  const getAvailableEngines = (): TraditionalEngine[] => {
-    const runtimeEngines = RUNTIME_ENGINES[selectedRuntime]
-    // Filter model engines to only those supported by the runtime (excluding llamacpp)
-    return model.supportedEngines.filter(
-      (e): e is TraditionalEngine => runtimeEngines.includes(e as TraditionalEngine)
-    )
-  }
-  const availableEngines = getAvailableEngines()
+  const availableEngines = getTraditionalEngines(capabilities, model.supportedEngines)
 
   const [showAdvanced, setShowAdvanced] = useState(false)
+  const [showPlacement, setShowPlacement] = useState(false)
   const [config, setConfig] = useState<DeploymentConfig>({
     name: generateDeploymentName(model.id),
-    namespace: RUNTIME_INFO[getDefaultRuntime()].defaultNamespace,
+    namespace: getProvider(getDefaultRuntime())?.defaultNamespace || '',
     modelId: model.id,
     servedModelName: model.id,  // Use HuggingFace model ID as served model name
     engine: availableEngines[0] || 'vllm',
     mode: 'aggregated',
-    provider: getDefaultRuntime(),
+    provider: getDefaultRuntime() as DeploymentConfig['provider'],
     routerMode: 'none',
     replicas: 1,
     hfTokenSecret: import.meta.env.VITE_DEFAULT_HF_SECRET || 'hf-token-secret',
@@ -249,12 +225,20 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
     decodeReplicas: 1,
     prefillGpus: 1,
     decodeGpus: 1,
+    // Multi-node defaults
+    nodesPerReplica: getProvider(getDefaultRuntime())?.capabilities.multiNode ? 2 : undefined,
     // GPU resources for aggregated mode
     resources: {
       gpu: 0, // Will be set from recommendation
     },
   })
 
+  const aggregatedOnly = !capabilities?.modes.includes('disaggregated')
+  const routerModes = capabilities?.routerModes || ['none']
+
+  const servedEngine: Engine = servesLlamaCpp ? 'llamacpp' : config.engine
+  const supportsAdapters = capabilities?.adapterEngines.includes(servedEngine) ?? false
+
   // Calculate GPU recommendation based on model characteristics
   const gpuRecommendation = calculateGpuRecommendation(model, detailedCapacity)
 
@@ -290,39 +274,42 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
   }, [premadeModels, model.id, selectedPremadeModel])
 
   // Handle runtime change - update namespace and engine
-  const handleRuntimeChange = (runtime: RuntimeId) => {
+  const handleRuntimeChange = (runtime: string) => {
     setSelectedRuntime(runtime)
-    const newAvailableEngines = model.supportedEngines.filter(
-      (e): e is TraditionalEngine => RUNTIME_ENGINES[runtime].includes(e as TraditionalEngine)
-    )
+    const provider = getProvider(runtime)
+    const newCapabilities = provider?.capabilities
+    const newAvailableEngines = getTraditionalEngines(newCapabilities, model.supportedEngines)
     const currentEngineSupported = newAvailableEngines.includes(config.engine as TraditionalEngine)
+    const multiNode = newCapabilities?.multiNode ?? false
 
     setConfig(prev => ({
       ...prev,
-      provider: runtime,
-      namespace: RUNTIME_INFO[runtime].defaultNamespace,
+      provider: runtime as DeploymentConfig['provider'],
+      namespace: provider?.defaultNamespace || prev.namespace,
       // Reset engine if current one isn't supported by new runtime
       engine: currentEngineSupported ? prev.engine : (newAvailableEngines[0] || 'vllm'),
-      // Reset router mode if switching away from Dynamo
-      routerMode: runtime === 'dynamo' ? prev.routerMode : 'none',
-      // Reset to aggregated mode if switching to KAITO (disaggregated not supported)
-      mode: runtime === 'kaito' ? 'aggregated' : prev.mode,
+      // Reset router mode if the new runtime cannot route that way
+      routerMode: newCapabilities?.routerModes.includes(prev.routerMode) ? prev.routerMode : 'none',
+      // Reset to aggregated mode if the new runtime cannot disaggregate
+      mode: newCapabilities?.modes.includes(prev.mode) ? prev.mode : 'aggregated',
+      nodesPerReplica: multiNode ? (prev.nodesPerReplica || 2) : undefined,
+      pipelineParallel: multiNode ? prev.pipelineParallel : undefined,
+      minReplicas: newCapabilities?.autoscaling ? prev.minReplicas : undefined,
+      maxReplicas: newCapabilities?.autoscaling ? prev.maxReplicas : undefined,
     }))
 
-    // Reset KAITO-specific state when switching away from KAITO
-    if (runtime !== 'kaito') {
+    // Reset model source state when the new runtime does not deploy from one
+    if (!newCapabilities?.gguf) {
       setSelectedPremadeModel(null)
-      setKaitoComputeType('cpu')
+      setComputeType('cpu')
     }
 
-    // Reset AI Configurator state when switching away from Dynamo
+    // Reset AI Configurator state, whose recommendations were made for the previous runtime
     // This ensures optimization badges are cleared when changing providers
-    if (runtime !== 'dynamo') {
-      setAiConfigSupportedBackends(null)
-      setAiConfigRecommendedBackend(null)
-      setAiConfigRecommendedMode(null)
-      setAiConfigRecommendedValues(null)
-    }
+    setAiConfigSupportedBackends(null)
+    setAiConfigRecommendedBackend(null)
+    setAiConfigRecommendedMode(null)
+    setAiConfigRecommendedValues(null)
   }
 
   // Handle premade model selection for KAITO (also used in auto-selection useEffect above)
@@ -354,97 +341,95 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
     return () => document.removeEventListener('keydown', handleKeyDown)
   }, [createDeployment.isProcessing, needsHfAuth])
 
+  // Add the model source fields of providers that deploy from one, for the
+  // manifest preview and for deploying
+  const withModelSource = useCallback((base: DeploymentConfig): DeploymentConfig => {
+    if (!choosesModelSource) {
+      return base
+    }
+    if (isHuggingFaceGgufModel) {
+      return {
+        ...base,
+        modelSource: 'huggingface',
+        modelId: model.id,
+        ggufFile: ggufFile,
+        ggufRunMode: ggufRunMode,
+        computeType: runsOnCpu ? 'cpu' : 'gpu',
+      }
+    }
+    if (isVllmModel) {
+      // vLLM always requires a GPU, and takes the context length as its max model length
+      const { contextLength, ...rest } = base
+      return {
+        ...rest,
+        modelSource: 'vllm',
+        modelId: model.id,
+        computeType: 'gpu',
+        resources: { gpu: base.resources?.gpu || 1 },
+        ...(contextLength && { maxModelLen: contextLength }),
+      }
+    }
+    return {
+      ...base,
+      modelSource: 'premade',
+      computeType: runsOnCpu ? 'cpu' : 'gpu',
+      premadeModel: selectedPremadeModel?.id,
+      // Premade images carry their weights
+      modelCache: undefined,
+    }
+  }, [choosesModelSource, isHuggingFaceGgufModel, isVllmModel, model.id, ggufFile, ggufRunMode, runsOnCpu, selectedPremadeModel])
+
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault()
 
     try {
-      // Build the deployment config, adding KAITO-specific fields if needed
-      let deployConfig = { ...config }
-
-      if (selectedRuntime === 'kaito') {
-        if (isHuggingFaceGgufModel) {
-          if (ggufRunMode === 'direct') {
-            // Direct run mode - no Docker/build required
-            // The runner image will download the model at runtime using huggingface:// URI
-            deployConfig = {
-              ...deployConfig,
-              modelSource: 'huggingface',
-              modelId: model.id,
-              ggufFile: ggufFile,
-              ggufRunMode: 'direct',
-              computeType: kaitoComputeType,
-            }
-          } else {
-            // Build mode - requires Docker and building an image
-
-            // Check if build infrastructure (Docker) is available
-            toast({
-              title: 'Checking Build Infrastructure',
-              description: 'Verifying Docker and build tools are available...',
-            })
-
-            const infraStatus = await aikitApi.getInfrastructureStatus()
-            if (!infraStatus.ready) {
-              const errorMsg = infraStatus.error ||
-                (!infraStatus.builder.running ? 'Docker is not running. Please start Docker and try again.' :
-                  !infraStatus.registry.ready ? 'Container registry is not available.' :
-                 'Build infrastructure is not ready.')
-              throw new Error(errorMsg)
-            }
-
-            // Build the image first
-            toast({
-              title: 'Building Image',
-              description: `Building GGUF model image for ${model.id}. This may take a few minutes...`,
-            })
-
-            const buildResult = await aikitApi.build({
-              modelSource: 'huggingface',
-              modelId: model.id,
-              ggufFile: ggufFile,
-            })
-
-            if (!buildResult.success || !buildResult.imageRef) {
-              throw new Error(buildResult.error || 'Failed to build model image')
-            }
-
-            toast({
-              title: 'Image Built Successfully',
-              description: `Image: ${buildResult.imageRef}`,
-              variant: 'success',
-            })
-
-            // Use the built image in the deployment config
-            deployConfig = {
-              ...deployConfig,
-              modelSource: 'huggingface',
-              modelId: model.id,
-              ggufFile: ggufFile,
-              ggufRunMode: 'build',
-              imageRef: buildResult.imageRef,
-              computeType: kaitoComputeType,
-            }
-          }
-        } else if (isVllmModel) {
-          // vLLM model via KAITO - GPU always required
-          const gpuCount = config.resources?.gpu || 1;
-          deployConfig = {
-            ...deployConfig,
-            modelSource: 'vllm',
-            modelId: model.id,
-            computeType: 'gpu',  // vLLM always requires GPU
-            resources: { gpu: gpuCount },
-            ...(maxModelLen && { maxModelLen }),
-            ...(model.gated && config.hfTokenSecret && { hfTokenSecret: config.hfTokenSecret }),
-          }
-        } else {
-          // Premade model
-          deployConfig = {
-            ...deployConfig,
-            modelSource: 'premade',
-            computeType: kaitoComputeType,
-            premadeModel: selectedPremadeModel?.id,
-          }
+      let deployConfig = withModelSource({ ...config, adapters: supportsAdapters ? config.adapters : undefined })
+
+      if (choosesModelSource && isHuggingFaceGgufModel && ggufRunMode === 'build') {
+        // Build mode - requires Docker and building an image
+
+        // Check if build infrastructure (Docker) is available
+        toast({
+          title: 'Checking Build Infrastructure',
+          description: 'Verifying Docker and build tools are available...',
+        })
+
+        const infraStatus = await aikitApi.getInfrastructureStatus()
+        if (!infraStatus.ready) {
+          const errorMsg = infraStatus.error ||
+            (!infraStatus.builder.running ? 'Docker is not running. Please start Docker and try again.' :
+              !infraStatus.registry.ready ? 'Container registry is not available.' :
+             'Build infrastructure is not ready.')
+          throw new Error(errorMsg)
+        }
+
+        // Build the image first
+        toast({
+          title: 'Building Image',
+          description: `Building GGUF model image for ${model.id}. This may take a few minutes...`,
+        })
+
+        const buildResult = await aikitApi.build({
+          modelSource: 'huggingface',
+          modelId: model.id,
+          ggufFile: ggufFile,
+        })
+
+        if (!buildResult.success || !buildResult.imageRef) {
+          throw new Error(buildResult.error || 'Failed to build model image')
+        }
+
+        toast({
+          title: 'Image Built Successfully',
+          description: `Image: ${buildResult.imageRef}`,
+          variant: 'success',
+        })
+
+        // Use the built image in the deployment config
+        deployConfig = {
+          ...deployConfig,
+          imageRef: buildResult.imageRef,
+          modelCache: undefined,
         }
       }
 
@@ -470,7 +455,7 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         variant: 'destructive',
       })
     }
-  }, [config, createDeployment, navigate, toast, triggerConfetti, selectedRuntime, kaitoComputeType, selectedPremadeModel, isHuggingFaceGgufModel, isVllmModel, model.id, model.gated, ggufFile, ggufRunMode, maxModelLen])
+  }, [config, createDeployment, navigate, toast, triggerConfetti, withModelSource, choosesModelSource, isHuggingFaceGgufModel, model.id, ggufFile, ggufRunMode, supportsAdapters])
 
   const updateConfig = <K extends keyof DeploymentConfig>(
     key: K,
@@ -489,7 +474,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       'sglang': 'sglang',
       'trtllm': 'trtllm',
     }
-    const recommendedEngine = result.backend ? backendToEngine[result.backend] : undefined
+    const backendEngine = result.backend ? backendToEngine[result.backend] : undefined
+    const recommendedEngine = backendEngine && capabilities?.engines.includes(backendEngine) ? backendEngine : undefined
 
     // Store supported backends info for engine selection UI
     if (result.supportedBackends) {
@@ -544,7 +530,7 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       description: `AI Configurator recommendations applied. TP=${cfg.tensorParallelDegree}, Context=${cfg.maxModelLen}${engineInfo}`,
       variant: 'success',
     })
-  }, [toast])
+  }, [toast, capabilities])
 
   // Calculate total GPUs needed for the deployment
   const calculateSelectedGpus = (): number => {
@@ -555,9 +541,10 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       return prefillTotal + decodeTotal;
     }
     // For aggregated, multiply GPUs per replica by number of replicas
+    // (a multi-node replica has that many GPUs on each of its nodes)
     const gpusPerReplica = config.resources?.gpu || gpuRecommendation.recommendedGpus || 1;
     const replicas = config.replicas || 1;
-    return gpusPerReplica * replicas;
+    return gpusPerReplica * replicas * (config.nodesPerReplica || 1);
   }
 
   const selectedGpus = calculateSelectedGpus()
@@ -567,20 +554,23 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
     ? Math.max(config.prefillGpus || 1, config.decodeGpus || 1)
     : (config.resources?.gpu || gpuRecommendation.recommendedGpus || 1);
 
-  // Check if KAITO configuration is valid
+  // Check if the model source is complete
   // For HuggingFace GGUF models, we need a ggufFile for both direct and build modes
   // For vLLM models, we need at least 1 GPU
   // For premade, we need a selected model
-  const isKaitoConfigValid = selectedRuntime !== 'kaito' ||
+  const isModelSourceValid = !choosesModelSource ||
     (isHuggingFaceGgufModel
       ? ggufFile.endsWith('.gguf')
       : isVllmModel
         ? (config.resources?.gpu || 0) >= 1
         : selectedPremadeModel !== null)
 
+  // Premade images and GGUF files are public; engines download gated weights with a HuggingFace token
+  const blockedOnHfAuth = needsHfAuth && !servesLlamaCpp
+
   // Status-aware button content
   const getButtonContent = () => {
-    if (needsHfAuth && selectedRuntime !== 'kaito') {
+    if (blockedOnHfAuth) {
       return 'HuggingFace Auth Required'
     }
 
@@ -588,15 +578,15 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       return 'Runtime Not Installed'
     }
 
-    if (selectedRuntime === 'kaito' && !isHuggingFaceGgufModel && !isVllmModel && !selectedPremadeModel) {
+    if (servesLlamaCpp && !isHuggingFaceGgufModel && !selectedPremadeModel) {
       return 'Select a Model'
     }
 
-    if (selectedRuntime === 'kaito' && isHuggingFaceGgufModel && !ggufFile.endsWith('.gguf')) {
+    if (choosesModelSource && isHuggingFaceGgufModel && !ggufFile.endsWith('.gguf')) {
       return 'Select GGUF File'
     }
 
-    if (selectedRuntime === 'kaito' && isVllmModel && (config.resources?.gpu || 0) < 1) {
+    if (choosesModelSource && isVllmModel && (config.resources?.gpu || 0) < 1) {
       return 'Configure GPUs'
     }
 
@@ -666,10 +656,10 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
           <CardContent>
             <div className="grid gap-4 sm:grid-cols-2">
               {runtimes.map((runtime) => {
-                const info = RUNTIME_INFO[runtime.id as RuntimeId]
+                const info = getProvider(runtime.id)
                 if (!info) return null
 
-                const isCompatible = isRuntimeCompatible(runtime.id as RuntimeId, model.supportedEngines)
+                const isCompatible = isRuntimeCompatible(runtime.id)
                 const isSelected = selectedRuntime === runtime.id
 
                 return (
@@ -680,13 +670,13 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                     tabIndex={isCompatible ? 0 : -1}
                     onClick={() => {
                       if (isCompatible) {
-                        handleRuntimeChange(runtime.id as RuntimeId)
+                        handleRuntimeChange(runtime.id)
                       }
                     }}
                     onKeyDown={(e) => {
                       if (isCompatible && (e.key === 'Enter' || e.key === ' ')) {
                         e.preventDefault()
-                        handleRuntimeChange(runtime.id as RuntimeId)
+                        handleRuntimeChange(runtime.id)
                       }
                     }}
                     className={cn(
@@ -763,8 +753,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         </Card>
       )}
 
-      {/* AI Configurator Panel - only show for Dynamo runtime */}
-      {selectedRuntime === 'dynamo' && (
+      {/* AI Configurator Panel - weighs aggregated against disaggregated serving */}
+      {!aggregatedOnly && (
         <AIConfiguratorPanel
           modelId={model.id}
           detailedCapacity={detailedCapacity}
@@ -807,7 +797,7 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                 id="namespace"
                 value={config.namespace}
                 onChange={(e) => updateConfig('namespace', e.target.value)}
-                placeholder={RUNTIME_INFO[selectedRuntime].defaultNamespace}
+                placeholder={selectedProvider?.defaultNamespace}
                 required
               />
             </div>
@@ -815,26 +805,16 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         </CardContent>
       </Card>
 
-      {/* Engine Selection - show for non-KAITO runtimes OR KAITO with vLLM models */}
-      {(selectedRuntime !== 'kaito' || isVllmModel) && (
+      {/* Engine Selection - llama.cpp models have no engine choice */}
+      {!servesLlamaCpp && (
       <Card>
         <CardHeader>
           <CardTitle>Inference Engine</CardTitle>
         </CardHeader>
         <CardContent>
-          {selectedRuntime === 'kaito' && isVllmModel ? (
-            // KAITO vLLM - only vLLM option
-            <RadioGroup value="vllm" className="flex gap-4">
-              <div className="flex items-center space-x-2">
-                <RadioGroupItem value="vllm" id="engine-vllm" />
-                <Label htmlFor="engine-vllm" className="cursor-pointer">
-                  vLLM
-                </Label>
-              </div>
-            </RadioGroup>
-          ) : availableEngines.length === 0 ? (
+          {availableEngines.length === 0 ? (
             <p className="text-sm text-muted-foreground">
-              No compatible engines available for this model with {RUNTIME_INFO[selectedRuntime].name}.
+              No compatible engines available for this model with {selectedProvider?.name}.
             </p>
           ) : (
             <div className="space-y-3">
@@ -897,22 +877,23 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       </Card>
       )}
 
-      {/* KAITO Model Configuration - only show for KAITO runtime with non-vLLM models */}
-      {selectedRuntime === 'kaito' && !isVllmModel && (
+      {/* Model Configuration - llama.cpp models served from a premade image or GGUF file */}
+      {servesLlamaCpp && (
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Box className="h-5 w-5" />
-              KAITO Model Configuration
+              Model Configuration
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            {/* Compute Type Selection - only for non-vLLM models (vLLM always requires GPU) */}
+            {/* Compute Type Selection - only for providers with CPU support (vLLM always requires GPU) */}
+            {capabilities?.cpu && (
             <div className="space-y-3">
               <Label>Compute Type</Label>
               <RadioGroup
-                value={kaitoComputeType}
-                onValueChange={(value) => setKaitoComputeType(value as KaitoComputeType)}
+                value={computeType}
+                onValueChange={(value) => setComputeType(value as ComputeType)}
                 className="flex gap-4"
               >
                 <div className="flex items-center space-x-2">
@@ -931,11 +912,12 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                 </div>
               </RadioGroup>
               <p className="text-xs text-muted-foreground">
-                  {kaitoComputeType === 'cpu'
+                  {computeType === 'cpu'
                   ? 'Run inference on CPU nodes - slower but no GPU required'
                   : 'Run inference on GPU nodes - faster performance'}
               </p>
             </div>
+            )}
 
             {/* Run Mode Selection - only for HuggingFace GGUF models */}
             {isHuggingFaceGgufModel && (
@@ -1023,8 +1005,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         </Card>
       )}
 
-      {/* Deployment Mode - show for non-KAITO runtimes OR KAITO with vLLM models */}
-      {(selectedRuntime !== 'kaito' || isVllmModel) && (
+      {/* Deployment Mode - llama.cpp models always run aggregated */}
+      {!servesLlamaCpp && (
       <Card>
         <CardHeader>
           <CardTitle>Deployment Mode</CardTitle>
@@ -1033,8 +1015,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
           <RadioGroup
             value={config.mode}
             onValueChange={(value) => {
-              // Only allow changing mode for non-KAITO runtimes
-              if (selectedRuntime !== 'kaito') {
+              // Only allow changing mode for runtimes that support disaggregation
+              if (!aggregatedOnly) {
                 updateConfig('mode', value as DeploymentMode)
               }
             }}
@@ -1057,17 +1039,17 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                 </p>
               </div>
             </div>
-            <div className={cn("flex items-start space-x-2", selectedRuntime === 'kaito' && "opacity-50")}>
+            <div className={cn("flex items-start space-x-2", aggregatedOnly && "opacity-50")}>
                   <RadioGroupItem
                     value="disaggregated"
                     id="mode-disaggregated"
                     className="mt-1"
-                disabled={selectedRuntime === 'kaito'}
+                disabled={aggregatedOnly}
               />
               <div>
                     <Label
                       htmlFor="mode-disaggregated"
-                  className={cn("font-medium flex items-center gap-2", selectedRuntime === 'kaito' ? "cursor-not-allowed" : "cursor-pointer")}
+                  className={cn("font-medium flex items-center gap-2", aggregatedOnly ? "cursor-not-allowed" : "cursor-pointer")}
                 >
                   Disaggregated (P/D)
                   {aiConfigRecommendedMode === 'disaggregated' && (
@@ -1078,8 +1060,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                   )}
                 </Label>
                 <p className="text-xs text-muted-foreground">
-                      {selectedRuntime === 'kaito'
-                    ? 'Separate prefill and decode workers - not supported by KAITO'
+                      {aggregatedOnly
+                    ? `Separate prefill and decode workers - not supported by ${selectedProvider?.name}`
                     : 'Separate prefill and decode workers for better resource utilization'}
                 </p>
               </div>
@@ -1089,15 +1071,15 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       </Card>
       )}
 
-      {/* Deployment Options - show for all runtimes with vLLM/GPU */}
-      {(selectedRuntime !== 'kaito' || isVllmModel || kaitoComputeType === 'gpu') && (
+      {/* Deployment Options - replicas and GPUs, unless running on CPU */}
+      {!runsOnCpu && (
       <Card>
         <CardHeader>
           <CardTitle>Deployment Options</CardTitle>
         </CardHeader>
         <CardContent className="space-y-4">
-          {config.mode === 'aggregated' || selectedRuntime === 'kaito' ? (
-            /* Aggregated mode: single replica count (KAITO always uses aggregated) */
+          {config.mode === 'aggregated' || aggregatedOnly ? (
+            /* Aggregated mode: single replica count (runtimes that cannot disaggregate always use aggregated) */
             <div className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-2">
                 <Label htmlFor="replicas">Worker Replicas</Label>
@@ -1114,6 +1096,7 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
               {/* GPU per Replica with recommendation */}
               <GpuPerReplicaField
                 id="gpusPerReplica"
+                label={capabilities?.multiNode ? 'GPUs per Node' : undefined}
                 value={config.resources?.gpu || gpuRecommendation.recommendedGpus}
                 onChange={(value) => {
                   setConfig(prev => ({
@@ -1129,8 +1112,73 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                 aiConfigRecommended={aiConfigRecommendedValues?.gpuPerReplica}
               />
 
-              {/* Router Mode is only applicable to Dynamo provider */}
-              {selectedRuntime === 'dynamo' && (
+              {/* Multi-node replicas, split into tensor and pipeline parallel */}
+              {capabilities?.multiNode && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="nodesPerReplica">Nodes per Replica</Label>
+                    <Input
+                      id="nodesPerReplica"
+                      type="number"
+                      min={1}
+                      max={16}
+                      value={config.nodesPerReplica || 2}
+                      onChange={(e) => updateConfig('nodesPerReplica', parseInt(e.target.value) || 1)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Each node runs one pod; the first serves the API and the rest join it
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pipelineParallel">Pipeline Parallel Size</Label>
+                    <Input
+                      id="pipelineParallel"
+                      type="number"
+                      min={1}
+                      placeholder={String(config.nodesPerReplica || 2)}
+                      value={config.pipelineParallel || ''}
+                      onChange={(e) => updateConfig('pipelineParallel', e.target.value ? parseInt(e.target.value) : undefined)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Defaults to one stage per node; tensor parallelism covers the remaining GPUs
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {/* Replica range, for runtimes that scale serving replicas with load */}
+              {capabilities?.autoscaling && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="minReplicas">Min Replicas</Label>
+                    <Input
+                      id="minReplicas"
+                      type="number"
+                      min={1}
+                      placeholder="1"
+                      value={config.minReplicas || ''}
+                      onChange={(e) => updateConfig('minReplicas', e.target.value ? parseInt(e.target.value) : undefined)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="maxReplicas">Max Replicas</Label>
+                    <Input
+                      id="maxReplicas"
+                      type="number"
+                      min={config.minReplicas || 1}
+                      placeholder="2"
+                      value={config.maxReplicas || ''}
+                      onChange={(e) => updateConfig('maxReplicas', e.target.value ? parseInt(e.target.value) : undefined)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Serving replicas scale between these bounds with load
+                    </p>
+                  </div>
+                </>
+              )}
+
+              {/* Router Mode only when the runtime can route other than directly */}
+              {routerModes.length > 1 && (
                 <div className="space-y-2">
                   <Label>Router Mode</Label>
                   <RadioGroup
@@ -1138,18 +1186,12 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
                     onValueChange={(value) => updateConfig('routerMode', value as RouterMode)}
                     className="flex gap-4"
                   >
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="none" id="router-none" />
-                      <Label htmlFor="router-none" className="cursor-pointer">None</Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="kv" id="router-kv" />
-                      <Label htmlFor="router-kv" className="cursor-pointer">KV-Aware</Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="round-robin" id="router-rr" />
-                      <Label htmlFor="router-rr" className="cursor-pointer">Round Robin</Label>
-                    </div>
+                    {routerModes.map((mode) => (
+                      <div key={mode} className="flex items-center space-x-2">
+                        <RadioGroupItem value={mode} id={`router-${mode}`} />
+                        <Label htmlFor={`router-${mode}`} className="cursor-pointer">{ROUTER_MODE_LABELS[mode]}</Label>
+                      </div>
+                    ))}
                   </RadioGroup>
                 </div>
               )}
@@ -1248,8 +1290,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
       </Card>
       )}
 
-      {/* Advanced Options - show for non-KAITO runtimes OR KAITO with vLLM models */}
-      {(selectedRuntime !== 'kaito' || isVllmModel) && (
+      {/* Advanced Options - engine settings, which llama.cpp models do not have */}
+      {!servesLlamaCpp && (
       <Card>
         <CardHeader
           className="cursor-pointer select-none"
@@ -1275,8 +1317,8 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         >
           <div className="overflow-hidden">
             <CardContent className="space-y-4 pt-0">
-            {/* These options only apply to non-KAITO runtimes */}
-            {selectedRuntime !== 'kaito' && (
+            {/* Engine flags, for runtimes that pass engine arguments through */}
+            {capabilities?.engineArgs && (
               <>
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
@@ -1319,110 +1361,103 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
               </>
             )}
 
-            {/* Context Length - shown for all runtimes, but uses different state for KAITO */}
+            {/* Context Length - shown for all runtimes */}
             <div className="space-y-2">
               <Label htmlFor="contextLength">Context Length (optional)</Label>
               <Input
                 id="contextLength"
                 type="number"
                 placeholder={model.contextLength?.toString() || 'Default'}
-                value={selectedRuntime === 'kaito' ? (maxModelLen || '') : (config.contextLength || '')}
-                onChange={(e) => {
-                  const value = e.target.value ? parseInt(e.target.value) : undefined
-                  if (selectedRuntime === 'kaito') {
-                    setMaxModelLen(value)
-                  } else {
-                    updateConfig('contextLength', value)
-                  }
-                }}
+                value={config.contextLength || ''}
+                onChange={(e) => updateConfig('contextLength', e.target.value ? parseInt(e.target.value) : undefined)}
               />
             </div>
+
+            <ModelCacheFields
+              value={config.modelCache}
+              onChange={(modelCache) => updateConfig('modelCache', modelCache)}
+              modelId={model.id}
+              namespace={config.namespace}
+              hfTokenSecret={model.gated ? config.hfTokenSecret : undefined}
+            />
+
+            {supportsAdapters && (
+              <AdapterFields
+                value={config.adapters}
+                onChange={(adapters) => updateConfig('adapters', adapters)}
+                servedModelName={config.servedModelName || model.id}
+                sources={capabilities?.adapterSources ?? []}
+              />
+            )}
             </CardContent>
           </div>
         </div>
       </Card>
       )}
 
-        {/* Capacity Warning - only show for non-KAITO or KAITO with GPU/vLLM */}
-        {detailedCapacity && (selectedRuntime !== 'kaito' || kaitoComputeType === 'gpu' || isVllmModel) && (
+      {/* Node Placement - scheduling constraints apply to every runtime */}
+      <Card>
+        <CardHeader
+          className="cursor-pointer select-none"
+          onClick={() => setShowPlacement(!showPlacement)}
+        >
+          <div className="flex items-center justify-between">
+            <CardTitle>Node Placement</CardTitle>
+            <ChevronDown
+              className={cn(
+                "h-5 w-5 text-muted-foreground transition-transform duration-200 ease-out",
+                showPlacement && "rotate-180"
+              )}
+            />
+          </div>
+        </CardHeader>
+        <div
+          className={cn(
+            "grid transition-all duration-300 ease-out-expo",
+            showPlacement ? "grid-rows-[1fr] opacity-100" : "grid-rows-[0fr] opacity-0"
+          )}
+        >
+          <div className="overflow-hidden">
+            <CardContent className="pt-0">
+              <NodePlacementFields
+                value={config}
+                onChange={(placement) => setConfig(prev => ({ ...prev, ...placement }))}
+              />
+            </CardContent>
+          </div>
+        </div>
+      </Card>
+
+        {/* Capacity Warning - GPU deployments only */}
+        {detailedCapacity && !runsOnCpu && (
           <CapacityWarning
             selectedGpus={selectedGpus}
             capacity={detailedCapacity}
             autoscaler={autoscaler}
             maxGpusPerPod={maxGpusPerPod}
             deploymentMode={config.mode}
-            replicas={config.replicas}
+            replicas={config.replicas * (config.nodesPerReplica || 1)}
             gpusPerReplica={config.resources?.gpu || gpuRecommendation.recommendedGpus || 1}
           />
         )}
 
-        {/* Manifest Preview - build config with KAITO-specific fields */}
-        {(() => {
-          // Build preview config with all necessary fields
-          let previewConfig = { ...config };
-          
-          if (selectedRuntime === 'kaito') {
-            if (isHuggingFaceGgufModel) {
-              previewConfig = {
-                ...previewConfig,
-                modelSource: 'huggingface' as const,
-                modelId: model.id,
-                ggufFile: ggufFile,
-                ggufRunMode: ggufRunMode,
-                computeType: kaitoComputeType,
-              };
-            } else if (isVllmModel) {
-              previewConfig = {
-                ...previewConfig,
-                modelSource: 'vllm' as const,
-                modelId: model.id,
-                computeType: 'gpu' as const,
-                ...(maxModelLen && { maxModelLen }),
-              };
-            } else if (selectedPremadeModel) {
-              previewConfig = {
-                ...previewConfig,
-                modelSource: 'premade' as const,
-                computeType: kaitoComputeType,
-                premadeModel: selectedPremadeModel.id,
-              };
-            }
-          }
-          
-          return (
-            <ManifestViewer 
-              mode="preview"
-              config={previewConfig}
-              provider={selectedRuntime}
-            />
-          );
-        })()}
-        {/* Cost Estimate - show for GPU and CPU deployments */}
-        {(selectedRuntime === 'kaito') && (
-          <CostEstimate
-            nodePools={detailedCapacity?.nodePools}
-            gpuCount={config.mode === 'disaggregated' 
-              ? Math.max(config.prefillGpus || 1, config.decodeGpus || 1)
-              : (config.resources?.gpu || gpuRecommendation.recommendedGpus || 1)}
-            replicas={config.mode === 'disaggregated'
-              ? (config.prefillReplicas || 1) + (config.decodeReplicas || 1)
-              : config.replicas}
-            computeType={kaitoComputeType === 'cpu' && !isVllmModel ? 'cpu' : 'gpu'}
-          />
-        )}
-        {/* Cost Estimate for non-KAITO runtimes (always GPU) */}
-        {selectedRuntime !== 'kaito' && detailedCapacity && detailedCapacity.nodePools.length > 0 && (
-          <CostEstimate
-            nodePools={detailedCapacity.nodePools}
-            gpuCount={config.mode === 'disaggregated' 
-              ? Math.max(config.prefillGpus || 1, config.decodeGpus || 1)
-              : (config.resources?.gpu || gpuRecommendation.recommendedGpus || 1)}
-            replicas={config.mode === 'disaggregated'
-              ? (config.prefillReplicas || 1) + (config.decodeReplicas || 1)
-              : config.replicas}
-            computeType="gpu"
-          />
-        )}
+        {/* Manifest Preview - with the model source fields of the deployed config */}
+        <ManifestViewer
+          mode="preview"
+          config={withModelSource({ ...config, adapters: supportsAdapters ? config.adapters : undefined })}
+          provider={selectedRuntime}
+        />
+        {/* Cost Estimate - CPU deployments are priced without GPU node pools */}
+        <CostEstimate
+          nodePools={detailedCapacity?.nodePools}
+          gpuCount={config.mode === 'disaggregated'
+            ? Math.max(config.prefillGpus || 1, config.decodeGpus || 1)
+            : (config.resources?.gpu || gpuRecommendation.recommendedGpus || 1)}
+          replicas={config.mode === 'disaggregated'
+            ? (config.prefillReplicas || 1) + (config.decodeReplicas || 1)
+            : config.replicas * (config.nodesPerReplica || 1)}
+          computeType={runsOnCpu ? 'cpu' : 'gpu'}
+        />
 
       {/* Submit Button */}
       <div className="flex gap-4">
@@ -1435,7 +1470,7 @@ export function DeploymentForm({ model, detailedCapacity, autoscaler, runtimes }
         </Button>
         <Button
           type="submit"
-          disabled={createDeployment.isProcessing || (needsHfAuth && selectedRuntime !== 'kaito') || !isRuntimeInstalled || !isKaitoConfigValid}
+          disabled={createDeployment.isProcessing || blockedOnHfAuth || !isRuntimeInstalled || !isModelSourceValid}
           loading={createDeployment.isProcessing}
           className={cn(
             "flex-1 gap-2",
@@ -124,10 +124,16 @@ export function DeploymentList({ deployments, isLoading }: DeploymentListProps)
                     ? 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
                     : deployment.provider === 'kaito'
                     ? 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-300'
+                    : deployment.provider === 'kserve'
+                    ? 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300'
+                    : deployment.provider === 'native'
+                    ? 'bg-slate-100 text-slate-700 dark:bg-slate-900 dark:text-slate-300'
+                    : deployment.provider === 'lws'
+                    ? 'bg-teal-100 text-teal-700 dark:bg-teal-950 dark:text-teal-300'
                     : 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300'
                 }
               >
-                {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : 'Dynamo'}
+                {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : deployment.provider === 'kserve' ? 'KServe' : deployment.provider === 'native' ? 'Native' : deployment.provider === 'lws' ? 'LWS' : deployment.provider === 'dynamo' ? 'Dynamo' : deployment.provider}
               </Badge>
               {deployment.mode === 'disaggregated' && (
                 <Badge variant="secondary" className="text-xs">P/D</Badge>
@@ -225,10 +231,16 @@ export function DeploymentList({ deployments, isLoading }: DeploymentListProps)
                         ? 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300'
                         : deployment.provider === 'kaito'
                         ? 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-300'
+                        : deployment.provider === 'kserve'
+                        ? 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300'
+                        : deployment.provider === 'native'
+                        ? 'bg-slate-100 text-slate-700 dark:bg-slate-900 dark:text-slate-300'
+                        : deployment.provider === 'lws'
+                        ? 'bg-teal-100 text-teal-700 dark:bg-teal-950 dark:text-teal-300'
                         : 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300'
                     }
                   >
-                    {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : 'Dynamo'}
+                    {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : deployment.provider === 'kserve' ? 'KServe' : deployment.provider === 'native' ? 'Native' : deployment.provider === 'lws' ? 'LWS' : deployment.provider === 'dynamo' ? 'Dynamo' : deployment.provider}
                   </Badge>
                 </td>
                 <td className="px-4 py-3">
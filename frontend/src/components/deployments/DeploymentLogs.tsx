@@ -8,8 +8,10 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { useDeploymentLogs, useDeploymentPods } from '@/hooks/useDeployments';
-import { Loader2, RefreshCw, Copy, ScrollText, ArrowDown } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useDeploymentLogs, useDeploymentLogStream, useDeploymentPods } from '@/hooks/useDeployments';
+import type { LogStreamLine } from '@/lib/api';
+import { Loader2, RefreshCw, Copy, ScrollText, ArrowDown, Radio } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 
 interface DeploymentLogsProps {
@@ -24,6 +26,13 @@ const TAIL_LINE_OPTIONS = [
   { value: '1000', label: '1000 lines' },
 ];
 
+// Pod selector value for following every pod of the deployment
+const ALL_PODS = '__all__';
+
+function formatStreamedLine(line: LogStreamLine): string {
+  return `[${line.pod}/${line.container}] ${line.line}`;
+}
+
 export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProps) {
   const { toast } = useToast();
   const logsContainerRef = useRef<HTMLPreElement>(null);
@@ -32,6 +41,10 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
   const [tailLines, setTailLines] = useState<number>(100);
   const [autoScroll, setAutoScroll] = useState(true);
   const [timestamps, setTimestamps] = useState(false);
+  const [follow, setFollow] = useState(false);
+  const [previous, setPrevious] = useState(false);
+  const [filterInput, setFilterInput] = useState('');
+  const [filter, setFilter] = useState('');
 
   // Fetch pods for this deployment
   const { data: pods } = useDeploymentPods(deploymentName, namespace);
@@ -43,11 +56,33 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
     }
   }, [pods, selectedPod]);
 
-  // Fetch logs
+  // "All pods" only applies when following; a one-shot tail reads a single pod
+  const tailPod = selectedPod === ALL_PODS ? pods?.[0]?.name : selectedPod;
+
+  // Fetch logs (disabled while following)
   const { data: logsData, isLoading, refetch, isFetching, error } = useDeploymentLogs(
     deploymentName,
     namespace,
-    { podName: selectedPod, tailLines, timestamps }
+    { podName: follow ? undefined : tailPod, tailLines, timestamps }
+  );
+
+  // Follow logs over the streaming endpoint
+  const {
+    lines: streamedLines,
+    streamErrors,
+    status: streamStatus,
+    error: streamError,
+  } = useDeploymentLogStream(
+    deploymentName,
+    namespace,
+    {
+      podName: selectedPod === ALL_PODS ? undefined : selectedPod,
+      previous,
+      tailLines,
+      timestamps,
+      filter: filter || undefined,
+    },
+    follow
   );
 
   // Auto-scroll to bottom when new logs arrive
@@ -55,11 +90,23 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
     if (autoScroll && logsContainerRef.current) {
       logsContainerRef.current.scrollTop = logsContainerRef.current.scrollHeight;
     }
-  }, [logsData?.logs, autoScroll]);
+  }, [logsData?.logs, streamedLines, autoScroll]);
+
+  const logsText = follow ? streamedLines.map(formatStreamedLine).join('\n') : logsData?.logs;
+
+  const handleToggleFollow = () => {
+    const next = !follow;
+    setFollow(next);
+    if (next && pods && pods.length > 1) {
+      setSelectedPod(ALL_PODS);
+    } else if (!next && selectedPod === ALL_PODS) {
+      setSelectedPod(pods?.[0]?.name);
+    }
+  };
 
   const handleCopyLogs = () => {
-    if (logsData?.logs) {
-      navigator.clipboard.writeText(logsData.logs);
+    if (logsText) {
+      navigator.clipboard.writeText(logsText);
       toast({
         title: 'Copied to clipboard',
         description: 'Logs copied successfully',
@@ -120,6 +167,9 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
                   <SelectValue placeholder="Select pod" />
                 </SelectTrigger>
                 <SelectContent>
+                  {follow && (
+                    <SelectItem value={ALL_PODS}>All pods</SelectItem>
+                  )}
                   {pods.map((pod) => (
                     <SelectItem key={pod.name} value={pod.name}>
                       <span className="font-mono text-xs">{pod.name}</span>
@@ -143,6 +193,42 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
               </SelectContent>
             </Select>
 
+            {/* Follow-mode filter and previous-container toggle */}
+            {follow && (
+              <>
+                <Input
+                  className="w-[180px] font-mono text-xs"
+                  placeholder="Filter (regex)"
+                  value={filterInput}
+                  onChange={(e) => setFilterInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') setFilter(filterInput.trim());
+                  }}
+                  onBlur={() => setFilter(filterInput.trim())}
+                  title="Only show lines matching this regular expression (press Enter to apply)"
+                />
+                <Button
+                  variant={previous ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => setPrevious(!previous)}
+                  title="Show logs of the previous, terminated container"
+                >
+                  Previous
+                </Button>
+              </>
+            )}
+
+            {/* Follow Toggle */}
+            <Button
+              variant={follow ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={handleToggleFollow}
+              title="Stream logs as they are written"
+            >
+              <Radio className={`h-4 w-4 mr-1 ${follow && streamStatus === 'streaming' ? 'text-green-500' : ''}`} />
+              Follow
+            </Button>
+
             {/* Timestamps Toggle */}
             <Button
               variant={timestamps ? 'secondary' : 'outline'}
@@ -158,28 +244,65 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
               variant="outline"
               size="icon"
               onClick={handleCopyLogs}
-              disabled={!logsData?.logs}
+              disabled={!logsText}
               title="Copy logs"
             >
               <Copy className="h-4 w-4" />
             </Button>
 
             {/* Refresh Button */}
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={handleRefresh}
-              disabled={isFetching}
-              title="Refresh logs"
-            >
-              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
-            </Button>
+            {!follow && (
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={handleRefresh}
+                disabled={isFetching}
+                title="Refresh logs"
+              >
+                <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
       <CardContent>
         <div className="relative">
-          {isLoading || !selectedPod ? (
+          {follow ? (
+            streamError ? (
+              <div className="rounded-lg bg-zinc-950 text-red-400 p-4 text-xs font-mono min-h-[200px]">
+                <p className="font-semibold mb-2">Error streaming logs:</p>
+                <p>{streamError.message}</p>
+              </div>
+            ) : (
+              <>
+                <pre
+                  ref={logsContainerRef}
+                  onScroll={handleScroll}
+                  className="rounded-lg bg-zinc-950 text-zinc-100 p-4 text-xs font-mono overflow-auto max-h-[500px] min-h-[200px] whitespace-pre-wrap break-all"
+                >
+                  {streamedLines.length === 0
+                    ? (streamStatus === 'streaming' ? 'Waiting for logs...' : 'No logs available')
+                    : streamedLines.map((line, index) => (
+                      <div key={index}>
+                        <span className="text-sky-400">[{line.pod}/{line.container}]</span> {line.line}
+                      </div>
+                    ))}
+                </pre>
+
+                {!autoScroll && (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    className="absolute bottom-4 right-4 shadow-lg"
+                    onClick={handleScrollToBottom}
+                  >
+                    <ArrowDown className="h-4 w-4 mr-1" />
+                    Latest
+                  </Button>
+                )}
+              </>
+            )
+          ) : isLoading || !selectedPod ? (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
             </div>
@@ -222,8 +345,29 @@ export function DeploymentLogs({ deploymentName, namespace }: DeploymentLogsProp
           )}
         </div>
 
+        {/* Stream info */}
+        {follow && (
+          <div className="text-xs text-muted-foreground mt-2 space-y-1">
+            <p>
+              {streamStatus === 'streaming' && (previous ? 'Loading previous container logs' : 'Following logs')}
+              {streamStatus === 'ended' && 'Log stream ended'}
+              {streamStatus === 'error' && 'Log stream failed'}
+              {' from '}
+              {selectedPod === ALL_PODS || !selectedPod
+                ? `all ${pods.length} pod${pods.length === 1 ? '' : 's'}`
+                : <span className="font-mono">{selectedPod}</span>}
+              {filter && <> matching <span className="font-mono">{filter}</span></>}
+            </p>
+            {streamErrors.map((streamErr) => (
+              <p key={`${streamErr.pod}/${streamErr.container}`} className="text-destructive">
+                <span className="font-mono">{streamErr.pod}/{streamErr.container}</span>: {streamErr.message}
+              </p>
+            ))}
+          </div>
+        )}
+
         {/* Pod info */}
-        {logsData?.podName && (
+        {!follow && logsData?.podName && (
           <p className="text-xs text-muted-foreground mt-2">
             Showing logs from pod: <span className="font-mono">{logsData.podName}</span>
             {logsData.container && <> (container: <span className="font-mono">{logsData.container}</span>)</>}
@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react'
+import { useDeploymentConfig, useUpdateDeployment } from '@/hooks/useDeployments'
+import { useProviderDetails } from '@/hooks/useSettings'
+import { useToast } from '@/hooks/useToast'
+import type { DeploymentConfig, DeploymentStatus, DeploymentUpdate } from '@/lib/api'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Loader2 } from 'lucide-react'
+
+interface EditDeploymentDialogProps {
+  deployment: DeploymentStatus
+  open: boolean
+  onOpenChange: (open: boolean) => void
+}
+
+/**
+ * Format engine args as one `key=value` pair per line for editing
+ */
+function formatEngineArgs(engineArgs?: Record<string, unknown>): string {
+  if (!engineArgs) return ''
+  return Object.entries(engineArgs)
+    .map(([key, value]) => (value === true ? key : `${key}=${value}`))
+    .join('\n')
+}
+
+/**
+ * Parse `key=value` lines back into engine args.
+ * Bare keys become boolean flags and numeric values are converted to numbers.
+ */
+function parseEngineArgs(text: string): Record<string, unknown> {
+  const args: Record<string, unknown> = {}
+  for (const line of text.split('\n')) {
+    const trimmed = line.trim()
+    if (!trimmed) continue
+    const separator = trimmed.indexOf('=')
+    if (separator === -1) {
+      args[trimmed.replace(/^--/, '')] = true
+      continue
+    }
+    const key = trimmed.slice(0, separator).trim().replace(/^--/, '')
+    const value = trimmed.slice(separator + 1).trim()
+    args[key] = value !== '' && !isNaN(Number(value)) ? Number(value) : value
+  }
+  return args
+}
+
+export function EditDeploymentDialog({ deployment, open, onOpenChange }: EditDeploymentDialogProps) {
+  const { toast } = useToast()
+  const updateDeployment = useUpdateDeployment()
+  const { data: config, isLoading, error } = useDeploymentConfig(deployment.name, deployment.namespace, open)
+  const { data: provider } = useProviderDetails(deployment.provider)
+
+  const [replicas, setReplicas] = useState(1)
+  const [prefillReplicas, setPrefillReplicas] = useState(1)
+  const [decodeReplicas, setDecodeReplicas] = useState(1)
+  const [gpusPerReplica, setGpusPerReplica] = useState(1)
+  const [engineArgs, setEngineArgs] = useState('')
+
+  // Reset the form whenever the dialog opens with a freshly loaded config
+  useEffect(() => {
+    if (!open || !config) return
+    setReplicas(config.replicas || 1)
+    setPrefillReplicas(config.prefillReplicas || 1)
+    setDecodeReplicas(config.decodeReplicas || 1)
+    setGpusPerReplica(config.resources?.gpu || 1)
+    setEngineArgs(formatEngineArgs(config.engineArgs))
+  }, [open, config])
+
+  const isDisaggregated = config?.mode === 'disaggregated'
+  const supportsEngineArgs = provider?.capabilities.engineArgs ?? false
+  const usesGpus = config?.provider !== 'kaito' || config?.computeType === 'gpu'
+
+  const buildUpdate = (current: DeploymentConfig): DeploymentUpdate => {
+    if (isDisaggregated) {
+      return { prefillReplicas, decodeReplicas }
+    }
+
+    const update: DeploymentUpdate = { replicas }
+    if (usesGpus && (current.resources || gpusPerReplica !== 1)) {
+      update.resources = { ...current.resources, gpu: gpusPerReplica }
+    }
+    if (supportsEngineArgs) {
+      update.engineArgs = parseEngineArgs(engineArgs)
+    }
+    return update
+  }
+
+  const handleSave = async () => {
+    if (!config) return
+
+    try {
+      const result = await updateDeployment.mutateAsync({
+        name: deployment.name,
+        namespace: deployment.namespace,
+        update: buildUpdate(config),
+      })
+      toast({
+        title: 'Deployment Updated',
+        description: result.warnings?.length
+          ? result.warnings.join(' ')
+          : `${deployment.name} has been updated`,
+        variant: result.warnings?.length ? 'default' : 'success',
+      })
+      onOpenChange(false)
+    } catch (err) {
+      toast({
+        title: 'Update Failed',
+        description: err instanceof Error ? err.message : 'Failed to update deployment',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Deployment</DialogTitle>
+          <DialogDescription>
+            Scale or reconfigure <strong>{deployment.name}</strong> in place.
+            Pods are rolled by the runtime as needed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error || !config ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Unable to load deployment configuration'}
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {isDisaggregated ? (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-prefill-replicas">Prefill Replicas</Label>
+                  <Input
+                    id="edit-prefill-replicas"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={prefillReplicas}
+                    onChange={(e) => setPrefillReplicas(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="edit-decode-replicas">Decode Replicas</Label>
+                  <Input
+                    id="edit-decode-replicas"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={decodeReplicas}
+                    onChange={(e) => setDecodeReplicas(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="edit-replicas">Replicas</Label>
+                  <Input
+                    id="edit-replicas"
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={replicas}
+                    onChange={(e) => setReplicas(parseInt(e.target.value) || 1)}
+                  />
+                </div>
+                {usesGpus && (
+                  <div className="space-y-2">
+                    <Label htmlFor="edit-gpus">GPUs per Replica</Label>
+                    <Input
+                      id="edit-gpus"
+                      type="number"
+                      min={1}
+                      value={gpusPerReplica}
+                      onChange={(e) => setGpusPerReplica(parseInt(e.target.value) || 1)}
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
+            {supportsEngineArgs && !isDisaggregated && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-engine-args">Engine Arguments</Label>
+                <textarea
+                  id="edit-engine-args"
+                  className="flex min-h-[96px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                  value={engineArgs}
+                  onChange={(e) => setEngineArgs(e.target.value)}
+                  placeholder={'max-num-seqs=64\nenable-chunked-prefill'}
+                />
+                <p className="text-xs text-muted-foreground">
+                  One argument per line as key=value. A bare key is passed as a flag.
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!config || updateDeployment.isPending}>
+            {updateDeployment.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useDeploymentEvents } from '@/hooks/useDeployments';
+import { cn, formatRelativeTime } from '@/lib/utils';
+import { Loader2, Activity, AlertTriangle } from 'lucide-react';
+
+interface EventsTimelineProps {
+  deploymentName: string;
+  namespace: string;
+}
+
+/** Events shown before the list is expanded */
+const COLLAPSED_COUNT = 10;
+
+export function EventsTimeline({ deploymentName, namespace }: EventsTimelineProps) {
+  const { data: events, isLoading, error } = useDeploymentEvents(deploymentName, namespace);
+  const [warningsOnly, setWarningsOnly] = useState(false);
+  const [expanded, setExpanded] = useState(false);
+
+  const warningCount = events?.filter((event) => event.type === 'warning').length ?? 0;
+  const filtered = warningsOnly ? events?.filter((event) => event.type === 'warning') ?? [] : events ?? [];
+  const visible = expanded ? filtered : filtered.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <Activity className="h-5 w-5" />
+            <CardTitle>Events</CardTitle>
+            {warningCount > 0 && (
+              <Badge variant="warning">
+                {warningCount} warning{warningCount === 1 ? '' : 's'}
+              </Badge>
+            )}
+          </div>
+          <Button
+            variant={warningsOnly ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setWarningsOnly(!warningsOnly)}
+            disabled={warningCount === 0 && !warningsOnly}
+          >
+            <AlertTriangle className="mr-1 h-4 w-4" />
+            Warnings only
+          </Button>
+        </div>
+        <CardDescription>
+          Kubernetes events for this deployment, its pods, services and volume claims
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load events'}
+          </p>
+        ) : filtered.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {warningsOnly ? 'No warnings' : 'No events recorded (Kubernetes keeps events for about an hour)'}
+          </p>
+        ) : (
+          <ol className="relative space-y-4 border-l pl-5">
+            {visible.map((event) => (
+              <li
+                key={`${event.involvedObject.kind}/${event.involvedObject.name}/${event.reason}/${event.firstTimestamp}`}
+                className="relative"
+              >
+                <span
+                  className={cn(
+                    'absolute -left-[25px] top-1.5 h-2.5 w-2.5 rounded-full ring-4 ring-background',
+                    event.type === 'warning' ? 'bg-yellow-500' : 'bg-muted-foreground/40'
+                  )}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={event.type === 'warning' ? 'warning' : 'secondary'}>{event.reason}</Badge>
+                  <span className="font-mono text-xs text-muted-foreground">
+                    {event.involvedObject.kind}/{event.involvedObject.name}
+                  </span>
+                  {event.count > 1 && (
+                    <span className="text-xs text-muted-foreground">×{event.count}</span>
+                  )}
+                  <span
+                    className="ml-auto text-xs text-muted-foreground"
+                    title={new Date(event.lastTimestamp).toLocaleString()}
+                  >
+                    {formatRelativeTime(event.lastTimestamp)}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm break-words">{event.message}</p>
+                {event.source && (
+                  <p className="text-xs text-muted-foreground">{event.source}</p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {filtered.length > COLLAPSED_COUNT && (
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Show fewer' : `Show all ${filtered.length} events`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,9 +3,9 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { deploymentsApi, type DeploymentConfig } from '@/lib/api';
+import { deploymentsApi, type DeploymentConfig, type ManifestDryRunResult } from '@/lib/api';
 import { useDeploymentManifest } from '@/hooks/useDeployments';
-import { Loader2, Copy, Code, FileJson, ChevronDown, ChevronRight } from 'lucide-react';
+import { Loader2, Copy, Code, FileJson, ChevronDown, ChevronRight, ShieldCheck, CheckCircle2, XCircle } from 'lucide-react';
 import { useToast } from '@/hooks/useToast';
 import YAML from 'yaml';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
@@ -19,6 +19,8 @@ interface ResourceInfo {
   apiVersion: string;
   name: string;
   manifest: Record<string, unknown>;
+  /** Set after validating a preview against the cluster */
+  dryRun?: ManifestDryRunResult;
 }
 
 /**
@@ -147,6 +149,7 @@ export function ManifestViewer(props: ManifestViewerProps) {
   const [selectedResourceIndex, setSelectedResourceIndex] = useState(0);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
   const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
 
   // For deployed mode, use the hook to fetch resources
   const deployedQuery = props.mode === 'deployed' 
@@ -184,6 +187,28 @@ export function ManifestViewer(props: ManifestViewerProps) {
     setSelectedResourceIndex(0);
   }, [props.mode === 'deployed' ? deployedQuery?.data : null]);
 
+  // Re-generate the preview with a server-side dry run of every resource
+  const handleValidate = async () => {
+    if (props.mode !== 'preview') return;
+
+    setIsValidating(true);
+    try {
+      const result = await deploymentsApi.preview(props.config, { dryRun: true });
+      setResources(result.resources);
+    } catch (err) {
+      toast({
+        title: 'Validation Failed',
+        description: err instanceof Error ? err.message : 'Failed to validate against the cluster',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const dryRunFailures = resources.filter((r) => r.dryRun && !r.dryRun.success);
+  const isDryRunComplete = resources.length > 0 && resources.every((r) => r.dryRun);
+
   const isLoading = props.mode === 'preview' ? isPreviewLoading : deployedQuery?.isLoading;
   const error = props.mode === 'preview' ? previewError : (deployedQuery?.error instanceof Error ? deployedQuery.error.message : null);
   const selectedResource = resources[selectedResourceIndex];
@@ -282,6 +307,44 @@ export function ManifestViewer(props: ManifestViewerProps) {
             </div>
           ) : resources.length > 0 && selectedResource ? (
             <>
+              {/* Server-side dry run */}
+              {props.mode === 'preview' && (
+                <div className="mb-4 pb-3 border-b space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-muted-foreground">
+                      Check the resources against the cluster's schemas, quotas and admission webhooks without creating them
+                    </span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={(e) => { e.stopPropagation(); handleValidate(); }}
+                      disabled={isValidating}
+                    >
+                      {isValidating ? (
+                        <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      ) : (
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                      )}
+                      Validate on Cluster
+                    </Button>
+                  </div>
+                  {isDryRunComplete && dryRunFailures.length === 0 && (
+                    <p className="flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
+                      <CheckCircle2 className="h-4 w-4" />
+                      All resources were accepted by the cluster (dry run)
+                    </p>
+                  )}
+                  {dryRunFailures.map((resource) => (
+                    <p key={`${resource.kind}-${resource.name}`} className="flex items-start gap-1 text-sm text-destructive">
+                      <XCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                      <span>
+                        <span className="font-mono">{resource.kind}/{resource.name}</span>: {resource.dryRun?.message}
+                      </span>
+                    </p>
+                  ))}
+                </div>
+              )}
+
               {/* Resource selector tabs when multiple resources */}
               {resources.length > 1 && (
                 <div className="flex flex-wrap gap-2 mb-4 pb-3 border-b">
@@ -300,6 +363,11 @@ export function ManifestViewer(props: ManifestViewerProps) {
                         {resource.kind}
                       </Badge>
                       <span className="text-xs font-mono">{resource.name}</span>
+                      {resource.dryRun && (resource.dryRun.success ? (
+                        <CheckCircle2 className="h-3 w-3 ml-2 text-green-600 dark:text-green-400" />
+                      ) : (
+                        <XCircle className="h-3 w-3 ml-2 text-destructive" />
+                      ))}
                     </Button>
                   ))}
                 </div>
@@ -0,0 +1,153 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useModelPrefetch, useStartModelPrefetch } from '@/hooks/useModels';
+import type { ModelCacheConfig } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { CheckCircle2, Download, Loader2, XCircle } from 'lucide-react';
+
+interface ModelCacheFieldsProps {
+  value: ModelCacheConfig | undefined;
+  onChange: (value: ModelCacheConfig | undefined) => void;
+  modelId: string;
+  namespace: string;
+  /** Secret with HF_TOKEN, passed to the prefetch Job for gated models */
+  hfTokenSecret?: string;
+}
+
+function formatGb(bytes: number): string {
+  return `${(bytes / 1_000_000_000).toFixed(1)} GB`;
+}
+
+/**
+ * Mounts a PersistentVolumeClaim as the HuggingFace cache, so replicas and
+ * restarts reuse downloaded weights. The model can be downloaded into the
+ * claim ahead of the deployment.
+ */
+export function ModelCacheFields({ value, onChange, modelId, namespace, hfTokenSecret }: ModelCacheFieldsProps) {
+  const startPrefetch = useStartModelPrefetch();
+  const started = startPrefetch.data;
+  const { data: prefetch } = useModelPrefetch(started?.name, started?.namespace);
+  const status = prefetch || started;
+
+  const progress = status?.progress;
+  const percent = progress && progress.totalBytes > 0
+    ? Math.min(100, Math.round((progress.bytesDone / progress.totalBytes) * 100))
+    : 0;
+  const isActive = status?.phase === 'Pending' || status?.phase === 'Running';
+
+  const update = (fields: Partial<ModelCacheConfig>) => {
+    onChange({ claimName: value?.claimName || '', ...value, ...fields });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label>Model Cache</Label>
+          <p className="text-xs text-muted-foreground">
+            Keep downloaded weights on a volume shared by replicas and restarts
+          </p>
+        </div>
+        <Switch
+          checked={!!value}
+          onCheckedChange={(checked) => onChange(checked ? { claimName: 'hf-cache', size: '200Gi' } : undefined)}
+        />
+      </div>
+
+      {value && (
+        <>
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="modelCacheClaim">Claim Name</Label>
+              <Input
+                id="modelCacheClaim"
+                value={value.claimName}
+                onChange={(e) => update({ claimName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="modelCacheSize">Size</Label>
+              <Input
+                id="modelCacheSize"
+                placeholder="Use an existing claim"
+                value={value.size || ''}
+                onChange={(e) => update({ size: e.target.value || undefined })}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {value.size
+              ? 'The claim is created with this size if it does not exist yet'
+              : 'Without a size, the claim must already exist in the namespace'}
+          </p>
+
+          <div className="space-y-2 rounded-md border p-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <p className="text-sm font-medium">Prefetch</p>
+                <p className="text-xs text-muted-foreground">
+                  Download {modelId} into the cache now so the deployment starts without waiting
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={!value.claimName || !modelId || isActive || startPrefetch.isPending}
+                onClick={() => startPrefetch.mutate({
+                  modelId,
+                  namespace,
+                  modelCache: value,
+                  ...(hfTokenSecret && { hfTokenSecret }),
+                })}
+              >
+                {startPrefetch.isPending || isActive
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Download className="mr-2 h-4 w-4" />}
+                Prefetch
+              </Button>
+            </div>
+
+            {startPrefetch.error && (
+              <p className="text-xs text-destructive">{startPrefetch.error.message}</p>
+            )}
+
+            {status && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between text-xs">
+                  <span className="flex items-center gap-1">
+                    {status.phase === 'Succeeded' && <CheckCircle2 className="h-3 w-3 text-green-500" />}
+                    {status.phase === 'Failed' && <XCircle className="h-3 w-3 text-destructive" />}
+                    {status.phase}
+                    {progress?.currentFile && isActive && (
+                      <span className="font-mono text-muted-foreground">· {progress.currentFile}</span>
+                    )}
+                  </span>
+                  {progress && (
+                    <span className="text-muted-foreground">
+                      {progress.filesDone}/{progress.files} files · {formatGb(progress.bytesDone)} of {formatGb(progress.totalBytes)}
+                    </span>
+                  )}
+                </div>
+                <div className="h-2 overflow-hidden rounded-full bg-muted">
+                  <div
+                    className={cn(
+                      'h-full transition-all duration-300',
+                      status.phase === 'Failed' ? 'bg-destructive' : 'bg-primary'
+                    )}
+                    style={{ width: `${status.phase === 'Succeeded' ? 100 : percent}%` }}
+                  />
+                </div>
+                {status.message && status.phase === 'Failed' && (
+                  <p className="text-xs text-destructive">{status.message}</p>
+                )}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,260 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useNodePools } from '@/hooks/useClusterStatus';
+import { collectPoolLabels, formatTaint, getPoolSelector, isTolerated, tolerationFor } from '@/lib/node-placement';
+import type { DeploymentConfig, Toleration } from '@/lib/api';
+import { cn } from '@/lib/utils';
+import { Plus, X } from 'lucide-react';
+
+export type NodePlacement = Pick<DeploymentConfig, 'nodeSelector' | 'tolerations' | 'affinity' | 'topologySpreadConstraints'>;
+
+interface NodePlacementFieldsProps {
+  value: NodePlacement;
+  onChange: (value: NodePlacement) => void;
+}
+
+function formatToleration(toleration: Toleration): string {
+  const match = toleration.operator === 'Exists'
+    ? `${toleration.key || '*'} exists`
+    : `${toleration.key}=${toleration.value || ''}`;
+  return toleration.effect ? `${match}:${toleration.effect}` : match;
+}
+
+function formatJson(value: unknown): string {
+  return value ? JSON.stringify(value, null, 2) : '';
+}
+
+const textareaClassName =
+  'flex min-h-[96px] w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2';
+
+/**
+ * Edits where a deployment's model server pods may run. Node pool labels and
+ * taints from the cluster are offered as suggestions.
+ */
+export function NodePlacementFields({ value, onChange }: NodePlacementFieldsProps) {
+  const { data: nodePools } = useNodePools();
+
+  const [labelKey, setLabelKey] = useState('');
+  const [labelValue, setLabelValue] = useState('');
+  const [affinityText, setAffinityText] = useState(formatJson(value.affinity));
+  const [spreadText, setSpreadText] = useState(formatJson(value.topologySpreadConstraints));
+  const [affinityError, setAffinityError] = useState<string | null>(null);
+  const [spreadError, setSpreadError] = useState<string | null>(null);
+
+  const nodeSelector = value.nodeSelector || {};
+  const tolerations = value.tolerations || [];
+  const poolLabels = collectPoolLabels(nodePools);
+  const untoleratedTaints = (nodePools || [])
+    .flatMap((pool) => pool.taints || [])
+    .filter((taint, index, all) => all.findIndex((t) => formatTaint(t) === formatTaint(taint)) === index)
+    .filter((taint) => !isTolerated(taint, tolerations));
+
+  const setNodeSelector = (selector: Record<string, string>) => {
+    onChange({ ...value, nodeSelector: Object.keys(selector).length > 0 ? selector : undefined });
+  };
+
+  const setTolerations = (next: Toleration[]) => {
+    onChange({ ...value, tolerations: next.length > 0 ? next : undefined });
+  };
+
+  const addLabel = () => {
+    if (!labelKey.trim()) return;
+    setNodeSelector({ ...nodeSelector, [labelKey.trim()]: labelValue.trim() });
+    setLabelKey('');
+    setLabelValue('');
+  };
+
+  const removeLabel = (key: string) => {
+    const { [key]: _removed, ...rest } = nodeSelector;
+    setNodeSelector(rest);
+  };
+
+  // Target a whole pool: select it by its pool label and tolerate its taints
+  const targetPool = (selector: Record<string, string>, taints: NonNullable<NodePlacement['tolerations']>) => {
+    onChange({
+      ...value,
+      nodeSelector: selector,
+      tolerations: taints.length > 0 ? [...tolerations, ...taints] : value.tolerations,
+    });
+  };
+
+  const parseJsonField = (
+    key: 'affinity' | 'topologySpreadConstraints',
+    text: string,
+    setError: (error: string | null) => void
+  ) => {
+    if (!text.trim()) {
+      setError(null);
+      onChange({ ...value, [key]: undefined });
+      return;
+    }
+    try {
+      const parsed = JSON.parse(text);
+      const expectsArray = key === 'topologySpreadConstraints';
+      if (expectsArray !== Array.isArray(parsed) || typeof parsed !== 'object' || parsed === null) {
+        setError(expectsArray ? 'Expected a JSON array' : 'Expected a JSON object');
+        return;
+      }
+      setError(null);
+      onChange({ ...value, [key]: parsed });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+    }
+  };
+
+  const labelValues = poolLabels.get(labelKey.trim()) || [];
+
+  return (
+    <div className="space-y-6">
+      {/* Pool shortcuts */}
+      {nodePools && nodePools.length > 0 && (
+        <div className="space-y-2">
+          <Label>Node Pools</Label>
+          <div className="flex flex-wrap gap-2">
+            {nodePools.map((pool) => {
+              const selector = getPoolSelector(pool);
+              if (!selector) return null;
+              const isTargeted = Object.entries(selector).every(([k, v]) => nodeSelector[k] === v);
+              const missingTolerations = (pool.taints || [])
+                .filter((taint) => !isTolerated(taint, tolerations))
+                .map(tolerationFor);
+              return (
+                <Button
+                  key={pool.name}
+                  type="button"
+                  variant={isTargeted ? 'secondary' : 'outline'}
+                  size="sm"
+                  onClick={() => targetPool(selector, missingTolerations)}
+                >
+                  {pool.name}
+                  <span className="ml-1 text-xs text-muted-foreground">
+                    {pool.gpuCount > 0 ? `${pool.gpuCount} GPU${pool.gpuCount === 1 ? '' : 's'}` : 'CPU'}
+                    {pool.gpuModel && ` · ${pool.gpuModel}`}
+                  </span>
+                </Button>
+              );
+            })}
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Selects the pool by its label and tolerates its taints
+          </p>
+        </div>
+      )}
+
+      {/* Node selector */}
+      <div className="space-y-2">
+        <Label htmlFor="node-selector-key">Node Selector</Label>
+        {Object.keys(nodeSelector).length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(nodeSelector).map(([key, labelVal]) => (
+              <Badge key={key} variant="secondary" className="gap-1 font-mono">
+                {key}={labelVal}
+                <button type="button" onClick={() => removeLabel(key)} aria-label={`Remove ${key}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            id="node-selector-key"
+            placeholder="Label key"
+            list="node-label-keys"
+            value={labelKey}
+            onChange={(e) => setLabelKey(e.target.value)}
+          />
+          <Input
+            placeholder="Value"
+            list="node-label-values"
+            value={labelValue}
+            onChange={(e) => setLabelValue(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addLabel();
+              }
+            }}
+          />
+          <Button type="button" variant="outline" size="icon" onClick={addLabel} disabled={!labelKey.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        <datalist id="node-label-keys">
+          {[...poolLabels.keys()].map((key) => <option key={key} value={key} />)}
+        </datalist>
+        <datalist id="node-label-values">
+          {labelValues.map((v) => <option key={v} value={v} />)}
+        </datalist>
+      </div>
+
+      {/* Tolerations */}
+      <div className="space-y-2">
+        <Label>Tolerations</Label>
+        {tolerations.length === 0 && untoleratedTaints.length === 0 ? (
+          <p className="text-xs text-muted-foreground">No taints found on the cluster's node pools</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tolerations.map((toleration, index) => (
+              <Badge key={`${formatToleration(toleration)}-${index}`} variant="secondary" className="gap-1 font-mono">
+                {formatToleration(toleration)}
+                <button
+                  type="button"
+                  onClick={() => setTolerations(tolerations.filter((_, i) => i !== index))}
+                  aria-label={`Remove toleration ${formatToleration(toleration)}`}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            {untoleratedTaints.map((taint) => (
+              <button
+                key={formatTaint(taint)}
+                type="button"
+                onClick={() => setTolerations([...tolerations, tolerationFor(taint)])}
+                className={cn(
+                  'inline-flex items-center gap-1 rounded-full border border-dashed px-2.5 py-0.5 font-mono text-xs',
+                  'text-muted-foreground hover:text-foreground hover:border-foreground'
+                )}
+              >
+                <Plus className="h-3 w-3" />
+                {formatTaint(taint)}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Affinity and topology spread as raw Kubernetes JSON */}
+      <div className="grid gap-4 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="affinity">Affinity (JSON)</Label>
+          <textarea
+            id="affinity"
+            className={textareaClassName}
+            value={affinityText}
+            onChange={(e) => setAffinityText(e.target.value)}
+            onBlur={() => parseJsonField('affinity', affinityText, setAffinityError)}
+            placeholder={'{\n  "podAntiAffinity": { ... }\n}'}
+          />
+          {affinityError && <p className="text-xs text-destructive">{affinityError}</p>}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="topology-spread">Topology Spread Constraints (JSON)</Label>
+          <textarea
+            id="topology-spread"
+            className={textareaClassName}
+            value={spreadText}
+            onChange={(e) => setSpreadText(e.target.value)}
+            onBlur={() => parseJsonField('topologySpreadConstraints', spreadText, setSpreadError)}
+            placeholder={'[\n  { "maxSkew": 1, "topologyKey": "topology.kubernetes.io/zone", "whenUnsatisfiable": "ScheduleAnyway" }\n]'}
+          />
+          {spreadError && <p className="text-xs text-destructive">{spreadError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useDeploymentRevisions, useRevisionDiff, useRollbackDeployment } from '@/hooks/useDeployments';
+import { useToast } from '@/hooks/useToast';
+import { formatRelativeTime } from '@/lib/utils';
+import type { DeploymentRevisionChange } from '@/lib/api';
+import { Loader2, History, GitCompare, RotateCcw } from 'lucide-react';
+
+interface RevisionHistoryProps {
+  deploymentName: string;
+  namespace: string;
+}
+
+/**
+ * Render a changed value compactly for the diff table
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function ChangeList({ title, changes }: { title: string; changes: DeploymentRevisionChange[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-medium">{title}</h4>
+      {changes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No changes</p>
+      ) : (
+        <div className="rounded-md border divide-y font-mono text-xs">
+          {changes.map((change) => (
+            <div key={change.path} className="grid grid-cols-3 gap-2 px-3 py-1.5">
+              <span className="truncate" title={change.path}>{change.path}</span>
+              <span className="truncate text-red-600 dark:text-red-400">{formatValue(change.from)}</span>
+              <span className="truncate text-green-600 dark:text-green-400">{formatValue(change.to)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function RevisionHistory({ deploymentName, namespace }: RevisionHistoryProps) {
+  const { toast } = useToast();
+  const { data: revisions, isLoading, error } = useDeploymentRevisions(deploymentName, namespace);
+  const rollback = useRollbackDeployment();
+
+  const [compareRevision, setCompareRevision] = useState<number | undefined>();
+  const [rollbackRevision, setRollbackRevision] = useState<number | undefined>();
+
+  const currentRevision = revisions?.length ? revisions[revisions.length - 1].revision : undefined;
+  const { data: diff, isLoading: isDiffLoading } = useRevisionDiff(
+    deploymentName,
+    compareRevision,
+    currentRevision,
+    namespace
+  );
+
+  const handleRollback = async () => {
+    if (rollbackRevision === undefined) return;
+
+    try {
+      const result = await rollback.mutateAsync({
+        name: deploymentName,
+        namespace,
+        revision: rollbackRevision,
+      });
+      toast({
+        title: 'Rollback Started',
+        description: result.message,
+        variant: 'success',
+      });
+      setCompareRevision(undefined);
+    } catch (err) {
+      toast({
+        title: 'Rollback Failed',
+        description: err instanceof Error ? err.message : 'Failed to roll back deployment',
+        variant: 'destructive',
+      });
+    } finally {
+      setRollbackRevision(undefined);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          <CardTitle>Revision History</CardTitle>
+        </div>
+        <CardDescription>
+          Configurations this deployment has been applied with
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">
+            {error instanceof Error ? error.message : 'Failed to load revisions'}
+          </p>
+        ) : !revisions?.length ? (
+          <p className="text-sm text-muted-foreground">No revisions recorded yet</p>
+        ) : (
+          <div className="rounded-md border divide-y">
+            {[...revisions].reverse().map((revision) => {
+              const isCurrent = revision.revision === currentRevision;
+              return (
+                <div key={revision.revision} className="flex items-center justify-between gap-4 px-4 py-2">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="font-mono text-sm">#{revision.revision}</span>
+                    <span className="text-sm truncate">{revision.changeCause || 'Applied'}</span>
+                    {isCurrent && <Badge variant="secondary">Current</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <span className="text-xs text-muted-foreground">
+                      {formatRelativeTime(revision.createdAt)}
+                    </span>
+                    {!isCurrent && (
+                      <>
+                        <Button
+                          variant={compareRevision === revision.revision ? 'secondary' : 'ghost'}
+                          size="sm"
+                          onClick={() =>
+                            setCompareRevision(compareRevision === revision.revision ? undefined : revision.revision)
+                          }
+                        >
+                          <GitCompare className="mr-1 h-4 w-4" />
+                          Compare
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRollbackRevision(revision.revision)}
+                        >
+                          <RotateCcw className="mr-1 h-4 w-4" />
+                          Roll back
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {compareRevision !== undefined && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Changes from revision #{compareRevision} to the current revision #{currentRevision}
+            </p>
+            {isDiffLoading || !diff ? (
+              <div className="flex items-center justify-center py-4">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <>
+                <ChangeList title="Configuration" changes={diff.config} />
+                <ChangeList title="Manifest" changes={diff.manifest} />
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={rollbackRevision !== undefined}
+        onOpenChange={(open) => !open && setRollbackRevision(undefined)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll Back Deployment</DialogTitle>
+            <DialogDescription>
+              Re-apply the configuration of revision #{rollbackRevision} to <strong>{deploymentName}</strong>?
+              Pods are rolled by the runtime as needed.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollbackRevision(undefined)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRollback} disabled={rollback.isPending}>
+              {rollback.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Rolling back...
+                </>
+              ) : (
+                'Roll Back'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { Card, CardContent } from '@/components/ui/card'
 import { cn } from '@/lib/utils'
-import type { ComputedMetric } from '@/hooks/useMetrics'
+import { formatMetricRate, formatMetricValue, type ComputedMetric } from '@/hooks/useMetrics'
 import { TrendingUp, TrendingDown, Minus } from 'lucide-react'
 
 interface MetricCardProps {
@@ -35,6 +35,18 @@ export function MetricCard({ metric, className }: MetricCardProps) {
             <p className="text-2xl font-bold tabular-nums">
               {metric.formattedValue}
             </p>
+            {metric.rate !== undefined && (
+              <p className="text-xs text-muted-foreground tabular-nums">
+                {formatMetricRate(metric.rate, metric.unit)}
+              </p>
+            )}
+            {metric.percentiles && (
+              <p className="text-xs text-muted-foreground tabular-nums">
+                p50 {formatMetricValue(metric.percentiles.p50, metric.unit)}
+                {' · '}p90 {formatMetricValue(metric.percentiles.p90, metric.unit)}
+                {' · '}p99 {formatMetricValue(metric.percentiles.p99, metric.unit)}
+              </p>
+            )}
           </div>
           {metric.trend && (
             <TrendIcon className={cn("h-4 w-4", trendColor)} />
@@ -0,0 +1,69 @@
+import { Card, CardContent } from '@/components/ui/card'
+import { formatMetricValue } from '@/hooks/useMetrics'
+import type { MetricSeries } from '@/lib/api'
+import { cn } from '@/lib/utils'
+
+interface MetricChartProps {
+  series: MetricSeries
+  className?: string
+}
+
+const WIDTH = 320
+const HEIGHT = 96
+const PAD = { top: 8, right: 8, bottom: 16, left: 8 }
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Line chart of one metric's history, with its latest value
+ */
+export function MetricChart({ series, className }: MetricChartProps) {
+  const { samples } = series
+  const latest = samples[samples.length - 1]
+
+  const values = samples.map((s) => s.value)
+  const minY = Math.min(0, ...values)
+  const maxY = Math.max(...values, minY + Number.EPSILON)
+  const first = samples[0]?.timestamp ?? 0
+  const span = Math.max((latest?.timestamp ?? 0) - first, 1)
+
+  const x = (timestamp: number) => PAD.left + ((timestamp - first) / span) * (WIDTH - PAD.left - PAD.right)
+  const y = (value: number) => HEIGHT - PAD.bottom - ((value - minY) / (maxY - minY)) * (HEIGHT - PAD.top - PAD.bottom)
+
+  return (
+    <Card className={cn("", className)}>
+      <CardContent className="p-4 space-y-2">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="text-sm font-medium text-muted-foreground">{series.displayName}</p>
+          <p className="text-sm font-semibold tabular-nums">
+            {latest ? formatMetricValue(latest.value, series.unit) : 'N/A'}
+          </p>
+        </div>
+
+        {samples.length < 2 ? (
+          <p className="text-xs text-muted-foreground text-center py-8">Not enough data in this range</p>
+        ) : (
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full" role="img" aria-label={`${series.displayName} over time`}>
+            <line x1={PAD.left} y1={HEIGHT - PAD.bottom} x2={WIDTH - PAD.right} y2={HEIGHT - PAD.bottom} className="stroke-border" />
+            <polyline
+              points={samples.map((s) => `${x(s.timestamp)},${y(s.value)}`).join(' ')}
+              fill="none"
+              className="stroke-primary"
+              strokeWidth={1.5}
+            >
+              <title>{`Peak ${formatMetricValue(maxY, series.unit)}`}</title>
+            </polyline>
+            <text x={PAD.left} y={HEIGHT - 2} className="fill-muted-foreground text-[10px]">
+              {formatTime(first)}
+            </text>
+            <text x={WIDTH - PAD.right} y={HEIGHT - 2} textAnchor="end" className="fill-muted-foreground text-[10px]">
+              {formatTime(latest.timestamp)}
+            </text>
+          </svg>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -4,15 +4,16 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/com
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { MetricGrid } from './MetricCard'
+import { MetricChart } from './MetricChart'
 import { MetricsUnavailable } from './MetricsUnavailable'
-import { useMetrics, type ComputedMetrics } from '@/hooks/useMetrics'
+import { useMetrics, useMetricsHistory, type ComputedMetrics } from '@/hooks/useMetrics'
+import type { MetricsRange, MetricSeries } from '@/lib/api'
 import { RefreshCw, Pause, Play, Activity } from 'lucide-react'
 import { cn } from '@/lib/utils'
 
 interface MetricsTabProps {
   deploymentName: string
   namespace: string
-  provider: string
   className?: string
 }
 
@@ -27,6 +28,8 @@ const categoryLabels: Record<MetricCategory, string> = {
   errors: 'Errors',
 }
 
+const RANGES: MetricsRange[] = ['15m', '1h', '24h']
+
 const categoryIcons: Record<MetricCategory, string> = {
   all: '📊',
   queue: '📋',
@@ -71,20 +74,28 @@ function getAvailableCategories(metrics: ComputedMetrics | undefined): MetricCat
 /**
  * Metrics display component with category tabs and auto-refresh
  */
-export function MetricsTab({ deploymentName, namespace, provider, className }: MetricsTabProps) {
+export function MetricsTab({ deploymentName, namespace, className }: MetricsTabProps) {
   const [autoRefresh, setAutoRefresh] = useState(true)
   const [activeCategory, setActiveCategory] = useState<MetricCategory>('all')
+  const [range, setRange] = useState<MetricsRange>('1h')
 
   const { metrics, isLoading, error, refetch, dataUpdatedAt } = useMetrics(
     deploymentName,
     namespace,
-    provider,
     {
       enabled: true,
       refetchInterval: autoRefresh ? 10000 : undefined,
     }
   )
 
+  const { data: history } = useMetricsHistory(deploymentName, namespace, range, {
+    enabled: !!metrics?.available,
+    refetchInterval: autoRefresh ? 30000 : undefined,
+  })
+  const historySeries = history?.available ? history.series.filter((s) => s.samples.length > 0) : []
+  const seriesFor = (category: MetricCategory): MetricSeries[] =>
+    category === 'all' ? historySeries : historySeries.filter((s) => s.category === category)
+
   const availableCategories = getAvailableCategories(metrics)
 
   // Reset to 'all' if current category is not available
@@ -109,6 +120,22 @@ export function MetricsTab({ deploymentName, namespace, provider, className }: M
             <CardTitle>Metrics</CardTitle>
           </div>
           <div className="flex items-center gap-2">
+            {history?.available && (
+              <div className="flex rounded-md border" role="group" aria-label="History range">
+                {RANGES.map((r) => (
+                  <Button
+                    key={r}
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRange(r)}
+                    aria-pressed={range === r}
+                    className={cn("h-8 rounded-none px-2 first:rounded-l-md last:rounded-r-md", range === r && "bg-muted")}
+                  >
+                    {r}
+                  </Button>
+                ))}
+              </div>
+            )}
             {metrics?.available && (
               <span className="text-xs text-muted-foreground">
                 Updated {formatLastUpdated(new Date(dataUpdatedAt))}
@@ -145,7 +172,9 @@ export function MetricsTab({ deploymentName, namespace, provider, className }: M
           </div>
         </div>
         <CardDescription>
-          Real-time inference metrics from the deployment
+          {metrics?.source === 'prometheus'
+            ? 'Inference metrics for the deployment from Prometheus'
+            : 'Real-time inference metrics from the deployment'}
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -191,10 +220,23 @@ export function MetricsTab({ deploymentName, namespace, provider, className }: M
                       : metrics.metrics.filter((m) => m.category === category)
                   }
                 />
+                {seriesFor(category).length > 0 && (
+                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3 mt-4">
+                    {seriesFor(category).map((series) => (
+                      <MetricChart key={series.name} series={series} />
+                    ))}
+                  </div>
+                )}
               </TabsContent>
             ))}
           </Tabs>
         )}
+
+        {metrics?.available && history && !history.available && (
+          <p className="text-xs text-muted-foreground mt-4">
+            {history.error}
+          </p>
+        )}
       </CardContent>
     </Card>
   )
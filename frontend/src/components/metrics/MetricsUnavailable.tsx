@@ -34,11 +34,15 @@ export function MetricsUnavailable({ error, isLoading, runningOffCluster, classN
           <Server className="h-8 w-8 text-blue-500 mb-4" />
           <h3 className="font-semibold mb-1">Running in Local Mode</h3>
           <p className="text-sm text-muted-foreground max-w-md">
-            KubeFoundry is running outside the Kubernetes cluster.
+            KubeFoundry is running outside the Kubernetes cluster and cannot reach the deployment through the
+            API server.
           </p>
+          {error && <p className="text-xs text-muted-foreground mt-2 max-w-md">{error}</p>}
           <p className="text-xs text-muted-foreground mt-4 max-w-md bg-muted p-3 rounded-md">
-            💡 <strong>To enable metrics:</strong> Deploy KubeFoundry inside your Kubernetes cluster using the provided manifests. 
-            Metrics require in-cluster access to service DNS for communicating with inference deployments.
+            💡 <strong>To enable metrics:</strong> Give your kubeconfig user <code>get</code> access to{' '}
+            <code>pods/proxy</code> and <code>services/proxy</code>, set the URL of a Prometheus server that scrapes
+            your deployments in Settings → Integrations, or deploy KubeFoundry inside your Kubernetes cluster using
+            the provided manifests.
           </p>
         </CardContent>
       </Card>
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { useSettings, useUpdateSettings } from '@/hooks/useSettings'
+import { useToast } from '@/hooks/useToast'
+import { Activity, Loader2 } from 'lucide-react'
+
+/**
+ * Settings card for the Prometheus server deployment metrics and their
+ * history are queried from
+ */
+export function PrometheusSettingsCard() {
+  const { data: settings } = useSettings()
+  const updateSettings = useUpdateSettings()
+  const { toast } = useToast()
+
+  const savedUrl = settings?.config.prometheusUrl || ''
+  const [url, setUrl] = useState(savedUrl)
+
+  useEffect(() => {
+    setUrl(savedUrl)
+  }, [savedUrl])
+
+  const handleSave = async () => {
+    try {
+      await updateSettings.mutateAsync({ prometheusUrl: url.trim() })
+      toast({
+        title: url.trim() ? 'Prometheus connected' : 'Prometheus removed',
+        description: url.trim()
+          ? 'Deployment metrics are now read from Prometheus'
+          : 'Deployment metrics are scraped from the deployments directly',
+      })
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save the Prometheus URL',
+        variant: 'destructive',
+      })
+    }
+  }
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5" />
+          Prometheus
+        </CardTitle>
+        <CardDescription>
+          Query deployment metrics and their history from an existing Prometheus server
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="prometheus-url">Prometheus URL</Label>
+          <div className="flex gap-2">
+            <Input
+              id="prometheus-url"
+              placeholder="http://prometheus-server.monitoring:9090"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+            />
+            <Button onClick={handleSave} disabled={updateSettings.isPending || url.trim() === savedUrl}>
+              {updateSettings.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Prometheus must scrape the inference pods with <code>namespace</code> and <code>pod</code> labels, as
+            ServiceMonitors and PodMonitors do. Leave empty to scrape the deployment pods directly, or through the
+            Kubernetes API server when KubeFoundry runs outside the cluster.
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,3 +1,5 @@
 export { MetricCard, MetricGrid } from './MetricCard'
+export { MetricChart } from './MetricChart'
 export { MetricsTab } from './MetricsTab'
 export { MetricsUnavailable } from './MetricsUnavailable'
+export { PrometheusSettingsCard } from './PrometheusSettingsCard'
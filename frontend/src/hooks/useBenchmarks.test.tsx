@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { useBenchmarks, useStartBenchmark } from './useBenchmarks'
+import { createWrapper } from '@/test/test-utils'
+
+describe('useBenchmarks', () => {
+  it('lists benchmark reports for a deployment', async () => {
+    const { result } = renderHook(() => useBenchmarks('test-deployment', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data).toHaveLength(1)
+    expect(result.current.data?.[0].results.map((r) => r.concurrency)).toEqual([1, 8])
+  })
+
+  it('does not fetch without a deployment name', () => {
+    const { result } = renderHook(() => useBenchmarks(undefined), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.fetchStatus).toBe('idle')
+  })
+})
+
+describe('useStartBenchmark', () => {
+  it('starts a benchmark and returns the running report', async () => {
+    const { result } = renderHook(() => useStartBenchmark(), {
+      wrapper: createWrapper(),
+    })
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        name: 'test-deployment',
+        namespace: 'default',
+        config: { concurrency: [1, 4] },
+      })
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+    expect(result.current.data?.status).toBe('running')
+    expect(result.current.data?.config.concurrency).toEqual([1, 4])
+  })
+})
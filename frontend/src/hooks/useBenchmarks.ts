@@ -0,0 +1,52 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { deploymentsApi, type CreateBenchmarkRequest } from '@/lib/api'
+
+// How often to refresh reports while a benchmark is running
+const RUNNING_REFETCH_INTERVAL_MS = 3000
+
+/**
+ * Hook to list a deployment's benchmark reports, newest first.
+ * Polls while one of them is still running.
+ */
+export function useBenchmarks(name: string | undefined, namespace?: string) {
+  return useQuery({
+    queryKey: ['deployment-benchmarks', name, namespace],
+    queryFn: () => deploymentsApi.getBenchmarks(name!, namespace),
+    select: (data) => data.reports,
+    enabled: !!name,
+    refetchInterval: (query) =>
+      query.state.data?.reports.some((report) => report.status === 'running')
+        ? RUNNING_REFETCH_INTERVAL_MS
+        : false,
+  })
+}
+
+/**
+ * Hook to start a benchmark; it runs in the background on the server
+ */
+export function useStartBenchmark() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ name, namespace, config }: { name: string; namespace?: string; config: CreateBenchmarkRequest }) =>
+      deploymentsApi.startBenchmark(name, config, namespace),
+    onSuccess: (_data, { name, namespace }) => {
+      queryClient.invalidateQueries({ queryKey: ['deployment-benchmarks', name, namespace] })
+    },
+  })
+}
+
+/**
+ * Hook to delete a benchmark report, stopping it if it is running
+ */
+export function useDeleteBenchmark() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ name, namespace, id }: { name: string; namespace?: string; id: string }) =>
+      deploymentsApi.deleteBenchmark(name, id, namespace),
+    onSuccess: (_data, { name, namespace }) => {
+      queryClient.invalidateQueries({ queryKey: ['deployment-benchmarks', name, namespace] })
+    },
+  })
+}
@@ -29,3 +29,18 @@ export function useClusterNodes(enabled: boolean = true) {
     retry: 1,
   })
 }
+
+/**
+ * Hook to fetch node pools with their shared labels and taints,
+ * used to suggest scheduling constraints
+ */
+export function useNodePools(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['node-pools'],
+    queryFn: () => healthApi.getNodePools(),
+    select: (data) => data.nodePools,
+    enabled,
+    staleTime: 60000,
+    retry: 1,
+  })
+}
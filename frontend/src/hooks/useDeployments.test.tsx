@@ -4,7 +4,15 @@ import {
   useDeployments,
   useDeployment,
   useDeploymentPods,
+  useDeploymentEvents,
+  useDeploymentStream,
+  useDeploymentLogStream,
   useCreateDeployment,
+  useUpdateDeployment,
+  useDeploymentRevisions,
+  useRollbackDeployment,
+  useAttachAdapter,
+  useDetachAdapter,
   useDeleteDeployment
 } from './useDeployments'
 import { createWrapper, createTestQueryClient } from '@/test/test-utils'
@@ -116,6 +124,94 @@ describe('useDeploymentPods', () => {
   })
 })
 
+describe('useDeploymentEvents', () => {
+  it('fetches events newest first', async () => {
+    const { result } = renderHook(() => useDeploymentEvents('my-model', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data).toHaveLength(2)
+    expect(result.current.data?.[0]).toMatchObject({
+      type: 'warning',
+      reason: 'FailedScheduling',
+      count: 4,
+      involvedObject: { kind: 'Pod', name: 'my-model-worker-0' },
+    })
+  })
+
+  it('does not fetch when name is undefined', () => {
+    const { result } = renderHook(() => useDeploymentEvents(undefined), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.fetchStatus).toBe('idle')
+  })
+})
+
+describe('useDeploymentStream', () => {
+  it('writes the streamed snapshot into the deployments query', async () => {
+    const queryClient = createTestQueryClient()
+    const setQueryDataSpy = vi.spyOn(queryClient, 'setQueryData')
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        {children}
+      </QueryClientProvider>
+    )
+
+    const { unmount } = renderHook(() => useDeploymentStream(), { wrapper })
+
+    await waitFor(() => expect(setQueryDataSpy).toHaveBeenCalledWith(
+      ['deployments', undefined],
+      expect.objectContaining({ deployments: mockDeployments })
+    ))
+    unmount()
+  })
+
+  it('does not connect when disabled', () => {
+    const { result } = renderHook(() => useDeploymentStream(undefined, false), {
+      wrapper: createWrapper(),
+    })
+    expect(result.current).toBe(false)
+  })
+})
+
+describe('useDeploymentLogStream', () => {
+  it('collects streamed lines from all pods until the stream ends', async () => {
+    const { result } = renderHook(
+      () => useDeploymentLogStream('test-deployment', 'default', {}),
+      { wrapper: createWrapper() }
+    )
+
+    await waitFor(() => expect(result.current.status).toBe('ended'))
+    expect(result.current.lines.map(l => l.pod)).toEqual([
+      'test-deployment-worker-0',
+      'test-deployment-worker-1',
+    ])
+    expect(result.current.error).toBeNull()
+  })
+
+  it('passes the filter to the server', async () => {
+    const { result } = renderHook(
+      () => useDeploymentLogStream('test-deployment', 'default', { filter: 'WARN' }),
+      { wrapper: createWrapper() }
+    )
+
+    await waitFor(() => expect(result.current.status).toBe('ended'))
+    expect(result.current.lines.map(l => l.line)).toEqual(['WARN: slow request'])
+  })
+
+  it('stays idle when disabled', () => {
+    const { result } = renderHook(
+      () => useDeploymentLogStream('test-deployment', 'default', {}, false),
+      { wrapper: createWrapper() }
+    )
+    expect(result.current.status).toBe('idle')
+  })
+})
+
 describe('useCreateDeployment', () => {
   it('creates a deployment and invalidates queries', async () => {
     const queryClient = createTestQueryClient()
@@ -168,6 +264,106 @@ describe('useCreateDeployment', () => {
   })
 })
 
+describe('useUpdateDeployment', () => {
+  it('updates a deployment and invalidates queries', async () => {
+    const queryClient = createTestQueryClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        {children}
+      </QueryClientProvider>
+    )
+
+    const { result } = renderHook(() => useUpdateDeployment(), { wrapper })
+
+    result.current.mutate({
+      name: 'test-deployment',
+      namespace: 'kubefoundry-system',
+      update: { replicas: 3 },
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true), { timeout: 3000 })
+
+    expect(result.current.data?.message).toBe('Deployment updated successfully')
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['deployments'] })
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['deployment', 'test-deployment', 'kubefoundry-system'] })
+  })
+})
+
+describe('useDeploymentRevisions', () => {
+  it('fetches revisions oldest first', async () => {
+    const { result } = renderHook(() => useDeploymentRevisions('test-deployment', 'kubefoundry-system'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.map((r) => r.revision)).toEqual([1, 2])
+    expect(result.current.data?.[1].config.replicas).toBe(2)
+  })
+})
+
+describe('useRollbackDeployment', () => {
+  it('rolls back and invalidates revision history', async () => {
+    const queryClient = createTestQueryClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        {children}
+      </QueryClientProvider>
+    )
+
+    const { result } = renderHook(() => useRollbackDeployment(), { wrapper })
+
+    result.current.mutate({ name: 'test-deployment', namespace: 'kubefoundry-system', revision: 1 })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true), { timeout: 3000 })
+
+    expect(result.current.data?.rolledBackTo).toBe(1)
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['deployment-revisions', 'test-deployment', 'kubefoundry-system'] })
+  })
+})
+
+describe('useAttachAdapter', () => {
+  it('attaches an adapter and refreshes the deployment config', async () => {
+    const queryClient = createTestQueryClient()
+    const invalidateSpy = vi.spyOn(queryClient, 'invalidateQueries')
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <QueryClientProvider client={queryClient}>
+        {children}
+      </QueryClientProvider>
+    )
+
+    const { result } = renderHook(() => useAttachAdapter(), { wrapper })
+
+    result.current.mutate({
+      name: 'test-deployment',
+      namespace: 'kubefoundry-system',
+      adapter: { name: 'sql-lora', huggingFaceRepo: 'org/sql-lora' },
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.adapters.map((a) => a.name)).toEqual(['sql-lora'])
+    expect(invalidateSpy).toHaveBeenCalledWith({ queryKey: ['deployment-config', 'test-deployment', 'kubefoundry-system'] })
+  })
+})
+
+describe('useDetachAdapter', () => {
+  it('detaches an adapter by name', async () => {
+    const { result } = renderHook(() => useDetachAdapter(), { wrapper: createWrapper() })
+
+    result.current.mutate({ name: 'test-deployment', namespace: 'kubefoundry-system', adapter: 'sql-lora' })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.message).toBe("Adapter 'sql-lora' detached")
+  })
+})
+
 describe('useDeleteDeployment', () => {
   it('deletes a deployment and invalidates queries', async () => {
     const queryClient = createTestQueryClient()
@@ -1,6 +1,17 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
-import { deploymentsApi, type DeploymentConfig, type DeploymentStatus } from '@/lib/api'
-import { useState, useCallback } from 'react'
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query'
+import {
+  deploymentsApi,
+  type DeploymentConfig,
+  type DeploymentStatus,
+  type DeploymentStreamEvent,
+  type DeploymentsListResponse,
+  type DeploymentUpdate,
+  type LoraAdapter,
+  type LogStreamError,
+  type LogStreamLine,
+  type LogStreamOptions,
+} from '@/lib/api'
+import { useState, useCallback, useEffect } from 'react'
 
 /**
  * Granular status for deployment operations
@@ -13,21 +24,29 @@ export type DeploymentMutationStatus =
   | 'success'
   | 'error'
 
-export function useDeployments(namespace?: string) {
+/**
+ * Options for hooks that can rely on the live status stream instead of polling
+ */
+interface LiveQueryOptions {
+  /** Set when useDeploymentStream is connected; disables polling */
+  live?: boolean
+}
+
+export function useDeployments(namespace?: string, options?: LiveQueryOptions) {
   return useQuery({
     queryKey: ['deployments', namespace],
     queryFn: () => deploymentsApi.list(namespace),
     select: (data) => data.deployments,
-    refetchInterval: 10000, // Refresh every 10 seconds
+    refetchInterval: options?.live ? false : 10000, // Refresh every 10 seconds
   })
 }
 
-export function useDeployment(name: string | undefined, namespace?: string) {
+export function useDeployment(name: string | undefined, namespace?: string, options?: LiveQueryOptions) {
   return useQuery({
     queryKey: ['deployment', name, namespace],
     queryFn: () => deploymentsApi.get(name!, namespace),
     enabled: !!name,
-    refetchInterval: 5000, // Refresh every 5 seconds
+    refetchInterval: options?.live ? false : 5000, // Refresh every 5 seconds
   })
 }
 
@@ -41,6 +60,115 @@ export function useDeploymentPods(name: string | undefined, namespace?: string)
   })
 }
 
+/**
+ * Hook to fetch Kubernetes events for a deployment and its pods, newest first
+ */
+export function useDeploymentEvents(name: string | undefined, namespace?: string) {
+  return useQuery({
+    queryKey: ['deployment-events', name, namespace],
+    queryFn: () => deploymentsApi.getEvents(name!, namespace),
+    select: (data) => data.events,
+    enabled: !!name,
+    refetchInterval: 10000,
+  })
+}
+
+/** Delay before reconnecting a dropped deployment stream */
+const STREAM_RETRY_MS = 5000
+
+/**
+ * Apply a stream event to the cached deployment list, details and pods
+ */
+function applyDeploymentStreamEvent(
+  queryClient: QueryClient,
+  namespace: string | undefined,
+  event: DeploymentStreamEvent
+) {
+  const sortNewestFirst = (deployments: DeploymentStatus[]) =>
+    [...deployments].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  const toListResponse = (deployments: DeploymentStatus[]): DeploymentsListResponse => ({
+    deployments,
+    pagination: { total: deployments.length, limit: deployments.length, offset: 0, hasMore: false },
+  })
+  const updateList = (update: (deployments: DeploymentStatus[]) => DeploymentStatus[]) =>
+    queryClient.setQueryData<DeploymentsListResponse>(['deployments', namespace], (old) =>
+      old ? toListResponse(update(old.deployments)) : old
+    )
+  const isSame = (d: DeploymentStatus, name: string, ns: string) => d.name === name && d.namespace === ns
+
+  switch (event.type) {
+    case 'snapshot':
+      queryClient.setQueryData(['deployments', namespace], toListResponse(event.deployments))
+      break
+
+    case 'upsert': {
+      const { deployment } = event
+      updateList((deployments) => sortNewestFirst([
+        ...deployments.filter((d) => !isSame(d, deployment.name, deployment.namespace)),
+        deployment,
+      ]))
+      // Detail queries may be keyed without a namespace, so match on the cached object
+      queryClient.setQueriesData<DeploymentStatus>({ queryKey: ['deployment', deployment.name] }, (old) =>
+        old && old.namespace === deployment.namespace ? deployment : old
+      )
+      for (const [queryKey] of queryClient.getQueriesData({ queryKey: ['deployment-pods', deployment.name] })) {
+        const podsNamespace = queryKey[2]
+        if (podsNamespace === undefined || podsNamespace === deployment.namespace) {
+          queryClient.setQueryData(queryKey, { pods: deployment.pods })
+        }
+      }
+      break
+    }
+
+    case 'delete':
+      updateList((deployments) => deployments.filter((d) => !isSame(d, event.name, event.namespace)))
+      break
+  }
+}
+
+/**
+ * Subscribe to the deployment status stream and keep cached queries up to date.
+ * Returns whether the stream is connected, so callers can turn off polling.
+ */
+export function useDeploymentStream(namespace?: string, enabled = true) {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+
+  useEffect(() => {
+    if (!enabled) return
+
+    const controller = new AbortController()
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+
+    const connect = () => {
+      deploymentsApi
+        .stream((event) => {
+          setConnected(true)
+          applyDeploymentStreamEvent(queryClient, namespace, event)
+        }, namespace, controller.signal)
+        .catch((error) => {
+          if (!controller.signal.aborted) {
+            console.warn('[Deployments] Status stream failed, falling back to polling:', error)
+          }
+        })
+        .finally(() => {
+          setConnected(false)
+          if (!controller.signal.aborted) {
+            retryTimer = setTimeout(connect, STREAM_RETRY_MS)
+          }
+        })
+    }
+    connect()
+
+    return () => {
+      controller.abort()
+      if (retryTimer) clearTimeout(retryTimer)
+    }
+  }, [namespace, enabled, queryClient])
+
+  return connected
+}
+
 export function useDeploymentLogs(
   name: string | undefined,
   namespace?: string,
@@ -56,6 +184,79 @@ export function useDeploymentLogs(
   })
 }
 
+/** Most recent streamed log lines kept in memory */
+const MAX_STREAMED_LOG_LINES = 5000
+
+/** How often streamed lines are flushed into state, to avoid a render per line */
+const LOG_FLUSH_INTERVAL_MS = 250
+
+export type LogStreamStatus = 'idle' | 'streaming' | 'ended' | 'error'
+
+/**
+ * Hook to follow logs from a deployment's pods over the streaming endpoint.
+ * Restarts the stream whenever the options change.
+ */
+export function useDeploymentLogStream(
+  name: string | undefined,
+  namespace: string | undefined,
+  options: LogStreamOptions,
+  enabled = true
+) {
+  const [lines, setLines] = useState<LogStreamLine[]>([])
+  const [streamErrors, setStreamErrors] = useState<LogStreamError[]>([])
+  const [status, setStatus] = useState<LogStreamStatus>('idle')
+  const [error, setError] = useState<Error | null>(null)
+
+  // Options arrive as a fresh object each render; compare by value
+  const optionsKey = JSON.stringify(options)
+
+  useEffect(() => {
+    if (!enabled || !name) {
+      setStatus('idle')
+      return
+    }
+
+    const controller = new AbortController()
+    let pending: LogStreamLine[] = []
+    const flush = () => {
+      if (pending.length === 0) return
+      const batch = pending
+      pending = []
+      setLines((prev) => [...prev, ...batch].slice(-MAX_STREAMED_LOG_LINES))
+    }
+    const flushTimer = setInterval(flush, LOG_FLUSH_INTERVAL_MS)
+
+    setLines([])
+    setStreamErrors([])
+    setError(null)
+    setStatus('streaming')
+
+    deploymentsApi
+      .streamLogs(name, namespace, JSON.parse(optionsKey) as LogStreamOptions, {
+        onLine: (line) => pending.push(line),
+        onError: (streamError) => setStreamErrors((prev) => [...prev, streamError]),
+      }, controller.signal)
+      .then(() => {
+        flush()
+        if (!controller.signal.aborted) setStatus('ended')
+      })
+      .catch((err) => {
+        if (controller.signal.aborted) return
+        flush()
+        setError(err instanceof Error ? err : new Error('Log stream failed'))
+        setStatus('error')
+      })
+      .finally(() => clearInterval(flushTimer))
+
+    return () => {
+      controller.abort()
+      clearInterval(flushTimer)
+    }
+  }, [name, namespace, optionsKey, enabled])
+
+  return { lines, streamErrors, status, error }
+}
+
 /**
  * Hook to fetch manifests for a deployment
  * Returns all resources including the main CR and related resources (Services, ConfigMaps, etc.)
@@ -70,6 +271,43 @@ export function useDeploymentManifest(name: string | undefined, namespace?: stri
   })
 }
 
+/**
+ * Hook to fetch the config a deployment was last applied with
+ * Used to prefill the edit dialog
+ */
+export function useDeploymentConfig(name: string | undefined, namespace?: string, enabled = true) {
+  return useQuery({
+    queryKey: ['deployment-config', name, namespace],
+    queryFn: () => deploymentsApi.getConfig(name!, namespace),
+    select: (data) => data.config,
+    enabled: !!name && enabled,
+    retry: false,
+  })
+}
+
+/**
+ * Hook to fetch the recorded revision history of a deployment
+ */
+export function useDeploymentRevisions(name: string | undefined, namespace?: string) {
+  return useQuery({
+    queryKey: ['deployment-revisions', name, namespace],
+    queryFn: () => deploymentsApi.getRevisions(name!, namespace),
+    select: (data) => data.revisions,
+    enabled: !!name,
+  })
+}
+
+/**
+ * Hook to compare two revisions; disabled until two different revisions are selected
+ */
+export function useRevisionDiff(name: string | undefined, from?: number, to?: number, namespace?: string) {
+  return useQuery({
+    queryKey: ['deployment-revision-diff', name, namespace, from, to],
+    queryFn: () => deploymentsApi.diffRevisions(name!, from!, to!, namespace),
+    enabled: !!name && from !== undefined && to !== undefined && from !== to,
+  })
+}
+
 /**
  * Enhanced create deployment hook with granular status tracking
  * Provides status: 'idle' | 'validating' | 'submitting' | 'success' | 'error'
@@ -117,6 +355,93 @@ export function useCreateDeployment() {
   }
 }
 
+/**
+ * Update deployment hook for in-place edits and scaling
+ */
+export function useUpdateDeployment() {
+  const queryClient = useQueryClient()
+  const [status, setStatus] = useState<DeploymentMutationStatus>('idle')
+
+  const mutation = useMutation({
+    mutationFn: async ({ name, namespace, update }: { name: string; namespace?: string; update: DeploymentUpdate }) => {
+      setStatus('submitting')
+      return deploymentsApi.update(name, update, namespace)
+    },
+    onSuccess: (_data, { name, namespace }) => {
+      setStatus('success')
+      queryClient.invalidateQueries({ queryKey: ['deployments'] })
+      queryClient.invalidateQueries({ queryKey: ['deployment', name, namespace] })
+      queryClient.invalidateQueries({ queryKey: ['deployment-config', name, namespace] })
+      queryClient.invalidateQueries({ queryKey: ['deployment-manifest', name, namespace] })
+      queryClient.invalidateQueries({ queryKey: ['deployment-revisions', name, namespace] })
+      setTimeout(() => setStatus('idle'), 1000)
+    },
+    onError: () => {
+      setStatus('error')
+      setTimeout(() => setStatus('idle'), 3000)
+    },
+  })
+
+  const reset = useCallback(() => {
+    setStatus('idle')
+    mutation.reset()
+  }, [mutation])
+
+  return {
+    ...mutation,
+    status,
+    reset,
+    isProcessing: status === 'submitting',
+  }
+}
+
+function invalidateDeploymentConfig(queryClient: QueryClient, name: string, namespace?: string) {
+  queryClient.invalidateQueries({ queryKey: ['deployments'] })
+  queryClient.invalidateQueries({ queryKey: ['deployment', name, namespace] })
+  queryClient.invalidateQueries({ queryKey: ['deployment-config', name, namespace] })
+  queryClient.invalidateQueries({ queryKey: ['deployment-manifest', name, namespace] })
+  queryClient.invalidateQueries({ queryKey: ['deployment-revisions', name, namespace] })
+}
+
+/**
+ * Roll a deployment back to a previously recorded revision
+ */
+export function useRollbackDeployment() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ name, namespace, revision }: { name: string; namespace?: string; revision: number }) =>
+      deploymentsApi.rollback(name, revision, namespace),
+    onSuccess: (_data, { name, namespace }) => invalidateDeploymentConfig(queryClient, name, namespace),
+  })
+}
+
+/**
+ * Attach a LoRA adapter to a running deployment, served under its own model name
+ */
+export function useAttachAdapter() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ name, namespace, adapter }: { name: string; namespace?: string; adapter: LoraAdapter }) =>
+      deploymentsApi.attachAdapter(name, adapter, namespace),
+    onSuccess: (_data, { name, namespace }) => invalidateDeploymentConfig(queryClient, name, namespace),
+  })
+}
+
+/**
+ * Stop serving a LoRA adapter on a running deployment
+ */
+export function useDetachAdapter() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ name, namespace, adapter }: { name: string; namespace?: string; adapter: string }) =>
+      deploymentsApi.detachAdapter(name, adapter, namespace),
+    onSuccess: (_data, { name, namespace }) => invalidateDeploymentConfig(queryClient, name, namespace),
+  })
+}
+
 /**
  * Enhanced delete deployment hook with granular status tracking
  */
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, waitFor } from '@testing-library/react'
+import { formatMetricRate, formatMetricValue, useMetrics, useMetricsHistory } from './useMetrics'
+import { createWrapper } from '@/test/test-utils'
+
+describe('useMetrics', () => {
+  it('carries counter rates and histogram percentiles into the computed metrics', async () => {
+    const { result } = renderHook(() => useMetrics('test-deployment', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    const byName = new Map(result.current.metrics?.metrics.map((m) => [m.name, m]))
+    expect(byName.get('vllm:generation_tokens_total')?.rate).toBe(42)
+    expect(byName.get('vllm:e2e_request_latency_seconds')?.value).toBe(0.5)
+    expect(byName.get('vllm:e2e_request_latency_seconds')?.percentiles?.p99).toBe(1.8)
+  })
+})
+
+describe('useMetricsHistory', () => {
+  it('fetches the series for the requested range', async () => {
+    const { result } = renderHook(() => useMetricsHistory('test-deployment', 'default', '15m'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.range).toBe('15m')
+    expect(result.current.data?.step).toBe(15)
+    expect(result.current.data?.series[0].samples).toHaveLength(2)
+  })
+
+  it('does not fetch without a deployment name', () => {
+    const { result } = renderHook(() => useMetricsHistory(undefined, 'default', '1h'), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.fetchStatus).toBe('idle')
+  })
+})
+
+describe('formatMetricValue', () => {
+  it('formats values by unit', () => {
+    expect(formatMetricValue(0.25, '%')).toBe('25.0%')
+    expect(formatMetricValue(0.5, 's')).toBe('500.0ms')
+    expect(formatMetricValue(1500, 'tokens/s')).toBe('1.5k tokens/s')
+    expect(formatMetricValue(Number.NaN, 'requests')).toBe('N/A')
+  })
+
+  it('formats counter rates per second', () => {
+    expect(formatMetricRate(1500, 'tokens')).toBe('1.5k tokens/s')
+    expect(formatMetricRate(2.5, 'requests')).toBe('2.5 req/s')
+    expect(formatMetricRate(0.25, 'errors')).toBe('0.25 errors/s')
+  })
+})
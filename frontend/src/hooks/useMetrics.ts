@@ -1,11 +1,11 @@
 import { useQuery } from '@tanstack/react-query'
 import { metricsApi } from '@/lib/api'
-import type { MetricsResponse, ComputedMetrics, ComputedMetric, MetricDefinition, RawMetricValue } from '@kubefoundry/shared'
+import type { MetricsResponse, ComputedMetrics, ComputedMetric, MetricsRange, RawMetricValue } from '@kubefoundry/shared'
 
 /**
  * Format a numeric value for display with appropriate units and precision
  */
-function formatMetricValue(value: number, unit: string): string {
+export function formatMetricValue(value: number, unit: string): string {
   // Handle special cases
   if (!Number.isFinite(value)) {
     return 'N/A'
@@ -57,57 +57,23 @@ function formatMetricValue(value: number, unit: string): string {
 }
 
 /**
- * vLLM metric definitions (Dynamo provider)
+ * Format a counter's per-second rate, e.g. "tokens" become "tokens/s"
  */
-const vllmMetricDefinitions: MetricDefinition[] = [
-  { name: 'vllm:num_requests_running', displayName: 'Running Requests', description: 'Number of requests currently being processed', unit: 'requests', type: 'gauge', category: 'queue' },
-  { name: 'vllm:num_requests_waiting', displayName: 'Waiting Requests', description: 'Number of requests waiting in queue', unit: 'requests', type: 'gauge', category: 'queue' },
-  { name: 'vllm:gpu_cache_usage_perc', displayName: 'GPU Cache Usage', description: 'Percentage of GPU KV cache in use', unit: '%', type: 'gauge', category: 'cache' },
-  { name: 'vllm:gpu_prefix_cache_hit_rate', displayName: 'Prefix Cache Hit Rate', description: 'Hit rate for prefix caching', unit: '%', type: 'gauge', category: 'cache' },
-  { name: 'vllm:e2e_request_latency_seconds', displayName: 'E2E Latency', description: 'End-to-end request latency', unit: 's', type: 'histogram', category: 'latency' },
-  { name: 'vllm:time_to_first_token_seconds', displayName: 'Time to First Token', description: 'Time from request to first token', unit: 's', type: 'histogram', category: 'latency' },
-  { name: 'vllm:time_per_output_token_seconds', displayName: 'Time per Token', description: 'Average time per output token', unit: 's', type: 'histogram', category: 'latency' },
-  { name: 'vllm:prompt_tokens_total', displayName: 'Prompt Tokens', description: 'Total prompt tokens processed', unit: 'tokens', type: 'counter', category: 'throughput' },
-  { name: 'vllm:generation_tokens_total', displayName: 'Generated Tokens', description: 'Total tokens generated', unit: 'tokens', type: 'counter', category: 'throughput' },
-  { name: 'vllm:request_success_total', displayName: 'Successful Requests', description: 'Total successful requests', unit: 'requests', type: 'counter', category: 'throughput' },
-]
-
-/**
- * Ray Serve metric definitions (KubeRay provider)
- */
-const rayServeMetricDefinitions: MetricDefinition[] = [
-  { name: 'ray_serve_replica_processing_queries', displayName: 'Processing Queries', description: 'Queries being processed by replicas', unit: 'queries', type: 'gauge', category: 'queue' },
-  { name: 'ray_serve_deployment_queued_queries', displayName: 'Queued Queries', description: 'Queries waiting in deployment queue', unit: 'queries', type: 'gauge', category: 'queue' },
-  { name: 'ray_serve_deployment_processing_latency_ms', displayName: 'Processing Latency', description: 'Deployment processing latency', unit: 'ms', type: 'histogram', category: 'latency' },
-  { name: 'ray_serve_http_request_latency_ms', displayName: 'HTTP Latency', description: 'HTTP request latency', unit: 'ms', type: 'histogram', category: 'latency' },
-  { name: 'ray_serve_deployment_request_counter_total', displayName: 'Total Requests', description: 'Total deployment requests', unit: 'requests', type: 'counter', category: 'throughput' },
-  { name: 'ray_serve_num_http_requests_total', displayName: 'HTTP Requests', description: 'Total HTTP requests', unit: 'requests', type: 'counter', category: 'throughput' },
-  { name: 'ray_serve_deployment_error_counter_total', displayName: 'Deployment Errors', description: 'Total deployment errors', unit: 'errors', type: 'counter', category: 'errors' },
-  { name: 'ray_serve_num_http_error_requests_total', displayName: 'HTTP Errors', description: 'Total HTTP error responses', unit: 'errors', type: 'counter', category: 'errors' },
-]
-
-/**
- * Get metric definitions based on provider type
- */
-function getMetricDefinitions(provider: string): MetricDefinition[] {
-  switch (provider) {
-    case 'dynamo':
-      return vllmMetricDefinitions
-    case 'kuberay':
-      return rayServeMetricDefinitions
-    default:
-      // Try to detect from metrics - if metrics contain "vllm:" prefix, use vLLM definitions
-      return vllmMetricDefinitions
+export function formatMetricRate(rate: number, unit: string): string {
+  if (unit === 'tokens') {
+    return formatMetricValue(rate, 'tokens/s')
+  }
+  if (unit === 'requests') {
+    return formatMetricValue(rate, 'req/s')
   }
+  return `${formatMetricValue(rate, unit)} ${unit}/s`
 }
 
 /**
- * Compute metrics from raw Prometheus values
+ * Compute metrics from raw Prometheus values, one per key metric definition
+ * the backend returned for the deployment's provider and engine
  */
-function computeMetrics(
-  response: MetricsResponse,
-  provider: string
-): ComputedMetrics {
+function computeMetrics(response: MetricsResponse): ComputedMetrics {
   if (!response.available) {
     return {
       available: false,
@@ -118,8 +84,9 @@ function computeMetrics(
     }
   }
 
-  const definitions = getMetricDefinitions(provider)
+  const definitions = response.definitions || []
   const computed: ComputedMetric[] = []
+  const derived = new Map((response.derived || []).map((d) => [d.name, d]))
 
   for (const def of definitions) {
     // Find matching metrics
@@ -143,6 +110,7 @@ function computeMetrics(
             formattedValue: formatMetricValue(avgValue, def.unit),
             unit: def.unit,
             category: def.category,
+            percentiles: derived.get(def.name)?.percentiles,
           })
         }
       }
@@ -159,6 +127,7 @@ function computeMetrics(
       formattedValue: formatMetricValue(totalValue, def.unit),
       unit: def.unit,
       category: def.category,
+      rate: derived.get(def.name)?.rate,
     })
   }
 
@@ -167,6 +136,7 @@ function computeMetrics(
     lastUpdated: new Date(response.timestamp),
     metrics: computed,
     runningOffCluster: response.runningOffCluster,
+    source: response.source,
   }
 }
 
@@ -176,14 +146,13 @@ function computeMetrics(
 export function useMetrics(
   deploymentName: string | undefined,
   namespace: string | undefined,
-  provider: string = 'dynamo',
   options?: { enabled?: boolean; refetchInterval?: number }
 ) {
   const query = useQuery({
     queryKey: ['metrics', deploymentName, namespace],
     queryFn: async () => {
       const response = await metricsApi.get(deploymentName!, namespace)
-      return computeMetrics(response, provider)
+      return computeMetrics(response)
     },
     enabled: options?.enabled !== false && !!deploymentName,
     refetchInterval: options?.refetchInterval ?? 10000, // Default 10 seconds
@@ -197,4 +166,24 @@ export function useMetrics(
   }
 }
 
+/**
+ * Hook for fetching the history of a deployment's key metrics. History comes
+ * from Prometheus, so the response is unavailable when none is configured.
+ */
+export function useMetricsHistory(
+  deploymentName: string | undefined,
+  namespace: string | undefined,
+  range: MetricsRange,
+  options?: { enabled?: boolean; refetchInterval?: number }
+) {
+  return useQuery({
+    queryKey: ['metrics-history', deploymentName, namespace, range],
+    queryFn: () => metricsApi.getHistory(deploymentName!, range, namespace),
+    enabled: options?.enabled !== false && !!deploymentName,
+    refetchInterval: options?.refetchInterval,
+    staleTime: 15000,
+    retry: false,
+  })
+}
+
 export type { ComputedMetrics, ComputedMetric }
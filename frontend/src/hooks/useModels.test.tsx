@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest'
-import { renderHook, waitFor } from '@testing-library/react'
-import { useModels, useModel, hfModelToModel } from './useModels'
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { useModels, useModel, hfModelToModel, useModelPrefetch, useStartModelPrefetch } from './useModels'
 import { createWrapper } from '@/test/test-utils'
 import type { HfModelSearchResult } from '@/lib/api'
 
@@ -51,6 +51,46 @@ describe('useModel', () => {
   })
 })
 
+describe('useStartModelPrefetch', () => {
+  it('starts a prefetch Job', async () => {
+    const { result } = renderHook(() => useStartModelPrefetch(), {
+      wrapper: createWrapper(),
+    })
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        modelId: 'Qwen/Qwen3-0.6B',
+        namespace: 'default',
+        modelCache: { claimName: 'hf-cache', size: '100Gi' },
+      })
+    })
+
+    expect(result.current.data?.phase).toBe('Pending')
+    expect(result.current.data?.claimName).toBe('hf-cache')
+  })
+})
+
+describe('useModelPrefetch', () => {
+  it('fetches prefetch progress', async () => {
+    const { result } = renderHook(() => useModelPrefetch('prefetch-qwen3-0-6b-a1b2c3', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true))
+
+    expect(result.current.data?.phase).toBe('Running')
+    expect(result.current.data?.progress?.filesDone).toBe(1)
+  })
+
+  it('does not fetch without a name', () => {
+    const { result } = renderHook(() => useModelPrefetch(undefined), {
+      wrapper: createWrapper(),
+    })
+
+    expect(result.current.fetchStatus).toBe('idle')
+  })
+})
+
 describe('hfModelToModel', () => {
   it('converts HF search result to Model type', () => {
     const hfModel: HfModelSearchResult = {
@@ -1,5 +1,5 @@
-import { useQuery } from '@tanstack/react-query'
-import { modelsApi, huggingFaceApi, type Model, type HfModelSearchResult } from '@/lib/api'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { modelsApi, huggingFaceApi, type Model, type HfModelSearchResult, type ModelPrefetchRequest } from '@/lib/api'
 import { getHfAccessToken } from './useHuggingFace'
 
 // Fallback static models for when API is unavailable
@@ -86,6 +86,9 @@ const fallbackModels: Model[] = [
   },
 ]
 
+// How often to refresh a prefetch while its Job is downloading
+const PREFETCH_REFETCH_INTERVAL_MS = 3000
+
 export function useModels() {
   return useQuery({
     queryKey: ['models'],
@@ -187,3 +190,32 @@ export function useHfModel(id: string | undefined) {
     staleTime: 60000, // 60 seconds
   });
 }
+
+/**
+ * Hook to follow a model prefetch Job. Polls until it succeeds or fails.
+ */
+export function useModelPrefetch(name: string | undefined, namespace?: string) {
+  return useQuery({
+    queryKey: ['model-prefetch', name, namespace],
+    queryFn: () => modelsApi.getPrefetch(name!, namespace),
+    enabled: !!name,
+    refetchInterval: (query) => {
+      const phase = query.state.data?.phase
+      return phase === 'Succeeded' || phase === 'Failed' ? false : PREFETCH_REFETCH_INTERVAL_MS
+    },
+  })
+}
+
+/**
+ * Hook to start downloading a model into a cache claim
+ */
+export function useStartModelPrefetch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (request: ModelPrefetchRequest) => modelsApi.prefetch(request),
+    onSuccess: (prefetch) => {
+      queryClient.setQueryData(['model-prefetch', prefetch.name, prefetch.namespace], prefetch)
+    },
+  })
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { renderHook, waitFor, act } from '@testing-library/react'
+import { http, HttpResponse } from 'msw'
+import { server } from '@/test/mocks/server'
+import { useChatCompletion } from './usePlayground'
+import { createWrapper } from '@/test/test-utils'
+
+describe('useChatCompletion', () => {
+  it('streams the reply and measures the response', async () => {
+    const { result } = renderHook(() => useChatCompletion('test-deployment', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    let reply = ''
+    await act(async () => {
+      reply = await result.current.send({ messages: [{ role: 'user', content: 'Hi' }] })
+    })
+
+    expect(reply).toBe('Hello there!')
+    expect(result.current.content).toBe('Hello there!')
+    expect(result.current.isStreaming).toBe(false)
+    expect(result.current.error).toBeNull()
+    expect(result.current.stats?.completionTokens).toBe(3)
+    expect(result.current.stats?.ttftMs).not.toBeNull()
+  })
+
+  it('surfaces server errors', async () => {
+    server.use(
+      http.post('*/api/deployments/:name/chat/completions', () =>
+        HttpResponse.json(
+          { error: { message: "Deployment 'test-deployment' is not running (phase: Pending)" } },
+          { status: 409 }
+        )
+      )
+    )
+
+    const { result } = renderHook(() => useChatCompletion('test-deployment', 'default'), {
+      wrapper: createWrapper(),
+    })
+
+    await act(async () => {
+      await result.current.send({ messages: [{ role: 'user', content: 'Hi' }] })
+    })
+
+    await waitFor(() => expect(result.current.error?.message).toContain('not running'))
+  })
+})
@@ -0,0 +1,101 @@
+import { useState, useCallback, useEffect, useRef } from 'react'
+import { deploymentsApi, type ChatCompletionRequest, type CompletionUsage } from '@/lib/api'
+
+/**
+ * Timing of one streamed chat completion, measured in the browser
+ */
+export interface ChatCompletionStats {
+  /** Time from sending the request to the first content token */
+  ttftMs: number | null
+  /** Time from sending the request to the end of the stream */
+  totalMs: number
+  /** Reported by the server when available, otherwise the number of content chunks */
+  completionTokens: number
+  /** Decode rate: tokens after the first one over the time since the first one */
+  tokensPerSecond: number | null
+  usage?: CompletionUsage
+}
+
+/**
+ * Hook to stream chat completions from a deployment.
+ * `send` resolves with the full response text, including when stopped early.
+ */
+export function useChatCompletion(name: string | undefined, namespace?: string) {
+  const [content, setContent] = useState('')
+  const [isStreaming, setIsStreaming] = useState(false)
+  const [error, setError] = useState<Error | null>(null)
+  const [stats, setStats] = useState<ChatCompletionStats | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Abort an in-flight completion on unmount
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const send = useCallback(async (request: ChatCompletionRequest): Promise<string> => {
+    if (!name) return ''
+
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    setContent('')
+    setError(null)
+    setStats(null)
+    setIsStreaming(true)
+
+    const startedAt = performance.now()
+    let firstTokenAt: number | null = null
+    let chunkCount = 0
+    let usage: CompletionUsage | undefined
+    let text = ''
+
+    try {
+      await deploymentsApi.chat(name, namespace, request, (chunk) => {
+        if (chunk.usage) usage = chunk.usage
+        const delta = chunk.choices[0]?.delta?.content
+        if (!delta) return
+
+        firstTokenAt ??= performance.now()
+        chunkCount += 1
+        text += delta
+        setContent(text)
+      }, controller.signal)
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err : new Error('Chat completion failed'))
+      }
+    } finally {
+      // Skip bookkeeping when a newer request or a reset has taken over
+      if (controllerRef.current === controller) {
+        const endedAt = performance.now()
+        const completionTokens = usage?.completion_tokens ?? chunkCount
+        const decodeSeconds = firstTokenAt !== null ? (endedAt - firstTokenAt) / 1000 : 0
+        setStats({
+          ttftMs: firstTokenAt !== null ? firstTokenAt - startedAt : null,
+          totalMs: endedAt - startedAt,
+          completionTokens,
+          tokensPerSecond: completionTokens > 1 && decodeSeconds > 0 ? (completionTokens - 1) / decodeSeconds : null,
+          usage,
+        })
+        controllerRef.current = null
+        setIsStreaming(false)
+      }
+    }
+
+    return text
+  }, [name, namespace])
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const reset = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsStreaming(false)
+    setContent('')
+    setError(null)
+    setStats(null)
+  }, [])
+
+  return { send, stop, reset, content, isStreaming, error, stats }
+}
@@ -77,6 +77,7 @@ describe('useProviders', () => {
     expect(provider.id).toBeDefined()
     expect(provider.name).toBeDefined()
     expect(provider.description).toBeDefined()
+    expect(provider.capabilities.engines.length).toBeGreaterThan(0)
   })
 })
 
@@ -92,6 +93,7 @@ describe('useProviderDetails', () => {
     expect(result.current.data?.id).toBe('dynamo')
     expect(result.current.data?.name).toBeDefined()
     expect(result.current.data?.crdConfig).toBeDefined()
+    expect(result.current.data?.capabilities.routerModes).toContain('kv')
   })
 
   it('does not fetch when id is empty', async () => {
@@ -9,19 +9,21 @@ export function useSettings() {
 }
 
 /**
- * Update settings (currently only defaultNamespace).
+ * Update settings (defaultNamespace and prometheusUrl).
  * Active provider is no longer a global setting - each deployment specifies its runtime.
  */
 export function useUpdateSettings() {
   const queryClient = useQueryClient()
 
   return useMutation({
-    mutationFn: (settings: { defaultNamespace?: string }) =>
+    mutationFn: (settings: { defaultNamespace?: string; prometheusUrl?: string }) =>
       settingsApi.update(settings),
     onSuccess: () => {
       // Invalidate settings and cluster status queries
       queryClient.invalidateQueries({ queryKey: ['settings'] })
       queryClient.invalidateQueries({ queryKey: ['cluster-status'] })
+      queryClient.invalidateQueries({ queryKey: ['metrics'] })
+      queryClient.invalidateQueries({ queryKey: ['metrics-history'] })
     },
   })
 }
@@ -5,6 +5,8 @@ const API_BASE = import.meta.env.VITE_API_URL || '';
 
 console.log('[API] API_BASE:', API_BASE || '(same origin)');
 
+import { readServerSentEvents, type ServerSentEvent } from './sse';
+
 // Auth token storage key
 const AUTH_TOKEN_KEY = 'kubefoundry_auth_token';
 
@@ -41,6 +43,17 @@ export type {
   PodPhase,
   GgufRunMode,
   DeploymentConfig,
+  DeploymentUpdate,
+  DeploymentRevision,
+  DeploymentRevisionChange,
+  DeploymentRevisionDiff,
+  DeploymentStreamEvent,
+  DeploymentEvent,
+  Toleration,
+  Affinity,
+  TopologySpreadConstraint,
+  LoraAdapter,
+  LoraAdapterSource,
   PodStatus,
   DeploymentStatus,
   ClusterStatus,
@@ -48,6 +61,7 @@ export type {
 
 // Settings types
 export type {
+  ProviderCapabilities,
   ProviderInfo,
   ProviderDetails,
   Settings,
@@ -82,7 +96,17 @@ export type {
 export type {
   Pagination,
   DeploymentsListResponse,
+  DeploymentUpdateResponse,
+  DeploymentConfigResponse,
+  DeploymentRevisionsResponse,
+  DeploymentRollbackResponse,
+  DeploymentAdaptersResponse,
+  DeploymentEventsResponse,
+  DeploymentPreviewResource,
+  DeploymentPreviewResponse,
+  ManifestDryRunResult,
   ClusterStatusResponse,
+  NodePoolsResponse,
 } from '@kubefoundry/shared';
 
 // Metrics types
@@ -92,6 +116,11 @@ export type {
   ComputedMetric,
   ComputedMetrics,
   MetricDefinition,
+  MetricsRange,
+  MetricSample,
+  MetricSeries,
+  MetricsHistoryResponse,
+  HistogramPercentiles,
 } from '@kubefoundry/shared';
 
 // Autoscaler types
@@ -100,9 +129,42 @@ export type {
   AutoscalerStatusInfo,
   DetailedClusterCapacity,
   NodePoolInfo,
+  NodeTaint,
   PodFailureReason,
   PodLogsOptions,
   PodLogsResponse,
+  LogStreamOptions,
+  LogStreamLine,
+  LogStreamError,
+} from '@kubefoundry/shared';
+
+// Inference types
+export type {
+  ChatMessage,
+  ChatCompletionRequest,
+  ChatCompletionChunk,
+  CompletionUsage,
+} from '@kubefoundry/shared';
+
+// Model cache types
+export type {
+  ModelCacheConfig,
+  ModelPrefetchPhase,
+  ModelPrefetchProgress,
+  ModelPrefetchRequest,
+  ModelPrefetchStatus,
+  ModelPrefetchListResponse,
+} from '@kubefoundry/shared';
+
+// Benchmark types
+export type {
+  BenchmarkConfig,
+  CreateBenchmarkRequest,
+  BenchmarkReport,
+  BenchmarkStepResult,
+  BenchmarkStatus,
+  LatencyStats,
+  BenchmarkListResponse,
 } from '@kubefoundry/shared';
 
 // Import types for internal use
@@ -122,7 +184,10 @@ import type {
   ClusterGpuCapacity,
   DeploymentsListResponse,
   ClusterStatusResponse,
+  NodePoolsResponse,
   MetricsResponse,
+  MetricsRange,
+  MetricsHistoryResponse,
   HfTokenExchangeRequest,
   HfTokenExchangeResponse,
   HfSaveSecretRequest,
@@ -135,6 +200,28 @@ import type {
   PodFailureReason,
   RuntimesStatusResponse,
   PodLogsResponse,
+  LogStreamOptions,
+  LogStreamLine,
+  LogStreamError,
+  ChatCompletionRequest,
+  ChatCompletionChunk,
+  DeploymentUpdate,
+  LoraAdapter,
+  DeploymentUpdateResponse,
+  DeploymentConfigResponse,
+  DeploymentRevisionsResponse,
+  DeploymentRevisionDiff,
+  DeploymentRollbackResponse,
+  DeploymentAdaptersResponse,
+  DeploymentPreviewResponse,
+  DeploymentStreamEvent,
+  DeploymentEventsResponse,
+  CreateBenchmarkRequest,
+  BenchmarkReport,
+  BenchmarkListResponse,
+  ModelPrefetchRequest,
+  ModelPrefetchStatus,
+  ModelPrefetchListResponse,
 } from '@kubefoundry/shared';
 
 // ============================================================================
@@ -228,6 +315,53 @@ async function request<T>(endpoint: string, options?: RequestOptions): Promise<T
   return response.json();
 }
 
+/**
+ * Open a server-sent event stream and deliver each event until the stream ends
+ * or the signal aborts. Resolves when the server closes the stream.
+ * A body turns the request into a JSON POST.
+ */
+async function stream(
+  endpoint: string,
+  onEvent: (event: ServerSentEvent) => void,
+  signal?: AbortSignal,
+  body?: unknown
+): Promise<void> {
+  const url = `${API_BASE}/api${endpoint}`;
+
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+  if (body !== undefined) {
+    headers['Content-Type'] = 'application/json';
+  }
+  const token = getAuthToken();
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  const response = await fetch(url, {
+    method: body !== undefined ? 'POST' : 'GET',
+    headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    if (response.status === 401) {
+      dispatchUnauthorized();
+    }
+
+    let errorMessage = `Stream request failed with status ${response.status}`;
+    try {
+      const error = await response.json();
+      errorMessage = error.error?.message || error.message || errorMessage;
+    } catch {
+      // Response body is empty or not valid JSON
+    }
+    throw new ApiError(response.status, errorMessage);
+  }
+
+  await readServerSentEvents(response.body, onEvent);
+}
+
 // ============================================================================
 // Models API
 // ============================================================================
@@ -235,6 +369,25 @@ async function request<T>(endpoint: string, options?: RequestOptions): Promise<T
 export const modelsApi = {
   list: () => request<{ models: Model[] }>('/models'),
   get: (id: string) => request<Model>(`/models/${encodeURIComponent(id)}`),
+
+  /**
+   * Start a Job that downloads a model into a cache claim
+   */
+  prefetch: (prefetchRequest: ModelPrefetchRequest) =>
+    request<ModelPrefetchStatus>('/models/prefetch', {
+      method: 'POST',
+      body: JSON.stringify(prefetchRequest),
+    }),
+
+  listPrefetches: (namespace?: string) =>
+    request<ModelPrefetchListResponse>(
+      `/models/prefetch${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
+
+  getPrefetch: (name: string, namespace?: string) =>
+    request<ModelPrefetchStatus>(
+      `/models/prefetch/${encodeURIComponent(name)}${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
 };
 
 // ============================================================================
@@ -262,20 +415,86 @@ export const deploymentsApi = {
       body: JSON.stringify(config),
     }),
 
-  preview: (config: DeploymentConfig) =>
-    request<{ 
-      resources: Array<{
-        kind: string;
-        apiVersion: string;
-        name: string;
-        manifest: Record<string, unknown>;
-      }>;
-      primaryResource: { kind: string; apiVersion: string };
-    }>('/deployments/preview', {
+  /**
+   * Generate the resources a config would create. With dryRun, each is also
+   * submitted to the cluster with dryRun=All and carries the outcome.
+   */
+  preview: (config: DeploymentConfig, options?: { dryRun?: boolean }) =>
+    request<DeploymentPreviewResponse>(`/deployments/preview${options?.dryRun ? '?dryRun=true' : ''}`, {
       method: 'POST',
       body: JSON.stringify(config),
     }),
 
+  /**
+   * Subscribe to live deployment status. Without a namespace, covers the same
+   * namespaces as list().
+   */
+  stream: (
+    onEvent: (event: DeploymentStreamEvent) => void,
+    namespace?: string,
+    signal?: AbortSignal
+  ) =>
+    stream(
+      `/deployments/stream${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      (event) => {
+        if (event.event === 'snapshot' || event.event === 'upsert' || event.event === 'delete') {
+          onEvent(JSON.parse(event.data) as DeploymentStreamEvent);
+        }
+      },
+      signal
+    ),
+
+  getConfig: (name: string, namespace?: string) =>
+    request<DeploymentConfigResponse>(
+      `/deployments/${encodeURIComponent(name)}/config${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
+
+  update: (name: string, update: DeploymentUpdate, namespace?: string) =>
+    request<DeploymentUpdateResponse>(
+      `/deployments/${encodeURIComponent(name)}${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      {
+        method: 'PATCH',
+        body: JSON.stringify(update),
+      }
+    ),
+
+  getRevisions: (name: string, namespace?: string) =>
+    request<DeploymentRevisionsResponse>(
+      `/deployments/${encodeURIComponent(name)}/revisions${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
+
+  diffRevisions: (name: string, from: number, to: number, namespace?: string) => {
+    const params = new URLSearchParams({ from: from.toString(), to: to.toString() });
+    if (namespace) params.set('namespace', namespace);
+    return request<DeploymentRevisionDiff>(
+      `/deployments/${encodeURIComponent(name)}/revisions/diff?${params.toString()}`
+    );
+  },
+
+  rollback: (name: string, revision: number, namespace?: string) => {
+    const params = new URLSearchParams({ revision: revision.toString() });
+    if (namespace) params.set('namespace', namespace);
+    return request<DeploymentRollbackResponse>(
+      `/deployments/${encodeURIComponent(name)}/rollback?${params.toString()}`,
+      { method: 'POST' }
+    );
+  },
+
+  attachAdapter: (name: string, adapter: LoraAdapter, namespace?: string) =>
+    request<DeploymentAdaptersResponse>(
+      `/deployments/${encodeURIComponent(name)}/adapters${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(adapter),
+      }
+    ),
+
+  detachAdapter: (name: string, adapter: string, namespace?: string) =>
+    request<DeploymentAdaptersResponse>(
+      `/deployments/${encodeURIComponent(name)}/adapters/${encodeURIComponent(adapter)}${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      { method: 'DELETE' }
+    ),
+
   delete: (name: string, namespace?: string) =>
     request<{ message: string }>(
       `/deployments/${encodeURIComponent(name)}${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
@@ -287,6 +506,11 @@ export const deploymentsApi = {
       `/deployments/${encodeURIComponent(name)}/pods${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
     ),
 
+  getEvents: (name: string, namespace?: string) =>
+    request<DeploymentEventsResponse>(
+      `/deployments/${encodeURIComponent(name)}/events${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
+
   getMetrics: (name: string, namespace?: string) =>
     request<MetricsResponse>(
       `/deployments/${encodeURIComponent(name)}/metrics${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
@@ -305,6 +529,86 @@ export const deploymentsApi = {
     );
   },
 
+  /**
+   * Follow logs from all pods of a deployment (or the selected pod) until the
+   * stream ends or the signal aborts
+   */
+  streamLogs: (
+    name: string,
+    namespace: string | undefined,
+    options: LogStreamOptions,
+    handlers: { onLine: (line: LogStreamLine) => void; onError?: (error: LogStreamError) => void },
+    signal?: AbortSignal
+  ) => {
+    const params = new URLSearchParams();
+    if (namespace) params.set('namespace', namespace);
+    if (options.podName) params.set('podName', options.podName);
+    if (options.container) params.set('container', options.container);
+    if (options.previous) params.set('previous', 'true');
+    if (options.sinceSeconds) params.set('sinceSeconds', options.sinceSeconds.toString());
+    if (options.tailLines) params.set('tailLines', options.tailLines.toString());
+    if (options.timestamps) params.set('timestamps', 'true');
+    if (options.filter) params.set('filter', options.filter);
+    const query = params.toString();
+    return stream(
+      `/deployments/${encodeURIComponent(name)}/logs/stream${query ? `?${query}` : ''}`,
+      (event) => {
+        if (event.event === 'log') {
+          handlers.onLine(JSON.parse(event.data) as LogStreamLine);
+        } else if (event.event === 'error') {
+          handlers.onError?.(JSON.parse(event.data) as LogStreamError);
+        }
+      },
+      signal
+    );
+  },
+
+  /**
+   * Stream a chat completion from the deployment's model server.
+   * Resolves once the server sends [DONE] or closes the stream.
+   */
+  chat: (
+    name: string,
+    namespace: string | undefined,
+    body: ChatCompletionRequest,
+    onChunk: (chunk: ChatCompletionChunk) => void,
+    signal?: AbortSignal
+  ) => {
+    const params = new URLSearchParams();
+    if (namespace) params.set('namespace', namespace);
+    const query = params.toString();
+    return stream(
+      `/deployments/${encodeURIComponent(name)}/chat/completions${query ? `?${query}` : ''}`,
+      (event) => {
+        if (event.data !== '[DONE]') {
+          onChunk(JSON.parse(event.data) as ChatCompletionChunk);
+        }
+      },
+      signal,
+      { ...body, stream: true }
+    );
+  },
+
+  getBenchmarks: (name: string, namespace?: string) =>
+    request<BenchmarkListResponse>(
+      `/deployments/${encodeURIComponent(name)}/benchmarks${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
+    ),
+
+  startBenchmark: (name: string, config: CreateBenchmarkRequest, namespace?: string) =>
+    request<BenchmarkReport>(
+      `/deployments/${encodeURIComponent(name)}/benchmarks${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      {
+        method: 'POST',
+        body: JSON.stringify(config),
+      }
+    ),
+
+  deleteBenchmark: (name: string, id: string, namespace?: string) =>
+    request<{ success: boolean; message: string }>(
+      `/deployments/${encodeURIComponent(name)}/benchmarks/${encodeURIComponent(id)}${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`,
+      { method: 'DELETE' }
+    ),
+
   getManifest: (name: string, namespace?: string) =>
     request<{
       resources: Array<{
@@ -331,6 +635,14 @@ export const metricsApi = {
     request<MetricsResponse>(
       `/deployments/${encodeURIComponent(deploymentName)}/metrics${namespace ? `?namespace=${encodeURIComponent(namespace)}` : ''}`
     ),
+
+  getHistory: (deploymentName: string, range: MetricsRange, namespace?: string) => {
+    const params = new URLSearchParams({ range });
+    if (namespace) params.set('namespace', namespace);
+    return request<MetricsHistoryResponse>(
+      `/deployments/${encodeURIComponent(deploymentName)}/metrics/history?${params.toString()}`
+    );
+  },
 };
 
 // ============================================================================
@@ -347,6 +659,7 @@ export const healthApi = {
   check: () => request<{ status: string; timestamp: string }>('/health'),
   clusterStatus: () => request<ClusterStatusResponse>('/cluster/status'),
   getClusterNodes: () => request<{ nodes: ClusterNode[] }>('/cluster/nodes'),
+  getNodePools: () => request<NodePoolsResponse>('/cluster/node-pools'),
 };
 
 // ============================================================================
@@ -355,7 +668,7 @@ export const healthApi = {
 
 export const settingsApi = {
   get: () => request<Settings>('/settings'),
-  update: (settings: { defaultNamespace?: string }) =>
+  update: (settings: { defaultNamespace?: string; prometheusUrl?: string }) =>
     request<{ message: string; config: Settings['config'] }>('/settings', {
       method: 'PUT',
       body: JSON.stringify(settings),
@@ -719,6 +1032,9 @@ export const costsApi = {
         size: number;
         ttlMs: number;
         maxEntries: number;
+        hits: number;
+        misses: number;
+        hitRatio: number;
       };
     }>(`/costs/node-pools?gpuCount=${gpuCount}&replicas=${replicas}&computeType=${computeType}`),
 
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest'
+import { collectPoolLabels, formatTaint, getPoolSelector, isTolerated, tolerationFor } from './node-placement'
+import type { NodePoolInfo } from './api'
+
+const gpuPool: NodePoolInfo = {
+  name: 'gpupool',
+  gpuCount: 8,
+  nodeCount: 2,
+  availableGpus: 8,
+  labels: { 'kubernetes.azure.com/agentpool': 'gpupool', agentpool: 'gpupool', 'nvidia.com/gpu.product': 'A100' },
+  taints: [{ key: 'sku', value: 'gpu', effect: 'NoSchedule' }],
+}
+
+describe('getPoolSelector', () => {
+  it('uses the most specific pool label', () => {
+    expect(getPoolSelector(gpuPool)).toEqual({ 'kubernetes.azure.com/agentpool': 'gpupool' })
+  })
+
+  it('returns undefined without a pool label', () => {
+    expect(getPoolSelector({ ...gpuPool, labels: { zone: 'a' } })).toBeUndefined()
+  })
+})
+
+describe('isTolerated', () => {
+  const taint = gpuPool.taints![0]
+
+  it('matches the toleration built for a taint', () => {
+    expect(isTolerated(taint, [tolerationFor(taint)])).toBe(true)
+  })
+
+  it('honours Exists, empty keys and effects', () => {
+    expect(isTolerated(taint, [{ key: 'sku', operator: 'Exists' }])).toBe(true)
+    expect(isTolerated(taint, [{ operator: 'Exists' }])).toBe(true)
+    expect(isTolerated(taint, [{ key: 'sku', operator: 'Equal', value: 'gpu', effect: 'NoExecute' }])).toBe(false)
+    expect(isTolerated(taint, [{ key: 'sku', operator: 'Equal', value: 'cpu' }])).toBe(false)
+    expect(isTolerated(taint, [])).toBe(false)
+  })
+})
+
+describe('collectPoolLabels', () => {
+  it('gathers distinct values per key', () => {
+    const labels = collectPoolLabels([gpuPool, { ...gpuPool, labels: { agentpool: 'system' } }])
+    expect(labels.get('agentpool')).toEqual(['gpupool', 'system'])
+  })
+})
+
+describe('formatTaint', () => {
+  it('formats like kubectl', () => {
+    expect(formatTaint({ key: 'sku', value: 'gpu', effect: 'NoSchedule' })).toBe('sku=gpu:NoSchedule')
+    expect(formatTaint({ key: 'nvidia.com/gpu', effect: 'NoSchedule' })).toBe('nvidia.com/gpu:NoSchedule')
+  })
+})
@@ -0,0 +1,65 @@
+import type { NodePoolInfo, NodeTaint, Toleration } from './api'
+
+/**
+ * Node labels cloud providers use to name a node pool, most specific first
+ */
+const POOL_LABEL_KEYS = [
+  'kubernetes.azure.com/agentpool',
+  'agentpool',
+  'cloud.google.com/gke-nodepool',
+  'eks.amazonaws.com/nodegroup',
+  'karpenter.sh/nodepool',
+]
+
+/**
+ * The label that selects exactly the nodes of a pool, if the pool has one
+ */
+export function getPoolSelector(pool: NodePoolInfo): Record<string, string> | undefined {
+  const key = POOL_LABEL_KEYS.find((k) => pool.labels?.[k])
+  return key ? { [key]: pool.labels![key] } : undefined
+}
+
+/**
+ * A toleration that matches exactly the given taint
+ */
+export function tolerationFor(taint: NodeTaint): Toleration {
+  return taint.value
+    ? { key: taint.key, operator: 'Equal', value: taint.value, effect: taint.effect }
+    : { key: taint.key, operator: 'Exists', effect: taint.effect }
+}
+
+/**
+ * Whether any of the tolerations lets pods onto nodes with the taint,
+ * following the Kubernetes matching rules
+ */
+export function isTolerated(taint: NodeTaint, tolerations: Toleration[] = []): boolean {
+  return tolerations.some((t) => {
+    if (t.effect && t.effect !== taint.effect) return false
+    // An empty key with Exists tolerates every taint
+    if (!t.key) return t.operator === 'Exists'
+    if (t.key !== taint.key) return false
+    return t.operator === 'Exists' || (t.value || '') === (taint.value || '')
+  })
+}
+
+/**
+ * Label values seen across pools, by key, for autocompleting a node selector
+ */
+export function collectPoolLabels(pools: NodePoolInfo[] = []): Map<string, string[]> {
+  const labels = new Map<string, string[]>()
+  for (const pool of pools) {
+    for (const [key, value] of Object.entries(pool.labels || {})) {
+      const values = labels.get(key) || []
+      if (!values.includes(value)) values.push(value)
+      labels.set(key, values)
+    }
+  }
+  return labels
+}
+
+/**
+ * Display form of a taint, as printed by kubectl
+ */
+export function formatTaint(taint: NodeTaint): string {
+  return `${taint.key}${taint.value ? `=${taint.value}` : ''}:${taint.effect}`
+}
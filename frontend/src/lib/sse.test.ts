@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { parseServerSentEvent, readServerSentEvents, type ServerSentEvent } from './sse'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+describe('parseServerSentEvent', () => {
+  it('parses event, data and id fields', () => {
+    expect(parseServerSentEvent('event: upsert\ndata: {"a":1}\nid: 7')).toEqual({
+      event: 'upsert',
+      data: '{"a":1}',
+      id: '7',
+    })
+  })
+
+  it('joins multi-line data and defaults the event name', () => {
+    expect(parseServerSentEvent('data: one\ndata: two')).toEqual({ event: 'message', data: 'one\ntwo' })
+  })
+
+  it('ignores comments and frames without data', () => {
+    expect(parseServerSentEvent(': keep-alive')).toBeNull()
+    expect(parseServerSentEvent('event: ping')).toBeNull()
+  })
+})
+
+describe('readServerSentEvents', () => {
+  it('handles frames split across chunks', async () => {
+    const events: ServerSentEvent[] = []
+    await readServerSentEvents(
+      streamOf(['event: snapshot\nda', 'ta: [1]\n\nevent: delete\n', 'data: x\n\n', 'data: tail']),
+      (event) => events.push(event)
+    )
+    expect(events).toEqual([
+      { event: 'snapshot', data: '[1]' },
+      { event: 'delete', data: 'x' },
+      { event: 'message', data: 'tail' },
+    ])
+  })
+})
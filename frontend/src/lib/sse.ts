@@ -0,0 +1,62 @@
+/**
+ * A single server-sent event
+ */
+export interface ServerSentEvent {
+  event: string
+  data: string
+  id?: string
+}
+
+/**
+ * Parse one SSE frame (the lines between two blank lines).
+ * Returns null for frames without data, such as comments.
+ */
+export function parseServerSentEvent(frame: string): ServerSentEvent | null {
+  let event = 'message'
+  let id: string | undefined
+  const data: string[] = []
+
+  for (const line of frame.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    let value = separator === -1 ? '' : line.slice(separator + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') event = value
+    else if (field === 'data') data.push(value)
+    else if (field === 'id') id = value
+  }
+
+  if (data.length === 0) return null
+  return { event, data: data.join('\n'), ...(id !== undefined && { id }) }
+}
+
+/**
+ * Read server-sent events from a response body until it ends.
+ * Unlike EventSource this works with fetch, so requests can carry auth headers.
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    const frames = buffer.split(/\r?\n\r?\n/)
+    buffer = frames.pop() || ''
+    for (const frame of frames) {
+      const event = parseServerSentEvent(frame)
+      if (event) onEvent(event)
+    }
+  }
+
+  const event = parseServerSentEvent(buffer + decoder.decode())
+  if (event) onEvent(event)
+}
@@ -2,6 +2,7 @@ import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import { useModel, useHfModel } from '@/hooks/useModels'
 import { useAutoscalerDetection, useDetailedCapacity } from '@/hooks/useAutoscaler'
 import { useRuntimesStatus } from '@/hooks/useRuntimes'
+import { useProviders } from '@/hooks/useSettings'
 import { DeploymentForm } from '@/components/deployments/DeploymentForm'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
@@ -24,10 +25,11 @@ export function DeployPage() {
   const { data: detailedCapacity } = useDetailedCapacity()
   const { data: autoscaler } = useAutoscalerDetection()
   const { data: runtimesData, isLoading: runtimesLoading } = useRuntimesStatus()
+  const { data: providersData, isLoading: providersLoading } = useProviders()
 
-  // Wait for both model and runtimes to load before showing the form
+  // Wait for the model, runtimes and provider capabilities to load before showing the form
   // This ensures the runtime selector is visible when the form renders
-  if (modelLoading || runtimesLoading) {
+  if (modelLoading || runtimesLoading || providersLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -145,6 +147,7 @@ export function DeployPage() {
         detailedCapacity={detailedCapacity}
         autoscaler={autoscaler}
         runtimes={runtimesData?.runtimes}
+        providers={providersData?.providers}
       />
     </div>
   )
@@ -1,13 +1,14 @@
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom'
-import { useDeployment, useDeleteDeployment } from '@/hooks/useDeployments'
+import { useDeployment, useDeleteDeployment, useDeploymentStream } from '@/hooks/useDeployments'
 import { useToast } from '@/hooks/useToast'
+import { useProviderDetails } from '@/hooks/useSettings'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
 import { DeploymentStatusBadge } from '@/components/deployments/DeploymentStatusBadge'
 import { MetricsTab } from '@/components/metrics'
 import { formatRelativeTime, generateAynaUrl } from '@/lib/utils'
-import { Loader2, ArrowLeft, Trash2, Copy, Terminal, MessageSquare } from 'lucide-react'
+import { Loader2, ArrowLeft, Trash2, Copy, Terminal, MessageSquare, Pencil } from 'lucide-react'
 import { useState } from 'react'
 import {
   Dialog,
@@ -21,6 +22,13 @@ import { useAutoscalerDetection, usePendingReasons } from '@/hooks/useAutoscaler
 import { PendingExplanation } from '@/components/deployments/PendingExplanation'
 import { DeploymentLogs } from '@/components/deployments/DeploymentLogs'
 import { ManifestViewer } from '@/components/deployments/ManifestViewer'
+import { EditDeploymentDialog } from '@/components/deployments/EditDeploymentDialog'
+import { RevisionHistory } from '@/components/deployments/RevisionHistory'
+import { ChatPlayground } from '@/components/deployments/ChatPlayground'
+import { BenchmarkPanel } from '@/components/deployments/BenchmarkPanel'
+import { EventsTimeline } from '@/components/deployments/EventsTimeline'
+import { AdaptersPanel } from '@/components/deployments/AdaptersPanel'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 
 export function DeploymentDetailsPage() {
   const { name } = useParams<{ name: string }>()
@@ -30,8 +38,13 @@ export function DeploymentDetailsPage() {
   const { toast } = useToast()
   const deleteDeployment = useDeleteDeployment()
   const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [accessTab, setAccessTab] = useState<'playground' | 'port-forward'>('playground')
 
-  const { data: deployment, isLoading, error } = useDeployment(name, namespace)
+  // Status changes are streamed when the namespace is known; otherwise poll
+  const live = useDeploymentStream(namespace, !!namespace)
+  const { data: deployment, isLoading, error } = useDeployment(name, namespace, { live })
+  const { data: provider } = useProviderDetails(deployment?.provider || '')
 
   // Autoscaler detection and pending reasons (only fetch when deployment is Pending)
   const { data: autoscaler } = useAutoscalerDetection()
@@ -119,10 +132,16 @@ export function DeploymentDetailsPage() {
           </div>
         </div>
 
-        <Button variant="destructive" onClick={() => setShowDeleteDialog(true)}>
-          <Trash2 className="mr-2 h-4 w-4" />
-          Delete
-        </Button>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+            <Pencil className="mr-2 h-4 w-4" />
+            Edit
+          </Button>
+          <Button variant="destructive" onClick={() => setShowDeleteDialog(true)}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        </div>
       </div>
 
       {/* Status Overview */}
@@ -145,10 +164,16 @@ export function DeploymentDetailsPage() {
                     ? 'bg-blue-100 text-blue-700 dark:bg-blue-950 dark:text-blue-300' 
                     : deployment.provider === 'kaito'
                     ? 'bg-purple-100 text-purple-700 dark:bg-purple-950 dark:text-purple-300'
+                    : deployment.provider === 'kserve'
+                    ? 'bg-orange-100 text-orange-700 dark:bg-orange-950 dark:text-orange-300'
+                    : deployment.provider === 'native'
+                    ? 'bg-slate-100 text-slate-700 dark:bg-slate-900 dark:text-slate-300'
+                    : deployment.provider === 'lws'
+                    ? 'bg-teal-100 text-teal-700 dark:bg-teal-950 dark:text-teal-300'
                     : 'bg-green-100 text-green-700 dark:bg-green-950 dark:text-green-300'
                 }
               >
-                {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : 'Dynamo'}
+                {deployment.provider === 'kuberay' ? 'KubeRay' : deployment.provider === 'kaito' ? 'KAITO' : deployment.provider === 'kserve' ? 'KServe' : deployment.provider === 'native' ? 'Native' : deployment.provider === 'lws' ? 'LWS' : deployment.provider === 'dynamo' ? 'Dynamo' : deployment.provider}
               </Badge>
             </div>
             <div>
@@ -186,7 +211,7 @@ export function DeploymentDetailsPage() {
         />
       )}
 
-      {/* Port Forward Instructions */}
+      {/* Access: in-browser playground or port-forward instructions */}
       <Card>
         <CardHeader>
           <div className="flex items-center gap-2">
@@ -194,44 +219,88 @@ export function DeploymentDetailsPage() {
             <CardTitle>Access Model</CardTitle>
           </div>
           <CardDescription>
-            Run this command to access the deployed model locally
+            Chat with the model from here, or port-forward its service to use it locally
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="flex items-center gap-2">
-            <code className="flex-1 rounded-lg bg-muted p-3 text-sm font-mono overflow-x-auto">
-              {portForwardCommand}
-            </code>
-            <Button variant="outline" size="icon" onClick={copyPortForwardCommand}>
-              <Copy className="h-4 w-4" />
-            </Button>
-          </div>
-          <p className="text-xs text-muted-foreground mt-2">
-            After running the command, access the model at http://localhost:8000
-          </p>
+          <Tabs value={accessTab} onValueChange={(v) => setAccessTab(v as 'playground' | 'port-forward')}>
+            <TabsList>
+              <TabsTrigger value="playground">
+                <MessageSquare className="h-4 w-4 mr-1" />
+                Playground
+              </TabsTrigger>
+              <TabsTrigger value="port-forward">
+                <Terminal className="h-4 w-4 mr-1" />
+                Port Forward
+              </TabsTrigger>
+            </TabsList>
 
-          {/* Ayna Integration */}
-          <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t">
-            <a href={generateAynaUrl({
-              model: deployment.modelId,
-              provider: 'openai',
-              endpoint: 'http://localhost:8000',
-              type: 'chat',
-            })}>
-              <Button variant="outline">
-                <MessageSquare className="mr-2 h-4 w-4" />
-                Open in Ayna
-              </Button>
-            </a>
-          </div>
+            <TabsContent value="playground" className="mt-4">
+              <ChatPlayground
+                deploymentName={deployment.name}
+                namespace={deployment.namespace}
+                isRunning={deployment.phase === 'Running'}
+              />
+            </TabsContent>
+
+            <TabsContent value="port-forward" className="mt-4">
+              <div className="flex items-center gap-2">
+                <code className="flex-1 rounded-lg bg-muted p-3 text-sm font-mono overflow-x-auto">
+                  {portForwardCommand}
+                </code>
+                <Button variant="outline" size="icon" onClick={copyPortForwardCommand}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground mt-2">
+                After running the command, access the model at http://localhost:8000
+              </p>
+
+              {/* Ayna Integration */}
+              <div className="flex flex-wrap gap-2 mt-4 pt-4 border-t">
+                <a href={generateAynaUrl({
+                  model: deployment.modelId,
+                  provider: 'openai',
+                  endpoint: 'http://localhost:8000',
+                  type: 'chat',
+                })}>
+                  <Button variant="outline">
+                    <MessageSquare className="mr-2 h-4 w-4" />
+                    Open in Ayna
+                  </Button>
+                </a>
+              </div>
+            </TabsContent>
+          </Tabs>
         </CardContent>
       </Card>
 
+      {/* LoRA Adapters - only for engines the provider serves adapters with */}
+      {provider?.capabilities.adapterEngines.includes(deployment.engine) && (
+        <AdaptersPanel
+          deploymentName={deployment.name}
+          namespace={deployment.namespace}
+          sources={provider.capabilities.adapterSources}
+        />
+      )}
+
+      {/* Events */}
+      <EventsTimeline
+        deploymentName={deployment.name}
+        namespace={deployment.namespace}
+      />
+
       {/* Metrics */}
       <MetricsTab
         deploymentName={deployment.name}
         namespace={deployment.namespace}
-        provider={deployment.provider}
+      />
+
+      {/* Benchmarks */}
+      <BenchmarkPanel
+        deploymentName={deployment.name}
+        namespace={deployment.namespace}
+        isRunning={deployment.phase === 'Running'}
       />
 
       {/* Manifest */}
@@ -242,12 +311,25 @@ export function DeploymentDetailsPage() {
         provider={deployment.provider}
       />
 
+      {/* Revision History */}
+      <RevisionHistory
+        deploymentName={deployment.name}
+        namespace={deployment.namespace}
+      />
+
       {/* Logs */}
       <DeploymentLogs
         deploymentName={deployment.name}
         namespace={deployment.namespace}
       />
 
+      {/* Edit / Scale Dialog */}
+      <EditDeploymentDialog
+        deployment={deployment}
+        open={showEditDialog}
+        onOpenChange={setShowEditDialog}
+      />
+
       {/* Delete Confirmation Dialog */}
       <Dialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
         <DialogContent>
@@ -1,11 +1,12 @@
 import { Link } from 'react-router-dom'
-import { useDeployments } from '@/hooks/useDeployments'
+import { useDeployments, useDeploymentStream } from '@/hooks/useDeployments'
 import { DeploymentList } from '@/components/deployments/DeploymentList'
 import { Button } from '@/components/ui/button'
 import { Plus, RefreshCw, Layers } from 'lucide-react'
 
 export function DeploymentsPage() {
-  const { data: deployments, isLoading, error, refetch, isFetching } = useDeployments()
+  const live = useDeploymentStream()
+  const { data: deployments, isLoading, error, refetch, isFetching } = useDeployments(undefined, { live })
 
   if (error) {
     return (
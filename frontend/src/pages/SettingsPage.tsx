@@ -26,6 +26,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog'
 import { AutoscalerGuidance } from '@/components/autoscaler/AutoscalerGuidance'
+import { PrometheusSettingsCard } from '@/components/metrics'
 import { useToast } from '@/hooks/useToast'
 import {
   CheckCircle,
@@ -48,11 +49,11 @@ import { cn } from '@/lib/utils'
 import { useSearchParams } from 'react-router-dom'
 
 type SettingsTab = 'general' | 'runtimes' | 'integrations'
-type RuntimeId = 'dynamo' | 'kuberay' | 'kaito'
+type RuntimeId = 'dynamo' | 'kuberay' | 'kaito' | 'kserve' | 'native' | 'lws'
 
 export function SettingsPage() {
   const [searchParams, setSearchParams] = useSearchParams()
-  const { isLoading: settingsLoading } = useSettings()
+  const { data: settings, isLoading: settingsLoading } = useSettings()
   const { data: runtimesStatus, isLoading: runtimesLoading } = useRuntimesStatus()
   const { data: clusterStatus, isLoading: clusterLoading } = useClusterStatus()
   const { data: helmStatus, isLoading: helmLoading } = useHelmStatus()
@@ -435,11 +436,7 @@ export function SettingsPage() {
                       </Badge>
                     </CardTitle>
                     <CardDescription>
-                      {runtime.id === 'kaito'
-                        ? 'Kubernetes AI Toolchain Operator for simplified model deployment'
-                        : runtime.id === 'dynamo'
-                          ? 'NVIDIA Dynamo for high-performance GPU inference'
-                          : 'Ray Serve via KubeRay for distributed Ray-based model serving with vLLM'}
+                      {settings?.providers.find((p) => p.id === runtime.id)?.description}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -923,6 +920,9 @@ export function SettingsPage() {
               )}
             </CardContent>
           </Card>
+
+          {/* Prometheus */}
+          <PrometheusSettingsCard />
         </div>
       )}
 
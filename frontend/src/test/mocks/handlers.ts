@@ -70,12 +70,36 @@ export const mockSettings = {
       name: 'NVIDIA Dynamo',
       description: 'GPU-accelerated inference with disaggregated serving',
       defaultNamespace: 'kubefoundry-system',
+      capabilities: {
+        engines: ['vllm', 'sglang', 'trtllm'],
+        modes: ['aggregated', 'disaggregated'],
+        routerModes: ['none', 'kv', 'round-robin'],
+        adapterEngines: ['vllm'],
+        adapterSources: ['huggingface', 'pvc'],
+        cpu: false,
+        gguf: false,
+        autoscaling: false,
+        engineArgs: true,
+        multiNode: false,
+      },
     },
     {
       id: 'kuberay',
       name: 'KubeRay',
       description: 'Ray-based distributed inference',
       defaultNamespace: 'kuberay',
+      capabilities: {
+        engines: ['vllm'],
+        modes: ['aggregated', 'disaggregated'],
+        routerModes: ['none'],
+        adapterEngines: [],
+        adapterSources: [],
+        cpu: false,
+        gguf: false,
+        autoscaling: true,
+        engineArgs: true,
+        multiNode: false,
+      },
     },
   ],
 }
@@ -86,6 +110,30 @@ export const handlers = [
     return HttpResponse.json({ models: mockModels })
   }),
 
+  http.post(`${API_BASE}/models/prefetch`, async ({ request }) => {
+    const body = await request.json() as { modelId: string; namespace?: string; modelCache: { claimName: string } }
+    return HttpResponse.json({
+      name: 'prefetch-qwen3-0-6b-a1b2c3',
+      namespace: body.namespace || 'kubefoundry-system',
+      modelId: body.modelId,
+      claimName: body.modelCache.claimName,
+      phase: 'Pending',
+    }, { status: 202 })
+  }),
+
+  http.get(`${API_BASE}/models/prefetch/:name`, ({ params, request }) => {
+    const url = new URL(request.url)
+    return HttpResponse.json({
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      modelId: 'Qwen/Qwen3-0.6B',
+      claimName: 'hf-cache',
+      phase: 'Running',
+      progress: { files: 4, filesDone: 1, bytesDone: 600000000, totalBytes: 1200000000, currentFile: 'model.safetensors' },
+      startedAt: new Date().toISOString(),
+    })
+  }),
+
   http.get(`${API_BASE}/models/:id`, ({ params }) => {
     const id = decodeURIComponent(params.id as string)
     const model = mockModels.find(m => m.id === id)
@@ -105,6 +153,56 @@ export const handlers = [
     return HttpResponse.json({ deployments: filtered })
   }),
 
+  // Must precede /deployments/:name so "stream" is not taken as a name
+  http.get(`${API_BASE}/deployments/stream`, () => {
+    const body = new ReadableStream({
+      start(controller) {
+        const event = { type: 'snapshot', deployments: mockDeployments }
+        controller.enqueue(new TextEncoder().encode(`event: snapshot\ndata: ${JSON.stringify(event)}\n\n`))
+        controller.close()
+      },
+    })
+    return new HttpResponse(body, { headers: { 'Content-Type': 'text/event-stream' } })
+  }),
+
+  http.get(`${API_BASE}/deployments/:name/logs/stream`, ({ request }) => {
+    const filter = new URL(request.url).searchParams.get('filter')
+    const lines = [
+      { pod: 'test-deployment-worker-0', container: 'main', line: 'INFO: server started' },
+      { pod: 'test-deployment-worker-1', container: 'main', line: 'WARN: slow request' },
+    ].filter(l => !filter || new RegExp(filter).test(l.line))
+    const body = new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder()
+        for (const line of lines) {
+          controller.enqueue(encoder.encode(`event: log\ndata: ${JSON.stringify(line)}\n\n`))
+        }
+        controller.enqueue(encoder.encode(`event: end\ndata: {"pods":["test-deployment-worker-0","test-deployment-worker-1"]}\n\n`))
+        controller.close()
+      },
+    })
+    return new HttpResponse(body, { headers: { 'Content-Type': 'text/event-stream' } })
+  }),
+
+  http.post(`${API_BASE}/deployments/:name/chat/completions`, () => {
+    const chunk = (content: string) => ({
+      id: 'chatcmpl-1',
+      model: 'test-model',
+      choices: [{ index: 0, delta: { content }, finish_reason: null }],
+    })
+    const body = new ReadableStream({
+      start(controller) {
+        const encoder = new TextEncoder()
+        for (const content of ['Hello', ' there', '!']) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk(content))}\n\n`))
+        }
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'))
+        controller.close()
+      },
+    })
+    return new HttpResponse(body, { headers: { 'Content-Type': 'text/event-stream' } })
+  }),
+
   http.get(`${API_BASE}/deployments/:name`, ({ params, request }) => {
     const name = params.name as string
     const url = new URL(request.url)
@@ -131,12 +229,206 @@ export const handlers = [
     return HttpResponse.json({ message: 'Deployment deleted' })
   }),
 
+  http.patch(`${API_BASE}/deployments/:name`, ({ params, request }) => {
+    const url = new URL(request.url)
+    return HttpResponse.json({
+      message: 'Deployment updated successfully',
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      provider: 'dynamo',
+    })
+  }),
+
+  http.get(`${API_BASE}/deployments/:name/revisions`, ({ params, request }) => {
+    const url = new URL(request.url)
+    const config = {
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      modelId: 'Qwen/Qwen3-0.6B',
+      engine: 'vllm',
+      mode: 'aggregated',
+      provider: 'dynamo',
+      routerMode: 'none',
+      hfTokenSecret: 'hf-token-secret',
+      enforceEager: true,
+      enablePrefixCaching: false,
+      trustRemoteCode: false,
+    }
+    return HttpResponse.json({
+      revisions: [
+        {
+          revision: 1,
+          createdAt: new Date(Date.now() - 3600000).toISOString(),
+          changeCause: 'Created',
+          config: { ...config, replicas: 1 },
+        },
+        {
+          revision: 2,
+          createdAt: new Date().toISOString(),
+          changeCause: 'Updated',
+          config: { ...config, replicas: 2 },
+        },
+      ],
+    })
+  }),
+
+  http.post(`${API_BASE}/deployments/:name/rollback`, ({ params, request }) => {
+    const url = new URL(request.url)
+    const revision = Number(url.searchParams.get('revision'))
+    return HttpResponse.json({
+      message: `Deployment rolled back to revision ${revision}`,
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      revision: 3,
+      rolledBackTo: revision,
+    })
+  }),
+
+  http.post(`${API_BASE}/deployments/:name/adapters`, async ({ params, request }) => {
+    const url = new URL(request.url)
+    const adapter = await request.json() as { name: string; huggingFaceRepo?: string }
+    return HttpResponse.json({
+      message: `Adapter '${adapter.name}' attached`,
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      adapters: [adapter],
+    })
+  }),
+
+  http.delete(`${API_BASE}/deployments/:name/adapters/:adapter`, ({ params, request }) => {
+    const url = new URL(request.url)
+    return HttpResponse.json({
+      message: `Adapter '${params.adapter}' detached`,
+      name: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      adapters: [],
+    })
+  }),
+
+  http.get(`${API_BASE}/deployments/:name/benchmarks`, ({ params, request }) => {
+    const url = new URL(request.url)
+    const latency = { mean: 120, p50: 110, p95: 180, p99: 240 }
+    return HttpResponse.json({
+      reports: [
+        {
+          id: 'a1b2c3d4',
+          deploymentName: params.name as string,
+          namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+          model: 'Qwen/Qwen3-0.6B',
+          status: 'completed',
+          config: { concurrency: [1, 8], inputTokens: 512, outputTokens: 128 },
+          results: [1, 8].map((concurrency) => ({
+            concurrency,
+            completedRequests: concurrency * 4,
+            failedRequests: 0,
+            durationSeconds: 12.5,
+            ttftMs: latency,
+            itlMs: { mean: 12, p50: 11, p95: 15, p99: 20 },
+            latencyMs: { mean: 1600, p50: 1550, p95: 1900, p99: 2100 },
+            outputTokensPerSecond: concurrency * 80,
+            requestsPerSecond: concurrency * 0.6,
+          })),
+          startedAt: new Date(Date.now() - 60000).toISOString(),
+          completedAt: new Date().toISOString(),
+        },
+      ],
+    })
+  }),
+
+  http.post(`${API_BASE}/deployments/:name/benchmarks`, async ({ params, request }) => {
+    const url = new URL(request.url)
+    const config = await request.json() as Record<string, unknown>
+    return HttpResponse.json({
+      id: 'e5f6a7b8',
+      deploymentName: params.name as string,
+      namespace: url.searchParams.get('namespace') || 'kubefoundry-system',
+      model: 'Qwen/Qwen3-0.6B',
+      status: 'running',
+      config: { inputTokens: 512, outputTokens: 128, ...config },
+      results: [],
+      startedAt: new Date().toISOString(),
+    }, { status: 202 })
+  }),
+
   http.get(`${API_BASE}/deployments/:name/pods`, ({ params }) => {
     const name = params.name as string
     const deployment = mockDeployments.find(d => d.name === name)
     return HttpResponse.json({ pods: deployment?.pods || [] })
   }),
 
+  http.get(`${API_BASE}/deployments/:name/metrics`, () => {
+    return HttpResponse.json({
+      available: true,
+      timestamp: new Date().toISOString(),
+      source: 'scrape',
+      metrics: [
+        { name: 'vllm:generation_tokens_total', value: 12000, labels: { pod: 'test-deployment-0' } },
+        { name: 'vllm:e2e_request_latency_seconds_sum', value: 50, labels: { pod: 'test-deployment-0' } },
+        { name: 'vllm:e2e_request_latency_seconds_count', value: 100, labels: { pod: 'test-deployment-0' } },
+      ],
+      definitions: [
+        { name: 'vllm:e2e_request_latency_seconds', displayName: 'Avg Request Latency', description: 'End-to-end request latency', unit: 's', type: 'histogram', category: 'latency' },
+        { name: 'vllm:generation_tokens_total', displayName: 'Generation Tokens', description: 'Number of generation tokens processed', unit: 'tokens', type: 'counter', category: 'throughput' },
+      ],
+      derived: [
+        { name: 'vllm:generation_tokens_total', rate: 42 },
+        { name: 'vllm:e2e_request_latency_seconds', percentiles: { p50: 0.4, p90: 0.9, p99: 1.8 } },
+      ],
+    })
+  }),
+
+  http.get(`${API_BASE}/deployments/:name/metrics/history`, ({ request }) => {
+    const range = new URL(request.url).searchParams.get('range') || '1h'
+    const step = range === '15m' ? 15 : range === '1h' ? 60 : 900
+    return HttpResponse.json({
+      available: true,
+      range,
+      step,
+      series: [
+        {
+          name: 'vllm:num_requests_running',
+          displayName: 'Running Requests',
+          unit: 'requests',
+          type: 'gauge',
+          category: 'queue',
+          samples: [
+            { timestamp: 1700000000, value: 1 },
+            { timestamp: 1700000000 + step, value: 3 },
+          ],
+        },
+      ],
+      timestamp: new Date().toISOString(),
+    })
+  }),
+
+  http.get(`${API_BASE}/deployments/:name/events`, ({ params }) => {
+    const name = params.name as string
+    return HttpResponse.json({
+      events: [
+        {
+          type: 'warning',
+          reason: 'FailedScheduling',
+          message: '0/3 nodes are available: 3 Insufficient nvidia.com/gpu.',
+          count: 4,
+          firstTimestamp: new Date(Date.now() - 600000).toISOString(),
+          lastTimestamp: new Date().toISOString(),
+          involvedObject: { kind: 'Pod', name: `${name}-worker-0` },
+          source: 'default-scheduler',
+        },
+        {
+          type: 'normal',
+          reason: 'Scheduled',
+          message: `Successfully assigned default/${name}-frontend-0 to node-1`,
+          count: 1,
+          firstTimestamp: new Date(Date.now() - 900000).toISOString(),
+          lastTimestamp: new Date(Date.now() - 900000).toISOString(),
+          involvedObject: { kind: 'Pod', name: `${name}-frontend-0` },
+          source: 'default-scheduler',
+        },
+      ],
+    })
+  }),
+
   // Health API
   http.get(`${API_BASE}/health`, () => {
     return HttpResponse.json({
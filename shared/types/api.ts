@@ -3,9 +3,10 @@
  */
 
 import { Model } from './model';
-import { DeploymentStatus, ClusterStatus } from './deployment';
+import { DeploymentStatus, ClusterStatus, LoraAdapter } from './deployment';
 import { ProviderInfo, Settings, ProviderDetails, InstallationStep } from './settings';
 import { InstallationStatus, InstallResult } from './installation';
+import { NodePoolInfo } from './autoscaler';
 
 /**
  * Pagination metadata
@@ -37,6 +38,10 @@ export interface ClusterStatusResponse extends ClusterStatus {
   } | null;
 }
 
+export interface NodePoolsResponse {
+  nodePools: NodePoolInfo[];
+}
+
 // ============================================================================
 // Models API Responses
 // ============================================================================
@@ -74,6 +79,65 @@ export interface DeploymentCreateResponse {
   warnings?: string[];
 }
 
+export interface DeploymentUpdateResponse {
+  message: string;
+  name: string;
+  namespace: string;
+  provider: string;
+  warnings?: string[];
+}
+
+export interface DeploymentConfigResponse {
+  config: import('./deployment').DeploymentConfig;
+}
+
+export interface DeploymentRevisionsResponse {
+  revisions: Omit<import('./deployment').DeploymentRevision, 'manifest'>[];
+}
+
+export interface DeploymentRollbackResponse {
+  message: string;
+  name: string;
+  namespace: string;
+  revision: number;              // Revision recorded for the rollback itself
+  rolledBackTo: number;          // Revision whose configuration was re-applied
+}
+
+export interface DeploymentAdaptersResponse {
+  message: string;
+  name: string;
+  namespace: string;
+  adapters: LoraAdapter[];       // Adapters configured after the change
+  warnings?: string[];
+}
+
+/**
+ * Outcome of submitting a previewed resource with dryRun=All
+ */
+export interface ManifestDryRunResult {
+  success: boolean;
+  /** API server or admission webhook error when rejected, or a note when accepted */
+  message?: string;
+  statusCode?: number;
+}
+
+export interface DeploymentPreviewResource {
+  kind: string;
+  apiVersion: string;
+  name: string;
+  manifest: Record<string, unknown>;
+  /** Present when the preview was requested with dryRun=true */
+  dryRun?: ManifestDryRunResult;
+}
+
+export interface DeploymentPreviewResponse {
+  resources: DeploymentPreviewResource[];
+  primaryResource: {
+    kind: string;
+    apiVersion: string;
+  };
+}
+
 export interface DeploymentDeleteResponse {
   message: string;
 }
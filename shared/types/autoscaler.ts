@@ -37,6 +37,16 @@ export interface NodePoolInfo {
   instanceType?: string;
   /** Cloud provider region */
   region?: string;
+  /** Labels set to the same value on every node in the pool */
+  labels?: Record<string, string>;
+  /** Taints found on the pool's nodes */
+  taints?: NodeTaint[];
+}
+
+export interface NodeTaint {
+  key: string;
+  value?: string;
+  effect: 'NoSchedule' | 'PreferNoSchedule' | 'NoExecute';
 }
 
 export interface DetailedClusterCapacity {
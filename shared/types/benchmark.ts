@@ -0,0 +1,81 @@
+/**
+ * Load benchmark types
+ */
+
+import type { AIConfiguratorPerformance } from './aiconfigurator';
+
+/**
+ * How to load a deployment. Each concurrency level is one step of the sweep.
+ */
+export interface BenchmarkConfig {
+  /** Concurrent requests per step, run in order */
+  concurrency: number[];
+  /** Approximate prompt length in tokens */
+  inputTokens: number;
+  /** Completion tokens requested per request */
+  outputTokens: number;
+  /** Requests per step; defaults to four per concurrent stream */
+  requestsPerStep?: number;
+  /** Stop each step after this many seconds, even if requests remain */
+  durationSeconds?: number;
+  /** GPU type to ask AI Configurator for an estimate to compare against */
+  gpuType?: string;
+  /** GPUs per replica for the estimate */
+  gpuCount?: number;
+}
+
+export type CreateBenchmarkRequest = Omit<BenchmarkConfig, 'inputTokens' | 'outputTokens'>
+  & Partial<Pick<BenchmarkConfig, 'inputTokens' | 'outputTokens'>>;
+
+/**
+ * Latency distribution in milliseconds
+ */
+export interface LatencyStats {
+  mean: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+/**
+ * Results at one concurrency level
+ */
+export interface BenchmarkStepResult {
+  concurrency: number;
+  completedRequests: number;
+  failedRequests: number;
+  durationSeconds: number;
+  /** Time to first token */
+  ttftMs: LatencyStats;
+  /** Inter-token latency, averaged within each request */
+  itlMs: LatencyStats;
+  /** End-to-end request latency */
+  latencyMs: LatencyStats;
+  /** Output tokens per second across all streams */
+  outputTokensPerSecond: number;
+  requestsPerSecond: number;
+  /** First few distinct request errors */
+  errors?: string[];
+}
+
+export type BenchmarkStatus = 'running' | 'completed' | 'failed';
+
+export interface BenchmarkReport {
+  id: string;
+  deploymentName: string;
+  namespace: string;
+  model: string;
+  status: BenchmarkStatus;
+  config: BenchmarkConfig;
+  /** One entry per finished step */
+  results: BenchmarkStepResult[];
+  /** AI Configurator estimate, when a GPU type was given and the tool is available */
+  estimatedPerformance?: AIConfiguratorPerformance;
+  startedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+export interface BenchmarkListResponse {
+  reports: BenchmarkReport[];
+}
@@ -1,4 +1,5 @@
 import { Engine } from './model';
+import { ModelCacheConfig } from './modelCache';
 
 export type DeploymentMode = 'aggregated' | 'disaggregated';
 export type GgufRunMode = 'build' | 'direct';
@@ -6,16 +7,94 @@ export type RouterMode = 'none' | 'kv' | 'round-robin';
 export type DeploymentPhase = 'Pending' | 'Deploying' | 'Running' | 'Failed' | 'Terminating';
 export type PodPhase = 'Pending' | 'Running' | 'Succeeded' | 'Failed' | 'Unknown';
 
+/**
+ * Pod scheduling types, mirroring the Kubernetes core/v1 fields of the same names
+ */
+export interface Toleration {
+  key?: string;
+  operator?: 'Equal' | 'Exists';
+  value?: string;
+  effect?: 'NoSchedule' | 'PreferNoSchedule' | 'NoExecute';
+  tolerationSeconds?: number;
+}
+
+export interface NodeSelectorRequirement {
+  key: string;
+  operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist' | 'Gt' | 'Lt';
+  values?: string[];
+}
+
+export interface NodeSelectorTerm {
+  matchExpressions?: NodeSelectorRequirement[];
+  matchFields?: NodeSelectorRequirement[];
+}
+
+export interface LabelSelector {
+  matchLabels?: Record<string, string>;
+  matchExpressions?: Array<{
+    key: string;
+    operator: 'In' | 'NotIn' | 'Exists' | 'DoesNotExist';
+    values?: string[];
+  }>;
+}
+
+export interface PodAffinityTerm {
+  labelSelector?: LabelSelector;
+  namespaces?: string[];
+  topologyKey: string;
+}
+
+export interface PodAffinity {
+  requiredDuringSchedulingIgnoredDuringExecution?: PodAffinityTerm[];
+  preferredDuringSchedulingIgnoredDuringExecution?: Array<{ weight: number; podAffinityTerm: PodAffinityTerm }>;
+}
+
+export interface Affinity {
+  nodeAffinity?: {
+    requiredDuringSchedulingIgnoredDuringExecution?: { nodeSelectorTerms: NodeSelectorTerm[] };
+    preferredDuringSchedulingIgnoredDuringExecution?: Array<{ weight: number; preference: NodeSelectorTerm }>;
+  };
+  podAffinity?: PodAffinity;
+  podAntiAffinity?: PodAffinity;
+}
+
+export interface TopologySpreadConstraint {
+  maxSkew: number;
+  topologyKey: string;
+  whenUnsatisfiable: 'DoNotSchedule' | 'ScheduleAnyway';
+  labelSelector?: LabelSelector;
+  minDomains?: number;
+}
+
+/**
+ * A LoRA adapter served on top of the base model under its own model name.
+ * Weights come from exactly one of a HuggingFace repo, a path on a PVC or a
+ * container image.
+ */
+export interface LoraAdapter {
+  name: string;                  // Model name clients request the adapter by
+  huggingFaceRepo?: string;      // e.g. 'org/llama-3-sql-lora'
+  pvc?: {
+    claimName: string;
+    path: string;                // Directory within the claim holding the adapter
+  };
+  image?: string;                // Image holding the adapter files, e.g. 'myregistry.azurecr.io/sql-lora:v1'
+}
+
+export type LoraAdapterSource = 'huggingface' | 'pvc' | 'image';
+
 export interface DeploymentConfig {
   name: string;                  // Kubernetes resource name
   namespace: string;             // Target namespace
   modelId: string;               // HuggingFace model ID
   engine: Engine;                // Inference engine
   mode: DeploymentMode;
-  provider?: 'dynamo' | 'kuberay' | 'kaito';  // Runtime provider (optional during transition)
+  provider?: 'dynamo' | 'kuberay' | 'kaito' | 'kserve' | 'native' | 'lws';  // Runtime provider (optional during transition)
   servedModelName?: string;      // Custom model name for API
   routerMode: RouterMode;
   replicas: number;              // Number of worker replicas (aggregated mode)
+  minReplicas?: number;          // Fewest serving replicas, for providers that autoscale
+  maxReplicas?: number;          // Most serving replicas, for providers that autoscale
   hfTokenSecret: string;         // K8s secret name for HF_TOKEN
   contextLength?: number;        // Optional context length override
   enforceEager: boolean;         // Enforce eager mode for quick deployment
@@ -27,6 +106,19 @@ export interface DeploymentConfig {
   };
   engineArgs?: Record<string, unknown>;  // Engine-specific arguments
 
+  // Scheduling, applied to the model server pods
+  nodeSelector?: Record<string, string>;
+  tolerations?: Toleration[];
+  affinity?: Affinity;
+  topologySpreadConstraints?: TopologySpreadConstraint[];
+
+  modelCache?: ModelCacheConfig; // PVC mounted as the HuggingFace cache
+  adapters?: LoraAdapter[];      // LoRA adapters served alongside the base model (vLLM)
+
+  // Multi-node serving (LeaderWorkerSet): resources.gpu is then per node
+  nodesPerReplica?: number;      // Nodes each replica spans, leader included
+  pipelineParallel?: number;     // Pipeline parallel size; tensor parallel covers the rest of a replica's GPUs
+
   // Disaggregated mode configuration (P/D separation)
   prefillReplicas?: number;      // Number of prefill worker replicas
   decodeReplicas?: number;       // Number of decode worker replicas
@@ -41,6 +133,14 @@ export interface DeploymentConfig {
   imageRef?: string;             // Built/resolved image reference
   computeType?: 'cpu' | 'gpu';   // Compute type for KAITO
   maxModelLen?: number;          // Max model length for vLLM mode
+
+  // KServe-specific fields
+  deploymentMode?: 'RawDeployment' | 'Serverless';  // How KServe runs the predictor
+  runtime?: string;              // ServingRuntime to use instead of KServe's choice
+
+  // Native and KServe fields
+  image?: string;                // Server image override (native)
+  cpu?: string;                  // CPU limit for the model server container
 }
 
 export interface PodStatus {
@@ -49,6 +149,7 @@ export interface PodStatus {
   ready: boolean;
   restarts: number;
   node?: string;
+  containers?: string[];         // Container names, in pod spec order
 }
 
 export interface Condition {
@@ -64,6 +165,7 @@ export interface DeploymentStatus {
   namespace: string;
   modelId: string;
   servedModelName?: string;      // Model name exposed via API (for clients)
+  adapters?: string[];           // LoRA adapter model names served alongside it
   engine: Engine;
   mode: DeploymentMode;
   phase: DeploymentPhase;
@@ -89,10 +191,79 @@ export interface DeploymentStatus {
   };
 }
 
+/**
+ * A Kubernetes Event about a deployment or one of its resources.
+ * Repeats of the same event are merged, with their occurrences summed in `count`.
+ */
+export interface DeploymentEvent {
+  type: 'warning' | 'normal';
+  reason: string;
+  message: string;
+  count: number;
+  firstTimestamp: string;
+  lastTimestamp: string;
+  involvedObject: {
+    kind: string;
+    name: string;
+  };
+  /** Component that reported the event, e.g. kubelet or default-scheduler */
+  source?: string;
+}
+
+export interface DeploymentEventsResponse {
+  /** Newest first */
+  events: DeploymentEvent[];
+}
+
+/**
+ * Event pushed over the deployment status stream (GET /deployments/stream).
+ * A snapshot is sent first, followed by incremental changes.
+ */
+export type DeploymentStreamEvent =
+  | { type: 'snapshot'; deployments: DeploymentStatus[] }
+  | { type: 'upsert'; deployment: DeploymentStatus }
+  | { type: 'delete'; name: string; namespace: string };
+
 export interface CreateDeploymentRequest {
   config: DeploymentConfig;
 }
 
+/**
+ * Fields that can be changed on an existing deployment.
+ * Name, namespace and provider identify the resource and are immutable.
+ */
+export type DeploymentUpdate = Partial<Omit<DeploymentConfig, 'name' | 'namespace' | 'provider'>>;
+
+/**
+ * A recorded revision of a deployment's configuration and generated manifest
+ */
+export interface DeploymentRevision {
+  revision: number;              // Monotonically increasing revision number
+  createdAt: string;             // When the revision was recorded
+  changeCause: string;           // What produced the revision (create, update, rollback)
+  config: DeploymentConfig;
+  manifest: Record<string, unknown>;
+}
+
+/**
+ * A single changed value between two revisions
+ */
+export interface DeploymentRevisionChange {
+  path: string;                  // Dot-separated path to the changed value
+  from?: unknown;                // Omitted when the value was added
+  to?: unknown;                  // Omitted when the value was removed
+}
+
+/**
+ * Differences between two revisions of a deployment
+ */
+export interface DeploymentRevisionDiff {
+  from: number;
+  to: number;
+  config: DeploymentRevisionChange[];
+  manifest: DeploymentRevisionChange[];
+}
+
 export interface DeploymentListResponse {
   deployments: DeploymentStatus[];
 }
@@ -125,3 +296,34 @@ export interface PodLogsResponse {
   podName: string;         // Pod the logs came from
   container?: string;      // Container name (if specified)
 }
+
+/**
+ * Options for the streaming logs endpoint (GET /deployments/:name/logs/stream)
+ */
+export interface LogStreamOptions {
+  podName?: string;        // Only stream this pod (defaults to all pods of the deployment)
+  container?: string;      // Only stream this container
+  previous?: boolean;      // Logs of the previous, terminated container instead of following
+  sinceSeconds?: number;   // Only lines newer than this many seconds
+  tailLines?: number;      // Lines of history per container before following
+  timestamps?: boolean;    // Include timestamps in log lines
+  filter?: string;         // Regular expression; only matching lines are sent
+}
+
+/**
+ * A single streamed log line
+ */
+export interface LogStreamLine {
+  pod: string;
+  container: string;
+  line: string;
+}
+
+/**
+ * A container whose log stream could not be opened or failed
+ */
+export interface LogStreamError {
+  pod: string;
+  container: string;
+  message: string;
+}
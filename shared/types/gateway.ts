@@ -0,0 +1,73 @@
+/**
+ * Model gateway API keys and usage accounting types
+ */
+
+/**
+ * An API key for the model gateway. The key itself is only returned once, on creation.
+ */
+export interface GatewayApiKey {
+  id: string;
+  name: string;
+  /** First characters of the key, to recognise it in listings */
+  prefix: string;
+  /** Served model names the key may use; empty allows every model */
+  models: string[];
+  /** Namespaces whose deployments the key may reach; empty allows every namespace */
+  namespaces: string[];
+  /** Requests per minute; unset means unlimited */
+  requestsPerMinute?: number;
+  /** Prompt plus completion tokens per minute; unset means unlimited */
+  tokensPerMinute?: number;
+  createdAt: string;
+}
+
+export interface CreateGatewayApiKeyRequest {
+  name: string;
+  models?: string[];
+  namespaces?: string[];
+  requestsPerMinute?: number;
+  tokensPerMinute?: number;
+}
+
+export interface CreateGatewayApiKeyResponse {
+  /** The secret key; store it now, it cannot be retrieved again */
+  key: string;
+  apiKey: GatewayApiKey;
+}
+
+export interface GatewayApiKeysResponse {
+  keys: GatewayApiKey[];
+}
+
+/**
+ * Usage of one key for one model on one UTC day
+ */
+export interface GatewayUsageRecord {
+  keyId: string;
+  model: string;
+  /** YYYY-MM-DD (UTC) */
+  date: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Usage summed over the requested period for one key
+ */
+export interface GatewayUsageTotal {
+  keyId: string;
+  /** Missing when the key has since been revoked */
+  keyName?: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface GatewayUsageResponse {
+  from?: string;
+  to?: string;
+  records: GatewayUsageRecord[];
+  totals: GatewayUsageTotal[];
+}
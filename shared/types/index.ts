@@ -8,3 +8,7 @@ export * from './metrics';
 export * from './autoscaler';
 export * from './aiconfigurator';
 export * from './costs';
+export * from './inference';
+export * from './gateway';
+export * from './benchmark';
+export * from './modelCache';
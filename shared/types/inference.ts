@@ -0,0 +1,64 @@
+/**
+ * OpenAI-compatible inference types shared by the playground and the model gateway
+ */
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+/**
+ * Chat completion request, as sent to a deployment's /v1/chat/completions
+ */
+export interface ChatCompletionRequest {
+  /** Defaults to the deployment's served model name */
+  model?: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stream?: boolean;
+}
+
+/**
+ * Token usage reported by the server
+ */
+export interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * One server-sent chunk of a streamed chat completion
+ */
+export interface ChatCompletionChunk {
+  id: string;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: { role?: ChatRole; content?: string | null };
+    finish_reason: string | null;
+  }>;
+  usage?: CompletionUsage | null;
+}
+
+/**
+ * A model served through the gateway, in the OpenAI /v1/models format
+ */
+export interface GatewayModel {
+  id: string;
+  object: 'model';
+  /** Unix seconds; the oldest deployment serving the model */
+  created: number;
+  owned_by: string;
+  /** Number of ready deployments serving the model */
+  backends: number;
+}
+
+export interface GatewayModelList {
+  object: 'list';
+  data: GatewayModel[];
+}
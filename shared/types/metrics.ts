@@ -44,8 +44,82 @@ export interface MetricsResponse {
   timestamp: string;
   /** Raw metric values from the inference service */
   metrics: RawMetricValue[];
-  /** True if KubeFoundry is running outside the cluster (metrics require in-cluster deployment) */
+  /** True if KubeFoundry is running outside the cluster and cannot scrape through the API server proxy */
   runningOffCluster?: boolean;
+  /** Where the metrics were read from */
+  source?: MetricsSourceId;
+  /** Key metrics of the deployment's provider and engine, in display order */
+  definitions?: MetricDefinition[];
+  /** Percentiles and rates of the provider's key metrics */
+  derived?: DerivedMetricValue[];
+}
+
+/**
+ * Percentiles of a histogram estimated from its buckets, in the metric's unit
+ */
+export interface HistogramPercentiles {
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+/**
+ * Values derived from a key metric's series over the last minute: the
+ * percentiles of the histogram observations and the per-second rate of a counter
+ */
+export interface DerivedMetricValue {
+  /** Key metric name */
+  name: string;
+  percentiles?: HistogramPercentiles;
+  rate?: number;
+}
+
+/**
+ * Where deployment metrics are read from: a Prometheus server queried with
+ * PromQL, or the deployment pods' own /metrics endpoints scraped directly or
+ * through the API server proxy
+ */
+export type MetricsSourceId = 'prometheus' | 'scrape';
+
+/**
+ * Time window for metric history
+ */
+export type MetricsRange = '15m' | '1h' | '24h';
+
+/**
+ * One point of a metric series
+ */
+export interface MetricSample {
+  /** Unix timestamp in seconds */
+  timestamp: number;
+  value: number;
+}
+
+/**
+ * History of one key metric over the requested range. Counters are per-second
+ * rates and histograms the mean observation, as for the current values.
+ */
+export interface MetricSeries {
+  name: string;
+  displayName: string;
+  unit: string;
+  type: MetricDefinition['type'];
+  category: MetricDefinition['category'];
+  samples: MetricSample[];
+}
+
+/**
+ * Response from the metrics history endpoint
+ */
+export interface MetricsHistoryResponse {
+  /** False when no Prometheus is configured or it could not be queried */
+  available: boolean;
+  error?: string;
+  range: MetricsRange;
+  /** Seconds between samples */
+  step: number;
+  series: MetricSeries[];
+  timestamp: string;
 }
 
 /**
@@ -58,6 +132,12 @@ export interface MetricsEndpointConfig {
   port: number;
   /** Pattern for constructing the service name. Use {name} as placeholder for deployment name */
   serviceNamePattern: string;
+  /**
+   * Regular expression matching the full names of the deployment's pods, used to select its
+   * series in Prometheus. Use {name} as placeholder for deployment name. Defaults to the pods
+   * of a Deployment or StatefulSet named after the deployment.
+   */
+  podNamePattern?: string;
 }
 
 /**
@@ -79,6 +159,10 @@ export interface ComputedMetric {
   category: 'throughput' | 'latency' | 'queue' | 'cache' | 'errors';
   /** Optional trend indicator comparing to previous value */
   trend?: 'up' | 'down' | 'stable';
+  /** Histogram percentiles, for tail latency */
+  percentiles?: HistogramPercentiles;
+  /** Per-second rate of a counter since the previous scrape */
+  rate?: number;
 }
 
 /**
@@ -93,6 +177,8 @@ export interface ComputedMetrics {
   lastUpdated: Date;
   /** Computed metric values */
   metrics: ComputedMetric[];
-  /** True if KubeFoundry is running outside the cluster (metrics require in-cluster deployment) */
+  /** True if KubeFoundry is running outside the cluster and cannot scrape through the API server proxy */
   runningOffCluster?: boolean;
+  /** Where the metrics were read from */
+  source?: MetricsSourceId;
 }
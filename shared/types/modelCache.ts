@@ -0,0 +1,51 @@
+/**
+ * A PersistentVolumeClaim shared by deployments as their HuggingFace cache.
+ * With a `size`, KubeFoundry creates the claim if it does not exist yet;
+ * without one, the claim must already exist.
+ */
+export interface ModelCacheConfig {
+  claimName: string;
+  size?: string;                 // e.g. '200Gi'
+  storageClassName?: string;     // Cluster default when omitted
+  accessMode?: 'ReadWriteOnce' | 'ReadWriteMany';  // ReadWriteMany when omitted
+}
+
+export type ModelPrefetchPhase = 'Pending' | 'Running' | 'Succeeded' | 'Failed';
+
+/**
+ * Download progress reported by a prefetch Job
+ */
+export interface ModelPrefetchProgress {
+  filesDone: number;
+  files: number;
+  bytesDone: number;
+  totalBytes: number;
+  currentFile?: string;
+}
+
+export interface ModelPrefetchRequest {
+  modelId: string;
+  namespace?: string;
+  modelCache: ModelCacheConfig;
+  revision?: string;             // Branch, tag or commit; main when omitted
+  hfTokenSecret?: string;        // Secret with HF_TOKEN, for gated models
+}
+
+/**
+ * A Job downloading a model into a cache claim
+ */
+export interface ModelPrefetchStatus {
+  name: string;                  // Job name
+  namespace: string;
+  modelId: string;
+  claimName: string;
+  phase: ModelPrefetchPhase;
+  progress?: ModelPrefetchProgress;
+  message?: string;              // Failure reason or last log line
+  startedAt?: string;
+  completedAt?: string;
+}
+
+export interface ModelPrefetchListResponse {
+  prefetches: ModelPrefetchStatus[];
+}
@@ -2,11 +2,39 @@
  * Settings and Provider types
  */
 
+import type { Engine } from './model';
+import type { DeploymentMode, LoraAdapterSource, RouterMode } from './deployment';
+
+/**
+ * What a provider can deploy. Config validation and the deploy form are both
+ * derived from it, so a new provider needs no provider-specific UI code.
+ */
+export interface ProviderCapabilities {
+  engines: Engine[];
+  modes: DeploymentMode[];
+  routerModes: RouterMode[];
+  /** Engines LoRA adapters can be served with; empty when unsupported */
+  adapterEngines: Engine[];
+  /** Where adapters can be loaded from; empty when unsupported */
+  adapterSources: LoraAdapterSource[];
+  /** Models can run on CPU-only nodes */
+  cpu: boolean;
+  /** GGUF model files can be served */
+  gguf: boolean;
+  /** Replica counts scale between a minimum and maximum */
+  autoscaling: boolean;
+  /** Extra engine arguments are passed through to the server */
+  engineArgs: boolean;
+  /** A replica can span several nodes */
+  multiNode: boolean;
+}
+
 export interface ProviderInfo {
   id: string;
   name: string;
   description: string;
   defaultNamespace: string;
+  capabilities: ProviderCapabilities;
 }
 
 export interface CRDConfig {
@@ -46,6 +74,8 @@ export interface AppConfig {
   /** @deprecated No longer used - each deployment specifies its own provider */
   activeProviderId?: string;
   defaultNamespace?: string;
+  /** Prometheus server deployment metrics are queried from, e.g. http://prometheus.monitoring:9090 */
+  prometheusUrl?: string;
 }
 
 /**